@@ -338,6 +338,12 @@ async function main() {
     { entityType: 'ASSET_REQUEST', entityLabel: 'Asset Request', code: 'AR', description: 'Asset request/return workflow', includeMonth: false, sequenceDigits: 3, isAssetCategory: false, isSystemRequired: true },
     { entityType: 'PROJECT', entityLabel: 'Project', code: 'PJ', description: 'Project tracking', includeMonth: false, sequenceDigits: 3, isAssetCategory: false, isSystemRequired: true },
     { entityType: 'PURCHASE_REQUEST', entityLabel: 'Purchase Request', code: 'PR', description: 'Purchase requests', includeMonth: true, sequenceDigits: 3, isAssetCategory: false, isSystemRequired: true },
+    { entityType: 'ASSET_AUDIT', entityLabel: 'Asset Audit', code: 'AU', description: 'Asset audit / stock-take campaigns', includeMonth: false, sequenceDigits: 3, isAssetCategory: false, isSystemRequired: true },
+    { entityType: 'ASSET_DISPOSAL', entityLabel: 'Asset Disposal', code: 'DS', description: 'Asset disposal requests and certificates', includeMonth: false, sequenceDigits: 3, isAssetCategory: false, isSystemRequired: true },
+    { entityType: 'PURCHASE_ORDER', entityLabel: 'Purchase Order', code: 'PO', description: 'Purchase orders issued to suppliers', includeMonth: false, sequenceDigits: 3, isAssetCategory: false, isSystemRequired: true },
+    { entityType: 'GOODS_RECEIPT', entityLabel: 'Goods Receipt', code: 'GR', description: 'Goods received against purchase requests', includeMonth: false, sequenceDigits: 3, isAssetCategory: false, isSystemRequired: true },
+    { entityType: 'FINAL_SETTLEMENT', entityLabel: 'Final Settlement', code: 'FS', description: 'End-of-service final settlements', includeMonth: false, sequenceDigits: 3, isAssetCategory: false, isSystemRequired: true },
+    { entityType: 'LEAVE_ENCASHMENT', entityLabel: 'Leave Encashment', code: 'LE', description: 'Requests to encash unused leave', includeMonth: false, sequenceDigits: 3, isAssetCategory: false, isSystemRequired: true },
 
     // Asset Categories
     { entityType: 'ASSET_CP', entityLabel: 'Asset - Computing', code: 'CP', description: 'Laptops, desktops, servers, workstations', includeMonth: false, sequenceDigits: 3, isAssetCategory: true, isSystemRequired: true },
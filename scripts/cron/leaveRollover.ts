@@ -0,0 +1,71 @@
+import { prisma } from '../../src/lib/prisma';
+import {
+  expireCarriedForwardLeave,
+  runLeaveRollover,
+} from '../../src/lib/domains/hr/leave/leave-rollover-service';
+
+/**
+ * Year-end leave rollover and carry-forward expiry.
+ *
+ * Run daily. In January the previous year's balances are rolled into the
+ * current year (safe to repeat: carried days are set, not added). Every run
+ * lapses carried days that passed their expiry date.
+ *
+ * Options:
+ *   --dry-run      Print what would change without writing
+ *   --year=2025    Roll over this year instead of waiting for January
+ */
+const args = process.argv.slice(2);
+const dryRun = args.includes('--dry-run');
+const yearArg = args.find(arg => arg.startsWith('--year='));
+
+async function rolloverLeave() {
+  const now = new Date();
+  const fromYear = yearArg ? parseInt(yearArg.split('=')[1], 10) : now.getFullYear() - 1;
+
+  if (!yearArg && now.getMonth() !== 0) {
+    console.log('📅 Not January - skipping year-end rollover');
+  } else {
+    console.log(`🔁 Rolling leave balances from ${fromYear} to ${fromYear + 1}${dryRun ? ' (dry run)' : ''}...`);
+    const report = await runLeaveRollover(fromYear, { dryRun });
+
+    for (const line of report.lines) {
+      console.log(
+        `   ${line.userName} · ${line.leaveTypeName}: ${line.unusedDays} unused, ` +
+        `${line.carryForward} carried, ${line.forfeited} forfeited`
+      );
+    }
+    console.log(
+      `✅ ${report.totals.carriedForward} days carried and ${report.totals.forfeited} forfeited ` +
+      `for ${report.totals.employees} employees; ${dryRun ? report.usersToInitialize : report.balancesCreated} ` +
+      `${dryRun ? 'employees to initialize' : 'balances created'}`
+    );
+  }
+
+  console.log(`⏳ Checking carried forward leave past expiry${dryRun ? ' (dry run)' : ''}...`);
+  const expiry = await expireCarriedForwardLeave({ dryRun });
+
+  for (const line of expiry.lines) {
+    console.log(`   ${line.userName} · ${line.leaveTypeName}: ${line.expiredDays} of ${line.carriedForward} carried days lapse`);
+  }
+  console.log(`✅ ${expiry.totalExpiredDays} carried days ${dryRun ? 'would lapse' : 'lapsed'} across ${expiry.lines.length} balances`);
+}
+
+async function main() {
+  try {
+    await rolloverLeave();
+    console.log('✅ Leave rollover completed');
+  } catch (error) {
+    console.error('❌ Leave rollover failed:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main();
+}
+
+export { rolloverLeave };
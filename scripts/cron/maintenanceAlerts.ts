@@ -0,0 +1,158 @@
+import { prisma } from '../../src/lib/prisma';
+import { sendEmail } from '../../src/lib/email';
+import { logAction, ActivityActions } from '../../src/lib/activity';
+import {
+  getDueMaintenanceTasks,
+  scheduleMaintenanceTasks,
+} from '../../src/lib/domains/operations/assets/maintenance-service';
+import {
+  MAINTENANCE_DUE_SOON_DAYS,
+  formatMaintenanceInterval,
+} from '../../src/lib/domains/operations/assets/maintenance-schedule';
+
+/**
+ * Preventive maintenance alerts.
+ *
+ * Run daily. Schedules the next task for assets newly covered by a plan,
+ * then emails admins the tasks that are overdue or due within a week.
+ */
+const ADMIN_EMAILS = process.env.ADMIN_EMAILS?.split(',').map(email => email.trim()) || [];
+
+type DueTask = Awaited<ReturnType<typeof getDueMaintenanceTasks>>[number];
+
+async function checkMaintenanceDue() {
+  console.log('🔍 Checking preventive maintenance...');
+
+  const scheduled = await scheduleMaintenanceTasks();
+  console.log(`📅 Scheduled ${scheduled} new maintenance task(s)`);
+
+  if (ADMIN_EMAILS.length === 0) {
+    console.log('❌ No admin emails configured. Set ADMIN_EMAILS environment variable.');
+    return;
+  }
+
+  const tasks = await getDueMaintenanceTasks({ days: MAINTENANCE_DUE_SOON_DAYS });
+  const overdue = tasks.filter(task => task.dueStatus === 'OVERDUE');
+  const dueSoon = tasks.filter(task => task.dueStatus === 'DUE_SOON');
+
+  if (tasks.length === 0) {
+    console.log(`✅ No maintenance overdue or due in ${MAINTENANCE_DUE_SOON_DAYS} days`);
+    return;
+  }
+
+  console.log(`⚠️ Found ${overdue.length} overdue and ${dueSoon.length} upcoming maintenance task(s)`);
+
+  const emailSubject = overdue.length > 0
+    ? `DAMP Alert: ${overdue.length} Maintenance Task(s) Overdue`
+    : `DAMP Alert: ${dueSoon.length} Maintenance Task(s) Due in ${MAINTENANCE_DUE_SOON_DAYS} Days`;
+  const emailHtml = generateMaintenanceEmailHtml(overdue, dueSoon);
+
+  for (const adminEmail of ADMIN_EMAILS) {
+    try {
+      await sendEmail({
+        to: adminEmail,
+        subject: emailSubject,
+        html: emailHtml,
+      });
+      console.log(`✅ Maintenance alert sent to ${adminEmail}`);
+    } catch (error) {
+      console.error(`❌ Failed to send maintenance alert to ${adminEmail}:`, error);
+    }
+  }
+
+  await logAction(
+    null, // System action
+    ActivityActions.ALERT_MAINTENANCE_DUE,
+    'Asset',
+    undefined,
+    {
+      overdue: overdue.length,
+      dueSoon: dueSoon.length,
+      tasks: tasks.map(task => ({
+        id: task.id,
+        plan: task.plan.name,
+        assetId: task.asset.id,
+        assetTag: task.asset.assetTag,
+        dueDate: task.dueDate,
+        dueStatus: task.dueStatus,
+      })),
+    }
+  );
+}
+
+function generateTaskRows(tasks: DueTask[]): string {
+  return tasks.map(task => `
+    <tr style="border-bottom: 1px solid #eee;">
+      <td style="padding: 8px; font-weight: 500;">${task.asset.assetTag || task.asset.model}</td>
+      <td style="padding: 8px;">${task.asset.type}</td>
+      <td style="padding: 8px;">${task.plan.name}</td>
+      <td style="padding: 8px;">${formatMaintenanceInterval(task.plan.intervalValue, task.plan.intervalUnit)}</td>
+      <td style="padding: 8px;">${task.plan.vendor || 'N/A'}</td>
+      <td style="padding: 8px;">${task.dueDate.toLocaleDateString()}</td>
+    </tr>
+  `).join('');
+}
+
+function generateTaskTable(title: string, color: string, tasks: DueTask[]): string {
+  if (tasks.length === 0) return '';
+
+  return `
+    <h2 style="color: ${color}; font-size: 16px; margin: 20px 0 10px;">${title} (${tasks.length})</h2>
+    <table style="width: 100%; border-collapse: collapse; margin-bottom: 20px; font-size: 14px;">
+      <thead>
+        <tr style="background-color: #f8f9fa;">
+          <th style="padding: 12px 8px; text-align: left; border-bottom: 2px solid #ddd;">Asset</th>
+          <th style="padding: 12px 8px; text-align: left; border-bottom: 2px solid #ddd;">Type</th>
+          <th style="padding: 12px 8px; text-align: left; border-bottom: 2px solid #ddd;">Plan</th>
+          <th style="padding: 12px 8px; text-align: left; border-bottom: 2px solid #ddd;">Interval</th>
+          <th style="padding: 12px 8px; text-align: left; border-bottom: 2px solid #ddd;">Vendor</th>
+          <th style="padding: 12px 8px; text-align: left; border-bottom: 2px solid #ddd;">Due Date</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${generateTaskRows(tasks)}
+      </tbody>
+    </table>
+  `;
+}
+
+function generateMaintenanceEmailHtml(overdue: DueTask[], dueSoon: DueTask[]): string {
+  return `
+    <div style="font-family: Arial, sans-serif; max-width: 700px; margin: 0 auto; padding: 20px;">
+      <h1 style="color: #1e90ff; margin-bottom: 20px;">DAMP Preventive Maintenance Alert</h1>
+
+      <p style="margin-bottom: 20px;">
+        <strong>${overdue.length}</strong> maintenance task(s) are overdue and
+        <strong>${dueSoon.length}</strong> are due in the next ${MAINTENANCE_DUE_SOON_DAYS} days.
+        Please arrange the work and record it from the Maintenance page.
+      </p>
+
+      ${generateTaskTable('Overdue', '#ef4444', overdue)}
+      ${generateTaskTable('Due Soon', '#f59e0b', dueSoon)}
+
+      <p style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #eee; color: #666; font-size: 12px;">
+        This is an automated alert from the DAMP system.
+        <br>Generated on ${new Date().toLocaleString()}
+      </p>
+    </div>
+  `;
+}
+
+async function main() {
+  try {
+    await checkMaintenanceDue();
+    console.log('✅ Preventive maintenance check completed');
+  } catch (error) {
+    console.error('❌ Preventive maintenance check failed:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main();
+}
+
+export { checkMaintenanceDue };
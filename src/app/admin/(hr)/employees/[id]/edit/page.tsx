@@ -8,9 +8,11 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { ArrowLeft, User, Loader2, Shield, Calendar } from 'lucide-react';
+import { ArrowLeft, User, Loader2, Shield, Calendar, Network, Gift } from 'lucide-react';
 import { Switch } from '@/components/ui/switch';
 import { HRProfileForm } from '@/components/hr';
+import { ReportingLineEditor } from '@/components/domains/hr/employees';
+import { GratuityPolicyAssignment } from '@/components/domains/hr/payroll';
 import { toast } from 'sonner';
 import Link from 'next/link';
 
@@ -57,6 +59,10 @@ interface HRProfileData {
   employeeId: string | null;
   designation: string | null;
   dateOfJoining: string | null;
+  managerId: string | null;
+  departmentId: string | null;
+  contractType: string | null;
+  gratuityPolicyId: string | null;
   bankName: string | null;
   iban: string | null;
   highestQualification: string | null;
@@ -75,6 +81,7 @@ interface HRProfileData {
   workEmail?: string;
   isAdmin?: boolean;
   bypassNoticeRequirement?: boolean;
+  isCriticalRole?: boolean;
 }
 
 const ROLES = [
@@ -94,6 +101,8 @@ export default function AdminEmployeeEditPage() {
   const [isUpdatingRole, setIsUpdatingRole] = useState(false);
   const [bypassNotice, setBypassNotice] = useState(false);
   const [isUpdatingBypass, setIsUpdatingBypass] = useState(false);
+  const [criticalRole, setCriticalRole] = useState(false);
+  const [isUpdatingCriticalRole, setIsUpdatingCriticalRole] = useState(false);
 
   const employeeId = params?.id as string;
 
@@ -129,6 +138,7 @@ export default function AdminEmployeeEditPage() {
         setSelectedRole(data.user.role);
       }
       setBypassNotice(data.bypassNoticeRequirement === true);
+      setCriticalRole(data.isCriticalRole === true);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load HR profile');
     } finally {
@@ -193,6 +203,30 @@ export default function AdminEmployeeEditPage() {
     }
   };
 
+  const updateCriticalRole = async (enabled: boolean) => {
+    setIsUpdatingCriticalRole(true);
+    try {
+      const response = await fetch(`/api/users/${employeeId}/hr-profile`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isCriticalRole: enabled }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to update setting');
+      }
+
+      setCriticalRole(enabled);
+      toast.success(enabled ? 'Marked as a critical role' : 'No longer a critical role');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update setting');
+      setCriticalRole(!enabled); // Revert on error
+    } finally {
+      setIsUpdatingCriticalRole(false);
+    }
+  };
+
   const getRoleBadgeVariant = (role: string) => {
     switch (role) {
       case 'ADMIN':
@@ -326,6 +360,52 @@ export default function AdminEmployeeEditPage() {
             </Card>
           )}
 
+          {/* Reporting Line */}
+          {hrProfile && (
+            <Card className="mb-6">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Network className="h-5 w-5" />
+                  Reporting Line
+                </CardTitle>
+                <CardDescription>
+                  Line manager and department. Managers see their team&apos;s leave, assets and requests.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ReportingLineEditor
+                  userId={employeeId}
+                  managerId={hrProfile.managerId}
+                  departmentId={hrProfile.departmentId}
+                  onSaved={() => fetchHRProfile(true)}
+                />
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Gratuity */}
+          {hrProfile && (
+            <Card className="mb-6">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Gift className="h-5 w-5" />
+                  Contract & Gratuity
+                </CardTitle>
+                <CardDescription>
+                  Gratuity follows the policy assigned here, else the policy for the contract type, else the default policy.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <GratuityPolicyAssignment
+                  userId={employeeId}
+                  contractType={hrProfile.contractType}
+                  gratuityPolicyId={hrProfile.gratuityPolicyId}
+                  onSaved={() => fetchHRProfile(true)}
+                />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Leave Settings */}
           {hrProfile && (
             <Card className="mb-6">
@@ -365,6 +445,25 @@ export default function AdminEmployeeEditPage() {
                     </p>
                   </div>
                 )}
+                <div className="flex items-center justify-between mt-4 pt-4 border-t">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="critical-role">Critical Role</Label>
+                    <p className="text-sm text-gray-500">
+                      Critical-role coverage rules limit how many critical employees can be on leave at the same time
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {isUpdatingCriticalRole && (
+                      <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+                    )}
+                    <Switch
+                      id="critical-role"
+                      checked={criticalRole}
+                      onCheckedChange={updateCriticalRole}
+                      disabled={isUpdatingCriticalRole}
+                    />
+                  </div>
+                </div>
               </CardContent>
             </Card>
           )}
@@ -39,7 +39,12 @@ export default async function AdminEmployeeDetailPage({ params }: Props) {
   const employee = await prisma.user.findUnique({
     where: { id },
     include: {
-      hrProfile: true,
+      hrProfile: {
+        include: {
+          manager: { select: { id: true, name: true, email: true } },
+          department: { select: { id: true, name: true, costCenter: true } },
+        },
+      },
       _count: {
         select: {
           assets: true,
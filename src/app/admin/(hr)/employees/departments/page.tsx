@@ -0,0 +1,54 @@
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { redirect } from 'next/navigation';
+import { Role } from '@prisma/client';
+import Link from 'next/link';
+import { DepartmentManager } from '@/components/domains/hr/employees';
+
+export default async function AdminDepartmentsPage() {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    redirect('/login');
+  }
+
+  if (process.env.NODE_ENV !== 'development' && session.user.role !== Role.ADMIN) {
+    redirect('/forbidden');
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container mx-auto py-8 px-4">
+        <div className="max-w-7xl mx-auto">
+          <div className="mb-8">
+            <div className="flex justify-between items-start mb-4">
+              <div>
+                <h1 className="text-3xl font-bold text-gray-900 mb-2">Departments & Teams</h1>
+                <p className="text-gray-600">
+                  Organize employees into departments and teams, each with its own cost center
+                </p>
+              </div>
+              <Link href="/admin/employees/org-chart">
+                <Button variant="outline">Org Chart</Button>
+              </Link>
+            </div>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>All Departments</CardTitle>
+              <CardDescription>
+                Assign employees to a department from their profile
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <DepartmentManager />
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { redirect } from 'next/navigation';
+import { Role } from '@prisma/client';
+import Link from 'next/link';
+import { OrgChartTree } from '@/components/domains/hr/employees';
+
+export default async function AdminOrgChartPage() {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    redirect('/login');
+  }
+
+  if (process.env.NODE_ENV !== 'development' && session.user.role !== Role.ADMIN) {
+    redirect('/forbidden');
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container mx-auto py-8 px-4">
+        <div className="max-w-7xl mx-auto">
+          <div className="mb-8">
+            <div className="flex justify-between items-start mb-4">
+              <div>
+                <h1 className="text-3xl font-bold text-gray-900 mb-2">Org Chart</h1>
+                <p className="text-gray-600">
+                  Reporting lines across the company. Set an employee&apos;s manager from their profile.
+                </p>
+              </div>
+              <div className="flex gap-3">
+                <Link href="/admin/employees/departments">
+                  <Button variant="outline">Departments</Button>
+                </Link>
+                <Link href="/admin/employees">
+                  <Button variant="outline">All Employees</Button>
+                </Link>
+              </div>
+            </div>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Reporting Lines</CardTitle>
+              <CardDescription>
+                Managers with their direct and indirect reports
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <OrgChartTree />
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -39,6 +39,9 @@ export default async function AdminEmployeesPage() {
                 </p>
               </div>
               <div className="flex gap-3">
+                <Link href="/admin/employees/org-chart">
+                  <Button variant="outline">Org Chart</Button>
+                </Link>
                 <Link href="/admin/employees/change-requests">
                   <Button variant="outline" className="relative">
                     Change Requests
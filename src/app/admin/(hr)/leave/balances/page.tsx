@@ -7,7 +7,7 @@ import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { AdjustBalanceDialog } from '@/components/leave/adjust-balance-dialog';
-import { Search, ChevronLeft, ChevronRight, Plus, User, ExternalLink, ChevronDown, ChevronUp } from 'lucide-react';
+import { Search, Plus, User, ExternalLink, ChevronDown, ChevronUp, RefreshCw } from 'lucide-react';
 import { calculateRemainingBalance, getAnnualLeaveDetails } from '@/lib/leave-utils';
 import Link from 'next/link';
 import { toast } from 'sonner';
@@ -271,10 +271,18 @@ export default function AdminLeaveBalancesPage() {
                 View and manage employee leave balances grouped by employee
               </p>
             </div>
-            <Button onClick={() => setInitDialogOpen(true)}>
-              <Plus className="h-4 w-4 mr-2" />
-              Initialize Balance
-            </Button>
+            <div className="flex gap-2">
+              <Button asChild variant="outline">
+                <Link href="/admin/leave/rollover">
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  Year-End Rollover
+                </Link>
+              </Button>
+              <Button onClick={() => setInitDialogOpen(true)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Initialize Balance
+              </Button>
+            </div>
           </div>
         </div>
 
@@ -0,0 +1,507 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ChevronLeft, ChevronRight, Upload, RefreshCw, Pencil, Trash2, ArrowLeft } from 'lucide-react';
+import { PublicHolidayForm } from '@/components/domains/hr/leave';
+import { getDateRangeText, formatLeaveDays } from '@/lib/leave-utils';
+import { toDateKey } from '@/lib/domains/hr/leave/holiday-calendar';
+import { toast } from 'sonner';
+import Link from 'next/link';
+
+interface PublicHoliday {
+  id: string;
+  name: string;
+  description?: string | null;
+  startDate: string;
+  endDate: string;
+  isRecurring: boolean;
+  color: string;
+  source: string;
+  isActive: boolean;
+}
+
+interface RecalculationItem {
+  leaveRequestId: string;
+  requestNumber: string;
+  userName: string | null;
+  leaveTypeName: string;
+  status: string;
+  startDate: string;
+  endDate: string;
+  oldTotalDays: number;
+  newTotalDays: number;
+}
+
+interface ImportPreview {
+  total: number;
+  toImport: number;
+  skipped: number;
+  holidays: Array<{ name: string; startDate: string; endDate: string; isRecurring: boolean }>;
+}
+
+export default function AdminPublicHolidaysPage() {
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [holidays, setHolidays] = useState<PublicHoliday[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingHoliday, setEditingHoliday] = useState<PublicHoliday | null>(null);
+  const [deleteId, setDeleteId] = useState<string | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  // ICS import
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [icsContent, setIcsContent] = useState<string | null>(null);
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  // Recalculation of existing requests
+  const [recalcItems, setRecalcItems] = useState<RecalculationItem[] | null>(null);
+  const [isRecalculating, setIsRecalculating] = useState(false);
+
+  const fetchHolidays = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/leave/holidays?year=${year}&includeInactive=true`);
+      if (response.ok) {
+        const data = await response.json();
+        setHolidays(data.holidays);
+      }
+    } catch (error) {
+      console.error('Failed to fetch public holidays:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [year]);
+
+  useEffect(() => {
+    fetchHolidays();
+  }, [fetchHolidays]);
+
+  const previewRecalculation = async () => {
+    setIsRecalculating(true);
+    try {
+      const response = await fetch('/api/leave/holidays/recalculate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ dryRun: true }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to check leave requests');
+        return;
+      }
+      if (data.count === 0) {
+        toast.success('All pending and approved leave requests already match the holiday calendar');
+        return;
+      }
+      setRecalcItems(data.items);
+    } catch (error) {
+      console.error('Failed to preview recalculation:', error);
+      toast.error('An error occurred');
+    } finally {
+      setIsRecalculating(false);
+    }
+  };
+
+  const applyRecalculation = async () => {
+    setIsRecalculating(true);
+    try {
+      const response = await fetch('/api/leave/holidays/recalculate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ dryRun: false }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to recalculate leave requests');
+        return;
+      }
+      toast.success(`Recalculated ${data.updated} leave request(s)`);
+      setRecalcItems(null);
+    } catch (error) {
+      console.error('Failed to apply recalculation:', error);
+      toast.error('An error occurred');
+    } finally {
+      setIsRecalculating(false);
+    }
+  };
+
+  const handleSaved = (result: { affectedRequests?: number }) => {
+    setEditingHoliday(null);
+    fetchHolidays();
+    if (result.affectedRequests && result.affectedRequests > 0) {
+      toast.info(`${result.affectedRequests} existing leave request(s) overlap this holiday`, {
+        action: { label: 'Review', onClick: previewRecalculation },
+      });
+    } else {
+      toast.success('Public holiday saved');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteId) return;
+
+    setIsDeleting(true);
+    try {
+      const response = await fetch(`/api/leave/holidays/${deleteId}`, { method: 'DELETE' });
+      if (response.ok) {
+        toast.success('Public holiday deleted');
+        fetchHolidays();
+      } else {
+        const data = await response.json();
+        toast.error(data.error || 'Failed to delete public holiday');
+      }
+    } catch (error) {
+      console.error('Failed to delete public holiday:', error);
+      toast.error('An error occurred while deleting public holiday');
+    } finally {
+      setIsDeleting(false);
+      setDeleteId(null);
+    }
+  };
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const content = await file.text();
+      const response = await fetch('/api/leave/holidays/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content, dryRun: true }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to read ICS file');
+        return;
+      }
+      setIcsContent(content);
+      setImportPreview(data);
+    } catch (error) {
+      console.error('Failed to read ICS file:', error);
+      toast.error('Failed to read ICS file');
+    }
+  };
+
+  const confirmImport = async () => {
+    if (!icsContent) return;
+
+    setIsImporting(true);
+    try {
+      const response = await fetch('/api/leave/holidays/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content: icsContent, dryRun: false }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to import holidays');
+        return;
+      }
+      toast.success(`Imported ${data.imported} holiday(s)${data.skipped ? `, ${data.skipped} skipped` : ''}`, {
+        action: { label: 'Check leave requests', onClick: previewRecalculation },
+      });
+      setImportPreview(null);
+      setIcsContent(null);
+      fetchHolidays();
+    } catch (error) {
+      console.error('Failed to import holidays:', error);
+      toast.error('An error occurred during import');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const toFormDate = (value: string) => toDateKey(new Date(value));
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-8">
+          <Link href="/admin/leave/calendar" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-2">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Team Calendar
+          </Link>
+          <div className="flex justify-between items-start">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900 mb-2">Public Holidays</h1>
+              <p className="text-gray-600">
+                Holidays are excluded when counting leave days and unpaid leave deductions
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".ics,text/calendar"
+                className="hidden"
+                onChange={handleFileSelected}
+              />
+              <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+                <Upload className="h-4 w-4 mr-2" />
+                Import ICS
+              </Button>
+              <Button variant="outline" onClick={previewRecalculation} disabled={isRecalculating}>
+                <RefreshCw className={`h-4 w-4 mr-2 ${isRecalculating ? 'animate-spin' : ''}`} />
+                Recalculate Requests
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <div className="grid lg:grid-cols-3 gap-6">
+          {/* Create Form */}
+          <div>
+            <Card>
+              <CardHeader>
+                <CardTitle>Add Holiday</CardTitle>
+                <CardDescription>One-off or recurring public holiday</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <PublicHolidayForm onSuccess={handleSaved} />
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Holidays List */}
+          <div className="lg:col-span-2">
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle>Holidays in {year}</CardTitle>
+                  <div className="flex items-center gap-2">
+                    <Button variant="outline" size="icon" onClick={() => setYear(y => y - 1)}>
+                      <ChevronLeft className="h-4 w-4" />
+                    </Button>
+                    <span className="font-semibold min-w-[60px] text-center">{year}</span>
+                    <Button variant="outline" size="icon" onClick={() => setYear(y => y + 1)}>
+                      <ChevronRight className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {loading ? (
+                  <div className="text-center py-8">Loading...</div>
+                ) : holidays.length === 0 ? (
+                  <div className="py-8 text-center text-gray-500">
+                    No public holidays configured for {year}.
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Holiday</TableHead>
+                        <TableHead>Dates</TableHead>
+                        <TableHead>Type</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {holidays.map((holiday) => (
+                        <TableRow key={holiday.id}>
+                          <TableCell>
+                            <div className="flex items-center gap-2">
+                              <div className="w-3 h-3 rounded-full" style={{ backgroundColor: holiday.color }} />
+                              <span className="font-medium">{holiday.name}</span>
+                            </div>
+                            {holiday.description && (
+                              <div className="text-xs text-gray-500 mt-1">{holiday.description}</div>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            {holiday.isRecurring
+                              ? getDateRangeText(new Date(holiday.startDate), new Date(holiday.endDate)).replace(/ \d{4}$/, '')
+                              : getDateRangeText(new Date(holiday.startDate), new Date(holiday.endDate))}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap gap-1">
+                              <Badge variant="outline">{holiday.isRecurring ? 'Every year' : 'One-off'}</Badge>
+                              {holiday.source === 'ICS_IMPORT' && <Badge variant="secondary">Imported</Badge>}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={holiday.isActive ? 'default' : 'outline'}>
+                              {holiday.isActive ? 'Active' : 'Inactive'}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex justify-end gap-1">
+                              <Button variant="ghost" size="icon" onClick={() => setEditingHoliday(holiday)}>
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button variant="ghost" size="icon" onClick={() => setDeleteId(holiday.id)}>
+                                <Trash2 className="h-4 w-4 text-red-600" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+
+        {/* Edit Dialog */}
+        <Dialog open={!!editingHoliday} onOpenChange={() => setEditingHoliday(null)}>
+          <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Edit Public Holiday</DialogTitle>
+            </DialogHeader>
+            {editingHoliday && (
+              <PublicHolidayForm
+                isEdit
+                holidayId={editingHoliday.id}
+                initialData={{
+                  ...editingHoliday,
+                  startDate: toFormDate(editingHoliday.startDate),
+                  endDate: toFormDate(editingHoliday.endDate),
+                }}
+                onSuccess={handleSaved}
+              />
+            )}
+          </DialogContent>
+        </Dialog>
+
+        {/* Import Preview */}
+        <Dialog open={!!importPreview} onOpenChange={() => { setImportPreview(null); setIcsContent(null); }}>
+          <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Import Holidays</DialogTitle>
+              <DialogDescription>
+                {importPreview?.toImport} of {importPreview?.total} event(s) will be imported
+                {importPreview?.skipped ? ` (${importPreview.skipped} already exist)` : ''}.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              {importPreview?.holidays.map((holiday, index) => (
+                <div key={index} className="flex items-center justify-between text-sm border-b pb-2">
+                  <span className="font-medium">{holiday.name}</span>
+                  <span className="text-gray-500">
+                    {getDateRangeText(new Date(holiday.startDate), new Date(holiday.endDate))}
+                    {holiday.isRecurring && ' (yearly)'}
+                  </span>
+                </div>
+              ))}
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => { setImportPreview(null); setIcsContent(null); }}>
+                Cancel
+              </Button>
+              <Button onClick={confirmImport} disabled={isImporting || importPreview?.toImport === 0}>
+                {isImporting ? 'Importing...' : 'Import'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        {/* Recalculation Preview */}
+        <Dialog open={!!recalcItems} onOpenChange={() => setRecalcItems(null)}>
+          <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Recalculate Leave Requests</DialogTitle>
+              <DialogDescription>
+                These pending and approved requests were charged for days that are now public holidays.
+                Balances will be adjusted by the difference.
+              </DialogDescription>
+            </DialogHeader>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Request</TableHead>
+                  <TableHead>Employee</TableHead>
+                  <TableHead>Dates</TableHead>
+                  <TableHead className="text-right">Charged</TableHead>
+                  <TableHead className="text-right">Recalculated</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {recalcItems?.map((item) => (
+                  <TableRow key={item.leaveRequestId}>
+                    <TableCell>
+                      <Link href={`/admin/leave/requests/${item.leaveRequestId}`} className="text-blue-600 hover:underline">
+                        {item.requestNumber}
+                      </Link>
+                      <div className="text-xs text-gray-500">{item.leaveTypeName} · {item.status}</div>
+                    </TableCell>
+                    <TableCell>{item.userName}</TableCell>
+                    <TableCell className="text-sm">
+                      {getDateRangeText(new Date(item.startDate), new Date(item.endDate))}
+                    </TableCell>
+                    <TableCell className="text-right">{formatLeaveDays(item.oldTotalDays)}</TableCell>
+                    <TableCell className="text-right font-medium">{formatLeaveDays(item.newTotalDays)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setRecalcItems(null)}>
+                Cancel
+              </Button>
+              <Button onClick={applyRecalculation} disabled={isRecalculating}>
+                {isRecalculating ? 'Applying...' : `Apply to ${recalcItems?.length ?? 0} request(s)`}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        {/* Delete Confirmation */}
+        <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete Public Holiday?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Existing leave requests are not changed automatically. Use &quot;Recalculate Requests&quot;
+                afterwards if days need to be charged again.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={handleDelete}
+                disabled={isDeleting}
+                className="bg-red-600 hover:bg-red-700"
+              >
+                {isDeleting ? 'Deleting...' : 'Delete'}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </div>
+  );
+}
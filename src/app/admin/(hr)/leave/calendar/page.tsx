@@ -7,6 +7,7 @@ import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { ChevronLeft, ChevronRight, Calendar as CalendarIcon } from 'lucide-react';
 import { getLeaveStatusVariant, formatLeaveDays } from '@/lib/leave-utils';
+import { HolidayOccurrence, toDateKey } from '@/lib/domains/hr/leave/holiday-calendar';
 import Link from 'next/link';
 
 interface CalendarEvent {
@@ -36,6 +37,7 @@ interface LeaveType {
 
 export default function AdminLeaveCalendarPage() {
   const [events, setEvents] = useState<CalendarEvent[]>([]);
+  const [holidays, setHolidays] = useState<HolidayOccurrence[]>([]);
   const [leaveTypes, setLeaveTypes] = useState<LeaveType[]>([]);
   const [loading, setLoading] = useState(true);
   const [currentDate, setCurrentDate] = useState(new Date());
@@ -57,11 +59,23 @@ export default function AdminLeaveCalendarPage() {
         params.set('status', statusFilter.toUpperCase());
       }
 
-      const response = await fetch(`/api/leave/calendar?${params}`);
+      const holidayParams = new URLSearchParams({
+        startDate: toDateKey(firstDay),
+        endDate: toDateKey(lastDay),
+      });
+
+      const [response, holidaysResponse] = await Promise.all([
+        fetch(`/api/leave/calendar?${params}`),
+        fetch(`/api/leave/holidays?${holidayParams}`),
+      ]);
       if (response.ok) {
         const data = await response.json();
         setEvents(data.events);
       }
+      if (holidaysResponse.ok) {
+        const data = await holidaysResponse.json();
+        setHolidays(data.occurrences || []);
+      }
     } catch (error) {
       console.error('Failed to fetch calendar events:', error);
     } finally {
@@ -109,7 +123,7 @@ export default function AdminLeaveCalendarPage() {
     const lastDay = new Date(year, month + 1, 0);
     const startingDayOfWeek = firstDay.getDay();
 
-    const days: Array<{ date: Date | null; events: CalendarEvent[] }> = [];
+    const days: Array<{ date: Date | null; events: CalendarEvent[]; holiday?: HolidayOccurrence }> = [];
 
     // Add empty days for the start of the month
     for (let i = 0; i < startingDayOfWeek; i++) {
@@ -128,7 +142,9 @@ export default function AdminLeaveCalendarPage() {
         return dateStr >= eventStart && dateStr <= eventEnd;
       });
 
-      days.push({ date, events: dayEvents });
+      const holiday = holidays.find(h => h.date === toDateKey(date));
+
+      days.push({ date, events: dayEvents, holiday });
     }
 
     return days;
@@ -156,6 +172,12 @@ export default function AdminLeaveCalendarPage() {
                 View all team leave schedules at a glance
               </p>
             </div>
+            <Button variant="outline" asChild>
+              <Link href="/admin/leave/calendar/holidays">
+                <CalendarIcon className="h-4 w-4 mr-2" />
+                Public Holidays
+              </Link>
+            </Button>
           </div>
         </div>
 
@@ -203,6 +225,12 @@ export default function AdminLeaveCalendarPage() {
                   <span>{type.name}</span>
                 </div>
               ))}
+              {holidays.length > 0 && (
+                <div className="flex items-center gap-2 text-sm">
+                  <div className="w-3 h-3 rounded bg-emerald-100 border border-emerald-400" />
+                  <span>Public Holiday</span>
+                </div>
+              )}
             </div>
 
             {loading ? (
@@ -229,7 +257,7 @@ export default function AdminLeaveCalendarPage() {
                       key={index}
                       className={`min-h-[120px] p-2 ${
                         day.date ? 'bg-white' : 'bg-gray-50'
-                      } ${isWeekend ? 'bg-gray-50' : ''}`}
+                      } ${isWeekend ? 'bg-gray-50' : ''} ${day.holiday ? 'bg-emerald-50' : ''}`}
                     >
                       {day.date && (
                         <>
@@ -242,6 +270,11 @@ export default function AdminLeaveCalendarPage() {
                           >
                             {day.date.getDate()}
                           </div>
+                          {day.holiday && (
+                            <div className="text-xs text-emerald-700 font-medium truncate mb-1" title={day.holiday.name}>
+                              {day.holiday.name}
+                            </div>
+                          )}
                           <div className="space-y-1">
                             {day.events.slice(0, 3).map(event => (
                               <Link
@@ -0,0 +1,27 @@
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { redirect } from 'next/navigation';
+import { Role } from '@prisma/client';
+import { LeaveEncashments } from '@/components/domains/hr/leave';
+
+export default async function AdminLeaveEncashmentsPage() {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user.role !== Role.ADMIN) {
+    redirect('/');
+  }
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold">Leave Encashment</h1>
+          <p className="text-muted-foreground">
+            Review employee requests to be paid out for unused leave
+          </p>
+        </div>
+
+        <LeaveEncashments canReview />
+      </div>
+    </div>
+  );
+}
@@ -5,7 +5,7 @@ import { useParams, useRouter } from 'next/navigation';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { ArrowLeft, FileText, User, Calendar, Clock, Phone, Mail, ExternalLink } from 'lucide-react';
+import { ArrowLeft, FileText, User, Calendar, Clock, Phone, Mail, ExternalLink, ListChecks } from 'lucide-react';
 import Link from 'next/link';
 import {
   getLeaveStatusVariant,
@@ -18,6 +18,7 @@ import {
 import { LeaveApprovalActions } from '@/components/leave/leave-approval-actions';
 import { LeaveRequestHistory } from '@/components/leave/leave-request-history';
 import { CancelLeaveDialog } from '@/components/leave/cancel-leave-dialog';
+import { LeaveApprovalProgress, LeaveConflictAlert } from '@/components/domains/hr/leave';
 import { LeaveStatus, LeaveRequestType } from '@prisma/client';
 
 interface LeaveRequest {
@@ -56,9 +57,24 @@ interface LeaveRequest {
     name: string | null;
     email: string;
   } | null;
+  currentApprovalStep?: number | null;
+  canApprove?: boolean;
+  approvals: Array<{
+    id: string;
+    stepOrder: number;
+    name: string;
+    approverType: string;
+    status: string;
+    actedAt?: string | null;
+    notes?: string | null;
+    approver?: { id: string; name: string | null } | null;
+    actedBy?: { id: string; name: string | null } | null;
+    delegatedFrom?: { id: string; name: string | null } | null;
+  }>;
   history: Array<{
     id: string;
     action: string;
+    approvalStep?: number | null;
     oldStatus?: LeaveStatus | null;
     newStatus?: LeaveStatus | null;
     notes?: string | null;
@@ -194,7 +210,7 @@ export default function AdminLeaveRequestDetailPage() {
             </div>
 
             <div className="flex gap-2">
-              {request.status === 'PENDING' && (
+              {request.status === 'PENDING' && request.canApprove && (
                 <LeaveApprovalActions
                   requestId={request.id}
                   onApproved={fetchRequest}
@@ -212,6 +228,17 @@ export default function AdminLeaveRequestDetailPage() {
           </div>
         </div>
 
+        {request.status === 'PENDING' && (
+          <div className="mb-6 empty:hidden">
+            <LeaveConflictAlert
+              startDate={request.startDate}
+              endDate={request.endDate}
+              userId={request.user.id}
+              excludeRequestId={request.id}
+            />
+          </div>
+        )}
+
         <div className="grid md:grid-cols-3 gap-6">
           {/* Main Details */}
           <div className="md:col-span-2 space-y-6">
@@ -322,6 +349,24 @@ export default function AdminLeaveRequestDetailPage() {
               </Card>
             )}
 
+            {/* Approval Chain */}
+            {request.approvals.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <ListChecks className="h-5 w-5" />
+                    Approval Progress
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <LeaveApprovalProgress
+                    approvals={request.approvals}
+                    currentStep={request.currentApprovalStep}
+                  />
+                </CardContent>
+              </Card>
+            )}
+
             {/* History */}
             <Card>
               <CardHeader>
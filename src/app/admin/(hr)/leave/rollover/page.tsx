@@ -0,0 +1,37 @@
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { redirect } from 'next/navigation';
+import { Role } from '@prisma/client';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft } from 'lucide-react';
+import { LeaveRolloverManager } from '@/components/domains/hr/leave';
+
+export default async function LeaveRolloverPage() {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user.role !== Role.ADMIN) {
+    redirect('/');
+  }
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="flex items-center gap-4">
+          <Button asChild variant="ghost" size="icon">
+            <Link href="/admin/leave/balances">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold">Year-End Leave Rollover</h1>
+            <p className="text-muted-foreground">
+              Preview and carry unused leave into the new year, and lapse expired carried days
+            </p>
+          </div>
+        </div>
+
+        <LeaveRolloverManager />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { redirect } from 'next/navigation';
+import { Role } from '@prisma/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  LeaveBlackoutManager,
+  LeaveCoverageHeatmap,
+  LeaveCoverageRuleManager,
+} from '@/components/domains/hr/leave';
+
+export default async function LeaveCoveragePage() {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user.role !== Role.ADMIN) {
+    redirect('/');
+  }
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold">Team Coverage</h1>
+          <p className="text-muted-foreground">
+            See who is off each day and set the limits checked when employees request leave
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Coverage Heatmap</CardTitle>
+            <CardDescription>
+              Employees on approved or pending leave per team. Hover a day to see who is off.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <LeaveCoverageHeatmap showDepartmentFilter />
+          </CardContent>
+        </Card>
+
+        <div className="grid lg:grid-cols-2 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Blackout Periods</CardTitle>
+              <CardDescription>
+                Dates when leave should not be taken, such as a project go-live
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <LeaveBlackoutManager />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Coverage Rules</CardTitle>
+              <CardDescription>
+                Limit how many people in a team, designation or critical role can be off on the same day.
+                Mark critical roles from each employee&apos;s leave settings.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <LeaveCoverageRuleManager />
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
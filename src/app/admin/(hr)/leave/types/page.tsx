@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { LeaveTypeForm } from '@/components/leave/leave-type-form';
 import { LeaveTypeCard } from '@/components/leave/leave-type-card';
+import { LeaveApprovalChainEditor } from '@/components/domains/hr/leave';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -19,6 +20,7 @@ import {
 import {
   Dialog,
   DialogContent,
+  DialogDescription,
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
@@ -38,12 +40,15 @@ interface LeaveType {
   minNoticeDays: number;
   allowCarryForward: boolean;
   maxCarryForwardDays?: number | null;
+  carryForwardExpiryMonths?: number | null;
+  allowEncashment?: boolean;
 }
 
 export default function AdminLeaveTypesPage() {
   const [leaveTypes, setLeaveTypes] = useState<LeaveType[]>([]);
   const [loading, setLoading] = useState(true);
   const [editingType, setEditingType] = useState<LeaveType | null>(null);
+  const [chainType, setChainType] = useState<LeaveType | null>(null);
   const [deleteId, setDeleteId] = useState<string | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
 
@@ -167,6 +172,7 @@ export default function AdminLeaveTypesPage() {
                         onEdit={setEditingType}
                         onDelete={setDeleteId}
                         onToggleActive={handleToggleActive}
+                        onConfigureApprovals={setChainType}
                       />
                     ))}
                   </div>
@@ -189,6 +195,7 @@ export default function AdminLeaveTypesPage() {
                         onEdit={setEditingType}
                         onDelete={setDeleteId}
                         onToggleActive={handleToggleActive}
+                        onConfigureApprovals={setChainType}
                       />
                     ))}
                   </div>
@@ -218,6 +225,25 @@ export default function AdminLeaveTypesPage() {
           </DialogContent>
         </Dialog>
 
+        {/* Approval Chain Dialog */}
+        <Dialog open={!!chainType} onOpenChange={() => setChainType(null)}>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Approval Chain - {chainType?.name}</DialogTitle>
+              <DialogDescription>
+                Requests move through these steps in order. Use the day threshold for steps that
+                only apply to longer leave (e.g., director sign-off above 10 days).
+              </DialogDescription>
+            </DialogHeader>
+            {chainType && (
+              <LeaveApprovalChainEditor
+                leaveTypeId={chainType.id}
+                onSaved={() => setChainType(null)}
+              />
+            )}
+          </DialogContent>
+        </Dialog>
+
         {/* Delete Confirmation */}
         <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
           <AlertDialogContent>
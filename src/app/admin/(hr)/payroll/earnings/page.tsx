@@ -0,0 +1,44 @@
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { redirect } from 'next/navigation';
+import { Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft } from 'lucide-react';
+import { EarningEntries } from '@/components/domains/hr/payroll';
+
+export default async function AdminEarningsPage() {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user.role !== Role.ADMIN) {
+    redirect('/');
+  }
+
+  const employees = await prisma.user.findMany({
+    where: { salaryStructure: { isActive: true } },
+    select: { id: true, name: true },
+    orderBy: { name: 'asc' },
+  });
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="flex items-center gap-4">
+          <Button asChild variant="ghost" size="icon">
+            <Link href="/admin/payroll">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold">Overtime &amp; Earnings</h1>
+            <p className="text-muted-foreground">
+              Review overtime, commissions and one-off allowances before they are paid
+            </p>
+          </div>
+        </div>
+
+        <EarningEntries currentUserId={session.user.id} employees={employees} canReview />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { notFound, redirect } from 'next/navigation';
+import { FinalSettlementStatus, Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft } from 'lucide-react';
+import { FinalSettlementForm } from '@/components/domains/hr/payroll';
+import type { FinalSettlementDetails } from '@/lib/types/payroll';
+
+interface PageProps {
+  params: Promise<{ id: string }>;
+}
+
+export default async function EditFinalSettlementPage({ params }: PageProps) {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user.role !== Role.ADMIN) {
+    redirect('/');
+  }
+
+  const { id } = await params;
+
+  const settlement = await prisma.finalSettlement.findUnique({
+    where: { id },
+    include: { user: { select: { id: true, name: true } } },
+  });
+
+  if (!settlement) {
+    notFound();
+  }
+
+  if (settlement.status !== FinalSettlementStatus.DRAFT) {
+    redirect(`/admin/payroll/final-settlements/${id}`);
+  }
+
+  const details = settlement.details as unknown as FinalSettlementDetails;
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="flex items-center gap-4">
+          <Button asChild variant="ghost" size="icon">
+            <Link href={`/admin/payroll/final-settlements/${id}`}>
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold">Edit {settlement.settlementNumber}</h1>
+            <p className="text-muted-foreground">{settlement.user.name}</p>
+          </div>
+        </div>
+
+        <FinalSettlementForm
+          employees={[settlement.user]}
+          settlement={{
+            id: settlement.id,
+            userId: settlement.userId,
+            terminationDate: settlement.terminationDate.toISOString(),
+            separationReason: settlement.separationReason,
+            notes: settlement.notes,
+            otherEarnings: Number(settlement.otherEarnings),
+            otherDeductions: Number(settlement.otherDeductions),
+            assetDeductions: Object.fromEntries(
+              details.assets
+                .filter(asset => asset.deductionAmount > 0)
+                .map(asset => [asset.assetId, asset.deductionAmount])
+            ),
+          }}
+        />
+      </div>
+    </div>
+  );
+}
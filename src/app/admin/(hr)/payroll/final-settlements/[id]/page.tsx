@@ -0,0 +1,174 @@
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { notFound, redirect } from 'next/navigation';
+import { Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import Link from 'next/link';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft } from 'lucide-react';
+import { FinalSettlementActions, FinalSettlementBreakdown } from '@/components/domains/hr/payroll';
+import { formatPayPeriod } from '@/lib/payroll/utils';
+import { getSettlementStatusText, getSettlementStatusVariant } from '@/lib/payroll/final-settlement';
+import { transformSettlementDecimals } from '@/lib/payroll/final-settlement-service';
+import type { FinalSettlementDetails } from '@/lib/types/payroll';
+
+interface PageProps {
+  params: Promise<{ id: string }>;
+}
+
+export default async function FinalSettlementDetailPage({ params }: PageProps) {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user.role !== Role.ADMIN) {
+    redirect('/');
+  }
+
+  const { id } = await params;
+
+  const settlement = await prisma.finalSettlement.findUnique({
+    where: { id },
+    include: {
+      user: {
+        select: {
+          name: true,
+          email: true,
+          hrProfile: { select: { employeeId: true, designation: true } },
+        },
+      },
+      createdBy: { select: { name: true } },
+      approvedBy: { select: { name: true } },
+      payslip: { select: { id: true, payslipNumber: true, isPaid: true } },
+    },
+  });
+
+  if (!settlement) {
+    notFound();
+  }
+
+  const calculation = {
+    ...transformSettlementDecimals(settlement),
+    details: settlement.details as unknown as FinalSettlementDetails,
+  };
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button asChild variant="ghost" size="icon" className="print:hidden">
+              <Link href="/admin/payroll/final-settlements">
+                <ArrowLeft className="h-4 w-4" />
+              </Link>
+            </Button>
+            <div>
+              <div className="flex items-center gap-3">
+                <h1 className="text-2xl font-bold">Final Settlement</h1>
+                <Badge variant={getSettlementStatusVariant(settlement.status)}>
+                  {getSettlementStatusText(settlement.status)}
+                </Badge>
+              </div>
+              <p className="text-muted-foreground font-mono">{settlement.settlementNumber}</p>
+            </div>
+          </div>
+
+          <FinalSettlementActions
+            settlementId={settlement.id}
+            status={settlement.status}
+            payslipPaid={settlement.payslip?.isPaid ?? false}
+          />
+        </div>
+
+        {settlement.approverNotes && (
+          <Card className="border-amber-200 bg-amber-50">
+            <CardContent className="pt-6">
+              <p className="text-sm">
+                <span className="font-medium">Reviewer notes:</span> {settlement.approverNotes}
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Employee</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid gap-4 md:grid-cols-3 text-sm">
+              <div>
+                <p className="text-muted-foreground">Name</p>
+                <p className="font-medium">{settlement.user.name}</p>
+                <p className="text-xs text-muted-foreground">{settlement.user.email}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Employee ID</p>
+                <p className="font-medium">{settlement.user.hrProfile?.employeeId || '-'}</p>
+                <p className="text-xs text-muted-foreground">{settlement.user.hrProfile?.designation || ''}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Reason</p>
+                <p className="font-medium">{settlement.separationReason.replace(/_/g, ' ')}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Date of joining</p>
+                <p className="font-medium">{new Date(calculation.details.dateOfJoining).toLocaleDateString()}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Last working day</p>
+                <p className="font-medium">{settlement.terminationDate.toLocaleDateString()}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Final payslip</p>
+                {settlement.payslip ? (
+                  <Link
+                    href={`/admin/payroll/payslips/${settlement.payslip.id}`}
+                    className="font-medium text-primary hover:underline"
+                  >
+                    {settlement.payslip.payslipNumber}
+                  </Link>
+                ) : (
+                  <p className="font-medium">
+                    {settlement.payrollYear && settlement.payrollMonth
+                      ? `Pending ${formatPayPeriod(settlement.payrollYear, settlement.payrollMonth)} payroll`
+                      : 'Created on approval'}
+                  </p>
+                )}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Settlement</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <FinalSettlementBreakdown calculation={calculation} />
+          </CardContent>
+        </Card>
+
+        {settlement.notes && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Notes</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm whitespace-pre-wrap">{settlement.notes}</p>
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="grid gap-4 md:grid-cols-2 text-sm text-muted-foreground">
+          <p>
+            Prepared by {settlement.createdBy.name} on {settlement.createdAt.toLocaleDateString()}
+          </p>
+          {settlement.approvedBy && settlement.approvedAt && (
+            <p className="md:text-right">
+              Approved by {settlement.approvedBy.name} on {settlement.approvedAt.toLocaleDateString()}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { redirect } from 'next/navigation';
+import { FinalSettlementStatus, Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft } from 'lucide-react';
+import { FinalSettlementForm } from '@/components/domains/hr/payroll';
+
+export default async function NewFinalSettlementPage() {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user.role !== Role.ADMIN) {
+    redirect('/');
+  }
+
+  // Employees on payroll without an open settlement
+  const employees = await prisma.user.findMany({
+    where: {
+      salaryStructure: { isActive: true },
+      finalSettlements: { none: { status: { not: FinalSettlementStatus.CANCELLED } } },
+    },
+    select: { id: true, name: true },
+    orderBy: { name: 'asc' },
+  });
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="flex items-center gap-4">
+          <Button asChild variant="ghost" size="icon">
+            <Link href="/admin/payroll/final-settlements">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold">New Final Settlement</h1>
+            <p className="text-muted-foreground">
+              Calculate what is owed to and by a departing employee
+            </p>
+          </div>
+        </div>
+
+        <FinalSettlementForm employees={employees} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { redirect } from 'next/navigation';
+import { Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ArrowLeft, Eye, Plus } from 'lucide-react';
+import { formatCurrency } from '@/lib/payroll/utils';
+import { getSettlementStatusText, getSettlementStatusVariant } from '@/lib/payroll/final-settlement';
+
+export default async function FinalSettlementsPage() {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user.role !== Role.ADMIN) {
+    redirect('/');
+  }
+
+  const settlements = await prisma.finalSettlement.findMany({
+    include: {
+      user: { select: { name: true, email: true } },
+    },
+    orderBy: { createdAt: 'desc' },
+    take: 100,
+  });
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button asChild variant="ghost" size="icon">
+              <Link href="/admin/payroll">
+                <ArrowLeft className="h-4 w-4" />
+              </Link>
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold">Final Settlements</h1>
+              <p className="text-muted-foreground">
+                End-of-service settlements for departing employees
+              </p>
+            </div>
+          </div>
+
+          <Button asChild>
+            <Link href="/admin/payroll/final-settlements/new">
+              <Plus className="mr-2 h-4 w-4" />
+              New Settlement
+            </Link>
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Settlements</CardTitle>
+            <CardDescription>{settlements.length} settlement{settlements.length !== 1 ? 's' : ''}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {settlements.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                No final settlements yet
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Settlement #</TableHead>
+                    <TableHead>Employee</TableHead>
+                    <TableHead>Last Working Day</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead className="text-right">Net Amount</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {settlements.map(settlement => (
+                    <TableRow key={settlement.id}>
+                      <TableCell className="font-mono text-sm">{settlement.settlementNumber}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{settlement.user.name}</div>
+                        <div className="text-xs text-muted-foreground">{settlement.user.email}</div>
+                      </TableCell>
+                      <TableCell>{settlement.terminationDate.toLocaleDateString()}</TableCell>
+                      <TableCell>{settlement.separationReason.replace(/_/g, ' ')}</TableCell>
+                      <TableCell className="text-right font-medium">
+                        {formatCurrency(Number(settlement.netAmount))}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={getSettlementStatusVariant(settlement.status)}>
+                          {getSettlementStatusText(settlement.status)}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button asChild variant="ghost" size="icon">
+                          <Link href={`/admin/payroll/final-settlements/${settlement.id}`}>
+                            <Eye className="h-4 w-4" />
+                          </Link>
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -14,8 +14,10 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
-import { ArrowLeft } from 'lucide-react';
-import { calculateGratuity, getServiceDurationText } from '@/lib/payroll/gratuity';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, Settings } from 'lucide-react';
+import { calculateGratuity, describeGratuityPolicy, getServiceDurationText } from '@/lib/payroll/gratuity';
+import { getGratuityOptionsForEmployees } from '@/lib/payroll/gratuity-service';
 import { formatCurrency } from '@/lib/payroll/utils';
 
 export default async function GratuityReportPage() {
@@ -38,6 +40,8 @@ export default async function GratuityReportPage() {
               employeeId: true,
               designation: true,
               dateOfJoining: true,
+              contractType: true,
+              gratuityPolicyId: true,
             },
           },
         },
@@ -48,13 +52,23 @@ export default async function GratuityReportPage() {
     },
   });
 
+  // Resolve each employee's gratuity policy
+  const gratuityOptions = await getGratuityOptionsForEmployees(
+    employees.map((emp) => ({
+      userId: emp.userId,
+      gratuityPolicyId: emp.user.hrProfile?.gratuityPolicyId ?? null,
+      contractType: emp.user.hrProfile?.contractType ?? null,
+      grossSalary: Number(emp.grossSalary),
+    }))
+  );
+
   // Calculate gratuity for each employee
   const gratuityData = employees
     .filter((emp) => emp.user.hrProfile?.dateOfJoining)
     .map((emp) => {
       const basicSalary = Number(emp.basicSalary);
       const dateOfJoining = new Date(emp.user.hrProfile!.dateOfJoining!);
-      const calculation = calculateGratuity(basicSalary, dateOfJoining);
+      const calculation = calculateGratuity(basicSalary, dateOfJoining, new Date(), gratuityOptions.get(emp.userId));
 
       return {
         ...emp,
@@ -68,9 +82,15 @@ export default async function GratuityReportPage() {
     0
   );
 
+  // Policies in use, for the calculation method card
+  const policiesInUse = Array.from(
+    new Map(gratuityData.map((emp) => [emp.gratuity.policy.name, emp.gratuity.policy])).values()
+  );
+
   return (
     <div className="container mx-auto py-8 px-4">
       <div className="max-w-7xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
         <div className="flex items-center gap-4">
         <Button asChild variant="ghost" size="icon">
           <Link href="/admin/payroll">
@@ -83,6 +103,13 @@ export default async function GratuityReportPage() {
             End of Service Benefits calculation for all employees
           </p>
         </div>
+        </div>
+        <Button asChild variant="outline">
+          <Link href="/admin/payroll/gratuity/policies">
+            <Settings className="mr-2 h-4 w-4" />
+            Gratuity Policies
+          </Link>
+        </Button>
       </div>
 
       {/* Summary Card */}
@@ -90,7 +117,7 @@ export default async function GratuityReportPage() {
         <CardHeader>
           <CardTitle>Total Gratuity Liability</CardTitle>
           <CardDescription>
-            Based on current service duration and basic salaries
+            Based on current service duration and each employee&apos;s gratuity policy
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -108,7 +135,7 @@ export default async function GratuityReportPage() {
         <CardHeader>
           <CardTitle>Employee Gratuity Details</CardTitle>
           <CardDescription>
-            Formula: 3 weeks of basic salary per year of service (pro-rated)
+            Weeks of salary per year of service under each employee&apos;s policy (pro-rated)
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -119,7 +146,8 @@ export default async function GratuityReportPage() {
                 <TableHead>Designation</TableHead>
                 <TableHead>Date of Joining</TableHead>
                 <TableHead>Service Duration</TableHead>
-                <TableHead className="text-right">Basic Salary</TableHead>
+                <TableHead>Policy</TableHead>
+                <TableHead className="text-right">Salary Basis</TableHead>
                 <TableHead className="text-right">Weekly Rate</TableHead>
                 <TableHead className="text-right">Gratuity</TableHead>
               </TableRow>
@@ -127,7 +155,7 @@ export default async function GratuityReportPage() {
             <TableBody>
               {gratuityData.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                  <TableCell colSpan={8} className="text-center text-muted-foreground">
                     No employees with salary structures and joining dates
                   </TableCell>
                 </TableRow>
@@ -148,9 +176,25 @@ export default async function GratuityReportPage() {
                     </TableCell>
                     <TableCell>
                       {getServiceDurationText(emp.gratuity.monthsOfService)}
+                      {emp.gratuity.unpaidLeaveDaysExcluded > 0 && (
+                        <div className="text-xs text-muted-foreground">
+                          {emp.gratuity.unpaidLeaveDaysExcluded} unpaid leave days excluded
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="text-sm">{emp.gratuity.policy.name}</div>
+                      {!emp.gratuity.isEligible && (
+                        <Badge variant="secondary" className="mt-1">
+                          Below {emp.gratuity.policy.minServiceMonths} months minimum
+                        </Badge>
+                      )}
                     </TableCell>
                     <TableCell className="text-right">
-                      {formatCurrency(emp.gratuity.basicSalary)}
+                      {formatCurrency(emp.gratuity.salaryAmount)}
+                      <div className="text-xs text-muted-foreground">
+                        {emp.gratuity.policy.salaryBasis === 'GROSS' ? 'Gross' : 'Basic'}
+                      </div>
                     </TableCell>
                     <TableCell className="text-right">
                       {formatCurrency(emp.gratuity.weeklyRate)}
@@ -173,9 +217,11 @@ export default async function GratuityReportPage() {
         </CardHeader>
         <CardContent className="prose prose-sm max-w-none">
           <ul>
-            <li><strong>Formula:</strong> 3 weeks of basic salary per year of service</li>
-            <li><strong>Weekly Rate:</strong> Basic Salary / 30 days × 7 days</li>
-            <li><strong>Annual Gratuity:</strong> Weekly Rate × 3 weeks</li>
+            {policiesInUse.map((policy) => (
+              <li key={policy.name}><strong>{policy.name}:</strong> {describeGratuityPolicy(policy)}</li>
+            ))}
+            <li><strong>Weekly Rate:</strong> Monthly Salary / 30 days × 7 days</li>
+            <li><strong>Annual Gratuity:</strong> Weekly Rate × weeks per year for the service year</li>
             <li><strong>Partial Years:</strong> Pro-rated based on months of service</li>
           </ul>
         </CardContent>
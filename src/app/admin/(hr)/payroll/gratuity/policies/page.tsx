@@ -0,0 +1,49 @@
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { redirect } from 'next/navigation';
+import { Role } from '@prisma/client';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft } from 'lucide-react';
+import { GratuityPolicyManager } from '@/components/domains/hr/payroll';
+
+export default async function GratuityPoliciesPage() {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user.role !== Role.ADMIN) {
+    redirect('/');
+  }
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="flex items-center gap-4">
+          <Button asChild variant="ghost" size="icon">
+            <Link href="/admin/payroll/gratuity">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold">Gratuity Policies</h1>
+            <p className="text-muted-foreground">
+              End of service rules for different contract types
+            </p>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Policies</CardTitle>
+            <CardDescription>
+              An employee&apos;s own policy wins over their contract type&apos;s, which wins over the default.
+              Without any policy the statutory 3 weeks of basic salary per year applies.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <GratuityPolicyManager />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { redirect } from 'next/navigation';
+import { Role } from '@prisma/client';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ArrowLeft, Download } from 'lucide-react';
+import { buildLiabilityReport } from '@/lib/payroll/liability-service';
+import { getPreviousPeriod } from '@/lib/payroll/liability';
+import { formatCurrency, formatPayPeriod, getMonthName } from '@/lib/payroll/utils';
+
+interface PageProps {
+  searchParams: Promise<{
+    year?: string;
+    month?: string;
+  }>;
+}
+
+function Movement({ amount }: { amount: number }) {
+  if (amount === 0) {
+    return <span className="text-muted-foreground">-</span>;
+  }
+  return (
+    <span className={amount > 0 ? 'text-red-600' : 'text-green-600'}>
+      {amount > 0 ? '+' : ''}{formatCurrency(amount)}
+    </span>
+  );
+}
+
+export default async function LiabilityReportPage({ searchParams }: PageProps) {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user.role !== Role.ADMIN) {
+    redirect('/');
+  }
+
+  // Default to the last closed month
+  const now = new Date();
+  const lastMonth = getPreviousPeriod(now.getFullYear(), now.getMonth() + 1);
+  const params = await searchParams;
+  const yearParam = parseInt(params.year || '', 10);
+  const monthParam = parseInt(params.month || '', 10);
+  const year = yearParam >= 2020 && yearParam <= 2100 ? yearParam : lastMonth.year;
+  const month = monthParam >= 1 && monthParam <= 12 ? monthParam : lastMonth.month;
+
+  const report = await buildLiabilityReport(year, month);
+  const period = formatPayPeriod(year, month);
+  const previousPeriod = formatPayPeriod(report.previousYear, report.previousMonth);
+  const yearOptions = Array.from({ length: 6 }, (_, i) => now.getFullYear() - i);
+
+  const summary = [
+    { title: 'End of Service Gratuity', key: 'gratuityLiability' as const },
+    { title: 'Unused Annual Leave', key: 'leaveLiability' as const },
+    { title: 'Total Provision', key: 'totalLiability' as const },
+  ];
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button asChild variant="ghost" size="icon">
+              <Link href="/admin/payroll">
+                <ArrowLeft className="h-4 w-4" />
+              </Link>
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold">Liability Report</h1>
+              <p className="text-muted-foreground">
+                Month-end gratuity and annual leave provisions with movement against the previous month
+              </p>
+            </div>
+          </div>
+          <Button asChild variant="outline">
+            <a href={`/api/payroll/liability/export?year=${year}&month=${month}`}>
+              <Download className="mr-2 h-4 w-4" />
+              Export to Excel
+            </a>
+          </Button>
+        </div>
+
+        {/* Period */}
+        <Card>
+          <CardContent className="py-4">
+            <form method="GET" className="flex flex-wrap gap-4 items-end">
+              <div>
+                <label className="text-sm font-medium mb-1 block">Year</label>
+                <select
+                  name="year"
+                  defaultValue={year}
+                  className="w-[120px] px-3 py-2 border rounded-md"
+                >
+                  {yearOptions.map((y) => (
+                    <option key={y} value={y}>
+                      {y}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="text-sm font-medium mb-1 block">Month</label>
+                <select
+                  name="month"
+                  defaultValue={month}
+                  className="w-[140px] px-3 py-2 border rounded-md"
+                >
+                  {Array.from({ length: 12 }, (_, i) => i + 1).map((m) => (
+                    <option key={m} value={m}>
+                      {getMonthName(m)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <Button type="submit">Show</Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {/* Summary */}
+        <div className="grid gap-4 md:grid-cols-3">
+          {summary.map(({ title, key }) => (
+            <Card key={key}>
+              <CardHeader className="pb-2">
+                <CardDescription>{title}</CardDescription>
+                <CardTitle className="text-2xl">{formatCurrency(report.totals[key])}</CardTitle>
+              </CardHeader>
+              <CardContent className="text-sm text-muted-foreground">
+                <Movement amount={report.movement[key]} /> since {previousPeriod}
+                {' '}({formatCurrency(report.previousTotals[key])})
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {/* Employee Movement */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Movement by Employee</CardTitle>
+            <CardDescription>
+              Liability as at the end of {period}. Unused leave is the annual entitlement earned to date
+              plus carry-forward and adjustments, less approved leave, valued at gross salary / 30.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Employee</TableHead>
+                  <TableHead>Policy</TableHead>
+                  <TableHead className="text-right">Gratuity</TableHead>
+                  <TableHead className="text-right">Change</TableHead>
+                  <TableHead className="text-right">Leave Days</TableHead>
+                  <TableHead className="text-right">Leave Liability</TableHead>
+                  <TableHead className="text-right">Change</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead className="text-right">Total Change</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.employees.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={9} className="text-center text-muted-foreground">
+                      No employees on payroll in {period}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  report.employees.map((row) => (
+                    <TableRow key={row.userId}>
+                      <TableCell>
+                        <div className="font-medium">{row.name}</div>
+                        <div className="text-sm text-muted-foreground">{row.employeeId || '-'}</div>
+                        {row.change === 'NEW' && <Badge variant="secondary" className="mt-1">Joined</Badge>}
+                        {row.change === 'LEFT' && <Badge variant="outline" className="mt-1">Left</Badge>}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {(row.current || row.previous)?.gratuityPolicyName || '-'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency(row.current?.gratuityLiability ?? 0)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Movement amount={row.gratuityMovement} />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {row.current?.unusedLeaveDays ?? 0}
+                        {row.leaveDaysMovement !== 0 && (
+                          <div className="text-xs text-muted-foreground">
+                            {row.leaveDaysMovement > 0 ? '+' : ''}{row.leaveDaysMovement} days
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency(row.current?.leaveLiability ?? 0)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Movement amount={row.leaveMovement} />
+                      </TableCell>
+                      <TableCell className="text-right font-medium">
+                        {formatCurrency(row.current?.totalLiability ?? 0)}
+                      </TableCell>
+                      <TableCell className="text-right font-medium">
+                        <Movement amount={row.totalMovement} />
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
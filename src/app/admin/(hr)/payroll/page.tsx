@@ -16,6 +16,7 @@ import {
   Calculator,
   Plus,
   ArrowRight,
+  Landmark,
 } from 'lucide-react';
 import { formatCurrency, getMonthName, getPayrollStatusText, getPayrollStatusColor } from '@/lib/payroll/utils';
 
@@ -113,6 +114,12 @@ export default async function PayrollDashboardPage() {
               Gratuity Report
             </Link>
           </Button>
+          <Button asChild variant="outline">
+            <Link href="/admin/payroll/liability">
+              <Landmark className="mr-2 h-4 w-4" />
+              Liability Report
+            </Link>
+          </Button>
           <Button asChild>
             <Link href="/admin/payroll/runs/new">
               <Plus className="mr-2 h-4 w-4" />
@@ -7,8 +7,10 @@ import Link from 'next/link';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { ArrowLeft, User, Wallet } from 'lucide-react';
+import { ArrowLeft, Download, User, Wallet } from 'lucide-react';
 import { formatCurrency, getMonthName } from '@/lib/payroll/utils';
+import { isPayrollEditable } from '@/lib/payroll/payslip-calculation';
+import { PayslipAdjustments, PayslipAdjustmentLine } from '@/components/domains/hr/payroll/payslip-adjustments';
 
 interface PageProps {
   params: Promise<{ id: string }>;
@@ -49,6 +51,11 @@ export default async function AdminPayslipDetailPage({ params }: PageProps) {
       },
       deductions: {
         orderBy: { createdAt: 'asc' },
+        include: { createdBy: { select: { name: true } } },
+      },
+      earnings: {
+        orderBy: { createdAt: 'asc' },
+        include: { createdBy: { select: { name: true } } },
       },
     },
   });
@@ -67,6 +74,22 @@ export default async function AdminPayslipDetailPage({ params }: PageProps) {
   const totalDeductions = Number(payslip.totalDeductions);
   const netSalary = Number(payslip.netSalary);
 
+  const adjustments: PayslipAdjustmentLine[] = [
+    ...payslip.earnings.filter(e => e.isManual).map(e => ({ ...e, kind: 'EARNING' as const })),
+    ...payslip.deductions.filter(d => d.isManual).map(d => ({ ...d, kind: 'DEDUCTION' as const })),
+  ]
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+    .map(line => ({
+      id: line.id,
+      kind: line.kind,
+      type: line.type,
+      description: line.description,
+      amount: Number(line.amount),
+      reason: line.reason,
+      createdByName: line.createdBy?.name ?? null,
+      createdAt: line.createdAt.toISOString(),
+    }));
+
   return (
     <div className="container mx-auto py-8 px-4">
       <div className="max-w-7xl mx-auto space-y-6">
@@ -90,12 +113,20 @@ export default async function AdminPayslipDetailPage({ params }: PageProps) {
           </div>
         </div>
 
-        <Button asChild variant="outline">
-          <Link href={`/admin/employees/${payslip.userId}`}>
-            <User className="mr-2 h-4 w-4" />
-            View Employee
-          </Link>
-        </Button>
+        <div className="flex gap-2">
+          <Button asChild variant="outline">
+            <a href={`/api/payroll/payslips/${payslip.id}/pdf`}>
+              <Download className="mr-2 h-4 w-4" />
+              Download PDF
+            </a>
+          </Button>
+          <Button asChild variant="outline">
+            <Link href={`/admin/employees/${payslip.userId}`}>
+              <User className="mr-2 h-4 w-4" />
+              View Employee
+            </Link>
+          </Button>
+        </div>
       </div>
 
       {/* Employee & Payroll Info */}
@@ -203,6 +234,19 @@ export default async function AdminPayslipDetailPage({ params }: PageProps) {
                   <span className="font-medium">{formatCurrency(otherAllowances)}</span>
                 </div>
               )}
+              {payslip.earnings.map((earning) => (
+                <div key={earning.id} className="flex justify-between py-2 border-b">
+                  <div>
+                    <span className="text-muted-foreground">
+                      {earning.type.replace(/_/g, ' ')}
+                    </span>
+                    <div className="text-xs text-muted-foreground">
+                      {earning.description}
+                    </div>
+                  </div>
+                  <span className="font-medium">{formatCurrency(Number(earning.amount))}</span>
+                </div>
+              ))}
               <div className="flex justify-between py-2 font-semibold">
                 <span>Total Earnings</span>
                 <span className="text-green-600">{formatCurrency(grossSalary)}</span>
@@ -250,6 +294,12 @@ export default async function AdminPayslipDetailPage({ params }: PageProps) {
         </Card>
       </div>
 
+      <PayslipAdjustments
+        payslipId={payslip.id}
+        adjustments={adjustments}
+        editable={isPayrollEditable(payslip.payrollRun.status)}
+      />
+
       {/* Net Pay Summary */}
       <Card className="bg-green-50 border-green-200">
         <CardContent className="py-6">
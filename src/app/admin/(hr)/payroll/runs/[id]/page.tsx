@@ -24,6 +24,23 @@ interface PageProps {
   params: Promise<{ id: string }>;
 }
 
+/**
+ * Before/after net pay recorded by recalculations and payslip adjustments
+ */
+function NetChange({ changes }: { changes: unknown }) {
+  if (!changes || typeof changes !== 'object') return null;
+  const { before, after } = changes as Record<string, Record<string, number> | undefined>;
+  const beforeNet = before?.totalNet ?? before?.netSalary;
+  const afterNet = after?.totalNet ?? after?.netSalary;
+  if (typeof beforeNet !== 'number' || typeof afterNet !== 'number') return null;
+
+  return (
+    <p className="text-sm text-muted-foreground">
+      Net {formatCurrency(beforeNet)} → {formatCurrency(afterNet)}
+    </p>
+  );
+}
+
 export default async function PayrollRunDetailPage({ params }: PageProps) {
   const session = await getServerSession(authOptions);
   if (!session || session.user.role !== Role.ADMIN) {
@@ -286,10 +303,10 @@ export default async function PayrollRunDetailPage({ params }: PageProps) {
                               </div>
                             ))}
                             {emp.leaveDeductions.map((leave) => (
-                              <div key={leave.leaveRequestId} className="text-xs">
+                              <div key={`${leave.leaveRequestId}-${leave.payPercent ?? 'unpaid'}`} className="text-xs">
                                 <Badge variant="outline" className="text-orange-600 border-orange-200">
                                   <CalendarOff className="h-3 w-3 mr-1" />
-                                  {leave.leaveTypeName} ({leave.totalDays}d): {formatCurrency(leave.deductionAmount)}
+                                  {leave.leaveTypeName} ({leave.totalDays}d{leave.payPercent !== null && ` @ ${leave.payPercent}%`}): {formatCurrency(leave.deductionAmount)}
                                 </Badge>
                               </div>
                             ))}
@@ -396,6 +413,7 @@ export default async function PayrollRunDetailPage({ params }: PageProps) {
                   {entry.notes && (
                     <p className="text-sm text-muted-foreground">{entry.notes}</p>
                   )}
+                  <NetChange changes={entry.changes} />
                   <div className="text-xs text-muted-foreground mt-1">
                     {entry.performedBy?.name || 'System'} •{' '}
                     {new Date(entry.createdAt).toLocaleString()}
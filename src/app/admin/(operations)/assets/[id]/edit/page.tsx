@@ -86,6 +86,8 @@ export default function EditAssetPage() {
       assignmentDate: '',
       notes: '',
       location: '',
+      disposalDate: '',
+      disposalProceeds: null,
     },
     mode: 'onChange',
   });
@@ -241,6 +243,10 @@ export default function EditAssetPage() {
           assignmentDate: toInputDateString(assetData.assignmentDate),
           notes: assetData.notes || '',
           location: assetData.location || '',
+          disposalDate: toInputDateString(assetData.disposalDate),
+          disposalProceeds: assetData.disposalProceeds !== null && assetData.disposalProceeds !== undefined
+            ? Number(assetData.disposalProceeds)
+            : null,
         });
         // Fetch maintenance records
         fetchMaintenanceRecords(id);
@@ -678,10 +684,44 @@ export default function EditAssetPage() {
                       <SelectItem value="IN_USE">In Use</SelectItem>
                       <SelectItem value="SPARE">Spare</SelectItem>
                       <SelectItem value="REPAIR">In Repair</SelectItem>
-                      <SelectItem value="DISPOSED">Disposed</SelectItem>
+                      {asset?.status === AssetStatus.DISPOSED && (
+                        <SelectItem value="DISPOSED">Disposed</SelectItem>
+                      )}
                     </SelectContent>
                   </Select>
+                  {asset?.status !== AssetStatus.DISPOSED && (
+                    <p className="text-xs text-gray-500">To dispose of this asset, use Dispose on the asset page</p>
+                  )}
                 </div>
+
+                {watchedStatus === AssetStatus.DISPOSED && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="disposalDate">Disposal Date</Label>
+                      <Input
+                        id="disposalDate"
+                        type="date"
+                        {...register('disposalDate')}
+                      />
+                      <p className="text-xs text-gray-500">Depreciation stops on this date (defaults to today)</p>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="disposalProceeds">Disposal Proceeds (QAR)</Label>
+                      <Input
+                        id="disposalProceeds"
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        {...register('disposalProceeds', {
+                          setValueAs: (value) => (value === '' || value === null ? null : parseFloat(value)),
+                        })}
+                        className={errors.disposalProceeds ? 'border-red-500' : ''}
+                      />
+                      {errors.disposalProceeds && <p className="text-sm text-red-500">{errors.disposalProceeds.message}</p>}
+                      <p className="text-xs text-gray-500">Sale or scrap amount, used for the gain/loss on disposal</p>
+                    </div>
+                  </div>
+                )}
               </div>
 
               {/* Assignment Section - Only show when status is IN_USE */}
@@ -15,6 +15,16 @@ import { CloneAssetButton } from '@/components/assets/clone-asset-button';
 import { DeleteAssetButton } from '@/components/assets/delete-asset-button';
 import { AssetMaintenanceRecords } from '@/components/assets/asset-maintenance-records';
 import { AssetAssignDialog } from '@/components/domains/operations/asset-requests';
+import {
+  AssetDisposalList,
+  DisposeAssetButton,
+  MaintenanceDueList,
+  PrintAssetLabelsButton,
+} from '@/components/domains/operations/assets';
+import { getAssetBookValue } from '@/lib/domains/operations/assets/depreciation-service';
+import { formatUsefulLife } from '@/lib/domains/operations/assets/depreciation';
+import { PurchaseOrigin } from '@/components/domains/projects/goods-receipts';
+import { PURCHASE_ORIGIN_SELECT } from '@/lib/domains/projects/goods-receipts/goods-receipt-service';
 
 interface Props {
   params: Promise<{ id: string }>;
@@ -60,6 +70,7 @@ export default async function AssetDetailPage({ params }: Props) {
           requestNumber: true,
         },
       },
+      goodsReceiptLine: PURCHASE_ORIGIN_SELECT,
     },
   });
 
@@ -82,6 +93,18 @@ export default async function AssetDetailPage({ params }: Props) {
     assignmentDate = mostRecentAssignment?.assignmentDate || null;
   }
 
+  // Current book value from the category's depreciation policy
+  const bookValue = await getAssetBookValue(id);
+
+  const disposalCounts = await prisma.assetDisposal.groupBy({
+    by: ['status'],
+    where: { assetId: id },
+    _count: true,
+  });
+  const hasDisposals = disposalCounts.length > 0;
+  const canDispose = asset.status !== 'DISPOSED' &&
+    !disposalCounts.some(count => count.status === 'PENDING');
+
   // Check if admin can assign this asset
   const hasPendingRequest = asset.assetRequests.length > 0;
   const canAssign = asset.status === 'SPARE' && !hasPendingRequest;
@@ -120,6 +143,12 @@ export default async function AssetDetailPage({ params }: Props) {
                 <Link href={`/admin/assets/${asset.id}/edit`}>
                   <Button>Edit Asset</Button>
                 </Link>
+                {asset.assetTag && (
+                  <PrintAssetLabelsButton assetIds={[asset.id]} label="Print Label" />
+                )}
+                {canDispose && (
+                  <DisposeAssetButton asset={asset} bookValue={bookValue?.bookValue ?? null} />
+                )}
                 <CloneAssetButton assetId={asset.id} assetModel={asset.model} />
                 <DeleteAssetButton assetId={asset.id} assetModel={asset.model} />
                 <Link href="/admin/assets">
@@ -276,6 +305,10 @@ export default async function AssetDetailPage({ params }: Props) {
                       <Label>Invoice/PO Number</Label>
                       <div className="font-mono">{asset.invoiceNumber || 'Not provided'}</div>
                     </div>
+                    <div>
+                      <Label>Purchase Request</Label>
+                      <PurchaseOrigin goodsReceiptLine={asset.goodsReceiptLine} />
+                    </div>
                     <div>
                       <Label>Cost/Value</Label>
                       <div className="text-lg font-semibold">
@@ -296,6 +329,31 @@ export default async function AssetDetailPage({ params }: Props) {
                         ) : 'Not specified'}
                       </div>
                     </div>
+                    <div>
+                      <Label>Book Value</Label>
+                      {bookValue ? (
+                        <div>
+                          <div className="text-lg font-semibold">QAR {bookValue.bookValue.toFixed(2)}</div>
+                          <div className="text-sm text-gray-600">
+                            {bookValue.policy.method === 'DECLINING_BALANCE' ? 'Declining balance' : 'Straight line'} over{' '}
+                            {formatUsefulLife(bookValue.policy.usefulLifeMonths)} · QAR {bookValue.accumulatedDepreciation.toFixed(2)} depreciated
+                            {bookValue.isFullyDepreciated && ' (fully depreciated)'}
+                          </div>
+                          {bookValue.disposal && (
+                            <div className="text-sm mt-1">
+                              Disposed {formatDate(bookValue.disposal.date)} for QAR {bookValue.disposal.proceeds.toFixed(2)}:{' '}
+                              <span className={bookValue.disposal.gainLoss >= 0 ? 'text-green-600' : 'text-red-600'}>
+                                {bookValue.disposal.gainLoss >= 0 ? 'gain' : 'loss'} of QAR {Math.abs(bookValue.disposal.gainLoss).toFixed(2)}
+                              </span>
+                            </div>
+                          )}
+                        </div>
+                      ) : (
+                        <div className="text-sm text-gray-500">
+                          Not depreciated (needs a price, purchase date and a category depreciation policy)
+                        </div>
+                      )}
+                    </div>
                   </div>
                 </div>
             </CardContent>
@@ -376,9 +434,37 @@ export default async function AssetDetailPage({ params }: Props) {
             purchaseDate={asset.purchaseDate}
           />
 
+          {/* Preventive Maintenance */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Preventive Maintenance</CardTitle>
+              <CardDescription>
+                Scheduled service from maintenance plans covering this asset
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <MaintenanceDueList assetId={asset.id} defaultDays={365} />
+            </CardContent>
+          </Card>
+
           {/* Maintenance Records */}
           <AssetMaintenanceRecords assetId={asset.id} readOnly={true} />
 
+          {/* Disposal */}
+          {hasDisposals && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Disposal</CardTitle>
+                <CardDescription>
+                  Disposal requests for this asset and their certificates
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <AssetDisposalList assetId={asset.id} currentUserId={session.user.id} />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Asset History */}
           <AssetHistory assetId={asset.id} />
 
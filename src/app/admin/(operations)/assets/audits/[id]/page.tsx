@@ -0,0 +1,31 @@
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { redirect } from 'next/navigation';
+import { Role } from '@prisma/client';
+import { AuditCampaignDetail } from '@/components/domains/operations/assets';
+
+interface Props {
+  params: Promise<{ id: string }>;
+}
+
+export default async function AssetAuditDetailPage({ params }: Props) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    redirect('/login');
+  }
+
+  if (process.env.NODE_ENV !== 'development' && session.user.role !== Role.ADMIN) {
+    redirect('/forbidden');
+  }
+
+  const { id } = await params;
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="max-w-7xl mx-auto">
+        <AuditCampaignDetail campaignId={id} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { redirect } from 'next/navigation';
+import Link from 'next/link';
+import { AssetStatus, Role } from '@prisma/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { AuditCampaignManager } from '@/components/domains/operations/assets';
+import { ScanLine } from 'lucide-react';
+
+export default async function AssetAuditsPage() {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    redirect('/login');
+  }
+
+  if (process.env.NODE_ENV !== 'development' && session.user.role !== Role.ADMIN) {
+    redirect('/forbidden');
+  }
+
+  const locationRows = await prisma.asset.findMany({
+    where: { status: { not: AssetStatus.DISPOSED }, location: { not: null } },
+    select: { location: true },
+    distinct: ['location'],
+    orderBy: { location: 'asc' },
+  });
+  const locations = locationRows
+    .map(row => row.location?.trim())
+    .filter((location): location is string => !!location);
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="flex justify-between items-start">
+          <div>
+            <h1 className="text-2xl font-bold">Asset Audits</h1>
+            <p className="text-muted-foreground">
+              Periodic stock-takes that check every asset is where the records say it is
+            </p>
+          </div>
+          <Link href="/scan">
+            <Button variant="outline">
+              <ScanLine className="h-4 w-4 mr-2" />
+              Scan Label
+            </Button>
+          </Link>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Audit Campaigns</CardTitle>
+            <CardDescription>
+              Users holding assets in scope are asked to confirm each one. Spare and in-repair
+              assets are verified by scanning their labels.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <AuditCampaignManager locations={locations} />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
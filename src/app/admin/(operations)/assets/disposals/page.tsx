@@ -0,0 +1,56 @@
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { redirect } from 'next/navigation';
+import { Role } from '@prisma/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { AssetDisposalList } from '@/components/domains/operations/assets';
+
+export default async function AssetDisposalsPage() {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    redirect('/login');
+  }
+
+  if (process.env.NODE_ENV !== 'development' && session.user.role !== Role.ADMIN) {
+    redirect('/forbidden');
+  }
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold">Asset Disposals</h1>
+          <p className="text-muted-foreground">
+            Requests to sell, scrap, donate or write off assets, and their disposal certificates
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Awaiting Approval</CardTitle>
+            <CardDescription>
+              Approving marks the asset disposed, records its book value and gain or loss, and
+              cancels any asset requests still pending for it
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <AssetDisposalList status="PENDING" currentUserId={session.user.id} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Disposed Assets</CardTitle>
+            <CardDescription>
+              Approved disposals with their certificates
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <AssetDisposalList status="APPROVED" currentUserId={session.user.id} />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
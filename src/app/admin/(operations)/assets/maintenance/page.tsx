@@ -0,0 +1,66 @@
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { redirect } from 'next/navigation';
+import { AssetStatus, Role } from '@prisma/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  MaintenanceDueList,
+  MaintenancePlanManager,
+} from '@/components/domains/operations/assets';
+
+export default async function AssetMaintenancePage() {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    redirect('/login');
+  }
+
+  if (process.env.NODE_ENV !== 'development' && session.user.role !== Role.ADMIN) {
+    redirect('/forbidden');
+  }
+
+  const assets = await prisma.asset.findMany({
+    where: { status: { not: AssetStatus.DISPOSED } },
+    select: { id: true, assetTag: true, model: true, type: true },
+    orderBy: { assetTag: 'asc' },
+  });
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold">Preventive Maintenance</h1>
+          <p className="text-muted-foreground">
+            Recurring service plans for assets and the work coming up under them
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Due Maintenance</CardTitle>
+            <CardDescription>
+              Starting a task puts the asset into repair. Completing it adds a maintenance record
+              to the asset and schedules the next one.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <MaintenanceDueList />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Maintenance Plans</CardTitle>
+            <CardDescription>
+              Plans for a type cover every asset of that type, including ones added later
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <MaintenancePlanManager assets={assets} />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
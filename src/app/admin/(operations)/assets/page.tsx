@@ -66,6 +66,9 @@ export default async function AdminAssetsPage() {
                     )}
                   </Button>
                 </Link>
+                <Link href="/scan">
+                  <Button variant="outline">Scan Label</Button>
+                </Link>
                 <Link href="/admin/assets/new">
                   <Button>+ Add Asset</Button>
                 </Link>
@@ -14,6 +14,8 @@ import { formatBillingCycle } from '@/lib/utils/format-billing-cycle';
 import { SubscriptionLifecycleActions } from '@/components/subscriptions/subscription-lifecycle-actions';
 import { HistoryTimeline } from '@/components/subscriptions/history-timeline';
 import { CostBreakdown } from '@/components/subscriptions/cost-breakdown';
+import { PurchaseOrigin } from '@/components/domains/projects/goods-receipts';
+import { PURCHASE_ORIGIN_SELECT } from '@/lib/domains/projects/goods-receipts/goods-receipt-service';
 
 interface Props {
   params: Promise<{ id: string }>;
@@ -53,6 +55,7 @@ export default async function SubscriptionDetailPage({ params }: Props) {
         },
         orderBy: { createdAt: 'desc' },
       },
+      goodsReceiptLine: PURCHASE_ORIGIN_SELECT,
     },
   });
 
@@ -174,6 +177,10 @@ export default async function SubscriptionDetailPage({ params }: Props) {
                     <Label>Vendor</Label>
                     <div>{subscription.vendor || 'Not specified'}</div>
                   </div>
+                  <div>
+                    <Label>Purchase Request</Label>
+                    <PurchaseOrigin goodsReceiptLine={subscription.goodsReceiptLine} />
+                  </div>
                   <div>
                     <Label>Account ID</Label>
                     <div className="font-mono">{subscription.accountId || 'Not provided'}</div>
@@ -0,0 +1,109 @@
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { redirect } from 'next/navigation';
+import Link from 'next/link';
+import { Role } from '@prisma/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { OperatingBudgetManager } from '@/components/domains/projects/budgets';
+import { getProjectBudgetSummaries } from '@/lib/domains/projects/budgets/budget-service';
+import { BUDGET_ENFORCEMENT_LABELS } from '@/lib/domains/projects/budgets/budget';
+import { formatCurrency } from '@/lib/payroll/utils';
+
+export default async function BudgetsPage() {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    redirect('/login');
+  }
+
+  if (process.env.NODE_ENV !== 'development' && session.user.role !== Role.ADMIN) {
+    redirect('/forbidden');
+  }
+
+  const projects = await getProjectBudgetSummaries();
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold">Budgets</h1>
+          <p className="text-muted-foreground">
+            Spend committed by approved purchase requests and actual spend from completed ones
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Operating Costs</CardTitle>
+            <CardDescription>
+              Annual budget of the operating-cost cost center
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <OperatingBudgetManager />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Projects</CardTitle>
+            <CardDescription>
+              Set a project&apos;s budget when editing the project
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {projects.length === 0 ? (
+              <p className="text-sm text-gray-500">No project budgets or project spend yet.</p>
+            ) : (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Project</TableHead>
+                      <TableHead className="text-right">Budget</TableHead>
+                      <TableHead className="text-right">Actual</TableHead>
+                      <TableHead className="text-right">Committed</TableHead>
+                      <TableHead className="text-right">Remaining</TableHead>
+                      <TableHead className="text-right">Used</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {projects.map((project) => {
+                      const { budget, actual, committed, remaining, utilisation } = project.summary;
+                      return (
+                        <TableRow key={project.id}>
+                          <TableCell>
+                            <Link href={`/admin/projects/${project.id}`} className="font-medium hover:underline">
+                              {project.name}
+                            </Link>
+                            <div className="flex items-center gap-2 text-xs text-gray-500">
+                              <span className="font-mono">{project.code}</span>
+                              {budget !== null && project.budgetEnforcement === 'BLOCK' && (
+                                <Badge variant="outline" className="text-xs">
+                                  {BUDGET_ENFORCEMENT_LABELS[project.budgetEnforcement]}
+                                </Badge>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right">{budget !== null ? formatCurrency(budget) : '-'}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(actual)}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(committed)}</TableCell>
+                          <TableCell className={`text-right ${remaining !== null && remaining < 0 ? 'text-red-600 font-medium' : ''}`}>
+                            {remaining !== null ? formatCurrency(remaining) : '-'}
+                          </TableCell>
+                          <TableCell className="text-right">{utilisation !== null ? `${utilisation}%` : '-'}</TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
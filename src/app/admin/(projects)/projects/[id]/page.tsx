@@ -10,6 +10,12 @@ import { Role } from '@prisma/client';
 import Link from 'next/link';
 import { formatDate, formatDateTime } from '@/lib/date-format';
 import { DeleteProjectButton } from '@/components/projects/delete-project-button';
+import { BudgetSummary } from '@/components/domains/projects/budgets';
+import { StatusBadge } from '@/components/purchase-requests/StatusBadge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { getProjectBudgetLedger } from '@/lib/domains/projects/budgets/budget-service';
+import { BUDGET_ENFORCEMENT_LABELS } from '@/lib/domains/projects/budgets/budget';
+import { formatCurrency } from '@/lib/payroll/utils';
 
 interface Props {
   params: Promise<{ id: string }>;
@@ -46,6 +52,8 @@ export default async function ProjectDetailPage({ params }: Props) {
     notFound();
   }
 
+  const budgetLedger = await getProjectBudgetLedger(project.id);
+
   const getStatusBadgeVariant = (status: string) => {
     switch (status) {
       case 'ACTIVE':
@@ -192,6 +200,58 @@ export default async function ProjectDetailPage({ params }: Props) {
             </CardContent>
           </Card>
 
+          {/* Budget vs Actual */}
+          {budgetLedger && (
+            <Card className="mb-6">
+              <CardHeader>
+                <CardTitle>Budget vs Actual</CardTitle>
+                <CardDescription>
+                  Completed purchase requests are actual spend, approved ones are committed
+                  {budgetLedger.budget !== null && ` · ${BUDGET_ENFORCEMENT_LABELS[budgetLedger.enforcement]} when over budget`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <BudgetSummary summary={budgetLedger.summary} />
+
+                {budgetLedger.entries.length > 0 && (
+                  <div className="rounded-md border">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Reference</TableHead>
+                          <TableHead>Title</TableHead>
+                          <TableHead>Status</TableHead>
+                          <TableHead className="text-right">Amount</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {budgetLedger.entries.map((entry) => (
+                          <TableRow key={entry.id}>
+                            <TableCell className="font-mono text-sm">
+                              <Link href={`/admin/purchase-requests/${entry.id}`} className="hover:underline">
+                                {entry.referenceNumber}
+                              </Link>
+                            </TableCell>
+                            <TableCell>
+                              <div>{entry.title}</div>
+                              <div className="text-xs text-gray-500">
+                                {entry.requester.name || entry.requester.email} · {formatDate(entry.requestDate)}
+                              </div>
+                            </TableCell>
+                            <TableCell>
+                              <StatusBadge status={entry.status} />
+                            </TableCell>
+                            <TableCell className="text-right">{formatCurrency(entry.amountQAR)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Related Items Summary */}
           <Card className="mb-6">
             <CardHeader>
@@ -12,6 +12,7 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { DatePicker } from '@/components/ui/date-picker';
 import { projectCreateSchema, type ProjectCreateInput } from '@/lib/validations/projects/project';
+import { BUDGET_ENFORCEMENT_LABELS } from '@/lib/domains/projects/budgets/budget';
 
 const PROJECT_STATUSES = [
   { value: 'PLANNING', label: 'Planning' },
@@ -53,6 +54,8 @@ export default function NewProjectPage() {
       endDate: undefined,
       managerId: '',
       documentHandler: '',
+      budgetAmountQAR: null,
+      budgetEnforcement: 'WARN',
     },
   });
 
@@ -314,6 +317,53 @@ export default function NewProjectPage() {
             </CardContent>
           </Card>
 
+          {/* Budget */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Budget</CardTitle>
+              <CardDescription>Approved and completed purchase requests count against it</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="budgetAmountQAR">Budget (QAR)</Label>
+                  <Input
+                    id="budgetAmountQAR"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="No budget"
+                    {...register('budgetAmountQAR', {
+                      setValueAs: (value) => (value === '' || value === null ? null : Number(value)),
+                    })}
+                    className={errors.budgetAmountQAR ? 'border-red-500' : ''}
+                  />
+                  {errors.budgetAmountQAR && (
+                    <p className="text-sm text-red-500">{errors.budgetAmountQAR.message as string}</p>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="budgetEnforcement">When an approval goes over budget</Label>
+                  <Select
+                    value={watch('budgetEnforcement') || 'WARN'}
+                    onValueChange={(value) => setValue('budgetEnforcement', value as 'WARN' | 'BLOCK')}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(BUDGET_ENFORCEMENT_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
           {/* Submit Buttons */}
           <div className="flex justify-end space-x-2">
             <Button
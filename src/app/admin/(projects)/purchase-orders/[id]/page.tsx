@@ -0,0 +1,259 @@
+'use client';
+
+import { useCallback, useEffect, useState, use } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, Loader2 } from 'lucide-react';
+import type { PurchaseOrderStatus } from '@prisma/client';
+import { formatCurrency } from '@/lib/payroll/utils';
+import {
+  DownloadPurchaseOrderButton,
+  PurchaseOrderActions,
+  PurchaseOrderStatusBadge,
+} from '@/components/domains/projects/purchase-orders';
+
+interface PurchaseOrderLine {
+  id: string;
+  lineNumber: number;
+  description: string;
+  quantity: number;
+  quantityReceived: number;
+  unitPrice: number;
+  currency: string;
+  totalPrice: number;
+}
+
+interface PurchaseOrder {
+  id: string;
+  poNumber: string;
+  status: PurchaseOrderStatus;
+  orderDate: string;
+  expectedDeliveryDate: string | null;
+  deliveryAddress: string;
+  paymentTerms: string | null;
+  deliveryTerms: string | null;
+  notes: string | null;
+  currency: string;
+  totalAmount: number;
+  totalAmountQAR: number | null;
+  receivedAt: string | null;
+  closedAt: string | null;
+  cancellationReason: string | null;
+  supplier: {
+    id: string;
+    suppCode: string | null;
+    name: string;
+    primaryContactName: string | null;
+    primaryContactEmail: string | null;
+    primaryContactMobile: string | null;
+  };
+  purchaseRequest: {
+    id: string;
+    referenceNumber: string;
+    title: string;
+    requester: { id: string; name: string | null; email: string };
+  };
+  issuedBy: { id: string; name: string | null; email: string };
+  closedBy: { id: string; name: string | null; email: string } | null;
+  lines: PurchaseOrderLine[];
+}
+
+const formatDate = (date: string | null) =>
+  date ? new Date(date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' }) : '-';
+
+export default function PurchaseOrderDetailPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = use(params);
+  const [order, setOrder] = useState<PurchaseOrder | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchOrder = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/purchase-orders/${id}`);
+      if (response.ok) {
+        setOrder(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching purchase order:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchOrder();
+  }, [fetchOrder]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="container mx-auto py-8 px-4 text-center">
+        <p className="text-gray-600">Purchase order not found</p>
+        <Link href="/admin/purchase-orders">
+          <Button variant="outline" className="mt-4">Back to Purchase Orders</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const { supplier } = order;
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div>
+          <Link href="/admin/purchase-orders">
+            <Button variant="ghost" size="sm" className="mb-4">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Purchase Orders
+            </Button>
+          </Link>
+
+          <div className="flex flex-wrap justify-between items-start gap-4">
+            <div>
+              <div className="flex items-center gap-3 mb-2">
+                <h1 className="text-3xl font-bold text-gray-900 font-mono">{order.poNumber}</h1>
+                <PurchaseOrderStatusBadge status={order.status} />
+              </div>
+              <p className="text-gray-600">
+                {supplier.name} · for{' '}
+                <Link href={`/admin/purchase-requests/${order.purchaseRequest.id}`} className="hover:underline">
+                  {order.purchaseRequest.referenceNumber} - {order.purchaseRequest.title}
+                </Link>
+              </p>
+            </div>
+            <DownloadPurchaseOrderButton purchaseOrderId={order.id} poNumber={order.poNumber} size="default" />
+          </div>
+        </div>
+
+        <PurchaseOrderActions purchaseOrder={order} onUpdated={fetchOrder} />
+
+        {order.cancellationReason && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+            Cancelled{order.closedBy && <> by {order.closedBy.name || order.closedBy.email}</>} on {formatDate(order.closedAt)}:
+            {' '}{order.cancellationReason}
+          </div>
+        )}
+
+        <div className="grid md:grid-cols-2 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Supplier</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1 text-sm">
+              <Link href={`/admin/suppliers/${supplier.id}`} className="font-medium hover:underline">
+                {supplier.name}
+              </Link>
+              {supplier.suppCode && <p className="text-gray-500 font-mono">{supplier.suppCode}</p>}
+              {supplier.primaryContactName && <p>{supplier.primaryContactName}</p>}
+              {supplier.primaryContactEmail && <p className="text-gray-600">{supplier.primaryContactEmail}</p>}
+              {supplier.primaryContactMobile && <p className="text-gray-600">{supplier.primaryContactMobile}</p>}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Delivery & Terms</CardTitle>
+            </CardHeader>
+            <CardContent className="grid grid-cols-2 gap-4 text-sm">
+              <div className="col-span-2">
+                <p className="text-gray-500">Delivery Address</p>
+                <p className="font-medium whitespace-pre-wrap">{order.deliveryAddress}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Issued</p>
+                <p className="font-medium">{formatDate(order.orderDate)}</p>
+                <p className="text-xs text-gray-500">by {order.issuedBy.name || order.issuedBy.email}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Expected Delivery</p>
+                <p className="font-medium">{formatDate(order.expectedDeliveryDate)}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Payment Terms</p>
+                <p className="font-medium">{order.paymentTerms || '-'}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Delivery Terms</p>
+                <p className="font-medium">{order.deliveryTerms || '-'}</p>
+              </div>
+              {order.receivedAt && (
+                <div>
+                  <p className="text-gray-500">Fully Received</p>
+                  <p className="font-medium">{formatDate(order.receivedAt)}</p>
+                </div>
+              )}
+              {order.status === 'CLOSED' && (
+                <div>
+                  <p className="text-gray-500">Closed</p>
+                  <p className="font-medium">{formatDate(order.closedAt)}</p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Lines ({order.lines.length})</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">#</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="text-right">Ordered</TableHead>
+                    <TableHead className="text-right">Received</TableHead>
+                    <TableHead className="text-right">Unit Price</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {order.lines.map(line => (
+                    <TableRow key={line.id}>
+                      <TableCell className="font-mono text-sm">{line.lineNumber}</TableCell>
+                      <TableCell>{line.description}</TableCell>
+                      <TableCell className="text-right">{line.quantity}</TableCell>
+                      <TableCell
+                        className={`text-right ${line.quantityReceived >= line.quantity ? 'text-green-600' : line.quantityReceived > 0 ? 'text-amber-600' : ''}`}
+                      >
+                        {line.quantityReceived}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(line.unitPrice, line.currency)}</TableCell>
+                      <TableCell className="text-right font-medium">{formatCurrency(line.totalPrice, line.currency)}</TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-right font-medium">Total</TableCell>
+                    <TableCell className="text-right font-bold">{formatCurrency(order.totalAmount, order.currency)}</TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+
+        {order.notes && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Notes to Supplier</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-gray-700 whitespace-pre-wrap">{order.notes}</p>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { redirect } from 'next/navigation';
+import { Role } from '@prisma/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { PurchaseOrderList } from '@/components/domains/projects/purchase-orders';
+
+export default async function PurchaseOrdersPage() {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    redirect('/login');
+  }
+
+  if (process.env.NODE_ENV !== 'development' && session.user.role !== Role.ADMIN) {
+    redirect('/forbidden');
+  }
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold">Purchase Orders</h1>
+          <p className="text-muted-foreground">
+            Orders issued to suppliers from approved purchase requests
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>All Purchase Orders</CardTitle>
+            <CardDescription>
+              Issue new orders from an approved purchase request&apos;s detail page
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <PurchaseOrderList />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
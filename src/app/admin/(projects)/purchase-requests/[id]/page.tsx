@@ -2,13 +2,20 @@
 
 import { useState, useEffect, use } from 'react';
 import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
 import Link from 'next/link';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { ArrowLeft, Loader2, CheckCircle, XCircle, Clock, FileCheck } from 'lucide-react';
+import { ArrowLeft, Loader2, CheckCircle, XCircle, Clock, FileCheck, FileText, PackageCheck, Receipt } from 'lucide-react';
 import { StatusBadge, PriorityBadge } from '@/components/purchase-requests/StatusBadge';
+import { PurchaseRequestBudgetCard } from '@/components/domains/projects/budgets';
+import { PurchaseApprovalActions, PurchaseApprovalProgress } from '@/components/domains/projects/purchase-requests';
+import { PurchaseRequestOrdersCard } from '@/components/domains/projects/purchase-orders';
+import { PurchaseRequestReceiptsCard } from '@/components/domains/projects/goods-receipts';
+import { PurchaseRequestInvoicesCard } from '@/components/domains/projects/supplier-invoices';
+import type { BillingCycle, PurchaseType } from '@prisma/client';
 import { getAllowedStatusTransitions, getStatusLabel, getPurchaseTypeLabel, getCostTypeLabel, getPaymentModeLabel } from '@/lib/purchase-request-utils';
 
 interface PurchaseRequestItem {
@@ -16,9 +23,12 @@ interface PurchaseRequestItem {
   itemNumber: number;
   description: string;
   quantity: number;
+  quantityReceived: number;
   unitPrice: string;
+  unitPriceQAR: string | null;
   currency: string;
   totalPrice: string;
+  billingCycle: BillingCycle;
   category: string | null;
   supplier: string | null;
   notes: string | null;
@@ -38,6 +48,21 @@ interface PurchaseRequestHistory {
   };
 }
 
+interface PurchaseRequestApproval {
+  id: string;
+  stepOrder: number;
+  name: string;
+  approverType: string;
+  approverId: string | null;
+  status: string;
+  actedAt: string | null;
+  activatedAt: string | null;
+  notes: string | null;
+  approver: { id: string; name: string | null; email: string } | null;
+  actedBy: { id: string; name: string | null } | null;
+  delegatedFrom: { id: string; name: string | null } | null;
+}
+
 interface PurchaseRequest {
   id: string;
   referenceNumber: string;
@@ -56,9 +81,14 @@ interface PurchaseRequest {
   reviewedAt: string | null;
   completedAt: string | null;
   // Additional fields
-  purchaseType: string | null;
+  purchaseType: PurchaseType;
   costType: string | null;
   projectName: string | null;
+  project: {
+    id: string;
+    code: string;
+    name: string;
+  } | null;
   paymentMode: string | null;
   vendorName: string | null;
   vendorContact: string | null;
@@ -74,6 +104,9 @@ interface PurchaseRequest {
     name: string | null;
     email: string;
   } | null;
+  approvalRuleName: string | null;
+  currentApprovalStep: number | null;
+  approvals: PurchaseRequestApproval[];
   items: PurchaseRequestItem[];
   history: PurchaseRequestHistory[];
 }
@@ -81,6 +114,7 @@ interface PurchaseRequest {
 export default function AdminPurchaseRequestDetailPage({ params }: { params: Promise<{ id: string }> }) {
   const resolvedParams = use(params);
   const router = useRouter();
+  const { data: session } = useSession();
   const [request, setRequest] = useState<PurchaseRequest | null>(null);
   const [loading, setLoading] = useState(true);
   const [updating, setUpdating] = useState(false);
@@ -106,7 +140,7 @@ export default function AdminPurchaseRequestDetailPage({ params }: { params: Pro
     }
   };
 
-  const updateStatus = async (newStatus: string) => {
+  const updateStatus = async (newStatus: string, acknowledgeOverBudget = false) => {
     if (!request) return;
     setUpdating(true);
     setError(null);
@@ -118,11 +152,17 @@ export default function AdminPurchaseRequestDetailPage({ params }: { params: Pro
         body: JSON.stringify({
           status: newStatus,
           reviewNotes: reviewNotes || undefined,
+          acknowledgeOverBudget: acknowledgeOverBudget || undefined,
         }),
       });
 
       if (!response.ok) {
         const errorData = await response.json();
+        // Budget set to warn: approve anyway once the approver confirms
+        if (errorData.requiresAcknowledgement && confirm(`${errorData.error}.\n\nApprove anyway?`)) {
+          setUpdating(false);
+          return updateStatus(newStatus, true);
+        }
         throw new Error(errorData.error || 'Failed to update status');
       }
 
@@ -203,7 +243,13 @@ export default function AdminPurchaseRequestDetailPage({ params }: { params: Pro
     );
   }
 
-  const allowedTransitions = getAllowedStatusTransitions(request.status);
+  // Requests with an open approval chain are approved step by step
+  const currentStep = ['PENDING', 'UNDER_REVIEW'].includes(request.status)
+    ? request.approvals.find(step => step.status === 'PENDING' && step.stepOrder === request.currentApprovalStep)
+    : undefined;
+  const hasPendingApprovalChain = !!currentStep;
+  const canActOnCurrentStep = currentStep?.approverType === 'ADMIN' || currentStep?.approverId === session?.user.id;
+  const allowedTransitions = getAllowedStatusTransitions(request.status, { hasPendingApprovalChain });
 
   return (
     <div className="container mx-auto py-8 px-4">
@@ -310,7 +356,14 @@ export default function AdminPurchaseRequestDetailPage({ params }: { params: Pro
                       <p className="font-medium">{getCostTypeLabel(request.costType)}</p>
                     </div>
                   )}
-                  {request.projectName && (
+                  {request.project ? (
+                    <div>
+                      <p className="text-sm text-gray-500">Project</p>
+                      <Link href={`/admin/projects/${request.project.id}`} className="font-medium hover:underline">
+                        {request.project.code} - {request.project.name}
+                      </Link>
+                    </div>
+                  ) : request.projectName && (
                     <div>
                       <p className="text-sm text-gray-500">Project Name</p>
                       <p className="font-medium">{request.projectName}</p>
@@ -383,6 +436,7 @@ export default function AdminPurchaseRequestDetailPage({ params }: { params: Pro
                         <TableHead>Description</TableHead>
                         <TableHead>Category</TableHead>
                         <TableHead className="text-right">Qty</TableHead>
+                        <TableHead className="text-right">Received</TableHead>
                         <TableHead className="text-right">Unit Price</TableHead>
                         <TableHead className="text-right">Total</TableHead>
                       </TableRow>
@@ -404,6 +458,11 @@ export default function AdminPurchaseRequestDetailPage({ params }: { params: Pro
                           </TableCell>
                           <TableCell className="text-sm text-gray-600">{item.category || '-'}</TableCell>
                           <TableCell className="text-right">{item.quantity}</TableCell>
+                          <TableCell
+                            className={`text-right ${item.quantityReceived >= item.quantity ? 'text-green-600' : item.quantityReceived > 0 ? 'text-amber-600' : 'text-gray-400'}`}
+                          >
+                            {item.quantityReceived}
+                          </TableCell>
                           <TableCell className="text-right">{formatAmount(item.unitPrice, item.currency)}</TableCell>
                           <TableCell className="text-right font-medium">{formatAmount(item.totalPrice, item.currency)}</TableCell>
                         </TableRow>
@@ -414,6 +473,27 @@ export default function AdminPurchaseRequestDetailPage({ params }: { params: Pro
               </CardContent>
             </Card>
 
+            <PurchaseRequestOrdersCard
+              purchaseRequestId={request.id}
+              status={request.status}
+              items={request.items}
+            />
+
+            <PurchaseRequestReceiptsCard
+              purchaseRequestId={request.id}
+              status={request.status}
+              purchaseType={request.purchaseType}
+              items={request.items}
+              onReceived={fetchRequest}
+            />
+
+            <PurchaseRequestInvoicesCard
+              purchaseRequestId={request.id}
+              status={request.status}
+              currency={request.currency}
+              items={request.items}
+            />
+
             {/* History */}
             <Card>
               <CardHeader>
@@ -432,6 +512,11 @@ export default function AdminPurchaseRequestDetailPage({ params }: { params: Pro
                           <Clock className="h-4 w-4 text-blue-500" />
                         )}
                         {entry.action === 'UPDATED' && <Clock className="h-4 w-4 text-gray-500" />}
+                        {entry.action === 'STEP_APPROVED' && <CheckCircle className="h-4 w-4 text-blue-500" />}
+                        {entry.action === 'PO_ISSUED' && <FileText className="h-4 w-4 text-blue-500" />}
+                        {entry.action === 'PO_CANCELLED' && <FileText className="h-4 w-4 text-red-500" />}
+                        {entry.action === 'GOODS_RECEIVED' && <PackageCheck className="h-4 w-4 text-green-500" />}
+                        {entry.action === 'INVOICE_RECEIVED' && <Receipt className="h-4 w-4 text-blue-500" />}
                       </div>
                       <div className="flex-1">
                         <div className="flex justify-between items-start">
@@ -440,6 +525,11 @@ export default function AdminPurchaseRequestDetailPage({ params }: { params: Pro
                               {entry.action === 'CREATED' && 'Request Created'}
                               {entry.action === 'STATUS_CHANGED' && `Status changed to ${getStatusLabel(entry.newStatus || '')}`}
                               {entry.action === 'UPDATED' && 'Request Updated'}
+                              {entry.action === 'STEP_APPROVED' && 'Approval Step Approved'}
+                              {entry.action === 'PO_ISSUED' && 'Purchase Order Issued'}
+                              {entry.action === 'PO_CANCELLED' && 'Purchase Order Cancelled'}
+                              {entry.action === 'GOODS_RECEIVED' && 'Goods Received'}
+                              {entry.action === 'INVOICE_RECEIVED' && 'Invoice Received'}
                             </p>
                             <p className="text-xs text-gray-500">
                               by {entry.performedBy.name || entry.performedBy.email}
@@ -460,6 +550,34 @@ export default function AdminPurchaseRequestDetailPage({ params }: { params: Pro
 
           {/* Sidebar - Actions */}
           <div className="space-y-6">
+            {/* Approval Chain */}
+            {request.approvals.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Approval Chain</CardTitle>
+                  <CardDescription>
+                    {hasPendingApprovalChain
+                      ? 'The request is approved once every step has approved it'
+                      : 'Steps this request went through'}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <PurchaseApprovalProgress
+                    approvals={request.approvals}
+                    currentStep={request.currentApprovalStep}
+                    ruleName={request.approvalRuleName}
+                  />
+                  {currentStep && canActOnCurrentStep && (
+                    <PurchaseApprovalActions
+                      requestId={request.id}
+                      stepName={currentStep.name}
+                      onDecided={fetchRequest}
+                    />
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
             {/* Status Actions */}
             {allowedTransitions.length > 0 && (
               <Card>
@@ -543,6 +661,8 @@ export default function AdminPurchaseRequestDetailPage({ params }: { params: Pro
               </Card>
             )}
 
+            <PurchaseRequestBudgetCard purchaseRequestId={request.id} status={request.status} />
+
             {/* Review Info */}
             {request.reviewedBy && (
               <Card>
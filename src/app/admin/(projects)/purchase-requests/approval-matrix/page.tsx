@@ -0,0 +1,55 @@
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { redirect } from 'next/navigation';
+import Link from 'next/link';
+import { Role } from '@prisma/client';
+import { ArrowLeft } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { PurchaseApprovalMatrixEditor } from '@/components/domains/projects/purchase-requests';
+import { PURCHASE_APPROVAL_REMINDER_DAYS } from '@/lib/domains/projects/purchase-requests/approval-matrix';
+
+export default async function PurchaseApprovalMatrixPage() {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    redirect('/login');
+  }
+
+  if (process.env.NODE_ENV !== 'development' && session.user.role !== Role.ADMIN) {
+    redirect('/forbidden');
+  }
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div>
+          <Link href="/admin/purchase-requests">
+            <Button variant="ghost" size="sm" className="mb-4">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Purchase Requests
+            </Button>
+          </Link>
+          <h1 className="text-2xl font-bold">Approval Matrix</h1>
+          <p className="text-muted-foreground">
+            Who approves a purchase request, by amount and purchase type
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Approval Rules</CardTitle>
+            <CardDescription>
+              Each step is approved in turn before the request is approved. Approvers of a step left
+              waiting for {PURCHASE_APPROVAL_REMINDER_DAYS} days are reminded, and again every{' '}
+              {PURCHASE_APPROVAL_REMINDER_DAYS} days until they act.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <PurchaseApprovalMatrixEditor />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
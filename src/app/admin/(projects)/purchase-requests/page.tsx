@@ -2,8 +2,11 @@ import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
 import { redirect } from 'next/navigation';
+import Link from 'next/link';
 import { Role } from '@prisma/client';
+import { ListChecks } from 'lucide-react';
 import { PurchaseRequestListTable } from '@/components/purchase-requests/PurchaseRequestListTable';
 
 export default async function AdminPurchaseRequestsPage() {
@@ -63,6 +66,12 @@ export default async function AdminPurchaseRequestsPage() {
                 Review and manage all purchase requests from employees
               </p>
             </div>
+            <Link href="/admin/purchase-requests/approval-matrix">
+              <Button variant="outline">
+                <ListChecks className="h-4 w-4 mr-2" />
+                Approval Matrix
+              </Button>
+            </Link>
           </div>
 
           {/* Key Figures */}
@@ -0,0 +1,329 @@
+'use client';
+
+import { useCallback, useEffect, useState, use } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, ArrowLeft, CheckCircle, Loader2, Paperclip } from 'lucide-react';
+import type { SupplierInvoiceStatus } from '@prisma/client';
+import { formatCurrency } from '@/lib/payroll/utils';
+import {
+  INVOICE_MATCH_ISSUE_LABELS,
+  type InvoiceMatch,
+} from '@/lib/domains/projects/supplier-invoices/supplier-invoice';
+import {
+  SupplierInvoiceActions,
+  SupplierInvoiceStatusBadge,
+} from '@/components/domains/projects/supplier-invoices';
+
+interface SupplierInvoiceLine {
+  id: string;
+  lineNumber: number;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  totalPrice: number;
+  purchaseRequestItem: { id: string; itemNumber: number; description: string } | null;
+}
+
+interface SupplierInvoice {
+  id: string;
+  invoiceNumber: string;
+  status: SupplierInvoiceStatus;
+  invoiceDate: string;
+  dueDate: string;
+  currency: string;
+  totalAmount: number;
+  totalAmountQAR: number;
+  attachmentUrl: string | null;
+  notes: string | null;
+  varianceAcknowledged: boolean;
+  approvedAt: string | null;
+  paidAt: string | null;
+  paymentReference: string | null;
+  cancellationReason: string | null;
+  supplier: { id: string; suppCode: string | null; name: string };
+  purchaseRequest: { id: string; referenceNumber: string; title: string };
+  purchaseOrder: { id: string; poNumber: string } | null;
+  goodsReceipts: Array<{ id: string; receiptNumber: string; receivedDate: string }>;
+  createdBy: { id: string; name: string | null; email: string };
+  approvedBy: { id: string; name: string | null; email: string } | null;
+  createdAt: string;
+  lines: SupplierInvoiceLine[];
+  match: InvoiceMatch;
+}
+
+const formatDate = (date: string | null) =>
+  date ? new Date(date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' }) : '-';
+
+export default function SupplierInvoiceDetailPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = use(params);
+  const [invoice, setInvoice] = useState<SupplierInvoice | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchInvoice = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/supplier-invoices/${id}`);
+      if (response.ok) {
+        setInvoice(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching supplier invoice:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchInvoice();
+  }, [fetchInvoice]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (!invoice) {
+    return (
+      <div className="container mx-auto py-8 px-4 text-center">
+        <p className="text-gray-600">Supplier invoice not found</p>
+        <Link href="/admin/supplier-invoices">
+          <Button variant="outline" className="mt-4">Back to Supplier Invoices</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const { match } = invoice;
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div>
+          <Link href="/admin/supplier-invoices">
+            <Button variant="ghost" size="sm" className="mb-4">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Supplier Invoices
+            </Button>
+          </Link>
+
+          <div className="flex flex-wrap justify-between items-start gap-4">
+            <div>
+              <div className="flex items-center gap-3 mb-2">
+                <h1 className="text-3xl font-bold text-gray-900 font-mono">{invoice.invoiceNumber}</h1>
+                <SupplierInvoiceStatusBadge status={invoice.status} />
+              </div>
+              <p className="text-gray-600">
+                {invoice.supplier.name} · for{' '}
+                <Link href={`/admin/purchase-requests/${invoice.purchaseRequest.id}`} className="hover:underline">
+                  {invoice.purchaseRequest.referenceNumber} - {invoice.purchaseRequest.title}
+                </Link>
+              </p>
+            </div>
+            {invoice.attachmentUrl && (
+              <a href={invoice.attachmentUrl} target="_blank" rel="noopener noreferrer">
+                <Button variant="outline">
+                  <Paperclip className="h-4 w-4 mr-2" />
+                  Invoice Copy
+                </Button>
+              </a>
+            )}
+          </div>
+        </div>
+
+        <SupplierInvoiceActions supplierInvoice={invoice} onUpdated={fetchInvoice} />
+
+        {invoice.cancellationReason && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+            Cancelled: {invoice.cancellationReason}
+          </div>
+        )}
+
+        <div className="grid md:grid-cols-2 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Invoice</CardTitle>
+            </CardHeader>
+            <CardContent className="grid grid-cols-2 gap-4 text-sm">
+              <div>
+                <p className="text-gray-500">Invoice Date</p>
+                <p className="font-medium">{formatDate(invoice.invoiceDate)}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Due Date</p>
+                <p className="font-medium">{formatDate(invoice.dueDate)}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Amount (excl. VAT)</p>
+                <p className="font-medium">{formatCurrency(invoice.totalAmount, invoice.currency)}</p>
+                {invoice.currency !== 'QAR' && (
+                  <p className="text-xs text-gray-500">{formatCurrency(invoice.totalAmountQAR)}</p>
+                )}
+              </div>
+              <div>
+                <p className="text-gray-500">Captured</p>
+                <p className="font-medium">{formatDate(invoice.createdAt)}</p>
+                <p className="text-xs text-gray-500">by {invoice.createdBy.name || invoice.createdBy.email}</p>
+              </div>
+              {invoice.approvedBy && (
+                <div>
+                  <p className="text-gray-500">Approved</p>
+                  <p className="font-medium">{formatDate(invoice.approvedAt)}</p>
+                  <p className="text-xs text-gray-500">by {invoice.approvedBy.name || invoice.approvedBy.email}</p>
+                </div>
+              )}
+              {invoice.paidAt && (
+                <div>
+                  <p className="text-gray-500">Paid</p>
+                  <p className="font-medium">{formatDate(invoice.paidAt)}</p>
+                  {invoice.paymentReference && (
+                    <p className="text-xs text-gray-500">Ref. {invoice.paymentReference}</p>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Order & Receipts</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4 text-sm">
+              <div>
+                <p className="text-gray-500">Purchase Order</p>
+                {invoice.purchaseOrder ? (
+                  <Link href={`/admin/purchase-orders/${invoice.purchaseOrder.id}`} className="font-medium font-mono hover:underline">
+                    {invoice.purchaseOrder.poNumber}
+                  </Link>
+                ) : (
+                  <p className="font-medium">-</p>
+                )}
+              </div>
+              <div>
+                <p className="text-gray-500">Goods Receipts</p>
+                {invoice.goodsReceipts.length === 0 ? (
+                  <p className="font-medium">-</p>
+                ) : (
+                  <ul className="space-y-1">
+                    {invoice.goodsReceipts.map(receipt => (
+                      <li key={receipt.id}>
+                        <span className="font-mono">{receipt.receiptNumber}</span>
+                        <span className="text-xs text-gray-500"> · received {formatDate(receipt.receivedDate)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              Three-Way Match
+              {match.hasVariance ? (
+                <Badge variant="outline" className="border-0 bg-amber-100 text-amber-800">
+                  <AlertTriangle className="h-3 w-3 mr-1" />
+                  {invoice.varianceAcknowledged ? 'Variance acknowledged' : 'Variance'}
+                </Badge>
+              ) : (
+                <Badge variant="outline" className="border-0 bg-green-100 text-green-800">
+                  <CheckCircle className="h-3 w-3 mr-1" />
+                  Matched
+                </Badge>
+              )}
+            </CardTitle>
+            <CardDescription>
+              Invoiced against ordered and received quantities, and unit prices against the order in QAR,
+              within a {match.tolerancePercent}% tolerance. Quantities include this item&apos;s other invoices.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">#</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="text-right">Ordered</TableHead>
+                    <TableHead className="text-right">Received</TableHead>
+                    <TableHead className="text-right">Invoiced</TableHead>
+                    <TableHead className="text-right">Unit Price</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                    <TableHead>Match</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {invoice.lines.map(line => {
+                    const lineMatch = match.lines.find(l => l.lineNumber === line.lineNumber);
+                    return (
+                      <TableRow key={line.id}>
+                        <TableCell className="font-mono text-sm">{line.lineNumber}</TableCell>
+                        <TableCell>
+                          {line.description}
+                          {line.purchaseRequestItem && (
+                            <span className="block text-xs text-gray-500">Item {line.purchaseRequestItem.itemNumber}</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{lineMatch?.orderedQuantity ?? '-'}</TableCell>
+                        <TableCell className="text-right">{lineMatch?.orderedQuantity != null ? lineMatch.receivedQuantity : '-'}</TableCell>
+                        <TableCell className="text-right">
+                          {line.quantity}
+                          {lineMatch && lineMatch.invoicedQuantity !== line.quantity && (
+                            <span className="block text-xs text-gray-500">{lineMatch.invoicedQuantity} in total</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatCurrency(line.unitPrice, invoice.currency)}
+                          {lineMatch?.priceVariancePercent ? (
+                            <span className="block text-xs text-gray-500">
+                              {lineMatch.priceVariancePercent > 0 ? '+' : ''}{lineMatch.priceVariancePercent}% vs order
+                            </span>
+                          ) : null}
+                        </TableCell>
+                        <TableCell className="text-right font-medium">{formatCurrency(line.totalPrice, invoice.currency)}</TableCell>
+                        <TableCell>
+                          {lineMatch && lineMatch.issues.length > 0 ? (
+                            <ul className="text-xs text-amber-700 space-y-0.5">
+                              {lineMatch.issues.map(issue => (
+                                <li key={issue}>{INVOICE_MATCH_ISSUE_LABELS[issue]}</li>
+                              ))}
+                            </ul>
+                          ) : (
+                            <span className="text-xs text-green-600">OK</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-right font-medium">Total excl. VAT</TableCell>
+                    <TableCell className="text-right font-bold">{formatCurrency(invoice.totalAmount, invoice.currency)}</TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+
+        {invoice.notes && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Notes</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-gray-700 whitespace-pre-wrap">{invoice.notes}</p>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
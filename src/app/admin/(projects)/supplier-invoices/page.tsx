@@ -0,0 +1,55 @@
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { redirect } from 'next/navigation';
+import { Role } from '@prisma/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { PayablesAgingTable, SupplierInvoiceList } from '@/components/domains/projects/supplier-invoices';
+
+export default async function SupplierInvoicesPage() {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    redirect('/login');
+  }
+
+  if (process.env.NODE_ENV !== 'development' && session.user.role !== Role.ADMIN) {
+    redirect('/forbidden');
+  }
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold">Supplier Invoices</h1>
+          <p className="text-muted-foreground">
+            Invoices received from suppliers, matched against purchase orders and goods receipts
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Accounts Payable Aging</CardTitle>
+            <CardDescription>
+              Unpaid invoices by supplier and days past their due date, in QAR excluding VAT
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <PayablesAgingTable />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>All Invoices</CardTitle>
+            <CardDescription>
+              Capture new invoices from an approved purchase request&apos;s detail page
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <SupplierInvoiceList />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -12,6 +12,9 @@ import { BackupDownload } from '@/components/settings/backup-download';
 import { PayrollSettings } from '@/components/settings/payroll-settings';
 import { DocumentTypeSettings } from '@/components/domains/system/settings/DocumentTypeSettings';
 import { DocumentNumberingSettings } from '@/components/domains/system/settings/DocumentNumberingSettings';
+import { WpsSettings } from '@/components/domains/system/settings/wps-settings';
+import { DepreciationSettings } from '@/components/domains/system/settings/depreciation-settings';
+import { InvoiceMatchingSettings } from '@/components/domains/system/settings/invoice-matching-settings';
 import { prisma } from '@/lib/prisma';
 
 export default async function SettingsPage() {
@@ -65,12 +68,13 @@ export default async function SettingsPage() {
           </div>
 
           <Tabs defaultValue="backup" className="space-y-6">
-            <TabsList className="grid w-full grid-cols-4 lg:grid-cols-8">
+            <TabsList className="grid w-full grid-cols-5 lg:grid-cols-9">
               <TabsTrigger value="backup">Backup</TabsTrigger>
               <TabsTrigger value="export">Data Export/Import</TabsTrigger>
               <TabsTrigger value="database">Database</TabsTrigger>
               <TabsTrigger value="numbering">Doc Numbering</TabsTrigger>
               <TabsTrigger value="doctypes">Document Types</TabsTrigger>
+              <TabsTrigger value="depreciation">Depreciation</TabsTrigger>
               <TabsTrigger value="testing" className="text-red-600">Testing/Deletion</TabsTrigger>
               <TabsTrigger value="organization">Organization</TabsTrigger>
               <TabsTrigger value="system">System Config</TabsTrigger>
@@ -101,6 +105,11 @@ export default async function SettingsPage() {
               <DocumentTypeSettings />
             </TabsContent>
 
+            {/* Depreciation Tab */}
+            <TabsContent value="depreciation" className="space-y-6">
+              <DepreciationSettings />
+            </TabsContent>
+
             {/* Testing/Deletion Tab */}
             <TabsContent value="testing" className="space-y-6">
               <DataDeletion />
@@ -127,6 +136,8 @@ export default async function SettingsPage() {
             <TabsContent value="system" className="space-y-6">
               <ExchangeRateSettings />
               <PayrollSettings />
+              <WpsSettings />
+              <InvoiceMatchingSettings />
             </TabsContent>
           </Tabs>
         </div>
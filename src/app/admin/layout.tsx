@@ -16,6 +16,7 @@ const getCachedBadgeCounts = unstable_cache(
       pendingPurchaseRequests,
       pendingAssetRequestsCount,
       pendingAssetReturnsCount,
+      pendingAssetDisposals,
     ] = await Promise.all([
       prisma.profileChangeRequest.count({ where: { status: 'PENDING' } }),
       prisma.leaveRequest.count({ where: { status: 'PENDING' } }),
@@ -23,6 +24,7 @@ const getCachedBadgeCounts = unstable_cache(
       prisma.purchaseRequest.count({ where: { status: 'PENDING' } }),
       prisma.assetRequest.count({ where: { status: 'PENDING_ADMIN_APPROVAL' } }),
       prisma.assetRequest.count({ where: { status: 'PENDING_RETURN_APPROVAL' } }),
+      prisma.assetDisposal.count({ where: { status: 'PENDING' } }),
     ]);
 
     return {
@@ -31,6 +33,7 @@ const getCachedBadgeCounts = unstable_cache(
       pendingSuppliers,
       pendingPurchaseRequests,
       pendingAssetRequests: pendingAssetRequestsCount + pendingAssetReturnsCount,
+      pendingAssetDisposals,
     };
   },
   ['admin-badge-counts'],
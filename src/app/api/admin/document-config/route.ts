@@ -5,6 +5,7 @@ import { prisma } from '@/lib/prisma';
 import { withErrorHandler } from '@/lib/http/handler';
 import { Role } from '@prisma/client';
 import { createDocumentConfigSchema } from '@/lib/validations/system/document-config';
+import { previewNextDocumentNumber } from '@/lib/domains/system/document-numbering/document-number-service';
 
 // GET /api/admin/document-config - Get all document number configs
 async function getDocumentConfigsHandler(request: NextRequest) {
@@ -41,9 +42,16 @@ async function getDocumentConfigsHandler(request: NextRequest) {
     where: { key: 'companyPrefix' },
   });
 
+  const companyPrefix = prefixSetting?.value || 'BCE';
+
+  // Preview the next number each config will issue
+  const nextNumbers = await Promise.all(
+    configs.map(config => previewNextDocumentNumber(config, companyPrefix))
+  );
+
   return NextResponse.json({
-    configs,
-    companyPrefix: prefixSetting?.value || 'BCE',
+    configs: configs.map((config, index) => ({ ...config, nextNumber: nextNumbers[index] })),
+    companyPrefix,
   });
 }
 
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { assetCheckInSchema } from '@/lib/validations/operations/asset-labels';
+import { logAction, ActivityActions } from '@/lib/activity';
+import { recordAssetLocationChange, recordAssetUpdate } from '@/lib/asset-history';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/assets/[id]/check-in - Record where a scanned asset was found
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const body = await request.json();
+    const validation = assetCheckInSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const { location, notes } = validation.data;
+
+    const currentAsset = await prisma.asset.findUnique({
+      where: { id },
+      select: { id: true, assetTag: true, location: true },
+    });
+
+    if (!currentAsset) {
+      return NextResponse.json({ error: 'Asset not found' }, { status: 404 });
+    }
+
+    const locationChanged = location !== currentAsset.location;
+
+    // A scan at the same location is still a sighting worth keeping in the history
+    if (locationChanged) {
+      await prisma.asset.update({
+        where: { id },
+        data: { location },
+      });
+      await recordAssetLocationChange(
+        id,
+        currentAsset.location,
+        location,
+        session.user.id,
+        notes || undefined
+      );
+    } else {
+      await recordAssetUpdate(
+        id,
+        session.user.id,
+        notes || `Asset checked in at ${location} (location unchanged)`
+      );
+    }
+
+    await logAction(
+      session.user.id,
+      ActivityActions.ASSET_CHECKED_IN,
+      'Asset',
+      id,
+      {
+        assetTag: currentAsset.assetTag,
+        fromLocation: currentAsset.location,
+        toLocation: location,
+        locationChanged,
+      }
+    );
+
+    return NextResponse.json({ id, location, locationChanged });
+  } catch (error) {
+    console.error('Asset check-in error:', error);
+    return NextResponse.json(
+      { error: 'Failed to check in asset' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { AssetStatus } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { assetCustodyConfirmationSchema } from '@/lib/validations/operations/asset-labels';
+import { logAction, ActivityActions } from '@/lib/activity';
+import { recordAssetCustodyConfirmation } from '@/lib/asset-history';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/assets/[id]/confirm-custody - Assigned user confirms they hold the asset
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const body = await request.json().catch(() => ({}));
+    const validation = assetCustodyConfirmationSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const asset = await prisma.asset.findUnique({
+      where: { id },
+      select: { id: true, assetTag: true, status: true, assignedUserId: true },
+    });
+
+    if (!asset) {
+      return NextResponse.json({ error: 'Asset not found' }, { status: 404 });
+    }
+
+    if (asset.assignedUserId !== session.user.id || asset.status !== AssetStatus.IN_USE) {
+      return NextResponse.json(
+        { error: 'Only the user this asset is assigned to can confirm holding it' },
+        { status: 403 }
+      );
+    }
+
+    await recordAssetCustodyConfirmation(id, session.user.id, validation.data.notes || undefined);
+
+    await logAction(
+      session.user.id,
+      ActivityActions.ASSET_CUSTODY_CONFIRMED,
+      'Asset',
+      id,
+      { assetTag: asset.assetTag }
+    );
+
+    return NextResponse.json({ id, confirmedAt: new Date().toISOString() });
+  } catch (error) {
+    console.error('Asset custody confirmation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to confirm asset custody' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { createAssetDisposalSchema } from '@/lib/validations/operations/asset-disposal';
+import { logAction, ActivityActions } from '@/lib/activity';
+import {
+  DISPOSAL_INCLUDE,
+  requestAssetDisposal,
+  transformDisposal,
+} from '@/lib/domains/operations/assets/asset-disposal-service';
+import { AppError } from '@/lib/http/errors';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/assets/[id]/disposals - Disposal requests for an asset, newest first
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const disposals = await prisma.assetDisposal.findMany({
+      where: { assetId: id },
+      include: DISPOSAL_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json({ disposals: disposals.map(transformDisposal) });
+  } catch (error) {
+    console.error('Asset disposals GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch asset disposals' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/assets/[id]/disposals - Request disposal of an asset
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const body = await request.json();
+    const validation = createAssetDisposalSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const disposal = await requestAssetDisposal(id, validation.data, {
+      id: session.user.id,
+      name: session.user.name || session.user.email,
+    });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.ASSET_DISPOSAL_REQUESTED,
+      'Asset',
+      id,
+      {
+        disposalNumber: disposal.disposalNumber,
+        assetTag: disposal.asset.assetTag,
+        method: disposal.method,
+        proceeds: disposal.proceeds,
+        dataWipeConfirmed: disposal.dataWipeConfirmed,
+      }
+    );
+
+    return NextResponse.json({ disposal }, { status: 201 });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('Asset disposal create error:', error);
+    return NextResponse.json(
+      { error: 'Failed to request asset disposal' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
-import { Role } from '@prisma/client';
+import { AssetStatus, Role } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
 import { updateAssetSchema } from '@/lib/validations/assets';
 import { logAction, ActivityActions } from '@/lib/activity';
@@ -32,6 +32,8 @@ const fieldLabels: Record<string, string> = {
   assignedUserId: 'Assigned User',
   assignmentDate: 'Assignment Date',
   notes: 'Notes',
+  disposalDate: 'Disposal Date',
+  disposalProceeds: 'Disposal Proceeds (QAR)',
 };
 
 export async function GET(
@@ -144,6 +146,14 @@ export async function PUT(
       return NextResponse.json({ error: 'Asset not found' }, { status: 404 });
     }
 
+    // Disposal goes through an approved disposal request, not a status edit
+    if (data.status === AssetStatus.DISPOSED && currentAsset.status !== AssetStatus.DISPOSED) {
+      return NextResponse.json({
+        error: 'Assets are disposed of through a disposal request',
+        details: [{ message: 'Use "Dispose" on the asset page to request disposal and get it approved.' }]
+      }, { status: 400 });
+    }
+
     // Check if asset tag is being changed and if the new tag already exists
     if (data.assetTag && data.assetTag !== currentAsset.assetTag) {
       const existingAsset = await prisma.asset.findFirst({
@@ -216,6 +226,21 @@ export async function PUT(
     if (data.warrantyExpiry !== undefined) {
       updateData.warrantyExpiry = data.warrantyExpiry ? new Date(data.warrantyExpiry) : null;
     }
+    if (data.disposalDate !== undefined) {
+      updateData.disposalDate = data.disposalDate ? new Date(data.disposalDate) : null;
+    }
+
+    // Depreciation stops on the disposal date: default it to today, and clear
+    // the disposal if the asset is brought back into use
+    const newStatus = data.status ?? currentAsset.status;
+    if (newStatus === AssetStatus.DISPOSED) {
+      if (!updateData.disposalDate) {
+        updateData.disposalDate = currentAsset.disposalDate ?? new Date();
+      }
+    } else if (currentAsset.disposalDate || data.disposalDate || data.disposalProceeds !== undefined) {
+      updateData.disposalDate = null;
+      updateData.disposalProceeds = null;
+    }
 
     // Auto-unassign if status is changing to anything other than IN_USE
     if (data.status && data.status !== 'IN_USE' && currentAsset.assignedUserId) {
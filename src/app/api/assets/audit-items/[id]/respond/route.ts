@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { assetAuditResponseSchema } from '@/lib/validations/operations/asset-audit';
+import { logAction, ActivityActions } from '@/lib/activity';
+import { recordAuditResponse } from '@/lib/domains/operations/assets/asset-audit-service';
+import { AppError } from '@/lib/http/errors';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/assets/audit-items/[id]/respond - Record whether the asset was found and in what state
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const body = await request.json();
+    const validation = assetAuditResponseSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const item = await recordAuditResponse(id, validation.data, {
+      id: session.user.id,
+      isAdmin: session.user.role === Role.ADMIN,
+    });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.ASSET_AUDIT_ITEM_VERIFIED,
+      'Asset',
+      item.assetId,
+      {
+        campaignNumber: item.campaign.campaignNumber,
+        assetTag: item.asset.assetTag,
+        status: item.status,
+        discrepancies: item.discrepancies,
+      }
+    );
+
+    return NextResponse.json({ item });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('Asset audit response error:', error);
+    return NextResponse.json(
+      { error: 'Failed to record audit response' },
+      { status: 500 }
+    );
+  }
+}
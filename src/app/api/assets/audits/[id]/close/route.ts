@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { logAction, ActivityActions } from '@/lib/activity';
+import { closeAuditCampaign } from '@/lib/domains/operations/assets/asset-audit-service';
+import { AppError } from '@/lib/http/errors';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/assets/audits/[id]/close - Stop accepting responses
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const campaign = await closeAuditCampaign(id, session.user.id);
+
+    await logAction(
+      session.user.id,
+      ActivityActions.ASSET_AUDIT_CLOSED,
+      'AssetAuditCampaign',
+      campaign.id,
+      {
+        campaignNumber: campaign.campaignNumber,
+        verified: campaign.progress.verified,
+        pending: campaign.progress.pending,
+        discrepancies: campaign.progress.discrepancies,
+      }
+    );
+
+    return NextResponse.json({ campaign });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('Asset audit close error:', error);
+    return NextResponse.json(
+      { error: 'Failed to close asset audit' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { applyAssetAuditCorrectionsSchema } from '@/lib/validations/operations/asset-audit';
+import { logAction, ActivityActions } from '@/lib/activity';
+import { applyAuditCorrections } from '@/lib/domains/operations/assets/asset-audit-service';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/assets/audits/[id]/corrections - Push findings into the assets and their history
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const body = await request.json().catch(() => ({}));
+    const validation = applyAssetAuditCorrectionsSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const campaign = await prisma.assetAuditCampaign.findUnique({
+      where: { id },
+      select: { id: true, campaignNumber: true },
+    });
+
+    if (!campaign) {
+      return NextResponse.json({ error: 'Audit campaign not found' }, { status: 404 });
+    }
+
+    const result = await applyAuditCorrections(id, session.user.id, validation.data.itemIds);
+
+    if (result.applied > 0) {
+      await logAction(
+        session.user.id,
+        ActivityActions.ASSET_AUDIT_CORRECTIONS_APPLIED,
+        'AssetAuditCampaign',
+        id,
+        { campaignNumber: campaign.campaignNumber, applied: result.applied }
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Asset audit corrections error:', error);
+    return NextResponse.json(
+      { error: 'Failed to apply audit corrections' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { arrayToCSV, formatDateForCSV } from '@/lib/csv-utils';
+import { withErrorHandler } from '@/lib/http/handler';
+import { logAction, ActivityActions } from '@/lib/activity';
+import {
+  AUDIT_ITEM_INCLUDE,
+  transformAuditItem,
+} from '@/lib/domains/operations/assets/asset-audit-service';
+import {
+  AUDIT_DISCREPANCY_LABELS,
+  AUDIT_ITEM_STATUS_LABELS,
+  summarizeAuditItems,
+} from '@/lib/domains/operations/assets/asset-audit';
+
+// GET /api/assets/audits/[id]/report - Discrepancy report for a campaign
+async function exportAuditReportHandler(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { id } = await context.params;
+
+  const campaign = await prisma.assetAuditCampaign.findUnique({ where: { id } });
+  if (!campaign) {
+    return NextResponse.json({ error: 'Audit campaign not found' }, { status: 404 });
+  }
+
+  const items = (await prisma.assetAuditItem.findMany({
+    where: { campaignId: id },
+    include: AUDIT_ITEM_INCLUDE,
+    orderBy: { asset: { assetTag: 'asc' } },
+  })).map(transformAuditItem);
+
+  const toRow = (item: (typeof items)[number]) => ({
+    assetTag: item.asset.assetTag || '',
+    model: item.asset.brand ? `${item.asset.brand} ${item.asset.model}` : item.asset.model,
+    responsible: item.responsibleUser?.name || item.responsibleUser?.email || 'Admin scan',
+    status: AUDIT_ITEM_STATUS_LABELS[item.status],
+    discrepancies: item.discrepancies.map(discrepancy => AUDIT_DISCREPANCY_LABELS[discrepancy]).join(', '),
+    expectedLocation: item.expectedLocation || '',
+    foundLocation: item.foundLocation || '',
+    expectedSerial: item.expectedSerial || '',
+    foundSerial: item.foundSerial || '',
+    notes: item.notes || '',
+    verifiedBy: item.verifiedBy?.name || item.verifiedBy?.email || '',
+    verifiedAt: formatDateForCSV(item.verifiedAt),
+    correctedAt: formatDateForCSV(item.correctedAt),
+  });
+
+  const itemHeaders = [
+    { key: 'assetTag', header: 'Asset Tag' },
+    { key: 'model', header: 'Model' },
+    { key: 'responsible', header: 'Responsible' },
+    { key: 'status', header: 'Finding' },
+    { key: 'discrepancies', header: 'Discrepancies' },
+    { key: 'expectedLocation', header: 'Recorded Location' },
+    { key: 'foundLocation', header: 'Found Location' },
+    { key: 'expectedSerial', header: 'Recorded Serial' },
+    { key: 'foundSerial', header: 'Found Serial' },
+    { key: 'notes', header: 'Notes' },
+    { key: 'verifiedBy', header: 'Verified By' },
+    { key: 'verifiedAt', header: 'Verified At' },
+    { key: 'correctedAt', header: 'Applied to Asset' },
+  ];
+
+  const progress = summarizeAuditItems(items);
+  const summaryData = [
+    { measure: 'Assets in scope', value: progress.total },
+    { measure: 'Verified', value: progress.verified },
+    { measure: 'Not verified', value: progress.pending },
+    { measure: 'Present', value: progress.present },
+    { measure: 'Damaged', value: progress.damaged },
+    { measure: 'Missing', value: progress.missing },
+    { measure: 'Serial mismatch', value: progress.serialMismatch },
+    { measure: 'Items with discrepancies', value: progress.discrepancies },
+  ];
+
+  const sheets = [
+    {
+      name: 'Discrepancies',
+      data: items.filter(item => item.discrepancies.length > 0).map(toRow),
+      headers: itemHeaders,
+    },
+    {
+      name: 'All Assets',
+      data: items.map(toRow),
+      headers: itemHeaders,
+    },
+    {
+      name: 'Summary',
+      data: summaryData,
+      headers: [
+        { key: 'measure', header: campaign.campaignNumber },
+        { key: 'value', header: campaign.name },
+      ],
+    },
+  ];
+
+  const excelBuffer = await arrayToCSV([], [], sheets);
+
+  await logAction(
+    session.user.id,
+    ActivityActions.ASSET_AUDIT_REPORT_EXPORTED,
+    'AssetAuditCampaign',
+    id,
+    { campaignNumber: campaign.campaignNumber, discrepancies: progress.discrepancies }
+  );
+
+  const filename = `asset_audit_${campaign.campaignNumber}.xlsx`;
+
+  return new NextResponse(new Uint8Array(excelBuffer), {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'X-Filename': filename,
+    },
+  });
+}
+
+export const GET = withErrorHandler(exportAuditReportHandler, { requireAdmin: true, rateLimit: true });
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import {
+  AUDIT_CAMPAIGN_INCLUDE,
+  AUDIT_ITEM_INCLUDE,
+  transformAuditCampaign,
+  transformAuditItem,
+} from '@/lib/domains/operations/assets/asset-audit-service';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/assets/audits/[id] - Campaign with every item and its discrepancies
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const campaign = await prisma.assetAuditCampaign.findUnique({
+      where: { id },
+      include: AUDIT_CAMPAIGN_INCLUDE,
+    });
+
+    if (!campaign) {
+      return NextResponse.json({ error: 'Audit campaign not found' }, { status: 404 });
+    }
+
+    const items = await prisma.assetAuditItem.findMany({
+      where: { campaignId: id },
+      include: AUDIT_ITEM_INCLUDE,
+      orderBy: { asset: { assetTag: 'asc' } },
+    });
+
+    return NextResponse.json({
+      campaign: transformAuditCampaign(campaign),
+      items: items.map(transformAuditItem),
+    });
+  } catch (error) {
+    console.error('Asset audit GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch asset audit' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { createAssetAuditCampaignSchema } from '@/lib/validations/operations/asset-audit';
+import { logAction, ActivityActions } from '@/lib/activity';
+import {
+  AUDIT_CAMPAIGN_INCLUDE,
+  startAuditCampaign,
+  transformAuditCampaign,
+} from '@/lib/domains/operations/assets/asset-audit-service';
+import { AppError } from '@/lib/http/errors';
+
+// GET /api/assets/audits - Asset audit campaigns, newest first
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const campaigns = await prisma.assetAuditCampaign.findMany({
+      include: AUDIT_CAMPAIGN_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json({ campaigns: campaigns.map(transformAuditCampaign) });
+  } catch (error) {
+    console.error('Asset audits GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch asset audits' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/assets/audits - Start a campaign and notify the assigned users
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = createAssetAuditCampaignSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const { campaign, notified } = await startAuditCampaign(validation.data, session.user.id);
+
+    await logAction(
+      session.user.id,
+      ActivityActions.ASSET_AUDIT_STARTED,
+      'AssetAuditCampaign',
+      campaign.id,
+      {
+        campaignNumber: campaign.campaignNumber,
+        name: campaign.name,
+        location: campaign.location,
+        categoryCode: campaign.categoryCode,
+        assets: campaign.progress.total,
+        usersNotified: notified,
+      }
+    );
+
+    return NextResponse.json({ campaign, notified }, { status: 201 });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('Asset audit create error:', error);
+    return NextResponse.json(
+      { error: 'Failed to start asset audit' },
+      { status: 500 }
+    );
+  }
+}
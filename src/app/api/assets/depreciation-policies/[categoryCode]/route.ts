@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logAction, ActivityActions } from '@/lib/activity';
+
+interface RouteParams {
+  params: Promise<{ categoryCode: string }>;
+}
+
+// DELETE /api/assets/depreciation-policies/[categoryCode] - Stop depreciating a category
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { categoryCode } = await params;
+
+    const existing = await prisma.assetDepreciationPolicy.findUnique({
+      where: { categoryCode },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Depreciation policy not found' }, { status: 404 });
+    }
+
+    await prisma.assetDepreciationPolicy.delete({
+      where: { categoryCode },
+    });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.DEPRECIATION_POLICY_DELETED,
+      'AssetDepreciationPolicy',
+      existing.id,
+      { categoryCode }
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Depreciation policy DELETE error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete depreciation policy' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { upsertDepreciationPolicySchema } from '@/lib/validations/operations/depreciation';
+import { logAction, ActivityActions } from '@/lib/activity';
+import { ASSET_CATEGORIES } from '@/lib/domains/operations/assets/asset-categories';
+
+// GET /api/assets/depreciation-policies - Every asset category with its policy (if any)
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const [policies, assetCounts] = await Promise.all([
+      prisma.assetDepreciationPolicy.findMany(),
+      prisma.asset.groupBy({
+        by: ['assetCategory'],
+        _count: { _all: true },
+      }),
+    ]);
+
+    const policyByCode = new Map(policies.map(policy => [policy.categoryCode, policy]));
+    const countByCode = new Map(assetCounts.map(count => [count.assetCategory, count._count._all]));
+
+    const categories = Object.values(ASSET_CATEGORIES).map(category => {
+      const policy = policyByCode.get(category.code);
+      return {
+        code: category.code,
+        label: category.label,
+        assetCount: countByCode.get(category.code) ?? 0,
+        policy: policy
+          ? { ...policy, salvageValuePercent: Number(policy.salvageValuePercent) }
+          : null,
+      };
+    });
+
+    return NextResponse.json({ categories });
+  } catch (error) {
+    console.error('Depreciation policies GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch depreciation policies' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/assets/depreciation-policies - Create or replace a category's policy
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = upsertDepreciationPolicySchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const { categoryCode, ...data } = validation.data;
+
+    const policy = await prisma.assetDepreciationPolicy.upsert({
+      where: { categoryCode },
+      create: { categoryCode, ...data },
+      update: data,
+    });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.DEPRECIATION_POLICY_UPDATED,
+      'AssetDepreciationPolicy',
+      policy.id,
+      { categoryCode, ...data }
+    );
+
+    return NextResponse.json({ ...policy, salvageValuePercent: Number(policy.salvageValuePercent) });
+  } catch (error) {
+    console.error('Depreciation policies PUT error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save depreciation policy' },
+      { status: 500 }
+    );
+  }
+}
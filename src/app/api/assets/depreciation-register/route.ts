@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { arrayToCSV, formatDateForCSV, formatCurrencyForCSV } from '@/lib/csv-utils';
+import { withErrorHandler } from '@/lib/http/handler';
+import { logAction, ActivityActions } from '@/lib/activity';
+import { fixedAssetRegisterQuerySchema } from '@/lib/validations/operations/depreciation';
+import { getFixedAssetRegister } from '@/lib/domains/operations/assets/depreciation-service';
+import { formatUsefulLife } from '@/lib/domains/operations/assets/depreciation';
+
+const METHOD_LABELS: Record<string, string> = {
+  STRAIGHT_LINE: 'Straight line',
+  DECLINING_BALANCE: 'Declining balance',
+};
+
+function sum(values: (number | null)[]): number {
+  return Math.round(values.reduce<number>((total, value) => total + (value ?? 0), 0) * 100) / 100;
+}
+
+// GET /api/assets/depreciation-register?month=YYYY-MM - Fixed-asset register as at month-end
+async function exportDepreciationRegisterHandler(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const queryParams = Object.fromEntries(request.nextUrl.searchParams.entries());
+  const validation = fixedAssetRegisterQuerySchema.safeParse(queryParams);
+
+  if (!validation.success) {
+    return NextResponse.json({
+      error: 'Invalid query parameters',
+      details: validation.error.issues,
+    }, { status: 400 });
+  }
+
+  const month = validation.data.month ?? new Date().toISOString().slice(0, 7);
+  const rows = await getFixedAssetRegister(month);
+
+  const registerData = rows.map(row => ({
+    assetTag: row.assetTag,
+    category: row.categoryCode ? `${row.categoryCode} - ${row.categoryLabel}` : row.categoryLabel,
+    description: row.description,
+    status: row.status,
+    purchaseDate: formatDateForCSV(row.purchaseDate),
+    method: METHOD_LABELS[row.method] || 'No policy',
+    usefulLife: row.usefulLifeMonths ? formatUsefulLife(row.usefulLifeMonths) : '',
+    cost: formatCurrencyForCSV(row.cost),
+    openingAccumulated: formatCurrencyForCSV(row.openingAccumulated),
+    depreciationForMonth: formatCurrencyForCSV(row.depreciationForMonth),
+    closingAccumulated: formatCurrencyForCSV(row.closingAccumulated),
+    netBookValue: formatCurrencyForCSV(row.netBookValue),
+    disposalDate: formatDateForCSV(row.disposalDate),
+    disposalProceeds: formatCurrencyForCSV(row.disposalProceeds),
+    disposalGainLoss: formatCurrencyForCSV(row.disposalGainLoss),
+  }));
+
+  // Totals per category for the month-end journal
+  const categories = Array.from(new Set(rows.map(row => row.categoryLabel)));
+  const summaryData = categories.map(categoryLabel => {
+    const categoryRows = rows.filter(row => row.categoryLabel === categoryLabel);
+    return {
+      category: categoryLabel,
+      assets: categoryRows.length,
+      cost: sum(categoryRows.map(row => row.cost)),
+      depreciationForMonth: sum(categoryRows.map(row => row.depreciationForMonth)),
+      closingAccumulated: sum(categoryRows.map(row => row.closingAccumulated)),
+      netBookValue: sum(categoryRows.map(row => row.netBookValue)),
+      disposalGainLoss: sum(categoryRows.map(row => row.disposalGainLoss)),
+    };
+  });
+
+  const sheets = [
+    {
+      name: `Register ${month}`,
+      data: registerData,
+      headers: [
+        { key: 'assetTag', header: 'Asset Tag' },
+        { key: 'category', header: 'Category' },
+        { key: 'description', header: 'Description' },
+        { key: 'status', header: 'Status' },
+        { key: 'purchaseDate', header: 'Purchase Date' },
+        { key: 'method', header: 'Method' },
+        { key: 'usefulLife', header: 'Useful Life' },
+        { key: 'cost', header: 'Cost (QAR)' },
+        { key: 'openingAccumulated', header: 'Opening Accumulated Depreciation' },
+        { key: 'depreciationForMonth', header: 'Depreciation for Month' },
+        { key: 'closingAccumulated', header: 'Closing Accumulated Depreciation' },
+        { key: 'netBookValue', header: 'Net Book Value' },
+        { key: 'disposalDate', header: 'Disposal Date' },
+        { key: 'disposalProceeds', header: 'Disposal Proceeds' },
+        { key: 'disposalGainLoss', header: 'Gain / (Loss) on Disposal' },
+      ],
+    },
+    {
+      name: 'Summary by Category',
+      data: summaryData,
+      headers: [
+        { key: 'category', header: 'Category' },
+        { key: 'assets', header: 'Assets' },
+        { key: 'cost', header: 'Cost (QAR)' },
+        { key: 'depreciationForMonth', header: 'Depreciation for Month' },
+        { key: 'closingAccumulated', header: 'Accumulated Depreciation' },
+        { key: 'netBookValue', header: 'Net Book Value' },
+        { key: 'disposalGainLoss', header: 'Gain / (Loss) on Disposal (YTD)' },
+      ],
+    },
+  ];
+
+  const excelBuffer = await arrayToCSV([], [], sheets);
+
+  await logAction(
+    session.user.id,
+    ActivityActions.FIXED_ASSET_REGISTER_EXPORTED,
+    'Asset',
+    undefined,
+    { month, assets: rows.length }
+  );
+
+  const filename = `fixed_asset_register_${month}.xlsx`;
+
+  return new NextResponse(new Uint8Array(excelBuffer), {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+    },
+  });
+}
+
+export const GET = withErrorHandler(exportDepreciationRegisterHandler, { requireAdmin: true, rateLimit: true });
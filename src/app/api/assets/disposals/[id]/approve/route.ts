@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { reviewAssetDisposalSchema } from '@/lib/validations/operations/asset-disposal';
+import { logAction, ActivityActions } from '@/lib/activity';
+import { approveAssetDisposal } from '@/lib/domains/operations/assets/asset-disposal-service';
+import { AppError } from '@/lib/http/errors';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/assets/disposals/[id]/approve - Approve a disposal and mark the asset disposed
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const body = await request.json().catch(() => ({}));
+    const validation = reviewAssetDisposalSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const { disposal, cancelledRequests } = await approveAssetDisposal(id, session.user.id, validation.data.notes);
+
+    await logAction(
+      session.user.id,
+      ActivityActions.ASSET_DISPOSAL_APPROVED,
+      'Asset',
+      disposal.assetId,
+      {
+        disposalNumber: disposal.disposalNumber,
+        assetTag: disposal.asset.assetTag,
+        method: disposal.method,
+        disposalDate: disposal.disposalDate,
+        proceeds: disposal.proceeds,
+        bookValueAtDisposal: disposal.bookValueAtDisposal,
+        gainLoss: disposal.gainLoss,
+        cancelledRequests,
+      }
+    );
+
+    return NextResponse.json({ disposal, cancelledRequests });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('Asset disposal approve error:', error);
+    return NextResponse.json(
+      { error: 'Failed to approve asset disposal' },
+      { status: 500 }
+    );
+  }
+}
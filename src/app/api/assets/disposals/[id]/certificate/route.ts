@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { AssetDisposalStatus, Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { getBrandingSettings } from '@/lib/core/branding';
+import {
+  DISPOSAL_INCLUDE,
+  toDisposalCertificateData,
+} from '@/lib/domains/operations/assets/asset-disposal-service';
+import {
+  generateDisposalCertificatePdf,
+  getDisposalCertificateFilename,
+} from '@/lib/domains/operations/assets/asset-disposal-certificate';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/assets/disposals/[id]/certificate - Disposal certificate PDF for an approved disposal
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const disposal = await prisma.assetDisposal.findUnique({
+      where: { id },
+      include: DISPOSAL_INCLUDE,
+    });
+
+    if (!disposal) {
+      return NextResponse.json({ error: 'Disposal request not found' }, { status: 404 });
+    }
+    if (disposal.status !== AssetDisposalStatus.APPROVED) {
+      return NextResponse.json(
+        { error: 'Certificates are only issued for approved disposals' },
+        { status: 400 }
+      );
+    }
+
+    const branding = await getBrandingSettings();
+    const content = generateDisposalCertificatePdf(toDisposalCertificateData(disposal), {
+      companyName: branding.companyName,
+      primaryColor: branding.primaryColor,
+    });
+    const filename = getDisposalCertificateFilename(disposal.disposalNumber);
+
+    return new NextResponse(new Uint8Array(content), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'X-Filename': filename,
+      },
+    });
+  } catch (error) {
+    console.error('Disposal certificate error:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate disposal certificate' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { rejectAssetDisposalSchema } from '@/lib/validations/operations/asset-disposal';
+import { logAction, ActivityActions } from '@/lib/activity';
+import { rejectAssetDisposal } from '@/lib/domains/operations/assets/asset-disposal-service';
+import { AppError } from '@/lib/http/errors';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/assets/disposals/[id]/reject - Reject a disposal request
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const body = await request.json();
+    const validation = rejectAssetDisposalSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const disposal = await rejectAssetDisposal(id, session.user.id, validation.data.notes);
+
+    await logAction(
+      session.user.id,
+      ActivityActions.ASSET_DISPOSAL_REJECTED,
+      'Asset',
+      disposal.assetId,
+      {
+        disposalNumber: disposal.disposalNumber,
+        assetTag: disposal.asset.assetTag,
+        reason: validation.data.notes,
+      }
+    );
+
+    return NextResponse.json({ disposal });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('Asset disposal reject error:', error);
+    return NextResponse.json(
+      { error: 'Failed to reject asset disposal' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logAction, ActivityActions } from '@/lib/activity';
+import {
+  cancelAssetDisposal,
+  DISPOSAL_INCLUDE,
+  transformDisposal,
+} from '@/lib/domains/operations/assets/asset-disposal-service';
+import { AppError } from '@/lib/http/errors';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/assets/disposals/[id] - One disposal request
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const disposal = await prisma.assetDisposal.findUnique({
+      where: { id },
+      include: DISPOSAL_INCLUDE,
+    });
+
+    if (!disposal) {
+      return NextResponse.json({ error: 'Disposal request not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ disposal: transformDisposal(disposal) });
+  } catch (error) {
+    console.error('Asset disposal GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch asset disposal' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/assets/disposals/[id] - Withdraw a pending disposal request
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const disposal = await cancelAssetDisposal(id, session.user.id);
+
+    await logAction(
+      session.user.id,
+      ActivityActions.ASSET_DISPOSAL_CANCELLED,
+      'Asset',
+      disposal.assetId,
+      { disposalNumber: disposal.disposalNumber, assetTag: disposal.asset.assetTag }
+    );
+
+    return NextResponse.json({ disposal });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('Asset disposal cancel error:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel asset disposal' },
+      { status: 500 }
+    );
+  }
+}
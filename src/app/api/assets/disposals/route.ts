@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { AssetDisposalStatus, Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { DISPOSAL_INCLUDE, transformDisposal } from '@/lib/domains/operations/assets/asset-disposal-service';
+
+// GET /api/assets/disposals?status=PENDING - Disposal requests, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const status = request.nextUrl.searchParams.get('status');
+    if (status && !Object.values(AssetDisposalStatus).includes(status as AssetDisposalStatus)) {
+      return NextResponse.json({ error: 'Invalid status' }, { status: 400 });
+    }
+
+    const disposals = await prisma.assetDisposal.findMany({
+      where: status ? { status: status as AssetDisposalStatus } : undefined,
+      include: DISPOSAL_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json({ disposals: disposals.map(transformDisposal) });
+  } catch (error) {
+    console.error('Asset disposals GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch asset disposals' },
+      { status: 500 }
+    );
+  }
+}
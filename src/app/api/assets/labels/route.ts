@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { assetLabelsSchema } from '@/lib/validations/operations/asset-labels';
+import { logAction, ActivityActions } from '@/lib/activity';
+import { getBrandingSettings } from '@/lib/core/branding';
+import { generateAssetLabelsPdf } from '@/lib/domains/operations/assets/asset-labels';
+
+// POST /api/assets/labels - Printable QR label sheets for the selected assets
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = assetLabelsSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const { assetIds } = validation.data;
+
+    const assets = await prisma.asset.findMany({
+      where: { id: { in: assetIds }, assetTag: { not: null } },
+      select: { id: true, assetTag: true, model: true, brand: true },
+    });
+
+    if (assets.length === 0) {
+      return NextResponse.json(
+        { error: 'None of the selected assets have an asset tag' },
+        { status: 400 }
+      );
+    }
+
+    // Keep the order the assets were selected in
+    const order = new Map(assetIds.map((id, index) => [id, index]));
+    assets.sort((a, b) => (order.get(a.id) ?? 0) - (order.get(b.id) ?? 0));
+
+    const branding = await getBrandingSettings();
+    const content = generateAssetLabelsPdf(
+      assets.map(asset => ({ assetTag: asset.assetTag!, model: asset.model, brand: asset.brand })),
+      {
+        baseUrl: process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin,
+        companyName: branding.companyName,
+      }
+    );
+
+    await logAction(
+      session.user.id,
+      ActivityActions.ASSET_LABELS_PRINTED,
+      'Asset',
+      undefined,
+      {
+        count: assets.length,
+        assetTags: assets.map(asset => asset.assetTag),
+      }
+    );
+
+    const filename = `asset-labels-${new Date().toISOString().split('T')[0]}.pdf`;
+
+    return new NextResponse(new Uint8Array(content), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'X-Filename': filename,
+        'X-Labels-Skipped': String(assetIds.length - assets.length),
+      },
+    });
+  } catch (error) {
+    console.error('Asset labels error:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate asset labels' },
+      { status: 500 }
+    );
+  }
+}
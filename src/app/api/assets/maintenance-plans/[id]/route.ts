@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import {
+  hasSingleMaintenanceTarget,
+  updateMaintenancePlanSchema,
+} from '@/lib/validations/operations/maintenance';
+import { logAction, ActivityActions } from '@/lib/activity';
+import {
+  MAINTENANCE_PLAN_INCLUDE,
+  clearScheduledMaintenanceTasks,
+  scheduleMaintenanceTasks,
+  transformMaintenancePlan,
+} from '@/lib/domains/operations/assets/maintenance-service';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const body = await request.json();
+    const validation = updateMaintenancePlanSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const data = validation.data;
+
+    const existing = await prisma.maintenancePlan.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Maintenance plan not found' }, { status: 404 });
+    }
+
+    const assetId = data.assetId === undefined ? existing.assetId : data.assetId || null;
+    const assetType = data.assetType === undefined ? existing.assetType : data.assetType?.trim() || null;
+
+    if (!hasSingleMaintenanceTarget({ assetId, assetType })) {
+      return NextResponse.json({ error: 'Select either an asset or an asset type' }, { status: 400 });
+    }
+
+    if (assetId && assetId !== existing.assetId) {
+      const asset = await prisma.asset.findUnique({ where: { id: assetId }, select: { id: true } });
+      if (!asset) {
+        return NextResponse.json({ error: 'Asset not found' }, { status: 404 });
+      }
+    }
+
+    const updated = await prisma.maintenancePlan.update({
+      where: { id },
+      data: {
+        name: data.name,
+        description: data.description,
+        assetId,
+        assetType,
+        intervalValue: data.intervalValue,
+        intervalUnit: data.intervalUnit,
+        checklist: data.checklist,
+        vendor: data.vendor,
+        expectedCost: data.expectedCost,
+        costCurrency: data.costCurrency ?? undefined,
+        startDate: data.startDate,
+        isActive: data.isActive,
+      },
+    });
+
+    // Tasks not yet started follow the new schedule; started ones are left to finish
+    const scheduleChanged = updated.assetId !== existing.assetId ||
+      updated.assetType !== existing.assetType ||
+      updated.intervalValue !== existing.intervalValue ||
+      updated.intervalUnit !== existing.intervalUnit ||
+      updated.startDate.getTime() !== existing.startDate.getTime() ||
+      updated.isActive !== existing.isActive;
+
+    if (scheduleChanged) {
+      await clearScheduledMaintenanceTasks(id);
+      await scheduleMaintenanceTasks(id);
+    }
+
+    const plan = await prisma.maintenancePlan.findUniqueOrThrow({
+      where: { id },
+      include: MAINTENANCE_PLAN_INCLUDE,
+    });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.MAINTENANCE_PLAN_UPDATED,
+      'MaintenancePlan',
+      plan.id,
+      { name: plan.name, changes: data, rescheduled: scheduleChanged }
+    );
+
+    return NextResponse.json(transformMaintenancePlan(plan));
+  } catch (error) {
+    console.error('Maintenance plan PUT error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update maintenance plan' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const existing = await prisma.maintenancePlan.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Maintenance plan not found' }, { status: 404 });
+    }
+
+    // Maintenance records from completed tasks stay on the asset
+    await prisma.maintenancePlan.delete({
+      where: { id },
+    });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.MAINTENANCE_PLAN_DELETED,
+      'MaintenancePlan',
+      id,
+      { name: existing.name }
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Maintenance plan DELETE error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete maintenance plan' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Prisma, Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { createMaintenancePlanSchema } from '@/lib/validations/operations/maintenance';
+import { logAction, ActivityActions } from '@/lib/activity';
+import {
+  MAINTENANCE_PLAN_INCLUDE,
+  scheduleMaintenanceTasks,
+  transformMaintenancePlan,
+} from '@/lib/domains/operations/assets/maintenance-service';
+
+// GET /api/assets/maintenance-plans - List plans (optionally those covering one asset)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const assetId = request.nextUrl.searchParams.get('assetId');
+    let where: Prisma.MaintenancePlanWhereInput = {};
+
+    if (assetId) {
+      const asset = await prisma.asset.findUnique({ where: { id: assetId }, select: { type: true } });
+      if (!asset) {
+        return NextResponse.json({ error: 'Asset not found' }, { status: 404 });
+      }
+      where = {
+        OR: [
+          { assetId },
+          { assetType: { equals: asset.type, mode: 'insensitive' } },
+        ],
+      };
+    }
+
+    const plans = await prisma.maintenancePlan.findMany({
+      where,
+      include: MAINTENANCE_PLAN_INCLUDE,
+      orderBy: [{ isActive: 'desc' }, { name: 'asc' }],
+    });
+
+    return NextResponse.json({ plans: plans.map(transformMaintenancePlan) });
+  } catch (error) {
+    console.error('Maintenance plans GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch maintenance plans' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/assets/maintenance-plans - Create a plan and schedule its first tasks
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = createMaintenancePlanSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const data = validation.data;
+
+    if (data.assetId) {
+      const asset = await prisma.asset.findUnique({ where: { id: data.assetId }, select: { id: true } });
+      if (!asset) {
+        return NextResponse.json({ error: 'Asset not found' }, { status: 404 });
+      }
+    }
+
+    const created = await prisma.maintenancePlan.create({
+      data: {
+        name: data.name,
+        description: data.description || null,
+        assetId: data.assetId || null,
+        assetType: data.assetId ? null : data.assetType!.trim(),
+        intervalValue: data.intervalValue,
+        intervalUnit: data.intervalUnit,
+        checklist: data.checklist,
+        vendor: data.vendor || null,
+        expectedCost: data.expectedCost ?? null,
+        costCurrency: data.costCurrency || 'QAR',
+        startDate: data.startDate,
+        isActive: data.isActive,
+        createdById: session.user.id,
+      },
+    });
+
+    const tasksScheduled = await scheduleMaintenanceTasks(created.id);
+
+    const plan = await prisma.maintenancePlan.findUniqueOrThrow({
+      where: { id: created.id },
+      include: MAINTENANCE_PLAN_INCLUDE,
+    });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.MAINTENANCE_PLAN_CREATED,
+      'MaintenancePlan',
+      plan.id,
+      {
+        name: plan.name,
+        asset: plan.asset?.assetTag ?? null,
+        assetType: plan.assetType,
+        interval: `${plan.intervalValue} ${plan.intervalUnit}`,
+        tasksScheduled,
+      }
+    );
+
+    return NextResponse.json(transformMaintenancePlan(plan), { status: 201 });
+  } catch (error) {
+    console.error('Maintenance plans POST error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create maintenance plan' },
+      { status: 500 }
+    );
+  }
+}
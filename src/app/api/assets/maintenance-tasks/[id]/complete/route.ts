@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { completeMaintenanceTaskSchema } from '@/lib/validations/operations/maintenance';
+import { logAction, ActivityActions } from '@/lib/activity';
+import { AppError } from '@/lib/http/errors';
+import {
+  completeMaintenanceTask,
+  transformMaintenanceTask,
+} from '@/lib/domains/operations/assets/maintenance-service';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/assets/maintenance-tasks/[id]/complete - Record the work and schedule the next task
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const body = await request.json();
+    const validation = completeMaintenanceTaskSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const { task, record } = await completeMaintenanceTask(id, validation.data, session.user.id);
+
+    await logAction(
+      session.user.id,
+      ActivityActions.MAINTENANCE_TASK_COMPLETED,
+      'Asset',
+      task.assetId,
+      {
+        taskId: task.id,
+        plan: task.plan.name,
+        assetTag: task.asset.assetTag,
+        maintenanceRecordId: record.id,
+        cost: record.cost,
+        downtimeHours: record.downtimeHours,
+      }
+    );
+
+    return NextResponse.json({ task: transformMaintenanceTask(task), record });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('Maintenance task complete error:', error);
+    return NextResponse.json(
+      { error: 'Failed to complete maintenance task' },
+      { status: 500 }
+    );
+  }
+}
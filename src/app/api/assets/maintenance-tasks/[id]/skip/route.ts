@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { skipMaintenanceTaskSchema } from '@/lib/validations/operations/maintenance';
+import { logAction, ActivityActions } from '@/lib/activity';
+import { AppError } from '@/lib/http/errors';
+import {
+  skipMaintenanceTask,
+  transformMaintenanceTask,
+} from '@/lib/domains/operations/assets/maintenance-service';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/assets/maintenance-tasks/[id]/skip - Skip this occurrence and schedule the next one
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const body = await request.json().catch(() => ({}));
+    const validation = skipMaintenanceTaskSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const task = await skipMaintenanceTask(id, validation.data.notes);
+
+    await logAction(
+      session.user.id,
+      ActivityActions.MAINTENANCE_TASK_SKIPPED,
+      'Asset',
+      task.assetId,
+      { taskId: task.id, plan: task.plan.name, assetTag: task.asset.assetTag, notes: task.notes }
+    );
+
+    return NextResponse.json(transformMaintenanceTask(task));
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('Maintenance task skip error:', error);
+    return NextResponse.json(
+      { error: 'Failed to skip maintenance task' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { logAction, ActivityActions } from '@/lib/activity';
+import { AppError } from '@/lib/http/errors';
+import {
+  startMaintenanceTask,
+  transformMaintenanceTask,
+} from '@/lib/domains/operations/assets/maintenance-service';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/assets/maintenance-tasks/[id]/start - Start work, putting the asset into REPAIR
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const task = await startMaintenanceTask(id, session.user.id);
+
+    await logAction(
+      session.user.id,
+      ActivityActions.MAINTENANCE_TASK_STARTED,
+      'Asset',
+      task.assetId,
+      { taskId: task.id, plan: task.plan.name, assetTag: task.asset.assetTag }
+    );
+
+    return NextResponse.json(transformMaintenanceTask(task));
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('Maintenance task start error:', error);
+    return NextResponse.json(
+      { error: 'Failed to start maintenance task' },
+      { status: 500 }
+    );
+  }
+}
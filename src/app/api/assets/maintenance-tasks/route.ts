@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { maintenanceTaskQuerySchema } from '@/lib/validations/operations/maintenance';
+import { getDueMaintenanceTasks } from '@/lib/domains/operations/assets/maintenance-service';
+
+// GET /api/assets/maintenance-tasks - Overdue and upcoming preventive maintenance
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const queryParams = Object.fromEntries(request.nextUrl.searchParams.entries());
+    const validation = maintenanceTaskQuerySchema.safeParse(queryParams);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid query parameters',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const tasks = await getDueMaintenanceTasks(validation.data);
+
+    return NextResponse.json({
+      tasks,
+      summary: {
+        overdue: tasks.filter(task => task.dueStatus === 'OVERDUE').length,
+        dueSoon: tasks.filter(task => task.dueStatus === 'DUE_SOON').length,
+        inProgress: tasks.filter(task => task.status === 'IN_PROGRESS').length,
+      },
+    });
+  } catch (error) {
+    console.error('Maintenance tasks GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch maintenance tasks' },
+      { status: 500 }
+    );
+  }
+}
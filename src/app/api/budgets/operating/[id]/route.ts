@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { updateOperatingBudgetSchema } from '@/lib/validations/projects/budget';
+import { logAction, ActivityActions } from '@/lib/activity';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// PATCH - Change an operating budget (admin only)
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const existing = await prisma.operatingBudget.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Operating budget not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const validation = updateOperatingBudgetSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues
+      }, { status: 400 });
+    }
+
+    const data = validation.data;
+
+    const budget = await prisma.operatingBudget.update({
+      where: { id },
+      data: {
+        amountQAR: data.amountQAR,
+        enforcement: data.enforcement,
+        notes: data.notes !== undefined ? data.notes || null : undefined,
+      },
+    });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.OPERATING_BUDGET_UPDATED,
+      'OperatingBudget',
+      budget.id,
+      {
+        year: budget.year,
+        previousAmountQAR: Number(existing.amountQAR),
+        amountQAR: Number(budget.amountQAR),
+        enforcement: budget.enforcement,
+      }
+    );
+
+    return NextResponse.json({ budget: { ...budget, amountQAR: Number(budget.amountQAR) } });
+  } catch (error) {
+    console.error('Operating budget PATCH error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update operating budget' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove an operating budget; spend for the year is no longer checked (admin only)
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const existing = await prisma.operatingBudget.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Operating budget not found' }, { status: 404 });
+    }
+
+    await prisma.operatingBudget.delete({ where: { id } });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.OPERATING_BUDGET_DELETED,
+      'OperatingBudget',
+      id,
+      { year: existing.year, amountQAR: Number(existing.amountQAR) }
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Operating budget DELETE error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete operating budget' },
+      { status: 500 }
+    );
+  }
+}
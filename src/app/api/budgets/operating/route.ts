@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { createOperatingBudgetSchema } from '@/lib/validations/projects/budget';
+import { getOperatingBudgetLedger } from '@/lib/domains/projects/budgets/budget-service';
+import { logAction, ActivityActions } from '@/lib/activity';
+
+// GET - Operating budgets by year with their committed and actual spend (admin only)
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const budgets = await prisma.operatingBudget.findMany({
+      include: { createdBy: { select: { id: true, name: true, email: true } } },
+      orderBy: { year: 'desc' },
+    });
+
+    const ledgers = await Promise.all(budgets.map(budget => getOperatingBudgetLedger(budget.year)));
+
+    return NextResponse.json({
+      budgets: budgets.map((budget, index) => ({
+        ...budget,
+        amountQAR: Number(budget.amountQAR),
+        summary: ledgers[index].summary,
+      })),
+    });
+  } catch (error) {
+    console.error('Operating budgets GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch operating budgets' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Set the operating budget of a year (admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = createOperatingBudgetSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues
+      }, { status: 400 });
+    }
+
+    const data = validation.data;
+
+    const existing = await prisma.operatingBudget.findUnique({ where: { year: data.year } });
+    if (existing) {
+      return NextResponse.json(
+        { error: `An operating budget for ${data.year} already exists` },
+        { status: 400 }
+      );
+    }
+
+    const budget = await prisma.operatingBudget.create({
+      data: {
+        year: data.year,
+        amountQAR: data.amountQAR,
+        enforcement: data.enforcement,
+        notes: data.notes || null,
+        createdById: session.user.id,
+      },
+    });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.OPERATING_BUDGET_CREATED,
+      'OperatingBudget',
+      budget.id,
+      { year: budget.year, amountQAR: data.amountQAR, enforcement: budget.enforcement }
+    );
+
+    return NextResponse.json({ budget: { ...budget, amountQAR: Number(budget.amountQAR) } }, { status: 201 });
+  } catch (error) {
+    console.error('Operating budget POST error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create operating budget' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,177 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { updateDepartmentSchema } from '@/lib/validations/hr/organization';
+import { logAction, ActivityActions } from '@/lib/activity';
+import { wouldCreateCycle } from '@/lib/domains/hr/employees/org-chart';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const department = await prisma.department.findUnique({
+      where: { id },
+      include: {
+        parent: { select: { id: true, name: true } },
+        children: { select: { id: true, name: true, costCenter: true, isActive: true } },
+        head: { select: { id: true, name: true, email: true } },
+        members: {
+          select: {
+            designation: true,
+            user: { select: { id: true, name: true, email: true } },
+          },
+        },
+      },
+    });
+
+    if (!department) {
+      return NextResponse.json({ error: 'Department not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(department);
+  } catch (error) {
+    console.error('Department GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch department' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const body = await request.json();
+    const validation = updateDepartmentSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const data = validation.data;
+
+    const existing = await prisma.department.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Department not found' }, { status: 404 });
+    }
+
+    if ((data.name && data.name !== existing.name) || (data.code && data.code !== existing.code)) {
+      const duplicate = await prisma.department.findFirst({
+        where: {
+          id: { not: id },
+          OR: [
+            ...(data.name ? [{ name: data.name }] : []),
+            ...(data.code ? [{ code: data.code }] : []),
+          ],
+        },
+      });
+
+      if (duplicate) {
+        return NextResponse.json({
+          error: 'A department with this name or code already exists',
+        }, { status: 400 });
+      }
+    }
+
+    if (data.parentId) {
+      const departments = await prisma.department.findMany({ select: { id: true, parentId: true } });
+      const hierarchy = departments.map(d => ({ userId: d.id, managerId: d.parentId }));
+      if (wouldCreateCycle(id, data.parentId, hierarchy)) {
+        return NextResponse.json({
+          error: 'A department cannot be nested under itself or one of its teams',
+        }, { status: 400 });
+      }
+    }
+
+    const department = await prisma.department.update({
+      where: { id },
+      data: {
+        ...data,
+        ...(data.code !== undefined && { code: data.code || null }),
+        ...(data.costCenter !== undefined && { costCenter: data.costCenter || null }),
+      },
+    });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.DEPARTMENT_UPDATED,
+      'Department',
+      department.id,
+      { name: department.name, changes: data }
+    );
+
+    return NextResponse.json(department);
+  } catch (error) {
+    console.error('Department PUT error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update department' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const department = await prisma.department.findUnique({
+      where: { id },
+      include: {
+        _count: { select: { members: true, children: true } },
+      },
+    });
+
+    if (!department) {
+      return NextResponse.json({ error: 'Department not found' }, { status: 404 });
+    }
+
+    if (department._count.members > 0 || department._count.children > 0) {
+      return NextResponse.json({
+        error: 'Cannot delete a department with members or teams. Consider deactivating it instead.',
+      }, { status: 400 });
+    }
+
+    await prisma.department.delete({ where: { id } });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.DEPARTMENT_DELETED,
+      'Department',
+      id,
+      { name: department.name }
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Department DELETE error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete department' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { departmentSchema } from '@/lib/validations/hr/organization';
+import { logAction, ActivityActions } from '@/lib/activity';
+
+// GET /api/departments - List departments and teams (any signed-in user, for pickers)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const includeInactive = searchParams.get('includeInactive') === 'true';
+
+    const departments = await prisma.department.findMany({
+      where: includeInactive ? {} : { isActive: true },
+      include: {
+        parent: { select: { id: true, name: true } },
+        head: { select: { id: true, name: true, email: true } },
+        _count: { select: { members: true, children: true } },
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json({ departments });
+  } catch (error) {
+    console.error('Departments GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch departments' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/departments - Create a department or team (admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = departmentSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const data = validation.data;
+
+    const duplicate = await prisma.department.findFirst({
+      where: {
+        OR: [
+          { name: data.name },
+          ...(data.code ? [{ code: data.code }] : []),
+        ],
+      },
+    });
+
+    if (duplicate) {
+      return NextResponse.json({
+        error: 'A department with this name or code already exists',
+      }, { status: 400 });
+    }
+
+    if (data.parentId) {
+      const parent = await prisma.department.findUnique({ where: { id: data.parentId } });
+      if (!parent) {
+        return NextResponse.json({ error: 'Parent department not found' }, { status: 400 });
+      }
+    }
+
+    const department = await prisma.department.create({
+      data: {
+        ...data,
+        code: data.code || null,
+        costCenter: data.costCenter || null,
+      },
+    });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.DEPARTMENT_CREATED,
+      'Department',
+      department.id,
+      { name: department.name, costCenter: department.costCenter }
+    );
+
+    return NextResponse.json(department, { status: 201 });
+  } catch (error) {
+    console.error('Departments POST error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create department' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { Role } from '@prisma/client';
+import { buildOrgTree } from '@/lib/domains/hr/employees/org-chart';
+
+// GET /api/employees/org-chart - Reporting-line tree of all employees (admin only)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    if (session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const departmentId = searchParams.get('departmentId');
+
+    const employees = await prisma.user.findMany({
+      where: {
+        isSystemAccount: false,
+        role: { in: [Role.EMPLOYEE, Role.TEMP_STAFF, Role.ADMIN] },
+        ...(departmentId && { hrProfile: { departmentId } }),
+      },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        image: true,
+        role: true,
+        hrProfile: {
+          select: {
+            employeeId: true,
+            designation: true,
+            photoUrl: true,
+            managerId: true,
+            department: { select: { id: true, name: true, costCenter: true } },
+          },
+        },
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    const tree = buildOrgTree(
+      employees.map(emp => ({
+        userId: emp.id,
+        managerId: emp.hrProfile?.managerId ?? null,
+        name: emp.name,
+        email: emp.email,
+        image: emp.hrProfile?.photoUrl || emp.image,
+        role: emp.role,
+        employeeId: emp.hrProfile?.employeeId ?? null,
+        designation: emp.hrProfile?.designation ?? null,
+        department: emp.hrProfile?.department ?? null,
+      }))
+    );
+
+    return NextResponse.json({
+      tree,
+      total: employees.length,
+      withoutManager: employees.filter(emp => !emp.hrProfile?.managerId).length,
+    });
+  } catch (error) {
+    console.error('Org chart GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch org chart' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { getPendingApprovalsForUser } from '@/lib/domains/hr/leave/approval-service';
+
+/**
+ * Leave requests whose current approval step is waiting on the signed-in user
+ * (directly or as an out-of-office delegate)
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const requests = await getPendingApprovalsForUser({
+      id: session.user.id,
+      role: session.user.role,
+    });
+
+    return NextResponse.json({ requests });
+  } catch (error) {
+    console.error('Leave approvals GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch pending approvals' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { updateLeaveBlackoutPeriodSchema } from '@/lib/validations/leave';
+import { logAction, ActivityActions } from '@/lib/activity';
+import {
+  LEAVE_COVERAGE_INCLUDE,
+  transformLeaveBlackoutPeriod,
+} from '@/lib/domains/hr/leave/leave-conflict-service';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const body = await request.json();
+    const validation = updateLeaveBlackoutPeriodSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const data = validation.data;
+
+    const existing = await prisma.leaveBlackoutPeriod.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Blackout period not found' }, { status: 404 });
+    }
+
+    const startDate = data.startDate ? new Date(data.startDate) : existing.startDate;
+    const endDate = data.endDate ? new Date(data.endDate) : existing.endDate;
+
+    if (startDate > endDate) {
+      return NextResponse.json({
+        error: 'End date must be on or after start date',
+      }, { status: 400 });
+    }
+
+    const blackout = await prisma.leaveBlackoutPeriod.update({
+      where: { id },
+      data: {
+        name: data.name,
+        description: data.description,
+        startDate,
+        endDate,
+        enforcement: data.enforcement,
+        departmentId: data.departmentId === undefined ? undefined : data.departmentId || null,
+        isActive: data.isActive,
+      },
+      include: LEAVE_COVERAGE_INCLUDE,
+    });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.LEAVE_BLACKOUT_PERIOD_UPDATED,
+      'LeaveBlackoutPeriod',
+      blackout.id,
+      { name: blackout.name, changes: data }
+    );
+
+    return NextResponse.json(transformLeaveBlackoutPeriod(blackout));
+  } catch (error) {
+    console.error('Leave blackout period PUT error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update blackout period' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const existing = await prisma.leaveBlackoutPeriod.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Blackout period not found' }, { status: 404 });
+    }
+
+    await prisma.leaveBlackoutPeriod.delete({
+      where: { id },
+    });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.LEAVE_BLACKOUT_PERIOD_DELETED,
+      'LeaveBlackoutPeriod',
+      id,
+      { name: existing.name }
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Leave blackout period DELETE error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete blackout period' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { createLeaveBlackoutPeriodSchema } from '@/lib/validations/leave';
+import { logAction, ActivityActions } from '@/lib/activity';
+import {
+  LEAVE_COVERAGE_INCLUDE,
+  transformLeaveBlackoutPeriod,
+} from '@/lib/domains/hr/leave/leave-conflict-service';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const isAdmin = session.user.role === Role.ADMIN;
+
+    // Only admins can see inactive and past blackout periods
+    const includeAll = isAdmin && searchParams.get('includeInactive') === 'true';
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    const blackouts = await prisma.leaveBlackoutPeriod.findMany({
+      where: includeAll ? {} : { isActive: true, endDate: { gte: today } },
+      include: LEAVE_COVERAGE_INCLUDE,
+      orderBy: { startDate: 'asc' },
+    });
+
+    return NextResponse.json({ blackouts: blackouts.map(transformLeaveBlackoutPeriod) });
+  } catch (error) {
+    console.error('Leave blackout periods GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch blackout periods' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = createLeaveBlackoutPeriodSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const data = validation.data;
+
+    const blackout = await prisma.leaveBlackoutPeriod.create({
+      data: {
+        name: data.name,
+        description: data.description,
+        startDate: new Date(data.startDate),
+        endDate: new Date(data.endDate),
+        enforcement: data.enforcement,
+        departmentId: data.departmentId || null,
+        isActive: data.isActive,
+        createdById: session.user.id,
+      },
+      include: LEAVE_COVERAGE_INCLUDE,
+    });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.LEAVE_BLACKOUT_PERIOD_CREATED,
+      'LeaveBlackoutPeriod',
+      blackout.id,
+      {
+        name: blackout.name,
+        startDate: data.startDate,
+        endDate: data.endDate,
+        enforcement: blackout.enforcement,
+        department: blackout.department?.name ?? null,
+      }
+    );
+
+    return NextResponse.json(transformLeaveBlackoutPeriod(blackout), { status: 201 });
+  } catch (error) {
+    console.error('Leave blackout periods POST error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create blackout period' },
+      { status: 500 }
+    );
+  }
+}
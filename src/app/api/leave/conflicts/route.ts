@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { leaveConflictQuerySchema } from '@/lib/validations/leave';
+import { checkLeaveConflicts } from '@/lib/domains/hr/leave/leave-conflict-service';
+import { getApprovalPermission } from '@/lib/domains/hr/leave/approval-service';
+import { isManagerOf } from '@/lib/domains/hr/employees/team-service';
+
+/**
+ * Admins, the employee's managers and the current approver of the request
+ * being reviewed can check someone else's dates
+ */
+async function canCheckForUser(
+  actor: { id: string; role: Role },
+  userId: string,
+  requestId?: string
+): Promise<boolean> {
+  if (actor.role === Role.ADMIN || await isManagerOf(actor.id, userId)) {
+    return true;
+  }
+  if (!requestId) {
+    return false;
+  }
+
+  const request = await prisma.leaveRequest.findUnique({
+    where: { id: requestId },
+    select: {
+      userId: true,
+      approvals: { orderBy: { stepOrder: 'asc' } },
+    },
+  });
+  if (!request || request.userId !== userId) {
+    return false;
+  }
+
+  const permission = await getApprovalPermission(request.approvals, actor);
+  return permission.allowed;
+}
+
+// GET /api/leave/conflicts - Blackout periods and coverage rules the dates would break
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const queryParams = Object.fromEntries(searchParams.entries());
+
+    const validation = leaveConflictQuerySchema.safeParse(queryParams);
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid query parameters',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const { startDate, endDate, userId, excludeRequestId } = validation.data;
+    const targetUserId = userId || session.user.id;
+
+    if (
+      targetUserId !== session.user.id &&
+      !(await canCheckForUser({ id: session.user.id, role: session.user.role }, targetUserId, excludeRequestId))
+    ) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const report = await checkLeaveConflicts({
+      userId: targetUserId,
+      startDate: new Date(startDate),
+      endDate: new Date(endDate),
+      excludeRequestId,
+    });
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Leave conflicts GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to check leave conflicts' },
+      { status: 500 }
+    );
+  }
+}
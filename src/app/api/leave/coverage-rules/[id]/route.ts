@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { updateLeaveCoverageRuleSchema } from '@/lib/validations/leave';
+import { logAction, ActivityActions } from '@/lib/activity';
+import { LEAVE_COVERAGE_INCLUDE } from '@/lib/domains/hr/leave/leave-conflict-service';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const body = await request.json();
+    const validation = updateLeaveCoverageRuleSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const data = validation.data;
+
+    const existing = await prisma.leaveCoverageRule.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Coverage rule not found' }, { status: 404 });
+    }
+
+    const scope = data.scope ?? existing.scope;
+    const departmentId = data.departmentId === undefined ? existing.departmentId : data.departmentId || null;
+    const designation = data.designation === undefined ? existing.designation : data.designation?.trim() || null;
+
+    if (scope === 'DEPARTMENT' && !departmentId) {
+      return NextResponse.json({ error: 'Select a department' }, { status: 400 });
+    }
+    if (scope === 'DESIGNATION' && !designation) {
+      return NextResponse.json({ error: 'Enter a designation' }, { status: 400 });
+    }
+
+    const rule = await prisma.leaveCoverageRule.update({
+      where: { id },
+      data: {
+        name: data.name,
+        scope,
+        departmentId: scope === 'DESIGNATION' ? null : departmentId,
+        designation: scope === 'DESIGNATION' ? designation : null,
+        maxOnLeave: data.maxOnLeave,
+        enforcement: data.enforcement,
+        isActive: data.isActive,
+      },
+      include: LEAVE_COVERAGE_INCLUDE,
+    });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.LEAVE_COVERAGE_RULE_UPDATED,
+      'LeaveCoverageRule',
+      rule.id,
+      { name: rule.name, changes: data }
+    );
+
+    return NextResponse.json(rule);
+  } catch (error) {
+    console.error('Leave coverage rule PUT error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update coverage rule' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const existing = await prisma.leaveCoverageRule.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Coverage rule not found' }, { status: 404 });
+    }
+
+    await prisma.leaveCoverageRule.delete({
+      where: { id },
+    });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.LEAVE_COVERAGE_RULE_DELETED,
+      'LeaveCoverageRule',
+      id,
+      { name: existing.name }
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Leave coverage rule DELETE error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete coverage rule' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { createLeaveCoverageRuleSchema } from '@/lib/validations/leave';
+import { logAction, ActivityActions } from '@/lib/activity';
+import { LEAVE_COVERAGE_INCLUDE } from '@/lib/domains/hr/leave/leave-conflict-service';
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const rules = await prisma.leaveCoverageRule.findMany({
+      include: LEAVE_COVERAGE_INCLUDE,
+      orderBy: [{ scope: 'asc' }, { name: 'asc' }],
+    });
+
+    return NextResponse.json({ rules });
+  } catch (error) {
+    console.error('Leave coverage rules GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch coverage rules' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = createLeaveCoverageRuleSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const data = validation.data;
+
+    const rule = await prisma.leaveCoverageRule.create({
+      data: {
+        name: data.name,
+        scope: data.scope,
+        departmentId: data.scope === 'DESIGNATION' ? null : data.departmentId || null,
+        designation: data.scope === 'DESIGNATION' ? data.designation!.trim() : null,
+        maxOnLeave: data.maxOnLeave,
+        enforcement: data.enforcement,
+        isActive: data.isActive,
+        createdById: session.user.id,
+      },
+      include: LEAVE_COVERAGE_INCLUDE,
+    });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.LEAVE_COVERAGE_RULE_CREATED,
+      'LeaveCoverageRule',
+      rule.id,
+      {
+        name: rule.name,
+        scope: rule.scope,
+        department: rule.department?.name ?? null,
+        designation: rule.designation,
+        maxOnLeave: rule.maxOnLeave,
+        enforcement: rule.enforcement,
+      }
+    );
+
+    return NextResponse.json(rule, { status: 201 });
+  } catch (error) {
+    console.error('Leave coverage rules POST error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create coverage rule' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logAction, ActivityActions } from '@/lib/activity';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const existing = await prisma.approvalDelegation.findUnique({
+      where: { id },
+      include: {
+        delegator: { select: { name: true } },
+        delegate: { select: { name: true } },
+      },
+    });
+
+    if (!existing || !existing.isActive) {
+      return NextResponse.json({ error: 'Delegation not found' }, { status: 404 });
+    }
+
+    if (existing.delegatorId !== session.user.id && session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Keep the record for the audit trail (approvals reference who acted on whose behalf)
+    await prisma.approvalDelegation.update({
+      where: { id },
+      data: { isActive: false },
+    });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.APPROVAL_DELEGATION_REMOVED,
+      'ApprovalDelegation',
+      id,
+      {
+        delegator: existing.delegator.name,
+        delegate: existing.delegate.name,
+      }
+    );
+
+    return NextResponse.json({ message: 'Delegation removed successfully' });
+  } catch (error) {
+    console.error('Approval delegation DELETE error:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove delegation' },
+      { status: 500 }
+    );
+  }
+}
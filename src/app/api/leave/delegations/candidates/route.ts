@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+
+/**
+ * Minimal directory (name/email only) for picking an out-of-office deputy.
+ * Available to all signed-in users since /api/users is admin-only.
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const users = await prisma.user.findMany({
+      where: {
+        isSystemAccount: false,
+        role: { in: [Role.ADMIN, Role.EMPLOYEE] },
+      },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        role: true,
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json({ users });
+  } catch (error) {
+    console.error('Delegation candidates GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch users' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { createApprovalDelegationSchema } from '@/lib/validations/leave';
+import { logAction, ActivityActions } from '@/lib/activity';
+
+const delegationInclude = {
+  delegator: { select: { id: true, name: true, email: true } },
+  delegate: { select: { id: true, name: true, email: true } },
+};
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const showAll = searchParams.get('all') === 'true' && session.user.role === Role.ADMIN;
+    const includeExpired = searchParams.get('includeExpired') === 'true';
+
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    const delegations = await prisma.approvalDelegation.findMany({
+      where: {
+        isActive: true,
+        ...(!includeExpired && { endDate: { gte: today } }),
+        ...(!showAll && {
+          OR: [
+            { delegatorId: session.user.id },
+            { delegateId: session.user.id },
+          ],
+        }),
+      },
+      include: delegationInclude,
+      orderBy: { startDate: 'asc' },
+    });
+
+    return NextResponse.json({ delegations });
+  } catch (error) {
+    console.error('Approval delegations GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch delegations' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = createApprovalDelegationSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const data = validation.data;
+    const isAdmin = session.user.role === Role.ADMIN;
+
+    // Employees can only delegate their own approvals; admins can cover for anyone
+    const delegatorId = data.delegatorId && isAdmin ? data.delegatorId : session.user.id;
+
+    if (data.delegatorId && data.delegatorId !== session.user.id && !isAdmin) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (delegatorId === data.delegateId) {
+      return NextResponse.json({ error: 'You cannot delegate approvals to yourself' }, { status: 400 });
+    }
+
+    const delegate = await prisma.user.findUnique({
+      where: { id: data.delegateId },
+      select: { id: true, name: true, isSystemAccount: true },
+    });
+
+    if (!delegate || delegate.isSystemAccount) {
+      return NextResponse.json({ error: 'Delegate not found' }, { status: 404 });
+    }
+
+    const startDate = new Date(data.startDate);
+    const endDate = new Date(data.endDate);
+
+    // Only one delegation per approver at a time, so routing is unambiguous
+    const overlapping = await prisma.approvalDelegation.findFirst({
+      where: {
+        delegatorId,
+        isActive: true,
+        startDate: { lte: endDate },
+        endDate: { gte: startDate },
+      },
+    });
+
+    if (overlapping) {
+      return NextResponse.json({
+        error: 'An active delegation already covers part of this period',
+      }, { status: 400 });
+    }
+
+    const delegation = await prisma.approvalDelegation.create({
+      data: {
+        delegatorId,
+        delegateId: data.delegateId,
+        startDate,
+        endDate,
+        reason: data.reason,
+        createdById: session.user.id,
+      },
+      include: delegationInclude,
+    });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.APPROVAL_DELEGATION_CREATED,
+      'ApprovalDelegation',
+      delegation.id,
+      {
+        delegator: delegation.delegator.name,
+        delegate: delegation.delegate.name,
+        startDate: data.startDate,
+        endDate: data.endDate,
+      }
+    );
+
+    return NextResponse.json(delegation, { status: 201 });
+  } catch (error) {
+    console.error('Approval delegations POST error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create delegation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { EarningEntryStatus, EarningType, LeaveStatus, Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { approveLeaveRequestSchema } from '@/lib/validations/leave';
+import { logAction, ActivityActions } from '@/lib/activity';
+import { createNotification, NotificationTemplates } from '@/lib/domains/system/notifications';
+import { parseDecimal } from '@/lib/payroll/utils';
+import { LEAVE_ENCASHMENT_INCLUDE, transformLeaveEncashment } from '@/lib/domains/hr/leave/leave-encashment-service';
+import { canApproveLeaveEncashment } from '@/lib/domains/hr/leave/leave-encashment';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Approve a leave encashment: the days come off the balance and an approved
+ * LEAVE_ENCASHMENT earning entry is added for the next payroll run to pay
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const body = await request.json().catch(() => ({}));
+    const validation = approveLeaveRequestSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const existing = await prisma.leaveEncashment.findUnique({
+      where: { id },
+      include: LEAVE_ENCASHMENT_INCLUDE,
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Leave encashment not found' }, { status: 404 });
+    }
+
+    if (existing.status !== LeaveStatus.PENDING) {
+      return NextResponse.json({
+        error: 'Only pending encashment requests can be approved',
+        currentStatus: existing.status,
+      }, { status: 400 });
+    }
+
+    if (!canApproveLeaveEncashment(existing, session.user.id)) {
+      return NextResponse.json({
+        error: 'You cannot approve your own encashment request',
+      }, { status: 403 });
+    }
+
+    const notes = validation.data.notes || null;
+    const days = parseDecimal(existing.days);
+    const amount = parseDecimal(existing.amount);
+    const { leaveType, year } = existing.leaveBalance;
+    const now = new Date();
+
+    const encashment = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.leaveEncashment.updateMany({
+        where: { id, status: LeaveStatus.PENDING },
+        data: { status: LeaveStatus.APPROVED },
+      });
+      if (claimed.count === 0) {
+        throw new Error('ALREADY_DECIDED');
+      }
+
+      const balance = await tx.leaveBalance.findUniqueOrThrow({ where: { id: existing.leaveBalanceId } });
+      const note = `Encashed ${days} day(s) (${existing.requestNumber})`;
+      await tx.leaveBalance.update({
+        where: { id: balance.id },
+        data: {
+          pending: { decrement: days },
+          adjustment: { decrement: days },
+          adjustmentNotes: [balance.adjustmentNotes, note].filter(Boolean).join('\n'),
+        },
+      });
+
+      const earningEntry = await tx.earningEntry.create({
+        data: {
+          userId: existing.userId,
+          type: EarningType.LEAVE_ENCASHMENT,
+          date: now,
+          description: `${leaveType.name} ${year} encashment ${existing.requestNumber} (${days} days)`,
+          amount,
+          status: EarningEntryStatus.APPROVED,
+          submittedById: existing.userId,
+          reviewedById: session.user.id,
+          reviewedAt: now,
+          reviewerNotes: notes,
+        },
+      });
+
+      return tx.leaveEncashment.update({
+        where: { id },
+        data: {
+          reviewedById: session.user.id,
+          reviewedAt: now,
+          reviewerNotes: notes,
+          earningEntryId: earningEntry.id,
+        },
+        include: LEAVE_ENCASHMENT_INCLUDE,
+      });
+    });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.LEAVE_ENCASHMENT_APPROVED,
+      'LeaveEncashment',
+      id,
+      {
+        requestNumber: existing.requestNumber,
+        userName: existing.user.name,
+        leaveType: leaveType.name,
+        year,
+        days,
+        amount,
+        earningEntryId: encashment.earningEntryId,
+        notes,
+      }
+    );
+
+    await createNotification(
+      NotificationTemplates.leaveEncashmentApproved(existing.userId, existing.requestNumber, days, id)
+    );
+
+    return NextResponse.json(transformLeaveEncashment(encashment));
+  } catch (error) {
+    if (error instanceof Error && error.message === 'ALREADY_DECIDED') {
+      return NextResponse.json({
+        error: 'This encashment request has already been decided',
+      }, { status: 409 });
+    }
+
+    console.error('Leave encashment approve error:', error);
+    return NextResponse.json(
+      { error: 'Failed to approve leave encashment' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { LeaveStatus, Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logAction, ActivityActions } from '@/lib/activity';
+import { parseDecimal } from '@/lib/payroll/utils';
+import { LEAVE_ENCASHMENT_INCLUDE, transformLeaveEncashment } from '@/lib/domains/hr/leave/leave-encashment-service';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Withdraw a pending encashment request (the requester or an admin)
+ */
+export async function POST(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const existing = await prisma.leaveEncashment.findUnique({ where: { id } });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Leave encashment not found' }, { status: 404 });
+    }
+
+    if (existing.userId !== session.user.id && session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    if (existing.status !== LeaveStatus.PENDING) {
+      return NextResponse.json({
+        error: 'Only pending encashment requests can be cancelled',
+        currentStatus: existing.status,
+      }, { status: 400 });
+    }
+
+    const encashment = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.leaveEncashment.updateMany({
+        where: { id, status: LeaveStatus.PENDING },
+        data: { status: LeaveStatus.CANCELLED, cancelledAt: new Date() },
+      });
+      if (claimed.count === 0) {
+        throw new Error('ALREADY_DECIDED');
+      }
+
+      await tx.leaveBalance.update({
+        where: { id: existing.leaveBalanceId },
+        data: { pending: { decrement: parseDecimal(existing.days) } },
+      });
+
+      return tx.leaveEncashment.findUniqueOrThrow({ where: { id }, include: LEAVE_ENCASHMENT_INCLUDE });
+    });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.LEAVE_ENCASHMENT_CANCELLED,
+      'LeaveEncashment',
+      id,
+      {
+        requestNumber: existing.requestNumber,
+        days: parseDecimal(existing.days),
+      }
+    );
+
+    return NextResponse.json(transformLeaveEncashment(encashment));
+  } catch (error) {
+    if (error instanceof Error && error.message === 'ALREADY_DECIDED') {
+      return NextResponse.json({
+        error: 'This encashment request has already been decided',
+      }, { status: 409 });
+    }
+
+    console.error('Leave encashment cancel error:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel leave encashment' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { LeaveStatus, Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { rejectLeaveRequestSchema } from '@/lib/validations/leave';
+import { logAction, ActivityActions } from '@/lib/activity';
+import { createNotification, NotificationTemplates } from '@/lib/domains/system/notifications';
+import { parseDecimal } from '@/lib/payroll/utils';
+import { LEAVE_ENCASHMENT_INCLUDE, transformLeaveEncashment } from '@/lib/domains/hr/leave/leave-encashment-service';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const body = await request.json();
+    const validation = rejectLeaveRequestSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const { reason } = validation.data;
+
+    const existing = await prisma.leaveEncashment.findUnique({
+      where: { id },
+      include: { user: { select: { name: true } } },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Leave encashment not found' }, { status: 404 });
+    }
+
+    if (existing.status !== LeaveStatus.PENDING) {
+      return NextResponse.json({
+        error: 'Only pending encashment requests can be rejected',
+        currentStatus: existing.status,
+      }, { status: 400 });
+    }
+
+    const encashment = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.leaveEncashment.updateMany({
+        where: { id, status: LeaveStatus.PENDING },
+        data: {
+          status: LeaveStatus.REJECTED,
+          reviewedById: session.user.id,
+          reviewedAt: new Date(),
+          reviewerNotes: reason,
+        },
+      });
+      if (claimed.count === 0) {
+        throw new Error('ALREADY_DECIDED');
+      }
+
+      // Release the held days
+      await tx.leaveBalance.update({
+        where: { id: existing.leaveBalanceId },
+        data: { pending: { decrement: parseDecimal(existing.days) } },
+      });
+
+      return tx.leaveEncashment.findUniqueOrThrow({ where: { id }, include: LEAVE_ENCASHMENT_INCLUDE });
+    });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.LEAVE_ENCASHMENT_REJECTED,
+      'LeaveEncashment',
+      id,
+      {
+        requestNumber: existing.requestNumber,
+        userName: existing.user.name,
+        days: parseDecimal(existing.days),
+        reason,
+      }
+    );
+
+    await createNotification(
+      NotificationTemplates.leaveEncashmentRejected(existing.userId, existing.requestNumber, reason, id)
+    );
+
+    return NextResponse.json(transformLeaveEncashment(encashment));
+  } catch (error) {
+    if (error instanceof Error && error.message === 'ALREADY_DECIDED') {
+      return NextResponse.json({
+        error: 'This encashment request has already been decided',
+      }, { status: 409 });
+    }
+
+    console.error('Leave encashment reject error:', error);
+    return NextResponse.json(
+      { error: 'Failed to reject leave encashment' },
+      { status: 500 }
+    );
+  }
+}
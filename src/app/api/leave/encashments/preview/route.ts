@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { leaveEncashmentPreviewSchema } from '@/lib/validations/leave';
+import { LeaveEncashmentError, quoteLeaveEncashment } from '@/lib/domains/hr/leave/leave-encashment-service';
+
+/**
+ * Encashable days, daily rate and value of encashing days of a leave balance
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validation = leaveEncashmentPreviewSchema.safeParse(Object.fromEntries(searchParams.entries()));
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid query parameters',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const { userId, ...preview } = await quoteLeaveEncashment(
+      validation.data.leaveBalanceId,
+      validation.data.days
+    );
+
+    if (userId !== session.user.id && session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    return NextResponse.json(preview);
+  } catch (error) {
+    if (error instanceof LeaveEncashmentError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Leave encashment preview error:', error);
+    return NextResponse.json(
+      { error: 'Failed to preview leave encashment' },
+      { status: 500 }
+    );
+  }
+}
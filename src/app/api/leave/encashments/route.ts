@@ -0,0 +1,180 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Prisma, Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { createLeaveEncashmentSchema, leaveEncashmentQuerySchema } from '@/lib/validations/leave';
+import { logAction, ActivityActions } from '@/lib/activity';
+import { createBulkNotifications, NotificationTemplates } from '@/lib/domains/system/notifications';
+import { parseDecimal } from '@/lib/payroll/utils';
+import { generateDocumentNumber } from '@/lib/domains/system/document-numbering/document-number-service';
+import {
+  LEAVE_ENCASHMENT_INCLUDE,
+  LeaveEncashmentError,
+  lockLeaveBalance,
+  quoteLeaveEncashment,
+  transformLeaveEncashment,
+} from '@/lib/domains/hr/leave/leave-encashment-service';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const queryParams = Object.fromEntries(searchParams.entries());
+
+    const validation = leaveEncashmentQuerySchema.safeParse(queryParams);
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid query parameters',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const { status, userId, p: page, ps: pageSize } = validation.data;
+
+    const where: Prisma.LeaveEncashmentWhereInput = {};
+
+    // Employees only see their own requests
+    if (session.user.role !== Role.ADMIN) {
+      where.userId = session.user.id;
+    } else if (userId) {
+      where.userId = userId;
+    }
+
+    if (status) {
+      where.status = status;
+    }
+
+    const [encashments, total] = await Promise.all([
+      prisma.leaveEncashment.findMany({
+        where,
+        include: LEAVE_ENCASHMENT_INCLUDE,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      prisma.leaveEncashment.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      encashments: encashments.map(transformLeaveEncashment),
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+        hasMore: page * pageSize < total,
+      },
+    });
+  } catch (error) {
+    console.error('Leave encashments GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch leave encashments' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Request encashment of unused days from one of your own leave balances.
+ * The days are held as pending until the request is decided.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = createLeaveEncashmentSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const data = validation.data;
+
+    // Lock the balance, then quote and hold the days, so two requests cannot encash the same days
+    const encashment = await prisma.$transaction(async (tx) => {
+      await lockLeaveBalance(tx, data.leaveBalanceId);
+      const quote = await quoteLeaveEncashment(data.leaveBalanceId, data.days, tx);
+      if (quote.userId !== session.user.id) {
+        throw new LeaveEncashmentError('You can only encash your own leave');
+      }
+
+      const requestNumber = await generateDocumentNumber('LEAVE_ENCASHMENT', { tx });
+      const created = await tx.leaveEncashment.create({
+        data: {
+          requestNumber,
+          userId: session.user.id,
+          leaveBalanceId: data.leaveBalanceId,
+          days: data.days,
+          dailyRate: quote.dailyRate,
+          amount: quote.amount,
+          reason: data.reason,
+        },
+        include: LEAVE_ENCASHMENT_INCLUDE,
+      });
+
+      await tx.leaveBalance.update({
+        where: { id: data.leaveBalanceId },
+        data: { pending: { increment: data.days } },
+      });
+
+      return created;
+    });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.LEAVE_ENCASHMENT_REQUESTED,
+      'LeaveEncashment',
+      encashment.id,
+      {
+        requestNumber: encashment.requestNumber,
+        leaveType: encashment.leaveBalance.leaveType.name,
+        year: encashment.leaveBalance.year,
+        days: data.days,
+        amount: parseDecimal(encashment.amount),
+      }
+    );
+
+    try {
+      const admins = await prisma.user.findMany({
+        where: { role: Role.ADMIN },
+        select: { id: true },
+      });
+      await createBulkNotifications(admins.map(admin =>
+        NotificationTemplates.leaveEncashmentSubmitted(
+          admin.id,
+          session.user.name || session.user.email || 'Employee',
+          encashment.requestNumber,
+          encashment.leaveBalance.leaveType.name,
+          data.days,
+          encashment.id
+        )
+      ));
+    } catch (notifyError) {
+      console.error('Failed to send leave encashment notifications:', notifyError);
+    }
+
+    return NextResponse.json(transformLeaveEncashment(encashment), { status: 201 });
+  } catch (error) {
+    if (error instanceof LeaveEncashmentError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Leave encashments POST error:', error);
+    return NextResponse.json(
+      { error: 'Failed to request leave encashment' },
+      { status: 500 }
+    );
+  }
+}
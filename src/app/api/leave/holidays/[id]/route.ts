@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { updatePublicHolidaySchema } from '@/lib/validations/leave';
+import { logAction, ActivityActions } from '@/lib/activity';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const holiday = await prisma.publicHoliday.findUnique({
+      where: { id },
+      include: {
+        createdBy: {
+          select: { id: true, name: true },
+        },
+      },
+    });
+
+    if (!holiday) {
+      return NextResponse.json({ error: 'Public holiday not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(holiday);
+  } catch (error) {
+    console.error('Public holiday GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch public holiday' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const body = await request.json();
+    const validation = updatePublicHolidaySchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const data = validation.data;
+
+    const existing = await prisma.publicHoliday.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Public holiday not found' }, { status: 404 });
+    }
+
+    const startDate = data.startDate ? new Date(data.startDate) : existing.startDate;
+    const endDate = data.endDate ? new Date(data.endDate) : (data.startDate ? startDate : existing.endDate);
+
+    if (startDate > endDate) {
+      return NextResponse.json({
+        error: 'End date must be on or after start date',
+      }, { status: 400 });
+    }
+
+    const holiday = await prisma.publicHoliday.update({
+      where: { id },
+      data: {
+        name: data.name,
+        description: data.description,
+        startDate,
+        endDate,
+        isRecurring: data.isRecurring,
+        color: data.color,
+        isActive: data.isActive,
+      },
+    });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.PUBLIC_HOLIDAY_UPDATED,
+      'PublicHoliday',
+      holiday.id,
+      { name: holiday.name, changes: data }
+    );
+
+    return NextResponse.json(holiday);
+  } catch (error) {
+    console.error('Public holiday PUT error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update public holiday' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const existing = await prisma.publicHoliday.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Public holiday not found' }, { status: 404 });
+    }
+
+    await prisma.publicHoliday.delete({
+      where: { id },
+    });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.PUBLIC_HOLIDAY_DELETED,
+      'PublicHoliday',
+      id,
+      { name: existing.name }
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Public holiday DELETE error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete public holiday' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { importPublicHolidaysSchema } from '@/lib/validations/leave';
+import { logAction, ActivityActions } from '@/lib/activity';
+import { parseICSHolidays } from '@/lib/domains/hr/leave/holiday-calendar';
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = importPublicHolidaysSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const { content, dryRun } = validation.data;
+    const parsed = parseICSHolidays(content);
+
+    if (parsed.length === 0) {
+      return NextResponse.json({
+        error: 'No holiday events found in the ICS file',
+      }, { status: 400 });
+    }
+
+    // Skip events already imported (by UID) or matching an existing holiday by name and start date
+    const existingByUid = await prisma.publicHoliday.findMany({
+      where: { externalUid: { in: parsed.map(h => h.uid).filter((uid): uid is string => !!uid) } },
+      select: { externalUid: true },
+    });
+    const importedUids = new Set(existingByUid.map(h => h.externalUid));
+
+    const existingByDate = await prisma.publicHoliday.findMany({
+      where: { startDate: { in: parsed.map(h => h.startDate) } },
+      select: { name: true, startDate: true },
+    });
+    const existingKeys = new Set(
+      existingByDate.map(h => `${h.name.toLowerCase()}|${h.startDate.getTime()}`)
+    );
+
+    const toCreate = parsed.filter(h =>
+      !(h.uid && importedUids.has(h.uid)) &&
+      !existingKeys.has(`${h.name.toLowerCase()}|${h.startDate.getTime()}`)
+    );
+
+    if (dryRun) {
+      return NextResponse.json({
+        dryRun: true,
+        total: parsed.length,
+        toImport: toCreate.length,
+        skipped: parsed.length - toCreate.length,
+        holidays: toCreate,
+      });
+    }
+
+    const result = await prisma.publicHoliday.createMany({
+      data: toCreate.map(h => ({
+        name: h.name,
+        description: h.description,
+        startDate: h.startDate,
+        endDate: h.endDate,
+        isRecurring: h.isRecurring,
+        source: 'ICS_IMPORT',
+        externalUid: h.uid,
+        createdById: session.user.id,
+      })),
+      skipDuplicates: true,
+    });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.PUBLIC_HOLIDAYS_IMPORTED,
+      'PublicHoliday',
+      undefined,
+      { total: parsed.length, imported: result.count }
+    );
+
+    return NextResponse.json({
+      dryRun: false,
+      total: parsed.length,
+      imported: result.count,
+      skipped: parsed.length - result.count,
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Public holidays import error:', error);
+    return NextResponse.json(
+      { error: 'Failed to import public holidays' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { recalculateLeaveDaysSchema } from '@/lib/validations/leave';
+import { logAction, ActivityActions } from '@/lib/activity';
+import {
+  findLeaveRequestsToRecalculate,
+  applyLeaveRecalculation,
+} from '@/lib/domains/hr/leave/holiday-service';
+
+/**
+ * Recompute charged days for pending/approved leave requests against the
+ * current holiday calendar. Defaults to a dry run (preview only).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const validation = recalculateLeaveDaysSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const { startDate, endDate, dryRun } = validation.data;
+
+    // Default to requests from the start of the current year onwards
+    const rangeStart = startDate ? new Date(startDate) : new Date(new Date().getFullYear(), 0, 1);
+    const rangeEnd = endDate ? new Date(endDate) : undefined;
+
+    const items = await findLeaveRequestsToRecalculate(rangeStart, rangeEnd);
+
+    if (dryRun || items.length === 0) {
+      return NextResponse.json({ dryRun: true, items, count: items.length });
+    }
+
+    const updated = await applyLeaveRecalculation(items, session.user.id);
+
+    await logAction(
+      session.user.id,
+      ActivityActions.LEAVE_DAYS_RECALCULATED,
+      'LeaveRequest',
+      undefined,
+      {
+        updated,
+        requestNumbers: items.map(i => i.requestNumber),
+      }
+    );
+
+    return NextResponse.json({ dryRun: false, items, count: items.length, updated });
+  } catch (error) {
+    console.error('Leave recalculation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to recalculate leave days' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { createPublicHolidaySchema, publicHolidayQuerySchema } from '@/lib/validations/leave';
+import { logAction, ActivityActions } from '@/lib/activity';
+import { getHolidayOccurrences } from '@/lib/domains/hr/leave/holiday-calendar';
+import { findLeaveRequestsToRecalculate } from '@/lib/domains/hr/leave/holiday-service';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const queryParams = Object.fromEntries(searchParams.entries());
+
+    const validation = publicHolidayQuerySchema.safeParse(queryParams);
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid query parameters',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const { year, startDate, endDate, includeInactive } = validation.data;
+    const isAdmin = session.user.role === Role.ADMIN;
+
+    // Default range is the requested (or current) calendar year
+    const effectiveYear = year ?? new Date().getFullYear();
+    const rangeStart = startDate ? new Date(startDate) : new Date(effectiveYear, 0, 1);
+    const rangeEnd = endDate ? new Date(endDate) : new Date(effectiveYear, 11, 31);
+
+    const where: Record<string, unknown> = {
+      OR: [
+        { isRecurring: true },
+        {
+          AND: [
+            { startDate: { lte: rangeEnd } },
+            { endDate: { gte: rangeStart } },
+          ],
+        },
+      ],
+    };
+
+    // Only admins can see inactive holidays
+    if (!(isAdmin && includeInactive === 'true')) {
+      where.isActive = true;
+    }
+
+    const holidays = await prisma.publicHoliday.findMany({
+      where,
+      orderBy: { startDate: 'asc' },
+    });
+
+    const occurrences = getHolidayOccurrences(
+      holidays.filter(h => h.isActive),
+      rangeStart,
+      rangeEnd
+    );
+
+    return NextResponse.json({ holidays, occurrences });
+  } catch (error) {
+    console.error('Public holidays GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch public holidays' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = createPublicHolidaySchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const data = validation.data;
+    const startDate = new Date(data.startDate);
+    const endDate = data.endDate ? new Date(data.endDate) : startDate;
+
+    const holiday = await prisma.publicHoliday.create({
+      data: {
+        name: data.name,
+        description: data.description,
+        startDate,
+        endDate,
+        isRecurring: data.isRecurring,
+        color: data.color,
+        isActive: data.isActive,
+        source: 'MANUAL',
+        createdById: session.user.id,
+      },
+    });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.PUBLIC_HOLIDAY_CREATED,
+      'PublicHoliday',
+      holiday.id,
+      { name: holiday.name, startDate: data.startDate, endDate: data.endDate, isRecurring: holiday.isRecurring }
+    );
+
+    // Let the admin know how many existing requests are now over-charged
+    const affectedRequests = holiday.isRecurring
+      ? await findLeaveRequestsToRecalculate(new Date(new Date().getFullYear(), 0, 1))
+      : await findLeaveRequestsToRecalculate(startDate, endDate);
+
+    return NextResponse.json({ ...holiday, affectedRequests: affectedRequests.length }, { status: 201 });
+  } catch (error) {
+    console.error('Public holidays POST error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create public holiday' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
-import { Role } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
 import { approveLeaveRequestSchema } from '@/lib/validations/leave';
 import { logAction, ActivityActions } from '@/lib/activity';
 import { createNotification, NotificationTemplates } from '@/lib/domains/system/notifications';
+import { getApprovalPermission, notifyStepApprovers } from '@/lib/domains/hr/leave/approval-service';
+import { getNextStep } from '@/lib/domains/hr/leave/approval-chain';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -14,7 +15,7 @@ interface RouteParams {
 export async function POST(request: NextRequest, { params }: RouteParams) {
   try {
     const session = await getServerSession(authOptions);
-    if (!session || session.user.role !== Role.ADMIN) {
+    if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
@@ -42,6 +43,9 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         leaveType: {
           select: { name: true, isOnceInEmployment: true },
         },
+        approvals: {
+          orderBy: { stepOrder: 'asc' },
+        },
       },
     });
 
@@ -55,12 +59,108 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       }, { status: 400 });
     }
 
+    // Nobody approves their own leave, whether as an admin or as a delegate
+    if (existing.userId === session.user.id) {
+      return NextResponse.json({
+        error: 'You cannot approve your own leave request',
+      }, { status: 403 });
+    }
+
+    // Requests without a chain can be approved by any admin; otherwise only the
+    // current step's approver (or their delegate)
+    const permission = await getApprovalPermission(existing.approvals, {
+      id: session.user.id,
+      role: session.user.role,
+    }, existing.userId);
+
+    if (!permission.allowed) {
+      if (!permission.step && existing.approvals.length === 0) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      }
+      return NextResponse.json({
+        error: permission.step
+          ? `You are not the approver for the current step (${permission.step.name})`
+          : 'This request has no pending approval step',
+      }, { status: 403 });
+    }
+
+    const currentStep = permission.step;
+    const nextStep = currentStep ? getNextStep(existing.approvals, currentStep.stepOrder) : null;
+
     const now = new Date();
     const year = existing.startDate.getFullYear();
 
+    const includeDetails = {
+      user: {
+        select: {
+          id: true,
+          name: true,
+          email: true,
+        },
+      },
+      leaveType: {
+        select: {
+          id: true,
+          name: true,
+          color: true,
+        },
+      },
+      approver: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+      approvals: {
+        orderBy: { stepOrder: 'asc' as const },
+      },
+    };
+
     // Approve in transaction
     const leaveRequest = await prisma.$transaction(async (tx) => {
-      // Update the request
+      if (currentStep) {
+        // Guard against two approvers acting on the same step concurrently
+        const stepUpdate = await tx.leaveRequestApproval.updateMany({
+          where: { leaveRequestId: id, stepOrder: currentStep.stepOrder, status: 'PENDING' },
+          data: {
+            status: 'APPROVED',
+            actedById: session.user.id,
+            delegatedFromId: permission.onBehalfOfId,
+            actedAt: now,
+            notes,
+          },
+        });
+        if (stepUpdate.count === 0) {
+          throw new Error('STEP_ALREADY_DECIDED');
+        }
+      }
+
+      // Intermediate step: move the request along the chain, balance stays pending
+      if (currentStep && nextStep) {
+        const request = await tx.leaveRequest.update({
+          where: { id },
+          data: { currentApprovalStep: nextStep.stepOrder },
+          include: includeDetails,
+        });
+
+        await tx.leaveRequestHistory.create({
+          data: {
+            leaveRequestId: id,
+            action: 'STEP_APPROVED',
+            oldStatus: 'PENDING',
+            newStatus: 'PENDING',
+            approvalStep: currentStep.stepOrder,
+            stepStatus: 'APPROVED',
+            changes: permission.onBehalfOfId ? { delegatedFromId: permission.onBehalfOfId } : undefined,
+            notes,
+            performedById: session.user.id,
+          },
+        });
+
+        return request;
+      }
+
+      // Final step: update the request
       const request = await tx.leaveRequest.update({
         where: { id },
         data: {
@@ -68,29 +168,9 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
           approverId: session.user.id,
           approvedAt: now,
           approverNotes: notes,
+          currentApprovalStep: null,
         },
-        include: {
-          user: {
-            select: {
-              id: true,
-              name: true,
-              email: true,
-            },
-          },
-          leaveType: {
-            select: {
-              id: true,
-              name: true,
-              color: true,
-            },
-          },
-          approver: {
-            select: {
-              id: true,
-              name: true,
-            },
-          },
-        },
+        include: includeDetails,
       });
 
       // Update balance: pending -= totalDays, used += totalDays
@@ -119,6 +199,9 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
           action: 'APPROVED',
           oldStatus: 'PENDING',
           newStatus: 'APPROVED',
+          approvalStep: currentStep?.stepOrder,
+          stepStatus: currentStep ? 'APPROVED' : undefined,
+          changes: permission.onBehalfOfId ? { delegatedFromId: permission.onBehalfOfId } : undefined,
           notes,
           performedById: session.user.id,
         },
@@ -135,6 +218,43 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       return request;
     });
 
+    if (currentStep && nextStep) {
+      await logAction(
+        session.user.id,
+        ActivityActions.LEAVE_REQUEST_STEP_APPROVED,
+        'LeaveRequest',
+        leaveRequest.id,
+        {
+          requestNumber: leaveRequest.requestNumber,
+          userName: existing.user?.name,
+          leaveType: existing.leaveType?.name,
+          step: currentStep.name,
+          stepOrder: currentStep.stepOrder,
+          onBehalfOfId: permission.onBehalfOfId,
+        }
+      );
+
+      // Hand over to the next approver and keep the requester informed
+      await notifyStepApprovers(nextStep, {
+        id: leaveRequest.id,
+        requestNumber: leaveRequest.requestNumber,
+        requesterName: existing.user?.name || 'Employee',
+        leaveTypeName: existing.leaveType?.name || 'Leave',
+      });
+      await createNotification(
+        NotificationTemplates.leaveStepApproved(
+          existing.userId,
+          leaveRequest.requestNumber,
+          existing.leaveType?.name || 'Leave',
+          currentStep.name,
+          nextStep.name,
+          leaveRequest.id
+        )
+      );
+
+      return NextResponse.json(leaveRequest);
+    }
+
     await logAction(
       session.user.id,
       ActivityActions.LEAVE_REQUEST_APPROVED,
@@ -145,6 +265,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         userName: existing.user?.name,
         leaveType: existing.leaveType?.name,
         totalDays: Number(existing.totalDays),
+        onBehalfOfId: permission.onBehalfOfId,
       }
     );
 
@@ -160,6 +281,12 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
     return NextResponse.json(leaveRequest);
   } catch (error) {
+    if (error instanceof Error && error.message === 'STEP_ALREADY_DECIDED') {
+      return NextResponse.json({
+        error: 'This approval step has already been decided',
+      }, { status: 409 });
+    }
+
     console.error('Leave request approve error:', error);
     return NextResponse.json(
       { error: 'Failed to approve leave request' },
@@ -78,6 +78,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
           status: 'CANCELLED',
           cancelledAt: now,
           cancellationReason: reason,
+          currentApprovalStep: null,
         },
         include: {
           user: {
@@ -97,6 +98,14 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         },
       });
 
+      // Close any approval steps still waiting on a decision
+      if (!wasApproved) {
+        await tx.leaveRequestApproval.updateMany({
+          where: { leaveRequestId: id, status: 'PENDING' },
+          data: { status: 'SKIPPED' },
+        });
+      }
+
       // Update balance based on previous status
       if (wasApproved) {
         // If was approved, decrement used
@@ -1,11 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
-import { Role } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
 import { rejectLeaveRequestSchema } from '@/lib/validations/leave';
 import { logAction, ActivityActions } from '@/lib/activity';
 import { createNotification, NotificationTemplates } from '@/lib/domains/system/notifications';
+import { getApprovalPermission } from '@/lib/domains/hr/leave/approval-service';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -14,7 +14,7 @@ interface RouteParams {
 export async function POST(request: NextRequest, { params }: RouteParams) {
   try {
     const session = await getServerSession(authOptions);
-    if (!session || session.user.role !== Role.ADMIN) {
+    if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
@@ -42,6 +42,9 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         leaveType: {
           select: { name: true },
         },
+        approvals: {
+          orderBy: { stepOrder: 'asc' },
+        },
       },
     });
 
@@ -55,11 +58,51 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       }, { status: 400 });
     }
 
+    // Any approver in the chain can reject at their step
+    const permission = await getApprovalPermission(existing.approvals, {
+      id: session.user.id,
+      role: session.user.role,
+    });
+
+    if (!permission.allowed) {
+      if (!permission.step && existing.approvals.length === 0) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      }
+      return NextResponse.json({
+        error: permission.step
+          ? `You are not the approver for the current step (${permission.step.name})`
+          : 'This request has no pending approval step',
+      }, { status: 403 });
+    }
+
+    const currentStep = permission.step;
     const now = new Date();
     const year = existing.startDate.getFullYear();
 
     // Reject in transaction
     const leaveRequest = await prisma.$transaction(async (tx) => {
+      if (currentStep) {
+        const stepUpdate = await tx.leaveRequestApproval.updateMany({
+          where: { leaveRequestId: id, stepOrder: currentStep.stepOrder, status: 'PENDING' },
+          data: {
+            status: 'REJECTED',
+            actedById: session.user.id,
+            delegatedFromId: permission.onBehalfOfId,
+            actedAt: now,
+            notes: reason,
+          },
+        });
+        if (stepUpdate.count === 0) {
+          throw new Error('STEP_ALREADY_DECIDED');
+        }
+
+        // Later steps will never be reached
+        await tx.leaveRequestApproval.updateMany({
+          where: { leaveRequestId: id, status: 'PENDING' },
+          data: { status: 'SKIPPED' },
+        });
+      }
+
       // Update the request
       const request = await tx.leaveRequest.update({
         where: { id },
@@ -68,6 +111,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
           approverId: session.user.id,
           rejectedAt: now,
           rejectionReason: reason,
+          currentApprovalStep: null,
         },
         include: {
           user: {
@@ -90,6 +134,9 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
               name: true,
             },
           },
+          approvals: {
+            orderBy: { stepOrder: 'asc' },
+          },
         },
       });
 
@@ -116,6 +163,9 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
           action: 'REJECTED',
           oldStatus: 'PENDING',
           newStatus: 'REJECTED',
+          approvalStep: currentStep?.stepOrder,
+          stepStatus: currentStep ? 'REJECTED' : undefined,
+          changes: permission.onBehalfOfId ? { delegatedFromId: permission.onBehalfOfId } : undefined,
           notes: reason,
           performedById: session.user.id,
         },
@@ -134,6 +184,8 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         userName: existing.user?.name,
         leaveType: existing.leaveType?.name,
         reason,
+        step: currentStep?.name,
+        onBehalfOfId: permission.onBehalfOfId,
       }
     );
 
@@ -150,6 +202,12 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
     return NextResponse.json(leaveRequest);
   } catch (error) {
+    if (error instanceof Error && error.message === 'STEP_ALREADY_DECIDED') {
+      return NextResponse.json({
+        error: 'This approval step has already been decided',
+      }, { status: 409 });
+    }
+
     console.error('Leave request reject error:', error);
     return NextResponse.json(
       { error: 'Failed to reject leave request' },
@@ -9,6 +9,9 @@ import {
   calculateWorkingDays,
   canEditLeaveRequest,
 } from '@/lib/leave-utils';
+import { getWorkingCalendar } from '@/lib/domains/hr/leave/holiday-service';
+import { getApprovalPermission, resetRequestApprovalChain } from '@/lib/domains/hr/leave/approval-service';
+import { checkLeaveConflicts } from '@/lib/domains/hr/leave/leave-conflict-service';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -60,6 +63,14 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
           },
           orderBy: { createdAt: 'desc' },
         },
+        approvals: {
+          include: {
+            approver: { select: { id: true, name: true } },
+            actedBy: { select: { id: true, name: true } },
+            delegatedFrom: { select: { id: true, name: true } },
+          },
+          orderBy: { stepOrder: 'asc' },
+        },
       },
     });
 
@@ -67,12 +78,25 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: 'Leave request not found' }, { status: 404 });
     }
 
-    // Non-admin users can only see their own requests
-    if (session.user.role !== Role.ADMIN && leaveRequest.userId !== session.user.id) {
+    // Whether the current user can act on the pending step (direct or delegated)
+    const permission = leaveRequest.status === 'PENDING'
+      ? await getApprovalPermission(leaveRequest.approvals, { id: session.user.id, role: session.user.role }, leaveRequest.userId)
+      : { allowed: false, onBehalfOfId: null };
+
+    // Non-admin users can only see their own requests, or requests awaiting their approval
+    if (
+      session.user.role !== Role.ADMIN &&
+      leaveRequest.userId !== session.user.id &&
+      !permission.allowed
+    ) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    return NextResponse.json(leaveRequest);
+    return NextResponse.json({
+      ...leaveRequest,
+      canApprove: permission.allowed,
+      approvingOnBehalfOfId: permission.onBehalfOfId,
+    });
   } catch (error) {
     console.error('Leave request GET error:', error);
     return NextResponse.json(
@@ -171,9 +195,30 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       }, { status: 400 });
     }
 
+    // Check blackout periods and team coverage rules for the new dates (admins can override blocks)
+    if (startDate.getTime() !== existing.startDate.getTime() || endDate.getTime() !== existing.endDate.getTime()) {
+      const isAdmin = session.user.role === Role.ADMIN;
+      const { conflicts, blocked } = await checkLeaveConflicts({
+        userId: existing.userId,
+        startDate,
+        endDate,
+        excludeRequestId: id,
+      });
+      if (blocked && !(isAdmin && data.adminOverrideConflicts === true)) {
+        return NextResponse.json({
+          error: conflicts
+            .filter(conflict => conflict.enforcement === 'BLOCK')
+            .map(conflict => conflict.message)
+            .join('. '),
+          conflicts,
+        }, { status: 400 });
+      }
+    }
+
     // Calculate new working days (include weekends for accrual-based leave like Annual Leave)
     const includeWeekends = existing.leaveType.accrualBased === true;
-    const newTotalDays = calculateWorkingDays(startDate, endDate, requestType, includeWeekends);
+    const calendar = await getWorkingCalendar(startDate, endDate);
+    const newTotalDays = calculateWorkingDays(startDate, endDate, requestType, includeWeekends, calendar);
     const oldTotalDays = Number(existing.totalDays);
     const daysDiff = newTotalDays - oldTotalDays;
 
@@ -183,6 +228,11 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       }, { status: 400 });
     }
 
+    const datesChanged =
+      startDate.getTime() !== existing.startDate.getTime() ||
+      endDate.getTime() !== existing.endDate.getTime() ||
+      requestType !== existing.requestType;
+
     // Update in transaction
     const leaveRequest = await prisma.$transaction(async (tx) => {
       // Update the request
@@ -235,6 +285,11 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
         });
       }
 
+      // Approvals given for the old dates no longer apply; restart the chain
+      if (datesChanged) {
+        await resetRequestApprovalChain(tx, id, existing.leaveTypeId, newTotalDays, existing.userId);
+      }
+
       // Create history entry
       await tx.leaveRequestHistory.create({
         data: {
@@ -17,6 +17,10 @@ import {
   ServiceBasedEntitlement,
   getAnnualLeaveDetails,
 } from '@/lib/leave-utils';
+import { getWorkingCalendar } from '@/lib/domains/hr/leave/holiday-service';
+import { createRequestApprovalChain, notifyStepApprovers } from '@/lib/domains/hr/leave/approval-service';
+import { checkLeaveConflicts } from '@/lib/domains/hr/leave/leave-conflict-service';
+import { generateDocumentNumber } from '@/lib/domains/system/document-numbering/document-number-service';
 
 export async function GET(request: NextRequest) {
   try {
@@ -271,13 +275,15 @@ export async function POST(request: NextRequest) {
     }
 
     // Calculate days - Accrual-based leave (Annual Leave) includes weekends, others exclude weekends
+    // Public holidays are never charged against the balance
     const includeWeekends = leaveType.accrualBased === true;
     const isAdmin = session.user.role === Role.ADMIN;
-    const totalDays = calculateWorkingDays(startDate, endDate, data.requestType, includeWeekends);
+    const calendar = await getWorkingCalendar(startDate, endDate);
+    const totalDays = calculateWorkingDays(startDate, endDate, data.requestType, includeWeekends, calendar);
 
     if (totalDays === 0) {
       return NextResponse.json({
-        error: 'No working days in the selected date range',
+        error: 'No working days in the selected date range (weekends and public holidays are excluded)',
       }, { status: 400 });
     }
 
@@ -325,6 +331,18 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    // Check blackout periods and team coverage rules (admins can override blocks)
+    const { conflicts, blocked } = await checkLeaveConflicts({ userId, startDate, endDate });
+    if (blocked && !(isAdmin && data.adminOverrideConflicts === true)) {
+      return NextResponse.json({
+        error: conflicts
+          .filter(conflict => conflict.enforcement === 'BLOCK')
+          .map(conflict => conflict.message)
+          .join('. '),
+        conflicts,
+      }, { status: 400 });
+    }
+
     const year = startDate.getFullYear();
 
     // Create leave request in a transaction (includes balance check to prevent race conditions)
@@ -384,10 +402,7 @@ export async function POST(request: NextRequest) {
         }
       }
 
-      // Generate unique request number using timestamp + random to prevent duplicates
-      const timestamp = Date.now().toString(36).toUpperCase();
-      const random = Math.random().toString(36).substring(2, 5).toUpperCase();
-      const requestNumber = `LR-${timestamp}-${random}`;
+      const requestNumber = await generateDocumentNumber('LEAVE_REQUEST', { tx });
 
       // Create the request
       const request = await tx.leaveRequest.create({
@@ -449,7 +464,16 @@ export async function POST(request: NextRequest) {
         },
       });
 
-      return request;
+      // Snapshot the leave type's approval chain (if configured)
+      const approvalSteps = await createRequestApprovalChain(
+        tx,
+        request.id,
+        data.leaveTypeId,
+        totalDays,
+        userId
+      );
+
+      return { ...request, approvalSteps };
     });
 
     await logAction(
@@ -463,34 +487,45 @@ export async function POST(request: NextRequest) {
         totalDays,
         startDate: data.startDate,
         endDate: data.endDate,
+        ...(conflicts.length > 0 && { conflicts: conflicts.map(conflict => conflict.message) }),
       }
     );
 
-    // Notify admins about new leave request
+    // Notify the first approver in the chain, or all admins when no chain is configured
     try {
-      const admins = await prisma.user.findMany({
-        where: { role: Role.ADMIN },
-        select: { id: true },
-      });
+      const { approvalSteps } = leaveRequest;
+      if (approvalSteps.length > 0) {
+        await notifyStepApprovers(approvalSteps[0], {
+          id: leaveRequest.id,
+          requestNumber: leaveRequest.requestNumber,
+          requesterName: session.user.name || session.user.email || 'Employee',
+          leaveTypeName: leaveType.name,
+        });
+      } else {
+        const admins = await prisma.user.findMany({
+          where: { role: Role.ADMIN },
+          select: { id: true },
+        });
 
-      if (admins.length > 0) {
-        const notifications = admins.map(admin =>
-          NotificationTemplates.leaveSubmitted(
-            admin.id,
-            session.user.name || session.user.email || 'Employee',
-            leaveRequest.requestNumber,
-            leaveType.name,
-            totalDays,
-            leaveRequest.id
-          )
-        );
-        await createBulkNotifications(notifications);
+        if (admins.length > 0) {
+          const notifications = admins.map(admin =>
+            NotificationTemplates.leaveSubmitted(
+              admin.id,
+              session.user.name || session.user.email || 'Employee',
+              leaveRequest.requestNumber,
+              leaveType.name,
+              totalDays,
+              leaveRequest.id
+            )
+          );
+          await createBulkNotifications(notifications);
+        }
       }
     } catch (notifyError) {
       console.error('Failed to send leave request notifications:', notifyError);
     }
 
-    return NextResponse.json(leaveRequest, { status: 201 });
+    return NextResponse.json({ ...leaveRequest, conflicts }, { status: 201 });
   } catch (error) {
     // Handle insufficient balance error thrown from transaction
     if (error instanceof Error && error.message.startsWith('INSUFFICIENT_BALANCE:')) {
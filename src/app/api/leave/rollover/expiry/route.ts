@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { expireCarriedForwardLeave } from '@/lib/domains/hr/leave/leave-rollover-service';
+
+// GET /api/leave/rollover/expiry - Carried days due to lapse today (admin only)
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const report = await expireCarriedForwardLeave({ dryRun: true });
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Carry forward expiry preview error:', error);
+    return NextResponse.json(
+      { error: 'Failed to preview carry forward expiry' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/leave/rollover/expiry - Lapse unused carried days past their expiry (admin only)
+export async function POST() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const report = await expireCarriedForwardLeave({
+      dryRun: false,
+      performedById: session.user.id,
+    });
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Carry forward expiry error:', error);
+    return NextResponse.json(
+      { error: 'Failed to expire carried forward leave' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { leaveRolloverQuerySchema, leaveRolloverSchema } from '@/lib/validations/leave';
+import { runLeaveRollover } from '@/lib/domains/hr/leave/leave-rollover-service';
+
+// GET /api/leave/rollover?year=2025 - Dry-run preview of the year-end rollover (admin only)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validation = leaveRolloverQuerySchema.safeParse(Object.fromEntries(searchParams.entries()));
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid query parameters',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const report = await runLeaveRollover(validation.data.year, { dryRun: true });
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Leave rollover preview error:', error);
+    return NextResponse.json(
+      { error: 'Failed to preview leave rollover' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/leave/rollover - Roll balances into the next year (admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = leaveRolloverSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const { fromYear } = validation.data;
+    if (fromYear >= new Date().getFullYear() + 1) {
+      return NextResponse.json({
+        error: 'A year can only be rolled over once it has started',
+      }, { status: 400 });
+    }
+
+    const report = await runLeaveRollover(fromYear, {
+      dryRun: false,
+      performedById: session.user.id,
+    });
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Leave rollover error:', error);
+    return NextResponse.json(
+      { error: 'Failed to run leave rollover' },
+      { status: 500 }
+    );
+  }
+}
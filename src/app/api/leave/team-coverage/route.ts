@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { leaveCoverageQuerySchema } from '@/lib/validations/leave';
+import { getLeaveCoverageHeatmap } from '@/lib/domains/hr/leave/leave-conflict-service';
+import { getTeamMemberIds } from '@/lib/domains/hr/employees/team-service';
+
+// GET /api/leave/team-coverage - Day-by-day team coverage heatmap
+// Admins see every department; managers see their own (direct and indirect) team
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const queryParams = Object.fromEntries(searchParams.entries());
+
+    const validation = leaveCoverageQuerySchema.safeParse(queryParams);
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid query parameters',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const { startDate, endDate, departmentId } = validation.data;
+
+    let userIds: string[] | undefined;
+    if (session.user.role !== Role.ADMIN) {
+      const teamIds = await getTeamMemberIds(session.user.id, true);
+      if (teamIds.length === 0) {
+        return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+      }
+      userIds = [session.user.id, ...teamIds];
+    }
+
+    const heatmap = await getLeaveCoverageHeatmap({
+      startDate: new Date(startDate),
+      endDate: new Date(endDate),
+      userIds,
+      departmentId,
+    });
+
+    return NextResponse.json(heatmap);
+  } catch (error) {
+    console.error('Leave coverage GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch leave coverage' },
+      { status: 500 }
+    );
+  }
+}
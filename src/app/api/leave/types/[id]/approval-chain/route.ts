@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { updateLeaveApprovalChainSchema } from '@/lib/validations/leave';
+import { logAction, ActivityActions } from '@/lib/activity';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const leaveType = await prisma.leaveType.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        name: true,
+        approvalSteps: {
+          include: {
+            approver: {
+              select: { id: true, name: true, email: true },
+            },
+          },
+          orderBy: { stepOrder: 'asc' },
+        },
+      },
+    });
+
+    if (!leaveType) {
+      return NextResponse.json({ error: 'Leave type not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      leaveTypeId: leaveType.id,
+      leaveTypeName: leaveType.name,
+      steps: leaveType.approvalSteps.map(step => ({
+        ...step,
+        minDays: step.minDays !== null ? Number(step.minDays) : null,
+      })),
+    });
+  } catch (error) {
+    console.error('Leave approval chain GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch approval chain' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Replace the whole chain. Requests already submitted keep the chain they
+ * were created with.
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const body = await request.json();
+    const validation = updateLeaveApprovalChainSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const { steps } = validation.data;
+
+    const leaveType = await prisma.leaveType.findUnique({
+      where: { id },
+      select: { id: true, name: true },
+    });
+
+    if (!leaveType) {
+      return NextResponse.json({ error: 'Leave type not found' }, { status: 404 });
+    }
+
+    // Validate approvers exist
+    const approverIds = Array.from(new Set(steps.filter(s => s.approverType === 'USER').map(s => s.approverId!)));
+    if (approverIds.length > 0) {
+      const approvers = await prisma.user.count({
+        where: { id: { in: approverIds } },
+      });
+      if (approvers !== approverIds.length) {
+        return NextResponse.json({ error: 'One or more approvers were not found' }, { status: 400 });
+      }
+    }
+
+    const savedSteps = await prisma.$transaction(async (tx) => {
+      await tx.leaveApprovalStep.deleteMany({ where: { leaveTypeId: id } });
+
+      if (steps.length > 0) {
+        await tx.leaveApprovalStep.createMany({
+          data: steps.map((step, index) => ({
+            leaveTypeId: id,
+            stepOrder: index + 1,
+            name: step.name,
+            approverType: step.approverType,
+            approverId: step.approverType === 'USER' ? step.approverId : null,
+            minDays: step.minDays ?? null,
+          })),
+        });
+      }
+
+      return tx.leaveApprovalStep.findMany({
+        where: { leaveTypeId: id },
+        include: {
+          approver: {
+            select: { id: true, name: true, email: true },
+          },
+        },
+        orderBy: { stepOrder: 'asc' },
+      });
+    });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.LEAVE_APPROVAL_CHAIN_UPDATED,
+      'LeaveType',
+      id,
+      {
+        leaveType: leaveType.name,
+        steps: savedSteps.map(step => step.name),
+      }
+    );
+
+    return NextResponse.json({
+      leaveTypeId: id,
+      leaveTypeName: leaveType.name,
+      steps: savedSteps.map(step => ({
+        ...step,
+        minDays: step.minDays !== null ? Number(step.minDays) : null,
+      })),
+    });
+  } catch (error) {
+    console.error('Leave approval chain PUT error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update approval chain' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { EarningEntryStatus, Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logAction, ActivityActions } from '@/lib/activity';
+import { parseDecimal } from '@/lib/payroll/utils';
+import { rejectEarningEntrySchema } from '@/lib/validations/payroll';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const body = await request.json();
+    const validation = rejectEarningEntrySchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const entry = await prisma.earningEntry.findUnique({
+      where: { id },
+      include: {
+        user: { select: { name: true } },
+      },
+    });
+
+    if (!entry) {
+      return NextResponse.json({ error: 'Earning entry not found' }, { status: 404 });
+    }
+
+    if (entry.status !== EarningEntryStatus.PENDING) {
+      return NextResponse.json({
+        error: 'Only pending earning entries can be rejected',
+        currentStatus: entry.status,
+      }, { status: 400 });
+    }
+
+    if (entry.userId === session.user.id || entry.submittedById === session.user.id) {
+      return NextResponse.json({
+        error: 'You cannot review an earning entry you submitted or that pays you',
+      }, { status: 403 });
+    }
+
+    // Guard against two reviewers deciding the same entry concurrently
+    const { count } = await prisma.earningEntry.updateMany({
+      where: { id, status: EarningEntryStatus.PENDING },
+      data: {
+        status: EarningEntryStatus.REJECTED,
+        reviewedById: session.user.id,
+        reviewedAt: new Date(),
+        reviewerNotes: validation.data.notes,
+      },
+    });
+    if (count === 0) {
+      return NextResponse.json({
+        error: 'This earning entry has already been decided',
+      }, { status: 409 });
+    }
+    const updatedEntry = await prisma.earningEntry.findUniqueOrThrow({ where: { id } });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.EARNING_ENTRY_REJECTED,
+      'EarningEntry',
+      id,
+      {
+        userName: entry.user.name,
+        type: entry.type,
+        amount: parseDecimal(entry.amount),
+        notes: validation.data.notes,
+      }
+    );
+
+    return NextResponse.json({
+      ...updatedEntry,
+      amount: parseDecimal(updatedEntry.amount),
+    });
+  } catch (error) {
+    console.error('Earning entry reject error:', error);
+    return NextResponse.json(
+      { error: 'Failed to reject earning entry' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { EarningEntryStatus, Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logAction, ActivityActions } from '@/lib/activity';
+import { parseDecimal } from '@/lib/payroll/utils';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Withdraw a pending earning entry (submitter or admin)
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const entry = await prisma.earningEntry.findUnique({
+      where: { id },
+      include: {
+        user: { select: { name: true } },
+      },
+    });
+
+    if (!entry) {
+      return NextResponse.json({ error: 'Earning entry not found' }, { status: 404 });
+    }
+
+    if (session.user.role !== Role.ADMIN && entry.submittedById !== session.user.id) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    if (entry.status !== EarningEntryStatus.PENDING) {
+      return NextResponse.json({
+        error: 'Only pending earning entries can be deleted',
+        currentStatus: entry.status,
+      }, { status: 400 });
+    }
+
+    await prisma.earningEntry.delete({ where: { id } });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.EARNING_ENTRY_DELETED,
+      'EarningEntry',
+      id,
+      {
+        userName: entry.user.name,
+        type: entry.type,
+        amount: parseDecimal(entry.amount),
+      }
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Earning entry DELETE error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete earning entry' },
+      { status: 500 }
+    );
+  }
+}
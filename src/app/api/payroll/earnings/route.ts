@@ -0,0 +1,208 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { EarningType, Prisma, Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { createEarningEntrySchema, earningEntryQuerySchema } from '@/lib/validations/payroll';
+import { logAction, ActivityActions } from '@/lib/activity';
+import { parseDecimal } from '@/lib/payroll/utils';
+import { calculateHourlyRate, calculateOvertimeAmount } from '@/lib/payroll/overtime';
+import { getTeamMemberIds, isManagerOf } from '@/lib/domains/hr/employees/team-service';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const queryParams = Object.fromEntries(searchParams.entries());
+
+    const validation = earningEntryQuerySchema.safeParse(queryParams);
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid query parameters',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const { userId, status, type, p, ps } = validation.data;
+    const page = p;
+    const pageSize = ps;
+    const isAdmin = session.user.role === Role.ADMIN;
+
+    const where: Prisma.EarningEntryWhereInput = {};
+
+    // Non-admin users see their own entries and their team's
+    if (!isAdmin) {
+      const visibleUserIds = [session.user.id, ...await getTeamMemberIds(session.user.id, true)];
+      if (userId && !visibleUserIds.includes(userId)) {
+        return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+      }
+      where.userId = userId || { in: visibleUserIds };
+    } else if (userId) {
+      where.userId = userId;
+    }
+
+    if (status) {
+      where.status = status;
+    }
+
+    if (type) {
+      where.type = type;
+    }
+
+    const [entries, total] = await Promise.all([
+      prisma.earningEntry.findMany({
+        where,
+        include: {
+          user: { select: { id: true, name: true, email: true } },
+          submittedBy: { select: { id: true, name: true } },
+          reviewedBy: { select: { id: true, name: true } },
+          payslipEarning: {
+            select: { payslip: { select: { id: true, payslipNumber: true } } },
+          },
+        },
+        orderBy: [{ date: 'desc' }, { createdAt: 'desc' }],
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      prisma.earningEntry.count({ where }),
+    ]);
+
+    const transformed = entries.map(({ payslipEarning, ...entry }) => ({
+      ...entry,
+      hours: entry.hours === null ? null : parseDecimal(entry.hours),
+      rateMultiplier: entry.rateMultiplier === null ? null : parseDecimal(entry.rateMultiplier),
+      hourlyRate: entry.hourlyRate === null ? null : parseDecimal(entry.hourlyRate),
+      amount: parseDecimal(entry.amount),
+      payslip: payslipEarning?.payslip ?? null,
+    }));
+
+    return NextResponse.json({
+      entries: transformed,
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+        hasMore: page * pageSize < total,
+      },
+    });
+  } catch (error) {
+    console.error('Earning entries GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch earning entries' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Submit an earning entry for approval. Employees submit their own, managers
+ * submit for their team and admins for anyone. Overtime is priced from the
+ * employee's basic salary at the time of submission.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = createEarningEntrySchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const data = validation.data;
+    const userId = data.userId || session.user.id;
+
+    if (
+      userId !== session.user.id &&
+      session.user.role !== Role.ADMIN &&
+      !await isManagerOf(session.user.id, userId)
+    ) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        name: true,
+        salaryStructure: { select: { basicSalary: true, isActive: true } },
+      },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    let amount = data.amount ?? 0;
+    let hourlyRate: number | null = null;
+
+    if (data.type === EarningType.OVERTIME) {
+      if (!user.salaryStructure?.isActive) {
+        return NextResponse.json({
+          error: 'Employee has no active salary structure to calculate overtime from',
+        }, { status: 400 });
+      }
+
+      const basicSalary = parseDecimal(user.salaryStructure.basicSalary);
+      hourlyRate = calculateHourlyRate(basicSalary);
+      amount = calculateOvertimeAmount(basicSalary, data.hours!, data.rateMultiplier!);
+    }
+
+    const entry = await prisma.earningEntry.create({
+      data: {
+        userId,
+        type: data.type,
+        date: new Date(data.date),
+        description: data.description,
+        hours: data.type === EarningType.OVERTIME ? data.hours : null,
+        rateMultiplier: data.type === EarningType.OVERTIME ? data.rateMultiplier : null,
+        hourlyRate,
+        amount,
+        submittedById: session.user.id,
+      },
+      include: {
+        user: { select: { id: true, name: true, email: true } },
+      },
+    });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.EARNING_ENTRY_SUBMITTED,
+      'EarningEntry',
+      entry.id,
+      {
+        userId,
+        userName: user.name,
+        type: data.type,
+        hours: data.hours,
+        amount,
+      }
+    );
+
+    return NextResponse.json({
+      ...entry,
+      hours: entry.hours === null ? null : parseDecimal(entry.hours),
+      rateMultiplier: entry.rateMultiplier === null ? null : parseDecimal(entry.rateMultiplier),
+      hourlyRate: entry.hourlyRate === null ? null : parseDecimal(entry.hourlyRate),
+      amount: parseDecimal(entry.amount),
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Earning entry POST error:', error);
+    return NextResponse.json(
+      { error: 'Failed to submit earning entry' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { FinalSettlementStatus, Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logAction, ActivityActions } from '@/lib/activity';
+import { approvePayrollSchema } from '@/lib/validations/payroll';
+import { resolveFinalPayPeriod } from '@/lib/payroll/final-settlement-service';
+import {
+  computeRunPayslips,
+  refreshPayrollRunTotals,
+  saveComputedPayslips,
+} from '@/lib/payroll/run-calculation';
+import { formatPayPeriod } from '@/lib/payroll/utils';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Approve a settlement and schedule the final payslip. It is paid in the
+ * termination month's payroll, or the next one that has not been submitted.
+ * When that run has already been processed the final payslip is added now;
+ * otherwise it is created when the run is processed.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const body = await request.json().catch(() => ({}));
+    const validation = approvePayrollSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const settlement = await prisma.finalSettlement.findUnique({
+      where: { id },
+      include: {
+        user: { select: { name: true } },
+      },
+    });
+
+    if (!settlement) {
+      return NextResponse.json({ error: 'Final settlement not found' }, { status: 404 });
+    }
+
+    if (settlement.status !== FinalSettlementStatus.PENDING_APPROVAL) {
+      return NextResponse.json({
+        error: 'Only settlements pending approval can be approved',
+        currentStatus: settlement.status,
+      }, { status: 400 });
+    }
+
+    if (settlement.userId === session.user.id) {
+      return NextResponse.json({
+        error: 'You cannot approve your own final settlement',
+      }, { status: 403 });
+    }
+
+    const { year, month, payrollRun } = await resolveFinalPayPeriod(settlement.terminationDate);
+
+    // Approval and the final payslip go through together, or not at all
+    const runHasPayslips = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.finalSettlement.updateMany({
+        where: { id, status: FinalSettlementStatus.PENDING_APPROVAL },
+        data: {
+          status: FinalSettlementStatus.APPROVED,
+          approvedById: session.user.id,
+          approvedAt: new Date(),
+          approverNotes: validation.data.notes,
+          payrollYear: year,
+          payrollMonth: month,
+        },
+      });
+      if (count === 0) {
+        throw new Error('ALREADY_DECIDED');
+      }
+
+      const runHasPayslips = payrollRun
+        ? await tx.payslip.count({ where: { payrollRunId: payrollRun.id } }) > 0
+        : false;
+
+      if (payrollRun && runHasPayslips) {
+        const computed = await computeRunPayslips(payrollRun, { userIds: [settlement.userId], db: tx });
+
+        await saveComputedPayslips(tx, payrollRun, computed, session.user.id, [settlement.userId]);
+        await refreshPayrollRunTotals(tx, payrollRun.id);
+
+        await tx.payrollHistory.create({
+          data: {
+            payrollRunId: payrollRun.id,
+            action: 'FINAL_PAYSLIP_ADDED',
+            changes: {
+              settlementNumber: settlement.settlementNumber,
+              employeeName: settlement.user.name,
+            },
+            notes: `Final payslip for ${settlement.user.name} (${settlement.settlementNumber})`,
+            performedById: session.user.id,
+          },
+        });
+      }
+
+      return runHasPayslips;
+    }, { timeout: 60000 });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.FINAL_SETTLEMENT_APPROVED,
+      'FinalSettlement',
+      id,
+      {
+        settlementNumber: settlement.settlementNumber,
+        userName: settlement.user.name,
+        netAmount: Number(settlement.netAmount),
+        payPeriod: formatPayPeriod(year, month),
+      }
+    );
+
+    return NextResponse.json({
+      success: true,
+      status: FinalSettlementStatus.APPROVED,
+      payPeriod: formatPayPeriod(year, month),
+      payslipCreated: runHasPayslips,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'ALREADY_DECIDED') {
+      return NextResponse.json({
+        error: 'This settlement has already been decided',
+      }, { status: 409 });
+    }
+
+    console.error('Final settlement approve error:', error);
+    return NextResponse.json(
+      { error: 'Failed to approve final settlement' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { FinalSettlementStatus, Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logAction, ActivityActions } from '@/lib/activity';
+import { markPaidSchema } from '@/lib/validations/payroll';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Close a settlement once its final payslip has been paid. The employee's
+ * salary structure is ended at the termination date.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const body = await request.json().catch(() => ({}));
+    const validation = markPaidSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const settlement = await prisma.finalSettlement.findUnique({
+      where: { id },
+      include: {
+        user: { select: { name: true } },
+        payslip: { select: { payslipNumber: true, isPaid: true } },
+      },
+    });
+
+    if (!settlement) {
+      return NextResponse.json({ error: 'Final settlement not found' }, { status: 404 });
+    }
+
+    if (settlement.status !== FinalSettlementStatus.APPROVED) {
+      return NextResponse.json({
+        error: 'Only approved settlements can be marked as paid',
+        currentStatus: settlement.status,
+      }, { status: 400 });
+    }
+
+    if (!settlement.payslip?.isPaid) {
+      return NextResponse.json({
+        error: 'The final payslip has not been paid yet. Pay the payroll run that includes it first.',
+      }, { status: 400 });
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.finalSettlement.update({
+        where: { id },
+        data: {
+          status: FinalSettlementStatus.PAID,
+          paidAt: new Date(),
+        },
+      });
+
+      await tx.salaryStructure.updateMany({
+        where: { userId: settlement.userId },
+        data: {
+          isActive: false,
+          effectiveTo: settlement.terminationDate,
+        },
+      });
+    });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.FINAL_SETTLEMENT_PAID,
+      'FinalSettlement',
+      id,
+      {
+        settlementNumber: settlement.settlementNumber,
+        userName: settlement.user.name,
+        payslipNumber: settlement.payslip.payslipNumber,
+        paymentReference: validation.data.paymentReference,
+      }
+    );
+
+    return NextResponse.json({ success: true, status: FinalSettlementStatus.PAID });
+  } catch (error) {
+    console.error('Final settlement pay error:', error);
+    return NextResponse.json(
+      { error: 'Failed to mark final settlement as paid' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { FinalSettlementStatus, Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { updateFinalSettlementSchema } from '@/lib/validations/payroll';
+import { logAction, ActivityActions } from '@/lib/activity';
+import {
+  buildFinalSettlement,
+  toSettlementData,
+  transformSettlementDecimals,
+} from '@/lib/payroll/final-settlement-service';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const settlement = await prisma.finalSettlement.findUnique({
+      where: { id },
+      include: {
+        user: { select: { id: true, name: true, email: true } },
+        createdBy: { select: { id: true, name: true } },
+        approvedBy: { select: { id: true, name: true } },
+        payslip: { select: { id: true, payslipNumber: true, isPaid: true } },
+      },
+    });
+
+    if (!settlement) {
+      return NextResponse.json({ error: 'Final settlement not found' }, { status: 404 });
+    }
+
+    // Employees can view their own settlement once it is approved
+    const isOwnApproved = settlement.userId === session.user.id && (
+      settlement.status === FinalSettlementStatus.APPROVED ||
+      settlement.status === FinalSettlementStatus.PAID
+    );
+    if (session.user.role !== Role.ADMIN && !isOwnApproved) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    return NextResponse.json(transformSettlementDecimals(settlement));
+  } catch (error) {
+    console.error('Final settlement GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch final settlement' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Change a draft settlement's inputs; the figures are recalculated from the
+ * employee's current data
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const body = await request.json();
+    const validation = updateFinalSettlementSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const settlement = await prisma.finalSettlement.findUnique({ where: { id } });
+
+    if (!settlement) {
+      return NextResponse.json({ error: 'Final settlement not found' }, { status: 404 });
+    }
+
+    if (settlement.status !== FinalSettlementStatus.DRAFT) {
+      return NextResponse.json({
+        error: 'Only draft settlements can be edited',
+        currentStatus: settlement.status,
+      }, { status: 400 });
+    }
+
+    const data = validation.data;
+    const terminationDate = new Date(data.terminationDate);
+    const result = await buildFinalSettlement({
+      userId: settlement.userId,
+      terminationDate,
+      assetDeductions: data.assetDeductions,
+      otherEarnings: data.otherEarnings,
+      otherDeductions: data.otherDeductions,
+    });
+
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    const updated = await prisma.finalSettlement.update({
+      where: { id },
+      data: {
+        terminationDate,
+        separationReason: data.separationReason,
+        notes: data.notes,
+        ...toSettlementData(result.calculation),
+      },
+    });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.FINAL_SETTLEMENT_UPDATED,
+      'FinalSettlement',
+      id,
+      {
+        settlementNumber: settlement.settlementNumber,
+        netAmountBefore: Number(settlement.netAmount),
+        netAmountAfter: result.calculation.netAmount,
+      }
+    );
+
+    return NextResponse.json(transformSettlementDecimals(updated));
+  } catch (error) {
+    console.error('Final settlement PATCH error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update final settlement' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { FinalSettlementStatus, Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logAction, ActivityActions } from '@/lib/activity';
+import { submitPayrollSchema } from '@/lib/validations/payroll';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const body = await request.json().catch(() => ({}));
+    const validation = submitPayrollSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const settlement = await prisma.finalSettlement.findUnique({
+      where: { id },
+      include: {
+        user: { select: { name: true } },
+      },
+    });
+
+    if (!settlement) {
+      return NextResponse.json({ error: 'Final settlement not found' }, { status: 404 });
+    }
+
+    if (settlement.status !== FinalSettlementStatus.DRAFT) {
+      return NextResponse.json({
+        error: 'Only draft settlements can be submitted',
+        currentStatus: settlement.status,
+      }, { status: 400 });
+    }
+
+    const updated = await prisma.finalSettlement.update({
+      where: { id },
+      data: {
+        status: FinalSettlementStatus.PENDING_APPROVAL,
+        submittedAt: new Date(),
+        approverNotes: null,
+      },
+    });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.FINAL_SETTLEMENT_SUBMITTED,
+      'FinalSettlement',
+      id,
+      {
+        settlementNumber: settlement.settlementNumber,
+        userName: settlement.user.name,
+        netAmount: Number(settlement.netAmount),
+        notes: validation.data.notes,
+      }
+    );
+
+    return NextResponse.json({ success: true, status: updated.status });
+  } catch (error) {
+    console.error('Final settlement submit error:', error);
+    return NextResponse.json(
+      { error: 'Failed to submit final settlement' },
+      { status: 500 }
+    );
+  }
+}
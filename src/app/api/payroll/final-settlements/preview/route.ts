@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { finalSettlementCalculationSchema } from '@/lib/validations/payroll';
+import { buildFinalSettlement } from '@/lib/payroll/final-settlement-service';
+
+/**
+ * Calculate a final settlement without saving it
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = finalSettlementCalculationSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const data = validation.data;
+    const result = await buildFinalSettlement({
+      ...data,
+      terminationDate: new Date(data.terminationDate),
+    });
+
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json(result.calculation);
+  } catch (error) {
+    console.error('Final settlement preview error:', error);
+    return NextResponse.json(
+      { error: 'Failed to calculate final settlement' },
+      { status: 500 }
+    );
+  }
+}
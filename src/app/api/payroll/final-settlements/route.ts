@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { FinalSettlementStatus, Prisma, Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { createFinalSettlementSchema, finalSettlementQuerySchema } from '@/lib/validations/payroll';
+import { logAction, ActivityActions } from '@/lib/activity';
+import {
+  buildFinalSettlement,
+  toSettlementData,
+  transformSettlementDecimals,
+} from '@/lib/payroll/final-settlement-service';
+import { generateDocumentNumber } from '@/lib/domains/system/document-numbering/document-number-service';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const queryParams = Object.fromEntries(searchParams.entries());
+
+    const validation = finalSettlementQuerySchema.safeParse(queryParams);
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid query parameters',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const { status, userId, p, ps } = validation.data;
+    const page = p;
+    const pageSize = ps;
+
+    const where: Prisma.FinalSettlementWhereInput = {};
+    if (status) where.status = status;
+    if (userId) where.userId = userId;
+
+    const [settlements, total] = await Promise.all([
+      prisma.finalSettlement.findMany({
+        where,
+        include: {
+          user: { select: { id: true, name: true, email: true } },
+          createdBy: { select: { id: true, name: true } },
+          approvedBy: { select: { id: true, name: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      prisma.finalSettlement.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      settlements: settlements.map(transformSettlementDecimals),
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+        hasMore: page * pageSize < total,
+      },
+    });
+  } catch (error) {
+    console.error('Final settlements GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch final settlements' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = createFinalSettlementSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const data = validation.data;
+
+    // One open settlement per employee
+    const existing = await prisma.finalSettlement.findFirst({
+      where: {
+        userId: data.userId,
+        status: { not: FinalSettlementStatus.CANCELLED },
+      },
+    });
+
+    if (existing) {
+      return NextResponse.json({
+        error: `Employee already has a final settlement (${existing.settlementNumber})`,
+        existingId: existing.id,
+      }, { status: 400 });
+    }
+
+    const terminationDate = new Date(data.terminationDate);
+    const result = await buildFinalSettlement({
+      userId: data.userId,
+      terminationDate,
+      assetDeductions: data.assetDeductions,
+      otherEarnings: data.otherEarnings,
+      otherDeductions: data.otherDeductions,
+    });
+
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    // Numbered by the termination year, allocated in the same transaction as the settlement
+    const settlement = await prisma.$transaction(async (tx) => tx.finalSettlement.create({
+      data: {
+        settlementNumber: await generateDocumentNumber('FINAL_SETTLEMENT', { date: terminationDate, tx }),
+        userId: data.userId,
+        terminationDate,
+        separationReason: data.separationReason,
+        notes: data.notes,
+        ...toSettlementData(result.calculation),
+        createdById: session.user.id,
+      },
+      include: {
+        user: { select: { id: true, name: true, email: true } },
+      },
+    }));
+
+    await logAction(
+      session.user.id,
+      ActivityActions.FINAL_SETTLEMENT_CREATED,
+      'FinalSettlement',
+      settlement.id,
+      {
+        settlementNumber: settlement.settlementNumber,
+        userId: data.userId,
+        userName: settlement.user.name,
+        terminationDate: data.terminationDate,
+        netAmount: result.calculation.netAmount,
+      }
+    );
+
+    return NextResponse.json(transformSettlementDecimals(settlement), { status: 201 });
+  } catch (error) {
+    console.error('Final settlement POST error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create final settlement' },
+      { status: 500 }
+    );
+  }
+}
@@ -4,6 +4,7 @@ import { authOptions } from '@/lib/auth';
 import { Role } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
 import { calculateGratuity, projectGratuity, getServiceDurationText } from '@/lib/payroll/gratuity';
+import { getGratuityOptions } from '@/lib/payroll/gratuity-service';
 import { parseDecimal } from '@/lib/payroll/utils';
 
 interface RouteParams {
@@ -35,6 +36,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
             dateOfJoining: true,
             designation: true,
             employeeId: true,
+            contractType: true,
+            gratuityPolicyId: true,
           },
         },
       },
@@ -61,11 +64,18 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     const basicSalary = parseDecimal(user.salaryStructure.basicSalary);
     const dateOfJoining = new Date(user.hrProfile.dateOfJoining);
 
+    const gratuityOptions = await getGratuityOptions({
+      userId,
+      gratuityPolicyId: user.hrProfile.gratuityPolicyId,
+      contractType: user.hrProfile.contractType,
+      grossSalary: parseDecimal(user.salaryStructure.grossSalary),
+    });
+
     // Calculate current gratuity
-    const gratuityCalculation = calculateGratuity(basicSalary, dateOfJoining);
+    const gratuityCalculation = calculateGratuity(basicSalary, dateOfJoining, new Date(), gratuityOptions);
 
     // Calculate projections for different future dates
-    const projections = projectGratuity(basicSalary, dateOfJoining, [1, 2, 3, 5, 10]);
+    const projections = projectGratuity(basicSalary, dateOfJoining, [1, 2, 3, 5, 10], gratuityOptions);
 
     return NextResponse.json({
       canCalculate: true,
@@ -77,6 +87,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       dateOfJoining: user.hrProfile.dateOfJoining,
       basicSalary,
       serviceDuration: getServiceDurationText(gratuityCalculation.monthsOfService),
+      policy: gratuityCalculation.policy,
       calculation: gratuityCalculation,
       projections,
     });
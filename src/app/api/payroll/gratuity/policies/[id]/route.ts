@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logAction, ActivityActions } from '@/lib/activity';
+import { updateGratuityPolicySchema } from '@/lib/validations/payroll';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const body = await request.json();
+    const validation = updateGratuityPolicySchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const data = validation.data;
+
+    const existing = await prisma.gratuityPolicy.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Gratuity policy not found' }, { status: 404 });
+    }
+
+    if ((data.name && data.name !== existing.name) || (data.contractType && data.contractType !== existing.contractType)) {
+      const duplicate = await prisma.gratuityPolicy.findFirst({
+        where: {
+          id: { not: id },
+          OR: [
+            ...(data.name ? [{ name: data.name }] : []),
+            ...(data.contractType ? [{ contractType: data.contractType }] : []),
+          ],
+        },
+      });
+
+      if (duplicate) {
+        return NextResponse.json({
+          error: duplicate.name === data.name
+            ? 'A gratuity policy with this name already exists'
+            : `${duplicate.name} already applies to this contract type`,
+        }, { status: 400 });
+      }
+    }
+
+    const policy = await prisma.$transaction(async (tx) => {
+      if (data.isDefault && !existing.isDefault) {
+        await tx.gratuityPolicy.updateMany({
+          where: { isDefault: true },
+          data: { isDefault: false },
+        });
+      }
+
+      return tx.gratuityPolicy.update({
+        where: { id },
+        data: {
+          ...data,
+          ...(data.description !== undefined && { description: data.description || null }),
+          ...(data.contractType !== undefined && { contractType: data.contractType || null }),
+          ...(data.rateTiers && { rateTiers: [...data.rateTiers].sort((a, b) => a.fromYear - b.fromYear) }),
+        },
+      });
+    });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.GRATUITY_POLICY_UPDATED,
+      'GratuityPolicy',
+      policy.id,
+      { name: policy.name, changes: data }
+    );
+
+    return NextResponse.json(policy);
+  } catch (error) {
+    console.error('Gratuity policy PUT error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update gratuity policy' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const policy = await prisma.gratuityPolicy.findUnique({
+      where: { id },
+      include: {
+        _count: { select: { hrProfiles: true } },
+      },
+    });
+
+    if (!policy) {
+      return NextResponse.json({ error: 'Gratuity policy not found' }, { status: 404 });
+    }
+
+    if (policy._count.hrProfiles > 0) {
+      return NextResponse.json({
+        error: 'Cannot delete a policy assigned to employees. Consider deactivating it instead.',
+      }, { status: 400 });
+    }
+
+    await prisma.gratuityPolicy.delete({ where: { id } });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.GRATUITY_POLICY_DELETED,
+      'GratuityPolicy',
+      id,
+      { name: policy.name }
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Gratuity policy DELETE error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete gratuity policy' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logAction, ActivityActions } from '@/lib/activity';
+import { gratuityPolicySchema } from '@/lib/validations/payroll';
+
+// GET /api/payroll/gratuity/policies - List gratuity policies (admin only)
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const policies = await prisma.gratuityPolicy.findMany({
+      include: {
+        _count: { select: { hrProfiles: true } },
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json({ policies });
+  } catch (error) {
+    console.error('Gratuity policies GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch gratuity policies' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/payroll/gratuity/policies - Create a gratuity policy (admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = gratuityPolicySchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const data = validation.data;
+
+    const duplicate = await prisma.gratuityPolicy.findFirst({
+      where: {
+        OR: [
+          { name: data.name },
+          ...(data.contractType ? [{ contractType: data.contractType }] : []),
+        ],
+      },
+    });
+
+    if (duplicate) {
+      return NextResponse.json({
+        error: duplicate.name === data.name
+          ? 'A gratuity policy with this name already exists'
+          : `${duplicate.name} already applies to this contract type`,
+      }, { status: 400 });
+    }
+
+    const policy = await prisma.$transaction(async (tx) => {
+      // Only one policy can be the default
+      if (data.isDefault) {
+        await tx.gratuityPolicy.updateMany({
+          where: { isDefault: true },
+          data: { isDefault: false },
+        });
+      }
+
+      return tx.gratuityPolicy.create({
+        data: {
+          ...data,
+          description: data.description || null,
+          contractType: data.contractType || null,
+          rateTiers: [...data.rateTiers].sort((a, b) => a.fromYear - b.fromYear),
+        },
+      });
+    });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.GRATUITY_POLICY_CREATED,
+      'GratuityPolicy',
+      policy.id,
+      { name: policy.name, contractType: policy.contractType, isDefault: policy.isDefault }
+    );
+
+    return NextResponse.json(policy, { status: 201 });
+  } catch (error) {
+    console.error('Gratuity policies POST error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create gratuity policy' },
+      { status: 500 }
+    );
+  }
+}
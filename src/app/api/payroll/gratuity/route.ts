@@ -4,6 +4,7 @@ import { authOptions } from '@/lib/auth';
 import { Role } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
 import { calculateGratuity, projectGratuity } from '@/lib/payroll/gratuity';
+import { getGratuityOptions } from '@/lib/payroll/gratuity-service';
 import { parseDecimal } from '@/lib/payroll/utils';
 import { gratuityQuerySchema } from '@/lib/validations/payroll';
 
@@ -41,6 +42,8 @@ export async function GET(request: NextRequest) {
             dateOfJoining: true,
             designation: true,
             employeeId: true,
+            contractType: true,
+            gratuityPolicyId: true,
           },
         },
       },
@@ -66,11 +69,19 @@ export async function GET(request: NextRequest) {
     const dateOfJoining = new Date(user.hrProfile.dateOfJoining);
     const termDate = terminationDate ? new Date(terminationDate) : new Date();
 
+    // Policy for this employee, with unpaid leave taken up to the termination date
+    const gratuityOptions = await getGratuityOptions({
+      userId: targetUserId,
+      gratuityPolicyId: user.hrProfile.gratuityPolicyId,
+      contractType: user.hrProfile.contractType,
+      grossSalary: parseDecimal(user.salaryStructure.grossSalary),
+    }, termDate);
+
     // Calculate current gratuity
-    const gratuityCalculation = calculateGratuity(basicSalary, dateOfJoining, termDate);
+    const gratuityCalculation = calculateGratuity(basicSalary, dateOfJoining, termDate, gratuityOptions);
 
     // Calculate projections
-    const projections = projectGratuity(basicSalary, dateOfJoining, [1, 2, 3, 5, 10]);
+    const projections = projectGratuity(basicSalary, dateOfJoining, [1, 2, 3, 5, 10], gratuityOptions);
 
     return NextResponse.json({
       userId: targetUserId,
@@ -80,6 +91,7 @@ export async function GET(request: NextRequest) {
       dateOfJoining: user.hrProfile.dateOfJoining,
       basicSalary,
       terminationDate: termDate.toISOString(),
+      policy: gratuityCalculation.policy,
       calculation: gratuityCalculation,
       projections,
     });
@@ -0,0 +1,165 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import ExcelJS from 'exceljs';
+import { buildLiabilityReport } from '@/lib/payroll/liability-service';
+import { formatPayPeriod } from '@/lib/payroll/utils';
+import { liabilityReportQuerySchema } from '@/lib/validations/payroll';
+
+const HEADER_FILL: ExcelJS.Fill = {
+  type: 'pattern',
+  pattern: 'solid',
+  fgColor: { argb: 'FF73C5D1' },
+};
+
+const CURRENCY_FORMAT = '#,##0.00';
+
+// GET /api/payroll/liability/export - Liability report as an Excel workbook (admin only)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validation = liabilityReportQuerySchema.safeParse(Object.fromEntries(searchParams.entries()));
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid query parameters',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const { year, month } = validation.data;
+    const report = await buildLiabilityReport(year, month);
+    const period = formatPayPeriod(year, month);
+    const previousPeriod = formatPayPeriod(report.previousYear, report.previousMonth);
+
+    const workbook = new ExcelJS.Workbook();
+    workbook.creator = 'Be Creative Portal';
+    workbook.created = new Date();
+
+    // Sheet 1: Summary
+    const summarySheet = workbook.addWorksheet('Summary');
+    summarySheet.columns = [
+      { header: 'Provision', key: 'provision', width: 30 },
+      { header: previousPeriod, key: 'previous', width: 20 },
+      { header: period, key: 'current', width: 20 },
+      { header: 'Movement', key: 'movement', width: 20 },
+    ];
+    summarySheet.getRow(1).font = { bold: true };
+    summarySheet.getRow(1).fill = HEADER_FILL;
+
+    summarySheet.addRow({
+      provision: 'End of service gratuity',
+      previous: report.previousTotals.gratuityLiability,
+      current: report.totals.gratuityLiability,
+      movement: report.movement.gratuityLiability,
+    });
+    summarySheet.addRow({
+      provision: 'Unused annual leave',
+      previous: report.previousTotals.leaveLiability,
+      current: report.totals.leaveLiability,
+      movement: report.movement.leaveLiability,
+    });
+    const totalRow = summarySheet.addRow({
+      provision: 'Total',
+      previous: report.previousTotals.totalLiability,
+      current: report.totals.totalLiability,
+      movement: report.movement.totalLiability,
+    });
+    totalRow.font = { bold: true };
+    ['previous', 'current', 'movement'].forEach(key => {
+      summarySheet.getColumn(key).numFmt = CURRENCY_FORMAT;
+    });
+
+    // Sheet 2: Per-employee detail
+    const detailSheet = workbook.addWorksheet('Employees', {
+      views: [{ state: 'frozen', xSplit: 0, ySplit: 1 }],
+    });
+    detailSheet.columns = [
+      { header: 'Employee ID', key: 'employeeId', width: 15 },
+      { header: 'Name', key: 'name', width: 25 },
+      { header: 'Change', key: 'change', width: 10 },
+      { header: 'Service (Months)', key: 'monthsOfService', width: 16 },
+      { header: 'Gratuity Policy', key: 'gratuityPolicyName', width: 25 },
+      { header: 'Basic Salary', key: 'basicSalary', width: 15 },
+      { header: 'Gross Salary', key: 'grossSalary', width: 15 },
+      { header: `Gratuity ${previousPeriod}`, key: 'previousGratuity', width: 18 },
+      { header: `Gratuity ${period}`, key: 'gratuity', width: 18 },
+      { header: 'Gratuity Movement', key: 'gratuityMovement', width: 18 },
+      { header: `Leave Days ${previousPeriod}`, key: 'previousLeaveDays', width: 18 },
+      { header: `Leave Days ${period}`, key: 'leaveDays', width: 18 },
+      { header: 'Leave Daily Rate', key: 'leaveDailyRate', width: 16 },
+      { header: `Leave ${previousPeriod}`, key: 'previousLeave', width: 18 },
+      { header: `Leave ${period}`, key: 'leave', width: 18 },
+      { header: 'Leave Movement', key: 'leaveMovement', width: 16 },
+      { header: `Total ${period}`, key: 'total', width: 18 },
+      { header: 'Total Movement', key: 'totalMovement', width: 16 },
+    ];
+    detailSheet.getRow(1).font = { bold: true };
+    detailSheet.getRow(1).fill = HEADER_FILL;
+
+    report.employees.forEach(row => {
+      const liability = row.current || row.previous;
+      detailSheet.addRow({
+        employeeId: row.employeeId || '',
+        name: row.name,
+        change: row.change === 'NEW' ? 'Joined' : row.change === 'LEFT' ? 'Left' : '',
+        monthsOfService: row.current?.monthsOfService ?? '',
+        gratuityPolicyName: liability?.gratuityPolicyName || '',
+        basicSalary: liability?.basicSalary ?? 0,
+        grossSalary: liability?.grossSalary ?? 0,
+        previousGratuity: row.previous?.gratuityLiability ?? 0,
+        gratuity: row.current?.gratuityLiability ?? 0,
+        gratuityMovement: row.gratuityMovement,
+        previousLeaveDays: row.previous?.unusedLeaveDays ?? 0,
+        leaveDays: row.current?.unusedLeaveDays ?? 0,
+        leaveDailyRate: liability?.leaveDailyRate ?? 0,
+        previousLeave: row.previous?.leaveLiability ?? 0,
+        leave: row.current?.leaveLiability ?? 0,
+        leaveMovement: row.leaveMovement,
+        total: row.current?.totalLiability ?? 0,
+        totalMovement: row.totalMovement,
+      });
+    });
+
+    const detailTotals = detailSheet.addRow({
+      name: 'Total',
+      previousGratuity: report.previousTotals.gratuityLiability,
+      gratuity: report.totals.gratuityLiability,
+      gratuityMovement: report.movement.gratuityLiability,
+      previousLeave: report.previousTotals.leaveLiability,
+      leave: report.totals.leaveLiability,
+      leaveMovement: report.movement.leaveLiability,
+      total: report.totals.totalLiability,
+      totalMovement: report.movement.totalLiability,
+    });
+    detailTotals.font = { bold: true };
+
+    [
+      'basicSalary', 'grossSalary', 'previousGratuity', 'gratuity', 'gratuityMovement',
+      'leaveDailyRate', 'previousLeave', 'leave', 'leaveMovement', 'total', 'totalMovement',
+    ].forEach(key => {
+      detailSheet.getColumn(key).numFmt = CURRENCY_FORMAT;
+    });
+
+    const buffer = await workbook.xlsx.writeBuffer();
+    const filename = `liability-report-${year}-${String(month).padStart(2, '0')}.xlsx`;
+
+    return new NextResponse(new Uint8Array(buffer as ArrayBuffer), {
+      headers: {
+        'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Liability report export error:', error);
+    return NextResponse.json(
+      { error: 'Failed to export liability report' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { buildLiabilityReport } from '@/lib/payroll/liability-service';
+import { liabilityReportQuerySchema } from '@/lib/validations/payroll';
+
+// GET /api/payroll/liability - Month-end gratuity and leave liability (admin only)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validation = liabilityReportQuerySchema.safeParse(Object.fromEntries(searchParams.entries()));
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid query parameters',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const report = await buildLiabilityReport(validation.data.year, validation.data.month);
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Liability report GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to build liability report' },
+      { status: 500 }
+    );
+  }
+}
@@ -5,7 +5,8 @@ import { Role, LoanStatus } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
 import { createLoanSchema, loanQuerySchema } from '@/lib/validations/payroll';
 import { logAction, ActivityActions } from '@/lib/activity';
-import { generateLoanNumber, calculateLoanEndDate, parseDecimal } from '@/lib/payroll/utils';
+import { calculateLoanEndDate, parseDecimal } from '@/lib/payroll/utils';
+import { generateDocumentNumber } from '@/lib/domains/system/document-numbering/document-number-service';
 
 export async function GET(request: NextRequest) {
   try {
@@ -122,26 +123,13 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'User not found' }, { status: 404 });
     }
 
-    // Generate loan number
-    const lastLoan = await prisma.employeeLoan.findFirst({
-      orderBy: { loanNumber: 'desc' },
-    });
-
-    let sequence = 1;
-    if (lastLoan) {
-      const match = lastLoan.loanNumber.match(/LOAN-(\d{5})/);
-      if (match) {
-        sequence = parseInt(match[1], 10) + 1;
-      }
-    }
-
-    const loanNumber = generateLoanNumber(sequence);
     const startDate = new Date(data.startDate);
     const endDate = calculateLoanEndDate(startDate, data.installments);
 
-    const loan = await prisma.employeeLoan.create({
+    // Allocate the loan number in the same transaction as the loan
+    const loan = await prisma.$transaction(async (tx) => tx.employeeLoan.create({
       data: {
-        loanNumber,
+        loanNumber: await generateDocumentNumber('EMPLOYEE_LOAN', { tx }),
         userId: data.userId,
         type: data.type,
         description: data.description,
@@ -162,7 +150,7 @@ export async function POST(request: NextRequest) {
       include: {
         user: { select: { id: true, name: true, email: true } },
       },
-    });
+    }));
 
     await logAction(
       session.user.id,
@@ -170,7 +158,7 @@ export async function POST(request: NextRequest) {
       'EmployeeLoan',
       loan.id,
       {
-        loanNumber,
+        loanNumber: loan.loanNumber,
         userId: data.userId,
         userName: user.name,
         type: data.type,
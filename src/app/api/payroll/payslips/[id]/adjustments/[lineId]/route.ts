@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logAction, ActivityActions } from '@/lib/activity';
+import { isPayrollEditable } from '@/lib/payroll/payslip-calculation';
+import { refreshPayrollRunTotals, refreshPayslipTotals } from '@/lib/payroll/run-calculation';
+import { parseDecimal } from '@/lib/payroll/utils';
+
+interface RouteParams {
+  params: Promise<{ id: string; lineId: string }>;
+}
+
+/**
+ * Remove a manual earning or deduction from a payslip
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, lineId } = await params;
+
+    const payslip = await prisma.payslip.findUnique({
+      where: { id },
+      include: {
+        user: { select: { name: true } },
+        payrollRun: { select: { status: true, referenceNumber: true } },
+        earnings: { where: { id: lineId, isManual: true } },
+        deductions: { where: { id: lineId, isManual: true } },
+      },
+    });
+
+    if (!payslip) {
+      return NextResponse.json({ error: 'Payslip not found' }, { status: 404 });
+    }
+
+    const earning = payslip.earnings[0];
+    const deduction = payslip.deductions[0];
+    const line = earning || deduction;
+    if (!line) {
+      return NextResponse.json({ error: 'Manual adjustment not found' }, { status: 404 });
+    }
+
+    if (!isPayrollEditable(payslip.payrollRun.status)) {
+      return NextResponse.json({
+        error: 'Payslips can only be adjusted before the payroll run is submitted for approval',
+        currentStatus: payslip.payrollRun.status,
+      }, { status: 400 });
+    }
+
+    const kind = earning ? 'EARNING' : 'DEDUCTION';
+    const before = {
+      grossSalary: parseDecimal(payslip.grossSalary),
+      totalDeductions: parseDecimal(payslip.totalDeductions),
+      netSalary: parseDecimal(payslip.netSalary),
+    };
+
+    const after = await prisma.$transaction(async (tx) => {
+      if (earning) {
+        await tx.payslipEarning.delete({ where: { id: lineId } });
+      } else {
+        await tx.payslipDeduction.delete({ where: { id: lineId } });
+      }
+
+      const totals = await refreshPayslipTotals(tx, id);
+      await refreshPayrollRunTotals(tx, payslip.payrollRunId);
+
+      await tx.payrollHistory.create({
+        data: {
+          payrollRunId: payslip.payrollRunId,
+          action: 'PAYSLIP_ADJUSTMENT_REMOVED',
+          changes: {
+            payslipId: id,
+            payslipNumber: payslip.payslipNumber,
+            employeeName: payslip.user.name,
+            adjustment: {
+              kind,
+              type: line.type,
+              description: line.description,
+              amount: parseDecimal(line.amount),
+            },
+            before,
+            after: { ...totals },
+          },
+          notes: `Removed ${kind.toLowerCase()}: ${line.description}`,
+          performedById: session.user.id,
+        },
+      });
+
+      return totals;
+    });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.PAYSLIP_ADJUSTMENT_REMOVED,
+      'Payslip',
+      id,
+      {
+        payslipNumber: payslip.payslipNumber,
+        referenceNumber: payslip.payrollRun.referenceNumber,
+        kind,
+        type: line.type,
+        amount: parseDecimal(line.amount),
+      }
+    );
+
+    return NextResponse.json({ success: true, totals: after });
+  } catch (error) {
+    console.error('Payslip adjustment delete error:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove payslip adjustment' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logAction, ActivityActions } from '@/lib/activity';
+import { isPayrollEditable } from '@/lib/payroll/payslip-calculation';
+import { refreshPayrollRunTotals, refreshPayslipTotals } from '@/lib/payroll/run-calculation';
+import { parseDecimal } from '@/lib/payroll/utils';
+import { payslipAdjustmentSchema } from '@/lib/validations/hr/payroll';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Add a manual one-off earning (bonus, overtime...) or deduction (fine,
+ * advance...) to a payslip before the payroll run is submitted
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const body = await request.json();
+    const validation = payslipAdjustmentSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const payslip = await prisma.payslip.findUnique({
+      where: { id },
+      include: {
+        user: { select: { name: true } },
+        payrollRun: { select: { id: true, status: true, referenceNumber: true } },
+      },
+    });
+
+    if (!payslip) {
+      return NextResponse.json({ error: 'Payslip not found' }, { status: 404 });
+    }
+
+    if (!isPayrollEditable(payslip.payrollRun.status)) {
+      return NextResponse.json({
+        error: 'Payslips can only be adjusted before the payroll run is submitted for approval',
+        currentStatus: payslip.payrollRun.status,
+      }, { status: 400 });
+    }
+
+    const adjustment = validation.data;
+    const before = {
+      grossSalary: parseDecimal(payslip.grossSalary),
+      totalDeductions: parseDecimal(payslip.totalDeductions),
+      netSalary: parseDecimal(payslip.netSalary),
+    };
+
+    const result = await prisma.$transaction(async (tx) => {
+      const lineData = {
+        payslipId: id,
+        description: adjustment.description,
+        amount: adjustment.amount,
+        reason: adjustment.reason,
+        isManual: true,
+        createdById: session.user.id,
+      };
+
+      const line = adjustment.kind === 'EARNING'
+        ? await tx.payslipEarning.create({ data: { ...lineData, type: adjustment.type } })
+        : await tx.payslipDeduction.create({ data: { ...lineData, type: adjustment.type } });
+
+      const after = await refreshPayslipTotals(tx, id);
+      await refreshPayrollRunTotals(tx, payslip.payrollRunId);
+
+      await tx.payrollHistory.create({
+        data: {
+          payrollRunId: payslip.payrollRunId,
+          action: 'PAYSLIP_ADJUSTED',
+          changes: {
+            payslipId: id,
+            payslipNumber: payslip.payslipNumber,
+            employeeName: payslip.user.name,
+            adjustment: {
+              kind: adjustment.kind,
+              type: adjustment.type,
+              description: adjustment.description,
+              amount: adjustment.amount,
+            },
+            before,
+            after: { ...after },
+          },
+          notes: adjustment.reason,
+          performedById: session.user.id,
+        },
+      });
+
+      return { line, after };
+    });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.PAYSLIP_ADJUSTMENT_ADDED,
+      'Payslip',
+      id,
+      {
+        payslipNumber: payslip.payslipNumber,
+        referenceNumber: payslip.payrollRun.referenceNumber,
+        kind: adjustment.kind,
+        type: adjustment.type,
+        amount: adjustment.amount,
+        reason: adjustment.reason,
+      }
+    );
+
+    return NextResponse.json({
+      ...result.line,
+      amount: parseDecimal(result.line.amount),
+      kind: adjustment.kind,
+      totals: result.after,
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Payslip adjustment error:', error);
+    return NextResponse.json(
+      { error: 'Failed to add payslip adjustment' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import {
+  getPayslipPdfBranding,
+  PAYSLIP_PDF_INCLUDE,
+  renderPayslipPdf,
+  toPayslipPdfData,
+} from '@/lib/payroll/payslip-pdf-service';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/payroll/payslips/[id]/pdf - Download a payslip as a branded PDF
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const payslip = await prisma.payslip.findUnique({
+      where: { id },
+      include: PAYSLIP_PDF_INCLUDE,
+    });
+
+    if (!payslip) {
+      return NextResponse.json({ error: 'Payslip not found' }, { status: 404 });
+    }
+
+    // Non-admin users can only download their own payslips
+    if (session.user.role !== Role.ADMIN && payslip.userId !== session.user.id) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const branding = await getPayslipPdfBranding();
+    const file = renderPayslipPdf(toPayslipPdfData(payslip), branding);
+
+    return new NextResponse(new Uint8Array(file.content), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Payslip PDF error:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate payslip PDF' },
+      { status: 500 }
+    );
+  }
+}
@@ -50,6 +50,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
           },
         },
         deductions: true,
+        earnings: true,
       },
     });
 
@@ -78,6 +79,10 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         ...d,
         amount: parseDecimal(d.amount),
       })),
+      earnings: payslip.earnings.map(e => ({
+        ...e,
+        amount: parseDecimal(e.amount),
+      })),
     };
 
     return NextResponse.json(response);
@@ -5,6 +5,7 @@ import { Role, PayrollStatus } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
 import { logAction, ActivityActions } from '@/lib/activity';
 import { rejectPayrollSchema } from '@/lib/validations/payroll';
+import { reverseLoanRepayments } from '@/lib/payroll/run-calculation';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -50,47 +51,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     const updatedRun = await prisma.$transaction(async (tx) => {
       // If payroll was processed, need to reverse loan deductions
       if (payrollRun.status === PayrollStatus.PROCESSED) {
-        // Get all payslips with loan deductions
-        const payslips = await tx.payslip.findMany({
-          where: { payrollRunId: id },
-          include: {
-            deductions: {
-              where: { type: 'LOAN_REPAYMENT' },
-            },
-          },
-        });
-
-        // Reverse loan repayments
-        for (const payslip of payslips) {
-          for (const deduction of payslip.deductions) {
-            if (deduction.loanId) {
-              // Delete the loan repayment record
-              await tx.loanRepayment.deleteMany({
-                where: {
-                  payslipId: payslip.id,
-                  loanId: deduction.loanId,
-                },
-              });
-
-              // Reverse loan amounts
-              const loan = await tx.employeeLoan.findUnique({
-                where: { id: deduction.loanId },
-              });
-
-              if (loan) {
-                await tx.employeeLoan.update({
-                  where: { id: loan.id },
-                  data: {
-                    totalPaid: { decrement: Number(deduction.amount) },
-                    remainingAmount: { increment: Number(deduction.amount) },
-                    installmentsPaid: { decrement: 1 },
-                    status: 'ACTIVE',
-                  },
-                });
-              }
-            }
-          }
-        }
+        await reverseLoanRepayments(tx, id);
 
         // Delete all payslips and their deductions
         await tx.payslip.deleteMany({
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { PayrollStatus, Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logAction, ActivityActions } from '@/lib/activity';
+import { emailPayslipsSchema } from '@/lib/validations/payroll';
+import { emailPayslips, PAYSLIP_PDF_INCLUDE } from '@/lib/payroll/payslip-pdf-service';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Email every employee in a paid run their own payslip PDF. With
+ * protectWithQid each PDF opens with the digits of the employee's QID.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const body = await request.json().catch(() => ({}));
+    const validation = emailPayslipsSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const { protectWithQid, userIds } = validation.data;
+
+    const payrollRun = await prisma.payrollRun.findUnique({
+      where: { id },
+      select: { id: true, referenceNumber: true, status: true },
+    });
+
+    if (!payrollRun) {
+      return NextResponse.json({ error: 'Payroll run not found' }, { status: 404 });
+    }
+
+    if (payrollRun.status !== PayrollStatus.PAID) {
+      return NextResponse.json({
+        error: 'Payslips can only be emailed once the payroll run is paid',
+        currentStatus: payrollRun.status,
+      }, { status: 400 });
+    }
+
+    const payslips = await prisma.payslip.findMany({
+      where: {
+        payrollRunId: id,
+        ...(userIds && { userId: { in: userIds } }),
+      },
+      include: PAYSLIP_PDF_INCLUDE,
+      orderBy: { user: { name: 'asc' } },
+    });
+
+    if (payslips.length === 0) {
+      return NextResponse.json({ error: 'No payslips to email' }, { status: 400 });
+    }
+
+    const results = await emailPayslips(payslips, protectWithQid);
+    const sentCount = results.filter(result => result.sent).length;
+    const failed = results.filter(result => !result.sent);
+
+    await prisma.payrollHistory.create({
+      data: {
+        payrollRunId: id,
+        action: 'PAYSLIPS_EMAILED',
+        changes: {
+          sent: sentCount,
+          failed: failed.map(result => ({ employeeName: result.employeeName, error: result.error })),
+          protectWithQid,
+        },
+        notes: `Payslips emailed to ${sentCount} of ${results.length} employees`,
+        performedById: session.user.id,
+      },
+    });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.PAYROLL_PAYSLIPS_EMAILED,
+      'PayrollRun',
+      id,
+      {
+        referenceNumber: payrollRun.referenceNumber,
+        sent: sentCount,
+        failed: failed.length,
+        protectWithQid,
+      }
+    );
+
+    return NextResponse.json({
+      sent: sentCount,
+      failed: failed.length,
+      results,
+    });
+  } catch (error) {
+    console.error('Payslip email error:', error);
+    return NextResponse.json(
+      { error: 'Failed to email payslips' },
+      { status: 500 }
+    );
+  }
+}
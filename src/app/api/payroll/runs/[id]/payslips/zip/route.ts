@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { payslipArchiveQuerySchema } from '@/lib/validations/payroll';
+import {
+  createPayslipZip,
+  getPayslipPdfBranding,
+  PAYSLIP_PDF_INCLUDE,
+  PayslipPdfFile,
+  renderPayslipPdf,
+  toPayslipPdfData,
+} from '@/lib/payroll/payslip-pdf-service';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Download every payslip in a run as a ZIP of PDFs. When protectWithQid is
+ * set, employees without a QID are left out and listed in X-Skipped-Payslips.
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const { searchParams } = new URL(request.url);
+    const validation = payslipArchiveQuerySchema.safeParse(Object.fromEntries(searchParams.entries()));
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid query parameters',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const payrollRun = await prisma.payrollRun.findUnique({
+      where: { id },
+      select: { referenceNumber: true },
+    });
+
+    if (!payrollRun) {
+      return NextResponse.json({ error: 'Payroll run not found' }, { status: 404 });
+    }
+
+    const payslips = await prisma.payslip.findMany({
+      where: { payrollRunId: id },
+      include: PAYSLIP_PDF_INCLUDE,
+      orderBy: { user: { name: 'asc' } },
+    });
+
+    if (payslips.length === 0) {
+      return NextResponse.json({ error: 'This payroll run has no payslips' }, { status: 400 });
+    }
+
+    const branding = await getPayslipPdfBranding();
+    const files: PayslipPdfFile[] = [];
+    const skipped: string[] = [];
+
+    for (const payslip of payslips) {
+      try {
+        files.push(renderPayslipPdf(toPayslipPdfData(payslip), branding, validation.data.protectWithQid));
+      } catch {
+        skipped.push(payslip.payslipNumber);
+      }
+    }
+
+    if (files.length === 0) {
+      return NextResponse.json({
+        error: 'None of the employees in this run have a QID number to protect their payslip with',
+      }, { status: 400 });
+    }
+
+    const zip = await createPayslipZip(files);
+
+    return new NextResponse(new Uint8Array(zip), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="payslips-${payrollRun.referenceNumber}.zip"`,
+        'X-Filename': `payslips-${payrollRun.referenceNumber}.zip`,
+        'X-Skipped-Payslips': skipped.join(','),
+      },
+    });
+  } catch (error) {
+    console.error('Payslip ZIP error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create payslip archive' },
+      { status: 500 }
+    );
+  }
+}
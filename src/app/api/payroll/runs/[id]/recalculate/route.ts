@@ -0,0 +1,167 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logAction, ActivityActions } from '@/lib/activity';
+import {
+  computeRunPayslips,
+  getRunPayslipSnapshots,
+  refreshPayrollRunTotals,
+  saveComputedPayslips,
+  toPayslipSnapshot,
+} from '@/lib/payroll/run-calculation';
+import { diffPayslips, isPayrollEditable } from '@/lib/payroll/payslip-calculation';
+import { recalculatePayrollSchema } from '@/lib/validations/hr/payroll';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+async function getEditableRun(id: string) {
+  const payrollRun = await prisma.payrollRun.findUnique({ where: { id } });
+
+  if (!payrollRun) {
+    return { error: NextResponse.json({ error: 'Payroll run not found' }, { status: 404 }) };
+  }
+
+  if (payrollRun.employeeCount === 0) {
+    return {
+      error: NextResponse.json({
+        error: 'No payslips to recalculate. Generate payslips first.',
+      }, { status: 400 }),
+    };
+  }
+
+  if (!isPayrollEditable(payrollRun.status)) {
+    return {
+      error: NextResponse.json({
+        error: 'Payroll can only be recalculated before it is submitted for approval',
+        currentStatus: payrollRun.status,
+      }, { status: 400 }),
+    };
+  }
+
+  return { payrollRun };
+}
+
+/**
+ * Preview: what recalculating the run would change, per employee
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { payrollRun, error } = await getEditableRun(id);
+    if (error) return error;
+
+    const [existing, computed] = await Promise.all([
+      getRunPayslipSnapshots(payrollRun.id),
+      computeRunPayslips(payrollRun),
+    ]);
+
+    return NextResponse.json(diffPayslips(existing, computed.map(toPayslipSnapshot)));
+  } catch (error) {
+    console.error('Payroll recalculation preview error:', error);
+    return NextResponse.json(
+      { error: 'Failed to preview payroll recalculation' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Recalculate the run's payslips from current salary structures, unpaid leave
+ * and loans. Manual earnings and deductions are kept.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const body = await request.json().catch(() => ({}));
+    const validation = recalculatePayrollSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const { payrollRun, error } = await getEditableRun(id);
+    if (error) return error;
+
+    const [existing, computed] = await Promise.all([
+      getRunPayslipSnapshots(payrollRun.id),
+      computeRunPayslips(payrollRun),
+    ]);
+
+    if (computed.length === 0) {
+      return NextResponse.json({
+        error: 'No employees with active salary structures found. Please create salary structures first.',
+      }, { status: 400 });
+    }
+
+    const diff = diffPayslips(existing, computed.map(toPayslipSnapshot));
+
+    await prisma.$transaction(async (tx) => {
+      await saveComputedPayslips(tx, payrollRun, computed, session.user.id);
+      await refreshPayrollRunTotals(tx, id);
+
+      await tx.payrollHistory.create({
+        data: {
+          payrollRunId: id,
+          action: 'RECALCULATED',
+          changes: {
+            before: { ...diff.before },
+            after: { ...diff.after },
+            added: diff.added.map(p => p.employeeName),
+            removed: diff.removed.map(p => p.employeeName),
+            changed: diff.changed.map(c => ({
+              employeeName: c.employeeName,
+              netBefore: c.before.netSalary,
+              netAfter: c.after.netSalary,
+            })),
+          },
+          notes: validation.data.notes ||
+            `Recalculated: ${diff.changed.length} changed, ${diff.added.length} added, ${diff.removed.length} removed`,
+          performedById: session.user.id,
+        },
+      });
+    }, {
+      maxWait: 10000, // 10 seconds max wait to start transaction
+      timeout: 120000, // 2 minutes timeout for the transaction
+    });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.PAYROLL_RUN_RECALCULATED,
+      'PayrollRun',
+      id,
+      {
+        referenceNumber: payrollRun.referenceNumber,
+        changed: diff.changed.length,
+        added: diff.added.length,
+        removed: diff.removed.length,
+        totalNetBefore: diff.before.totalNet,
+        totalNetAfter: diff.after.totalNet,
+      }
+    );
+
+    return NextResponse.json({ success: true, ...diff });
+  } catch (error) {
+    console.error('Payroll recalculation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to recalculate payroll' },
+      { status: 500 }
+    );
+  }
+}
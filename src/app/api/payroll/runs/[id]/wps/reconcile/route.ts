@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { parseWPSSIFFile, reconcileWPSRecords } from '@/lib/payroll/wps';
+import { buildWPSRunData } from '@/lib/payroll/wps-service';
+import { reconcileWpsSchema } from '@/lib/validations/hr/payroll';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Parse an existing SIF file (e.g. the one submitted to or returned by the
+ * bank) and reconcile it against the payslips of this payroll run
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const body = await request.json();
+    const validation = reconcileWpsSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const data = await buildWPSRunData(id);
+    if (!data) {
+      return NextResponse.json({ error: 'Payroll run not found' }, { status: 404 });
+    }
+
+    const parsed = parseWPSSIFFile(validation.data.content);
+    if (!parsed.header) {
+      return NextResponse.json({
+        error: 'Could not read the SIF file',
+        parseErrors: parsed.errors,
+      }, { status: 400 });
+    }
+
+    const periodErrors: string[] = [];
+    if (parsed.header.paymentYear !== data.header.paymentYear || parsed.header.paymentMonth !== data.header.paymentMonth) {
+      periodErrors.push(
+        `File is for ${parsed.header.paymentYear}-${String(parsed.header.paymentMonth).padStart(2, '0')}, ` +
+        `payroll run is for ${data.header.paymentYear}-${String(data.header.paymentMonth).padStart(2, '0')}`
+      );
+    }
+    if (parsed.header.employerEid !== data.header.employerEid) {
+      periodErrors.push(`File employer EID ${parsed.header.employerEid} does not match ${data.header.employerEid}`);
+    }
+
+    const reconciliation = reconcileWPSRecords(
+      parsed.records,
+      data.entries.map(entry => entry.record)
+    );
+
+    return NextResponse.json({
+      header: parsed.header,
+      recordCount: parsed.records.length,
+      parseErrors: [...parsed.errors, ...periodErrors],
+      ...reconciliation,
+    });
+  } catch (error) {
+    console.error('WPS reconciliation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to reconcile WPS file' },
+      { status: 500 }
+    );
+  }
+}
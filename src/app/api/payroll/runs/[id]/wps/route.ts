@@ -4,14 +4,43 @@ import { authOptions } from '@/lib/auth';
 import { Role, PayrollStatus } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
 import { logAction, ActivityActions } from '@/lib/activity';
-import { generateWPSSIFFile, getBankCode, generateWPSFileName, validateWPSRecord } from '@/lib/payroll/wps';
-import { parseDecimal } from '@/lib/payroll/utils';
-import type { WPSEmployeeRecord, WPSFileHeader } from '@/lib/types/payroll';
+import { generateWPSSIFFile, generateWPSFileName } from '@/lib/payroll/wps';
+import { buildWPSRunData } from '@/lib/payroll/wps-service';
+import { generateWpsSchema } from '@/lib/validations/hr/payroll';
+import type { WPSFileHeader } from '@/lib/types/payroll';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
 }
 
+/**
+ * Pre-flight validation report: lists every employee whose record would fail
+ * WPS validation, plus any problem with the company's WPS settings
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const data = await buildWPSRunData(id);
+    if (!data) {
+      return NextResponse.json({ error: 'Payroll run not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(data.report);
+  } catch (error) {
+    console.error('WPS validation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to validate WPS data' },
+      { status: 500 }
+    );
+  }
+}
+
 export async function POST(request: NextRequest, { params }: RouteParams) {
   try {
     const session = await getServerSession(authOptions);
@@ -21,20 +50,19 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
     const { id } = await params;
 
-    // Get payroll run with payslips
+    const body = await request.json().catch(() => ({}));
+    const validation = generateWpsSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+    const { skipInvalid } = validation.data;
+
     const payrollRun = await prisma.payrollRun.findUnique({
       where: { id },
-      include: {
-        payslips: {
-          include: {
-            user: {
-              select: {
-                name: true,
-              },
-            },
-          },
-        },
-      },
+      select: { id: true, status: true, referenceNumber: true, _count: { select: { payslips: true } } },
     });
 
     if (!payrollRun) {
@@ -49,88 +77,56 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       }, { status: 400 });
     }
 
-    if (payrollRun.payslips.length === 0) {
+    if (payrollRun._count.payslips === 0) {
       return NextResponse.json({
         error: 'No payslips found for this payroll run',
       }, { status: 400 });
     }
 
-    // Get company settings for WPS
-    const molIdSetting = await prisma.systemSettings.findUnique({
-      where: { key: 'COMPANY_MOL_ID' },
-    });
+    const data = await buildWPSRunData(id);
+    if (!data) {
+      return NextResponse.json({ error: 'Payroll run not found' }, { status: 404 });
+    }
 
-    const companyNameSetting = await prisma.systemSettings.findUnique({
-      where: { key: 'COMPANY_NAME' },
-    });
+    const { report } = data;
 
-    const employerMolId = molIdSetting?.value || '0000000000';
-    const employerName = companyNameSetting?.value || 'COMPANY NAME';
-
-    // Build WPS records
-    const wpsRecords: WPSEmployeeRecord[] = [];
-    const validationErrors: Array<{ employee: string; errors: string[] }> = [];
-
-    for (const payslip of payrollRun.payslips) {
-      const record: WPSEmployeeRecord = {
-        qidNumber: payslip.qidNumber || '',
-        employeeName: payslip.user.name || 'UNKNOWN',
-        bankCode: getBankCode(payslip.bankName || ''),
-        iban: payslip.iban || '',
-        basicSalary: parseDecimal(payslip.basicSalary),
-        housingAllowance: parseDecimal(payslip.housingAllowance),
-        otherAllowances:
-          parseDecimal(payslip.transportAllowance) +
-          parseDecimal(payslip.foodAllowance) +
-          parseDecimal(payslip.phoneAllowance) +
-          parseDecimal(payslip.otherAllowances),
-        totalDeductions: parseDecimal(payslip.totalDeductions),
-        netSalary: parseDecimal(payslip.netSalary),
-      };
-
-      const errors = validateWPSRecord(record);
-      if (errors.length > 0) {
-        validationErrors.push({
-          employee: payslip.user.name || 'Unknown',
-          errors,
-        });
-      } else {
-        wpsRecords.push(record);
-      }
+    if (report.headerErrors.length > 0) {
+      return NextResponse.json({
+        error: 'Company WPS settings are incomplete. Please update them in Settings.',
+        report,
+      }, { status: 400 });
     }
 
-    // If ALL employees have invalid data, return error
-    if (wpsRecords.length === 0) {
+    if (report.validCount === 0) {
       return NextResponse.json({
         error: 'No employees have valid WPS data. Please update HR profiles with QID and bank details.',
-        validationErrors,
-        validRecords: 0,
-        invalidRecords: validationErrors.length,
+        report,
       }, { status: 400 });
     }
 
-    // Log warning about skipped employees but continue with valid ones
-    if (validationErrors.length > 0) {
-      console.warn(`WPS: Skipping ${validationErrors.length} employees with invalid data:`, validationErrors);
+    // Banks reject the whole file on a bad record, so leaving employees out
+    // has to be an explicit choice
+    if (report.invalidCount > 0 && !skipInvalid) {
+      return NextResponse.json({
+        error: `${report.invalidCount} employee(s) have invalid WPS data`,
+        report,
+      }, { status: 400 });
     }
 
-    // Calculate totals
-    const totalAmount = wpsRecords.reduce((sum, r) => sum + r.netSalary, 0);
+    const wpsRecords = data.entries
+      .filter(entry => entry.errors.length === 0)
+      .map(entry => entry.record);
 
-    // Build header
     const header: WPSFileHeader = {
-      employerMolId,
-      employerName,
-      paymentMonth: payrollRun.month,
-      paymentYear: payrollRun.year,
-      paymentDate: new Date(),
+      ...data.header,
       totalRecords: wpsRecords.length,
-      totalAmount,
+      totalAmount: report.totalAmount,
     };
 
     // Generate SIF file content
-    const sifContent = generateWPSSIFFile(header, wpsRecords);
-    const fileName = generateWPSFileName(employerMolId, payrollRun.year, payrollRun.month);
+    const sifContent = generateWPSSIFFile(header, wpsRecords, data.variant);
+    const fileName = generateWPSFileName(header, data.variant);
+    const skippedNote = report.invalidCount > 0 ? ` (${report.invalidCount} skipped)` : '';
 
     // Update payroll run
     await prisma.$transaction(async (tx) => {
@@ -141,7 +137,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
           wpsGeneratedAt: new Date(),
           // Store file content as base64 in URL field (for now)
           // In production, upload to storage and store URL
-          wpsFileUrl: `data:text/plain;base64,${Buffer.from(sifContent).toString('base64')}`,
+          wpsFileUrl: `data:text/csv;base64,${Buffer.from(sifContent).toString('base64')}`,
         },
       });
 
@@ -149,7 +145,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         data: {
           payrollRunId: id,
           action: 'WPS_GENERATED',
-          notes: `Generated WPS file: ${fileName} with ${wpsRecords.length} records`,
+          notes: `Generated WPS file: ${fileName} with ${wpsRecords.length} records${skippedNote}`,
           performedById: session.user.id,
         },
       });
@@ -164,7 +160,8 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         referenceNumber: payrollRun.referenceNumber,
         fileName,
         recordCount: wpsRecords.length,
-        totalAmount,
+        skippedCount: report.invalidCount,
+        totalAmount: report.totalAmount,
       }
     );
 
@@ -172,7 +169,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     return new NextResponse(sifContent, {
       status: 200,
       headers: {
-        'Content-Type': 'text/plain',
+        'Content-Type': 'text/csv',
         'Content-Disposition': `attachment; filename="${fileName}"`,
         'X-Filename': fileName,
       },
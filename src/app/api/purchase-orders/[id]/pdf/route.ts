@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { getBrandingSettings } from '@/lib/core/branding';
+import {
+  PURCHASE_ORDER_INCLUDE,
+  toPurchaseOrderPdfData,
+} from '@/lib/domains/projects/purchase-orders/purchase-order-service';
+import {
+  generatePurchaseOrderPdf,
+  getPurchaseOrderFilename,
+} from '@/lib/domains/projects/purchase-orders/purchase-order-pdf';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/purchase-orders/[id]/pdf - Branded purchase order PDF to send to the supplier
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const purchaseOrder = await prisma.purchaseOrder.findUnique({
+      where: { id },
+      include: PURCHASE_ORDER_INCLUDE,
+    });
+
+    if (!purchaseOrder) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 });
+    }
+
+    const branding = await getBrandingSettings();
+    const content = generatePurchaseOrderPdf(toPurchaseOrderPdfData(purchaseOrder), {
+      companyName: branding.companyName,
+      primaryColor: branding.primaryColor,
+    });
+    const filename = getPurchaseOrderFilename(purchaseOrder.poNumber);
+
+    return new NextResponse(new Uint8Array(content), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'X-Filename': filename,
+      },
+    });
+  } catch (error) {
+    console.error('Purchase order PDF error:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate purchase order PDF' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import {
+  PURCHASE_ORDER_INCLUDE,
+  transformPurchaseOrder,
+} from '@/lib/domains/projects/purchase-orders/purchase-order-service';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/purchase-orders/[id] - Purchase order with its lines
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const purchaseOrder = await prisma.purchaseOrder.findUnique({
+      where: { id },
+      include: PURCHASE_ORDER_INCLUDE,
+    });
+
+    if (!purchaseOrder) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(transformPurchaseOrder(purchaseOrder));
+  } catch (error) {
+    console.error('Purchase order GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch purchase order' },
+      { status: 500 }
+    );
+  }
+}
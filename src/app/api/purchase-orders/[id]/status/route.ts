@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { updatePurchaseOrderStatusSchema } from '@/lib/validations/projects/purchase-order';
+import { logAction, ActivityActions } from '@/lib/activity';
+import {
+  cancelPurchaseOrder,
+  closePurchaseOrder,
+} from '@/lib/domains/projects/purchase-orders/purchase-order-service';
+import { AppError } from '@/lib/http/errors';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// PATCH /api/purchase-orders/[id]/status - Close a received order or cancel one nothing has arrived for
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const body = await request.json();
+    const validation = updatePurchaseOrderStatusSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const input = validation.data;
+    const purchaseOrder = input.status === 'CANCELLED'
+      ? await cancelPurchaseOrder(id, session.user.id, input.reason)
+      : await closePurchaseOrder(id, session.user.id);
+
+    await logAction(
+      session.user.id,
+      input.status === 'CANCELLED'
+        ? ActivityActions.PURCHASE_ORDER_CANCELLED
+        : ActivityActions.PURCHASE_ORDER_CLOSED,
+      'PurchaseOrder',
+      purchaseOrder.id,
+      {
+        poNumber: purchaseOrder.poNumber,
+        purchaseRequest: purchaseOrder.purchaseRequest.referenceNumber,
+        reason: purchaseOrder.cancellationReason,
+      }
+    );
+
+    return NextResponse.json(purchaseOrder);
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('Purchase order status error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update purchase order' },
+      { status: 500 }
+    );
+  }
+}
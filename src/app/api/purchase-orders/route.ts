@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Prisma, Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { purchaseOrderQuerySchema } from '@/lib/validations/projects/purchase-order';
+import {
+  PURCHASE_ORDER_INCLUDE,
+  transformPurchaseOrder,
+} from '@/lib/domains/projects/purchase-orders/purchase-order-service';
+
+// GET /api/purchase-orders - Purchase orders, optionally by status or supplier
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validation = purchaseOrderQuerySchema.safeParse(Object.fromEntries(searchParams.entries()));
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid query parameters',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const { status, supplierId } = validation.data;
+    const where: Prisma.PurchaseOrderWhereInput = {};
+    if (status) where.status = status;
+    if (supplierId) where.supplierId = supplierId;
+
+    const purchaseOrders = await prisma.purchaseOrder.findMany({
+      where,
+      include: PURCHASE_ORDER_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json({ purchaseOrders: purchaseOrders.map(transformPurchaseOrder) });
+  } catch (error) {
+    console.error('Purchase orders GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch purchase orders' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,302 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { approvePurchaseRequestSchema } from '@/lib/validations/purchase-request';
+import { logAction, ActivityActions } from '@/lib/activity';
+import { getStatusLabel } from '@/lib/purchase-request-utils';
+import { sendEmail } from '@/lib/email';
+import { purchaseRequestStatusEmail } from '@/lib/email-templates';
+import { createNotification, NotificationTemplates } from '@/lib/domains/system/notifications';
+import { getApprovalPermission } from '@/lib/domains/hr/leave/approval-service';
+import { getNextStep } from '@/lib/domains/hr/leave/approval-chain';
+import {
+  APPROVAL_CHAIN_OPEN_STATUSES,
+  notifyPurchaseStepApprovers,
+} from '@/lib/domains/projects/purchase-requests/approval-service';
+import {
+  BudgetApprovalError,
+  getBudgetActivityPayload,
+  getBudgetApprovalError,
+  getOverBudgetNote,
+  lockAndCheckPurchaseRequestBudget,
+} from '@/lib/domains/projects/budgets/budget-service';
+import { AppError, ConflictError } from '@/lib/http/errors';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Approve the current step of a purchase request's approval chain. The final
+ * step (or a single admin approval when the request has no chain) approves the
+ * request itself.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const body = await request.json();
+    const validation = approvePurchaseRequestSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const { notes, acknowledgeOverBudget } = validation.data;
+
+    const existing = await prisma.purchaseRequest.findUnique({
+      where: { id },
+      include: {
+        requester: {
+          select: { id: true, name: true, email: true },
+        },
+        approvals: {
+          include: {
+            approver: { select: { id: true, name: true } },
+          },
+          orderBy: { stepOrder: 'asc' },
+        },
+      },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Purchase request not found' }, { status: 404 });
+    }
+
+    if (!APPROVAL_CHAIN_OPEN_STATUSES.includes(existing.status)) {
+      return NextResponse.json({
+        error: 'Only pending requests can be approved',
+      }, { status: 400 });
+    }
+
+    if (existing.requesterId === session.user.id) {
+      return NextResponse.json({
+        error: 'You cannot approve your own purchase request',
+      }, { status: 403 });
+    }
+
+    // Requests without a chain can be approved by any admin; otherwise only the
+    // current step's approver (or their delegate)
+    const permission = await getApprovalPermission(existing.approvals, {
+      id: session.user.id,
+      role: session.user.role,
+    }, existing.requesterId);
+
+    if (!permission.allowed) {
+      if (!permission.step && existing.approvals.length === 0) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      }
+      return NextResponse.json({
+        error: permission.step
+          ? `You are not the approver for the current step (${permission.step.name})`
+          : 'This request has no pending approval step',
+      }, { status: 403 });
+    }
+
+    const currentStep = permission.step;
+    const nextStep = currentStep ? getNextStep(existing.approvals, currentStep.stepOrder) : null;
+    const isFinalApproval = !nextStep;
+    const onBehalfOf = existing.approvals.find(step => step.approverId === permission.onBehalfOfId)?.approver;
+
+    const now = new Date();
+    const stepNote = currentStep
+      ? `${currentStep.name} approved${onBehalfOf ? ` on behalf of ${onBehalfOf.name}` : ''}`
+      : null;
+
+    const { purchaseRequest, budgetCheck } = await prisma.$transaction(async (tx) => {
+      // The final approval commits the request against its budget
+      const budgetCheck = isFinalApproval ? await lockAndCheckPurchaseRequestBudget(tx, existing) : null;
+      const budgetError = getBudgetApprovalError(budgetCheck, acknowledgeOverBudget);
+      if (budgetError) {
+        throw new BudgetApprovalError(budgetError);
+      }
+      const details = [stepNote, notes, getOverBudgetNote(budgetCheck)].filter(Boolean).join('. ');
+
+      if (currentStep) {
+        // Guard against two approvers acting on the same step concurrently
+        const stepUpdate = await tx.purchaseRequestApproval.updateMany({
+          where: { purchaseRequestId: id, stepOrder: currentStep.stepOrder, status: 'PENDING' },
+          data: {
+            status: 'APPROVED',
+            actedById: session.user.id,
+            delegatedFromId: permission.onBehalfOfId,
+            actedAt: now,
+            notes,
+          },
+        });
+        if (stepUpdate.count === 0) {
+          throw new Error('STEP_ALREADY_DECIDED');
+        }
+      }
+
+      // Intermediate step: hand the request to the next approver
+      if (currentStep && nextStep) {
+        await tx.purchaseRequestApproval.updateMany({
+          where: { purchaseRequestId: id, stepOrder: nextStep.stepOrder },
+          data: { activatedAt: now },
+        });
+
+        const updated = await tx.purchaseRequest.update({
+          where: { id },
+          data: { currentApprovalStep: nextStep.stepOrder },
+        });
+
+        await tx.purchaseRequestHistory.create({
+          data: {
+            purchaseRequestId: id,
+            action: 'STEP_APPROVED',
+            previousStatus: existing.status,
+            newStatus: existing.status,
+            approvalStep: currentStep.stepOrder,
+            performedById: session.user.id,
+            details,
+          },
+        });
+
+        return { purchaseRequest: updated, budgetCheck };
+      }
+
+      // Final step: approve the request, unless it was decided in the meantime
+      const { count } = await tx.purchaseRequest.updateMany({
+        where: { id, status: existing.status },
+        data: {
+          status: 'APPROVED',
+          reviewedById: session.user.id,
+          reviewedAt: now,
+          reviewNotes: notes || undefined,
+          currentApprovalStep: null,
+        },
+      });
+      if (count === 0) {
+        throw new ConflictError('This request has just been updated by someone else');
+      }
+      const updated = await tx.purchaseRequest.findUniqueOrThrow({ where: { id } });
+
+      await tx.purchaseRequestHistory.create({
+        data: {
+          purchaseRequestId: id,
+          action: 'STATUS_CHANGED',
+          previousStatus: existing.status,
+          newStatus: 'APPROVED',
+          approvalStep: currentStep?.stepOrder,
+          performedById: session.user.id,
+          details: details || `Status changed to ${getStatusLabel('APPROVED')}`,
+        },
+      });
+
+      return { purchaseRequest: updated, budgetCheck };
+    });
+
+    if (currentStep && nextStep) {
+      await logAction(
+        session.user.id,
+        ActivityActions.PURCHASE_REQUEST_STEP_APPROVED,
+        'PurchaseRequest',
+        purchaseRequest.id,
+        {
+          referenceNumber: purchaseRequest.referenceNumber,
+          step: currentStep.name,
+          stepOrder: currentStep.stepOrder,
+          onBehalfOfId: permission.onBehalfOfId,
+        }
+      );
+
+      // Hand over to the next approver and keep the requester informed
+      await notifyPurchaseStepApprovers(nextStep, {
+        id: purchaseRequest.id,
+        referenceNumber: purchaseRequest.referenceNumber,
+        title: purchaseRequest.title,
+        requesterName: existing.requester.name || existing.requester.email,
+      });
+      await createNotification(
+        NotificationTemplates.purchaseRequestStepApproved(
+          existing.requesterId,
+          purchaseRequest.referenceNumber,
+          currentStep.name,
+          nextStep.name,
+          purchaseRequest.id
+        )
+      );
+
+      return NextResponse.json(purchaseRequest);
+    }
+
+    await logAction(
+      session.user.id,
+      ActivityActions.PURCHASE_REQUEST_APPROVED,
+      'PurchaseRequest',
+      purchaseRequest.id,
+      {
+        referenceNumber: purchaseRequest.referenceNumber,
+        previousStatus: existing.status,
+        newStatus: 'APPROVED',
+        reviewNotes: notes,
+        stepOrder: currentStep?.stepOrder,
+        onBehalfOfId: permission.onBehalfOfId,
+        budget: getBudgetActivityPayload(budgetCheck),
+      }
+    );
+
+    // Send email notification to requester
+    try {
+      if (existing.requester.email) {
+        const emailContent = purchaseRequestStatusEmail({
+          referenceNumber: purchaseRequest.referenceNumber,
+          userName: existing.requester.name || existing.requester.email,
+          title: purchaseRequest.title,
+          previousStatus: getStatusLabel(existing.status),
+          newStatus: getStatusLabel('APPROVED'),
+          reviewNotes: notes || undefined,
+          reviewerName: session.user.name || session.user.email,
+        });
+
+        await sendEmail({
+          to: existing.requester.email,
+          subject: emailContent.subject,
+          html: emailContent.html,
+          text: emailContent.text,
+        });
+      }
+    } catch (emailError) {
+      console.error('Failed to send status notification email:', emailError);
+      // Don't fail the request if email fails
+    }
+
+    await createNotification(
+      NotificationTemplates.purchaseRequestApproved(
+        existing.requesterId,
+        purchaseRequest.referenceNumber,
+        purchaseRequest.id
+      )
+    );
+
+    return NextResponse.json(purchaseRequest);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'STEP_ALREADY_DECIDED') {
+      return NextResponse.json({
+        error: 'This approval step has already been decided',
+      }, { status: 409 });
+    }
+    if (error instanceof BudgetApprovalError) {
+      return NextResponse.json(error.response.body, { status: error.response.status });
+    }
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+
+    console.error('Purchase request approve error:', error);
+    return NextResponse.json(
+      { error: 'Failed to approve purchase request' },
+      { status: 500 }
+    );
+  }
+}
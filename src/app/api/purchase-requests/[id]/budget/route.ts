@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { checkPurchaseRequestBudget } from '@/lib/domains/projects/budgets/budget-service';
+import { BUDGET_LEDGER_STATUSES } from '@/lib/domains/projects/budgets/budget';
+
+// GET - Budget the purchase request is charged to and the effect of approving it (admin only)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const purchaseRequest = await prisma.purchaseRequest.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        status: true,
+        costType: true,
+        projectId: true,
+        requestDate: true,
+        totalAmount: true,
+        totalAmountQAR: true,
+      },
+    });
+
+    if (!purchaseRequest) {
+      return NextResponse.json({ error: 'Purchase request not found' }, { status: 404 });
+    }
+
+    const budget = await checkPurchaseRequestBudget(purchaseRequest);
+
+    return NextResponse.json({
+      budget,
+      // Approved and completed requests already count against the budget
+      isCounted: BUDGET_LEDGER_STATUSES.includes(purchaseRequest.status),
+    });
+  } catch (error) {
+    console.error('Purchase request budget GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to check purchase request budget' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { createGoodsReceiptSchema } from '@/lib/validations/projects/goods-receipt';
+import { logAction, ActivityActions } from '@/lib/activity';
+import {
+  createGoodsReceipt,
+  getPurchaseRequestReceipts,
+} from '@/lib/domains/projects/goods-receipts/goods-receipt-service';
+import { AppError } from '@/lib/http/errors';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/purchase-requests/[id]/goods-receipts - Goods received for a request
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    return NextResponse.json({ goodsReceipts: await getPurchaseRequestReceipts(id) });
+  } catch (error) {
+    console.error('Goods receipts GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch goods receipts' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/purchase-requests/[id]/goods-receipts - Receive goods, creating assets and subscriptions
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const body = await request.json();
+    const validation = createGoodsReceiptSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const goodsReceipt = await createGoodsReceipt(id, validation.data, { id: session.user.id });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.GOODS_RECEIVED,
+      'GoodsReceipt',
+      goodsReceipt.id,
+      {
+        receiptNumber: goodsReceipt.receiptNumber,
+        purchaseRequestId: id,
+        lines: goodsReceipt.lines.map(line => ({
+          item: line.purchaseRequestItem.itemNumber,
+          quantity: line.quantity,
+          target: line.target,
+        })),
+        assetTags: goodsReceipt.lines.flatMap(line => line.assets.map(asset => asset.assetTag)),
+        subscriptionTags: goodsReceipt.lines.flatMap(line => line.subscriptions.map(s => s.subscriptionTag)),
+      }
+    );
+
+    return NextResponse.json(goodsReceipt, { status: 201 });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('Goods receipt POST error:', error);
+    return NextResponse.json(
+      { error: 'Failed to record goods receipt' },
+      { status: 500 }
+    );
+  }
+}
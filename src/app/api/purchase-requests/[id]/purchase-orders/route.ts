@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { createPurchaseOrderSchema } from '@/lib/validations/projects/purchase-order';
+import { logAction, ActivityActions } from '@/lib/activity';
+import {
+  createPurchaseOrder,
+  getPurchaseRequestOrders,
+} from '@/lib/domains/projects/purchase-orders/purchase-order-service';
+import { AppError } from '@/lib/http/errors';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/purchase-requests/[id]/purchase-orders - Purchase orders issued for a request
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    return NextResponse.json(await getPurchaseRequestOrders(id));
+  } catch (error) {
+    console.error('Purchase request orders GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch purchase orders' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/purchase-requests/[id]/purchase-orders - Issue a purchase order for some of a request's items
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const body = await request.json();
+    const validation = createPurchaseOrderSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const purchaseOrder = await createPurchaseOrder(id, validation.data, { id: session.user.id });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.PURCHASE_ORDER_ISSUED,
+      'PurchaseOrder',
+      purchaseOrder.id,
+      {
+        poNumber: purchaseOrder.poNumber,
+        purchaseRequest: purchaseOrder.purchaseRequest.referenceNumber,
+        supplier: purchaseOrder.supplier.name,
+        lines: purchaseOrder.lines.length,
+        totalAmount: purchaseOrder.totalAmount,
+        currency: purchaseOrder.currency,
+      }
+    );
+
+    return NextResponse.json(purchaseOrder, { status: 201 });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('Purchase order POST error:', error);
+    return NextResponse.json(
+      { error: 'Failed to issue purchase order' },
+      { status: 500 }
+    );
+  }
+}
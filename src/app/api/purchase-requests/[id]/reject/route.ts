@@ -0,0 +1,206 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { rejectPurchaseRequestSchema } from '@/lib/validations/purchase-request';
+import { logAction, ActivityActions } from '@/lib/activity';
+import { getStatusLabel } from '@/lib/purchase-request-utils';
+import { sendEmail } from '@/lib/email';
+import { purchaseRequestStatusEmail } from '@/lib/email-templates';
+import { createNotification, NotificationTemplates } from '@/lib/domains/system/notifications';
+import { getApprovalPermission } from '@/lib/domains/hr/leave/approval-service';
+import { APPROVAL_CHAIN_OPEN_STATUSES } from '@/lib/domains/projects/purchase-requests/approval-service';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Reject a purchase request at the current step of its approval chain
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const body = await request.json();
+    const validation = rejectPurchaseRequestSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const { reason } = validation.data;
+
+    const existing = await prisma.purchaseRequest.findUnique({
+      where: { id },
+      include: {
+        requester: {
+          select: { id: true, name: true, email: true },
+        },
+        approvals: {
+          include: {
+            approver: { select: { id: true, name: true } },
+          },
+          orderBy: { stepOrder: 'asc' },
+        },
+      },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Purchase request not found' }, { status: 404 });
+    }
+
+    if (!APPROVAL_CHAIN_OPEN_STATUSES.includes(existing.status)) {
+      return NextResponse.json({
+        error: 'Only pending requests can be rejected',
+      }, { status: 400 });
+    }
+
+    // Any approver in the chain can reject at their step
+    const permission = await getApprovalPermission(existing.approvals, {
+      id: session.user.id,
+      role: session.user.role,
+    });
+
+    if (!permission.allowed) {
+      if (!permission.step && existing.approvals.length === 0) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      }
+      return NextResponse.json({
+        error: permission.step
+          ? `You are not the approver for the current step (${permission.step.name})`
+          : 'This request has no pending approval step',
+      }, { status: 403 });
+    }
+
+    const currentStep = permission.step;
+    const onBehalfOf = existing.approvals.find(step => step.approverId === permission.onBehalfOfId)?.approver;
+    const now = new Date();
+
+    const purchaseRequest = await prisma.$transaction(async (tx) => {
+      if (currentStep) {
+        const stepUpdate = await tx.purchaseRequestApproval.updateMany({
+          where: { purchaseRequestId: id, stepOrder: currentStep.stepOrder, status: 'PENDING' },
+          data: {
+            status: 'REJECTED',
+            actedById: session.user.id,
+            delegatedFromId: permission.onBehalfOfId,
+            actedAt: now,
+            notes: reason,
+          },
+        });
+        if (stepUpdate.count === 0) {
+          throw new Error('STEP_ALREADY_DECIDED');
+        }
+
+        // Later steps will never be reached
+        await tx.purchaseRequestApproval.updateMany({
+          where: { purchaseRequestId: id, status: 'PENDING' },
+          data: { status: 'SKIPPED' },
+        });
+      }
+
+      const updated = await tx.purchaseRequest.update({
+        where: { id },
+        data: {
+          status: 'REJECTED',
+          reviewedById: session.user.id,
+          reviewedAt: now,
+          reviewNotes: reason,
+          currentApprovalStep: null,
+        },
+      });
+
+      await tx.purchaseRequestHistory.create({
+        data: {
+          purchaseRequestId: id,
+          action: 'STATUS_CHANGED',
+          previousStatus: existing.status,
+          newStatus: 'REJECTED',
+          approvalStep: currentStep?.stepOrder,
+          performedById: session.user.id,
+          details: [
+            currentStep
+              ? `Rejected at ${currentStep.name}${onBehalfOf ? ` on behalf of ${onBehalfOf.name}` : ''}`
+              : null,
+            reason,
+          ].filter(Boolean).join('. '),
+        },
+      });
+
+      return updated;
+    });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.PURCHASE_REQUEST_REJECTED,
+      'PurchaseRequest',
+      purchaseRequest.id,
+      {
+        referenceNumber: purchaseRequest.referenceNumber,
+        previousStatus: existing.status,
+        newStatus: 'REJECTED',
+        reviewNotes: reason,
+        step: currentStep?.name,
+        stepOrder: currentStep?.stepOrder,
+        onBehalfOfId: permission.onBehalfOfId,
+      }
+    );
+
+    // Send email notification to requester
+    try {
+      if (existing.requester.email) {
+        const emailContent = purchaseRequestStatusEmail({
+          referenceNumber: purchaseRequest.referenceNumber,
+          userName: existing.requester.name || existing.requester.email,
+          title: purchaseRequest.title,
+          previousStatus: getStatusLabel(existing.status),
+          newStatus: getStatusLabel('REJECTED'),
+          reviewNotes: reason,
+          reviewerName: session.user.name || session.user.email,
+        });
+
+        await sendEmail({
+          to: existing.requester.email,
+          subject: emailContent.subject,
+          html: emailContent.html,
+          text: emailContent.text,
+        });
+      }
+    } catch (emailError) {
+      console.error('Failed to send status notification email:', emailError);
+      // Don't fail the request if email fails
+    }
+
+    await createNotification(
+      NotificationTemplates.purchaseRequestRejected(
+        existing.requesterId,
+        purchaseRequest.referenceNumber,
+        reason,
+        purchaseRequest.id
+      )
+    );
+
+    return NextResponse.json(purchaseRequest);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'STEP_ALREADY_DECIDED') {
+      return NextResponse.json({
+        error: 'This approval step has already been decided',
+      }, { status: 409 });
+    }
+
+    console.error('Purchase request reject error:', error);
+    return NextResponse.json(
+      { error: 'Failed to reject purchase request' },
+      { status: 500 }
+    );
+  }
+}
@@ -6,6 +6,11 @@ import { prisma } from '@/lib/prisma';
 import { updatePurchaseRequestSchema } from '@/lib/validations/purchase-request';
 import { logAction, ActivityActions } from '@/lib/activity';
 import { USD_TO_QAR_RATE } from '@/lib/constants';
+import {
+  isPurchaseRequestApprover,
+  notifyPurchaseStepApprovers,
+  resetPurchaseApprovalChain,
+} from '@/lib/domains/projects/purchase-requests/approval-service';
 
 // GET - Get single purchase request
 export async function GET(
@@ -40,6 +45,21 @@ export async function GET(
         items: {
           orderBy: { itemNumber: 'asc' },
         },
+        project: {
+          select: {
+            id: true,
+            code: true,
+            name: true,
+          },
+        },
+        approvals: {
+          include: {
+            approver: { select: { id: true, name: true, email: true } },
+            actedBy: { select: { id: true, name: true } },
+            delegatedFrom: { select: { id: true, name: true } },
+          },
+          orderBy: { stepOrder: 'asc' },
+        },
         history: {
           include: {
             performedBy: {
@@ -59,8 +79,12 @@ export async function GET(
       return NextResponse.json({ error: 'Purchase request not found' }, { status: 404 });
     }
 
-    // Non-admin users can only view their own requests
-    if (session.user.role !== Role.ADMIN && purchaseRequest.requesterId !== session.user.id) {
+    // Non-admin users can only view their own requests and those they approve
+    if (
+      session.user.role !== Role.ADMIN &&
+      purchaseRequest.requesterId !== session.user.id &&
+      !(await isPurchaseRequestApprover(purchaseRequest.approvals, { id: session.user.id, role: session.user.role }))
+    ) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
@@ -207,6 +231,18 @@ export async function PUT(
     if (data.purchaseType !== undefined) updateData.purchaseType = data.purchaseType;
     if (data.costType !== undefined) updateData.costType = data.costType;
     if (data.projectName !== undefined) updateData.projectName = data.projectName;
+    if (data.projectId !== undefined) {
+      const project = data.projectId
+        ? await prisma.project.findUnique({ where: { id: data.projectId }, select: { id: true, name: true } })
+        : null;
+      if (data.projectId && !project) {
+        return NextResponse.json({ error: 'Project not found' }, { status: 400 });
+      }
+      updateData.projectId = project?.id ?? null;
+      if (project) updateData.projectName = project.name;
+    }
+    // Operating costs are not charged to a project budget
+    if (data.costType === 'OPERATING_COST') updateData.projectId = null;
     if (data.paymentMode !== undefined) updateData.paymentMode = data.paymentMode;
 
     // Vendor details
@@ -226,8 +262,13 @@ export async function PUT(
       updateData.currency = data.items![0]?.currency || 'QAR';
     }
 
+    // A new amount or type may fall under a different approval rule
+    const restartsApprovalChain = !!itemsData || (
+      data.purchaseType !== undefined && data.purchaseType !== currentRequest.purchaseType
+    );
+
     // Update purchase request
-    const purchaseRequest = await prisma.$transaction(async (tx) => {
+    const { purchaseRequest, approvalSteps } = await prisma.$transaction(async (tx) => {
       // If items are being updated, delete old ones and create new ones
       if (itemsData) {
         await tx.purchaseRequestItem.deleteMany({
@@ -260,17 +301,19 @@ export async function PUT(
         },
       });
 
+      const approvalSteps = restartsApprovalChain ? await resetPurchaseApprovalChain(tx, updated) : [];
+
       // Create history entry
       await tx.purchaseRequestHistory.create({
         data: {
           purchaseRequestId: id,
           action: 'UPDATED',
           performedById: session.user.id,
-          details: 'Request updated',
+          details: restartsApprovalChain ? 'Request updated. Approval chain restarted' : 'Request updated',
         },
       });
 
-      return updated;
+      return { purchaseRequest: updated, approvalSteps };
     });
 
     // Log activity
@@ -285,6 +328,16 @@ export async function PUT(
       }
     );
 
+    const firstStep = approvalSteps[0];
+    if (firstStep?.approverType === 'USER') {
+      await notifyPurchaseStepApprovers(firstStep, {
+        id: purchaseRequest.id,
+        referenceNumber: purchaseRequest.referenceNumber,
+        title: purchaseRequest.title,
+        requesterName: purchaseRequest.requester.name || purchaseRequest.requester.email,
+      });
+    }
+
     return NextResponse.json(purchaseRequest);
   } catch (error) {
     console.error('Purchase request PUT error:', error);
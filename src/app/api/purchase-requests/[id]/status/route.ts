@@ -9,6 +9,21 @@ import { getAllowedStatusTransitions, getStatusLabel } from '@/lib/purchase-requ
 import { sendEmail } from '@/lib/email';
 import { purchaseRequestStatusEmail } from '@/lib/email-templates';
 import { createNotification, NotificationTemplates } from '@/lib/domains/system/notifications';
+import {
+  BudgetApprovalError,
+  getBudgetActivityPayload,
+  getBudgetApprovalError,
+  getOverBudgetNote,
+  lockAndCheckPurchaseRequestBudget,
+} from '@/lib/domains/projects/budgets/budget-service';
+import {
+  APPROVAL_CHAIN_OPEN_STATUSES,
+  notifyPurchaseStepApprovers,
+  resetPurchaseApprovalChain,
+  skipOpenApprovalSteps,
+} from '@/lib/domains/projects/purchase-requests/approval-service';
+import { OPEN_PURCHASE_ORDER_STATUSES } from '@/lib/domains/projects/purchase-orders/purchase-order';
+import { AppError, ConflictError } from '@/lib/http/errors';
 
 // PATCH - Update purchase request status (admin only)
 export async function PATCH(
@@ -34,6 +49,13 @@ export async function PATCH(
             email: true,
           },
         },
+        approvals: {
+          orderBy: { stepOrder: 'asc' },
+        },
+        purchaseOrders: {
+          where: { status: { in: OPEN_PURCHASE_ORDER_STATUSES } },
+          select: { poNumber: true },
+        },
       },
     });
 
@@ -52,10 +74,25 @@ export async function PATCH(
       }, { status: 400 });
     }
 
-    const { status, reviewNotes, completionNotes } = validation.data;
+    const { status, reviewNotes, completionNotes, acknowledgeOverBudget } = validation.data;
+
+    if (status === 'APPROVED' && currentRequest.requesterId === session.user.id) {
+      return NextResponse.json({
+        error: 'You cannot approve your own purchase request',
+      }, { status: 403 });
+    }
+
+    // Requests with an open approval chain are approved step by step
+    const hasPendingApprovalChain = APPROVAL_CHAIN_OPEN_STATUSES.includes(currentRequest.status)
+      && currentRequest.approvals.some(step => step.status === 'PENDING');
+    if (status === 'APPROVED' && hasPendingApprovalChain) {
+      return NextResponse.json({
+        error: 'This request follows an approval chain. Approve it at its current step.',
+      }, { status: 400 });
+    }
 
     // Validate status transition
-    const allowedTransitions = getAllowedStatusTransitions(currentRequest.status);
+    const allowedTransitions = getAllowedStatusTransitions(currentRequest.status, { hasPendingApprovalChain });
     if (!allowedTransitions.includes(status)) {
       return NextResponse.json({
         error: `Cannot transition from ${currentRequest.status} to ${status}`,
@@ -63,6 +100,17 @@ export async function PATCH(
       }, { status: 400 });
     }
 
+    // Orders already sent to suppliers have to be cancelled before the request is rejected
+    const openOrders = currentRequest.purchaseOrders.map(order => order.poNumber);
+    if (status === 'REJECTED' && openOrders.length > 0) {
+      return NextResponse.json({
+        error: `Cancel purchase order${openOrders.length === 1 ? '' : 's'} ${openOrders.join(', ')} before rejecting this request`,
+      }, { status: 400 });
+    }
+
+    // Reopening a rejected request starts its approval chain again
+    const isReopening = currentRequest.status === 'REJECTED' && APPROVAL_CHAIN_OPEN_STATUSES.includes(status);
+
     // Build update data
     const updateData: any = {
       status,
@@ -82,10 +130,32 @@ export async function PATCH(
     }
 
     // Update the request
-    const purchaseRequest = await prisma.$transaction(async (tx) => {
-      const updated = await tx.purchaseRequest.update({
-        where: { id },
+    const { purchaseRequest, restartedChain, budgetCheck } = await prisma.$transaction(async (tx) => {
+      // Approving commits the request against its project or operating budget
+      const budgetCheck = status === 'APPROVED'
+        ? await lockAndCheckPurchaseRequestBudget(tx, currentRequest)
+        : null;
+      const budgetError = getBudgetApprovalError(budgetCheck, acknowledgeOverBudget);
+      if (budgetError) {
+        throw new BudgetApprovalError(budgetError);
+      }
+
+      // The transition was checked against the status read above
+      const { count } = await tx.purchaseRequest.updateMany({
+        where: { id, status: currentRequest.status },
         data: updateData,
+      });
+      if (count === 0) {
+        throw new ConflictError('This request has just been updated by someone else');
+      }
+
+      if (status === 'REJECTED') {
+        await skipOpenApprovalSteps(tx, id);
+      }
+      const restartedChain = isReopening ? await resetPurchaseApprovalChain(tx, currentRequest) : [];
+
+      const updated = await tx.purchaseRequest.findUniqueOrThrow({
+        where: { id },
         include: {
           requester: {
             select: {
@@ -115,13 +185,26 @@ export async function PATCH(
           previousStatus: currentRequest.status,
           newStatus: status,
           performedById: session.user.id,
-          details: reviewNotes || `Status changed to ${getStatusLabel(status)}`,
+          details: [reviewNotes || `Status changed to ${getStatusLabel(status)}`, getOverBudgetNote(budgetCheck)]
+            .filter(Boolean)
+            .join('. '),
         },
       });
 
-      return updated;
+      return { purchaseRequest: updated, restartedChain, budgetCheck };
     });
 
+    // Admins handle the request here; a restarted chain may start with someone else
+    const firstStep = restartedChain[0];
+    if (firstStep?.approverType === 'USER') {
+      await notifyPurchaseStepApprovers(firstStep, {
+        id: purchaseRequest.id,
+        referenceNumber: purchaseRequest.referenceNumber,
+        title: purchaseRequest.title,
+        requesterName: currentRequest.requester.name || currentRequest.requester.email,
+      });
+    }
+
     // Determine activity action based on new status
     let activityAction: string = ActivityActions.PURCHASE_REQUEST_STATUS_CHANGED;
     if (status === 'APPROVED') {
@@ -143,6 +226,7 @@ export async function PATCH(
         previousStatus: currentRequest.status,
         newStatus: status,
         reviewNotes,
+        budget: getBudgetActivityPayload(budgetCheck),
       }
     );
 
@@ -193,6 +277,12 @@ export async function PATCH(
 
     return NextResponse.json(purchaseRequest);
   } catch (error) {
+    if (error instanceof BudgetApprovalError) {
+      return NextResponse.json(error.response.body, { status: error.response.status });
+    }
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
     console.error('Purchase request status PATCH error:', error);
     return NextResponse.json(
       { error: 'Failed to update purchase request status' },
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { createSupplierInvoiceSchema } from '@/lib/validations/projects/supplier-invoice';
+import { logAction, ActivityActions } from '@/lib/activity';
+import {
+  createSupplierInvoice,
+  getSupplierInvoices,
+} from '@/lib/domains/projects/supplier-invoices/supplier-invoice-service';
+import { AppError } from '@/lib/http/errors';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/purchase-requests/[id]/supplier-invoices - Supplier invoices captured for a request
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    return NextResponse.json({ supplierInvoices: await getSupplierInvoices({ purchaseRequestId: id }) });
+  } catch (error) {
+    console.error('Supplier invoices GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch supplier invoices' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/purchase-requests/[id]/supplier-invoices - Capture a supplier invoice and match it
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const body = await request.json();
+    const validation = createSupplierInvoiceSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const supplierInvoice = await createSupplierInvoice(id, validation.data, { id: session.user.id });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.SUPPLIER_INVOICE_CAPTURED,
+      'SupplierInvoice',
+      supplierInvoice.id,
+      {
+        invoiceNumber: supplierInvoice.invoiceNumber,
+        supplier: supplierInvoice.supplier.name,
+        purchaseRequest: supplierInvoice.purchaseRequest.referenceNumber,
+        purchaseOrder: supplierInvoice.purchaseOrder?.poNumber,
+        totalAmount: supplierInvoice.totalAmount,
+        currency: supplierInvoice.currency,
+        hasVariance: supplierInvoice.match.hasVariance,
+      }
+    );
+
+    return NextResponse.json(supplierInvoice, { status: 201 });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('Supplier invoice POST error:', error);
+    return NextResponse.json(
+      { error: 'Failed to capture supplier invoice' },
+      { status: 500 }
+    );
+  }
+}
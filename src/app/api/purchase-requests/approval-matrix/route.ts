@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { updatePurchaseApprovalMatrixSchema } from '@/lib/validations/purchase-request';
+import { logAction, ActivityActions } from '@/lib/activity';
+import { getPurchaseApprovalRules } from '@/lib/domains/projects/purchase-requests/approval-service';
+
+function serializeRules(rules: Awaited<ReturnType<typeof getPurchaseApprovalRules>>) {
+  return rules.map(rule => ({
+    ...rule,
+    minAmountQAR: rule.minAmountQAR !== null ? Number(rule.minAmountQAR) : null,
+  }));
+}
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const rules = await getPurchaseApprovalRules();
+
+    return NextResponse.json({ rules: serializeRules(rules) });
+  } catch (error) {
+    console.error('Purchase approval matrix GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch approval matrix' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Replace the whole matrix. Requests already submitted keep the chain they
+ * were created with.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = updatePurchaseApprovalMatrixSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const { rules } = validation.data;
+
+    // Validate approvers exist
+    const approverIds = Array.from(new Set(
+      rules.flatMap(rule => rule.steps.filter(s => s.approverType === 'USER').map(s => s.approverId!))
+    ));
+    if (approverIds.length > 0) {
+      const approvers = await prisma.user.count({
+        where: { id: { in: approverIds } },
+      });
+      if (approvers !== approverIds.length) {
+        return NextResponse.json({ error: 'One or more approvers were not found' }, { status: 400 });
+      }
+    }
+
+    const savedRules = await prisma.$transaction(async (tx) => {
+      await tx.purchaseApprovalRule.deleteMany({});
+
+      for (const [index, rule] of rules.entries()) {
+        await tx.purchaseApprovalRule.create({
+          data: {
+            ruleOrder: index + 1,
+            name: rule.name,
+            minAmountQAR: rule.minAmountQAR ?? null,
+            purchaseTypes: rule.purchaseTypes,
+            steps: {
+              create: rule.steps.map((step, stepIndex) => ({
+                stepOrder: stepIndex + 1,
+                name: step.name,
+                approverType: step.approverType,
+                approverId: step.approverType === 'USER' ? step.approverId : null,
+              })),
+            },
+          },
+        });
+      }
+
+      return getPurchaseApprovalRules(tx);
+    });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.PURCHASE_APPROVAL_MATRIX_UPDATED,
+      'PurchaseApprovalRule',
+      undefined,
+      {
+        rules: savedRules.map(rule => ({
+          name: rule.name,
+          steps: rule.steps.map(step => step.name),
+        })),
+      }
+    );
+
+    return NextResponse.json({ rules: serializeRules(savedRules) });
+  } catch (error) {
+    console.error('Purchase approval matrix PUT error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update approval matrix' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { logAction, ActivityActions } from '@/lib/activity';
+import { sendStalledApprovalReminders } from '@/lib/domains/projects/purchase-requests/approval-service';
+import { PURCHASE_APPROVAL_REMINDER_DAYS } from '@/lib/domains/projects/purchase-requests/approval-matrix';
+
+// GET - Remind approvers of purchase request steps stalled for too long (daily cron or admin)
+export async function GET(request: NextRequest) {
+  // Check if it's a cron job or admin user
+  const authHeader = request.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+  const isCronJob = cronSecret && authHeader === `Bearer ${cronSecret}`;
+
+  let actorId: string | null = null;
+  if (!isCronJob) {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    actorId = session.user.id;
+  }
+
+  try {
+    const reminded = await sendStalledApprovalReminders();
+
+    if (reminded > 0) {
+      await logAction(
+        actorId,
+        ActivityActions.PURCHASE_APPROVAL_REMINDERS_SENT,
+        'PurchaseRequest',
+        undefined,
+        { reminded, reminderDays: PURCHASE_APPROVAL_REMINDER_DAYS }
+      );
+    }
+
+    return NextResponse.json({ reminded, reminderDays: PURCHASE_APPROVAL_REMINDER_DAYS });
+  } catch (error) {
+    console.error('Purchase approval reminders error:', error);
+    return NextResponse.json(
+      { error: 'Failed to send approval reminders' },
+      { status: 500 }
+    );
+  }
+}
@@ -10,6 +10,10 @@ import { USD_TO_QAR_RATE } from '@/lib/constants';
 import { sendEmail } from '@/lib/email';
 import { purchaseRequestSubmittedEmail } from '@/lib/email-templates';
 import { createBulkNotifications, NotificationTemplates } from '@/lib/domains/system/notifications';
+import {
+  createPurchaseApprovalChain,
+  notifyPurchaseStepApprovers,
+} from '@/lib/domains/projects/purchase-requests/approval-service';
 
 // GET - List purchase requests
 export async function GET(request: NextRequest) {
@@ -122,8 +126,16 @@ export async function POST(request: NextRequest) {
 
     const data = validation.data;
 
+    // Project costs are charged to the linked project's budget
+    const project = data.costType === 'PROJECT_COST' && data.projectId
+      ? await prisma.project.findUnique({ where: { id: data.projectId }, select: { id: true, name: true } })
+      : null;
+    if (data.costType === 'PROJECT_COST' && data.projectId && !project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 400 });
+    }
+
     // Generate reference number
-    const referenceNumber = await generatePurchaseRequestNumber(prisma);
+    const referenceNumber = await generatePurchaseRequestNumber();
 
     // Calculate totals
     let totalAmount = 0;
@@ -206,56 +218,62 @@ export async function POST(request: NextRequest) {
       };
     });
 
-    // Create purchase request with items
-    const purchaseRequest = await prisma.purchaseRequest.create({
-      data: {
-        referenceNumber,
-        requesterId: session.user.id,
-        title: data.title,
-        description: data.description || null,
-        justification: data.justification || null,
-        priority: data.priority,
-        neededByDate: data.neededByDate ? new Date(data.neededByDate) : null,
-        // New fields from prototype
-        purchaseType: data.purchaseType,
-        costType: data.costType,
-        projectName: data.projectName || null,
-        paymentMode: data.paymentMode,
-        // Vendor details
-        vendorName: data.vendorName || null,
-        vendorContact: data.vendorContact || null,
-        vendorEmail: data.vendorEmail || null,
-        // Additional notes
-        additionalNotes: data.additionalNotes || null,
-        // Totals
-        totalAmount,
-        currency: formCurrency,
-        totalAmountQAR,
-        totalOneTime: totalOneTime > 0 ? totalOneTime : null,
-        totalMonthly: totalMonthly > 0 ? totalMonthly : null,
-        totalContractValue: totalContractValue > 0 ? totalContractValue : null,
-        items: {
-          create: itemsWithCalculations,
-        },
-        history: {
-          create: {
-            action: 'CREATED',
-            newStatus: 'PENDING',
-            performedById: session.user.id,
-            details: `Request created with ${data.items.length} item(s)`,
+    // Create purchase request with items and its approval chain from the matrix
+    const { purchaseRequest, approvalSteps } = await prisma.$transaction(async (tx) => {
+      const created = await tx.purchaseRequest.create({
+        data: {
+          referenceNumber,
+          requesterId: session.user.id,
+          title: data.title,
+          description: data.description || null,
+          justification: data.justification || null,
+          priority: data.priority,
+          neededByDate: data.neededByDate ? new Date(data.neededByDate) : null,
+          // New fields from prototype
+          purchaseType: data.purchaseType,
+          costType: data.costType,
+          projectId: project?.id ?? null,
+          projectName: project?.name ?? (data.projectName || null),
+          paymentMode: data.paymentMode,
+          // Vendor details
+          vendorName: data.vendorName || null,
+          vendorContact: data.vendorContact || null,
+          vendorEmail: data.vendorEmail || null,
+          // Additional notes
+          additionalNotes: data.additionalNotes || null,
+          // Totals
+          totalAmount,
+          currency: formCurrency,
+          totalAmountQAR,
+          totalOneTime: totalOneTime > 0 ? totalOneTime : null,
+          totalMonthly: totalMonthly > 0 ? totalMonthly : null,
+          totalContractValue: totalContractValue > 0 ? totalContractValue : null,
+          items: {
+            create: itemsWithCalculations,
+          },
+          history: {
+            create: {
+              action: 'CREATED',
+              newStatus: 'PENDING',
+              performedById: session.user.id,
+              details: `Request created with ${data.items.length} item(s)`,
+            },
           },
         },
-      },
-      include: {
-        requester: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
+        include: {
+          requester: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
           },
+          items: true,
         },
-        items: true,
-      },
+      });
+
+      const approvalSteps = await createPurchaseApprovalChain(tx, created);
+      return { purchaseRequest: created, approvalSteps };
     });
 
     // Log activity
@@ -270,6 +288,7 @@ export async function POST(request: NextRequest) {
         itemCount: data.items.length,
         totalAmount,
         currency: purchaseRequest.currency,
+        approvalSteps: approvalSteps.map(step => step.name),
       }
     );
 
@@ -316,6 +335,17 @@ export async function POST(request: NextRequest) {
       // Don't fail the request if email fails
     }
 
+    // Admins are notified above; a chain may start with someone else
+    const firstStep = approvalSteps[0];
+    if (firstStep?.approverType === 'USER') {
+      await notifyPurchaseStepApprovers(firstStep, {
+        id: purchaseRequest.id,
+        referenceNumber,
+        title: data.title,
+        requesterName: session.user.name || session.user.email || 'User',
+      });
+    }
+
     return NextResponse.json(purchaseRequest, { status: 201 });
   } catch (error) {
     console.error('Purchase request POST error:', error);
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { Role } from '@prisma/client';
+import { invoiceMatchToleranceSchema } from '@/lib/validations/projects/supplier-invoice';
+import { logAction, ActivityActions } from '@/lib/activity';
+import {
+  INVOICE_MATCH_TOLERANCE_KEY,
+  getInvoiceMatchTolerance,
+} from '@/lib/domains/projects/supplier-invoices/supplier-invoice-service';
+
+// GET /api/settings/invoice-matching - Three-way match tolerance for supplier invoices
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const setting = await prisma.systemSettings.findUnique({
+      where: { key: INVOICE_MATCH_TOLERANCE_KEY },
+      include: { updater: { select: { name: true, email: true } } },
+    });
+
+    return NextResponse.json({
+      tolerancePercent: await getInvoiceMatchTolerance(),
+      lastUpdated: setting?.updatedAt || null,
+      updatedBy: setting?.updater?.name || setting?.updater?.email || null,
+    });
+  } catch (error) {
+    console.error('Get invoice matching settings error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get invoice matching settings' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/settings/invoice-matching - Set the three-way match tolerance
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = invoiceMatchToleranceSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const previousTolerance = await getInvoiceMatchTolerance();
+    const value = validation.data.tolerancePercent.toString();
+
+    const setting = await prisma.systemSettings.upsert({
+      where: { key: INVOICE_MATCH_TOLERANCE_KEY },
+      create: {
+        key: INVOICE_MATCH_TOLERANCE_KEY,
+        value,
+        updatedBy: session.user.id,
+      },
+      update: {
+        value,
+        updatedBy: session.user.id,
+      },
+      include: {
+        updater: {
+          select: { name: true, email: true },
+        },
+      },
+    });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.INVOICE_MATCH_TOLERANCE_UPDATED,
+      'SystemSettings',
+      setting.id,
+      {
+        previousTolerance,
+        tolerancePercent: validation.data.tolerancePercent,
+      }
+    );
+
+    return NextResponse.json({
+      tolerancePercent: parseFloat(setting.value),
+      lastUpdated: setting.updatedAt,
+      updatedBy: setting.updater?.name || setting.updater?.email,
+    });
+  } catch (error) {
+    console.error('Update invoice matching settings error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update invoice matching settings' },
+      { status: 500 }
+    );
+  }
+}
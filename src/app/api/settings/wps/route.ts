@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { getWpsSettings, WPS_SETTINGS_KEY } from '@/lib/payroll/wps-service';
+import { getBankCode, QATAR_BANK_CODES, STANDARD_SIF_VARIANT, validateWPSHeader } from '@/lib/payroll/wps';
+import { wpsSettingsSchema } from '@/lib/validations/hr/payroll';
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const settings = await getWpsSettings();
+
+    return NextResponse.json({
+      settings,
+      bankCodes: Array.from(new Set(Object.values(QATAR_BANK_CODES))).sort(),
+      defaultDeductionReasonCodes: STANDARD_SIF_VARIANT.deductionReasonCodes,
+      errors: validateWPSHeader(settings),
+    });
+  } catch (error) {
+    console.error('WPS settings GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch WPS settings' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = wpsSettingsSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const settings = {
+      ...validation.data,
+      payerBankShortName: getBankCode(validation.data.payerBankShortName) || validation.data.payerBankShortName,
+      payerIban: validation.data.payerIban.replace(/\s/g, '').toUpperCase(),
+    };
+
+    const errors = validateWPSHeader(settings);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors[0], errors }, { status: 400 });
+    }
+
+    // Upsert the setting
+    await prisma.systemSettings.upsert({
+      where: { key: WPS_SETTINGS_KEY },
+      update: {
+        value: JSON.stringify(settings),
+        updatedBy: session.user.id,
+      },
+      create: {
+        key: WPS_SETTINGS_KEY,
+        value: JSON.stringify(settings),
+        updatedBy: session.user.id,
+      },
+    });
+
+    return NextResponse.json({ success: true, settings });
+  } catch (error) {
+    console.error('WPS settings POST error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save WPS settings' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { getSupplierInvoice } from '@/lib/domains/projects/supplier-invoices/supplier-invoice-service';
+import { AppError } from '@/lib/http/errors';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/supplier-invoices/[id] - Supplier invoice with its three-way match
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    return NextResponse.json(await getSupplierInvoice(id));
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('Supplier invoice GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch supplier invoice' },
+      { status: 500 }
+    );
+  }
+}
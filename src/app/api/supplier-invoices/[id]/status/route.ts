@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { updateSupplierInvoiceStatusSchema } from '@/lib/validations/projects/supplier-invoice';
+import { logAction, ActivityActions } from '@/lib/activity';
+import {
+  SupplierInvoiceVarianceError,
+  approveSupplierInvoice,
+  cancelSupplierInvoice,
+  paySupplierInvoice,
+} from '@/lib/domains/projects/supplier-invoices/supplier-invoice-service';
+import { AppError } from '@/lib/http/errors';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+const STATUS_ACTIONS = {
+  APPROVED: ActivityActions.SUPPLIER_INVOICE_APPROVED,
+  PAID: ActivityActions.SUPPLIER_INVOICE_PAID,
+  CANCELLED: ActivityActions.SUPPLIER_INVOICE_CANCELLED,
+} as const;
+
+// PATCH /api/supplier-invoices/[id]/status - Approve an invoice for payment, mark it paid or cancel it
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const body = await request.json();
+    const validation = updateSupplierInvoiceStatusSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const input = validation.data;
+    const supplierInvoice = input.status === 'APPROVED'
+      ? await approveSupplierInvoice(id, session.user.id, input.acknowledgeVariance)
+      : input.status === 'PAID'
+        ? await paySupplierInvoice(id, input.paidAt, input.paymentReference)
+        : await cancelSupplierInvoice(id, input.reason);
+
+    await logAction(
+      session.user.id,
+      STATUS_ACTIONS[input.status],
+      'SupplierInvoice',
+      supplierInvoice.id,
+      {
+        invoiceNumber: supplierInvoice.invoiceNumber,
+        supplier: supplierInvoice.supplier.name,
+        purchaseRequest: supplierInvoice.purchaseRequest.referenceNumber,
+        varianceAcknowledged: supplierInvoice.varianceAcknowledged,
+        paymentReference: supplierInvoice.paymentReference,
+        reason: supplierInvoice.cancellationReason,
+      }
+    );
+
+    return NextResponse.json(supplierInvoice);
+  } catch (error) {
+    if (error instanceof SupplierInvoiceVarianceError) {
+      return NextResponse.json(
+        { error: error.message, match: error.match, requiresAcknowledgement: true },
+        { status: 409 }
+      );
+    }
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('Supplier invoice status error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update supplier invoice' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { getPayablesAging } from '@/lib/domains/projects/supplier-invoices/supplier-invoice-service';
+
+// GET /api/supplier-invoices/aging - Unpaid supplier invoices by supplier and days overdue
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    return NextResponse.json(await getPayablesAging());
+  } catch (error) {
+    console.error('Payables aging GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch payables aging' },
+      { status: 500 }
+    );
+  }
+}
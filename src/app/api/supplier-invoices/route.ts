@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Prisma, Role } from '@prisma/client';
+import { supplierInvoiceQuerySchema } from '@/lib/validations/projects/supplier-invoice';
+import { getSupplierInvoices } from '@/lib/domains/projects/supplier-invoices/supplier-invoice-service';
+
+// GET /api/supplier-invoices - Supplier invoices, optionally by status, supplier or request
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validation = supplierInvoiceQuerySchema.safeParse(Object.fromEntries(searchParams.entries()));
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid query parameters',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const { status, supplierId, purchaseRequestId } = validation.data;
+    const where: Prisma.SupplierInvoiceWhereInput = {};
+    if (status) where.status = status;
+    if (supplierId) where.supplierId = supplierId;
+    if (purchaseRequestId) where.purchaseRequestId = purchaseRequestId;
+
+    return NextResponse.json({ supplierInvoices: await getSupplierInvoices(where) });
+  } catch (error) {
+    console.error('Supplier invoices GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch supplier invoices' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { getTeamMemberIds } from '@/lib/domains/hr/employees/team-service';
+
+// GET /api/team/assets - Assets held by the signed-in manager's reports
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const memberIds = await getTeamMemberIds(session.user.id, searchParams.get('includeIndirect') === 'true');
+    if (memberIds.length === 0) {
+      return NextResponse.json({ assets: [] });
+    }
+
+    const assets = await prisma.asset.findMany({
+      where: { assignedUserId: { in: memberIds } },
+      select: {
+        id: true,
+        assetTag: true,
+        type: true,
+        brand: true,
+        model: true,
+        status: true,
+        assignedUser: { select: { id: true, name: true, email: true } },
+      },
+      orderBy: [{ assignedUserId: 'asc' }, { type: 'asc' }],
+    });
+
+    return NextResponse.json({ assets });
+  } catch (error) {
+    console.error('Team assets GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch team assets' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { teamLeaveQuerySchema } from '@/lib/validations/hr/organization';
+import { getTeamMemberIds } from '@/lib/domains/hr/employees/team-service';
+
+// GET /api/team/leave - Leave calendar for the signed-in manager's reports
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validation = teamLeaveQuerySchema.safeParse(Object.fromEntries(searchParams.entries()));
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid query parameters',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const { startDate, endDate, includeIndirect } = validation.data;
+    const memberIds = await getTeamMemberIds(session.user.id, includeIndirect === 'true');
+    if (memberIds.length === 0) {
+      return NextResponse.json({ events: [] });
+    }
+
+    const leaveRequests = await prisma.leaveRequest.findMany({
+      where: {
+        userId: { in: memberIds },
+        status: { in: ['APPROVED', 'PENDING'] },
+        startDate: { lte: new Date(endDate) },
+        endDate: { gte: new Date(startDate) },
+      },
+      include: {
+        user: { select: { id: true, name: true, email: true } },
+        leaveType: { select: { id: true, name: true, color: true } },
+      },
+      orderBy: { startDate: 'asc' },
+    });
+
+    const events = leaveRequests.map(request => ({
+      id: request.id,
+      requestNumber: request.requestNumber,
+      userId: request.userId,
+      userName: request.user.name,
+      userEmail: request.user.email,
+      leaveTypeName: request.leaveType.name,
+      color: request.leaveType.color,
+      startDate: request.startDate,
+      endDate: request.endDate,
+      totalDays: request.totalDays,
+      status: request.status,
+    }));
+
+    return NextResponse.json({ events });
+  } catch (error) {
+    console.error('Team leave GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch team leave' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { getTeamMemberIds } from '@/lib/domains/hr/employees/team-service';
+
+// GET /api/team/requests - Open leave, asset and purchase requests raised by the manager's reports
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const memberIds = await getTeamMemberIds(session.user.id, searchParams.get('includeIndirect') === 'true');
+    if (memberIds.length === 0) {
+      return NextResponse.json({ leaveRequests: [], assetRequests: [], purchaseRequests: [] });
+    }
+
+    const userSelect = { select: { id: true, name: true, email: true } };
+
+    const [leaveRequests, assetRequests, purchaseRequests] = await Promise.all([
+      prisma.leaveRequest.findMany({
+        where: { userId: { in: memberIds }, status: 'PENDING' },
+        select: {
+          id: true,
+          requestNumber: true,
+          startDate: true,
+          endDate: true,
+          totalDays: true,
+          currentApprovalStep: true,
+          user: userSelect,
+          leaveType: { select: { name: true, color: true } },
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.assetRequest.findMany({
+        where: {
+          userId: { in: memberIds },
+          status: { in: ['PENDING_ADMIN_APPROVAL', 'PENDING_USER_ACCEPTANCE', 'PENDING_RETURN_APPROVAL'] },
+        },
+        select: {
+          id: true,
+          requestNumber: true,
+          type: true,
+          status: true,
+          createdAt: true,
+          user: userSelect,
+          asset: { select: { id: true, assetTag: true, type: true, model: true } },
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.purchaseRequest.findMany({
+        where: { requesterId: { in: memberIds }, status: { in: ['PENDING', 'UNDER_REVIEW'] } },
+        select: {
+          id: true,
+          referenceNumber: true,
+          title: true,
+          status: true,
+          priority: true,
+          totalAmount: true,
+          currency: true,
+          createdAt: true,
+          requester: userSelect,
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+    ]);
+
+    return NextResponse.json({ leaveRequests, assetRequests, purchaseRequests });
+  } catch (error) {
+    console.error('Team requests GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch team requests' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { getTeamMemberIds } from '@/lib/domains/hr/employees/team-service';
+
+// GET /api/team - The signed-in manager's reports (no admin role needed)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const includeIndirect = searchParams.get('includeIndirect') === 'true';
+
+    const memberIds = await getTeamMemberIds(session.user.id, includeIndirect);
+    if (memberIds.length === 0) {
+      return NextResponse.json({ members: [] });
+    }
+
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    const members = await prisma.user.findMany({
+      where: { id: { in: memberIds } },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        image: true,
+        hrProfile: {
+          select: {
+            employeeId: true,
+            designation: true,
+            photoUrl: true,
+            managerId: true,
+            department: { select: { id: true, name: true } },
+          },
+        },
+        leaveRequests: {
+          where: {
+            status: 'APPROVED',
+            startDate: { lte: today },
+            endDate: { gte: today },
+          },
+          select: {
+            id: true,
+            endDate: true,
+            leaveType: { select: { name: true, color: true } },
+          },
+          take: 1,
+        },
+        _count: {
+          select: { assets: true },
+        },
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json({
+      members: members.map(({ leaveRequests, hrProfile, ...member }) => ({
+        ...member,
+        employeeId: hrProfile?.employeeId ?? null,
+        designation: hrProfile?.designation ?? null,
+        photoUrl: hrProfile?.photoUrl ?? null,
+        department: hrProfile?.department ?? null,
+        isDirectReport: hrProfile?.managerId === session.user.id,
+        onLeave: leaveRequests[0] ?? null,
+      })),
+    });
+  } catch (error) {
+    console.error('Team GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch team' },
+      { status: 500 }
+    );
+  }
+}
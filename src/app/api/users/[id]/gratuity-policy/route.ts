@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { assignGratuityPolicySchema } from '@/lib/validations/payroll';
+import { logAction, ActivityActions } from '@/lib/activity';
+import { selectGratuityPolicy } from '@/lib/payroll/gratuity';
+import { getActiveGratuityPolicies } from '@/lib/payroll/gratuity-service';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// PUT /api/users/[id]/gratuity-policy - Set a user's contract type and gratuity policy (admin only)
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const body = await request.json();
+    const validation = assignGratuityPolicySchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const data = validation.data;
+
+    const user = await prisma.user.findUnique({
+      where: { id },
+      select: { id: true, email: true },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (data.gratuityPolicyId) {
+      const policy = await prisma.gratuityPolicy.findUnique({ where: { id: data.gratuityPolicyId } });
+      if (!policy || !policy.isActive) {
+        return NextResponse.json({ error: 'Gratuity policy not found' }, { status: 400 });
+      }
+    }
+
+    const updateData = {
+      ...(data.contractType !== undefined && { contractType: data.contractType || null }),
+      ...(data.gratuityPolicyId !== undefined && { gratuityPolicyId: data.gratuityPolicyId || null }),
+    };
+
+    const hrProfile = await prisma.hRProfile.upsert({
+      where: { userId: id },
+      update: updateData,
+      create: { userId: id, ...updateData },
+    });
+
+    // The policy that now applies, which may come from the contract type or the default
+    const effectivePolicy = selectGratuityPolicy(hrProfile, await getActiveGratuityPolicies());
+
+    await logAction(
+      session.user.id,
+      ActivityActions.GRATUITY_POLICY_ASSIGNED,
+      'HRProfile',
+      hrProfile.id,
+      {
+        targetUserId: id,
+        targetUserEmail: user.email,
+        contractType: hrProfile.contractType,
+        gratuityPolicyId: hrProfile.gratuityPolicyId,
+        effectivePolicy: effectivePolicy.name,
+      }
+    );
+
+    return NextResponse.json({
+      contractType: hrProfile.contractType,
+      gratuityPolicyId: hrProfile.gratuityPolicyId,
+      effectivePolicy,
+    });
+  } catch (error) {
+    console.error('Gratuity policy assignment PUT error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update gratuity policy' },
+      { status: 500 }
+    );
+  }
+}
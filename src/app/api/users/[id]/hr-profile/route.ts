@@ -3,7 +3,7 @@ import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { logAction, ActivityActions } from '@/lib/activity';
-import { hrProfileSchema } from '@/lib/validations/hr-profile';
+import { hrProfileSchema, omitUnsavedHRProfileFields } from '@/lib/validations/hr-profile';
 import { Role } from '@prisma/client';
 import { reinitializeUserLeaveBalances } from '@/lib/leave-balance-init';
 
@@ -42,8 +42,14 @@ export async function GET(
     }
 
     // Find or create HR profile
+    const reportingLineInclude = {
+      manager: { select: { id: true, name: true, email: true } },
+      department: { select: { id: true, name: true, costCenter: true } },
+    };
+
     let hrProfile = await prisma.hRProfile.findUnique({
       where: { userId: id },
+      include: reportingLineInclude,
     });
 
     // Create empty profile if none exists
@@ -52,6 +58,7 @@ export async function GET(
         data: {
           userId: id,
         },
+        include: reportingLineInclude,
       });
     }
 
@@ -119,14 +126,10 @@ export async function PATCH(
 
     const data = validation.data;
 
-    // Convert date strings to Date objects for Prisma
-    const processedData: Record<string, unknown> = { ...data };
-
     // Remove fields that shouldn't be persisted (passed through from frontend)
-    const fieldsToRemove = ['id', 'userId', 'workEmail', 'isAdmin', 'createdAt', 'updatedAt', 'user'];
-    fieldsToRemove.forEach((field) => {
-      delete processedData[field];
-    });
+    const processedData = omitUnsavedHRProfileFields(data);
+
+    // Convert date strings to Date objects for Prisma
 
     const dateFields = [
       'dateOfBirth',
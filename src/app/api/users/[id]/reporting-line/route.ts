@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { updateReportingLineSchema } from '@/lib/validations/hr/organization';
+import { logAction, ActivityActions } from '@/lib/activity';
+import { wouldCreateCycle } from '@/lib/domains/hr/employees/org-chart';
+import { getReportingLines } from '@/lib/domains/hr/employees/team-service';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// PUT /api/users/[id]/reporting-line - Set a user's manager and department (admin only)
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== Role.ADMIN) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const body = await request.json();
+    const validation = updateReportingLineSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      }, { status: 400 });
+    }
+
+    const data = validation.data;
+
+    const user = await prisma.user.findUnique({
+      where: { id },
+      select: { id: true, email: true },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (data.managerId) {
+      const manager = await prisma.user.findUnique({ where: { id: data.managerId }, select: { id: true } });
+      if (!manager) {
+        return NextResponse.json({ error: 'Manager not found' }, { status: 400 });
+      }
+
+      if (wouldCreateCycle(id, data.managerId, await getReportingLines())) {
+        return NextResponse.json({
+          error: 'This manager already reports to the employee. Reporting lines cannot loop.',
+        }, { status: 400 });
+      }
+    }
+
+    if (data.departmentId) {
+      const department = await prisma.department.findUnique({ where: { id: data.departmentId } });
+      if (!department) {
+        return NextResponse.json({ error: 'Department not found' }, { status: 400 });
+      }
+    }
+
+    const updateData = {
+      ...(data.managerId !== undefined && { managerId: data.managerId || null }),
+      ...(data.departmentId !== undefined && { departmentId: data.departmentId || null }),
+    };
+
+    const hrProfile = await prisma.hRProfile.upsert({
+      where: { userId: id },
+      update: updateData,
+      create: { userId: id, ...updateData },
+      include: {
+        manager: { select: { id: true, name: true, email: true } },
+        department: { select: { id: true, name: true, costCenter: true } },
+      },
+    });
+
+    await logAction(
+      session.user.id,
+      ActivityActions.USER_REPORTING_LINE_UPDATED,
+      'HRProfile',
+      hrProfile.id,
+      {
+        targetUserId: id,
+        targetUserEmail: user.email,
+        managerId: hrProfile.managerId,
+        departmentId: hrProfile.departmentId,
+      }
+    );
+
+    return NextResponse.json({
+      managerId: hrProfile.managerId,
+      departmentId: hrProfile.departmentId,
+      manager: hrProfile.manager,
+      department: hrProfile.department,
+    });
+  } catch (error) {
+    console.error('Reporting line PUT error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update reporting line' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,7 +3,7 @@ import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { logAction, ActivityActions } from '@/lib/activity';
-import { hrProfileSchema, hrProfileEmployeeSchema } from '@/lib/validations/hr-profile';
+import { hrProfileSchema, hrProfileEmployeeSchema, omitUnsavedHRProfileFields } from '@/lib/validations/hr-profile';
 import { withErrorHandler } from '@/lib/http/handler';
 import { Role } from '@prisma/client';
 import { sendEmail } from '@/lib/email';
@@ -82,14 +82,11 @@ async function updateHRProfileHandler(request: NextRequest) {
 
   const data = validation.data;
 
-  // Convert date strings to Date objects for Prisma
-  const processedData: Record<string, unknown> = { ...data };
+  // Remove fields that shouldn't be persisted (passed through from frontend),
+  // including the contract type and gratuity policy only admins set
+  const processedData = omitUnsavedHRProfileFields(data);
 
-  // Remove fields that shouldn't be persisted (passed through from frontend)
-  const fieldsToRemove = ['id', 'userId', 'workEmail', 'isAdmin', 'createdAt', 'updatedAt', 'user'];
-  fieldsToRemove.forEach((field) => {
-    delete processedData[field];
-  });
+  // Convert date strings to Date objects for Prisma
 
   const dateFields = [
     'dateOfBirth',
@@ -114,6 +111,11 @@ async function updateHRProfileHandler(request: NextRequest) {
     delete processedData.employeeId;
   }
 
+  // Critical roles are set by admins for leave coverage rules
+  if (!isAdmin) {
+    delete processedData.isCriticalRole;
+  }
+
   // Check if onboarding is being completed for the first time
   const existingProfile = await prisma.hRProfile.findUnique({
     where: { userId: session.user.id },
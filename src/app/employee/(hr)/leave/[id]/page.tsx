@@ -5,7 +5,7 @@ import { useParams, useRouter } from 'next/navigation';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { ArrowLeft, FileText, Calendar, Clock, Phone, ExternalLink } from 'lucide-react';
+import { ArrowLeft, FileText, Calendar, Clock, Phone, ExternalLink, ListChecks } from 'lucide-react';
 import Link from 'next/link';
 import {
   getLeaveStatusVariant,
@@ -17,6 +17,7 @@ import {
 } from '@/lib/leave-utils';
 import { LeaveRequestHistory } from '@/components/leave/leave-request-history';
 import { CancelLeaveDialog } from '@/components/leave/cancel-leave-dialog';
+import { LeaveApprovalProgress } from '@/components/domains/hr/leave';
 import { LeaveStatus, LeaveRequestType } from '@prisma/client';
 import { CardDescription } from '@/components/ui/card';
 
@@ -65,9 +66,23 @@ interface LeaveRequest {
     name: string | null;
     email: string;
   } | null;
+  currentApprovalStep?: number | null;
+  approvals: Array<{
+    id: string;
+    stepOrder: number;
+    name: string;
+    approverType: string;
+    status: string;
+    actedAt?: string | null;
+    notes?: string | null;
+    approver?: { id: string; name: string | null } | null;
+    actedBy?: { id: string; name: string | null } | null;
+    delegatedFrom?: { id: string; name: string | null } | null;
+  }>;
   history: Array<{
     id: string;
     action: string;
+    approvalStep?: number | null;
     oldStatus?: LeaveStatus | null;
     newStatus?: LeaveStatus | null;
     notes?: string | null;
@@ -365,6 +380,24 @@ export default function EmployeeLeaveRequestDetailPage() {
           </Card>
         )}
 
+        {/* Approval Chain */}
+        {request.approvals.length > 0 && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ListChecks className="h-5 w-5" />
+                Approval Progress
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <LeaveApprovalProgress
+                approvals={request.approvals}
+                currentStep={request.currentApprovalStep}
+              />
+            </CardContent>
+          </Card>
+        )}
+
         {/* History */}
         <Card>
           <CardHeader>
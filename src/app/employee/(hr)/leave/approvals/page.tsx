@@ -0,0 +1,60 @@
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { redirect } from 'next/navigation';
+import { Role } from '@prisma/client';
+import { PendingLeaveApprovals, ApprovalDelegationManager } from '@/components/domains/hr/leave';
+
+export default async function EmployeeLeaveApprovalsPage() {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    redirect('/login');
+  }
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="max-w-6xl mx-auto">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Leave Approvals</h1>
+          <p className="text-gray-600">
+            Leave requests waiting on you in their approval chain
+          </p>
+        </div>
+
+        <div className="grid lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2">
+            <Card>
+              <CardHeader>
+                <CardTitle>Awaiting Your Approval</CardTitle>
+                <CardDescription>
+                  Includes requests routed to you while another approver is out of office
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <PendingLeaveApprovals />
+              </CardContent>
+            </Card>
+          </div>
+
+          <div>
+            <Card>
+              <CardHeader>
+                <CardTitle>Out of Office</CardTitle>
+                <CardDescription>
+                  Route your approvals to a deputy while you are away
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ApprovalDelegationManager
+                  currentUserId={session.user.id}
+                  allowOnBehalf={session.user.role === Role.ADMIN}
+                />
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { redirect } from 'next/navigation';
+import { prisma } from '@/lib/prisma';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft } from 'lucide-react';
+import { LeaveEncashments } from '@/components/domains/hr/leave';
+
+export default async function EmployeeLeaveEncashmentsPage() {
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    redirect('/login');
+  }
+
+  // Current and previous year balances of leave types that can be encashed
+  const currentYear = new Date().getFullYear();
+  const balances = await prisma.leaveBalance.findMany({
+    where: {
+      userId: session.user.id,
+      year: { in: [currentYear - 1, currentYear] },
+      leaveType: { allowEncashment: true, isActive: true },
+    },
+    include: { leaveType: { select: { name: true } } },
+    orderBy: [{ year: 'desc' }, { leaveType: { name: 'asc' } }],
+  });
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex items-center gap-4">
+          <Button asChild variant="ghost" size="icon">
+            <Link href="/employee/leave">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold">Leave Encashment</h1>
+            <p className="text-muted-foreground">
+              Request to be paid out for unused leave days
+            </p>
+          </div>
+        </div>
+
+        <LeaveEncashments
+          canReview={false}
+          balances={balances.map(balance => ({
+            id: balance.id,
+            leaveTypeName: balance.leaveType.name,
+            year: balance.year,
+          }))}
+        />
+      </div>
+    </div>
+  );
+}
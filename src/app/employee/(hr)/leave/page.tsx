@@ -6,7 +6,7 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { redirect } from 'next/navigation';
 import Link from 'next/link';
-import { Plus, Clock, FileText } from 'lucide-react';
+import { Plus, Clock, FileText, Banknote } from 'lucide-react';
 import { LeaveBalanceCard } from '@/components/leave/leave-balance-card';
 import { getLeaveStatusVariant, getDateRangeText, formatLeaveDays, getAnnualLeaveDetails } from '@/lib/leave-utils';
 
@@ -111,12 +111,20 @@ export default async function EmployeeLeavePage() {
                 View your leave balance and manage requests
               </p>
             </div>
-            <Link href="/employee/leave/new">
-              <Button>
-                <Plus className="h-4 w-4 mr-2" />
-                Request Leave
-              </Button>
-            </Link>
+            <div className="flex gap-2">
+              <Link href="/employee/leave/encashments">
+                <Button variant="outline">
+                  <Banknote className="h-4 w-4 mr-2" />
+                  Encash Leave
+                </Button>
+              </Link>
+              <Link href="/employee/leave/new">
+                <Button>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Request Leave
+                </Button>
+              </Link>
+            </div>
           </div>
         </div>
 
@@ -0,0 +1,52 @@
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { redirect } from 'next/navigation';
+import { prisma } from '@/lib/prisma';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft } from 'lucide-react';
+import { EarningEntries } from '@/components/domains/hr/payroll';
+import { getTeamMemberIds } from '@/lib/domains/hr/employees/team-service';
+
+export default async function EmployeeEarningsPage() {
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    redirect('/');
+  }
+
+  // Managers can also submit entries for their team
+  const teamMemberIds = await getTeamMemberIds(session.user.id, true);
+  const teamMembers = teamMemberIds.length > 0
+    ? await prisma.user.findMany({
+      where: { id: { in: teamMemberIds } },
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' },
+    })
+    : [];
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex items-center gap-4">
+          <Button asChild variant="ghost" size="icon">
+            <Link href="/employee/payroll">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold">Overtime &amp; Earnings</h1>
+            <p className="text-muted-foreground">
+              Submit overtime and other earnings for approval
+            </p>
+          </div>
+        </div>
+
+        <EarningEntries
+          currentUserId={session.user.id}
+          employees={[{ id: session.user.id, name: session.user.name ?? 'Me' }, ...teamMembers]}
+          canReview={false}
+        />
+      </div>
+    </div>
+  );
+}
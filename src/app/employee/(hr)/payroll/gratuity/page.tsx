@@ -6,7 +6,8 @@ import Link from 'next/link';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { ArrowLeft, Info } from 'lucide-react';
-import { calculateGratuity, projectGratuity, getServiceDurationText } from '@/lib/payroll/gratuity';
+import { calculateGratuity, projectGratuity, getServiceDurationText, describeGratuityPolicy } from '@/lib/payroll/gratuity';
+import { getGratuityOptions } from '@/lib/payroll/gratuity-service';
 import { formatCurrency } from '@/lib/payroll/utils';
 
 export default async function EmployeeGratuityPage() {
@@ -28,6 +29,8 @@ export default async function EmployeeGratuityPage() {
         dateOfJoining: true,
         designation: true,
         employeeId: true,
+        contractType: true,
+        gratuityPolicyId: true,
       },
     }),
   ]);
@@ -68,8 +71,15 @@ export default async function EmployeeGratuityPage() {
 
   const basicSalary = Number(salaryStructure.basicSalary);
   const dateOfJoining = new Date(hrProfile.dateOfJoining);
-  const gratuityCalculation = calculateGratuity(basicSalary, dateOfJoining);
-  const projections = projectGratuity(basicSalary, dateOfJoining, [1, 2, 3, 5, 10]);
+  const gratuityOptions = await getGratuityOptions({
+    userId,
+    gratuityPolicyId: hrProfile.gratuityPolicyId,
+    contractType: hrProfile.contractType,
+    grossSalary: Number(salaryStructure.grossSalary),
+  });
+  const gratuityCalculation = calculateGratuity(basicSalary, dateOfJoining, new Date(), gratuityOptions);
+  const projections = projectGratuity(basicSalary, dateOfJoining, [1, 2, 3, 5, 10], gratuityOptions);
+  const { policy } = gratuityCalculation;
 
   return (
     <div className="container mx-auto py-8 px-4">
@@ -93,7 +103,7 @@ export default async function EmployeeGratuityPage() {
         <CardHeader>
           <CardTitle>Current Gratuity Amount</CardTitle>
           <CardDescription>
-            Based on your current service duration and basic salary
+            Based on your current service duration under the {policy.name} policy
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -109,8 +119,10 @@ export default async function EmployeeGratuityPage() {
               </div>
             </div>
             <div className="p-4 bg-muted rounded-lg">
-              <div className="text-sm text-muted-foreground">Basic Salary</div>
-              <div className="font-semibold">{formatCurrency(basicSalary)}</div>
+              <div className="text-sm text-muted-foreground">
+                {policy.salaryBasis === 'GROSS' ? 'Gross Salary' : 'Basic Salary'}
+              </div>
+              <div className="font-semibold">{formatCurrency(gratuityCalculation.salaryAmount)}</div>
             </div>
             <div className="p-4 bg-muted rounded-lg">
               <div className="text-sm text-muted-foreground">Weekly Rate</div>
@@ -137,6 +149,24 @@ export default async function EmployeeGratuityPage() {
         </CardHeader>
         <CardContent>
           <div className="space-y-3">
+            {!gratuityCalculation.isEligible && (
+              <p className="text-sm text-amber-600">
+                Gratuity is payable after {policy.minServiceMonths} months of service.
+              </p>
+            )}
+            {gratuityCalculation.unpaidLeaveDaysExcluded > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {gratuityCalculation.unpaidLeaveDaysExcluded} days of unpaid leave are excluded from service time.
+              </p>
+            )}
+            {gratuityCalculation.tiers.length > 1 && gratuityCalculation.tiers.map((tier) => (
+              <div key={tier.fromYear} className="flex justify-between py-2 border-b">
+                <span className="text-muted-foreground">
+                  Years {tier.fromYear}{tier.toYear !== null ? `-${tier.toYear}` : '+'} at {tier.weeksPerYear} weeks/year ({tier.yearsOfService} years)
+                </span>
+                <span className="font-medium">{formatCurrency(tier.amount)}</span>
+              </div>
+            ))}
             <div className="flex justify-between py-2 border-b">
               <span className="text-muted-foreground">Full Years ({gratuityCalculation.yearsOfService} years)</span>
               <span className="font-medium">{formatCurrency(gratuityCalculation.breakdown.fullYearsAmount)}</span>
@@ -184,15 +214,15 @@ export default async function EmployeeGratuityPage() {
         </CardHeader>
         <CardContent className="prose prose-sm max-w-none">
           <p className="text-muted-foreground">
-            Gratuity (End of Service Benefits) is calculated using the following formula:
+            Your gratuity (End of Service Benefits) follows the <strong>{policy.name}</strong> policy: {describeGratuityPolicy(policy)}.
           </p>
           <ul className="list-disc pl-4 space-y-1 text-muted-foreground">
-            <li><strong>Weekly Rate:</strong> Basic Salary ÷ 30 days × 7 days</li>
-            <li><strong>Annual Gratuity:</strong> Weekly Rate × 3 weeks per year</li>
-            <li><strong>Total Gratuity:</strong> Years of Service × Annual Gratuity (pro-rated for partial years)</li>
+            <li><strong>Weekly Rate:</strong> {policy.salaryBasis === 'GROSS' ? 'Gross' : 'Basic'} Salary ÷ 30 days × 7 days</li>
+            <li><strong>Annual Gratuity:</strong> Weekly Rate × weeks per year for the service year</li>
+            <li><strong>Total Gratuity:</strong> Sum of annual gratuity over your years of service (pro-rated for partial years)</li>
           </ul>
           <p className="text-sm text-muted-foreground mt-4">
-            Note: This is an estimate based on your current basic salary. The actual amount may vary based on company policies and applicable laws at the time of separation.
+            Note: This is an estimate based on your current salary. The actual amount may vary based on company policies and applicable laws at the time of separation.
           </p>
         </CardContent>
         </Card>
@@ -9,6 +9,7 @@ import { Badge } from '@/components/ui/badge';
 import { FileText, Calculator, CreditCard, ArrowRight } from 'lucide-react';
 import { formatCurrency, getMonthName, getPayrollStatusText, getPayrollStatusColor } from '@/lib/payroll/utils';
 import { calculateGratuity, getServiceDurationText } from '@/lib/payroll/gratuity';
+import { getGratuityOptions } from '@/lib/payroll/gratuity-service';
 
 export default async function EmployeePayrollPage() {
   const session = await getServerSession(authOptions);
@@ -30,6 +31,8 @@ export default async function EmployeePayrollPage() {
         designation: true,
         employeeId: true,
         bankName: true,
+        contractType: true,
+        gratuityPolicyId: true,
       },
     }),
     prisma.payslip.findMany({
@@ -66,7 +69,13 @@ export default async function EmployeePayrollPage() {
   if (salaryStructure && hrProfile?.dateOfJoining) {
     const basicSalary = Number(salaryStructure.basicSalary);
     const dateOfJoining = new Date(hrProfile.dateOfJoining);
-    gratuityCalculation = calculateGratuity(basicSalary, dateOfJoining);
+    const gratuityOptions = await getGratuityOptions({
+      userId,
+      gratuityPolicyId: hrProfile.gratuityPolicyId,
+      contractType: hrProfile.contractType,
+      grossSalary: Number(salaryStructure.grossSalary),
+    });
+    gratuityCalculation = calculateGratuity(basicSalary, dateOfJoining, new Date(), gratuityOptions);
   }
 
   const totalLoanRemaining = loans.reduce((sum, loan) => sum + Number(loan.remainingAmount), 0);
@@ -167,7 +176,7 @@ export default async function EmployeePayrollPage() {
                   {formatCurrency(gratuityCalculation.gratuityAmount)}
                 </div>
                 <p className="text-xs text-muted-foreground">
-                  {getServiceDurationText(gratuityCalculation.monthsOfService)} of service
+                  {getServiceDurationText(gratuityCalculation.monthsOfService)} of service · {gratuityCalculation.policy.name}
                 </p>
                 <Button asChild variant="link" className="px-0 mt-2">
                   <Link href="/employee/payroll/gratuity">
@@ -6,7 +6,7 @@ import Link from 'next/link';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { ArrowLeft, Building, Calendar, CreditCard } from 'lucide-react';
+import { ArrowLeft, Building, Calendar, CreditCard, Download } from 'lucide-react';
 import { formatCurrency, getMonthName } from '@/lib/payroll/utils';
 
 interface PageProps {
@@ -46,6 +46,9 @@ export default async function EmployeePayslipDetailPage({ params }: PageProps) {
       deductions: {
         orderBy: { createdAt: 'asc' },
       },
+      earnings: {
+        orderBy: { createdAt: 'asc' },
+      },
     },
   });
 
@@ -90,6 +93,12 @@ export default async function EmployeePayslipDetailPage({ params }: PageProps) {
             Payslip No: {payslip.payslipNumber}
           </p>
         </div>
+        <Button asChild variant="outline" className="ml-auto">
+          <a href={`/api/payroll/payslips/${payslip.id}/pdf`}>
+            <Download className="mr-2 h-4 w-4" />
+            Download PDF
+          </a>
+        </Button>
       </div>
 
       {/* Employee Details */}
@@ -165,6 +174,19 @@ export default async function EmployeePayslipDetailPage({ params }: PageProps) {
                   <span className="font-medium">{formatCurrency(otherAllowances)}</span>
                 </div>
               )}
+              {payslip.earnings.map((earning) => (
+                <div key={earning.id} className="flex justify-between py-2 border-b">
+                  <div>
+                    <span className="text-muted-foreground">
+                      {earning.type.replace(/_/g, ' ')}
+                    </span>
+                    <div className="text-xs text-muted-foreground">
+                      {earning.description}
+                    </div>
+                  </div>
+                  <span className="font-medium">{formatCurrency(Number(earning.amount))}</span>
+                </div>
+              ))}
               <div className="flex justify-between py-2 font-semibold">
                 <span>Total Earnings</span>
                 <span className="text-green-600">{formatCurrency(grossSalary)}</span>
@@ -0,0 +1,56 @@
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { redirect } from 'next/navigation';
+import { TeamOverview } from '@/components/domains/hr/employees';
+import { LeaveCoverageHeatmap } from '@/components/domains/hr/leave';
+import { hasDirectReports } from '@/lib/domains/hr/employees/team-service';
+
+export default async function EmployeeTeamPage() {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    redirect('/login');
+  }
+
+  const isManager = await hasDirectReports(session.user.id);
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="max-w-6xl mx-auto">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">My Team</h1>
+          <p className="text-gray-600">
+            Leave, assets and open requests for the people who report to you
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Team Overview</CardTitle>
+            <CardDescription>
+              Only your reporting line is shown here
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <TeamOverview />
+          </CardContent>
+        </Card>
+
+        {isManager && (
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle>Team Coverage</CardTitle>
+              <CardDescription>
+                How many of your team are on approved or pending leave each day
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <LeaveCoverageHeatmap />
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
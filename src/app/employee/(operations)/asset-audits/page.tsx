@@ -0,0 +1,119 @@
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { redirect } from 'next/navigation';
+import Link from 'next/link';
+import { AssetAuditCampaignStatus, AssetAuditItemStatus } from '@prisma/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { AuditResponseForm } from '@/components/domains/operations/assets';
+import { formatDate } from '@/lib/date-format';
+import { AUDIT_ITEM_STATUS_LABELS } from '@/lib/domains/operations/assets/asset-audit';
+
+export default async function MyAssetAuditsPage() {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    redirect('/login');
+  }
+
+  const items = await prisma.assetAuditItem.findMany({
+    where: {
+      responsibleUserId: session.user.id,
+      correctedAt: null,
+      campaign: { status: AssetAuditCampaignStatus.ACTIVE },
+    },
+    include: {
+      campaign: {
+        select: { id: true, campaignNumber: true, name: true, description: true, dueDate: true },
+      },
+      asset: {
+        select: { id: true, assetTag: true, model: true, brand: true, type: true },
+      },
+    },
+    orderBy: [{ campaign: { createdAt: 'asc' } }, { asset: { assetTag: 'asc' } }],
+  });
+
+  // Group by campaign, keeping the oldest campaign first
+  const campaigns = Array.from(
+    items.reduce((groups, item) => {
+      const group = groups.get(item.campaignId) ?? { campaign: item.campaign, items: [] as typeof items };
+      group.items.push(item);
+      return groups.set(item.campaignId, group);
+    }, new Map<string, { campaign: (typeof items)[number]['campaign']; items: typeof items }>()).values()
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container mx-auto py-8 px-4">
+        <div className="max-w-4xl mx-auto space-y-6">
+          <div className="flex justify-between items-start">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900 mb-2">Asset Audits</h1>
+              <p className="text-gray-600">
+                Confirm the state of each asset assigned to you
+              </p>
+            </div>
+            <Link href="/employee/my-assets">
+              <Button variant="outline">My Holdings</Button>
+            </Link>
+          </div>
+
+          {campaigns.length === 0 && (
+            <Card>
+              <CardContent className="py-12 text-center text-gray-500">
+                There are no audits waiting for you.
+              </CardContent>
+            </Card>
+          )}
+
+          {campaigns.map(({ campaign, items: campaignItems }) => {
+            const pending = campaignItems.filter(item => item.status === AssetAuditItemStatus.PENDING).length;
+
+            return (
+              <div key={campaign.id} className="space-y-4">
+                <div>
+                  <h2 className="text-xl font-semibold">
+                    {campaign.name} <span className="font-mono text-base text-gray-500">{campaign.campaignNumber}</span>
+                  </h2>
+                  <p className="text-sm text-gray-600">
+                    {pending > 0 ? `${pending} of ${campaignItems.length} still to confirm` : 'All confirmed, thank you'}
+                    {campaign.dueDate && ` · Due ${formatDate(campaign.dueDate)}`}
+                  </p>
+                  {campaign.description && (
+                    <p className="text-sm text-gray-600 mt-1">{campaign.description}</p>
+                  )}
+                </div>
+
+                <div className="grid md:grid-cols-2 gap-4">
+                  {campaignItems.map(item => (
+                    <Card key={item.id}>
+                      <CardHeader>
+                        <div className="flex items-start justify-between gap-3">
+                          <div>
+                            <CardTitle className="text-base font-mono">{item.asset.assetTag || item.asset.type}</CardTitle>
+                            <CardDescription>
+                              {item.asset.brand ? `${item.asset.brand} ${item.asset.model}` : item.asset.model}
+                              {item.expectedSerial && ` · S/N ${item.expectedSerial}`}
+                            </CardDescription>
+                          </div>
+                          <Badge variant={item.status === AssetAuditItemStatus.PENDING ? 'outline' : 'secondary'}>
+                            {AUDIT_ITEM_STATUS_LABELS[item.status]}
+                          </Badge>
+                        </div>
+                      </CardHeader>
+                      <CardContent>
+                        <AuditResponseForm item={item} />
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,12 +2,14 @@
 
 import { useState, useEffect, use } from 'react';
 import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
 import Link from 'next/link';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { ArrowLeft, Loader2, Clock, CheckCircle, XCircle, FileCheck, Trash2, Pencil } from 'lucide-react';
+import { ArrowLeft, Loader2, Clock, CheckCircle, XCircle, FileCheck, FileText, PackageCheck, Receipt, Trash2, Pencil } from 'lucide-react';
 import { StatusBadge, PriorityBadge } from '@/components/purchase-requests/StatusBadge';
+import { PurchaseApprovalActions, PurchaseApprovalProgress } from '@/components/domains/projects/purchase-requests';
 import { getStatusLabel, canDeleteRequest, canEditRequest } from '@/lib/purchase-request-utils';
 import {
   AlertDialog,
@@ -48,6 +50,21 @@ interface PurchaseRequestHistory {
   };
 }
 
+interface PurchaseRequestApproval {
+  id: string;
+  stepOrder: number;
+  name: string;
+  approverType: string;
+  approverId: string | null;
+  status: string;
+  actedAt: string | null;
+  activatedAt: string | null;
+  notes: string | null;
+  approver: { id: string; name: string | null; email: string } | null;
+  actedBy: { id: string; name: string | null } | null;
+  delegatedFrom: { id: string; name: string | null } | null;
+}
+
 interface PurchaseRequest {
   id: string;
   referenceNumber: string;
@@ -75,6 +92,9 @@ interface PurchaseRequest {
     name: string | null;
     email: string;
   } | null;
+  approvalRuleName: string | null;
+  currentApprovalStep: number | null;
+  approvals: PurchaseRequestApproval[];
   items: PurchaseRequestItem[];
   history: PurchaseRequestHistory[];
 }
@@ -82,6 +102,7 @@ interface PurchaseRequest {
 export default function EmployeePurchaseRequestDetailPage({ params }: { params: Promise<{ id: string }> }) {
   const resolvedParams = use(params);
   const router = useRouter();
+  const { data: session } = useSession();
   const [request, setRequest] = useState<PurchaseRequest | null>(null);
   const [loading, setLoading] = useState(true);
   const [deleting, setDeleting] = useState(false);
@@ -196,15 +217,22 @@ export default function EmployeePurchaseRequestDetailPage({ params }: { params:
     );
   }
 
+  // Approvers open requests that are not their own from their approvals list
+  const isRequester = request.requester.id === session?.user.id;
+  const currentStep = ['PENDING', 'UNDER_REVIEW'].includes(request.status)
+    ? request.approvals.find(step => step.status === 'PENDING' && step.stepOrder === request.currentApprovalStep)
+    : undefined;
+  const canActOnCurrentStep = !isRequester && !!currentStep && currentStep.approverType === 'USER';
+
   return (
     <div className="container mx-auto py-8 px-4">
       <div className="max-w-4xl mx-auto">
         {/* Header */}
         <div className="mb-6">
-          <Link href="/employee/purchase-requests">
+          <Link href={isRequester ? '/employee/purchase-requests' : '/employee/purchase-requests/approvals'}>
             <Button variant="ghost" size="sm" className="mb-4">
               <ArrowLeft className="h-4 w-4 mr-2" />
-              Back to My Requests
+              {isRequester ? 'Back to My Requests' : 'Back to Purchase Approvals'}
             </Button>
           </Link>
 
@@ -220,7 +248,7 @@ export default function EmployeePurchaseRequestDetailPage({ params }: { params:
                 <StatusBadge status={request.status} />
                 <PriorityBadge priority={request.priority} />
               </div>
-              {canDeleteRequest(request.status) && (
+              {isRequester && canDeleteRequest(request.status) && (
                 <div className="flex gap-2">
                   <AlertDialog>
                     <AlertDialogTrigger asChild>
@@ -302,6 +330,33 @@ export default function EmployeePurchaseRequestDetailPage({ params }: { params:
             </CardContent>
           </Card>
 
+          {/* Approval Chain */}
+          {request.approvals.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Approval Progress</CardTitle>
+                <CardDescription>
+                  {currentStep
+                    ? 'The request is approved once every step has approved it'
+                    : 'Steps this request went through'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <PurchaseApprovalProgress
+                  approvals={request.approvals}
+                  currentStep={request.currentApprovalStep}
+                />
+                {canActOnCurrentStep && currentStep && (
+                  <PurchaseApprovalActions
+                    requestId={request.id}
+                    stepName={currentStep.name}
+                    onDecided={fetchRequest}
+                  />
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Review Notes (if reviewed) */}
           {request.reviewedBy && (
             <Card className={
@@ -402,6 +457,11 @@ export default function EmployeePurchaseRequestDetailPage({ params }: { params:
                         <Clock className="h-4 w-4 text-blue-500" />
                       )}
                       {entry.action === 'UPDATED' && <Pencil className="h-4 w-4 text-gray-500" />}
+                      {entry.action === 'STEP_APPROVED' && <CheckCircle className="h-4 w-4 text-blue-500" />}
+                      {entry.action === 'PO_ISSUED' && <FileText className="h-4 w-4 text-blue-500" />}
+                      {entry.action === 'PO_CANCELLED' && <FileText className="h-4 w-4 text-red-500" />}
+                      {entry.action === 'GOODS_RECEIVED' && <PackageCheck className="h-4 w-4 text-green-500" />}
+                      {entry.action === 'INVOICE_RECEIVED' && <Receipt className="h-4 w-4 text-blue-500" />}
                     </div>
                     <div className="flex-1">
                       <div className="flex justify-between items-start">
@@ -410,6 +470,11 @@ export default function EmployeePurchaseRequestDetailPage({ params }: { params:
                             {entry.action === 'CREATED' && 'Request Created'}
                             {entry.action === 'STATUS_CHANGED' && `Status changed to ${getStatusLabel(entry.newStatus || '')}`}
                             {entry.action === 'UPDATED' && 'Request Updated'}
+                            {entry.action === 'STEP_APPROVED' && 'Approval Step Approved'}
+                            {entry.action === 'PO_ISSUED' && 'Purchase Order Issued'}
+                            {entry.action === 'PO_CANCELLED' && 'Purchase Order Cancelled'}
+                            {entry.action === 'GOODS_RECEIVED' && 'Goods Received'}
+                            {entry.action === 'INVOICE_RECEIVED' && 'Invoice Received'}
                           </p>
                           <p className="text-xs text-gray-500">
                             by {entry.performedBy.name || entry.performedBy.email}
@@ -0,0 +1,39 @@
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { redirect } from 'next/navigation';
+import { PendingPurchaseApprovals } from '@/components/domains/projects/purchase-requests';
+
+export default async function EmployeePurchaseApprovalsPage() {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    redirect('/login');
+  }
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="max-w-5xl mx-auto">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Purchase Approvals</h1>
+          <p className="text-gray-600">
+            Purchase requests waiting on you in their approval chain
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Awaiting Your Approval</CardTitle>
+            <CardDescription>
+              Includes requests routed to you while another approver is out of office. Set up out-of-office
+              cover from Leave Approvals.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <PendingPurchaseApprovals />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
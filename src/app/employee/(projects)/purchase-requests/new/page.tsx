@@ -130,6 +130,8 @@ export default function NewPurchaseRequestPage() {
   const [otherPurchaseType, setOtherPurchaseType] = useState('');
   const [costType, setCostType] = useState<string>('OPERATING_COST');
   const [projectName, setProjectName] = useState('');
+  const [projectId, setProjectId] = useState('');
+  const [projects, setProjects] = useState<Array<{ id: string; code: string; name: string }>>([]);
   const [paymentMode, setPaymentMode] = useState<string>('BANK_TRANSFER');
 
   // Business Justification
@@ -162,6 +164,24 @@ export default function NewPurchaseRequestPage() {
     },
   ]);
 
+  // Load open projects so project costs are charged to the right budget
+  useEffect(() => {
+    const fetchProjects = async () => {
+      try {
+        const response = await fetch('/api/projects?pageSize=100&sortBy=name&sortOrder=asc');
+        if (response.ok) {
+          const result = await response.json();
+          setProjects(
+            result.data.filter((project: { status: string }) => !['COMPLETED', 'CANCELLED'].includes(project.status))
+          );
+        }
+      } catch (error) {
+        console.error('Error fetching projects:', error);
+      }
+    };
+    fetchProjects();
+  }, []);
+
   // Get current type config
   const typeConfig = useMemo(() => TYPE_CONFIG[purchaseType] || TYPE_CONFIG.OTHER, [purchaseType]);
 
@@ -266,8 +286,10 @@ export default function NewPurchaseRequestPage() {
       return;
     }
 
-    if (costType === 'PROJECT_COST' && !projectName.trim()) {
-      setError('Project name is required when Cost Type is Project Cost');
+    if (costType === 'PROJECT_COST' && !projectId && !projectName.trim()) {
+      setError(projects.length > 0
+        ? 'Select a project when Cost Type is Project Cost'
+        : 'Project name is required when Cost Type is Project Cost');
       return;
     }
 
@@ -328,7 +350,8 @@ export default function NewPurchaseRequestPage() {
           neededByDate: neededByDate || undefined,
           purchaseType,
           costType,
-          projectName: costType === 'PROJECT_COST' ? projectName : undefined,
+          projectId: costType === 'PROJECT_COST' && projectId ? projectId : undefined,
+          projectName: costType === 'PROJECT_COST' && !projectId ? projectName : undefined,
           paymentMode,
           currency: effectiveCurrency,
           vendorName: vendorName || undefined,
@@ -513,7 +536,25 @@ export default function NewPurchaseRequestPage() {
                   </Select>
                 </div>
 
-                {costType === 'PROJECT_COST' && (
+                {costType === 'PROJECT_COST' && projects.length > 0 && (
+                  <div className="space-y-2">
+                    <Label htmlFor="projectId">Project *</Label>
+                    <Select value={projectId} onValueChange={setProjectId}>
+                      <SelectTrigger id="projectId">
+                        <SelectValue placeholder="Select project..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {projects.map((project) => (
+                          <SelectItem key={project.id} value={project.id}>
+                            {project.code} - {project.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                {costType === 'PROJECT_COST' && projects.length === 0 && (
                   <div className="space-y-2">
                     <Label htmlFor="projectName">Project Name *</Label>
                     <Input
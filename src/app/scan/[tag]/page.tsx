@@ -0,0 +1,201 @@
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { redirect } from 'next/navigation';
+import Link from 'next/link';
+import { AssetAuditCampaignStatus, AssetHistoryAction, AssetStatus, Role } from '@prisma/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  AssetCheckInForm,
+  AuditResponseForm,
+  ConfirmCustodyButton,
+} from '@/components/domains/operations/assets';
+import { formatDateTime } from '@/lib/date-format';
+
+interface Props {
+  params: Promise<{ tag: string }>;
+}
+
+const STATUS_LABELS: Record<AssetStatus, string> = {
+  IN_USE: 'In Use',
+  SPARE: 'Spare',
+  REPAIR: 'Repair',
+  DISPOSED: 'Disposed',
+};
+
+export default async function AssetScanResultPage({ params }: Props) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    redirect('/login');
+  }
+
+  const { tag } = await params;
+  const assetTag = decodeURIComponent(tag);
+  const isAdmin = session.user.role === Role.ADMIN;
+
+  const asset = await prisma.asset.findFirst({
+    where: { assetTag: { equals: assetTag, mode: 'insensitive' } },
+    include: {
+      assignedUser: {
+        select: { id: true, name: true, email: true },
+      },
+    },
+  });
+
+  if (!asset) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <div className="mx-auto max-w-md py-6 px-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Asset Not Found</CardTitle>
+              <CardDescription>
+                No asset has the tag <span className="font-mono">{assetTag}</span>
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Link href="/scan">
+                <Button className="w-full">Scan Another Label</Button>
+              </Link>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const lastConfirmation = await prisma.assetHistory.findFirst({
+    where: { assetId: asset.id, action: AssetHistoryAction.CUSTODY_CONFIRMED },
+    orderBy: { createdAt: 'desc' },
+    select: {
+      createdAt: true,
+      performer: { select: { name: true, email: true } },
+    },
+  });
+
+  // Open audit item this user can answer: admins verify any asset they scan
+  const auditItem = await prisma.assetAuditItem.findFirst({
+    where: {
+      assetId: asset.id,
+      correctedAt: null,
+      campaign: { status: AssetAuditCampaignStatus.ACTIVE },
+      ...(!isAdmin && { responsibleUserId: session.user.id }),
+    },
+    include: { campaign: { select: { campaignNumber: true, name: true } } },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  const isAssignedToMe = asset.assignedUserId === session.user.id;
+  const canConfirmCustody = isAssignedToMe && asset.status === AssetStatus.IN_USE;
+  const detailUrl = isAdmin ? `/admin/assets/${asset.id}` : `/employee/assets/${asset.id}`;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="mx-auto max-w-md py-6 px-4 space-y-4">
+        <Card>
+          <CardHeader>
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <CardTitle className="font-mono">{asset.assetTag}</CardTitle>
+                <CardDescription>
+                  {asset.brand ? `${asset.brand} ${asset.model}` : asset.model}
+                </CardDescription>
+              </div>
+              <Badge variant="outline">{STATUS_LABELS[asset.status]}</Badge>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            <div className="flex justify-between gap-4">
+              <span className="text-gray-500">Type</span>
+              <span className="text-right">{asset.type}</span>
+            </div>
+            {asset.serial && (
+              <div className="flex justify-between gap-4">
+                <span className="text-gray-500">Serial</span>
+                <span className="font-mono text-right">{asset.serial}</span>
+              </div>
+            )}
+            <div className="flex justify-between gap-4">
+              <span className="text-gray-500">Assigned to</span>
+              <span className="text-right">
+                {asset.assignedUser
+                  ? isAssignedToMe
+                    ? 'You'
+                    : asset.assignedUser.name || asset.assignedUser.email
+                  : 'Unassigned'}
+              </span>
+            </div>
+            <div className="flex justify-between gap-4">
+              <span className="text-gray-500">Location</span>
+              <span className="text-right">{asset.location || 'Not specified'}</span>
+            </div>
+            <div className="flex justify-between gap-4">
+              <span className="text-gray-500">Last confirmed</span>
+              <span className="text-right">
+                {lastConfirmation
+                  ? `${formatDateTime(lastConfirmation.createdAt)}${lastConfirmation.performer ? ` by ${lastConfirmation.performer.name || lastConfirmation.performer.email}` : ''}`
+                  : 'Never'}
+              </span>
+            </div>
+          </CardContent>
+        </Card>
+
+        {canConfirmCustody && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Confirm You Have It</CardTitle>
+              <CardDescription>
+                Let the admin team know this asset is still with you
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ConfirmCustodyButton assetId={asset.id} />
+            </CardContent>
+          </Card>
+        )}
+
+        {auditItem && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Audit {auditItem.campaign.campaignNumber}</CardTitle>
+              <CardDescription>
+                {auditItem.status === 'PENDING'
+                  ? `${auditItem.campaign.name}: record what you found`
+                  : `${auditItem.campaign.name}: already verified, you can update the finding`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <AuditResponseForm item={auditItem} showLocation={isAdmin} />
+            </CardContent>
+          </Card>
+        )}
+
+        {isAdmin && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Check In</CardTitle>
+              <CardDescription>
+                Record where this asset is now
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <AssetCheckInForm assetId={asset.id} currentLocation={asset.location} />
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="grid grid-cols-2 gap-2">
+          <Link href={detailUrl}>
+            <Button variant="outline" className="w-full">Full Details</Button>
+          </Link>
+          <Link href="/scan">
+            <Button variant="outline" className="w-full">Scan Another</Button>
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { redirect } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { AssetScanner } from '@/components/domains/operations/assets';
+
+export default async function ScanPage() {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    redirect('/login');
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="mx-auto max-w-md py-6 px-4">
+        <Card>
+          <CardHeader>
+            <CardTitle>Scan Asset</CardTitle>
+            <CardDescription>
+              Point your camera at the QR code on an asset label
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <AssetScanner />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -53,6 +53,8 @@ function getActionBadgeVariant(action: string) {
       return 'outline';
     case 'UPDATED':
       return 'secondary';
+    case 'CUSTODY_CONFIRMED':
+      return 'default';
     default:
       return 'secondary';
   }
@@ -92,6 +94,8 @@ function formatActionText(entry: AssetHistoryEntry): string {
       return 'Location changed';
     case 'UPDATED':
       return 'Asset updated';
+    case 'CUSTODY_CONFIRMED':
+      return `Custody confirmed by ${entry.toUser?.name || entry.toUser?.email || 'assigned user'}`;
     default:
       return entry.action;
   }
@@ -0,0 +1,362 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+const NONE = 'none';
+
+interface Department {
+  id: string;
+  name: string;
+  code: string | null;
+  description: string | null;
+  costCenter: string | null;
+  isActive: boolean;
+  parentId: string | null;
+  headId: string | null;
+  parent: { id: string; name: string } | null;
+  head: { id: string; name: string | null; email: string } | null;
+  _count: { members: number; children: number };
+}
+
+interface UserOption {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
+interface DepartmentFormState {
+  name: string;
+  code: string;
+  description: string;
+  costCenter: string;
+  parentId: string;
+  headId: string;
+  isActive: boolean;
+}
+
+const EMPTY_FORM: DepartmentFormState = {
+  name: '',
+  code: '',
+  description: '',
+  costCenter: '',
+  parentId: NONE,
+  headId: NONE,
+  isActive: true,
+};
+
+export function DepartmentManager() {
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [users, setUsers] = useState<UserOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Department | null>(null);
+  const [form, setForm] = useState<DepartmentFormState>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDepartments = useCallback(async () => {
+    try {
+      const response = await fetch('/api/departments?includeInactive=true');
+      if (response.ok) {
+        const data = await response.json();
+        setDepartments(data.departments);
+      }
+    } catch (err) {
+      console.error('Failed to fetch departments:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchDepartments();
+    fetch('/api/leave/delegations/candidates')
+      .then(res => (res.ok ? res.json() : { users: [] }))
+      .then(data => setUsers(data.users))
+      .catch(err => console.error('Failed to fetch users:', err));
+  }, [fetchDepartments]);
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(EMPTY_FORM);
+    setError(null);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (department: Department) => {
+    setEditing(department);
+    setForm({
+      name: department.name,
+      code: department.code ?? '',
+      description: department.description ?? '',
+      costCenter: department.costCenter ?? '',
+      parentId: department.parentId ?? NONE,
+      headId: department.headId ?? NONE,
+      isActive: department.isActive,
+    });
+    setError(null);
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(editing ? `/api/departments/${editing.id}` : '/api/departments', {
+        method: editing ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: form.name,
+          code: form.code || null,
+          description: form.description || null,
+          costCenter: form.costCenter || null,
+          parentId: form.parentId === NONE ? null : form.parentId,
+          headId: form.headId === NONE ? null : form.headId,
+          isActive: form.isActive,
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to save department');
+      }
+
+      toast.success(editing ? 'Department updated' : 'Department created');
+      setDialogOpen(false);
+      fetchDepartments();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (department: Department) => {
+    try {
+      const response = await fetch(`/api/departments/${department.id}`, { method: 'DELETE' });
+      if (response.ok) {
+        toast.success('Department deleted');
+        fetchDepartments();
+      } else {
+        const data = await response.json();
+        toast.error(data.error || 'Failed to delete department');
+      }
+    } catch (err) {
+      console.error('Failed to delete department:', err);
+      toast.error('An error occurred');
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-8">Loading...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button onClick={openCreate}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Department
+        </Button>
+      </div>
+
+      {departments.length === 0 ? (
+        <div className="py-8 text-center text-gray-500">
+          No departments yet. Add one to start grouping employees into teams.
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Department</TableHead>
+              <TableHead>Cost Center</TableHead>
+              <TableHead>Head</TableHead>
+              <TableHead>Members</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {departments.map(department => (
+              <TableRow key={department.id}>
+                <TableCell>
+                  <div className="font-medium">{department.name}</div>
+                  <div className="text-xs text-gray-500">
+                    {department.parent ? `Team in ${department.parent.name}` : 'Department'}
+                    {department.code && <> · {department.code}</>}
+                  </div>
+                </TableCell>
+                <TableCell className="text-sm">{department.costCenter || '-'}</TableCell>
+                <TableCell className="text-sm">
+                  {department.head ? department.head.name || department.head.email : '-'}
+                </TableCell>
+                <TableCell className="text-sm">
+                  {department._count.members}
+                  {department._count.children > 0 && (
+                    <span className="text-gray-500"> · {department._count.children} teams</span>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Badge variant={department.isActive ? 'default' : 'secondary'}>
+                    {department.isActive ? 'Active' : 'Inactive'}
+                  </Badge>
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button variant="ghost" size="icon" onClick={() => openEdit(department)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleDelete(department)}
+                    disabled={department._count.members > 0 || department._count.children > 0}
+                  >
+                    <Trash2 className="h-4 w-4 text-red-500" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Department' : 'Add Department'}</DialogTitle>
+            <DialogDescription>
+              Nest a department under a parent to make it a team
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {error && (
+              <div className="bg-red-50 text-red-600 p-3 rounded-md text-sm">
+                {error}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="department-name">Name *</Label>
+                <Input
+                  id="department-name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="department-code">Code</Label>
+                <Input
+                  id="department-code"
+                  placeholder="e.g., FIN"
+                  value={form.code}
+                  onChange={(e) => setForm({ ...form, code: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="department-cost-center">Cost Center</Label>
+                <Input
+                  id="department-cost-center"
+                  placeholder="e.g., CC-1000"
+                  value={form.costCenter}
+                  onChange={(e) => setForm({ ...form, costCenter: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Parent Department</Label>
+                <Select value={form.parentId} onValueChange={(value) => setForm({ ...form, parentId: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>None (top level)</SelectItem>
+                    {departments
+                      .filter(department => department.id !== editing?.id)
+                      .map(department => (
+                        <SelectItem key={department.id} value={department.id}>
+                          {department.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label>Department Head</Label>
+              <Select value={form.headId} onValueChange={(value) => setForm({ ...form, headId: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>No head</SelectItem>
+                  {users.map(user => (
+                    <SelectItem key={user.id} value={user.id}>
+                      {user.name || user.email}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="department-description">Description</Label>
+              <Input
+                id="department-description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="department-active">Active</Label>
+              <Switch
+                id="department-active"
+                checked={form.isActive}
+                onCheckedChange={(checked) => setForm({ ...form, isActive: checked })}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving || !form.name}>
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
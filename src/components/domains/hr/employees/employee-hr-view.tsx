@@ -52,6 +52,8 @@ interface HRProfile {
   employeeId: string | null;
   designation: string | null;
   dateOfJoining: Date | null;
+  manager?: { id: string; name: string | null; email: string } | null;
+  department?: { id: string; name: string; costCenter: string | null } | null;
   bankName: string | null;
   iban: string | null;
   highestQualification: string | null;
@@ -292,6 +294,9 @@ export function EmployeeHRViewSection({ hrProfile: hr, employee }: EmployeeHRVie
             <InfoRow label="Employee ID" value={hr.employeeId} />
             <InfoRow label="Designation" value={hr.designation} />
             <InfoRow label="Date of Joining" value={hr.dateOfJoining ? formatDate(hr.dateOfJoining) : null} />
+            <InfoRow label="Line Manager" value={hr.manager ? hr.manager.name || hr.manager.email : null} />
+            <InfoRow label="Department" value={hr.department?.name} />
+            <InfoRow label="Cost Center" value={hr.department?.costCenter} />
           </dl>
         </CardContent>
       </Card>
@@ -2,3 +2,7 @@ export { EmployeeListTable } from './employee-list-table';
 export { EmployeeActions } from './employee-actions';
 export { EmployeeHRViewSection } from './employee-hr-view';
 export { EmployeeProfileViewOnly } from './employee-profile-view-only';
+export { OrgChartTree } from './org-chart-tree';
+export { DepartmentManager } from './department-manager';
+export { ReportingLineEditor } from './reporting-line-editor';
+export { TeamOverview } from './team-overview';
@@ -0,0 +1,136 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ChevronDown, ChevronRight, User } from 'lucide-react';
+
+export interface OrgChartEntry {
+  userId: string;
+  managerId: string | null;
+  name: string | null;
+  email: string;
+  image: string | null;
+  role: string;
+  employeeId: string | null;
+  designation: string | null;
+  department: { id: string; name: string; costCenter: string | null } | null;
+  reports: OrgChartEntry[];
+}
+
+function countReports(node: OrgChartEntry): number {
+  return node.reports.reduce((sum, report) => sum + 1 + countReports(report), 0);
+}
+
+function OrgChartNode({ node, depth }: { node: OrgChartEntry; depth: number }) {
+  const [expanded, setExpanded] = useState(depth < 2);
+  const teamSize = countReports(node);
+
+  return (
+    <div>
+      <div
+        className="flex items-center gap-3 py-2 pr-3 rounded-md hover:bg-gray-50"
+        style={{ paddingLeft: depth * 24 }}
+      >
+        {node.reports.length > 0 ? (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={() => setExpanded(!expanded)}
+          >
+            {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+          </Button>
+        ) : (
+          <span className="w-6" />
+        )}
+        <div className="h-8 w-8 rounded-full bg-gray-200 flex items-center justify-center overflow-hidden">
+          {node.image ? (
+            <img src={node.image} alt={node.name || node.email} className="h-full w-full object-cover" />
+          ) : (
+            <User className="h-4 w-4 text-gray-500" />
+          )}
+        </div>
+        <div className="flex-1 min-w-0">
+          <Link href={`/admin/employees/${node.userId}`} className="font-medium text-gray-900 hover:underline">
+            {node.name || node.email}
+          </Link>
+          <div className="text-xs text-gray-500">
+            {node.designation || 'No designation'}
+            {node.employeeId && <> · {node.employeeId}</>}
+          </div>
+        </div>
+        {node.department && (
+          <Badge variant="outline">{node.department.name}</Badge>
+        )}
+        {teamSize > 0 && (
+          <span className="text-xs text-gray-500 w-20 text-right">
+            {teamSize} {teamSize === 1 ? 'report' : 'reports'}
+          </span>
+        )}
+      </div>
+      {expanded && node.reports.map(report => (
+        <OrgChartNode key={report.userId} node={report} depth={depth + 1} />
+      ))}
+    </div>
+  );
+}
+
+interface OrgChartTreeProps {
+  departmentId?: string;
+}
+
+export function OrgChartTree({ departmentId }: OrgChartTreeProps) {
+  const [tree, setTree] = useState<OrgChartEntry[]>([]);
+  const [withoutManager, setWithoutManager] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchOrgChart = async () => {
+      setLoading(true);
+      try {
+        const query = departmentId ? `?departmentId=${departmentId}` : '';
+        const response = await fetch(`/api/employees/org-chart${query}`);
+        if (response.ok) {
+          const data = await response.json();
+          setTree(data.tree);
+          setWithoutManager(data.withoutManager);
+        }
+      } catch (error) {
+        console.error('Failed to fetch org chart:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchOrgChart();
+  }, [departmentId]);
+
+  if (loading) {
+    return <div className="text-center py-8">Loading...</div>;
+  }
+
+  if (tree.length === 0) {
+    return (
+      <div className="py-8 text-center text-gray-500">
+        No employees found.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {withoutManager > 1 && (
+        <p className="text-sm text-gray-500">
+          {withoutManager} employees have no manager assigned and appear at the top level.
+        </p>
+      )}
+      <div className="divide-y">
+        {tree.map(node => (
+          <OrgChartNode key={node.userId} node={node} depth={0} />
+        ))}
+      </div>
+    </div>
+  );
+}
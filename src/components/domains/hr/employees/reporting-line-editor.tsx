@@ -0,0 +1,129 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+
+const NONE = 'none';
+
+interface ReportingLineEditorProps {
+  userId: string;
+  managerId: string | null;
+  departmentId: string | null;
+  onSaved?: () => void;
+}
+
+interface UserOption {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
+interface DepartmentOption {
+  id: string;
+  name: string;
+  costCenter: string | null;
+  parent: { id: string; name: string } | null;
+}
+
+export function ReportingLineEditor({ userId, managerId, departmentId, onSaved }: ReportingLineEditorProps) {
+  const [users, setUsers] = useState<UserOption[]>([]);
+  const [departments, setDepartments] = useState<DepartmentOption[]>([]);
+  const [selectedManagerId, setSelectedManagerId] = useState(managerId ?? NONE);
+  const [selectedDepartmentId, setSelectedDepartmentId] = useState(departmentId ?? NONE);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setSelectedManagerId(managerId ?? NONE);
+    setSelectedDepartmentId(departmentId ?? NONE);
+  }, [managerId, departmentId]);
+
+  useEffect(() => {
+    fetch('/api/leave/delegations/candidates')
+      .then(res => (res.ok ? res.json() : { users: [] }))
+      .then(data => setUsers(data.users))
+      .catch(err => console.error('Failed to fetch users:', err));
+    fetch('/api/departments')
+      .then(res => (res.ok ? res.json() : { departments: [] }))
+      .then(data => setDepartments(data.departments))
+      .catch(err => console.error('Failed to fetch departments:', err));
+  }, []);
+
+  const isDirty =
+    selectedManagerId !== (managerId ?? NONE) || selectedDepartmentId !== (departmentId ?? NONE);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/users/${userId}/reporting-line`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          managerId: selectedManagerId === NONE ? null : selectedManagerId,
+          departmentId: selectedDepartmentId === NONE ? null : selectedDepartmentId,
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to update reporting line');
+      }
+
+      toast.success('Reporting line updated');
+      onSaved?.();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update reporting line');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="manager">Line Manager</Label>
+          <Select value={selectedManagerId} onValueChange={setSelectedManagerId}>
+            <SelectTrigger id="manager">
+              <SelectValue placeholder="Select manager" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>No manager</SelectItem>
+              {users
+                .filter(user => user.id !== userId)
+                .map(user => (
+                  <SelectItem key={user.id} value={user.id}>
+                    {user.name || user.email}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="department">Department / Team</Label>
+          <Select value={selectedDepartmentId} onValueChange={setSelectedDepartmentId}>
+            <SelectTrigger id="department">
+              <SelectValue placeholder="Select department" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>No department</SelectItem>
+              {departments.map(department => (
+                <SelectItem key={department.id} value={department.id}>
+                  {department.parent ? `${department.parent.name} / ${department.name}` : department.name}
+                  {department.costCenter && ` (${department.costCenter})`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={isSaving || !isDirty}>
+          {isSaving ? 'Saving...' : 'Save Reporting Line'}
+        </Button>
+      </div>
+    </div>
+  );
+}
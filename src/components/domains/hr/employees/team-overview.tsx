@@ -0,0 +1,345 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { User } from 'lucide-react';
+import { getDateRangeText, formatLeaveDays } from '@/lib/leave-utils';
+
+interface TeamUser {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
+interface TeamMember extends TeamUser {
+  image: string | null;
+  employeeId: string | null;
+  designation: string | null;
+  photoUrl: string | null;
+  department: { id: string; name: string } | null;
+  isDirectReport: boolean;
+  onLeave: { id: string; endDate: string; leaveType: { name: string; color: string } } | null;
+  _count: { assets: number };
+}
+
+interface TeamLeaveEvent {
+  id: string;
+  requestNumber: string;
+  userName: string | null;
+  userEmail: string;
+  leaveTypeName: string;
+  color: string;
+  startDate: string;
+  endDate: string;
+  totalDays: number | string;
+  status: string;
+}
+
+interface TeamAsset {
+  id: string;
+  assetTag: string | null;
+  type: string;
+  brand: string | null;
+  model: string;
+  status: string;
+  assignedUser: TeamUser | null;
+}
+
+interface TeamRequests {
+  leaveRequests: Array<{
+    id: string;
+    requestNumber: string;
+    startDate: string;
+    endDate: string;
+    totalDays: number | string;
+    user: TeamUser;
+    leaveType: { name: string; color: string };
+  }>;
+  assetRequests: Array<{
+    id: string;
+    requestNumber: string;
+    type: string;
+    status: string;
+    user: TeamUser;
+    asset: { id: string; assetTag: string | null; type: string; model: string };
+  }>;
+  purchaseRequests: Array<{
+    id: string;
+    referenceNumber: string;
+    title: string;
+    status: string;
+    totalAmount: number | string;
+    currency: string;
+    requester: TeamUser;
+  }>;
+}
+
+const LEAVE_WINDOW_DAYS = 60;
+
+function displayName(user: TeamUser | null) {
+  return user ? user.name || user.email : '-';
+}
+
+function formatStatus(status: string) {
+  return status.replace(/_/g, ' ').toLowerCase().replace(/^\w/, c => c.toUpperCase());
+}
+
+export function TeamOverview() {
+  const [includeIndirect, setIncludeIndirect] = useState(false);
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [leave, setLeave] = useState<TeamLeaveEvent[]>([]);
+  const [assets, setAssets] = useState<TeamAsset[]>([]);
+  const [requests, setRequests] = useState<TeamRequests>({
+    leaveRequests: [],
+    assetRequests: [],
+    purchaseRequests: [],
+  });
+  const [loading, setLoading] = useState(true);
+
+  const fetchTeam = useCallback(async () => {
+    setLoading(true);
+    try {
+      const scope = `includeIndirect=${includeIndirect}`;
+      const start = new Date();
+      const end = new Date();
+      end.setDate(end.getDate() + LEAVE_WINDOW_DAYS);
+      const range = `startDate=${start.toISOString()}&endDate=${end.toISOString()}`;
+
+      const [membersRes, leaveRes, assetsRes, requestsRes] = await Promise.all([
+        fetch(`/api/team?${scope}`),
+        fetch(`/api/team/leave?${scope}&${range}`),
+        fetch(`/api/team/assets?${scope}`),
+        fetch(`/api/team/requests?${scope}`),
+      ]);
+
+      if (membersRes.ok) setMembers((await membersRes.json()).members);
+      if (leaveRes.ok) setLeave((await leaveRes.json()).events);
+      if (assetsRes.ok) setAssets((await assetsRes.json()).assets);
+      if (requestsRes.ok) setRequests(await requestsRes.json());
+    } catch (error) {
+      console.error('Failed to fetch team:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [includeIndirect]);
+
+  useEffect(() => {
+    fetchTeam();
+  }, [fetchTeam]);
+
+  const pendingCount =
+    requests.leaveRequests.length + requests.assetRequests.length + requests.purchaseRequests.length;
+
+  if (!loading && members.length === 0 && !includeIndirect) {
+    return (
+      <div className="py-8 text-center text-gray-500">
+        Nobody reports to you yet. Ask HR to set up your team&apos;s reporting lines.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-end gap-2">
+        <Switch id="include-indirect" checked={includeIndirect} onCheckedChange={setIncludeIndirect} />
+        <Label htmlFor="include-indirect">Include indirect reports</Label>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-8">Loading...</div>
+      ) : (
+        <Tabs defaultValue="members">
+          <TabsList>
+            <TabsTrigger value="members">Members ({members.length})</TabsTrigger>
+            <TabsTrigger value="leave">Upcoming Leave ({leave.length})</TabsTrigger>
+            <TabsTrigger value="assets">Assets ({assets.length})</TabsTrigger>
+            <TabsTrigger value="requests">Pending Requests ({pendingCount})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="members">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Employee</TableHead>
+                  <TableHead>Department</TableHead>
+                  <TableHead>Assets</TableHead>
+                  <TableHead>Today</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {members.map(member => (
+                  <TableRow key={member.id}>
+                    <TableCell>
+                      <div className="flex items-center gap-3">
+                        <div className="h-8 w-8 rounded-full bg-gray-200 flex items-center justify-center overflow-hidden">
+                          {member.photoUrl || member.image ? (
+                            <img
+                              src={member.photoUrl || member.image || ''}
+                              alt={member.name || member.email}
+                              className="h-full w-full object-cover"
+                            />
+                          ) : (
+                            <User className="h-4 w-4 text-gray-400" />
+                          )}
+                        </div>
+                        <div>
+                          <div className="font-medium">{member.name || member.email}</div>
+                          <div className="text-xs text-gray-500">
+                            {member.designation || 'No designation'}
+                            {!member.isDirectReport && <> · Indirect</>}
+                          </div>
+                        </div>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">{member.department?.name || '-'}</TableCell>
+                    <TableCell className="text-sm">{member._count.assets}</TableCell>
+                    <TableCell>
+                      {member.onLeave ? (
+                        <Badge variant="secondary">
+                          <span
+                            className="w-2 h-2 rounded-full mr-1.5"
+                            style={{ backgroundColor: member.onLeave.leaveType.color }}
+                          />
+                          {member.onLeave.leaveType.name}
+                        </Badge>
+                      ) : (
+                        <span className="text-sm text-gray-500">Available</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TabsContent>
+
+          <TabsContent value="leave">
+            {leave.length === 0 ? (
+              <div className="py-8 text-center text-gray-500">
+                No leave booked in the next {LEAVE_WINDOW_DAYS} days.
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {leave.map(event => (
+                  <div key={event.id} className="flex items-center justify-between p-3 border rounded-lg">
+                    <div className="flex items-center gap-3">
+                      <div className="w-3 h-3 rounded-full" style={{ backgroundColor: event.color }} />
+                      <div>
+                        <div className="font-medium text-sm">{event.userName || event.userEmail}</div>
+                        <div className="text-xs text-gray-500">
+                          {event.leaveTypeName} · {getDateRangeText(new Date(event.startDate), new Date(event.endDate))}
+                          {' '}· {formatLeaveDays(event.totalDays)}
+                        </div>
+                      </div>
+                    </div>
+                    <Badge variant={event.status === 'APPROVED' ? 'default' : 'secondary'}>
+                      {formatStatus(event.status)}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="assets">
+            {assets.length === 0 ? (
+              <div className="py-8 text-center text-gray-500">
+                No assets are assigned to your team.
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Asset</TableHead>
+                    <TableHead>Tag</TableHead>
+                    <TableHead>Holder</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {assets.map(asset => (
+                    <TableRow key={asset.id}>
+                      <TableCell>
+                        <div className="font-medium">{asset.model}</div>
+                        <div className="text-xs text-gray-500">
+                          {asset.type}{asset.brand && <> · {asset.brand}</>}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm font-mono">{asset.assetTag || '-'}</TableCell>
+                      <TableCell className="text-sm">{displayName(asset.assignedUser)}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{formatStatus(asset.status)}</Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </TabsContent>
+
+          <TabsContent value="requests">
+            {pendingCount === 0 ? (
+              <div className="py-8 text-center text-gray-500">
+                Your team has no open requests.
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {requests.leaveRequests.map(request => (
+                  <div key={request.id} className="flex items-center justify-between p-3 border rounded-lg">
+                    <div>
+                      <div className="font-medium text-sm">
+                        {displayName(request.user)} · {request.leaveType.name}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {request.requestNumber} · {getDateRangeText(new Date(request.startDate), new Date(request.endDate))}
+                        {' '}· {formatLeaveDays(request.totalDays)}
+                      </div>
+                    </div>
+                    <Badge variant="secondary">Leave</Badge>
+                  </div>
+                ))}
+                {requests.assetRequests.map(request => (
+                  <div key={request.id} className="flex items-center justify-between p-3 border rounded-lg">
+                    <div>
+                      <div className="font-medium text-sm">
+                        {displayName(request.user)} · {request.asset.model}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {request.requestNumber} · {formatStatus(request.status)}
+                      </div>
+                    </div>
+                    <Badge variant="secondary">Asset</Badge>
+                  </div>
+                ))}
+                {requests.purchaseRequests.map(request => (
+                  <div key={request.id} className="flex items-center justify-between p-3 border rounded-lg">
+                    <div>
+                      <div className="font-medium text-sm">
+                        {displayName(request.requester)} · {request.title}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {request.referenceNumber} · {request.currency} {Number(request.totalAmount).toLocaleString()}
+                        {' '}· {formatStatus(request.status)}
+                      </div>
+                    </div>
+                    <Badge variant="secondary">Purchase</Badge>
+                  </div>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { DatePicker } from '@/components/ui/date-picker';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowRight, Trash2 } from 'lucide-react';
+import { getDateRangeText } from '@/lib/leave-utils';
+import { toast } from 'sonner';
+
+interface DelegationUser {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
+interface Delegation {
+  id: string;
+  startDate: string;
+  endDate: string;
+  reason?: string | null;
+  delegator: DelegationUser;
+  delegate: DelegationUser;
+}
+
+interface ApprovalDelegationManagerProps {
+  currentUserId: string;
+  /** Admins can set up delegation on behalf of any approver */
+  allowOnBehalf?: boolean;
+}
+
+export function ApprovalDelegationManager({ currentUserId, allowOnBehalf }: ApprovalDelegationManagerProps) {
+  const [delegations, setDelegations] = useState<Delegation[]>([]);
+  const [users, setUsers] = useState<DelegationUser[]>([]);
+  const [delegatorId, setDelegatorId] = useState(currentUserId);
+  const [delegateId, setDelegateId] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDelegations = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/leave/delegations${allowOnBehalf ? '?all=true' : ''}`);
+      if (response.ok) {
+        const data = await response.json();
+        setDelegations(data.delegations);
+      }
+    } catch (err) {
+      console.error('Failed to fetch delegations:', err);
+    }
+  }, [allowOnBehalf]);
+
+  useEffect(() => {
+    fetchDelegations();
+    fetch('/api/leave/delegations/candidates')
+      .then(res => (res.ok ? res.json() : { users: [] }))
+      .then(data => setUsers(data.users))
+      .catch(err => console.error('Failed to fetch users:', err));
+  }, [fetchDelegations]);
+
+  const handleCreate = async () => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/leave/delegations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          delegatorId: allowOnBehalf ? delegatorId : undefined,
+          delegateId,
+          startDate,
+          endDate,
+          reason: reason || null,
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to create delegation');
+      }
+
+      toast.success('Delegation created');
+      setDelegateId('');
+      setStartDate('');
+      setEndDate('');
+      setReason('');
+      fetchDelegations();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    try {
+      const response = await fetch(`/api/leave/delegations/${id}`, { method: 'DELETE' });
+      if (response.ok) {
+        toast.success('Delegation removed');
+        fetchDelegations();
+      } else {
+        const data = await response.json();
+        toast.error(data.error || 'Failed to remove delegation');
+      }
+    } catch (err) {
+      console.error('Failed to remove delegation:', err);
+      toast.error('An error occurred');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {delegations.length > 0 && (
+        <div className="space-y-2">
+          {delegations.map(delegation => {
+            const isOwn = delegation.delegator.id === currentUserId;
+            const isActiveNow = new Date(delegation.startDate) <= new Date();
+            return (
+              <div key={delegation.id} className="flex items-center justify-between p-3 border rounded-lg">
+                <div>
+                  <div className="flex items-center gap-2 text-sm font-medium">
+                    {delegation.delegator.name}
+                    <ArrowRight className="h-3 w-3 text-gray-400" />
+                    {delegation.delegate.name}
+                    {isActiveNow && <Badge variant="secondary">Active</Badge>}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {getDateRangeText(new Date(delegation.startDate), new Date(delegation.endDate))}
+                    {delegation.reason && <> · {delegation.reason}</>}
+                  </div>
+                </div>
+                {(isOwn || allowOnBehalf) && (
+                  <Button variant="ghost" size="icon" onClick={() => handleRemove(delegation.id)}>
+                    <Trash2 className="h-4 w-4 text-red-500" />
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {error && (
+          <div className="bg-red-50 text-red-600 p-3 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
+        {allowOnBehalf && (
+          <div className="space-y-1">
+            <Label>Approver (out of office)</Label>
+            <Select value={delegatorId} onValueChange={setDelegatorId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {users.map(user => (
+                  <SelectItem key={user.id} value={user.id}>
+                    {user.name || user.email}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="space-y-1">
+          <Label>Route approvals to</Label>
+          <Select value={delegateId} onValueChange={setDelegateId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select deputy" />
+            </SelectTrigger>
+            <SelectContent>
+              {users
+                .filter(user => user.id !== delegatorId)
+                .map(user => (
+                  <SelectItem key={user.id} value={user.id}>
+                    {user.name || user.email}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label>From</Label>
+            <DatePicker value={startDate} onChange={setStartDate} />
+          </div>
+          <div className="space-y-1">
+            <Label>Until</Label>
+            <DatePicker
+              value={endDate}
+              onChange={setEndDate}
+              minDate={startDate ? new Date(startDate) : undefined}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <Label>Reason</Label>
+          <Input
+            placeholder="e.g., Annual leave"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+        </div>
+
+        <Button
+          className="w-full"
+          onClick={handleCreate}
+          disabled={isSubmitting || !delegateId || !startDate || !endDate}
+        >
+          {isSubmitting ? 'Saving...' : 'Delegate Approvals'}
+        </Button>
+      </div>
+    </div>
+  );
+}
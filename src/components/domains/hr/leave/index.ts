@@ -7,3 +7,14 @@ export { LeaveApprovalActions } from './leave-approval-actions';
 export { LeaveRequestHistory } from './leave-request-history';
 export { CancelLeaveDialog } from './cancel-leave-dialog';
 export { AdjustBalanceDialog } from './adjust-balance-dialog';
+export { PublicHolidayForm } from './public-holiday-form';
+export { LeaveApprovalChainEditor } from './leave-approval-chain-editor';
+export { LeaveApprovalProgress } from './leave-approval-progress';
+export { ApprovalDelegationManager } from './approval-delegation-manager';
+export { PendingLeaveApprovals } from './pending-leave-approvals';
+export { LeaveRolloverManager } from './leave-rollover-manager';
+export { LeaveEncashments } from './leave-encashments';
+export { LeaveConflictAlert } from './leave-conflict-alert';
+export { LeaveBlackoutManager } from './leave-blackout-manager';
+export { LeaveCoverageRuleManager } from './leave-coverage-rule-manager';
+export { LeaveCoverageHeatmap } from './leave-coverage-heatmap';
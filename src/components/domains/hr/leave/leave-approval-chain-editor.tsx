@@ -0,0 +1,248 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowUp, ArrowDown, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface ChainStep {
+  name: string;
+  approverType: 'ADMIN' | 'USER' | 'LINE_MANAGER';
+  approverId: string | null;
+  minDays: number | null;
+}
+
+interface Approver {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
+interface LeaveApprovalChainEditorProps {
+  leaveTypeId: string;
+  onSaved?: () => void;
+}
+
+const EMPTY_STEP: ChainStep = { name: '', approverType: 'ADMIN', approverId: null, minDays: null };
+
+export function LeaveApprovalChainEditor({ leaveTypeId, onSaved }: LeaveApprovalChainEditorProps) {
+  const [steps, setSteps] = useState<ChainStep[]>([]);
+  const [approvers, setApprovers] = useState<Approver[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [chainResponse, usersResponse] = await Promise.all([
+          fetch(`/api/leave/types/${leaveTypeId}/approval-chain`),
+          fetch('/api/leave/delegations/candidates'),
+        ]);
+        if (chainResponse.ok) {
+          const data = await chainResponse.json();
+          setSteps(data.steps.map((step: ChainStep) => ({
+            name: step.name,
+            approverType: step.approverType,
+            approverId: step.approverId,
+            minDays: step.minDays,
+          })));
+        }
+        if (usersResponse.ok) {
+          const data = await usersResponse.json();
+          setApprovers(data.users);
+        }
+      } catch (err) {
+        console.error('Failed to load approval chain:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [leaveTypeId]);
+
+  const updateStep = (index: number, changes: Partial<ChainStep>) => {
+    setSteps(prev => prev.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+  };
+
+  const moveStep = (index: number, direction: -1 | 1) => {
+    setSteps(prev => {
+      const next = [...prev];
+      const target = index + direction;
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/leave/types/${leaveTypeId}/approval-chain`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ steps }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to save approval chain');
+      }
+
+      toast.success('Approval chain saved');
+      onSaved?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-6">Loading...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="bg-red-50 text-red-600 p-3 rounded-md text-sm">
+          {error}
+        </div>
+      )}
+
+      {steps.length === 0 ? (
+        <div className="p-4 bg-gray-50 rounded-md text-sm text-gray-600">
+          No approval chain configured. Any admin can approve requests of this type in a single step.
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {steps.map((step, index) => (
+            <div key={index} className="border rounded-lg p-3 space-y-3">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-gray-500">Step {index + 1}</span>
+                <div className="flex gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => moveStep(index, -1)}
+                    disabled={index === 0}
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => moveStep(index, 1)}
+                    disabled={index === steps.length - 1}
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setSteps(prev => prev.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4 text-red-500" />
+                  </Button>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label>Step Name</Label>
+                  <Input
+                    placeholder="e.g., Line Manager"
+                    value={step.name}
+                    onChange={(e) => updateStep(index, { name: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>Only when at least (days)</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    placeholder="Always"
+                    value={step.minDays ?? ''}
+                    onChange={(e) => updateStep(index, {
+                      minDays: e.target.value === '' ? null : Number(e.target.value),
+                    })}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label>Approved By</Label>
+                  <Select
+                    value={step.approverType}
+                    onValueChange={(value) => updateStep(index, {
+                      approverType: value as ChainStep['approverType'],
+                      approverId: value === 'USER' ? step.approverId : null,
+                    })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="ADMIN">Any admin</SelectItem>
+                      <SelectItem value="LINE_MANAGER">Requester&apos;s line manager</SelectItem>
+                      <SelectItem value="USER">Specific person</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {step.approverType === 'USER' && (
+                  <div className="space-y-1">
+                    <Label>Approver</Label>
+                    <Select
+                      value={step.approverId ?? ''}
+                      onValueChange={(value) => updateStep(index, { approverId: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select approver" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {approvers.map(approver => (
+                          <SelectItem key={approver.id} value={approver.id}>
+                            {approver.name || approver.email}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                {step.approverType === 'LINE_MANAGER' && (
+                  <p className="self-end text-xs text-gray-500 pb-2">
+                    Falls back to any admin when the requester has no manager
+                  </p>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500">
+        Changes apply to new requests only. Days stay pending until the last step approves.
+      </p>
+
+      <div className="flex justify-between">
+        <Button
+          variant="outline"
+          onClick={() => setSteps(prev => [...prev, { ...EMPTY_STEP }])}
+          disabled={steps.length >= 10}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Step
+        </Button>
+        <Button onClick={handleSave} disabled={isSaving}>
+          {isSaving ? 'Saving...' : 'Save Chain'}
+        </Button>
+      </div>
+    </div>
+  );
+}
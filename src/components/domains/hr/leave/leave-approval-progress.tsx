@@ -0,0 +1,108 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle, XCircle, Clock, MinusCircle } from 'lucide-react';
+
+interface ApprovalStep {
+  id: string;
+  stepOrder: number;
+  name: string;
+  approverType: string;
+  status: string;
+  actedAt?: string | null;
+  notes?: string | null;
+  approver?: { id: string; name: string | null } | null;
+  actedBy?: { id: string; name: string | null } | null;
+  delegatedFrom?: { id: string; name: string | null } | null;
+}
+
+interface LeaveApprovalProgressProps {
+  approvals: ApprovalStep[];
+  currentStep?: number | null;
+}
+
+function getStepIcon(status: string) {
+  switch (status) {
+    case 'APPROVED':
+      return <CheckCircle className="h-5 w-5 text-green-500" />;
+    case 'REJECTED':
+      return <XCircle className="h-5 w-5 text-red-500" />;
+    case 'SKIPPED':
+      return <MinusCircle className="h-5 w-5 text-gray-300" />;
+    default:
+      return <Clock className="h-5 w-5 text-amber-500" />;
+  }
+}
+
+function getStepVariant(status: string): 'default' | 'secondary' | 'destructive' | 'outline' {
+  switch (status) {
+    case 'APPROVED':
+      return 'default';
+    case 'REJECTED':
+      return 'destructive';
+    case 'SKIPPED':
+      return 'outline';
+    default:
+      return 'secondary';
+  }
+}
+
+export function LeaveApprovalProgress({ approvals, currentStep }: LeaveApprovalProgressProps) {
+  if (!approvals || approvals.length === 0) {
+    return (
+      <div className="text-sm text-gray-500">
+        Single-step approval by an administrator
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {approvals.map((step) => {
+        const isCurrent = step.status === 'PENDING' && step.stepOrder === currentStep;
+        const assignee = step.approverType === 'ADMIN' ? 'Any admin' : step.approver?.name || 'Unassigned';
+
+        return (
+          <div
+            key={step.id}
+            className={`flex gap-3 p-3 rounded-lg border ${isCurrent ? 'border-amber-300 bg-amber-50' : ''}`}
+          >
+            {getStepIcon(step.status)}
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium text-sm">
+                  {step.stepOrder}. {step.name}
+                </span>
+                <Badge variant={getStepVariant(step.status)}>
+                  {isCurrent ? 'Awaiting' : step.status}
+                </Badge>
+              </div>
+              <div className="text-xs text-gray-500 mt-1">
+                {step.actedBy ? (
+                  <>
+                    {step.status === 'REJECTED' ? 'Rejected' : 'Approved'} by {step.actedBy.name}
+                    {step.delegatedFrom && <> on behalf of {step.delegatedFrom.name}</>}
+                    {step.actedAt && (
+                      <> · {new Date(step.actedAt).toLocaleDateString('en-GB', {
+                        day: 'numeric',
+                        month: 'short',
+                        year: 'numeric',
+                      })}</>
+                    )}
+                  </>
+                ) : (
+                  <>Approver: {assignee}</>
+                )}
+              </div>
+              {step.notes && (
+                <div className="mt-2 p-2 bg-gray-50 rounded text-xs text-gray-600">
+                  {step.notes}
+                </div>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
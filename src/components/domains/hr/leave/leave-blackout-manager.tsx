@@ -0,0 +1,240 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { DatePicker } from '@/components/ui/date-picker';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Trash2 } from 'lucide-react';
+import { getDateRangeText } from '@/lib/leave-utils';
+import { toast } from 'sonner';
+import type { LeaveBlackoutPeriod } from '@/lib/types/leave';
+
+interface Department {
+  id: string;
+  name: string;
+}
+
+const ALL_DEPARTMENTS = 'all';
+
+/**
+ * Admin list of blackout periods (e.g., project go-live dates) with an
+ * inline form to add new ones
+ */
+export function LeaveBlackoutManager() {
+  const [blackouts, setBlackouts] = useState<LeaveBlackoutPeriod[]>([]);
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [departmentId, setDepartmentId] = useState(ALL_DEPARTMENTS);
+  const [block, setBlock] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchBlackouts = useCallback(async () => {
+    try {
+      const response = await fetch('/api/leave/blackouts?includeInactive=true');
+      if (response.ok) {
+        const data = await response.json();
+        setBlackouts(data.blackouts);
+      }
+    } catch (err) {
+      console.error('Failed to fetch blackout periods:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchBlackouts();
+    fetch('/api/departments')
+      .then(res => (res.ok ? res.json() : { departments: [] }))
+      .then(data => setDepartments(data.departments))
+      .catch(err => console.error('Failed to fetch departments:', err));
+  }, [fetchBlackouts]);
+
+  const handleCreate = async () => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/leave/blackouts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          description: description || null,
+          startDate,
+          endDate,
+          enforcement: block ? 'BLOCK' : 'WARN',
+          departmentId: departmentId === ALL_DEPARTMENTS ? null : departmentId,
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to create blackout period');
+      }
+
+      toast.success('Blackout period added');
+      setName('');
+      setDescription('');
+      setStartDate('');
+      setEndDate('');
+      fetchBlackouts();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleToggle = async (blackout: LeaveBlackoutPeriod, isActive: boolean) => {
+    try {
+      const response = await fetch(`/api/leave/blackouts/${blackout.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to update blackout period');
+      }
+      fetchBlackouts();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    try {
+      const response = await fetch(`/api/leave/blackouts/${id}`, { method: 'DELETE' });
+      if (response.ok) {
+        toast.success('Blackout period removed');
+        fetchBlackouts();
+      } else {
+        const data = await response.json();
+        toast.error(data.error || 'Failed to remove blackout period');
+      }
+    } catch (err) {
+      console.error('Failed to remove blackout period:', err);
+      toast.error('An error occurred');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {blackouts.length === 0 ? (
+        <p className="text-sm text-gray-500">No blackout periods configured.</p>
+      ) : (
+        <div className="space-y-2">
+          {blackouts.map(blackout => (
+            <div key={blackout.id} className="flex items-center justify-between p-3 border rounded-lg">
+              <div>
+                <div className="flex items-center gap-2 text-sm font-medium">
+                  {blackout.name}
+                  <Badge variant={blackout.enforcement === 'BLOCK' ? 'destructive' : 'secondary'}>
+                    {blackout.enforcement === 'BLOCK' ? 'Blocks requests' : 'Warning only'}
+                  </Badge>
+                  <Badge variant="outline">{blackout.department?.name || 'All employees'}</Badge>
+                </div>
+                <div className="text-xs text-gray-500">
+                  {getDateRangeText(new Date(blackout.startDate), new Date(blackout.endDate))}
+                  {blackout.description && <> · {blackout.description}</>}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={blackout.isActive}
+                  onCheckedChange={(checked) => handleToggle(blackout, checked)}
+                  aria-label="Active"
+                />
+                <Button variant="ghost" size="icon" onClick={() => handleRemove(blackout.id)}>
+                  <Trash2 className="h-4 w-4 text-red-500" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {error && (
+          <div className="bg-red-50 text-red-600 p-3 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="grid md:grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label>Name</Label>
+            <Input
+              placeholder="e.g., ERP go-live"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Applies to</Label>
+            <Select value={departmentId} onValueChange={setDepartmentId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_DEPARTMENTS}>All employees</SelectItem>
+                {departments.map(department => (
+                  <SelectItem key={department.id} value={department.id}>
+                    {department.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label>From</Label>
+            <DatePicker value={startDate} onChange={setStartDate} />
+          </div>
+          <div className="space-y-1">
+            <Label>Until</Label>
+            <DatePicker
+              value={endDate}
+              onChange={setEndDate}
+              minDate={startDate ? new Date(startDate) : undefined}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <Label>Description</Label>
+          <Input
+            placeholder="Optional"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label htmlFor="blackout-block">Block requests</Label>
+            <p className="text-sm text-gray-500">When off, employees are only warned</p>
+          </div>
+          <Switch id="blackout-block" checked={block} onCheckedChange={setBlock} />
+        </div>
+
+        <Button
+          className="w-full"
+          onClick={handleCreate}
+          disabled={isSubmitting || !name || !startDate || !endDate}
+        >
+          {isSubmitting ? 'Saving...' : 'Add Blackout Period'}
+        </Button>
+      </div>
+    </div>
+  );
+}
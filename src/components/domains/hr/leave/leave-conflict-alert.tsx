@@ -0,0 +1,90 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertTriangle, Ban } from 'lucide-react';
+import type { LeaveConflictReport } from '@/lib/types/leave';
+
+interface LeaveConflictAlertProps {
+  startDate: string;
+  endDate: string;
+  /** Employee taking the leave; defaults to the signed-in user */
+  userId?: string;
+  /** Existing request to leave out of the check (when reviewing it) */
+  excludeRequestId?: string;
+  onReportChange?: (report: LeaveConflictReport | null) => void;
+}
+
+/**
+ * Warns about blackout periods and team coverage limits for a date range.
+ * Renders nothing when the dates are clear.
+ */
+export function LeaveConflictAlert({
+  startDate,
+  endDate,
+  userId,
+  excludeRequestId,
+  onReportChange,
+}: LeaveConflictAlertProps) {
+  const [report, setReport] = useState<LeaveConflictReport | null>(null);
+
+  useEffect(() => {
+    if (!startDate || !endDate || new Date(startDate) > new Date(endDate)) {
+      setReport(null);
+      onReportChange?.(null);
+      return;
+    }
+
+    const params = new URLSearchParams({ startDate, endDate });
+    if (userId) params.set('userId', userId);
+    if (excludeRequestId) params.set('excludeRequestId', excludeRequestId);
+
+    let cancelled = false;
+    fetch(`/api/leave/conflicts?${params}`)
+      .then(res => (res.ok ? res.json() : null))
+      .then((data: LeaveConflictReport | null) => {
+        if (cancelled) return;
+        setReport(data);
+        onReportChange?.(data);
+      })
+      .catch(err => console.error('Failed to check leave conflicts:', err));
+
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [startDate, endDate, userId, excludeRequestId]);
+
+  if (!report || report.conflicts.length === 0) {
+    return null;
+  }
+
+  return (
+    <Alert variant={report.blocked ? 'error' : 'warning'}>
+      <div className="flex gap-2">
+        {report.blocked ? (
+          <Ban className="h-4 w-4 mt-0.5 shrink-0" />
+        ) : (
+          <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+        )}
+        <div>
+          <AlertTitle>
+            {report.blocked ? 'These dates cannot be requested' : 'Team coverage warning'}
+          </AlertTitle>
+          <AlertDescription>
+            <ul className="list-disc pl-4 space-y-1">
+              {report.conflicts.map(conflict => (
+                <li key={`${conflict.type}-${conflict.sourceId}`}>
+                  {conflict.message}
+                  {conflict.colleagues.length > 0 && (
+                    <span className="text-xs opacity-80"> (already off: {conflict.colleagues.join(', ')})</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </div>
+      </div>
+    </Alert>
+  );
+}
@@ -0,0 +1,192 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+import { toDateKey } from '@/lib/domains/hr/leave/holiday-calendar';
+import type { LeaveCoverageHeatmap as Heatmap, LeaveCoverageCell } from '@/lib/types/leave';
+
+interface Department {
+  id: string;
+  name: string;
+}
+
+interface LeaveCoverageHeatmapProps {
+  /** Show the department filter (admins see every department) */
+  showDepartmentFilter?: boolean;
+}
+
+const ALL_DEPARTMENTS = 'all';
+
+function getCellClass(cell: LeaveCoverageCell, headcount: number): string {
+  if (cell.onLeave === 0) return 'bg-green-50 text-green-700';
+  const ratio = cell.onLeave / headcount;
+  if (ratio >= 0.5) return 'bg-red-500 text-white';
+  if (ratio >= 0.25) return 'bg-orange-300 text-orange-900';
+  return 'bg-yellow-200 text-yellow-900';
+}
+
+/**
+ * Day-by-day heatmap of how many people in each team are on leave
+ * (approved and pending), with weekends, holidays and blackout days marked
+ */
+export function LeaveCoverageHeatmap({ showDepartmentFilter = false }: LeaveCoverageHeatmapProps) {
+  const [month, setMonth] = useState(() => {
+    const today = new Date();
+    return new Date(today.getFullYear(), today.getMonth(), 1);
+  });
+  const [departmentId, setDepartmentId] = useState(ALL_DEPARTMENTS);
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [heatmap, setHeatmap] = useState<Heatmap | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHeatmap = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({
+        startDate: toDateKey(month),
+        endDate: toDateKey(new Date(month.getFullYear(), month.getMonth() + 1, 0)),
+      });
+      if (departmentId !== ALL_DEPARTMENTS) params.set('departmentId', departmentId);
+
+      const response = await fetch(`/api/leave/team-coverage?${params}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load coverage');
+      }
+      setHeatmap(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load coverage');
+    } finally {
+      setLoading(false);
+    }
+  }, [month, departmentId]);
+
+  useEffect(() => {
+    fetchHeatmap();
+  }, [fetchHeatmap]);
+
+  useEffect(() => {
+    if (!showDepartmentFilter) return;
+    fetch('/api/departments')
+      .then(res => (res.ok ? res.json() : { departments: [] }))
+      .then(data => setDepartments(data.departments))
+      .catch(err => console.error('Failed to fetch departments:', err));
+  }, [showDepartmentFilter]);
+
+  const shiftMonth = (delta: number) => {
+    setMonth(current => new Date(current.getFullYear(), current.getMonth() + delta, 1));
+  };
+
+  const blackoutsOn = (date: string) =>
+    (heatmap?.blackouts ?? []).filter(blackout =>
+      toDateKey(new Date(blackout.startDate)) <= date && toDateKey(new Date(blackout.endDate)) >= date
+    );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => shiftMonth(-1)}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="font-medium w-36 text-center">
+            {month.toLocaleDateString('en-GB', { month: 'long', year: 'numeric' })}
+          </span>
+          <Button variant="outline" size="icon" onClick={() => shiftMonth(1)}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+        {showDepartmentFilter && (
+          <Select value={departmentId} onValueChange={setDepartmentId}>
+            <SelectTrigger className="w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_DEPARTMENTS}>All departments</SelectItem>
+              {departments.map(department => (
+                <SelectItem key={department.id} value={department.id}>
+                  {department.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {error ? (
+        <div className="bg-red-50 text-red-600 p-3 rounded-md text-sm">{error}</div>
+      ) : loading && !heatmap ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : heatmap && heatmap.rows.length === 0 ? (
+        <p className="text-sm text-gray-500">No employees to show.</p>
+      ) : heatmap && (
+        <div className="overflow-x-auto">
+          <table className="text-xs border-collapse">
+            <thead>
+              <tr>
+                <th className="sticky left-0 bg-white text-left font-medium pr-3 min-w-[160px]">Team</th>
+                {heatmap.days.map(day => {
+                  const date = new Date(`${day.date}T00:00:00`);
+                  const blackouts = blackoutsOn(day.date);
+                  return (
+                    <th
+                      key={day.date}
+                      className={`w-7 text-center font-normal ${day.isWeekend || day.isHoliday ? 'text-gray-400' : ''}`}
+                      title={blackouts.map(blackout => blackout.name).join(', ') || undefined}
+                    >
+                      <div>{date.toLocaleDateString('en-GB', { weekday: 'narrow' })}</div>
+                      <div className={blackouts.length > 0 ? 'border-b-2 border-red-500 font-semibold' : ''}>
+                        {date.getDate()}
+                      </div>
+                    </th>
+                  );
+                })}
+              </tr>
+            </thead>
+            <tbody>
+              {heatmap.rows.map(row => (
+                <tr key={row.departmentId ?? 'none'}>
+                  <td className="sticky left-0 bg-white pr-3 py-0.5 whitespace-nowrap">
+                    {row.departmentName}
+                    <span className="text-gray-400 ml-1">({row.headcount})</span>
+                  </td>
+                  {row.cells.map((cell, index) => {
+                    const day = heatmap.days[index];
+                    const offDay = day.isWeekend || day.isHoliday;
+                    return (
+                      <td key={cell.date} className="p-0.5">
+                        <div
+                          className={`h-7 w-7 rounded flex items-center justify-center ${
+                            offDay ? 'bg-gray-100 text-gray-400' : getCellClass(cell, row.headcount)
+                          }`}
+                          title={cell.names.length > 0 ? `On leave: ${cell.names.join(', ')}` : undefined}
+                        >
+                          {cell.onLeave > 0 ? cell.onLeave : ''}
+                        </div>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-4 text-xs text-gray-600">
+        <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-green-50 border" /> Full cover</span>
+        <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-yellow-200" /> Under 25% off</span>
+        <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-orange-300" /> 25–50% off</span>
+        <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-red-500" /> Half or more off</span>
+        <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-gray-100 border" /> Weekend / holiday</span>
+        <span className="flex items-center gap-1"><span className="w-3 border-b-2 border-red-500" /> Blackout period</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,276 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { LeaveCoverageScope } from '@prisma/client';
+import type { LeaveCoverageRule } from '@/lib/types/leave';
+
+interface Department {
+  id: string;
+  name: string;
+}
+
+const ALL_DEPARTMENTS = 'all';
+
+const SCOPE_LABELS: Record<LeaveCoverageScope, string> = {
+  DEPARTMENT: 'Team / department',
+  DESIGNATION: 'Designation',
+  CRITICAL_ROLE: 'Critical roles',
+};
+
+function describeRuleGroup(rule: LeaveCoverageRule): string {
+  switch (rule.scope) {
+    case 'DEPARTMENT':
+      return rule.department?.name || 'Department';
+    case 'DESIGNATION':
+      return rule.designation || 'Designation';
+    default:
+      return rule.department ? `Critical roles in ${rule.department.name}` : 'Critical roles (company-wide)';
+  }
+}
+
+/**
+ * Admin list of coverage rules limiting how many people in a team,
+ * designation or critical role can be on leave at once
+ */
+export function LeaveCoverageRuleManager() {
+  const [rules, setRules] = useState<LeaveCoverageRule[]>([]);
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [name, setName] = useState('');
+  const [scope, setScope] = useState<LeaveCoverageScope>('DEPARTMENT');
+  const [departmentId, setDepartmentId] = useState('');
+  const [designation, setDesignation] = useState('');
+  const [maxOnLeave, setMaxOnLeave] = useState('1');
+  const [block, setBlock] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRules = useCallback(async () => {
+    try {
+      const response = await fetch('/api/leave/coverage-rules');
+      if (response.ok) {
+        const data = await response.json();
+        setRules(data.rules);
+      }
+    } catch (err) {
+      console.error('Failed to fetch coverage rules:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRules();
+    fetch('/api/departments')
+      .then(res => (res.ok ? res.json() : { departments: [] }))
+      .then(data => setDepartments(data.departments))
+      .catch(err => console.error('Failed to fetch departments:', err));
+  }, [fetchRules]);
+
+  const handleCreate = async () => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/leave/coverage-rules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          scope,
+          departmentId: scope === 'DESIGNATION' || !departmentId || departmentId === ALL_DEPARTMENTS
+            ? null
+            : departmentId,
+          designation: scope === 'DESIGNATION' ? designation : null,
+          maxOnLeave: parseInt(maxOnLeave, 10),
+          enforcement: block ? 'BLOCK' : 'WARN',
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to create coverage rule');
+      }
+
+      toast.success('Coverage rule added');
+      setName('');
+      setDesignation('');
+      fetchRules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleToggle = async (rule: LeaveCoverageRule, isActive: boolean) => {
+    try {
+      const response = await fetch(`/api/leave/coverage-rules/${rule.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to update coverage rule');
+      }
+      fetchRules();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    try {
+      const response = await fetch(`/api/leave/coverage-rules/${id}`, { method: 'DELETE' });
+      if (response.ok) {
+        toast.success('Coverage rule removed');
+        fetchRules();
+      } else {
+        const data = await response.json();
+        toast.error(data.error || 'Failed to remove coverage rule');
+      }
+    } catch (err) {
+      console.error('Failed to remove coverage rule:', err);
+      toast.error('An error occurred');
+    }
+  };
+
+  const parsedMax = parseInt(maxOnLeave, 10);
+  const isValid = !!name &&
+    parsedMax >= 1 &&
+    (scope !== 'DEPARTMENT' || (!!departmentId && departmentId !== ALL_DEPARTMENTS)) &&
+    (scope !== 'DESIGNATION' || !!designation.trim());
+
+  return (
+    <div className="space-y-6">
+      {rules.length === 0 ? (
+        <p className="text-sm text-gray-500">No coverage rules configured.</p>
+      ) : (
+        <div className="space-y-2">
+          {rules.map(rule => (
+            <div key={rule.id} className="flex items-center justify-between p-3 border rounded-lg">
+              <div>
+                <div className="flex items-center gap-2 text-sm font-medium">
+                  {rule.name}
+                  <Badge variant={rule.enforcement === 'BLOCK' ? 'destructive' : 'secondary'}>
+                    {rule.enforcement === 'BLOCK' ? 'Blocks requests' : 'Warning only'}
+                  </Badge>
+                </div>
+                <div className="text-xs text-gray-500">
+                  {describeRuleGroup(rule)} · at most {rule.maxOnLeave} on leave at once
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={rule.isActive}
+                  onCheckedChange={(checked) => handleToggle(rule, checked)}
+                  aria-label="Active"
+                />
+                <Button variant="ghost" size="icon" onClick={() => handleRemove(rule.id)}>
+                  <Trash2 className="h-4 w-4 text-red-500" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {error && (
+          <div className="bg-red-50 text-red-600 p-3 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="grid md:grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label>Name</Label>
+            <Input
+              placeholder="e.g., Finance minimum cover"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Limit applies to</Label>
+            <Select value={scope} onValueChange={(value) => setScope(value as LeaveCoverageScope)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(SCOPE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-3">
+          {scope === 'DESIGNATION' ? (
+            <div className="space-y-1">
+              <Label>Designation</Label>
+              <Input
+                placeholder="e.g., Accountant"
+                value={designation}
+                onChange={(e) => setDesignation(e.target.value)}
+              />
+            </div>
+          ) : (
+            <div className="space-y-1">
+              <Label>Department</Label>
+              <Select value={departmentId} onValueChange={setDepartmentId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select department" />
+                </SelectTrigger>
+                <SelectContent>
+                  {scope === 'CRITICAL_ROLE' && (
+                    <SelectItem value={ALL_DEPARTMENTS}>Company-wide</SelectItem>
+                  )}
+                  {departments.map(department => (
+                    <SelectItem key={department.id} value={department.id}>
+                      {department.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-1">
+            <Label>Maximum on leave at once</Label>
+            <Input
+              type="number"
+              min={1}
+              value={maxOnLeave}
+              onChange={(e) => setMaxOnLeave(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label htmlFor="coverage-block">Block requests</Label>
+            <p className="text-sm text-gray-500">When off, employees are only warned</p>
+          </div>
+          <Switch id="coverage-block" checked={block} onCheckedChange={setBlock} />
+        </div>
+
+        <Button
+          className="w-full"
+          onClick={handleCreate}
+          disabled={isSubmitting || !isValid}
+        >
+          {isSubmitting ? 'Saving...' : 'Add Coverage Rule'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,438 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Ban, Check, Loader2, Plus, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatCurrency } from '@/lib/payroll/utils';
+import { getLeaveStatusText, getLeaveStatusVariant } from '@/lib/leave-utils';
+import type { LeaveEncashment, LeaveEncashmentPreview } from '@/lib/types/leave';
+
+export interface EncashableBalanceOption {
+  id: string;
+  leaveTypeName: string;
+  year: number;
+}
+
+interface LeaveEncashmentsProps {
+  /** Admins see everyone's requests and approve or reject them */
+  canReview: boolean;
+  /** The current user's balances that can be encashed; requesting is hidden without them */
+  balances?: EncashableBalanceOption[];
+}
+
+export function LeaveEncashments({ canReview, balances = [] }: LeaveEncashmentsProps) {
+  const [encashments, setEncashments] = useState<LeaveEncashment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState(canReview ? 'PENDING' : 'ALL');
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [leaveBalanceId, setLeaveBalanceId] = useState(balances[0]?.id || '');
+  const [days, setDays] = useState('');
+  const [reason, setReason] = useState('');
+  const [preview, setPreview] = useState<LeaveEncashmentPreview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [rejecting, setRejecting] = useState<LeaveEncashment | null>(null);
+  const [rejectReason, setRejectReason] = useState('');
+  const [actionId, setActionId] = useState<string | null>(null);
+
+  const fetchEncashments = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const query = statusFilter === 'ALL' ? '' : `?status=${statusFilter}`;
+      const response = await fetch(`/api/leave/encashments${query}`);
+      if (!response.ok) throw new Error('Failed to fetch leave encashments');
+      const data = await response.json();
+      setEncashments(data.encashments);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to fetch leave encashments');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    fetchEncashments();
+  }, [fetchEncashments]);
+
+  // Price the request as it is filled in
+  useEffect(() => {
+    if (!dialogOpen || !leaveBalanceId) return;
+
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const response = await fetch(
+          `/api/leave/encashments/preview?leaveBalanceId=${leaveBalanceId}&days=${parseFloat(days) || 0}`
+        );
+        const data = await response.json();
+        if (cancelled) return;
+        if (response.ok) {
+          setPreview(data);
+          setPreviewError(null);
+        } else {
+          setPreviewError(data.error || 'Failed to price encashment');
+        }
+      } catch {
+        if (!cancelled) setPreviewError('Failed to price encashment');
+      }
+    };
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dialogOpen, leaveBalanceId, days]);
+
+  const openDialog = () => {
+    setLeaveBalanceId(balances[0]?.id || '');
+    setDays('');
+    setReason('');
+    setPreview(null);
+    setPreviewError(null);
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/leave/encashments', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          leaveBalanceId,
+          days: parseFloat(days),
+          reason: reason || null,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to request encashment');
+      }
+
+      toast.success(`Encashment ${data.requestNumber} submitted for approval`);
+      setDialogOpen(false);
+      fetchEncashments();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to request encashment');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const runAction = async (
+    encashment: LeaveEncashment,
+    action: 'approve' | 'reject' | 'cancel',
+    rejectionReason?: string
+  ) => {
+    setActionId(encashment.id);
+    try {
+      const response = await fetch(`/api/leave/encashments/${encashment.id}/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(action === 'reject' ? { reason: rejectionReason } : {}),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || `Failed to ${action} encashment`);
+      }
+
+      toast.success(
+        action === 'approve'
+          ? 'Encashment approved and added to the next payroll run'
+          : action === 'reject' ? 'Encashment rejected' : 'Encashment cancelled'
+      );
+      setRejecting(null);
+      fetchEncashments();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : `Failed to ${action} encashment`);
+    } finally {
+      setActionId(null);
+    }
+  };
+
+  const requestedDays = parseFloat(days);
+  const canSubmit = !!leaveBalanceId && requestedDays > 0 && !previewError;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Leave Encashment</CardTitle>
+          <CardDescription>
+            Unused days are paid at the daily rate (gross salary / 30). Approved encashments are
+            deducted from the balance and paid in the next payroll run.
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="ALL">All</SelectItem>
+              <SelectItem value="PENDING">Pending</SelectItem>
+              <SelectItem value="APPROVED">Approved</SelectItem>
+              <SelectItem value="REJECTED">Rejected</SelectItem>
+              <SelectItem value="CANCELLED">Cancelled</SelectItem>
+            </SelectContent>
+          </Select>
+          {balances.length > 0 && (
+            <Button onClick={openDialog}>
+              <Plus className="mr-2 h-4 w-4" />
+              Request Encashment
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : encashments.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No encashment requests found
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Request</TableHead>
+                {canReview && <TableHead>Employee</TableHead>}
+                <TableHead>Leave Type</TableHead>
+                <TableHead className="text-right">Days</TableHead>
+                <TableHead className="text-right">Daily Rate</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {encashments.map(encashment => (
+                <TableRow key={encashment.id}>
+                  <TableCell>
+                    <div className="font-medium">{encashment.requestNumber}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {new Date(encashment.createdAt).toLocaleDateString()}
+                    </div>
+                  </TableCell>
+                  {canReview && (
+                    <TableCell>{encashment.user.name || encashment.user.email}</TableCell>
+                  )}
+                  <TableCell>
+                    {encashment.leaveBalance.leaveType.name} ({encashment.leaveBalance.year})
+                    {encashment.reason && (
+                      <div className="text-xs text-muted-foreground">{encashment.reason}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{encashment.days}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(encashment.dailyRate)}</TableCell>
+                  <TableCell className="text-right font-medium">{formatCurrency(encashment.amount)}</TableCell>
+                  <TableCell>
+                    <Badge variant={getLeaveStatusVariant(encashment.status)}>
+                      {getLeaveStatusText(encashment.status)}
+                    </Badge>
+                    {encashment.payslip && (
+                      <div className="text-xs text-muted-foreground mt-1">
+                        Paid on {encashment.payslip.payslipNumber}
+                      </div>
+                    )}
+                    {encashment.reviewerNotes && (
+                      <div className="text-xs text-muted-foreground mt-1">{encashment.reviewerNotes}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {encashment.status === 'PENDING' && (
+                      <div className="flex justify-end gap-1">
+                        {canReview && (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Approve"
+                              disabled={actionId !== null}
+                              onClick={() => runAction(encashment, 'approve')}
+                            >
+                              {actionId === encashment.id ? (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                              ) : (
+                                <Check className="h-4 w-4 text-green-600" />
+                              )}
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Reject"
+                              disabled={actionId !== null}
+                              onClick={() => {
+                                setRejectReason('');
+                                setRejecting(encashment);
+                              }}
+                            >
+                              <X className="h-4 w-4 text-red-500" />
+                            </Button>
+                          </>
+                        )}
+                        {!canReview && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Cancel request"
+                            disabled={actionId !== null}
+                            onClick={() => runAction(encashment, 'cancel')}
+                          >
+                            <Ban className="h-4 w-4 text-muted-foreground" />
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Request Leave Encashment</DialogTitle>
+            <DialogDescription>
+              The requested days are held from your balance until the request is decided.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Leave Balance</Label>
+                <Select value={leaveBalanceId} onValueChange={setLeaveBalanceId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {balances.map(balance => (
+                      <SelectItem key={balance.id} value={balance.id}>
+                        {balance.leaveTypeName} ({balance.year})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="encashment-days">Days *</Label>
+                <Input
+                  id="encashment-days"
+                  type="number"
+                  step="0.5"
+                  min="0.5"
+                  max={preview?.encashableDays}
+                  value={days}
+                  onChange={(e) => setDays(e.target.value)}
+                />
+              </div>
+            </div>
+
+            {previewError ? (
+              <p className="text-sm text-red-500">{previewError}</p>
+            ) : preview && (
+              <div className="rounded-md bg-muted p-3 text-sm space-y-1">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Days available to encash</span>
+                  <span>{preview.encashableDays}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Daily rate</span>
+                  <span>{formatCurrency(preview.dailyRate)}</span>
+                </div>
+                <div className="flex justify-between font-medium">
+                  <span>Encashment value</span>
+                  <span>{formatCurrency(preview.amount)}</span>
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-1">
+              <Label htmlFor="encashment-reason">Reason</Label>
+              <Textarea
+                id="encashment-reason"
+                rows={2}
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={isSaving || !canSubmit}>
+              {isSaving ? 'Submitting...' : 'Submit'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={rejecting !== null} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Encashment</DialogTitle>
+            <DialogDescription>
+              {rejecting?.user.name} · {rejecting?.days} days of {rejecting?.leaveBalance.leaveType.name}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-1">
+            <Label htmlFor="encashment-reject-reason">Reason *</Label>
+            <Textarea
+              id="encashment-reject-reason"
+              rows={3}
+              value={rejectReason}
+              onChange={(e) => setRejectReason(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!rejectReason || actionId !== null}
+              onClick={() => rejecting && runAction(rejecting, 'reject', rejectReason)}
+            >
+              Reject
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
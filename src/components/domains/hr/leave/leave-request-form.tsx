@@ -11,8 +11,11 @@ import { DatePicker } from '@/components/ui/date-picker';
 import { createLeaveRequestSchema } from '@/lib/validations/leave';
 import { useState, useEffect } from 'react';
 import { calculateWorkingDays, formatLeaveDays, calculateRemainingBalance } from '@/lib/leave-utils';
+import { createWorkingCalendar, HolidayOccurrence } from '@/lib/domains/hr/leave/holiday-calendar';
 import { LeaveRequestType } from '@prisma/client';
 import { AlertCircle, CheckCircle2 } from 'lucide-react';
+import { LeaveConflictAlert } from '@/components/domains/hr/leave/leave-conflict-alert';
+import type { LeaveConflictReport } from '@/lib/types/leave';
 
 // Define form data type that matches form structure
 interface FormData {
@@ -23,6 +26,7 @@ interface FormData {
   reason?: string | null;
   documentUrl?: string | null;
   adminOverrideNotice?: boolean;
+  adminOverrideConflicts?: boolean;
 }
 
 interface LeaveType {
@@ -68,6 +72,8 @@ export function LeaveRequestForm({ leaveTypes, balances, onSuccess, isAdmin = fa
   const [calculatedDays, setCalculatedDays] = useState<number | null>(null);
   const [selectedLeaveType, setSelectedLeaveType] = useState<LeaveType | null>(null);
   const [selectedBalance, setSelectedBalance] = useState<LeaveBalance | null>(null);
+  const [holidaysInRange, setHolidaysInRange] = useState<HolidayOccurrence[]>([]);
+  const [conflictReport, setConflictReport] = useState<LeaveConflictReport | null>(null);
 
   const form = useForm<FormData>({
     resolver: zodResolver(createLeaveRequestSchema) as never,
@@ -79,6 +85,7 @@ export function LeaveRequestForm({ leaveTypes, balances, onSuccess, isAdmin = fa
       reason: '',
       documentUrl: null,
       adminOverrideNotice: false,
+      adminOverrideConflicts: false,
     },
   });
 
@@ -107,15 +114,41 @@ export function LeaveRequestForm({ leaveTypes, balances, onSuccess, isAdmin = fa
     }
   }, [watchLeaveTypeId, leaveTypes, balances, form]);
 
+  // Fetch public holidays falling within the selected dates
+  useEffect(() => {
+    if (!watchStartDate || !watchEndDate || new Date(watchStartDate) > new Date(watchEndDate)) {
+      setHolidaysInRange([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const params = new URLSearchParams({ startDate: watchStartDate, endDate: watchEndDate });
+
+    fetch(`/api/leave/holidays?${params}`, { signal: controller.signal })
+      .then((response) => (response.ok ? response.json() : { occurrences: [] }))
+      .then((data) => setHolidaysInRange(data.occurrences || []))
+      .catch((err) => {
+        if (err?.name !== 'AbortError') {
+          console.error('Failed to fetch public holidays:', err);
+        }
+      });
+
+    return () => controller.abort();
+  }, [watchStartDate, watchEndDate]);
+
   // Calculate working days when dates change
   // Accrual-based leave (Annual Leave) includes weekends, other leave types exclude weekends
+  // Public holidays are excluded for all leave types
   useEffect(() => {
     if (watchStartDate && watchEndDate) {
       const start = new Date(watchStartDate);
       const end = new Date(watchEndDate);
       if (start <= end) {
         const includeWeekends = selectedLeaveType?.accrualBased === true;
-        const days = calculateWorkingDays(start, end, watchRequestType as LeaveRequestType, includeWeekends);
+        const calendar = createWorkingCalendar(
+          holidaysInRange.map((h) => ({ name: h.name, startDate: h.date, endDate: h.date }))
+        );
+        const days = calculateWorkingDays(start, end, watchRequestType as LeaveRequestType, includeWeekends, calendar);
         setCalculatedDays(days);
       } else {
         setCalculatedDays(null);
@@ -123,7 +156,7 @@ export function LeaveRequestForm({ leaveTypes, balances, onSuccess, isAdmin = fa
     } else {
       setCalculatedDays(null);
     }
-  }, [watchStartDate, watchEndDate, watchRequestType, selectedLeaveType]);
+  }, [watchStartDate, watchEndDate, watchRequestType, selectedLeaveType, holidaysInRange]);
 
   // Calculate available balance for selected leave type
   const getAvailableBalance = (): number => {
@@ -161,6 +194,10 @@ export function LeaveRequestForm({ leaveTypes, balances, onSuccess, isAdmin = fa
   const watchDocumentUrl = form.watch('documentUrl');
   const missingRequiredDocument = selectedLeaveType?.requiresDocument && !watchDocumentUrl;
 
+  // Blackout periods and coverage rules that block the dates (admins can override)
+  const watchOverrideConflicts = form.watch('adminOverrideConflicts');
+  const blockedByConflicts = conflictReport?.blocked === true && !(isAdmin && watchOverrideConflicts);
+
   const onSubmit = async (data: FormData) => {
     setIsSubmitting(true);
     setError(null);
@@ -399,9 +436,20 @@ export function LeaveRequestForm({ leaveTypes, balances, onSuccess, isAdmin = fa
                   ? '(includes weekends)'
                   : '(excludes Fri/Sat weekends)'}
           </span>
+          {holidaysInRange.length > 0 && (
+            <p className="text-xs text-gray-600 mt-1">
+              Public holidays not charged: {Array.from(new Set(holidaysInRange.map((h) => h.name))).join(', ')}
+            </p>
+          )}
         </div>
       )}
 
+      <LeaveConflictAlert
+        startDate={watchStartDate}
+        endDate={watchEndDate}
+        onReportChange={setConflictReport}
+      />
+
       <div className="space-y-2">
         <Label htmlFor="reason">Reason</Label>
         <Textarea
@@ -455,10 +503,25 @@ export function LeaveRequestForm({ leaveTypes, balances, onSuccess, isAdmin = fa
         </div>
       )}
 
+      {/* Admin override for blocking blackout periods and coverage rules */}
+      {isAdmin && conflictReport?.blocked && (
+        <div className="flex items-center gap-2 p-3 bg-amber-50 border border-amber-200 rounded-md">
+          <input
+            type="checkbox"
+            id="adminOverrideConflicts"
+            className="h-4 w-4 rounded border-gray-300 text-amber-600 focus:ring-amber-500"
+            {...form.register('adminOverrideConflicts')}
+          />
+          <label htmlFor="adminOverrideConflicts" className="text-sm text-amber-800">
+            Override blackout period and team coverage limits (Admin only)
+          </label>
+        </div>
+      )}
+
       <Button
         type="submit"
         className="w-full"
-        disabled={isSubmitting || exceedsBalance || availableBalance <= 0 || exceedsMaxConsecutiveDays || missingRequiredDocument}
+        disabled={isSubmitting || exceedsBalance || availableBalance <= 0 || exceedsMaxConsecutiveDays || missingRequiredDocument || blockedByConflicts}
       >
         {isSubmitting ? 'Submitting...' : 'Submit Leave Request'}
       </Button>
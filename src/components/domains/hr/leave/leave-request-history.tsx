@@ -8,6 +8,7 @@ interface HistoryEntry {
   action: string;
   oldStatus?: LeaveStatus | null;
   newStatus?: LeaveStatus | null;
+  approvalStep?: number | null;
   notes?: string | null;
   changes?: Record<string, unknown> | null;
   createdAt: string;
@@ -26,6 +27,7 @@ function getActionIcon(action: string) {
     case 'CREATED':
       return <FileText className="h-4 w-4 text-blue-500" />;
     case 'APPROVED':
+    case 'STEP_APPROVED':
       return <CheckCircle className="h-4 w-4 text-green-500" />;
     case 'REJECTED':
       return <XCircle className="h-4 w-4 text-red-500" />;
@@ -38,8 +40,10 @@ function getActionIcon(action: string) {
   }
 }
 
-function getActionText(action: string): string {
+function getActionText(action: string, approvalStep?: number | null): string {
   switch (action) {
+    case 'STEP_APPROVED':
+      return approvalStep ? `Approval step ${approvalStep} approved` : 'Approval step approved';
     case 'CREATED':
       return 'Request submitted';
     case 'APPROVED':
@@ -50,6 +54,8 @@ function getActionText(action: string): string {
       return 'Request cancelled';
     case 'UPDATED':
       return 'Request updated';
+    case 'RECALCULATED':
+      return 'Days recalculated';
     default:
       return action;
   }
@@ -82,7 +88,7 @@ export function LeaveRequestHistory({ history }: LeaveRequestHistoryProps) {
           <div className="flex-1 pb-4">
             <div className="flex items-center justify-between">
               <div>
-                <p className="font-medium text-sm">{getActionText(entry.action)}</p>
+                <p className="font-medium text-sm">{getActionText(entry.action, entry.approvalStep)}</p>
                 <p className="text-xs text-gray-500">
                   by {entry.performedBy.name || 'Unknown'}
                 </p>
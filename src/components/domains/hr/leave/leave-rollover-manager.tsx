@@ -0,0 +1,289 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { toast } from 'sonner';
+import { CalendarX, Loader2, RefreshCw } from 'lucide-react';
+import type { LeaveCarryForwardExpiryReport, LeaveRolloverReport } from '@/lib/types/leave';
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+/**
+ * Preview and run the year-end leave rollover, and lapse carried days
+ * that passed their expiry date
+ */
+export function LeaveRolloverManager() {
+  const currentYear = new Date().getFullYear();
+  const [fromYear, setFromYear] = useState(String(currentYear - 1));
+  const [preview, setPreview] = useState<LeaveRolloverReport | null>(null);
+  const [expiry, setExpiry] = useState<LeaveCarryForwardExpiryReport | null>(null);
+  const [isLoading, setIsLoading] = useState<'preview' | 'rollover' | 'expiry' | null>(null);
+  const [confirm, setConfirm] = useState<'rollover' | 'expiry' | null>(null);
+
+  const fetchPreview = useCallback(async () => {
+    setIsLoading('preview');
+    try {
+      const [rolloverResponse, expiryResponse] = await Promise.all([
+        fetch(`/api/leave/rollover?year=${fromYear}`),
+        fetch('/api/leave/rollover/expiry'),
+      ]);
+      const [rolloverData, expiryData] = await Promise.all([rolloverResponse.json(), expiryResponse.json()]);
+
+      if (!rolloverResponse.ok) {
+        throw new Error(rolloverData.error || 'Failed to preview rollover');
+      }
+      if (!expiryResponse.ok) {
+        throw new Error(expiryData.error || 'Failed to preview expiry');
+      }
+
+      setPreview(rolloverData);
+      setExpiry(expiryData);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to preview rollover');
+    } finally {
+      setIsLoading(null);
+    }
+  }, [fromYear]);
+
+  useEffect(() => {
+    fetchPreview();
+  }, [fetchPreview]);
+
+  const handleRun = async (action: 'rollover' | 'expiry') => {
+    setConfirm(null);
+    setIsLoading(action);
+    try {
+      const response = await fetch(action === 'rollover' ? '/api/leave/rollover' : '/api/leave/rollover/expiry', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(action === 'rollover' ? { fromYear: parseInt(fromYear, 10) } : {}),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to run rollover');
+      }
+
+      toast.success(
+        action === 'rollover'
+          ? `Rolled ${data.totals.carriedForward} days into ${data.toYear}; ${data.balancesCreated} balances created`
+          : `${data.totalExpiredDays} carried days lapsed`
+      );
+      await fetchPreview();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to run rollover');
+    } finally {
+      setIsLoading(null);
+    }
+  };
+
+  const yearOptions = Array.from({ length: 4 }, (_, i) => currentYear - i);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div>
+              <CardTitle>Year-End Rollover</CardTitle>
+              <CardDescription>
+                Creates next-year balances and carries unused days of carry-forward leave types, up to each
+                type&apos;s cap. Running it again for the same year recalculates the carried days.
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Select value={fromYear} onValueChange={setFromYear}>
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {yearOptions.map(year => (
+                    <SelectItem key={year} value={String(year)}>
+                      {year} → {year + 1}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                onClick={() => setConfirm('rollover')}
+                disabled={!preview || isLoading !== null}
+              >
+                {isLoading === 'rollover' ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <RefreshCw className="mr-2 h-4 w-4" />
+                )}
+                Run Rollover
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading === 'preview' && !preview ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : preview && (
+            <>
+              <div className="grid gap-4 md:grid-cols-4 text-sm">
+                <div className="p-3 rounded-md bg-muted">
+                  <div className="text-muted-foreground">Employees to initialize</div>
+                  <div className="text-xl font-semibold">{preview.usersToInitialize}</div>
+                </div>
+                <div className="p-3 rounded-md bg-muted">
+                  <div className="text-muted-foreground">Employees with unused days</div>
+                  <div className="text-xl font-semibold">{preview.totals.employees}</div>
+                </div>
+                <div className="p-3 rounded-md bg-muted">
+                  <div className="text-muted-foreground">Days carried forward</div>
+                  <div className="text-xl font-semibold text-green-600">{preview.totals.carriedForward}</div>
+                </div>
+                <div className="p-3 rounded-md bg-muted">
+                  <div className="text-muted-foreground">Days forfeited</div>
+                  <div className="text-xl font-semibold text-red-600">{preview.totals.forfeited}</div>
+                </div>
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Employee</TableHead>
+                    <TableHead>Leave Type</TableHead>
+                    <TableHead className="text-right">Unused</TableHead>
+                    <TableHead className="text-right">Cap</TableHead>
+                    <TableHead className="text-right">Carried</TableHead>
+                    <TableHead className="text-right">Forfeited</TableHead>
+                    <TableHead>Expires</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.lines.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center text-muted-foreground">
+                        No unused days in carry-forward leave types for {preview.fromYear}
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    preview.lines.map(line => (
+                      <TableRow key={`${line.userId}-${line.leaveTypeId}`}>
+                        <TableCell className="font-medium">{line.userName}</TableCell>
+                        <TableCell>{line.leaveTypeName}</TableCell>
+                        <TableCell className="text-right">{line.unusedDays}</TableCell>
+                        <TableCell className="text-right">{line.maxCarryForwardDays}</TableCell>
+                        <TableCell className="text-right text-green-600">{line.carryForward}</TableCell>
+                        <TableCell className="text-right text-red-600">{line.forfeited || '-'}</TableCell>
+                        <TableCell>{line.expiresAt ? formatDate(line.expiresAt) : 'Never'}</TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div>
+              <CardTitle>Carry Forward Expiry</CardTitle>
+              <CardDescription>
+                Carried days not used by their expiry date lapse as a negative balance adjustment.
+                This also runs daily with the leave rollover cron job.
+              </CardDescription>
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => setConfirm('expiry')}
+              disabled={!expiry || expiry.lines.length === 0 || isLoading !== null}
+            >
+              {isLoading === 'expiry' ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <CalendarX className="mr-2 h-4 w-4" />
+              )}
+              Lapse Expired Days
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {expiry && expiry.lines.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No carried days are past their expiry date.</p>
+          ) : expiry && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Employee</TableHead>
+                  <TableHead>Leave Type</TableHead>
+                  <TableHead>Expired</TableHead>
+                  <TableHead className="text-right">Carried</TableHead>
+                  <TableHead className="text-right">Lapsing</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {expiry.lines.map(line => (
+                  <TableRow key={line.balanceId}>
+                    <TableCell className="font-medium">{line.userName}</TableCell>
+                    <TableCell>
+                      {line.leaveTypeName} <Badge variant="outline" className="ml-1">{line.year}</Badge>
+                    </TableCell>
+                    <TableCell>{formatDate(line.expiresAt)}</TableCell>
+                    <TableCell className="text-right">{line.carriedForward}</TableCell>
+                    <TableCell className="text-right text-red-600">{line.expiredDays}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={confirm !== null} onOpenChange={(open) => !open && setConfirm(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {confirm === 'rollover' ? `Roll leave over from ${fromYear}?` : 'Lapse expired carried days?'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirm === 'rollover'
+                ? `${preview?.totals.carriedForward ?? 0} days will be carried into ${parseInt(fromYear, 10) + 1} ` +
+                  `and ${preview?.totals.forfeited ?? 0} days forfeited. The rollover is recorded in the activity log.`
+                : `${expiry?.totalExpiredDays ?? 0} carried days will be deducted from employee balances. ` +
+                  'This is recorded in the activity log.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => confirm && handleRun(confirm)}>
+              {confirm === 'rollover' ? 'Run Rollover' : 'Lapse Days'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -3,7 +3,7 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Pencil, Trash2, ToggleLeft, ToggleRight } from 'lucide-react';
+import { Pencil, Trash2, ToggleLeft, ToggleRight, ListOrdered } from 'lucide-react';
 
 interface LeaveType {
   id: string;
@@ -19,6 +19,8 @@ interface LeaveType {
   minNoticeDays: number;
   allowCarryForward: boolean;
   maxCarryForwardDays?: number | null;
+  carryForwardExpiryMonths?: number | null;
+  allowEncashment?: boolean;
 }
 
 interface LeaveTypeCardProps {
@@ -26,9 +28,10 @@ interface LeaveTypeCardProps {
   onEdit?: (leaveType: LeaveType) => void;
   onDelete?: (id: string) => void;
   onToggleActive?: (id: string, isActive: boolean) => void;
+  onConfigureApprovals?: (leaveType: LeaveType) => void;
 }
 
-export function LeaveTypeCard({ leaveType, onEdit, onDelete, onToggleActive }: LeaveTypeCardProps) {
+export function LeaveTypeCard({ leaveType, onEdit, onDelete, onToggleActive, onConfigureApprovals }: LeaveTypeCardProps) {
   return (
     <Card className={!leaveType.isActive ? 'opacity-60' : ''}>
       <CardHeader className="pb-2">
@@ -55,6 +58,16 @@ export function LeaveTypeCard({ leaveType, onEdit, onDelete, onToggleActive }: L
                 )}
               </Button>
             )}
+            {onConfigureApprovals && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onConfigureApprovals(leaveType)}
+                title="Approval chain"
+              >
+                <ListOrdered className="h-4 w-4" />
+              </Button>
+            )}
             {onEdit && (
               <Button
                 variant="ghost"
@@ -93,6 +106,9 @@ export function LeaveTypeCard({ leaveType, onEdit, onDelete, onToggleActive }: L
           {leaveType.requiresDocument && (
             <Badge variant="secondary">Document Required</Badge>
           )}
+          {leaveType.allowEncashment && (
+            <Badge variant="secondary">Encashable</Badge>
+          )}
           {!leaveType.isActive && (
             <Badge variant="destructive">Inactive</Badge>
           )}
@@ -106,7 +122,11 @@ export function LeaveTypeCard({ leaveType, onEdit, onDelete, onToggleActive }: L
             <p>Max consecutive: {leaveType.maxConsecutiveDays} days</p>
           )}
           {leaveType.allowCarryForward && leaveType.maxCarryForwardDays && (
-            <p>Carry forward: up to {leaveType.maxCarryForwardDays} days</p>
+            <p>
+              Carry forward: up to {leaveType.maxCarryForwardDays} days
+              {leaveType.carryForwardExpiryMonths &&
+                `, expiring after ${leaveType.carryForwardExpiryMonths} month${leaveType.carryForwardExpiryMonths === 1 ? '' : 's'}`}
+            </p>
           )}
         </div>
       </CardContent>
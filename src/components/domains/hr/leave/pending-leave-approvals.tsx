@@ -0,0 +1,107 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { getDateRangeText, formatLeaveDays } from '@/lib/leave-utils';
+import { LeaveApprovalActions } from './leave-approval-actions';
+import { LeaveConflictAlert } from './leave-conflict-alert';
+
+interface PendingApproval {
+  id: string;
+  requestNumber: string;
+  startDate: string;
+  endDate: string;
+  totalDays: number | string;
+  reason?: string | null;
+  user: { id: string; name: string | null; email: string };
+  leaveType: { id: string; name: string; color: string };
+  approvals: Array<{ stepOrder: number }>;
+  currentStep: {
+    stepOrder: number;
+    name: string;
+    onBehalfOf: { id: string; name: string | null } | null;
+  };
+}
+
+export function PendingLeaveApprovals() {
+  const [requests, setRequests] = useState<PendingApproval[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchApprovals = useCallback(async () => {
+    try {
+      const response = await fetch('/api/leave/approvals');
+      if (response.ok) {
+        const data = await response.json();
+        setRequests(data.requests);
+      }
+    } catch (error) {
+      console.error('Failed to fetch pending approvals:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchApprovals();
+  }, [fetchApprovals]);
+
+  if (loading) {
+    return <div className="text-center py-8">Loading...</div>;
+  }
+
+  if (requests.length === 0) {
+    return (
+      <div className="py-8 text-center text-gray-500">
+        No leave requests are waiting for your approval.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {requests.map(request => (
+        <div key={request.id} className="p-4 border rounded-lg">
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div className="space-y-1">
+              <div className="flex items-center gap-2">
+                <div className="w-3 h-3 rounded-full" style={{ backgroundColor: request.leaveType.color }} />
+                <span className="font-medium">{request.user.name || request.user.email}</span>
+                <span className="text-sm text-gray-500">{request.requestNumber}</span>
+              </div>
+              <div className="text-sm text-gray-600">
+                {request.leaveType.name} · {getDateRangeText(new Date(request.startDate), new Date(request.endDate))}
+                {' '}· {formatLeaveDays(request.totalDays)}
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge variant="secondary">
+                  Step {request.currentStep.stepOrder} of {request.approvals.length}: {request.currentStep.name}
+                </Badge>
+                {request.currentStep.onBehalfOf && (
+                  <span className="text-xs text-gray-500">
+                    On behalf of {request.currentStep.onBehalfOf.name}
+                  </span>
+                )}
+              </div>
+              {request.reason && (
+                <p className="text-sm text-gray-500">{request.reason}</p>
+              )}
+            </div>
+            <LeaveApprovalActions
+              requestId={request.id}
+              onApproved={fetchApprovals}
+              onRejected={fetchApprovals}
+            />
+          </div>
+          <div className="mt-3 empty:hidden">
+            <LeaveConflictAlert
+              startDate={request.startDate}
+              endDate={request.endDate}
+              userId={request.user.id}
+              excludeRequestId={request.id}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+'use client';
+
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { DatePicker } from '@/components/ui/date-picker';
+import { createPublicHolidaySchema } from '@/lib/validations/leave';
+import { useState } from 'react';
+
+interface FormData {
+  name: string;
+  description?: string | null;
+  startDate: string;
+  endDate?: string | null;
+  isRecurring: boolean;
+  color: string;
+  isActive: boolean;
+}
+
+interface PublicHolidayFormProps {
+  onSuccess?: (result: { affectedRequests?: number }) => void;
+  initialData?: Partial<FormData>;
+  isEdit?: boolean;
+  holidayId?: string;
+}
+
+export function PublicHolidayForm({ onSuccess, initialData, isEdit, holidayId }: PublicHolidayFormProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(createPublicHolidaySchema) as never,
+    defaultValues: {
+      name: initialData?.name ?? '',
+      description: initialData?.description ?? '',
+      startDate: initialData?.startDate ?? '',
+      endDate: initialData?.endDate ?? '',
+      isRecurring: initialData?.isRecurring ?? false,
+      color: initialData?.color ?? '#10B981',
+      isActive: initialData?.isActive ?? true,
+    },
+  });
+
+  const onSubmit = async (data: FormData) => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const url = isEdit ? `/api/leave/holidays/${holidayId}` : '/api/leave/holidays';
+      const method = isEdit ? 'PUT' : 'POST';
+
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...data,
+          endDate: data.endDate || null,
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save public holiday');
+      }
+
+      form.reset();
+      onSuccess?.(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+      {error && (
+        <div className="bg-red-50 text-red-600 p-3 rounded-md text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="name">Name *</Label>
+        <Input
+          id="name"
+          placeholder="e.g., Eid al-Fitr"
+          {...form.register('name')}
+        />
+        {form.formState.errors.name && (
+          <p className="text-sm text-red-500">{form.formState.errors.name.message}</p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="startDate">Start Date *</Label>
+          <DatePicker
+            id="startDate"
+            value={form.watch('startDate')}
+            onChange={(value) => form.setValue('startDate', value, { shouldValidate: true })}
+          />
+          {form.formState.errors.startDate && (
+            <p className="text-sm text-red-500">{form.formState.errors.startDate.message}</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="endDate">End Date</Label>
+          <DatePicker
+            id="endDate"
+            value={form.watch('endDate') || ''}
+            onChange={(value) => form.setValue('endDate', value, { shouldValidate: true })}
+            minDate={form.watch('startDate') ? new Date(form.watch('startDate')) : undefined}
+          />
+          {form.formState.errors.endDate && (
+            <p className="text-sm text-red-500">{form.formState.errors.endDate.message}</p>
+          )}
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 -mt-2">Leave the end date empty for a single-day holiday</p>
+
+      <div className="space-y-2">
+        <Label htmlFor="description">Description</Label>
+        <Textarea
+          id="description"
+          placeholder="Optional description"
+          {...form.register('description')}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="color">Color</Label>
+        <div className="flex gap-2">
+          <Input
+            id="color"
+            type="color"
+            className="w-12 h-10 p-1"
+            {...form.register('color')}
+          />
+          <Input
+            placeholder="#10B981"
+            {...form.register('color')}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <Label htmlFor="isRecurring">Repeats every year</Label>
+            <p className="text-xs text-gray-500">Same day and month each year (e.g., National Day)</p>
+          </div>
+          <Switch
+            id="isRecurring"
+            checked={form.watch('isRecurring')}
+            onCheckedChange={(checked) => form.setValue('isRecurring', checked)}
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="isActive">Active</Label>
+          <Switch
+            id="isActive"
+            checked={form.watch('isActive')}
+            onCheckedChange={(checked) => form.setValue('isActive', checked)}
+          />
+        </div>
+      </div>
+
+      <Button type="submit" className="w-full" disabled={isSubmitting}>
+        {isSubmitting ? 'Saving...' : isEdit ? 'Update Holiday' : 'Add Holiday'}
+      </Button>
+    </form>
+  );
+}
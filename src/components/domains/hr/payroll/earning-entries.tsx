@@ -0,0 +1,491 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Check, Loader2, Plus, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatCurrency } from '@/lib/payroll/utils';
+import { formatRateMultiplier, OVERTIME_RATE_MULTIPLIERS } from '@/lib/payroll/overtime';
+
+interface EarningEntry {
+  id: string;
+  userId: string;
+  type: string;
+  date: string;
+  description: string;
+  hours: number | null;
+  rateMultiplier: number | null;
+  amount: number;
+  status: 'PENDING' | 'APPROVED' | 'REJECTED';
+  reviewerNotes: string | null;
+  submittedById: string;
+  user: { id: string; name: string | null };
+  submittedBy: { id: string; name: string | null };
+  reviewedBy: { id: string; name: string | null } | null;
+  payslip: { id: string; payslipNumber: string } | null;
+}
+
+interface EmployeeOption {
+  id: string;
+  name: string | null;
+}
+
+const EARNING_TYPES = [
+  { value: 'OVERTIME', label: 'Overtime' },
+  { value: 'COMMISSION', label: 'Commission' },
+  { value: 'BONUS', label: 'Bonus' },
+  { value: 'ALLOWANCE_ADJUSTMENT', label: 'Allowance' },
+  { value: 'OTHER', label: 'Other' },
+];
+
+const OVERTIME_RATES = [
+  { value: String(OVERTIME_RATE_MULTIPLIERS.REGULAR), label: `Regular (${formatRateMultiplier(OVERTIME_RATE_MULTIPLIERS.REGULAR)})` },
+  { value: String(OVERTIME_RATE_MULTIPLIERS.NIGHT_OR_REST_DAY), label: `Night / rest day / holiday (${formatRateMultiplier(OVERTIME_RATE_MULTIPLIERS.NIGHT_OR_REST_DAY)})` },
+];
+
+function getStatusVariant(status: EarningEntry['status']): 'default' | 'secondary' | 'destructive' | 'outline' {
+  switch (status) {
+    case 'APPROVED':
+      return 'default';
+    case 'REJECTED':
+      return 'destructive';
+    default:
+      return 'secondary';
+  }
+}
+
+interface EarningEntriesProps {
+  currentUserId: string;
+  /** Employees the current user may submit entries for (self first) */
+  employees: EmployeeOption[];
+  /** Admins approve and reject pending entries */
+  canReview: boolean;
+}
+
+export function EarningEntries({ currentUserId, employees, canReview }: EarningEntriesProps) {
+  const [entries, setEntries] = useState<EarningEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState(canReview ? 'PENDING' : 'ALL');
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [userId, setUserId] = useState(employees[0]?.id || currentUserId);
+  const [type, setType] = useState('OVERTIME');
+  const [date, setDate] = useState('');
+  const [description, setDescription] = useState('');
+  const [hours, setHours] = useState('');
+  const [rateMultiplier, setRateMultiplier] = useState(OVERTIME_RATES[0].value);
+  const [amount, setAmount] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [rejecting, setRejecting] = useState<EarningEntry | null>(null);
+  const [rejectReason, setRejectReason] = useState('');
+  const [actionId, setActionId] = useState<string | null>(null);
+
+  const fetchEntries = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const query = statusFilter === 'ALL' ? '' : `?status=${statusFilter}`;
+      const response = await fetch(`/api/payroll/earnings${query}`);
+      if (!response.ok) throw new Error('Failed to fetch earning entries');
+      const data = await response.json();
+      setEntries(data.entries);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to fetch earning entries');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const openDialog = () => {
+    setUserId(employees[0]?.id || currentUserId);
+    setType('OVERTIME');
+    setDate(new Date().toISOString().split('T')[0]);
+    setDescription('');
+    setHours('');
+    setRateMultiplier(OVERTIME_RATES[0].value);
+    setAmount('');
+    setDialogOpen(true);
+  };
+
+  const isOvertime = type === 'OVERTIME';
+
+  const handleSubmit = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/payroll/earnings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          userId,
+          type,
+          date,
+          description,
+          hours: isOvertime ? parseFloat(hours) : null,
+          rateMultiplier: isOvertime ? parseFloat(rateMultiplier) : null,
+          amount: isOvertime ? null : parseFloat(amount),
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to submit earning');
+      }
+
+      toast.success('Earning submitted for approval');
+      setDialogOpen(false);
+      fetchEntries();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to submit earning');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const runAction = async (entry: EarningEntry, action: 'approve' | 'reject' | 'delete', notes?: string) => {
+    setActionId(entry.id);
+    try {
+      const response = action === 'delete'
+        ? await fetch(`/api/payroll/earnings/${entry.id}`, { method: 'DELETE' })
+        : await fetch(`/api/payroll/earnings/${entry.id}/${action}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ notes }),
+        });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || `Failed to ${action} earning`);
+      }
+
+      toast.success(
+        action === 'approve' ? 'Earning approved' : action === 'reject' ? 'Earning rejected' : 'Earning deleted'
+      );
+      setRejecting(null);
+      fetchEntries();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : `Failed to ${action} earning`);
+    } finally {
+      setActionId(null);
+    }
+  };
+
+  const canSubmit = !!date && !!description && (
+    isOvertime ? parseFloat(hours) > 0 : parseFloat(amount) > 0
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Earning Entries</CardTitle>
+          <CardDescription>
+            Approved entries are paid in the next payroll run processed for their month.
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="ALL">All</SelectItem>
+              <SelectItem value="PENDING">Pending</SelectItem>
+              <SelectItem value="APPROVED">Approved</SelectItem>
+              <SelectItem value="REJECTED">Rejected</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button onClick={openDialog}>
+            <Plus className="mr-2 h-4 w-4" />
+            Submit Earning
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No earning entries found
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Employee</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map(entry => (
+                <TableRow key={entry.id}>
+                  <TableCell>
+                    <div className="font-medium">{entry.user.name}</div>
+                    {entry.submittedById !== entry.userId && (
+                      <div className="text-xs text-muted-foreground">
+                        Submitted by {entry.submittedBy.name}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>{new Date(entry.date).toLocaleDateString()}</TableCell>
+                  <TableCell>
+                    {entry.type.replace(/_/g, ' ')}
+                    {entry.hours !== null && entry.rateMultiplier !== null && (
+                      <div className="text-xs text-muted-foreground">
+                        {entry.hours}h @ {formatRateMultiplier(entry.rateMultiplier)}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {entry.description}
+                    {entry.reviewerNotes && (
+                      <div className="text-xs text-muted-foreground">{entry.reviewerNotes}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right font-medium">{formatCurrency(entry.amount)}</TableCell>
+                  <TableCell>
+                    <Badge variant={getStatusVariant(entry.status)}>{entry.status}</Badge>
+                    {entry.payslip && (
+                      <div className="text-xs text-muted-foreground mt-1">{entry.payslip.payslipNumber}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {entry.status === 'PENDING' && (
+                      <div className="flex justify-end gap-1">
+                        {canReview && (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Approve"
+                              disabled={actionId !== null}
+                              onClick={() => runAction(entry, 'approve')}
+                            >
+                              {actionId === entry.id ? (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                              ) : (
+                                <Check className="h-4 w-4 text-green-600" />
+                              )}
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Reject"
+                              disabled={actionId !== null}
+                              onClick={() => {
+                                setRejectReason('');
+                                setRejecting(entry);
+                              }}
+                            >
+                              <X className="h-4 w-4 text-red-500" />
+                            </Button>
+                          </>
+                        )}
+                        {(canReview || entry.submittedById === currentUserId) && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Delete"
+                            disabled={actionId !== null}
+                            onClick={() => runAction(entry, 'delete')}
+                          >
+                            <Trash2 className="h-4 w-4 text-muted-foreground" />
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Submit Earning</DialogTitle>
+            <DialogDescription>
+              Overtime is calculated from the employee&apos;s basic salary (basic / 30 / 8 per hour).
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {employees.length > 1 && (
+              <div className="space-y-1">
+                <Label>Employee</Label>
+                <Select value={userId} onValueChange={setUserId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {employees.map(employee => (
+                      <SelectItem key={employee.id} value={employee.id}>
+                        {employee.name || employee.id}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Type</Label>
+                <Select value={type} onValueChange={setType}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EARNING_TYPES.map(option => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="earning-date">Date *</Label>
+                <Input
+                  id="earning-date"
+                  type="date"
+                  value={date}
+                  onChange={(e) => setDate(e.target.value)}
+                />
+              </div>
+            </div>
+
+            {isOvertime ? (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="earning-hours">Hours *</Label>
+                  <Input
+                    id="earning-hours"
+                    type="number"
+                    step="0.25"
+                    min="0"
+                    max="24"
+                    value={hours}
+                    onChange={(e) => setHours(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>Rate</Label>
+                  <Select value={rateMultiplier} onValueChange={setRateMultiplier}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {OVERTIME_RATES.map(option => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-1">
+                <Label htmlFor="earning-amount">Amount (QAR) *</Label>
+                <Input
+                  id="earning-amount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                />
+              </div>
+            )}
+
+            <div className="space-y-1">
+              <Label htmlFor="earning-description">Description *</Label>
+              <Input
+                id="earning-description"
+                placeholder={isOvertime ? 'e.g., Month-end closing' : 'e.g., March sales commission'}
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={isSaving || !canSubmit}>
+              {isSaving ? 'Submitting...' : 'Submit'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={rejecting !== null} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Earning</DialogTitle>
+            <DialogDescription>
+              {rejecting?.user.name} · {rejecting?.description}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-1">
+            <Label htmlFor="earning-reject-reason">Reason *</Label>
+            <Textarea
+              id="earning-reject-reason"
+              rows={3}
+              value={rejectReason}
+              onChange={(e) => setRejectReason(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!rejectReason || actionId !== null}
+              onClick={() => rejecting && runAction(rejecting, 'reject', rejectReason)}
+            >
+              Reject
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
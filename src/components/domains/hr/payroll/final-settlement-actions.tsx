@@ -0,0 +1,165 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { FinalSettlementStatus } from '@prisma/client';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { Ban, Check, CheckCircle, Loader2, Pencil, Printer, Send, X } from 'lucide-react';
+
+type SettlementAction = 'submit' | 'approve' | 'reject' | 'cancel' | 'pay';
+
+const ACTION_MESSAGES: Record<SettlementAction, string> = {
+  submit: 'Settlement submitted for approval',
+  approve: 'Settlement approved',
+  reject: 'Settlement returned to draft',
+  cancel: 'Settlement cancelled',
+  pay: 'Settlement marked as paid',
+};
+
+interface FinalSettlementActionsProps {
+  settlementId: string;
+  status: FinalSettlementStatus;
+  /** Whether the final payslip has been paid with its payroll run */
+  payslipPaid: boolean;
+}
+
+export function FinalSettlementActions({ settlementId, status, payslipPaid }: FinalSettlementActionsProps) {
+  const router = useRouter();
+  const [isLoading, setIsLoading] = useState<SettlementAction | null>(null);
+  const [reasonAction, setReasonAction] = useState<'reject' | 'cancel' | null>(null);
+  const [reason, setReason] = useState('');
+
+  const runAction = async (action: SettlementAction, body: Record<string, unknown> = {}) => {
+    setIsLoading(action);
+    try {
+      const response = await fetch(`/api/payroll/final-settlements/${settlementId}/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to ${action} settlement`);
+      }
+
+      toast.success(
+        action === 'approve' && data.payPeriod
+          ? `${ACTION_MESSAGES.approve}. Final payslip in ${data.payPeriod} payroll.`
+          : ACTION_MESSAGES[action]
+      );
+      setReasonAction(null);
+      router.refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : `Failed to ${action} settlement`);
+    } finally {
+      setIsLoading(null);
+    }
+  };
+
+  const openReasonDialog = (action: 'reject' | 'cancel') => {
+    setReason('');
+    setReasonAction(action);
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2 print:hidden">
+      <Button variant="outline" onClick={() => window.print()}>
+        <Printer className="mr-2 h-4 w-4" />
+        Print
+      </Button>
+
+      {status === FinalSettlementStatus.DRAFT && (
+        <>
+          <Button variant="outline" asChild>
+            <Link href={`/admin/payroll/final-settlements/${settlementId}/edit`}>
+              <Pencil className="mr-2 h-4 w-4" />
+              Edit
+            </Link>
+          </Button>
+          <Button onClick={() => runAction('submit')} disabled={isLoading !== null}>
+            {isLoading === 'submit' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+            Submit for Approval
+          </Button>
+        </>
+      )}
+
+      {status === FinalSettlementStatus.PENDING_APPROVAL && (
+        <>
+          <Button onClick={() => runAction('approve')} disabled={isLoading !== null}>
+            {isLoading === 'approve' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Check className="mr-2 h-4 w-4" />}
+            Approve
+          </Button>
+          <Button variant="outline" onClick={() => openReasonDialog('reject')} disabled={isLoading !== null}>
+            <X className="mr-2 h-4 w-4" />
+            Reject
+          </Button>
+        </>
+      )}
+
+      {(status === FinalSettlementStatus.DRAFT || status === FinalSettlementStatus.PENDING_APPROVAL) && (
+        <Button variant="destructive" onClick={() => openReasonDialog('cancel')} disabled={isLoading !== null}>
+          <Ban className="mr-2 h-4 w-4" />
+          Cancel
+        </Button>
+      )}
+
+      {status === FinalSettlementStatus.APPROVED && (
+        <Button
+          onClick={() => runAction('pay')}
+          disabled={isLoading !== null || !payslipPaid}
+          title={payslipPaid ? undefined : 'Available once the final payslip has been paid'}
+        >
+          {isLoading === 'pay' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CheckCircle className="mr-2 h-4 w-4" />}
+          Mark as Paid
+        </Button>
+      )}
+
+      <Dialog open={reasonAction !== null} onOpenChange={(open) => !open && setReasonAction(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{reasonAction === 'reject' ? 'Reject Settlement' : 'Cancel Settlement'}</DialogTitle>
+            <DialogDescription>
+              {reasonAction === 'reject'
+                ? 'The settlement goes back to draft so it can be corrected.'
+                : 'The settlement will be closed without payment.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-1">
+            <Label htmlFor="settlement-reason">Reason *</Label>
+            <Textarea
+              id="settlement-reason"
+              rows={3}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReasonAction(null)}>
+              Back
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!reason || isLoading !== null}
+              onClick={() => reasonAction && runAction(reasonAction, { reason })}
+            >
+              {reasonAction === 'reject' ? 'Reject' : 'Cancel Settlement'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { Badge } from '@/components/ui/badge';
+import { formatCurrency, getMonthName } from '@/lib/payroll/utils';
+import { describeGratuityPolicy, getServiceDurationText } from '@/lib/payroll/gratuity';
+import type { FinalSettlementCalculation } from '@/lib/types/payroll';
+
+interface FinalSettlementBreakdownProps {
+  calculation: FinalSettlementCalculation;
+}
+
+function Row({ label, detail, amount, negative }: {
+  label: string;
+  detail?: string;
+  amount: number;
+  negative?: boolean;
+}) {
+  return (
+    <div className="flex items-start justify-between py-2 border-b last:border-0">
+      <div>
+        <p className="text-sm font-medium">{label}</p>
+        {detail && <p className="text-xs text-muted-foreground">{detail}</p>}
+      </div>
+      <span className={`text-sm font-medium ${negative ? 'text-red-600' : ''}`}>
+        {negative && amount > 0 ? '-' : ''}{formatCurrency(amount)}
+      </span>
+    </div>
+  );
+}
+
+/**
+ * The figures of a final settlement, with the line items behind each one
+ */
+export function FinalSettlementBreakdown({ calculation }: FinalSettlementBreakdownProps) {
+  const { details } = calculation;
+  const finalMonthName = `${getMonthName(details.finalMonth.month)} ${details.finalMonth.year}`;
+
+  return (
+    <div className="grid gap-6 md:grid-cols-2">
+      <div>
+        <h3 className="font-semibold mb-2">Earnings</h3>
+        <Row
+          label="End of service gratuity"
+          detail={`${getServiceDurationText(calculation.serviceMonths)} · ${details.gratuity.policy.name}: ${describeGratuityPolicy(details.gratuity.policy)}`}
+          amount={calculation.gratuityAmount}
+        />
+        <Row
+          label="Leave encashment"
+          detail={`${calculation.leaveEncashmentDays} unused days × ${formatCurrency(details.leaveDailyRate)}`}
+          amount={calculation.leaveEncashmentAmount}
+        />
+        {details.leave.map(line => (
+          <p key={line.leaveTypeName} className="text-xs text-muted-foreground pl-3">
+            {line.leaveTypeName}: {line.earnedEntitlement} earned
+            {line.carriedForward > 0 && ` + ${line.carriedForward} carried`}
+            {line.adjustment !== 0 && ` ${line.adjustment > 0 ? '+' : '-'} ${Math.abs(line.adjustment)} adjusted`}
+            {' '}- {line.used} used
+            {line.pending > 0 && ` - ${line.pending} pending`}
+            {' '}= {line.unusedDays} days
+          </p>
+        ))}
+        <Row
+          label="Final month salary"
+          detail={`${details.finalMonth.workedDays} of ${details.finalMonth.daysInMonth} days in ${finalMonthName}`}
+          amount={calculation.proRataSalary}
+        />
+        {calculation.otherEarnings > 0 && (
+          <Row label="Other earnings" amount={calculation.otherEarnings} />
+        )}
+        <div className="flex justify-between pt-3 font-semibold">
+          <span>Total earnings</span>
+          <span>{formatCurrency(calculation.totalEarnings)}</span>
+        </div>
+      </div>
+
+      <div>
+        <h3 className="font-semibold mb-2">Deductions</h3>
+        {details.unpaidLeave.map(line => (
+          <Row
+            key={`${line.leaveRequestId}-${line.payPercent ?? 'unpaid'}`}
+            label={line.leaveTypeName}
+            detail={
+              line.payPercent === null || line.payPercent === undefined
+                ? `${line.totalDays} unpaid days in ${finalMonthName}`
+                : `${line.totalDays} days at ${line.payPercent}% pay in ${finalMonthName}`
+            }
+            amount={line.deductionAmount}
+            negative
+          />
+        ))}
+        {details.loans.map(loan => (
+          <Row
+            key={loan.loanId}
+            label={`Outstanding ${loan.type.toLowerCase()}`}
+            detail={loan.loanNumber}
+            amount={loan.remainingAmount}
+            negative
+          />
+        ))}
+        {details.assets.map(asset => (
+          <div key={asset.assetId} className="flex items-start justify-between py-2 border-b last:border-0">
+            <div>
+              <p className="text-sm font-medium">
+                Unreturned {asset.type}: {asset.model}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {asset.assetTag || 'No tag'}
+                {asset.valueQAR !== null && ` · value ${formatCurrency(asset.valueQAR)}`}
+                {asset.returnRequested && (
+                  <Badge variant="outline" className="ml-2">Return requested</Badge>
+                )}
+              </p>
+            </div>
+            <span className="text-sm font-medium text-red-600">
+              {asset.deductionAmount > 0 ? `-${formatCurrency(asset.deductionAmount)}` : 'Not charged'}
+            </span>
+          </div>
+        ))}
+        {calculation.otherDeductions > 0 && (
+          <Row label="Other deductions" amount={calculation.otherDeductions} negative />
+        )}
+        {calculation.totalDeductions === 0 && details.assets.length === 0 && (
+          <p className="text-sm text-muted-foreground py-2">No deductions</p>
+        )}
+        <div className="flex justify-between pt-3 font-semibold">
+          <span>Total deductions</span>
+          <span className="text-red-600">-{formatCurrency(calculation.totalDeductions)}</span>
+        </div>
+      </div>
+
+      <div className="md:col-span-2 flex justify-between items-center border-t pt-4">
+        <span className="text-lg font-semibold">Net settlement</span>
+        <span className={`text-2xl font-bold ${calculation.netAmount < 0 ? 'text-red-600' : 'text-green-600'}`}>
+          {formatCurrency(calculation.netAmount)}
+        </span>
+      </div>
+    </div>
+  );
+}
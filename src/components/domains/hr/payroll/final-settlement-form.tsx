@@ -0,0 +1,311 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Calculator, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatCurrency } from '@/lib/payroll/utils';
+import type { FinalSettlementCalculation } from '@/lib/types/payroll';
+import { FinalSettlementBreakdown } from './final-settlement-breakdown';
+
+const SEPARATION_REASONS = [
+  { value: 'RESIGNATION', label: 'Resignation' },
+  { value: 'TERMINATION', label: 'Termination' },
+  { value: 'END_OF_CONTRACT', label: 'End of Contract' },
+  { value: 'RETIREMENT', label: 'Retirement' },
+  { value: 'OTHER', label: 'Other' },
+];
+
+interface FinalSettlementFormProps {
+  employees: { id: string; name: string | null }[];
+  /** Draft being edited */
+  settlement?: {
+    id: string;
+    userId: string;
+    terminationDate: string;
+    separationReason: string;
+    notes: string | null;
+    otherEarnings: number;
+    otherDeductions: number;
+    assetDeductions: Record<string, number>;
+  };
+}
+
+export function FinalSettlementForm({ employees, settlement }: FinalSettlementFormProps) {
+  const router = useRouter();
+  const [userId, setUserId] = useState(settlement?.userId || '');
+  const [terminationDate, setTerminationDate] = useState(settlement?.terminationDate.split('T')[0] || '');
+  const [separationReason, setSeparationReason] = useState(settlement?.separationReason || 'RESIGNATION');
+  const [otherEarnings, setOtherEarnings] = useState(settlement?.otherEarnings ? String(settlement.otherEarnings) : '');
+  const [otherDeductions, setOtherDeductions] = useState(
+    settlement?.otherDeductions ? String(settlement.otherDeductions) : ''
+  );
+  const [assetDeductions, setAssetDeductions] = useState<Record<string, string>>(
+    Object.fromEntries(Object.entries(settlement?.assetDeductions || {}).map(([id, amount]) => [id, String(amount)]))
+  );
+  const [notes, setNotes] = useState(settlement?.notes || '');
+  const [calculation, setCalculation] = useState<FinalSettlementCalculation | null>(null);
+  const [isStale, setIsStale] = useState(false);
+  const [isCalculating, setIsCalculating] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const calculationInput = () => ({
+    userId,
+    terminationDate,
+    assetDeductions: Object.fromEntries(
+      Object.entries(assetDeductions)
+        .map(([id, amount]) => [id, parseFloat(amount) || 0])
+        .filter(([, amount]) => (amount as number) > 0)
+    ),
+    otherEarnings: parseFloat(otherEarnings) || 0,
+    otherDeductions: parseFloat(otherDeductions) || 0,
+  });
+
+  const handleCalculate = async () => {
+    setIsCalculating(true);
+    try {
+      const response = await fetch('/api/payroll/final-settlements/preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(calculationInput()),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to calculate settlement');
+      }
+
+      setCalculation(data);
+      setIsStale(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to calculate settlement');
+    } finally {
+      setIsCalculating(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const { userId: employeeId, ...input } = calculationInput();
+      const response = await fetch(
+        settlement ? `/api/payroll/final-settlements/${settlement.id}` : '/api/payroll/final-settlements',
+        {
+          method: settlement ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            ...input,
+            ...(settlement ? {} : { userId: employeeId }),
+            separationReason,
+            notes: notes || undefined,
+          }),
+        }
+      );
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to save settlement');
+      }
+
+      toast.success(settlement ? 'Settlement updated' : 'Settlement saved as draft');
+      router.push(`/admin/payroll/final-settlements/${data.id}`);
+      router.refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save settlement');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Figures must be recalculated after an input changes
+  const markStale = () => setIsStale(true);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Separation Details</CardTitle>
+          <CardDescription>
+            Gratuity, leave, loans and assigned assets are read from the employee&apos;s records
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-1">
+              <Label>Employee *</Label>
+              <Select
+                value={userId}
+                onValueChange={(value) => {
+                  setUserId(value);
+                  setAssetDeductions({});
+                  setCalculation(null);
+                }}
+                disabled={!!settlement}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select employee" />
+                </SelectTrigger>
+                <SelectContent>
+                  {employees.map(employee => (
+                    <SelectItem key={employee.id} value={employee.id}>
+                      {employee.name || employee.id}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="termination-date">Last working day *</Label>
+              <Input
+                id="termination-date"
+                type="date"
+                value={terminationDate}
+                onChange={(e) => {
+                  setTerminationDate(e.target.value);
+                  markStale();
+                }}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Reason *</Label>
+              <Select value={separationReason} onValueChange={setSeparationReason}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SEPARATION_REASONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-1">
+              <Label htmlFor="other-earnings">Other earnings (QAR)</Label>
+              <Input
+                id="other-earnings"
+                type="number"
+                step="0.01"
+                min="0"
+                value={otherEarnings}
+                onChange={(e) => {
+                  setOtherEarnings(e.target.value);
+                  markStale();
+                }}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="other-deductions">Other deductions (QAR)</Label>
+              <Input
+                id="other-deductions"
+                type="number"
+                step="0.01"
+                min="0"
+                value={otherDeductions}
+                onChange={(e) => {
+                  setOtherDeductions(e.target.value);
+                  markStale();
+                }}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="settlement-notes">Notes</Label>
+            <Textarea
+              id="settlement-notes"
+              rows={3}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+
+          <Button
+            variant="outline"
+            onClick={handleCalculate}
+            disabled={!userId || !terminationDate || isCalculating}
+          >
+            {isCalculating ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Calculator className="mr-2 h-4 w-4" />
+            )}
+            {calculation ? 'Recalculate' : 'Calculate'}
+          </Button>
+          {calculation && isStale && (
+            <p className="text-sm text-amber-600">Inputs changed. Recalculate before saving.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {calculation && (
+        <>
+          {calculation.details.assets.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Unreturned Assets</CardTitle>
+                <CardDescription>
+                  Assets still assigned to the employee. Enter an amount only where the asset will be charged.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {calculation.details.assets.map(asset => (
+                  <div key={asset.assetId} className="flex items-center justify-between gap-4">
+                    <div>
+                      <p className="text-sm font-medium">{asset.type}: {asset.model}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {asset.assetTag || 'No tag'}
+                        {asset.valueQAR !== null && ` · value ${formatCurrency(asset.valueQAR)}`}
+                        {asset.returnRequested && ' · return requested'}
+                      </p>
+                    </div>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      className="w-40"
+                      placeholder="0.00"
+                      value={assetDeductions[asset.assetId] || ''}
+                      onChange={(e) => {
+                        setAssetDeductions(prev => ({ ...prev, [asset.assetId]: e.target.value }));
+                        markStale();
+                      }}
+                    />
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Settlement</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <FinalSettlementBreakdown calculation={calculation} />
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={() => router.back()}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave} disabled={!calculation || isStale || isSaving}>
+          {isSaving ? 'Saving...' : settlement ? 'Save Changes' : 'Save Draft'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { CONTRACT_TYPE_OPTIONS } from '@/lib/payroll/gratuity';
+
+const NONE = 'none';
+
+interface GratuityPolicyAssignmentProps {
+  userId: string;
+  contractType: string | null;
+  gratuityPolicyId: string | null;
+  onSaved?: () => void;
+}
+
+interface PolicyOption {
+  id: string;
+  name: string;
+  isActive: boolean;
+}
+
+export function GratuityPolicyAssignment({
+  userId,
+  contractType,
+  gratuityPolicyId,
+  onSaved,
+}: GratuityPolicyAssignmentProps) {
+  const [policies, setPolicies] = useState<PolicyOption[]>([]);
+  const [selectedContractType, setSelectedContractType] = useState(contractType ?? NONE);
+  const [selectedPolicyId, setSelectedPolicyId] = useState(gratuityPolicyId ?? NONE);
+  const [effectivePolicy, setEffectivePolicy] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setSelectedContractType(contractType ?? NONE);
+    setSelectedPolicyId(gratuityPolicyId ?? NONE);
+  }, [contractType, gratuityPolicyId]);
+
+  useEffect(() => {
+    fetch('/api/payroll/gratuity/policies')
+      .then(res => (res.ok ? res.json() : { policies: [] }))
+      .then(data => setPolicies(data.policies))
+      .catch(err => console.error('Failed to fetch gratuity policies:', err));
+  }, []);
+
+  const isDirty =
+    selectedContractType !== (contractType ?? NONE) || selectedPolicyId !== (gratuityPolicyId ?? NONE);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/users/${userId}/gratuity-policy`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          contractType: selectedContractType === NONE ? null : selectedContractType,
+          gratuityPolicyId: selectedPolicyId === NONE ? null : selectedPolicyId,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update gratuity policy');
+      }
+
+      setEffectivePolicy(data.effectivePolicy.name);
+      toast.success('Gratuity policy updated');
+      onSaved?.();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update gratuity policy');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="contract-type">Contract Type</Label>
+          <Select value={selectedContractType} onValueChange={setSelectedContractType}>
+            <SelectTrigger id="contract-type">
+              <SelectValue placeholder="Select contract type" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>Not set</SelectItem>
+              {CONTRACT_TYPE_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="gratuity-policy">Gratuity Policy</Label>
+          <Select value={selectedPolicyId} onValueChange={setSelectedPolicyId}>
+            <SelectTrigger id="gratuity-policy">
+              <SelectValue placeholder="Select policy" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>From contract type / default</SelectItem>
+              {policies
+                .filter(policy => policy.isActive || policy.id === gratuityPolicyId)
+                .map(policy => (
+                  <SelectItem key={policy.id} value={policy.id}>
+                    {policy.name}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500">
+          {effectivePolicy && `Gratuity is calculated under: ${effectivePolicy}`}
+        </p>
+        <Button onClick={handleSave} disabled={isSaving || !isDirty}>
+          {isSaving ? 'Saving...' : 'Save Gratuity Policy'}
+        </Button>
+      </div>
+    </div>
+  );
+}
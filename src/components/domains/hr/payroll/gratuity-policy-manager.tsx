@@ -0,0 +1,445 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { ContractType, GratuitySalaryBasis } from '@prisma/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Pencil, Plus, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  CONTRACT_TYPE_OPTIONS,
+  describeGratuityPolicy,
+  getContractTypeText,
+  parseGratuityRateTiers,
+} from '@/lib/payroll/gratuity';
+import type { GratuityRateTier } from '@/lib/types/payroll';
+
+const NONE = 'none';
+
+interface GratuityPolicy {
+  id: string;
+  name: string;
+  description: string | null;
+  contractType: ContractType | null;
+  isDefault: boolean;
+  salaryBasis: GratuitySalaryBasis;
+  rateTiers: unknown;
+  minServiceMonths: number;
+  excludeUnpaidLeave: boolean;
+  isActive: boolean;
+  _count: { hrProfiles: number };
+}
+
+interface TierFormState {
+  fromYear: string;
+  weeksPerYear: string;
+}
+
+interface PolicyFormState {
+  name: string;
+  description: string;
+  contractType: string;
+  isDefault: boolean;
+  salaryBasis: GratuitySalaryBasis;
+  rateTiers: TierFormState[];
+  minServiceMonths: string;
+  excludeUnpaidLeave: boolean;
+  isActive: boolean;
+}
+
+const EMPTY_FORM: PolicyFormState = {
+  name: '',
+  description: '',
+  contractType: NONE,
+  isDefault: false,
+  salaryBasis: GratuitySalaryBasis.BASIC,
+  rateTiers: [{ fromYear: '0', weeksPerYear: '3' }],
+  minServiceMonths: '12',
+  excludeUnpaidLeave: false,
+  isActive: true,
+};
+
+function toRules(policy: GratuityPolicy) {
+  return { ...policy, rateTiers: parseGratuityRateTiers(policy.rateTiers) };
+}
+
+export function GratuityPolicyManager() {
+  const [policies, setPolicies] = useState<GratuityPolicy[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<GratuityPolicy | null>(null);
+  const [form, setForm] = useState<PolicyFormState>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPolicies = useCallback(async () => {
+    try {
+      const response = await fetch('/api/payroll/gratuity/policies');
+      if (response.ok) {
+        const data = await response.json();
+        setPolicies(data.policies);
+      }
+    } catch (err) {
+      console.error('Failed to fetch gratuity policies:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPolicies();
+  }, [fetchPolicies]);
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(EMPTY_FORM);
+    setError(null);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (policy: GratuityPolicy) => {
+    setEditing(policy);
+    setForm({
+      name: policy.name,
+      description: policy.description ?? '',
+      contractType: policy.contractType ?? NONE,
+      isDefault: policy.isDefault,
+      salaryBasis: policy.salaryBasis,
+      rateTiers: parseGratuityRateTiers(policy.rateTiers).map((tier: GratuityRateTier) => ({
+        fromYear: String(tier.fromYear),
+        weeksPerYear: String(tier.weeksPerYear),
+      })),
+      minServiceMonths: String(policy.minServiceMonths),
+      excludeUnpaidLeave: policy.excludeUnpaidLeave,
+      isActive: policy.isActive,
+    });
+    setError(null);
+    setDialogOpen(true);
+  };
+
+  const updateTier = (index: number, field: keyof TierFormState, value: string) => {
+    setForm({
+      ...form,
+      rateTiers: form.rateTiers.map((tier, i) => (i === index ? { ...tier, [field]: value } : tier)),
+    });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        editing ? `/api/payroll/gratuity/policies/${editing.id}` : '/api/payroll/gratuity/policies',
+        {
+          method: editing ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            name: form.name,
+            description: form.description || null,
+            contractType: form.contractType === NONE ? null : form.contractType,
+            isDefault: form.isDefault,
+            salaryBasis: form.salaryBasis,
+            rateTiers: form.rateTiers.map(tier => ({
+              fromYear: parseInt(tier.fromYear, 10) || 0,
+              weeksPerYear: parseFloat(tier.weeksPerYear) || 0,
+            })),
+            minServiceMonths: parseInt(form.minServiceMonths, 10) || 0,
+            excludeUnpaidLeave: form.excludeUnpaidLeave,
+            isActive: form.isActive,
+          }),
+        }
+      );
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to save gratuity policy');
+      }
+
+      toast.success(editing ? 'Gratuity policy updated' : 'Gratuity policy created');
+      setDialogOpen(false);
+      fetchPolicies();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (policy: GratuityPolicy) => {
+    try {
+      const response = await fetch(`/api/payroll/gratuity/policies/${policy.id}`, { method: 'DELETE' });
+      if (response.ok) {
+        toast.success('Gratuity policy deleted');
+        fetchPolicies();
+      } else {
+        const data = await response.json();
+        toast.error(data.error || 'Failed to delete gratuity policy');
+      }
+    } catch (err) {
+      console.error('Failed to delete gratuity policy:', err);
+      toast.error('An error occurred');
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-8">Loading...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button onClick={openCreate}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Policy
+        </Button>
+      </div>
+
+      {policies.length === 0 ? (
+        <div className="py-8 text-center text-gray-500">
+          No gratuity policies yet. Everyone is on the statutory rule of 3 weeks basic salary per year.
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Policy</TableHead>
+              <TableHead>Rules</TableHead>
+              <TableHead>Applies To</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {policies.map(policy => (
+              <TableRow key={policy.id}>
+                <TableCell>
+                  <div className="font-medium">{policy.name}</div>
+                  {policy.description && (
+                    <div className="text-xs text-gray-500">{policy.description}</div>
+                  )}
+                </TableCell>
+                <TableCell className="text-sm max-w-md">{describeGratuityPolicy(toRules(policy))}</TableCell>
+                <TableCell className="text-sm">
+                  <div className="flex flex-wrap gap-1">
+                    {policy.isDefault && <Badge variant="outline">Default</Badge>}
+                    {policy.contractType && (
+                      <Badge variant="outline">{getContractTypeText(policy.contractType)} contracts</Badge>
+                    )}
+                  </div>
+                  {policy._count.hrProfiles > 0 && (
+                    <div className="text-xs text-gray-500 mt-1">
+                      {policy._count.hrProfiles} employee{policy._count.hrProfiles !== 1 ? 's' : ''} assigned
+                    </div>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Badge variant={policy.isActive ? 'default' : 'secondary'}>
+                    {policy.isActive ? 'Active' : 'Inactive'}
+                  </Badge>
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button variant="ghost" size="icon" onClick={() => openEdit(policy)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleDelete(policy)}
+                    disabled={policy._count.hrProfiles > 0}
+                  >
+                    <Trash2 className="h-4 w-4 text-red-500" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Gratuity Policy' : 'Add Gratuity Policy'}</DialogTitle>
+            <DialogDescription>
+              Weeks of salary paid per year of service, with optional step-ups after a number of years
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {error && (
+              <div className="bg-red-50 text-red-600 p-3 rounded-md text-sm">
+                {error}
+              </div>
+            )}
+
+            <div className="space-y-1">
+              <Label htmlFor="policy-name">Name *</Label>
+              <Input
+                id="policy-name"
+                placeholder="e.g., Senior staff"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="policy-description">Description</Label>
+              <Input
+                id="policy-description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Salary Basis</Label>
+                <Select
+                  value={form.salaryBasis}
+                  onValueChange={(value) => setForm({ ...form, salaryBasis: value as GratuitySalaryBasis })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={GratuitySalaryBasis.BASIC}>Basic salary</SelectItem>
+                    <SelectItem value={GratuitySalaryBasis.GROSS}>Gross salary</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="policy-min-service">Minimum service (months)</Label>
+                <Input
+                  id="policy-min-service"
+                  type="number"
+                  min="0"
+                  value={form.minServiceMonths}
+                  onChange={(e) => setForm({ ...form, minServiceMonths: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Rates</Label>
+              {form.rateTiers.map((tier, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <span className="text-sm text-gray-500 w-12">From year</span>
+                  <Input
+                    type="number"
+                    min="0"
+                    className="w-20"
+                    value={tier.fromYear}
+                    onChange={(e) => updateTier(index, 'fromYear', e.target.value)}
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    className="w-20"
+                    value={tier.weeksPerYear}
+                    onChange={(e) => updateTier(index, 'weeksPerYear', e.target.value)}
+                  />
+                  <span className="text-sm text-gray-500">weeks/year</span>
+                  {form.rateTiers.length > 1 && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setForm({ ...form, rateTiers: form.rateTiers.filter((_, i) => i !== index) })}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setForm({ ...form, rateTiers: [...form.rateTiers, { fromYear: '', weeksPerYear: '4' }] })}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Step
+              </Button>
+            </div>
+
+            <div className="space-y-1">
+              <Label>Contract Type</Label>
+              <Select value={form.contractType} onValueChange={(value) => setForm({ ...form, contractType: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Not tied to a contract type</SelectItem>
+                  {CONTRACT_TYPE_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500">
+                Applies to employees on this contract type unless they are assigned a policy directly
+              </p>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="policy-unpaid-leave">Exclude unpaid leave from service</Label>
+              <Switch
+                id="policy-unpaid-leave"
+                checked={form.excludeUnpaidLeave}
+                onCheckedChange={(checked) => setForm({ ...form, excludeUnpaidLeave: checked })}
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="policy-default">Default policy</Label>
+              <Switch
+                id="policy-default"
+                checked={form.isDefault}
+                onCheckedChange={(checked) => setForm({ ...form, isDefault: checked })}
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="policy-active">Active</Label>
+              <Switch
+                id="policy-active"
+                checked={form.isActive}
+                onCheckedChange={(checked) => setForm({ ...form, isActive: checked })}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving || !form.name}>
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
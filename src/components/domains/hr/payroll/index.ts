@@ -1,2 +1,9 @@
 export { LoanActions } from './loan-actions';
 export { PayrollWorkflowActions } from './payroll-workflow-actions';
+export { PayslipAdjustments } from './payslip-adjustments';
+export { EarningEntries } from './earning-entries';
+export { FinalSettlementActions } from './final-settlement-actions';
+export { FinalSettlementBreakdown } from './final-settlement-breakdown';
+export { FinalSettlementForm } from './final-settlement-form';
+export { GratuityPolicyAssignment } from './gratuity-policy-assignment';
+export { GratuityPolicyManager } from './gratuity-policy-manager';
@@ -5,6 +5,8 @@ import { useRouter } from 'next/navigation';
 import { PayrollStatus } from '@prisma/client';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -17,6 +19,9 @@ import {
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
 import { toast } from 'sonner';
+import type { PayslipEmailResult, WPSValidationReport } from '@/lib/types/payroll';
+import type { PayslipDiff } from '@/lib/payroll/payslip-calculation';
+import { formatCurrency } from '@/lib/payroll/utils';
 import {
   Send,
   CheckCircle,
@@ -26,6 +31,9 @@ import {
   FileText,
   Loader2,
   Trash2,
+  RefreshCw,
+  Download,
+  Mail,
 } from 'lucide-react';
 
 interface PayrollWorkflowActionsProps {
@@ -43,6 +51,11 @@ export function PayrollWorkflowActions({
 }: PayrollWorkflowActionsProps) {
   const router = useRouter();
   const [isLoading, setIsLoading] = useState<string | null>(null);
+  const [wpsReport, setWpsReport] = useState<WPSValidationReport | null>(null);
+  const [recalculation, setRecalculation] = useState<PayslipDiff | null>(null);
+  const [emailDialogOpen, setEmailDialogOpen] = useState(false);
+  const [protectWithQid, setProtectWithQid] = useState(true);
+  const [emailFailures, setEmailFailures] = useState<PayslipEmailResult[]>([]);
 
   const handleAction = async (action: string, endpoint: string) => {
     setIsLoading(action);
@@ -89,22 +102,60 @@ export function PayrollWorkflowActions({
     }
   };
 
-  const handleGenerateWPS = async () => {
-    setIsLoading('wps');
+  const handlePreviewRecalculation = async () => {
+    setIsLoading('recalculate');
     try {
-      const response = await fetch(`/api/payroll/runs/${payrollRunId}/wps`, {
+      const response = await fetch(`/api/payroll/runs/${payrollRunId}/recalculate`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to preview recalculation');
+      }
+
+      setRecalculation(data);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to preview recalculation');
+    } finally {
+      setIsLoading(null);
+    }
+  };
+
+  const handleRecalculate = async () => {
+    setRecalculation(null);
+    setIsLoading('recalculate');
+    try {
+      const response = await fetch(`/api/payroll/runs/${payrollRunId}/recalculate`, {
         method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
       });
 
+      const data = await response.json();
+
       if (!response.ok) {
-        const data = await response.json();
-        throw new Error(data.error || 'Failed to generate WPS file');
+        throw new Error(data.error || 'Failed to recalculate payroll');
       }
 
-      // Get filename from header
-      const filename = response.headers.get('X-Filename') || 'wps-file.sif';
+      toast.success('Payroll recalculated successfully');
+      router.refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to recalculate payroll');
+    } finally {
+      setIsLoading(null);
+    }
+  };
+
+  const handleDownloadPayslips = async () => {
+    setIsLoading('zip');
+    try {
+      const response = await fetch(`/api/payroll/runs/${payrollRunId}/payslips/zip`);
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to download payslips');
+      }
 
-      // Download the file
+      const filename = response.headers.get('X-Filename') || 'payslips.zip';
       const blob = await response.blob();
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
@@ -114,9 +165,107 @@ export function PayrollWorkflowActions({
       a.click();
       document.body.removeChild(a);
       window.URL.revokeObjectURL(url);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to download payslips');
+    } finally {
+      setIsLoading(null);
+    }
+  };
+
+  const openEmailDialog = () => {
+    setEmailFailures([]);
+    setEmailDialogOpen(true);
+  };
+
+  const handleEmailPayslips = async () => {
+    setIsLoading('email');
+    try {
+      const response = await fetch(`/api/payroll/runs/${payrollRunId}/payslips/email`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ protectWithQid }),
+      });
+
+      const data = await response.json();
 
-      toast.success('WPS file generated and downloaded');
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to email payslips');
+      }
+
+      const failures = (data.results as PayslipEmailResult[]).filter(result => !result.sent);
+      toast.success(`Payslips emailed to ${data.sent} employee(s)`);
+      if (failures.length > 0) {
+        setEmailFailures(failures);
+      } else {
+        setEmailDialogOpen(false);
+      }
       router.refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to email payslips');
+    } finally {
+      setIsLoading(null);
+    }
+  };
+
+  const downloadWPS = async (skipInvalid: boolean) => {
+    const response = await fetch(`/api/payroll/runs/${payrollRunId}/wps`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ skipInvalid }),
+    });
+
+    if (!response.ok) {
+      const data = await response.json();
+      throw new Error(data.error || 'Failed to generate WPS file');
+    }
+
+    // Get filename from header
+    const filename = response.headers.get('X-Filename') || 'wps-file.csv';
+
+    // Download the file
+    const blob = await response.blob();
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    window.URL.revokeObjectURL(url);
+
+    toast.success('WPS file generated and downloaded');
+    router.refresh();
+  };
+
+  const handleGenerateWPS = async () => {
+    setIsLoading('wps');
+    try {
+      // Pre-flight: show every employee the bank would reject before generating
+      const response = await fetch(`/api/payroll/runs/${payrollRunId}/wps`);
+      const report: WPSValidationReport = await response.json();
+
+      if (!response.ok) {
+        throw new Error((report as unknown as { error?: string }).error || 'Failed to validate WPS data');
+      }
+
+      if (report.headerErrors.length > 0 || report.invalidCount > 0) {
+        setWpsReport(report);
+        return;
+      }
+
+      await downloadWPS(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to generate WPS file');
+    } finally {
+      setIsLoading(null);
+    }
+  };
+
+  const handleGenerateWPSAnyway = async () => {
+    setWpsReport(null);
+    setIsLoading('wps');
+    try {
+      await downloadWPS(true);
     } catch (error) {
       toast.error(error instanceof Error ? error.message : 'Failed to generate WPS file');
     } finally {
@@ -164,6 +313,23 @@ export function PayrollWorkflowActions({
             </Button>
           )}
 
+          {/* Recalculate - Before submission */}
+          {(currentStatus === PayrollStatus.DRAFT || currentStatus === PayrollStatus.PROCESSED) &&
+            hasPayslips && (
+              <Button
+                variant="outline"
+                onClick={handlePreviewRecalculation}
+                disabled={isLoading !== null}
+              >
+                {isLoading === 'recalculate' ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <RefreshCw className="mr-2 h-4 w-4" />
+                )}
+                Recalculate
+              </Button>
+            )}
+
           {/* Approve */}
           {currentStatus === PayrollStatus.PENDING_APPROVAL && (
             <>
@@ -228,6 +394,33 @@ export function PayrollWorkflowActions({
               </Button>
             )}
 
+          {/* Payslip PDFs */}
+          {currentStatus !== PayrollStatus.DRAFT && currentStatus !== PayrollStatus.CANCELLED && hasPayslips && (
+            <Button
+              variant="outline"
+              onClick={handleDownloadPayslips}
+              disabled={isLoading !== null}
+            >
+              {isLoading === 'zip' ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Download className="mr-2 h-4 w-4" />
+              )}
+              Download Payslips
+            </Button>
+          )}
+
+          {currentStatus === PayrollStatus.PAID && hasPayslips && (
+            <Button
+              variant="outline"
+              onClick={openEmailDialog}
+              disabled={isLoading !== null}
+            >
+              <Mail className="mr-2 h-4 w-4" />
+              Email Payslips
+            </Button>
+          )}
+
           {/* Cancel/Delete */}
           {(currentStatus === PayrollStatus.DRAFT ||
             currentStatus === PayrollStatus.PENDING_APPROVAL ||
@@ -275,6 +468,164 @@ export function PayrollWorkflowActions({
           )}
         </div>
 
+        {/* Recalculation Preview */}
+        <AlertDialog open={recalculation !== null} onOpenChange={(open) => !open && setRecalculation(null)}>
+          <AlertDialogContent className="max-w-2xl">
+            <AlertDialogHeader>
+              <AlertDialogTitle>Recalculate payroll?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Payslips are recalculated from current salary structures, approved unpaid leave and loans.
+                Manual earnings and deductions are kept.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            {recalculation && (
+              <div className="max-h-80 overflow-y-auto space-y-3 text-sm">
+                <div className="grid grid-cols-2 gap-3 p-3 rounded-md bg-muted">
+                  <div>
+                    <div className="text-muted-foreground">Net before</div>
+                    <div className="font-medium">{formatCurrency(recalculation.before.totalNet)}</div>
+                  </div>
+                  <div>
+                    <div className="text-muted-foreground">Net after</div>
+                    <div className="font-medium">{formatCurrency(recalculation.after.totalNet)}</div>
+                  </div>
+                </div>
+                {recalculation.changed.length === 0 &&
+                  recalculation.added.length === 0 &&
+                  recalculation.removed.length === 0 && (
+                    <p className="text-muted-foreground">No payslips would change.</p>
+                  )}
+                {recalculation.changed.map(change => (
+                  <div key={change.userId} className="p-3 rounded-md border">
+                    <div className="flex justify-between font-medium">
+                      <span>{change.employeeName}</span>
+                      <span className={change.netDifference < 0 ? 'text-red-600' : 'text-green-600'}>
+                        {change.netDifference > 0 ? '+' : ''}{formatCurrency(change.netDifference)}
+                      </span>
+                    </div>
+                    <ul className="list-disc list-inside text-muted-foreground">
+                      {change.deductionsAdded.map((d, i) => (
+                        <li key={`added-${i}`}>Adds {d.description}: {formatCurrency(d.amount)}</li>
+                      ))}
+                      {change.deductionsRemoved.map((d, i) => (
+                        <li key={`removed-${i}`}>Removes {d.description}: {formatCurrency(d.amount)}</li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+                {recalculation.added.map(payslip => (
+                  <div key={payslip.userId} className="p-3 rounded-md border flex justify-between">
+                    <span>{payslip.employeeName} <span className="text-muted-foreground">(new payslip)</span></span>
+                    <span>{formatCurrency(payslip.netSalary)}</span>
+                  </div>
+                ))}
+                {recalculation.removed.map(payslip => (
+                  <div key={payslip.userId} className="p-3 rounded-md border flex justify-between">
+                    <span>{payslip.employeeName} <span className="text-muted-foreground">(payslip removed)</span></span>
+                    <span className="line-through">{formatCurrency(payslip.netSalary)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            <AlertDialogFooter>
+              <AlertDialogCancel>Close</AlertDialogCancel>
+              <AlertDialogAction onClick={handleRecalculate}>
+                Recalculate
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
+        {/* WPS Pre-flight Report */}
+        <AlertDialog open={wpsReport !== null} onOpenChange={(open) => !open && setWpsReport(null)}>
+          <AlertDialogContent className="max-w-2xl">
+            <AlertDialogHeader>
+              <AlertDialogTitle>WPS validation issues</AlertDialogTitle>
+              <AlertDialogDescription>
+                {wpsReport && wpsReport.headerErrors.length > 0
+                  ? 'Fix the company WPS settings before generating the file.'
+                  : `${wpsReport?.invalidCount} employee(s) would be rejected by the bank. ` +
+                    `Fix their HR profiles, or generate the file with the ${wpsReport?.validCount} valid record(s) only.`}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            {wpsReport && (
+              <div className="max-h-80 overflow-y-auto space-y-3 text-sm">
+                {wpsReport.headerErrors.length > 0 && (
+                  <div className="p-3 rounded-md bg-red-50 text-red-700">
+                    <div className="font-medium">Company settings</div>
+                    <ul className="list-disc list-inside">
+                      {wpsReport.headerErrors.map(error => <li key={error}>{error}</li>)}
+                    </ul>
+                  </div>
+                )}
+                {wpsReport.invalidRecords.map(issue => (
+                  <div key={issue.payslipId} className="p-3 rounded-md border">
+                    <div className="font-medium">{issue.employeeName}</div>
+                    <ul className="list-disc list-inside text-muted-foreground">
+                      {issue.errors.map(error => <li key={error}>{error}</li>)}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            )}
+            <AlertDialogFooter>
+              <AlertDialogCancel>Close</AlertDialogCancel>
+              {wpsReport?.canGenerate && (
+                <AlertDialogAction onClick={handleGenerateWPSAnyway}>
+                  Generate anyway
+                </AlertDialogAction>
+              )}
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
+        {/* Email Payslips */}
+        <AlertDialog open={emailDialogOpen} onOpenChange={setEmailDialogOpen}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>
+                {emailFailures.length > 0 ? 'Some payslips were not sent' : 'Email payslips?'}
+              </AlertDialogTitle>
+              <AlertDialogDescription>
+                {emailFailures.length > 0
+                  ? 'Fix the issues below and email the payslips again if needed.'
+                  : 'Each employee receives their own payslip as a PDF attachment.'}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            {emailFailures.length > 0 ? (
+              <div className="max-h-80 overflow-y-auto space-y-2 text-sm">
+                {emailFailures.map(result => (
+                  <div key={result.payslipId} className="p-3 rounded-md border">
+                    <div className="font-medium">{result.employeeName}</div>
+                    <div className="text-muted-foreground">{result.error}</div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="flex items-start gap-2">
+                <Checkbox
+                  id="protect-with-qid"
+                  checked={protectWithQid}
+                  onCheckedChange={(checked) => setProtectWithQid(checked === true)}
+                />
+                <Label htmlFor="protect-with-qid" className="font-normal leading-snug">
+                  Password-protect each PDF with the digits of the employee&apos;s QID.
+                  Employees without a QID on file are skipped.
+                </Label>
+              </div>
+            )}
+            <AlertDialogFooter>
+              <AlertDialogCancel>Close</AlertDialogCancel>
+              {emailFailures.length === 0 && (
+                <Button onClick={handleEmailPayslips} disabled={isLoading !== null}>
+                  {isLoading === 'email' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Send Emails
+                </Button>
+              )}
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
         {/* Status Description */}
         <div className="mt-4 p-4 bg-muted rounded-lg text-sm text-muted-foreground">
           {currentStatus === PayrollStatus.DRAFT && (
@@ -283,7 +634,8 @@ export function PayrollWorkflowActions({
           {currentStatus === PayrollStatus.PROCESSED && (
             <p>
               Payslips have been generated. Review them and submit for approval when ready.
-              You can also generate the WPS file for bank submission.
+              Use &quot;Recalculate&quot; to pick up late salary or leave changes, and add one-off
+              earnings or deductions from each payslip. You can also generate the WPS file for bank submission.
             </p>
           )}
           {currentStatus === PayrollStatus.PENDING_APPROVAL && (
@@ -293,7 +645,10 @@ export function PayrollWorkflowActions({
             <p>This payroll run is approved. Mark as paid when payment is made.</p>
           )}
           {currentStatus === PayrollStatus.PAID && (
-            <p>This payroll run has been marked as paid. You can regenerate the WPS file if needed.</p>
+            <p>
+              This payroll run has been marked as paid. Email payslips to employees, download them all
+              as a ZIP, or regenerate the WPS file if needed.
+            </p>
           )}
           {currentStatus === PayrollStatus.CANCELLED && (
             <p>This payroll run has been cancelled. You can delete it if no longer needed.</p>
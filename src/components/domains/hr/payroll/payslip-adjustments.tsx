@@ -0,0 +1,276 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatCurrency } from '@/lib/payroll/utils';
+
+type AdjustmentKind = 'EARNING' | 'DEDUCTION';
+
+export interface PayslipAdjustmentLine {
+  id: string;
+  kind: AdjustmentKind;
+  type: string;
+  description: string;
+  amount: number;
+  reason: string | null;
+  createdByName: string | null;
+  createdAt: string;
+}
+
+const EARNING_TYPES = [
+  { value: 'BONUS', label: 'Bonus' },
+  { value: 'OVERTIME', label: 'Overtime' },
+  { value: 'COMMISSION', label: 'Commission' },
+  { value: 'ALLOWANCE_ADJUSTMENT', label: 'Allowance Adjustment' },
+  { value: 'OTHER', label: 'Other' },
+];
+
+const DEDUCTION_TYPES = [
+  { value: 'OTHER', label: 'Other (e.g., fine)' },
+  { value: 'ADVANCE_DEDUCTION', label: 'Salary Advance' },
+];
+
+interface PayslipAdjustmentsProps {
+  payslipId: string;
+  adjustments: PayslipAdjustmentLine[];
+  editable: boolean;
+}
+
+export function PayslipAdjustments({ payslipId, adjustments, editable }: PayslipAdjustmentsProps) {
+  const router = useRouter();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [kind, setKind] = useState<AdjustmentKind>('EARNING');
+  const [type, setType] = useState('BONUS');
+  const [description, setDescription] = useState('');
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  const openDialog = (newKind: AdjustmentKind) => {
+    setKind(newKind);
+    setType(newKind === 'EARNING' ? 'BONUS' : 'OTHER');
+    setDescription('');
+    setAmount('');
+    setReason('');
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/payroll/payslips/${payslipId}/adjustments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          kind,
+          type,
+          description,
+          amount: parseFloat(amount),
+          reason,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to add adjustment');
+      }
+
+      toast.success(kind === 'EARNING' ? 'Earning added' : 'Deduction added');
+      setDialogOpen(false);
+      router.refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to add adjustment');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (line: PayslipAdjustmentLine) => {
+    setRemovingId(line.id);
+    try {
+      const response = await fetch(`/api/payroll/payslips/${payslipId}/adjustments/${line.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to remove adjustment');
+      }
+
+      toast.success('Adjustment removed');
+      router.refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove adjustment');
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  const types = kind === 'EARNING' ? EARNING_TYPES : DEDUCTION_TYPES;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="text-lg">Manual Adjustments</CardTitle>
+          <CardDescription>
+            One-off earnings and deductions. They are kept when the payroll run is recalculated.
+          </CardDescription>
+        </div>
+        {editable && (
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => openDialog('EARNING')}>
+              <Plus className="mr-2 h-4 w-4" />
+              Earning
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => openDialog('DEDUCTION')}>
+              <Plus className="mr-2 h-4 w-4" />
+              Deduction
+            </Button>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent>
+        {adjustments.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No manual adjustments
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {adjustments.map(line => (
+              <div key={line.id} className="flex items-start justify-between p-3 border rounded-lg">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant={line.kind === 'EARNING' ? 'default' : 'destructive'}>
+                      {line.kind === 'EARNING' ? 'Earning' : 'Deduction'}
+                    </Badge>
+                    <span className="font-medium text-sm">{line.description}</span>
+                  </div>
+                  {line.reason && (
+                    <p className="text-sm text-muted-foreground mt-1">{line.reason}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {line.type.replace(/_/g, ' ')}
+                    {line.createdByName && <> · Added by {line.createdByName}</>}
+                    {' '}· {new Date(line.createdAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className={`font-medium ${line.kind === 'EARNING' ? 'text-green-600' : 'text-red-600'}`}>
+                    {line.kind === 'EARNING' ? '+' : '-'}{formatCurrency(line.amount)}
+                  </span>
+                  {editable && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleRemove(line)}
+                      disabled={removingId !== null}
+                    >
+                      {removingId === line.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <Trash2 className="h-4 w-4 text-red-500" />
+                      )}
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{kind === 'EARNING' ? 'Add Earning' : 'Add Deduction'}</DialogTitle>
+            <DialogDescription>
+              The payslip and payroll run totals are updated immediately.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Type</Label>
+                <Select value={type} onValueChange={setType}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {types.map(option => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="adjustment-amount">Amount (QAR) *</Label>
+                <Input
+                  id="adjustment-amount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="adjustment-description">Description *</Label>
+              <Input
+                id="adjustment-description"
+                placeholder={kind === 'EARNING' ? 'e.g., Q1 performance bonus' : 'e.g., Late attendance fine'}
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="adjustment-reason">Reason *</Label>
+              <Textarea
+                id="adjustment-reason"
+                rows={3}
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={isSaving || !description || !reason || !(parseFloat(amount) > 0)}
+            >
+              {isSaving ? 'Saving...' : 'Add'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,407 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Download, Loader2, Lock, Wrench } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatDate } from '@/lib/date-format';
+import {
+  AUDIT_DISCREPANCY_LABELS,
+  AUDIT_ITEM_STATUS_LABELS,
+  type AuditCorrection,
+  type AuditDiscrepancy,
+  type AuditProgress,
+} from '@/lib/domains/operations/assets/asset-audit';
+import { AuditResponseForm, type AuditResponseItem } from './asset-audit-response-form';
+import type { AssetAuditCampaignStatus } from '@prisma/client';
+
+interface AuditCampaign {
+  id: string;
+  campaignNumber: string;
+  name: string;
+  description: string | null;
+  location: string | null;
+  categoryCode: string | null;
+  status: AssetAuditCampaignStatus;
+  dueDate: string | null;
+  createdAt: string;
+  closedAt: string | null;
+  startedBy: { id: string; name: string | null; email: string };
+  closedBy: { id: string; name: string | null; email: string } | null;
+  progress: AuditProgress;
+}
+
+interface AuditItem extends AuditResponseItem {
+  verifiedAt: string | null;
+  correctedAt: string | null;
+  discrepancies: AuditDiscrepancy[];
+  correction: AuditCorrection | null;
+  asset: {
+    id: string;
+    assetTag: string | null;
+    model: string;
+    brand: string | null;
+    type: string;
+  };
+  responsibleUser: { id: string; name: string | null; email: string } | null;
+  verifiedBy: { id: string; name: string | null; email: string } | null;
+}
+
+type ItemFilter = 'DISCREPANCIES' | 'PENDING' | 'ALL';
+
+interface AuditCampaignDetailProps {
+  campaignId: string;
+}
+
+/**
+ * Admin view of one audit campaign: progress, the discrepancy report, and
+ * actions to verify items, push corrections into the assets and close it
+ */
+export function AuditCampaignDetail({ campaignId }: AuditCampaignDetailProps) {
+  const [campaign, setCampaign] = useState<AuditCampaign | null>(null);
+  const [items, setItems] = useState<AuditItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [filter, setFilter] = useState<ItemFilter>('DISCREPANCIES');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [verifying, setVerifying] = useState<AuditItem | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const [isClosing, setIsClosing] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const fetchCampaign = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/assets/audits/${campaignId}`);
+      if (response.ok) {
+        const data = await response.json();
+        setCampaign(data.campaign);
+        setItems(data.items);
+      }
+    } catch (err) {
+      console.error('Failed to fetch asset audit:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [campaignId]);
+
+  useEffect(() => {
+    fetchCampaign();
+  }, [fetchCampaign]);
+
+  const visibleItems = useMemo(() => items.filter(item => {
+    if (filter === 'DISCREPANCIES') return item.discrepancies.length > 0;
+    if (filter === 'PENDING') return item.status === 'PENDING';
+    return true;
+  }), [items, filter]);
+
+  const correctableIds = useMemo(
+    () => visibleItems.filter(item => item.correction).map(item => item.id),
+    [visibleItems]
+  );
+  const pendingCorrections = items.filter(item => item.correction).length;
+
+  const handleApply = async (itemIds?: string[]) => {
+    setIsApplying(true);
+    try {
+      const response = await fetch(`/api/assets/audits/${campaignId}/corrections`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(itemIds ? { itemIds } : {}),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to apply corrections');
+      }
+      toast.success(`${data.applied} asset(s) updated`);
+      setSelectedIds([]);
+      fetchCampaign();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to apply corrections');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const handleClose = async () => {
+    if (!confirm('Close this audit? Assigned users will no longer be able to respond.')) return;
+
+    setIsClosing(true);
+    try {
+      const response = await fetch(`/api/assets/audits/${campaignId}/close`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to close audit');
+      }
+      toast.success('Audit closed');
+      fetchCampaign();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to close audit');
+    } finally {
+      setIsClosing(false);
+    }
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const response = await fetch(`/api/assets/audits/${campaignId}/report`);
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to export report');
+      }
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = response.headers.get('X-Filename') || 'asset_audit.xlsx';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to export report');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(prev => (checked ? [...prev, id] : prev.filter(selected => selected !== id)));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (!campaign) {
+    return <p className="text-sm text-gray-500">Audit campaign not found.</p>;
+  }
+
+  const isActive = campaign.status === 'ACTIVE';
+  const { progress } = campaign;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-2">
+            <h1 className="text-2xl font-bold">{campaign.name}</h1>
+            <Badge variant={isActive ? 'default' : 'secondary'}>{isActive ? 'Active' : 'Closed'}</Badge>
+          </div>
+          <p className="text-muted-foreground">
+            <span className="font-mono">{campaign.campaignNumber}</span>
+            {` · ${campaign.location || 'All locations'} · ${campaign.categoryCode || 'All categories'}`}
+            {campaign.dueDate && ` · Due ${formatDate(campaign.dueDate)}`}
+          </p>
+          <p className="text-xs text-gray-500">
+            Started {formatDate(campaign.createdAt)} by {campaign.startedBy.name || campaign.startedBy.email}
+            {campaign.closedAt && campaign.closedBy &&
+              ` · Closed ${formatDate(campaign.closedAt)} by ${campaign.closedBy.name || campaign.closedBy.email}`}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleExport} disabled={isExporting}>
+            {isExporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+            Export Report
+          </Button>
+          {isActive && (
+            <Button variant="outline" onClick={handleClose} disabled={isClosing}>
+              <Lock className="h-4 w-4 mr-2" />
+              Close Audit
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <div className="flex items-center justify-between text-sm">
+            <span>{progress.verified} of {progress.total} assets verified</span>
+            <span className="font-medium">{progress.percentComplete}%</span>
+          </div>
+          <Progress value={progress.percentComplete} className="h-2" />
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-center">
+            {[
+              { label: 'Present', value: progress.present, className: 'text-green-600' },
+              { label: 'Damaged', value: progress.damaged, className: 'text-orange-600' },
+              { label: 'Missing', value: progress.missing, className: 'text-red-600' },
+              { label: 'Serial mismatch', value: progress.serialMismatch, className: 'text-purple-600' },
+              { label: 'Not verified', value: progress.pending, className: 'text-gray-600' },
+            ].map(stat => (
+              <div key={stat.label} className="rounded-lg border p-3">
+                <div className={`text-2xl font-bold ${stat.className}`}>{stat.value}</div>
+                <div className="text-xs text-gray-500">{stat.label}</div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <CardTitle>Discrepancy Report</CardTitle>
+              <CardDescription>
+                Applying a finding updates the asset&apos;s location, serial number or status and
+                records the change in its history. Missing assets only get a history note.
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              {selectedIds.length > 0 && (
+                <Button variant="outline" onClick={() => handleApply(selectedIds)} disabled={isApplying}>
+                  Apply Selected ({selectedIds.length})
+                </Button>
+              )}
+              <Button onClick={() => handleApply()} disabled={isApplying || pendingCorrections === 0}>
+                {isApplying ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Wrench className="h-4 w-4 mr-2" />}
+                Apply All ({pendingCorrections})
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Tabs value={filter} onValueChange={(value) => setFilter(value as ItemFilter)}>
+            <TabsList>
+              <TabsTrigger value="DISCREPANCIES">Discrepancies ({progress.discrepancies})</TabsTrigger>
+              <TabsTrigger value="PENDING">Not Verified ({progress.pending})</TabsTrigger>
+              <TabsTrigger value="ALL">All ({progress.total})</TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          {visibleItems.length === 0 ? (
+            <p className="text-sm text-gray-500 py-4 text-center">Nothing to show.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10">
+                    <Checkbox
+                      checked={correctableIds.length > 0 && correctableIds.every(id => selectedIds.includes(id))}
+                      onCheckedChange={(checked) => setSelectedIds(checked ? correctableIds : [])}
+                      disabled={correctableIds.length === 0}
+                      aria-label="Select all"
+                    />
+                  </TableHead>
+                  <TableHead>Asset</TableHead>
+                  <TableHead>Responsible</TableHead>
+                  <TableHead>Finding</TableHead>
+                  <TableHead>Recorded / Found</TableHead>
+                  <TableHead>Verified</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleItems.map(item => (
+                  <TableRow key={item.id}>
+                    <TableCell>
+                      <Checkbox
+                        checked={selectedIds.includes(item.id)}
+                        onCheckedChange={(checked) => toggleSelected(item.id, !!checked)}
+                        disabled={!item.correction}
+                        aria-label={`Select ${item.asset.assetTag || item.asset.model}`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Link href={`/admin/assets/${item.asset.id}`} className="font-mono text-sm hover:underline">
+                        {item.asset.assetTag || '-'}
+                      </Link>
+                      <div className="text-xs text-gray-500">
+                        {item.asset.brand ? `${item.asset.brand} ${item.asset.model}` : item.asset.model}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {item.responsibleUser
+                        ? item.responsibleUser.name || item.responsibleUser.email
+                        : <span className="text-gray-500">Admin scan</span>}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        <Badge variant={item.status === 'PRESENT' ? 'secondary' : 'outline'}>
+                          {AUDIT_ITEM_STATUS_LABELS[item.status]}
+                        </Badge>
+                        {item.discrepancies
+                          .filter(discrepancy => discrepancy === 'LOCATION_MISMATCH')
+                          .map(discrepancy => (
+                            <Badge key={discrepancy} variant="outline">
+                              {AUDIT_DISCREPANCY_LABELS[discrepancy]}
+                            </Badge>
+                          ))}
+                      </div>
+                      {item.notes && <div className="text-xs text-gray-500 mt-1">{item.notes}</div>}
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      <div>{item.expectedLocation || '-'}{item.foundLocation && ` → ${item.foundLocation}`}</div>
+                      <div className="font-mono text-gray-500">
+                        {item.expectedSerial || '-'}{item.foundSerial && ` → ${item.foundSerial}`}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-xs text-gray-500">
+                      {item.verifiedAt
+                        ? `${formatDate(item.verifiedAt)} by ${item.verifiedBy?.name || item.verifiedBy?.email}`
+                        : '-'}
+                      {item.correctedAt && <div className="text-green-600">Applied {formatDate(item.correctedAt)}</div>}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {isActive && !item.correctedAt && (
+                        <Button variant="ghost" size="sm" onClick={() => setVerifying(item)}>
+                          {item.status === 'PENDING' ? 'Verify' : 'Edit'}
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!verifying} onOpenChange={(open) => !open && setVerifying(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Verify {verifying?.asset.assetTag || verifying?.asset.model}</DialogTitle>
+            <DialogDescription>
+              Recorded at {verifying?.expectedLocation || 'no location'}
+              {verifying?.expectedSerial && `, serial ${verifying.expectedSerial}`}
+            </DialogDescription>
+          </DialogHeader>
+          {verifying && (
+            <AuditResponseForm
+              item={verifying}
+              showLocation
+              onSaved={() => {
+                setVerifying(null);
+                fetchCampaign();
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
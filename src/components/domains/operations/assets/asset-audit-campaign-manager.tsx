@@ -0,0 +1,228 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { formatDate } from '@/lib/date-format';
+import { getCategoryOptions } from '@/lib/domains/operations/assets/asset-categories';
+import type { AuditProgress } from '@/lib/domains/operations/assets/asset-audit';
+import type { AssetAuditCampaignStatus } from '@prisma/client';
+
+interface AuditCampaign {
+  id: string;
+  campaignNumber: string;
+  name: string;
+  location: string | null;
+  categoryCode: string | null;
+  status: AssetAuditCampaignStatus;
+  dueDate: string | null;
+  createdAt: string;
+  closedAt: string | null;
+  startedBy: { id: string; name: string | null; email: string };
+  progress: AuditProgress;
+}
+
+const ALL = 'ALL';
+const CATEGORY_OPTIONS = getCategoryOptions();
+
+interface AuditCampaignManagerProps {
+  /** Locations currently recorded on assets, offered as campaign scopes */
+  locations: string[];
+}
+
+/**
+ * Admin list of asset audit campaigns with a form to start a new one
+ */
+export function AuditCampaignManager({ locations }: AuditCampaignManagerProps) {
+  const [campaigns, setCampaigns] = useState<AuditCampaign[]>([]);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [location, setLocation] = useState(ALL);
+  const [categoryCode, setCategoryCode] = useState(ALL);
+  const [dueDate, setDueDate] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchCampaigns = useCallback(async () => {
+    try {
+      const response = await fetch('/api/assets/audits');
+      if (response.ok) {
+        const data = await response.json();
+        setCampaigns(data.campaigns);
+      }
+    } catch (err) {
+      console.error('Failed to fetch asset audits:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCampaigns();
+  }, [fetchCampaigns]);
+
+  const handleStart = async () => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/assets/audits', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          description: description || null,
+          location: location === ALL ? null : location,
+          categoryCode: categoryCode === ALL ? null : categoryCode,
+          dueDate: dueDate || null,
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to start audit');
+      }
+
+      toast.success(
+        `${result.campaign.campaignNumber} started for ${result.campaign.progress.total} asset(s), ${result.notified} user(s) notified`
+      );
+      setName('');
+      setDescription('');
+      setDueDate('');
+      fetchCampaigns();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {campaigns.length === 0 ? (
+        <p className="text-sm text-gray-500">No audits have been run yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {campaigns.map(campaign => (
+            <Link
+              key={campaign.id}
+              href={`/admin/assets/audits/${campaign.id}`}
+              className="block p-3 border rounded-lg hover:bg-gray-50"
+            >
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <div className="flex items-center gap-2 text-sm font-medium">
+                    <span className="font-mono">{campaign.campaignNumber}</span>
+                    {campaign.name}
+                    <Badge variant={campaign.status === 'ACTIVE' ? 'default' : 'secondary'}>
+                      {campaign.status === 'ACTIVE' ? 'Active' : 'Closed'}
+                    </Badge>
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {campaign.location || 'All locations'} · {campaign.categoryCode || 'All categories'}
+                    {` · Started ${formatDate(campaign.createdAt)}`}
+                    {campaign.dueDate && ` · Due ${formatDate(campaign.dueDate)}`}
+                  </div>
+                </div>
+                <div className="w-48 shrink-0 space-y-1 text-right">
+                  <div className="text-xs text-gray-500">
+                    {campaign.progress.verified}/{campaign.progress.total} verified
+                    {campaign.progress.discrepancies > 0 && (
+                      <span className="text-red-600"> · {campaign.progress.discrepancies} discrepancies</span>
+                    )}
+                  </div>
+                  <Progress value={campaign.progress.percentComplete} className="h-2" />
+                </div>
+              </div>
+            </Link>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {error && (
+          <div className="bg-red-50 text-red-600 p-3 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="grid md:grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label>Name</Label>
+            <Input
+              placeholder="e.g., Q4 stock-take"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Due date</Label>
+            <Input
+              type="date"
+              value={dueDate}
+              onChange={(e) => setDueDate(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label>Location</Label>
+            <Select value={location} onValueChange={setLocation}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All locations</SelectItem>
+                {locations.map(option => (
+                  <SelectItem key={option} value={option}>
+                    {option}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Category</Label>
+            <Select value={categoryCode} onValueChange={setCategoryCode}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All categories</SelectItem>
+                {CATEGORY_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <Label>Instructions</Label>
+          <Textarea
+            rows={2}
+            placeholder="Shown to everyone asked to confirm their assets"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+          />
+        </div>
+
+        <Button
+          className="w-full"
+          onClick={handleStart}
+          disabled={isSubmitting || !name}
+        >
+          {isSubmitting ? 'Starting...' : 'Start Audit'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { AUDIT_ITEM_STATUS_LABELS } from '@/lib/domains/operations/assets/asset-audit';
+import type { AssetAuditItemStatus } from '@prisma/client';
+
+type AuditResponseStatus = Exclude<AssetAuditItemStatus, 'PENDING'>;
+
+const RESPONSE_OPTIONS: { value: AuditResponseStatus; description: string }[] = [
+  { value: 'PRESENT', description: 'I can see it and it works' },
+  { value: 'DAMAGED', description: 'Here but damaged or faulty' },
+  { value: 'MISSING', description: 'Cannot be found' },
+  { value: 'SERIAL_MISMATCH', description: 'Serial number differs from the record' },
+];
+
+export interface AuditResponseItem {
+  id: string;
+  status: AssetAuditItemStatus;
+  expectedLocation: string | null;
+  expectedSerial: string | null;
+  foundLocation: string | null;
+  foundSerial: string | null;
+  notes: string | null;
+}
+
+interface AuditResponseFormProps {
+  item: AuditResponseItem;
+  /** Ask where the asset was found (admin scans); employees only confirm */
+  showLocation?: boolean;
+  /** Called after saving; refreshes the page when omitted */
+  onSaved?: () => void;
+}
+
+/**
+ * Record what was found for one asset in an audit campaign
+ */
+export function AuditResponseForm({ item, showLocation = false, onSaved }: AuditResponseFormProps) {
+  const router = useRouter();
+  const [status, setStatus] = useState<AuditResponseStatus | null>(
+    item.status === 'PENDING' ? null : item.status
+  );
+  const [foundLocation, setFoundLocation] = useState(item.foundLocation || item.expectedLocation || '');
+  const [foundSerial, setFoundSerial] = useState(item.foundSerial || '');
+  const [notes, setNotes] = useState(item.notes || '');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!status) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/assets/audit-items/${item.id}/respond`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          status,
+          foundLocation: showLocation && status !== 'MISSING' ? foundLocation : null,
+          foundSerial: status === 'SERIAL_MISMATCH' ? foundSerial : null,
+          notes: notes || null,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to record audit response');
+      }
+      toast.success(`Recorded as ${AUDIT_ITEM_STATUS_LABELS[status].toLowerCase()}`);
+      if (onSaved) {
+        onSaved();
+      } else {
+        router.refresh();
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to record audit response');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        {RESPONSE_OPTIONS.map(option => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => setStatus(option.value)}
+            className={cn(
+              'rounded-md border p-2 text-left transition-colors',
+              status === option.value ? 'border-primary bg-primary/5' : 'hover:bg-gray-50'
+            )}
+          >
+            <div className="text-sm font-medium">{AUDIT_ITEM_STATUS_LABELS[option.value]}</div>
+            <div className="text-xs text-gray-500">{option.description}</div>
+          </button>
+        ))}
+      </div>
+
+      {status === 'SERIAL_MISMATCH' && (
+        <div className="space-y-1">
+          <Label htmlFor={`audit-serial-${item.id}`}>Serial number on the asset</Label>
+          <Input
+            id={`audit-serial-${item.id}`}
+            value={foundSerial}
+            onChange={(e) => setFoundSerial(e.target.value)}
+            placeholder={item.expectedSerial ? `Recorded: ${item.expectedSerial}` : undefined}
+            required
+          />
+        </div>
+      )}
+
+      {showLocation && status && status !== 'MISSING' && (
+        <div className="space-y-1">
+          <Label htmlFor={`audit-location-${item.id}`}>Found at</Label>
+          <Input
+            id={`audit-location-${item.id}`}
+            value={foundLocation}
+            onChange={(e) => setFoundLocation(e.target.value)}
+            placeholder="Building, floor, room..."
+          />
+        </div>
+      )}
+
+      {status && status !== 'PRESENT' && (
+        <div className="space-y-1">
+          <Label htmlFor={`audit-notes-${item.id}`}>Notes</Label>
+          <Textarea
+            id={`audit-notes-${item.id}`}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={2}
+            placeholder={status === 'MISSING' ? 'When did you last see it?' : 'What is wrong with it?'}
+          />
+        </div>
+      )}
+
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={isSaving || !status || (status === 'SERIAL_MISMATCH' && !foundSerial.trim())}
+      >
+        {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        {item.status === 'PENDING' ? 'Submit' : 'Update Response'}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,340 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Check, FileDown, Loader2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatDate } from '@/lib/date-format';
+import { formatCurrency } from '@/lib/payroll/utils';
+import { DISPOSAL_METHOD_LABELS } from '@/lib/domains/operations/assets/asset-disposal';
+import type { AssetDisposalMethod, AssetDisposalStatus } from '@prisma/client';
+
+interface AssetDisposal {
+  id: string;
+  disposalNumber: string;
+  method: AssetDisposalMethod;
+  reason: string;
+  disposalDate: string;
+  proceeds: number | null;
+  recipient: string | null;
+  dataWipeConfirmed: boolean;
+  dataWipeMethod: string | null;
+  status: AssetDisposalStatus;
+  bookValueAtDisposal: number | null;
+  gainLoss: number | null;
+  reviewedAt: string | null;
+  reviewNotes: string | null;
+  createdAt: string;
+  asset: {
+    id: string;
+    assetTag: string | null;
+    brand: string | null;
+    model: string;
+    cost: number | null;
+    requiresDataWipe: boolean;
+    assignedUser: { id: string; name: string | null; email: string } | null;
+  };
+  requestedBy: { id: string; name: string | null; email: string };
+  reviewedBy: { id: string; name: string | null; email: string } | null;
+}
+
+const STATUS_LABELS: Record<AssetDisposalStatus, string> = {
+  PENDING: 'Pending approval',
+  APPROVED: 'Approved',
+  REJECTED: 'Rejected',
+  CANCELLED: 'Cancelled',
+};
+
+const STATUS_VARIANTS: Record<AssetDisposalStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  PENDING: 'default',
+  APPROVED: 'secondary',
+  REJECTED: 'destructive',
+  CANCELLED: 'outline',
+};
+
+interface AssetDisposalListProps {
+  /** Only show disposals of this asset */
+  assetId?: string;
+  status?: AssetDisposalStatus;
+  /** Id of the signed-in admin, to offer withdrawing their own requests */
+  currentUserId: string;
+}
+
+/**
+ * Disposal requests with approve/reject for pending ones and the certificate
+ * download for approved ones
+ */
+export function AssetDisposalList({ assetId, status, currentUserId }: AssetDisposalListProps) {
+  const router = useRouter();
+  const [disposals, setDisposals] = useState<AssetDisposal[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [actionId, setActionId] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<AssetDisposal | null>(null);
+  const [rejectReason, setRejectReason] = useState('');
+
+  const fetchDisposals = useCallback(async () => {
+    try {
+      const params = new URLSearchParams();
+      if (status) params.set('status', status);
+
+      const response = await fetch(
+        assetId ? `/api/assets/${assetId}/disposals` : `/api/assets/disposals?${params}`
+      );
+      if (response.ok) {
+        const data = await response.json();
+        setDisposals(data.disposals);
+      }
+    } catch (err) {
+      console.error('Failed to fetch asset disposals:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [assetId, status]);
+
+  useEffect(() => {
+    fetchDisposals();
+  }, [fetchDisposals]);
+
+  const afterChange = () => {
+    fetchDisposals();
+    router.refresh();
+  };
+
+  const handleApprove = async (disposal: AssetDisposal) => {
+    if (!confirm(`Approve disposal of ${disposal.asset.assetTag || disposal.asset.model}? The asset will be marked disposed.`)) {
+      return;
+    }
+
+    setActionId(disposal.id);
+    try {
+      const response = await fetch(`/api/assets/disposals/${disposal.id}/approve`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to approve disposal');
+      }
+      toast.success(
+        data.cancelledRequests.length > 0
+          ? `Disposal approved, ${data.cancelledRequests.length} pending request(s) cancelled`
+          : 'Disposal approved'
+      );
+      afterChange();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to approve disposal');
+    } finally {
+      setActionId(null);
+    }
+  };
+
+  const handleReject = async () => {
+    if (!rejecting) return;
+
+    setActionId(rejecting.id);
+    try {
+      const response = await fetch(`/api/assets/disposals/${rejecting.id}/reject`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ notes: rejectReason }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to reject disposal');
+      }
+      toast.success('Disposal rejected');
+      setRejecting(null);
+      setRejectReason('');
+      afterChange();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to reject disposal');
+    } finally {
+      setActionId(null);
+    }
+  };
+
+  const handleWithdraw = async (disposal: AssetDisposal) => {
+    setActionId(disposal.id);
+    try {
+      const response = await fetch(`/api/assets/disposals/${disposal.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to withdraw disposal');
+      }
+      toast.success('Disposal request withdrawn');
+      afterChange();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to withdraw disposal');
+    } finally {
+      setActionId(null);
+    }
+  };
+
+  const handleCertificate = async (disposal: AssetDisposal) => {
+    setActionId(disposal.id);
+    try {
+      const response = await fetch(`/api/assets/disposals/${disposal.id}/certificate`);
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to download certificate');
+      }
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = response.headers.get('X-Filename') || `${disposal.disposalNumber}.pdf`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to download certificate');
+    } finally {
+      setActionId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (disposals.length === 0) {
+    return <p className="text-sm text-gray-500">No disposal requests.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {disposals.map(disposal => {
+        const isBusy = actionId === disposal.id;
+        const amounts = disposal.status === 'APPROVED'
+          ? disposal.bookValueAtDisposal !== null
+            ? `Book value ${formatCurrency(disposal.bookValueAtDisposal)}, proceeds ${formatCurrency(disposal.proceeds ?? 0)}, ${(disposal.gainLoss ?? 0) >= 0 ? 'gain' : 'loss'} ${formatCurrency(Math.abs(disposal.gainLoss ?? 0))}`
+            : `Proceeds ${formatCurrency(disposal.proceeds ?? 0)} (no depreciation policy)`
+          : disposal.proceeds !== null
+            ? `Proceeds ${formatCurrency(disposal.proceeds)}`
+            : null;
+
+        return (
+          <div key={disposal.id} className="p-3 border rounded-lg space-y-2">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <div className="flex flex-wrap items-center gap-2 text-sm font-medium">
+                  <span className="font-mono">{disposal.disposalNumber}</span>
+                  {!assetId && (
+                    <Link href={`/admin/assets/${disposal.asset.id}`} className="hover:underline">
+                      {disposal.asset.assetTag || disposal.asset.model}
+                    </Link>
+                  )}
+                  <Badge variant="outline">{DISPOSAL_METHOD_LABELS[disposal.method]}</Badge>
+                  <Badge variant={STATUS_VARIANTS[disposal.status]}>{STATUS_LABELS[disposal.status]}</Badge>
+                </div>
+                <div className="text-xs text-gray-500">
+                  {!assetId && `${disposal.asset.brand ? `${disposal.asset.brand} ${disposal.asset.model}` : disposal.asset.model} · `}
+                  {formatDate(disposal.disposalDate)}
+                  {disposal.recipient && ` · ${disposal.recipient}`}
+                  {` · Requested by ${disposal.requestedBy.name || disposal.requestedBy.email}`}
+                </div>
+              </div>
+              <div className="flex shrink-0 gap-2">
+                {disposal.status === 'PENDING' && (
+                  <>
+                    {disposal.requestedBy.id === currentUserId && (
+                      <Button variant="ghost" size="sm" onClick={() => handleWithdraw(disposal)} disabled={isBusy}>
+                        Withdraw
+                      </Button>
+                    )}
+                    <Button variant="outline" size="sm" onClick={() => setRejecting(disposal)} disabled={isBusy}>
+                      <X className="h-4 w-4 mr-1" />
+                      Reject
+                    </Button>
+                    <Button size="sm" onClick={() => handleApprove(disposal)} disabled={isBusy}>
+                      {isBusy ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Check className="h-4 w-4 mr-1" />}
+                      Approve
+                    </Button>
+                  </>
+                )}
+                {disposal.status === 'APPROVED' && (
+                  <Button variant="outline" size="sm" onClick={() => handleCertificate(disposal)} disabled={isBusy}>
+                    {isBusy ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <FileDown className="h-4 w-4 mr-1" />}
+                    Certificate
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            <p className="text-sm">{disposal.reason}</p>
+            <div className="text-xs text-gray-500 space-y-0.5">
+              {amounts && <div>{amounts}</div>}
+              {disposal.asset.requiresDataWipe && (
+                <div>
+                  Data wipe: {disposal.method === 'LOST_STOLEN'
+                    ? 'not possible (lost or stolen)'
+                    : disposal.dataWipeConfirmed
+                      ? `confirmed${disposal.dataWipeMethod ? ` (${disposal.dataWipeMethod})` : ''}`
+                      : 'not confirmed'}
+                </div>
+              )}
+              {disposal.status === 'PENDING' && disposal.asset.assignedUser && (
+                <div>
+                  Currently assigned to {disposal.asset.assignedUser.name || disposal.asset.assignedUser.email}; approval unassigns it
+                </div>
+              )}
+              {disposal.reviewedBy && disposal.reviewedAt && disposal.status !== 'CANCELLED' && (
+                <div>
+                  {disposal.status === 'APPROVED' ? 'Approved' : 'Rejected'} by {disposal.reviewedBy.name || disposal.reviewedBy.email} on {formatDate(disposal.reviewedAt)}
+                  {disposal.reviewNotes && `: ${disposal.reviewNotes}`}
+                </div>
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      <Dialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject {rejecting?.disposalNumber}</DialogTitle>
+            <DialogDescription>
+              The asset stays as it is. The requester is told why.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            rows={3}
+            placeholder="Reason for rejecting"
+            value={rejectReason}
+            onChange={(e) => setRejectReason(e.target.value)}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleReject}
+              disabled={!rejectReason.trim() || actionId === rejecting?.id}
+            >
+              Reject Disposal
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
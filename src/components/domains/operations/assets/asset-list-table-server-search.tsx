@@ -7,7 +7,9 @@ import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
 import { AssetActions } from './asset-actions';
+import { PrintAssetLabelsButton } from '@/components/domains/operations/assets/print-asset-labels-button';
 import { formatDate } from '@/lib/date-format';
 import { Loader2 } from 'lucide-react';
 
@@ -51,6 +53,8 @@ export function AssetListTableServerSearch() {
   const [categoryFilter, setCategoryFilter] = useState<string>('all');
   const [sortBy, setSortBy] = useState<string>('createdAt');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
+  // Selection for label printing is kept across pages and filters
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const [pagination, setPagination] = useState<PaginationInfo>({
     page: 1,
     pageSize: 50,
@@ -112,6 +116,19 @@ export function AssetListTableServerSearch() {
     }
   };
 
+  const allOnPageSelected = assets.length > 0 && assets.every(asset => selectedIds.includes(asset.id));
+
+  const toggleSelected = (assetId: string, checked: boolean) => {
+    setSelectedIds(prev => checked ? [...prev, assetId] : prev.filter(id => id !== assetId));
+  };
+
+  const togglePageSelected = (checked: boolean) => {
+    const pageIds = assets.map(asset => asset.id);
+    setSelectedIds(prev => checked
+      ? [...prev, ...pageIds.filter(id => !prev.includes(id))]
+      : prev.filter(id => !pageIds.includes(id)));
+  };
+
   const getStatusBadge = (status: string) => {
     const statusConfig: Record<string, { label: string; className: string }> = {
       IN_USE: { label: 'In Use', className: 'bg-green-100 text-green-800 border-green-300' },
@@ -191,7 +208,22 @@ export function AssetListTableServerSearch() {
         <div>
           Showing {assets.length > 0 ? ((pagination.page - 1) * pagination.pageSize) + 1 : 0} - {Math.min(pagination.page * pagination.pageSize, pagination.total)} of {pagination.total} assets
         </div>
-        {loading && <Loader2 className="h-4 w-4 animate-spin" />}
+        <div className="flex items-center gap-3">
+          {loading && <Loader2 className="h-4 w-4 animate-spin" />}
+          {selectedIds.length > 0 && (
+            <>
+              <span>{selectedIds.length} selected</span>
+              <Button variant="ghost" size="sm" onClick={() => setSelectedIds([])}>
+                Clear
+              </Button>
+            </>
+          )}
+          <PrintAssetLabelsButton
+            assetIds={selectedIds}
+            label={selectedIds.length > 0 ? `Print ${selectedIds.length} Label${selectedIds.length === 1 ? '' : 's'}` : 'Print Labels'}
+            size="sm"
+          />
+        </div>
       </div>
 
       {/* Table */}
@@ -199,6 +231,13 @@ export function AssetListTableServerSearch() {
         <Table>
           <TableHeader>
             <TableRow>
+              <TableHead className="w-10">
+                <Checkbox
+                  checked={allOnPageSelected}
+                  onCheckedChange={(checked) => togglePageSelected(checked === true)}
+                  aria-label="Select all assets on this page"
+                />
+              </TableHead>
               <TableHead
                 className="cursor-pointer hover:bg-gray-100"
                 onClick={() => toggleSort('assetTag')}
@@ -242,14 +281,14 @@ export function AssetListTableServerSearch() {
           <TableBody>
             {loading && assets.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={8} className="text-center py-8">
+                <TableCell colSpan={9} className="text-center py-8">
                   <Loader2 className="h-8 w-8 animate-spin mx-auto text-gray-400" />
                   <p className="text-gray-500 mt-2">Loading assets...</p>
                 </TableCell>
               </TableRow>
             ) : assets.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={8} className="text-center py-8 text-gray-500">
+                <TableCell colSpan={9} className="text-center py-8 text-gray-500">
                   {debouncedSearch || statusFilter !== 'all' || typeFilter !== 'all' || categoryFilter !== 'all'
                     ? 'No assets match your filters'
                     : 'No assets found. Create your first asset!'}
@@ -258,6 +297,13 @@ export function AssetListTableServerSearch() {
             ) : (
               assets.map((asset) => (
                 <TableRow key={asset.id}>
+                  <TableCell>
+                    <Checkbox
+                      checked={selectedIds.includes(asset.id)}
+                      onCheckedChange={(checked) => toggleSelected(asset.id, checked === true)}
+                      aria-label={`Select ${asset.assetTag || asset.model}`}
+                    />
+                  </TableCell>
                   <TableCell className="font-mono text-sm">
                     <Link
                       href={`/admin/assets/${asset.id}`}
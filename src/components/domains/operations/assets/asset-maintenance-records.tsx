@@ -8,12 +8,19 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { formatDate } from '@/lib/date-format';
+import { formatCurrency } from '@/lib/payroll/utils';
+import { parseMaintenanceAttachments } from '@/lib/domains/operations/assets/maintenance-schedule';
 
 interface MaintenanceRecord {
   id: string;
   maintenanceDate: string;
   notes: string | null;
   performedBy: string | null;
+  vendor: string | null;
+  cost: string | number | null;
+  costCurrency: string | null;
+  downtimeHours: string | number | null;
+  attachments: unknown;
   createdAt: string;
 }
 
@@ -157,11 +164,35 @@ export function AssetMaintenanceRecords({ assetId, readOnly = false }: AssetMain
                     Added {formatDate(new Date(record.createdAt))}
                   </div>
                 </div>
+                {(record.vendor || record.cost !== null || record.downtimeHours !== null) && (
+                  <div className="flex flex-wrap gap-x-4 text-sm text-gray-600">
+                    {record.vendor && <span>Vendor: {record.vendor}</span>}
+                    {record.cost !== null && (
+                      <span>Cost: {formatCurrency(Number(record.cost), record.costCurrency || 'QAR')}</span>
+                    )}
+                    {record.downtimeHours !== null && <span>Downtime: {Number(record.downtimeHours)}h</span>}
+                  </div>
+                )}
                 {record.notes && (
                   <div className="text-gray-700 whitespace-pre-wrap mt-2">
                     {record.notes}
                   </div>
                 )}
+                {parseMaintenanceAttachments(record.attachments).length > 0 && (
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {parseMaintenanceAttachments(record.attachments).map((attachment) => (
+                      <a
+                        key={attachment.url}
+                        href={attachment.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-sm text-blue-600 hover:underline"
+                      >
+                        {attachment.name}
+                      </a>
+                    ))}
+                  </div>
+                )}
               </div>
             ))}
           </div>
@@ -0,0 +1,130 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { CheckCircle2, Loader2, MapPin } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface AssetCheckInFormProps {
+  assetId: string;
+  currentLocation: string | null;
+}
+
+/**
+ * Admin check-in from the scan page: records where the asset was found
+ */
+export function AssetCheckInForm({ assetId, currentLocation }: AssetCheckInFormProps) {
+  const router = useRouter();
+  const [location, setLocation] = useState(currentLocation || '');
+  const [notes, setNotes] = useState('');
+  const [locations, setLocations] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetch('/api/assets/locations')
+      .then(response => (response.ok ? response.json() : { locations: [] }))
+      .then(data => setLocations(data.locations || []))
+      .catch(err => console.error('Failed to fetch asset locations:', err));
+  }, []);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/assets/${assetId}/check-in`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ location, notes: notes || null }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to check in asset');
+      }
+      toast.success(data.locationChanged ? `Location updated to ${data.location}` : 'Check-in recorded');
+      setNotes('');
+      router.refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to check in asset');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="space-y-1">
+        <Label htmlFor="check-in-location">Location</Label>
+        <Input
+          id="check-in-location"
+          list="check-in-locations"
+          value={location}
+          onChange={(e) => setLocation(e.target.value)}
+          placeholder="Building, floor, room..."
+          required
+        />
+        <datalist id="check-in-locations">
+          {locations.map(option => (
+            <option key={option} value={option} />
+          ))}
+        </datalist>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="check-in-notes">Notes (optional)</Label>
+        <Textarea
+          id="check-in-notes"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          rows={2}
+        />
+      </div>
+      <Button type="submit" className="w-full" disabled={isSaving || !location.trim()}>
+        {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <MapPin className="h-4 w-4 mr-2" />}
+        Check In Here
+      </Button>
+    </form>
+  );
+}
+
+interface ConfirmCustodyButtonProps {
+  assetId: string;
+}
+
+/**
+ * Lets the assigned employee confirm they still hold the asset
+ */
+export function ConfirmCustodyButton({ assetId }: ConfirmCustodyButtonProps) {
+  const router = useRouter();
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleConfirm = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/assets/${assetId}/confirm-custody`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to confirm asset');
+      }
+      toast.success('Thanks, you have confirmed you hold this asset');
+      router.refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to confirm asset');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Button className="w-full" size="lg" onClick={handleConfirm} disabled={isSaving}>
+      {isSaving ? <Loader2 className="h-5 w-5 mr-2 animate-spin" /> : <CheckCircle2 className="h-5 w-5 mr-2" />}
+      I Have This Asset
+    </Button>
+  );
+}
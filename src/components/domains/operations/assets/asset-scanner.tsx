@@ -0,0 +1,135 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Camera, Loader2 } from 'lucide-react';
+import { ASSET_SCAN_PATH, parseAssetScanValue } from '@/lib/domains/operations/assets/asset-scan';
+
+const SCANNER_ELEMENT_ID = 'asset-scanner';
+
+type ScannerState = 'idle' | 'starting' | 'scanning' | 'error';
+
+/**
+ * Camera scanner for asset labels. A scanned QR code (or a typed tag) opens
+ * the scan page for that asset.
+ */
+export function AssetScanner() {
+  const router = useRouter();
+  const scannerRef = useRef<{ stop: () => Promise<void> } | null>(null);
+  const [state, setState] = useState<ScannerState>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [manualTag, setManualTag] = useState('');
+
+  const openAsset = (assetTag: string) => {
+    router.push(`${ASSET_SCAN_PATH}/${encodeURIComponent(assetTag)}`);
+  };
+
+  const stopScanner = async () => {
+    const scanner = scannerRef.current;
+    scannerRef.current = null;
+    if (scanner) {
+      try {
+        await scanner.stop();
+      } catch {
+        // Already stopped
+      }
+    }
+  };
+
+  useEffect(() => {
+    return () => {
+      stopScanner();
+    };
+  }, []);
+
+  const startScanner = async () => {
+    setState('starting');
+    setError(null);
+    try {
+      // Loaded on demand: the library touches browser APIs at import time
+      const { Html5Qrcode } = await import('html5-qrcode');
+      const scanner = new Html5Qrcode(SCANNER_ELEMENT_ID);
+      await scanner.start(
+        { facingMode: 'environment' },
+        { fps: 10, qrbox: { width: 240, height: 240 } },
+        (decodedText) => {
+          const assetTag = parseAssetScanValue(decodedText);
+          if (assetTag) {
+            stopScanner();
+            openAsset(assetTag);
+          } else {
+            setError('That code is not an asset label');
+          }
+        },
+        () => {
+          // No code in this frame
+        }
+      );
+      scannerRef.current = scanner;
+      setState('scanning');
+    } catch (err) {
+      console.error('Failed to start asset scanner:', err);
+      setError('Could not open the camera. Allow camera access or enter the asset tag below.');
+      setState('error');
+    }
+  };
+
+  const handleManualSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const assetTag = parseAssetScanValue(manualTag);
+    if (assetTag) {
+      openAsset(assetTag);
+    } else {
+      setError('Enter a valid asset tag, e.g. BCE-CP-25001');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div
+        id={SCANNER_ELEMENT_ID}
+        className={`w-full overflow-hidden rounded-lg bg-gray-900 ${state === 'scanning' ? '' : 'hidden'}`}
+      />
+
+      {state !== 'scanning' && (
+        <Button className="w-full" size="lg" onClick={startScanner} disabled={state === 'starting'}>
+          {state === 'starting' ? (
+            <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+          ) : (
+            <Camera className="h-5 w-5 mr-2" />
+          )}
+          Scan Asset Label
+        </Button>
+      )}
+      {state === 'scanning' && (
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={async () => {
+            await stopScanner();
+            setState('idle');
+          }}
+        >
+          Stop Camera
+        </Button>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <form onSubmit={handleManualSubmit} className="flex gap-2">
+        <Input
+          placeholder="Or type an asset tag"
+          value={manualTag}
+          onChange={(e) => setManualTag(e.target.value)}
+          className="font-mono"
+          autoCapitalize="characters"
+        />
+        <Button type="submit" variant="outline" disabled={!manualTag.trim()}>
+          Open
+        </Button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  DISPOSAL_METHOD_LABELS,
+  allowsDisposalProceeds,
+  needsDataWipeConfirmation,
+  requiresDataWipe,
+} from '@/lib/domains/operations/assets/asset-disposal';
+import type { AssetDisposalMethod } from '@prisma/client';
+
+interface DisposeAssetButtonProps {
+  asset: {
+    id: string;
+    assetTag: string | null;
+    model: string;
+    assetCategory: string | null;
+    type: string;
+  };
+  /** Current book value (QAR), shown for comparison with the proceeds */
+  bookValue?: number | null;
+}
+
+/**
+ * Raise a disposal request for an asset. The asset is only marked disposed
+ * once another admin approves the request.
+ */
+export function DisposeAssetButton({ asset, bookValue }: DisposeAssetButtonProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [method, setMethod] = useState<AssetDisposalMethod>('SOLD');
+  const [reason, setReason] = useState('');
+  const [disposalDate, setDisposalDate] = useState(new Date().toISOString().split('T')[0]);
+  const [proceeds, setProceeds] = useState('');
+  const [recipient, setRecipient] = useState('');
+  const [dataWipeConfirmed, setDataWipeConfirmed] = useState(false);
+  const [dataWipeMethod, setDataWipeMethod] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const hasProceeds = allowsDisposalProceeds(method);
+  const holdsData = requiresDataWipe(asset);
+  const wipeRequired = needsDataWipeConfirmation(asset, method);
+
+  const handleSubmit = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/assets/${asset.id}/disposals`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          method,
+          reason,
+          disposalDate,
+          proceeds: hasProceeds && proceeds ? parseFloat(proceeds) : null,
+          recipient: recipient || null,
+          dataWipeConfirmed: holdsData && method !== 'LOST_STOLEN' ? dataWipeConfirmed : false,
+          dataWipeMethod: dataWipeConfirmed ? dataWipeMethod : null,
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to request disposal');
+      }
+
+      toast.success(`Disposal ${result.disposal.disposalNumber} sent for approval`);
+      setOpen(false);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isValid = !!reason.trim() &&
+    !!disposalDate &&
+    (method !== 'SOLD' || proceeds !== '') &&
+    (!wipeRequired || dataWipeConfirmed) &&
+    (!dataWipeConfirmed || !!dataWipeMethod.trim());
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => setOpen(true)}>
+        <Trash2 className="h-4 w-4 mr-2" />
+        Dispose
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Dispose of {asset.assetTag || asset.model}</DialogTitle>
+            <DialogDescription>
+              The request goes to another admin for approval. Approving it marks the asset
+              disposed, stops its depreciation and cancels any pending requests for it.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-3">
+            {error && (
+              <div className="bg-red-50 text-red-600 p-3 rounded-md text-sm">
+                {error}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Method</Label>
+                <Select value={method} onValueChange={(value) => setMethod(value as AssetDisposalMethod)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(DISPOSAL_METHOD_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>{method === 'LOST_STOLEN' ? 'Date discovered' : 'Disposal date'}</Label>
+                <Input type="date" value={disposalDate} onChange={(e) => setDisposalDate(e.target.value)} />
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label>Reason</Label>
+              <Textarea
+                rows={2}
+                placeholder={method === 'LOST_STOLEN' ? 'What happened? Include any police report number.' : 'e.g., End of life, beyond economical repair'}
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+
+            {method !== 'LOST_STOLEN' && (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label>{method === 'DONATED' ? 'Recipient' : method === 'SOLD' ? 'Buyer' : 'Recycler'}</Label>
+                  <Input value={recipient} onChange={(e) => setRecipient(e.target.value)} />
+                </div>
+                {hasProceeds && (
+                  <div className="space-y-1">
+                    <Label>{method === 'SOLD' ? 'Sale price (QAR)' : 'Scrap value (QAR)'}</Label>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={proceeds}
+                      onChange={(e) => setProceeds(e.target.value)}
+                    />
+                    {bookValue !== null && bookValue !== undefined && (
+                      <p className="text-xs text-gray-500">Book value today: QAR {bookValue.toFixed(2)}</p>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {holdsData && method !== 'LOST_STOLEN' && (
+              <div className="space-y-2 rounded-md border p-3">
+                <div className="flex items-start gap-2">
+                  <Checkbox
+                    id="data-wipe-confirmed"
+                    checked={dataWipeConfirmed}
+                    onCheckedChange={(checked) => setDataWipeConfirmed(!!checked)}
+                  />
+                  <Label htmlFor="data-wipe-confirmed" className="text-sm font-normal leading-snug">
+                    I confirm the device storage has been securely wiped or destroyed and company
+                    accounts have been removed
+                  </Label>
+                </div>
+                {dataWipeConfirmed && (
+                  <Input
+                    placeholder="How, e.g., DBAN 3-pass, factory reset + MDM wipe, drive shredded"
+                    value={dataWipeMethod}
+                    onChange={(e) => setDataWipeMethod(e.target.value)}
+                  />
+                )}
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={isSaving || !isValid}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Request Disposal
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
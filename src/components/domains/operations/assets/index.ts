@@ -1,9 +1,19 @@
 export { AssetActions } from './asset-actions';
+export { AuditCampaignDetail } from './asset-audit-campaign-detail';
+export { AuditCampaignManager } from './asset-audit-campaign-manager';
+export { AuditResponseForm, type AuditResponseItem } from './asset-audit-response-form';
 export { AssetCostBreakdown } from './asset-cost-breakdown';
+export { AssetDisposalList } from './asset-disposal-list';
 export { AssetListTable } from './asset-list-table';
 export { AssetListTableServerSearch } from './asset-list-table-server-search';
 export { AssetMaintenanceRecords } from './asset-maintenance-records';
+export { AssetCheckInForm, ConfirmCustodyButton } from './asset-scan-actions';
+export { AssetScanner } from './asset-scanner';
 export { AssignmentTimeline } from './assignment-timeline';
 export { CloneAssetButton } from './clone-asset-button';
 export { DeleteAssetButton } from './delete-asset-button';
+export { DisposeAssetButton } from './dispose-asset-button';
 export { EmployeeAssetListTable } from './employee-asset-list-table';
+export { MaintenanceDueList } from './maintenance-due-list';
+export { MaintenancePlanManager, type MaintenanceAssetOption } from './maintenance-plan-manager';
+export { PrintAssetLabelsButton } from './print-asset-labels-button';
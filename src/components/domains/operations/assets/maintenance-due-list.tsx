@@ -0,0 +1,443 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { CheckCircle2, Loader2, Play, SkipForward, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { DocumentUpload } from '@/components/domains/hr/profile';
+import { formatDate } from '@/lib/date-format';
+import { formatCurrency } from '@/lib/payroll/utils';
+import {
+  formatMaintenanceInterval,
+  type MaintenanceAttachment,
+  type MaintenanceDueStatus,
+} from '@/lib/domains/operations/assets/maintenance-schedule';
+import type { MaintenanceIntervalUnit, MaintenanceTaskStatus } from '@prisma/client';
+
+interface MaintenanceTask {
+  id: string;
+  dueDate: string;
+  status: MaintenanceTaskStatus;
+  startedAt: string | null;
+  dueStatus: MaintenanceDueStatus;
+  plan: {
+    id: string;
+    name: string;
+    intervalValue: number;
+    intervalUnit: MaintenanceIntervalUnit;
+    checklist: string[];
+    vendor: string | null;
+    expectedCost: number | null;
+    costCurrency: string | null;
+  };
+  asset: {
+    id: string;
+    assetTag: string | null;
+    model: string;
+    type: string;
+    status: string;
+    assignedUser: { id: string; name: string | null; email: string } | null;
+  };
+}
+
+const DUE_STATUS_LABELS: Record<MaintenanceDueStatus, string> = {
+  OVERDUE: 'Overdue',
+  DUE_SOON: 'Due soon',
+  UPCOMING: 'Upcoming',
+};
+
+const DUE_STATUS_VARIANTS: Record<MaintenanceDueStatus, 'destructive' | 'default' | 'secondary'> = {
+  OVERDUE: 'destructive',
+  DUE_SOON: 'default',
+  UPCOMING: 'secondary',
+};
+
+interface MaintenanceDueListProps {
+  /** Only show tasks for this asset */
+  assetId?: string;
+  /** Days ahead to include by default (overdue tasks are always shown) */
+  defaultDays?: number;
+}
+
+/**
+ * Preventive maintenance tasks that are overdue or coming up. Starting a task
+ * puts the asset into repair; completing it records the work on the asset.
+ */
+export function MaintenanceDueList({ assetId, defaultDays = 30 }: MaintenanceDueListProps) {
+  const [tasks, setTasks] = useState<MaintenanceTask[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [days, setDays] = useState(String(defaultDays));
+  const [actionId, setActionId] = useState<string | null>(null);
+
+  const [completing, setCompleting] = useState<MaintenanceTask | null>(null);
+  const [checkedItems, setCheckedItems] = useState<string[]>([]);
+  const [completedAt, setCompletedAt] = useState('');
+  const [vendor, setVendor] = useState('');
+  const [cost, setCost] = useState('');
+  const [downtimeHours, setDowntimeHours] = useState('');
+  const [notes, setNotes] = useState('');
+  const [attachments, setAttachments] = useState<MaintenanceAttachment[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchTasks = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ days });
+      if (assetId) params.set('assetId', assetId);
+
+      const response = await fetch(`/api/assets/maintenance-tasks?${params}`);
+      if (response.ok) {
+        const data = await response.json();
+        setTasks(data.tasks);
+      }
+    } catch (err) {
+      console.error('Failed to fetch maintenance tasks:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [assetId, days]);
+
+  useEffect(() => {
+    fetchTasks();
+  }, [fetchTasks]);
+
+  const runAction = async (task: MaintenanceTask, action: 'start' | 'skip') => {
+    setActionId(task.id);
+    try {
+      const response = await fetch(`/api/assets/maintenance-tasks/${task.id}/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to ${action} maintenance task`);
+      }
+      toast.success(action === 'start'
+        ? `${task.asset.assetTag || task.asset.model} is now in repair`
+        : 'Task skipped, next one scheduled');
+      fetchTasks();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setActionId(null);
+    }
+  };
+
+  const openCompleteDialog = (task: MaintenanceTask) => {
+    setCompleting(task);
+    setCheckedItems([]);
+    setCompletedAt(new Date().toISOString().split('T')[0]);
+    setVendor(task.plan.vendor || '');
+    setCost(task.plan.expectedCost !== null ? String(task.plan.expectedCost) : '');
+    setDowntimeHours('');
+    setNotes('');
+    setAttachments([]);
+  };
+
+  const toggleItem = (item: string, checked: boolean) => {
+    setCheckedItems(current => (checked ? [...current, item] : current.filter(i => i !== item)));
+  };
+
+  const handleComplete = async () => {
+    if (!completing) return;
+    setIsSaving(true);
+
+    try {
+      const response = await fetch(`/api/assets/maintenance-tasks/${completing.id}/complete`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          completedAt: completedAt || undefined,
+          checkedItems,
+          vendor: vendor || null,
+          cost: cost ? parseFloat(cost) : null,
+          costCurrency: completing.plan.costCurrency,
+          downtimeHours: downtimeHours ? parseFloat(downtimeHours) : null,
+          notes: notes || null,
+          attachments,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to complete maintenance task');
+      }
+
+      toast.success('Maintenance recorded');
+      setCompleting(null);
+      fetchTasks();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-end gap-2">
+        <Label className="text-sm text-muted-foreground">Show due within</Label>
+        <Select value={days} onValueChange={setDays}>
+          <SelectTrigger className="w-[130px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="7">7 days</SelectItem>
+            <SelectItem value="30">30 days</SelectItem>
+            <SelectItem value="90">90 days</SelectItem>
+            <SelectItem value="365">1 year</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : tasks.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-8">
+          No maintenance due
+        </p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {!assetId && <TableHead>Asset</TableHead>}
+              <TableHead>Plan</TableHead>
+              <TableHead>Due</TableHead>
+              <TableHead>Vendor</TableHead>
+              <TableHead className="text-right">Expected Cost</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {tasks.map(task => (
+              <TableRow key={task.id}>
+                {!assetId && (
+                  <TableCell>
+                    <Link href={`/admin/assets/${task.asset.id}`} className="font-medium hover:underline">
+                      {task.asset.assetTag || task.asset.model}
+                    </Link>
+                    <div className="text-xs text-muted-foreground">
+                      {task.asset.model} · {task.asset.assignedUser?.name || task.asset.assignedUser?.email || 'Unassigned'}
+                    </div>
+                  </TableCell>
+                )}
+                <TableCell>
+                  <div className="font-medium">{task.plan.name}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {formatMaintenanceInterval(task.plan.intervalValue, task.plan.intervalUnit)}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <div>{formatDate(task.dueDate)}</div>
+                  {task.status === 'IN_PROGRESS' ? (
+                    <Badge variant="outline">In progress</Badge>
+                  ) : (
+                    <Badge variant={DUE_STATUS_VARIANTS[task.dueStatus]}>
+                      {DUE_STATUS_LABELS[task.dueStatus]}
+                    </Badge>
+                  )}
+                </TableCell>
+                <TableCell>{task.plan.vendor || '-'}</TableCell>
+                <TableCell className="text-right">
+                  {task.plan.expectedCost !== null
+                    ? formatCurrency(task.plan.expectedCost, task.plan.costCurrency || 'QAR')
+                    : '-'}
+                </TableCell>
+                <TableCell className="text-right">
+                  <div className="flex justify-end gap-1">
+                    {task.status === 'SCHEDULED' && (
+                      <>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Start (asset goes into repair)"
+                          disabled={actionId !== null}
+                          onClick={() => runAction(task, 'start')}
+                        >
+                          {actionId === task.id ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <Play className="h-4 w-4" />
+                          )}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Skip this occurrence"
+                          disabled={actionId !== null}
+                          onClick={() => runAction(task, 'skip')}
+                        >
+                          <SkipForward className="h-4 w-4 text-muted-foreground" />
+                        </Button>
+                      </>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Complete"
+                      disabled={actionId !== null}
+                      onClick={() => openCompleteDialog(task)}
+                    >
+                      <CheckCircle2 className="h-4 w-4 text-green-600" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Dialog open={completing !== null} onOpenChange={(open) => !open && setCompleting(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Complete Maintenance</DialogTitle>
+            <DialogDescription>
+              {completing?.plan.name} · {completing?.asset.assetTag || completing?.asset.model}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+            {completing && completing.plan.checklist.length > 0 && (
+              <div className="space-y-2">
+                <Label>Checklist</Label>
+                {completing.plan.checklist.map((item, index) => (
+                  <div key={item} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`maintenance-check-${index}`}
+                      checked={checkedItems.includes(item)}
+                      onCheckedChange={(checked) => toggleItem(item, checked === true)}
+                    />
+                    <Label htmlFor={`maintenance-check-${index}`} className="font-normal">
+                      {item}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="maintenance-completed-at">Completed On</Label>
+                <Input
+                  id="maintenance-completed-at"
+                  type="date"
+                  value={completedAt}
+                  onChange={(e) => setCompletedAt(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="maintenance-vendor">Vendor</Label>
+                <Input
+                  id="maintenance-vendor"
+                  value={vendor}
+                  onChange={(e) => setVendor(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="maintenance-cost">Cost ({completing?.plan.costCurrency || 'QAR'})</Label>
+                <Input
+                  id="maintenance-cost"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={cost}
+                  onChange={(e) => setCost(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="maintenance-downtime">Downtime (hours)</Label>
+                <Input
+                  id="maintenance-downtime"
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  placeholder={completing?.startedAt ? 'Since started' : undefined}
+                  value={downtimeHours}
+                  onChange={(e) => setDowntimeHours(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="maintenance-notes">Notes</Label>
+              <Textarea
+                id="maintenance-notes"
+                rows={3}
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              {attachments.map(attachment => (
+                <div key={attachment.url} className="flex items-center justify-between text-sm border rounded-md px-3 py-2">
+                  <a href={attachment.url} target="_blank" rel="noopener noreferrer" className="truncate hover:underline">
+                    {attachment.name}
+                  </a>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setAttachments(current => current.filter(a => a.url !== attachment.url))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              {attachments.length < 10 && (
+                <DocumentUpload
+                  id="maintenance-attachment"
+                  label="Attachments"
+                  description="Invoices, service reports or photos"
+                  value={null}
+                  onChange={(url) => {
+                    if (url) {
+                      setAttachments(current => [
+                        ...current,
+                        { name: decodeURIComponent(url.split('/').pop() || 'Attachment'), url },
+                      ]);
+                    }
+                  }}
+                />
+              )}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCompleting(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleComplete} disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Record Maintenance'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,351 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatDate } from '@/lib/date-format';
+import { formatCurrency } from '@/lib/payroll/utils';
+import { formatMaintenanceInterval } from '@/lib/domains/operations/assets/maintenance-schedule';
+import type { MaintenanceIntervalUnit } from '@prisma/client';
+
+export interface MaintenanceAssetOption {
+  id: string;
+  assetTag: string | null;
+  model: string;
+  type: string;
+}
+
+interface MaintenancePlan {
+  id: string;
+  name: string;
+  assetType: string | null;
+  asset: { id: string; assetTag: string | null; model: string } | null;
+  intervalValue: number;
+  intervalUnit: MaintenanceIntervalUnit;
+  checklist: string[];
+  vendor: string | null;
+  expectedCost: number | null;
+  costCurrency: string | null;
+  isActive: boolean;
+  openTasks: number;
+  nextDueDate: string | null;
+}
+
+type PlanTarget = 'TYPE' | 'ASSET';
+
+const INTERVAL_UNIT_LABELS: Record<MaintenanceIntervalUnit, string> = {
+  DAYS: 'Days',
+  WEEKS: 'Weeks',
+  MONTHS: 'Months',
+  YEARS: 'Years',
+};
+
+interface MaintenancePlanManagerProps {
+  /** Assets that plans can target; asset types are taken from these */
+  assets: MaintenanceAssetOption[];
+}
+
+/**
+ * Admin list of recurring maintenance plans for one asset or every asset of a type
+ */
+export function MaintenancePlanManager({ assets }: MaintenancePlanManagerProps) {
+  const [plans, setPlans] = useState<MaintenancePlan[]>([]);
+  const [name, setName] = useState('');
+  const [target, setTarget] = useState<PlanTarget>('TYPE');
+  const [assetType, setAssetType] = useState('');
+  const [assetId, setAssetId] = useState('');
+  const [intervalValue, setIntervalValue] = useState('3');
+  const [intervalUnit, setIntervalUnit] = useState<MaintenanceIntervalUnit>('MONTHS');
+  const [startDate, setStartDate] = useState(new Date().toISOString().split('T')[0]);
+  const [checklist, setChecklist] = useState('');
+  const [vendor, setVendor] = useState('');
+  const [expectedCost, setExpectedCost] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const assetTypes = useMemo(
+    () => Array.from(new Set(assets.map(asset => asset.type))).sort((a, b) => a.localeCompare(b)),
+    [assets]
+  );
+
+  const fetchPlans = useCallback(async () => {
+    try {
+      const response = await fetch('/api/assets/maintenance-plans');
+      if (response.ok) {
+        const data = await response.json();
+        setPlans(data.plans);
+      }
+    } catch (err) {
+      console.error('Failed to fetch maintenance plans:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPlans();
+  }, [fetchPlans]);
+
+  const handleCreate = async () => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/assets/maintenance-plans', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          assetId: target === 'ASSET' ? assetId : null,
+          assetType: target === 'TYPE' ? assetType : null,
+          intervalValue: parseInt(intervalValue, 10),
+          intervalUnit,
+          startDate,
+          checklist: checklist.split('\n').map(item => item.trim()).filter(Boolean),
+          vendor: vendor || null,
+          expectedCost: expectedCost ? parseFloat(expectedCost) : null,
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to create maintenance plan');
+      }
+
+      toast.success(`Maintenance plan added (${result.openTasks} task(s) scheduled)`);
+      setName('');
+      setChecklist('');
+      setVendor('');
+      setExpectedCost('');
+      fetchPlans();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleToggle = async (plan: MaintenancePlan, isActive: boolean) => {
+    try {
+      const response = await fetch(`/api/assets/maintenance-plans/${plan.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to update maintenance plan');
+      }
+      fetchPlans();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    try {
+      const response = await fetch(`/api/assets/maintenance-plans/${id}`, { method: 'DELETE' });
+      if (response.ok) {
+        toast.success('Maintenance plan removed');
+        fetchPlans();
+      } else {
+        const data = await response.json();
+        toast.error(data.error || 'Failed to remove maintenance plan');
+      }
+    } catch (err) {
+      console.error('Failed to remove maintenance plan:', err);
+      toast.error('An error occurred');
+    }
+  };
+
+  const parsedInterval = parseInt(intervalValue, 10);
+  const isValid = !!name &&
+    parsedInterval >= 1 &&
+    !!startDate &&
+    (target === 'TYPE' ? !!assetType : !!assetId);
+
+  return (
+    <div className="space-y-6">
+      {plans.length === 0 ? (
+        <p className="text-sm text-gray-500">No maintenance plans configured.</p>
+      ) : (
+        <div className="space-y-2">
+          {plans.map(plan => (
+            <div key={plan.id} className="flex items-center justify-between p-3 border rounded-lg">
+              <div>
+                <div className="flex items-center gap-2 text-sm font-medium">
+                  {plan.name}
+                  <Badge variant="secondary">
+                    {plan.asset ? plan.asset.assetTag || plan.asset.model : `All ${plan.assetType}`}
+                  </Badge>
+                </div>
+                <div className="text-xs text-gray-500">
+                  {formatMaintenanceInterval(plan.intervalValue, plan.intervalUnit)}
+                  {plan.vendor && ` · ${plan.vendor}`}
+                  {plan.expectedCost !== null && ` · ~${formatCurrency(plan.expectedCost, plan.costCurrency || 'QAR')}`}
+                  {plan.checklist.length > 0 && ` · ${plan.checklist.length} checklist items`}
+                </div>
+                {plan.isActive && plan.nextDueDate && (
+                  <div className="text-xs text-gray-500">
+                    Next due {formatDate(plan.nextDueDate)} ({plan.openTasks} open)
+                  </div>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={plan.isActive}
+                  onCheckedChange={(checked) => handleToggle(plan, checked)}
+                  aria-label="Active"
+                />
+                <Button variant="ghost" size="icon" onClick={() => handleRemove(plan.id)}>
+                  <Trash2 className="h-4 w-4 text-red-500" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {error && (
+          <div className="bg-red-50 text-red-600 p-3 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="grid md:grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label>Name</Label>
+            <Input
+              placeholder="e.g., Laptop cleaning and battery check"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Applies to</Label>
+            <Select value={target} onValueChange={(value) => setTarget(value as PlanTarget)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="TYPE">Every asset of a type</SelectItem>
+                <SelectItem value="ASSET">One asset</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-3">
+          {target === 'TYPE' ? (
+            <div className="space-y-1">
+              <Label>Asset type</Label>
+              <Select value={assetType} onValueChange={setAssetType}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {assetTypes.map(type => (
+                    <SelectItem key={type} value={type}>
+                      {type}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ) : (
+            <div className="space-y-1">
+              <Label>Asset</Label>
+              <Select value={assetId} onValueChange={setAssetId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select asset" />
+                </SelectTrigger>
+                <SelectContent>
+                  {assets.map(asset => (
+                    <SelectItem key={asset.id} value={asset.id}>
+                      {asset.assetTag ? `${asset.assetTag} · ${asset.model}` : asset.model}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-1">
+            <Label>First due</Label>
+            <Input
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label>Every</Label>
+            <div className="flex gap-2">
+              <Input
+                type="number"
+                min={1}
+                className="w-24"
+                value={intervalValue}
+                onChange={(e) => setIntervalValue(e.target.value)}
+              />
+              <Select value={intervalUnit} onValueChange={(value) => setIntervalUnit(value as MaintenanceIntervalUnit)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(INTERVAL_UNIT_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label>Vendor</Label>
+              <Input value={vendor} onChange={(e) => setVendor(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label>Expected cost (QAR)</Label>
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                value={expectedCost}
+                onChange={(e) => setExpectedCost(e.target.value)}
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <Label>Checklist</Label>
+          <Textarea
+            rows={3}
+            placeholder={'One item per line, e.g.\nClean fans\nUpdate firmware'}
+            value={checklist}
+            onChange={(e) => setChecklist(e.target.value)}
+          />
+        </div>
+
+        <Button
+          className="w-full"
+          onClick={handleCreate}
+          disabled={isSubmitting || !isValid}
+        >
+          {isSubmitting ? 'Saving...' : 'Add Maintenance Plan'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Loader2, QrCode } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface PrintAssetLabelsButtonProps {
+  assetIds: string[];
+  label?: string;
+  variant?: 'default' | 'outline';
+  size?: 'default' | 'sm';
+}
+
+/**
+ * Downloads a sheet of QR labels (tag + model) for the given assets
+ */
+export function PrintAssetLabelsButton({
+  assetIds,
+  label = 'Print Labels',
+  variant = 'outline',
+  size = 'default',
+}: PrintAssetLabelsButtonProps) {
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handlePrint = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/assets/labels', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ assetIds }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to generate labels');
+      }
+
+      const skipped = Number(response.headers.get('X-Labels-Skipped') || 0);
+      if (skipped > 0) {
+        toast.warning(`${skipped} asset${skipped === 1 ? '' : 's'} without an asset tag skipped`);
+      }
+
+      const filename = response.headers.get('X-Filename') || 'asset-labels.pdf';
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to generate labels');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Button
+      variant={variant}
+      size={size}
+      onClick={handlePrint}
+      disabled={isLoading || assetIds.length === 0}
+    >
+      {isLoading ? (
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+      ) : (
+        <QrCode className="h-4 w-4 mr-2" />
+      )}
+      {label}
+    </Button>
+  );
+}
@@ -0,0 +1,64 @@
+import { formatCurrency } from '@/lib/payroll/utils';
+import type { BudgetSummary as BudgetSummaryData } from '@/lib/domains/projects/budgets/budget';
+
+interface BudgetSummaryProps {
+  summary: BudgetSummaryData;
+}
+
+/**
+ * Budget against actual and committed spend, with a bar split into the two
+ */
+export function BudgetSummary({ summary }: BudgetSummaryProps) {
+  const { budget, committed, actual, remaining, utilisation } = summary;
+  const isOverBudget = remaining !== null && remaining < 0;
+  // Scale the bar to whichever is larger so overspend stays visible
+  const scale = Math.max(budget ?? 0, committed + actual, 1);
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+        <div>
+          <p className="text-gray-500">Budget</p>
+          <p className="font-semibold">{budget !== null ? formatCurrency(budget) : 'Not set'}</p>
+        </div>
+        <div>
+          <p className="text-gray-500">Actual</p>
+          <p className="font-semibold">{formatCurrency(actual)}</p>
+        </div>
+        <div>
+          <p className="text-gray-500">Committed</p>
+          <p className="font-semibold">{formatCurrency(committed)}</p>
+        </div>
+        <div>
+          <p className="text-gray-500">{isOverBudget ? 'Over budget' : 'Remaining'}</p>
+          <p className={`font-semibold ${isOverBudget ? 'text-red-600' : ''}`}>
+            {remaining !== null ? formatCurrency(Math.abs(remaining)) : '-'}
+          </p>
+        </div>
+      </div>
+
+      <div className="relative h-3 w-full overflow-hidden rounded-full bg-gray-100">
+        <div className="absolute inset-0 flex">
+          <div
+            className={isOverBudget ? 'bg-red-600' : 'bg-blue-600'}
+            style={{ width: `${(actual / scale) * 100}%` }}
+          />
+          <div
+            className={isOverBudget ? 'bg-red-300' : 'bg-blue-300'}
+            style={{ width: `${(committed / scale) * 100}%` }}
+          />
+        </div>
+        {budget !== null && budget < scale && (
+          <div
+            className="absolute inset-y-0 w-0.5 bg-gray-900"
+            style={{ left: `${(budget / scale) * 100}%` }}
+            title="Budget"
+          />
+        )}
+      </div>
+      {utilisation !== null && (
+        <p className="text-xs text-gray-500">{utilisation}% of budget used or committed</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,3 @@
+export { BudgetSummary } from './budget-summary';
+export { OperatingBudgetManager } from './operating-budget-manager';
+export { PurchaseRequestBudgetCard } from './purchase-request-budget-card';
@@ -0,0 +1,249 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { BUDGET_ENFORCEMENT_LABELS } from '@/lib/domains/projects/budgets/budget';
+import type { BudgetSummary as BudgetSummaryData } from '@/lib/domains/projects/budgets/budget';
+import type { BudgetEnforcement } from '@prisma/client';
+import { BudgetSummary } from './budget-summary';
+
+interface OperatingBudget {
+  id: string;
+  year: number;
+  amountQAR: number;
+  enforcement: BudgetEnforcement;
+  notes: string | null;
+  summary: BudgetSummaryData;
+}
+
+/**
+ * Annual budgets of the operating-cost cost center, each with its spend so far
+ */
+export function OperatingBudgetManager() {
+  const [budgets, setBudgets] = useState<OperatingBudget[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<OperatingBudget | null>(null);
+  const [year, setYear] = useState(String(new Date().getFullYear()));
+  const [amount, setAmount] = useState('');
+  const [enforcement, setEnforcement] = useState<BudgetEnforcement>('WARN');
+  const [notes, setNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchBudgets = useCallback(async () => {
+    try {
+      const response = await fetch('/api/budgets/operating');
+      if (response.ok) {
+        const data = await response.json();
+        setBudgets(data.budgets);
+      }
+    } catch (err) {
+      console.error('Failed to fetch operating budgets:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchBudgets();
+  }, [fetchBudgets]);
+
+  const openDialog = (budget: OperatingBudget | null) => {
+    setEditing(budget);
+    setYear(String(budget?.year ?? new Date().getFullYear()));
+    setAmount(budget ? String(budget.amountQAR) : '');
+    setEnforcement(budget?.enforcement ?? 'WARN');
+    setNotes(budget?.notes ?? '');
+    setError(null);
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        editing ? `/api/budgets/operating/${editing.id}` : '/api/budgets/operating',
+        {
+          method: editing ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            ...(editing ? {} : { year: parseInt(year, 10) }),
+            amountQAR: parseFloat(amount),
+            enforcement,
+            notes: notes || null,
+          }),
+        }
+      );
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to save budget');
+      }
+
+      toast.success(editing ? 'Budget updated' : 'Budget set');
+      setDialogOpen(false);
+      fetchBudgets();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (budget: OperatingBudget) => {
+    if (!confirm(`Remove the ${budget.year} operating budget? Operating-cost requests for ${budget.year} will no longer be checked.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/budgets/operating/${budget.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete budget');
+      }
+      toast.success('Budget removed');
+      fetchBudgets();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete budget');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button size="sm" onClick={() => openDialog(null)}>
+          <Plus className="h-4 w-4 mr-1" />
+          Set Budget
+        </Button>
+      </div>
+
+      {budgets.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No operating budgets yet. Operating-cost purchase requests are approved without a budget check.
+        </p>
+      ) : (
+        budgets.map(budget => (
+          <div key={budget.id} className="p-4 border rounded-lg space-y-3">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold">{budget.year}</span>
+                  <Badge variant={budget.enforcement === 'BLOCK' ? 'destructive' : 'secondary'}>
+                    {BUDGET_ENFORCEMENT_LABELS[budget.enforcement]}
+                  </Badge>
+                </div>
+                {budget.notes && <p className="text-xs text-gray-500">{budget.notes}</p>}
+              </div>
+              <div className="flex gap-1">
+                <Button variant="ghost" size="sm" onClick={() => openDialog(budget)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => handleDelete(budget)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+            <BudgetSummary summary={budget.summary} />
+          </div>
+        ))
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? `${editing.year} Operating Budget` : 'Set Operating Budget'}</DialogTitle>
+            <DialogDescription>
+              Operating-cost purchase requests raised during the year count against this budget when approved.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-3">
+            {error && (
+              <div className="bg-red-50 text-red-600 p-3 rounded-md text-sm">
+                {error}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Year</Label>
+                <Input
+                  type="number"
+                  value={year}
+                  onChange={(e) => setYear(e.target.value)}
+                  disabled={!!editing}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Budget (QAR)</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label>When an approval goes over budget</Label>
+              <Select value={enforcement} onValueChange={(value) => setEnforcement(value as BudgetEnforcement)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(BUDGET_ENFORCEMENT_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1">
+              <Label>Notes</Label>
+              <Input value={notes} onChange={(e) => setNotes(e.target.value)} />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving || !amount || !year}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { AlertTriangle } from 'lucide-react';
+import { formatCurrency } from '@/lib/payroll/utils';
+import { BUDGET_ENFORCEMENT_LABELS } from '@/lib/domains/projects/budgets/budget';
+import type { PurchaseRequestBudgetCheck } from '@/lib/domains/projects/budgets/budget-service';
+
+interface PurchaseRequestBudgetCardProps {
+  purchaseRequestId: string;
+  /** Changes whenever the request is updated, to refetch */
+  status: string;
+}
+
+/**
+ * The budget a purchase request is charged to and where approving it leaves
+ * that budget
+ */
+export function PurchaseRequestBudgetCard({ purchaseRequestId, status }: PurchaseRequestBudgetCardProps) {
+  const [budget, setBudget] = useState<PurchaseRequestBudgetCheck | null>(null);
+  const [isCounted, setIsCounted] = useState(false);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    const fetchBudget = async () => {
+      try {
+        const response = await fetch(`/api/purchase-requests/${purchaseRequestId}/budget`);
+        if (response.ok) {
+          const data = await response.json();
+          setBudget(data.budget);
+          setIsCounted(data.isCounted);
+        }
+      } catch (err) {
+        console.error('Failed to fetch purchase request budget:', err);
+      } finally {
+        setIsLoaded(true);
+      }
+    };
+    fetchBudget();
+  }, [purchaseRequestId, status]);
+
+  if (!isLoaded || !budget) return null;
+
+  const { summary, check } = budget;
+
+  return (
+    <Card className={check.isOverBudget ? 'border-red-200' : undefined}>
+      <CardHeader>
+        <CardTitle className="text-sm">Budget</CardTitle>
+        <CardDescription className="capitalize">{budget.label}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2 text-sm">
+        <div className="flex justify-between">
+          <span className="text-gray-500">Budget</span>
+          <span className="font-medium">{formatCurrency(summary.budget)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-500">{isCounted ? 'Other spend' : 'Committed & spent'}</span>
+          <span className="font-medium">{formatCurrency(summary.spent)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-500">This request</span>
+          <span className="font-medium">{formatCurrency(check.amount)}</span>
+        </div>
+        <div className="flex justify-between border-t pt-2">
+          <span className="text-gray-500">{isCounted ? 'Remaining' : 'Remaining after approval'}</span>
+          <span className={`font-medium ${check.isOverBudget ? 'text-red-600' : ''}`}>
+            {formatCurrency(check.remainingAfter)}
+          </span>
+        </div>
+        {check.isOverBudget && !isCounted && (
+          <div className="flex gap-2 rounded-md bg-red-50 p-2 text-xs text-red-700">
+            <AlertTriangle className="h-4 w-4 shrink-0" />
+            <span>
+              Over budget by {formatCurrency(check.overBy)}.{' '}
+              {check.isBlocked
+                ? 'This budget blocks over-budget approvals.'
+                : 'Approving needs confirmation.'}
+            </span>
+          </div>
+        )}
+        <p className="text-xs text-gray-400">{BUDGET_ENFORCEMENT_LABELS[budget.enforcement]} when over budget</p>
+      </CardContent>
+    </Card>
+  );
+}
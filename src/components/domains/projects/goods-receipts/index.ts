@@ -0,0 +1,3 @@
+export { PurchaseRequestReceiptsCard } from './purchase-request-receipts-card';
+export { ReceiveGoodsDialog } from './receive-goods-dialog';
+export { PurchaseOrigin } from './purchase-origin';
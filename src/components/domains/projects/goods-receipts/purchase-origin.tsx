@@ -0,0 +1,42 @@
+import Link from 'next/link';
+
+interface PurchaseOriginProps {
+  goodsReceiptLine: {
+    goodsReceipt: {
+      receiptNumber: string;
+      purchaseRequest: { id: string; referenceNumber: string; title: string };
+    };
+    purchaseOrderLine: { purchaseOrder: { id: string; poNumber: string } } | null;
+  } | null;
+}
+
+/**
+ * Purchase request, purchase order and goods receipt an asset or subscription
+ * was created from
+ */
+export function PurchaseOrigin({ goodsReceiptLine }: PurchaseOriginProps) {
+  if (!goodsReceiptLine) {
+    return <div className="text-gray-500">Not linked to a purchase request</div>;
+  }
+
+  const { goodsReceipt, purchaseOrderLine } = goodsReceiptLine;
+
+  return (
+    <div className="space-y-0.5">
+      <Link href={`/admin/purchase-requests/${goodsReceipt.purchaseRequest.id}`} className="hover:underline">
+        {goodsReceipt.purchaseRequest.referenceNumber} - {goodsReceipt.purchaseRequest.title}
+      </Link>
+      <div className="text-xs text-gray-500 font-mono">
+        {purchaseOrderLine && (
+          <>
+            <Link href={`/admin/purchase-orders/${purchaseOrderLine.purchaseOrder.id}`} className="hover:underline">
+              {purchaseOrderLine.purchaseOrder.poNumber}
+            </Link>
+            {' · '}
+          </>
+        )}
+        {goodsReceipt.receiptNumber}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { PackageCheck } from 'lucide-react';
+import type { GoodsReceiptTarget, PurchaseType } from '@prisma/client';
+import {
+  getOutstandingQuantity,
+  isFullyReceived,
+  RECEIVABLE_PURCHASE_REQUEST_STATUSES,
+} from '@/lib/domains/projects/goods-receipts/goods-receipt';
+import { ReceiveGoodsDialog, ReceivableRequestItem } from './receive-goods-dialog';
+
+interface GoodsReceipt {
+  id: string;
+  receiptNumber: string;
+  receivedDate: string;
+  invoiceNumber: string | null;
+  notes: string | null;
+  receivedBy: { id: string; name: string | null; email: string };
+  lines: Array<{
+    id: string;
+    quantity: number;
+    target: GoodsReceiptTarget;
+    purchaseRequestItem: { id: string; itemNumber: number; description: string };
+    purchaseOrderLine: { purchaseOrder: { id: string; poNumber: string } } | null;
+    assets: Array<{ id: string; assetTag: string | null; model: string; serial: string | null }>;
+    subscriptions: Array<{ id: string; subscriptionTag: string | null; serviceName: string }>;
+  }>;
+}
+
+interface PurchaseRequestReceiptsCardProps {
+  purchaseRequestId: string;
+  /** Goods can only be received once the request is approved */
+  status: string;
+  purchaseType: PurchaseType;
+  items: ReceivableRequestItem[];
+  onReceived?: () => void;
+}
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+
+/**
+ * Goods received for a request, with the assets and subscriptions created
+ * from each line, and receiving what is still outstanding
+ */
+export function PurchaseRequestReceiptsCard({
+  purchaseRequestId,
+  status,
+  purchaseType,
+  items,
+  onReceived,
+}: PurchaseRequestReceiptsCardProps) {
+  const [receipts, setReceipts] = useState<GoodsReceipt[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const fetchReceipts = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/purchase-requests/${purchaseRequestId}/goods-receipts`);
+      if (response.ok) {
+        const data = await response.json();
+        setReceipts(data.goodsReceipts);
+      }
+    } catch (err) {
+      console.error('Failed to fetch goods receipts:', err);
+    } finally {
+      setIsLoaded(true);
+    }
+  }, [purchaseRequestId]);
+
+  useEffect(() => {
+    fetchReceipts();
+  }, [fetchReceipts]);
+
+  const outstandingItems = useMemo(
+    () => items.filter(item => getOutstandingQuantity(item) > 0),
+    [items]
+  );
+
+  const isReceivable = (RECEIVABLE_PURCHASE_REQUEST_STATUSES as string[]).includes(status);
+  if (!isLoaded || (receipts.length === 0 && !isReceivable)) return null;
+
+  const handleReceived = () => {
+    fetchReceipts();
+    onReceived?.();
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Goods Receipts</CardTitle>
+          <CardDescription>
+            {isFullyReceived(items)
+              ? 'Every item has been received'
+              : `${outstandingItems.length} of ${items.length} items still to receive`}
+          </CardDescription>
+        </div>
+        {isReceivable && outstandingItems.length > 0 && (
+          <Button size="sm" onClick={() => setDialogOpen(true)}>
+            <PackageCheck className="h-4 w-4 mr-2" />
+            Receive Goods
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {receipts.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing received yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {receipts.map(receipt => (
+              <div key={receipt.id} className="p-3 border rounded-lg space-y-2">
+                <div>
+                  <p className="font-medium font-mono">{receipt.receiptNumber}</p>
+                  <p className="text-xs text-gray-500">
+                    Received {formatDate(receipt.receivedDate)} by {receipt.receivedBy.name || receipt.receivedBy.email}
+                    {receipt.invoiceNumber && <> · Invoice {receipt.invoiceNumber}</>}
+                  </p>
+                </div>
+                <ul className="space-y-1 text-sm">
+                  {receipt.lines.map(line => (
+                    <li key={line.id}>
+                      <span className="text-gray-700">
+                        {line.quantity} × {line.purchaseRequestItem.itemNumber}. {line.purchaseRequestItem.description}
+                      </span>
+                      {line.purchaseOrderLine && (
+                        <>
+                          {' '}·{' '}
+                          <Link
+                            href={`/admin/purchase-orders/${line.purchaseOrderLine.purchaseOrder.id}`}
+                            className="font-mono text-xs hover:underline"
+                          >
+                            {line.purchaseOrderLine.purchaseOrder.poNumber}
+                          </Link>
+                        </>
+                      )}
+                      {(line.assets.length > 0 || line.subscriptions.length > 0) && (
+                        <div className="flex flex-wrap gap-x-3 gap-y-1 mt-1">
+                          {line.assets.map(asset => (
+                            <Link
+                              key={asset.id}
+                              href={`/admin/assets/${asset.id}`}
+                              className="text-xs font-mono text-blue-600 hover:underline"
+                            >
+                              {asset.assetTag || asset.model}
+                            </Link>
+                          ))}
+                          {line.subscriptions.map(subscription => (
+                            <Link
+                              key={subscription.id}
+                              href={`/admin/subscriptions/${subscription.id}`}
+                              className="text-xs font-mono text-blue-600 hover:underline"
+                            >
+                              {subscription.subscriptionTag || subscription.serviceName}
+                            </Link>
+                          ))}
+                        </div>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+                {receipt.notes && <p className="text-xs text-gray-600 whitespace-pre-wrap">{receipt.notes}</p>}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <ReceiveGoodsDialog
+        purchaseRequestId={purchaseRequestId}
+        purchaseType={purchaseType}
+        items={outstandingItems}
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onReceived={handleReceived}
+      />
+    </Card>
+  );
+}
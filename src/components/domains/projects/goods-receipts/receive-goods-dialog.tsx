@@ -0,0 +1,368 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { BillingCycle, GoodsReceiptTarget, PurchaseType } from '@prisma/client';
+import { getCategoryOptions } from '@/lib/domains/operations/assets/asset-categories';
+import { BILLING_CYCLES } from '@/lib/domains/projects/purchase-requests/purchase-request-utils';
+import {
+  GOODS_RECEIPT_TARGET_LABELS,
+  getOutstandingQuantity,
+  getSubscriptionCostQAR,
+  suggestReceiptTarget,
+} from '@/lib/domains/projects/goods-receipts/goods-receipt';
+
+export interface ReceivableRequestItem {
+  id: string;
+  itemNumber: number;
+  description: string;
+  quantity: number;
+  quantityReceived: number;
+  unitPrice: string | number;
+  unitPriceQAR: string | number | null;
+  currency: string;
+  billingCycle: BillingCycle;
+  category: string | null;
+}
+
+interface LineDraft {
+  selected: boolean;
+  quantity: string;
+  target: GoodsReceiptTarget;
+  assetCategory: string;
+  assetType: string;
+  brand: string;
+  model: string;
+  serials: string;
+  location: string;
+  billingCycle: BillingCycle;
+  costPerCycle: string;
+  renewalDate: string;
+}
+
+interface ReceiveGoodsDialogProps {
+  purchaseRequestId: string;
+  purchaseType: PurchaseType;
+  /** Request items with units still to arrive */
+  items: ReceivableRequestItem[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onReceived?: () => void;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * Record goods that arrived for a request. Per item, the units received can be
+ * turned into assets or subscriptions pre-filled from the request, or just
+ * counted (consumables, services).
+ */
+export function ReceiveGoodsDialog({
+  purchaseRequestId,
+  purchaseType,
+  items,
+  open,
+  onOpenChange,
+  onReceived,
+}: ReceiveGoodsDialogProps) {
+  const [receivedDate, setReceivedDate] = useState(today());
+  const [invoiceNumber, setInvoiceNumber] = useState('');
+  const [notes, setNotes] = useState('');
+  const [lines, setLines] = useState<Record<string, LineDraft>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setError(null);
+    setReceivedDate(today());
+    setInvoiceNumber('');
+    setNotes('');
+    setLines(Object.fromEntries(items.map(item => [item.id, {
+      selected: true,
+      quantity: String(getOutstandingQuantity(item)),
+      target: suggestReceiptTarget(item, purchaseType),
+      assetCategory: '',
+      assetType: '',
+      brand: '',
+      model: item.description,
+      serials: '',
+      location: '',
+      billingCycle: item.billingCycle,
+      costPerCycle: String(getSubscriptionCostQAR(item)),
+      renewalDate: '',
+    }])));
+  }, [open, items, purchaseType]);
+
+  const updateLine = (itemId: string, changes: Partial<LineDraft>) => {
+    setLines(prev => ({ ...prev, [itemId]: { ...prev[itemId], ...changes } }));
+  };
+
+  const selectedItems = items.filter(item => lines[item.id]?.selected);
+
+  const handleSubmit = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/purchase-requests/${purchaseRequestId}/goods-receipts`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          receivedDate,
+          invoiceNumber: invoiceNumber || null,
+          notes: notes || null,
+          lines: selectedItems.map(item => {
+            const line = lines[item.id];
+            return {
+              itemId: item.id,
+              quantity: Number(line.quantity),
+              target: line.target,
+              ...(line.target === 'ASSET' && {
+                assetCategory: line.assetCategory || null,
+                assetType: line.assetType,
+                brand: line.brand || null,
+                model: line.model || null,
+                serials: line.serials.split('\n').map(serial => serial.trim()),
+                location: line.location || null,
+              }),
+              ...(line.target === 'SUBSCRIPTION' && {
+                billingCycle: line.billingCycle,
+                costPerCycle: line.costPerCycle === '' ? null : Number(line.costPerCycle),
+                renewalDate: line.renewalDate || null,
+              }),
+            };
+          }),
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to record goods receipt');
+      }
+
+      toast.success(`Goods receipt ${data.receiptNumber} recorded`);
+      onOpenChange(false);
+      onReceived?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const canSubmit = !!receivedDate && selectedItems.length > 0 && !isSaving;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Receive Goods</DialogTitle>
+          <DialogDescription>
+            Record what arrived. One asset or subscription is created per unit received,
+            linked back to this request.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {error && (
+            <div className="bg-red-50 text-red-600 p-3 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>Received Date</Label>
+              <Input type="date" value={receivedDate} onChange={(e) => setReceivedDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label>Invoice / Delivery Note No.</Label>
+              <Input
+                placeholder="Copied to the assets created"
+                value={invoiceNumber}
+                onChange={(e) => setInvoiceNumber(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            {items.map(item => {
+              const line = lines[item.id];
+              if (!line) return null;
+
+              return (
+                <div key={item.id} className="rounded-md border p-3 space-y-3">
+                  <div className="flex items-start gap-3">
+                    <Checkbox
+                      checked={line.selected}
+                      onCheckedChange={(checked) => updateLine(item.id, { selected: checked === true })}
+                    />
+                    <div className="flex-1 min-w-0 text-sm">
+                      <p className="font-medium">{item.itemNumber}. {item.description}</p>
+                      <p className="text-xs text-gray-500">
+                        {item.quantityReceived} of {item.quantity} received so far
+                      </p>
+                    </div>
+                  </div>
+
+                  {line.selected && (
+                    <div className="space-y-3 pl-7">
+                      <div className="grid grid-cols-2 gap-3">
+                        <div className="space-y-1">
+                          <Label className="text-xs">Quantity Received</Label>
+                          <Input
+                            type="number"
+                            min={1}
+                            max={getOutstandingQuantity(item)}
+                            value={line.quantity}
+                            onChange={(e) => updateLine(item.id, { quantity: e.target.value })}
+                          />
+                        </div>
+                        <div className="space-y-1">
+                          <Label className="text-xs">Create</Label>
+                          <Select
+                            value={line.target}
+                            onValueChange={(value) => updateLine(item.id, { target: value as GoodsReceiptTarget })}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {Object.entries(GOODS_RECEIPT_TARGET_LABELS).map(([value, label]) => (
+                                <SelectItem key={value} value={value}>{label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      </div>
+
+                      {line.target === 'ASSET' && (
+                        <div className="grid grid-cols-2 gap-3">
+                          <div className="space-y-1">
+                            <Label className="text-xs">Asset Category</Label>
+                            <Select
+                              value={line.assetCategory}
+                              onValueChange={(value) => updateLine(item.id, { assetCategory: value })}
+                            >
+                              <SelectTrigger>
+                                <SelectValue placeholder="Select category" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {getCategoryOptions().map(option => (
+                                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div className="space-y-1">
+                            <Label className="text-xs">Type</Label>
+                            <Input
+                              placeholder="e.g., Laptop"
+                              value={line.assetType}
+                              onChange={(e) => updateLine(item.id, { assetType: e.target.value })}
+                            />
+                          </div>
+                          <div className="space-y-1">
+                            <Label className="text-xs">Brand</Label>
+                            <Input value={line.brand} onChange={(e) => updateLine(item.id, { brand: e.target.value })} />
+                          </div>
+                          <div className="space-y-1">
+                            <Label className="text-xs">Model</Label>
+                            <Input value={line.model} onChange={(e) => updateLine(item.id, { model: e.target.value })} />
+                          </div>
+                          <div className="space-y-1">
+                            <Label className="text-xs">Serial Numbers (one per line, optional)</Label>
+                            <Textarea
+                              rows={2}
+                              value={line.serials}
+                              onChange={(e) => updateLine(item.id, { serials: e.target.value })}
+                            />
+                          </div>
+                          <div className="space-y-1">
+                            <Label className="text-xs">Location</Label>
+                            <Input value={line.location} onChange={(e) => updateLine(item.id, { location: e.target.value })} />
+                          </div>
+                        </div>
+                      )}
+
+                      {line.target === 'SUBSCRIPTION' && (
+                        <div className="grid grid-cols-3 gap-3">
+                          <div className="space-y-1">
+                            <Label className="text-xs">Billing Cycle</Label>
+                            <Select
+                              value={line.billingCycle}
+                              onValueChange={(value) => updateLine(item.id, { billingCycle: value as BillingCycle })}
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {BILLING_CYCLES.map(cycle => (
+                                  <SelectItem key={cycle.value} value={cycle.value}>{cycle.label}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div className="space-y-1">
+                            <Label className="text-xs">Cost per Cycle (QAR)</Label>
+                            <Input
+                              type="number"
+                              min={0}
+                              step="0.01"
+                              value={line.costPerCycle}
+                              onChange={(e) => updateLine(item.id, { costPerCycle: e.target.value })}
+                            />
+                          </div>
+                          <div className="space-y-1">
+                            <Label className="text-xs">Renewal Date</Label>
+                            <Input
+                              type="date"
+                              value={line.renewalDate}
+                              onChange={(e) => updateLine(item.id, { renewalDate: e.target.value })}
+                            />
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="space-y-1">
+            <Label>Notes (Optional)</Label>
+            <Textarea rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit}>
+            {isSaving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            Record Receipt
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,2 +1,6 @@
 // Projects Domain Components
+export * from './budgets';
 export * from './purchase-requests';
+export * from './purchase-orders';
+export * from './goods-receipts';
+export * from './supplier-invoices';
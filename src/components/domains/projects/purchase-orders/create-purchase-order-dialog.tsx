@@ -0,0 +1,266 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatCurrency } from '@/lib/payroll/utils';
+
+export interface OrderableRequestItem {
+  id: string;
+  itemNumber: number;
+  description: string;
+  quantity: number;
+  totalPrice: string | number;
+  currency: string;
+  supplier: string | null;
+}
+
+interface ApprovedSupplier {
+  id: string;
+  name: string;
+  suppCode: string | null;
+  paymentTerms: string | null;
+}
+
+interface CreatePurchaseOrderDialogProps {
+  purchaseRequestId: string;
+  /** Request items not yet on a purchase order */
+  items: OrderableRequestItem[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated?: () => void;
+}
+
+/**
+ * Issue a purchase order to an approved supplier for some of a request's
+ * items. Items going to different suppliers are ordered one supplier at a time.
+ */
+export function CreatePurchaseOrderDialog({
+  purchaseRequestId,
+  items,
+  open,
+  onOpenChange,
+  onCreated,
+}: CreatePurchaseOrderDialogProps) {
+  const [suppliers, setSuppliers] = useState<ApprovedSupplier[]>([]);
+  const [supplierId, setSupplierId] = useState('');
+  const [selectedItemIds, setSelectedItemIds] = useState<string[]>([]);
+  const [deliveryAddress, setDeliveryAddress] = useState('');
+  const [expectedDeliveryDate, setExpectedDeliveryDate] = useState('');
+  const [paymentTerms, setPaymentTerms] = useState('');
+  const [deliveryTerms, setDeliveryTerms] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setError(null);
+    setSupplierId('');
+    setSelectedItemIds(items.map(item => item.id));
+    setExpectedDeliveryDate('');
+    setPaymentTerms('');
+    setDeliveryTerms('');
+    setNotes('');
+
+    const fetchSuppliers = async () => {
+      try {
+        const response = await fetch('/api/suppliers?status=APPROVED&ps=100&sort=name&order=asc');
+        if (response.ok) {
+          const data = await response.json();
+          setSuppliers(data.suppliers);
+        }
+      } catch (err) {
+        console.error('Failed to fetch suppliers:', err);
+      }
+    };
+    fetchSuppliers();
+  }, [open, items]);
+
+  const handleSupplierChange = (value: string) => {
+    setSupplierId(value);
+    const supplier = suppliers.find(s => s.id === value);
+    setPaymentTerms(supplier?.paymentTerms || '');
+  };
+
+  const toggleItem = (itemId: string) => {
+    setSelectedItemIds(prev => (
+      prev.includes(itemId) ? prev.filter(id => id !== itemId) : [...prev, itemId]
+    ));
+  };
+
+  const selectedItems = items.filter(item => selectedItemIds.includes(item.id));
+  const selectedTotal = selectedItems.reduce((sum, item) => sum + Number(item.totalPrice), 0);
+
+  const handleSubmit = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/purchase-requests/${purchaseRequestId}/purchase-orders`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          supplierId,
+          itemIds: selectedItemIds,
+          deliveryAddress,
+          expectedDeliveryDate: expectedDeliveryDate || null,
+          paymentTerms: paymentTerms || null,
+          deliveryTerms: deliveryTerms || null,
+          notes: notes || null,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to issue purchase order');
+      }
+
+      toast.success(`Purchase order ${data.poNumber} issued`);
+      onOpenChange(false);
+      onCreated?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const canSubmit = !!supplierId && selectedItemIds.length > 0 && !!deliveryAddress.trim() && !isSaving;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Issue Purchase Order</DialogTitle>
+          <DialogDescription>
+            Order the selected items from one approved supplier. Items going to other suppliers
+            can be put on a separate order afterwards.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {error && (
+            <div className="bg-red-50 text-red-600 p-3 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <Label>Supplier</Label>
+            <Select value={supplierId} onValueChange={handleSupplierChange}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select an approved supplier" />
+              </SelectTrigger>
+              <SelectContent>
+                {suppliers.map(supplier => (
+                  <SelectItem key={supplier.id} value={supplier.id}>
+                    {supplier.name}{supplier.suppCode ? ` (${supplier.suppCode})` : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Items</Label>
+            <div className="rounded-md border divide-y">
+              {items.map(item => (
+                <label key={item.id} className="flex items-start gap-3 p-3 cursor-pointer">
+                  <Checkbox
+                    checked={selectedItemIds.includes(item.id)}
+                    onCheckedChange={() => toggleItem(item.id)}
+                  />
+                  <div className="flex-1 min-w-0 text-sm">
+                    <p className="font-medium">
+                      {item.itemNumber}. {item.description}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      Qty {item.quantity}
+                      {item.supplier && <> · Preferred supplier: {item.supplier}</>}
+                    </p>
+                  </div>
+                  <span className="text-sm font-medium">
+                    {formatCurrency(Number(item.totalPrice), item.currency)}
+                  </span>
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500">
+              {selectedItems.length} of {items.length} items selected
+              {selectedItems.length > 0 && <> · {formatCurrency(selectedTotal, selectedItems[0].currency)}</>}
+            </p>
+          </div>
+
+          <div className="space-y-1">
+            <Label>Delivery Address</Label>
+            <Textarea
+              rows={2}
+              placeholder="Where the supplier should deliver"
+              value={deliveryAddress}
+              onChange={(e) => setDeliveryAddress(e.target.value)}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>Expected Delivery</Label>
+              <Input
+                type="date"
+                value={expectedDeliveryDate}
+                onChange={(e) => setExpectedDeliveryDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Delivery Terms</Label>
+              <Input
+                placeholder="e.g., Delivered, installation included"
+                value={deliveryTerms}
+                onChange={(e) => setDeliveryTerms(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label>Payment Terms</Label>
+            <Input
+              placeholder="e.g., 30 days from invoice"
+              value={paymentTerms}
+              onChange={(e) => setPaymentTerms(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label>Notes to Supplier (Optional)</Label>
+            <Textarea rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit}>
+            {isSaving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            Issue Purchase Order
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,50 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Download, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface DownloadPurchaseOrderButtonProps {
+  purchaseOrderId: string;
+  poNumber: string;
+  size?: 'default' | 'sm';
+}
+
+/**
+ * Download the branded PDF of a purchase order
+ */
+export function DownloadPurchaseOrderButton({ purchaseOrderId, poNumber, size = 'sm' }: DownloadPurchaseOrderButtonProps) {
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    try {
+      const response = await fetch(`/api/purchase-orders/${purchaseOrderId}/pdf`);
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to download purchase order');
+      }
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = response.headers.get('X-Filename') || `${poNumber}.pdf`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to download purchase order');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <Button variant="outline" size={size} onClick={handleDownload} disabled={isDownloading}>
+      {isDownloading ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : <Download className="h-4 w-4 mr-1" />}
+      PDF
+    </Button>
+  );
+}
@@ -0,0 +1,6 @@
+export { CreatePurchaseOrderDialog } from './create-purchase-order-dialog';
+export { DownloadPurchaseOrderButton } from './download-purchase-order-button';
+export { PurchaseOrderActions } from './purchase-order-actions';
+export { PurchaseOrderList } from './purchase-order-list';
+export { PurchaseOrderStatusBadge } from './purchase-order-status-badge';
+export { PurchaseRequestOrdersCard } from './purchase-request-orders-card';
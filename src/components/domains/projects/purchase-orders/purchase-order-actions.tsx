@@ -0,0 +1,176 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { PackageCheck, Lock, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import type { PurchaseOrderStatus } from '@prisma/client';
+import {
+  canCancelPurchaseOrder,
+  canClosePurchaseOrder,
+  canReceivePurchaseOrder,
+} from '@/lib/domains/projects/purchase-orders/purchase-order';
+
+interface PurchaseOrderActionsProps {
+  purchaseOrder: {
+    id: string;
+    poNumber: string;
+    status: PurchaseOrderStatus;
+    purchaseRequest: { id: string };
+    lines: Array<{
+      quantity: number;
+      quantityReceived: number;
+    }>;
+  };
+  onUpdated?: () => void;
+}
+
+/**
+ * Close a purchase order once its deliveries are done, or cancel it before
+ * anything arrives. Deliveries are received as goods on the purchase request,
+ * which brings the order's lines up to date.
+ */
+export function PurchaseOrderActions({ purchaseOrder, onUpdated }: PurchaseOrderActionsProps) {
+  const [cancelOpen, setCancelOpen] = useState(false);
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const openCancel = () => {
+    setError(null);
+    setReason('');
+    setCancelOpen(true);
+  };
+
+  // Returns the error message, if any
+  const submit = async (
+    url: string,
+    method: 'PATCH',
+    body: unknown,
+    successMessage: string
+  ): Promise<string | null> => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to update purchase order');
+      }
+
+      toast.success(successMessage);
+      setCancelOpen(false);
+      onUpdated?.();
+      return null;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'An error occurred';
+      setError(message);
+      return message;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleClose = async () => {
+    const isShort = purchaseOrder.lines.some(line => line.quantityReceived < line.quantity);
+    const message = isShort
+      ? `Close ${purchaseOrder.poNumber}? Not everything has been received; nothing more will be expected from the supplier.`
+      : `Close ${purchaseOrder.poNumber}?`;
+    if (!confirm(message)) return;
+
+    const closeError = await submit(
+      `/api/purchase-orders/${purchaseOrder.id}/status`,
+      'PATCH',
+      { status: 'CLOSED' },
+      'Purchase order closed'
+    );
+    if (closeError) toast.error(closeError);
+  };
+
+  const handleCancel = () => submit(
+    `/api/purchase-orders/${purchaseOrder.id}/status`,
+    'PATCH',
+    { status: 'CANCELLED', reason },
+    'Purchase order cancelled'
+  );
+
+  const { status } = purchaseOrder;
+  if (!canReceivePurchaseOrder(status)) return null;
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-2">
+        <Link href={`/admin/purchase-requests/${purchaseOrder.purchaseRequest.id}`}>
+          <Button>
+            <PackageCheck className="h-4 w-4 mr-2" />
+            Receive Goods
+          </Button>
+        </Link>
+        {canClosePurchaseOrder(status) && (
+          <Button variant="outline" onClick={handleClose} disabled={isSubmitting}>
+            <Lock className="h-4 w-4 mr-2" />
+            Close Order
+          </Button>
+        )}
+        {canCancelPurchaseOrder(status) && (
+          <Button variant="destructive" onClick={openCancel}>
+            <XCircle className="h-4 w-4 mr-2" />
+            Cancel Order
+          </Button>
+        )}
+      </div>
+
+      {/* Cancel Dialog */}
+      <Dialog open={cancelOpen} onOpenChange={setCancelOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancel {purchaseOrder.poNumber}</DialogTitle>
+            <DialogDescription>
+              The items on this order can then be ordered again, e.g. from another supplier.
+            </DialogDescription>
+          </DialogHeader>
+
+          {error && (
+            <div className="bg-red-50 text-red-600 p-3 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Reason *</label>
+            <Textarea
+              placeholder="Why is this order being cancelled?"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCancelOpen(false)} disabled={isSubmitting}>
+              Back
+            </Button>
+            <Button variant="destructive" onClick={handleCancel} disabled={isSubmitting || !reason.trim()}>
+              {isSubmitting ? 'Cancelling...' : 'Cancel Order'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,134 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2 } from 'lucide-react';
+import type { PurchaseOrderStatus } from '@prisma/client';
+import { formatCurrency } from '@/lib/payroll/utils';
+import { PURCHASE_ORDER_STATUS_LABELS } from '@/lib/domains/projects/purchase-orders/purchase-order';
+import { DownloadPurchaseOrderButton } from './download-purchase-order-button';
+import { PurchaseOrderStatusBadge } from './purchase-order-status-badge';
+
+interface PurchaseOrderRow {
+  id: string;
+  poNumber: string;
+  status: PurchaseOrderStatus;
+  orderDate: string;
+  expectedDeliveryDate: string | null;
+  totalAmount: number;
+  currency: string;
+  supplier: { id: string; name: string };
+  purchaseRequest: { id: string; referenceNumber: string; title: string };
+  lines: Array<{ quantity: number; quantityReceived: number }>;
+}
+
+const formatDate = (date: string | null) =>
+  date ? new Date(date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' }) : '-';
+
+/**
+ * All purchase orders, filterable by status, with what has been received on each
+ */
+export function PurchaseOrderList() {
+  const [orders, setOrders] = useState<PurchaseOrderRow[]>([]);
+  const [status, setStatus] = useState<string>('all');
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchOrders = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (status !== 'all') params.set('status', status);
+
+      const response = await fetch(`/api/purchase-orders?${params}`);
+      if (response.ok) {
+        const data = await response.json();
+        setOrders(data.purchaseOrders);
+      }
+    } catch (err) {
+      console.error('Failed to fetch purchase orders:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    fetchOrders();
+  }, [fetchOrders]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Select value={status} onValueChange={setStatus}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            {Object.entries(PURCHASE_ORDER_STATUS_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        </div>
+      ) : orders.length === 0 ? (
+        <p className="text-sm text-gray-500">No purchase orders.</p>
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>PO Number</TableHead>
+                <TableHead>Supplier</TableHead>
+                <TableHead>Purchase Request</TableHead>
+                <TableHead>Issued</TableHead>
+                <TableHead>Expected</TableHead>
+                <TableHead className="text-right">Received</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {orders.map(order => {
+                const ordered = order.lines.reduce((sum, line) => sum + line.quantity, 0);
+                const received = order.lines.reduce((sum, line) => sum + line.quantityReceived, 0);
+                return (
+                  <TableRow key={order.id}>
+                    <TableCell>
+                      <Link href={`/admin/purchase-orders/${order.id}`} className="font-mono font-medium hover:underline">
+                        {order.poNumber}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{order.supplier.name}</TableCell>
+                    <TableCell>
+                      <Link href={`/admin/purchase-requests/${order.purchaseRequest.id}`} className="text-sm hover:underline">
+                        {order.purchaseRequest.referenceNumber}
+                      </Link>
+                    </TableCell>
+                    <TableCell className="text-sm">{formatDate(order.orderDate)}</TableCell>
+                    <TableCell className="text-sm">{formatDate(order.expectedDeliveryDate)}</TableCell>
+                    <TableCell className="text-right text-sm">{received} / {ordered}</TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrency(order.totalAmount, order.currency)}</TableCell>
+                    <TableCell><PurchaseOrderStatusBadge status={order.status} /></TableCell>
+                    <TableCell className="text-right">
+                      <DownloadPurchaseOrderButton purchaseOrderId={order.id} poNumber={order.poNumber} />
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
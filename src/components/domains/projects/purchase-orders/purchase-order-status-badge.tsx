@@ -0,0 +1,21 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import type { PurchaseOrderStatus } from '@prisma/client';
+import { PURCHASE_ORDER_STATUS_LABELS } from '@/lib/domains/projects/purchase-orders/purchase-order';
+
+const STATUS_STYLES: Record<PurchaseOrderStatus, string> = {
+  ISSUED: 'bg-blue-100 text-blue-800',
+  PARTIALLY_RECEIVED: 'bg-amber-100 text-amber-800',
+  RECEIVED: 'bg-green-100 text-green-800',
+  CLOSED: 'bg-gray-100 text-gray-800',
+  CANCELLED: 'bg-red-100 text-red-800',
+};
+
+export function PurchaseOrderStatusBadge({ status }: { status: PurchaseOrderStatus }) {
+  return (
+    <Badge variant="outline" className={`border-0 ${STATUS_STYLES[status]}`}>
+      {PURCHASE_ORDER_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
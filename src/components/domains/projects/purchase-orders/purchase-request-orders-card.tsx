@@ -0,0 +1,126 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { FilePlus } from 'lucide-react';
+import type { PurchaseOrderStatus } from '@prisma/client';
+import { formatCurrency } from '@/lib/payroll/utils';
+import { CreatePurchaseOrderDialog, OrderableRequestItem } from './create-purchase-order-dialog';
+import { DownloadPurchaseOrderButton } from './download-purchase-order-button';
+import { PurchaseOrderStatusBadge } from './purchase-order-status-badge';
+
+interface RequestPurchaseOrder {
+  id: string;
+  poNumber: string;
+  status: PurchaseOrderStatus;
+  orderDate: string;
+  totalAmount: number;
+  currency: string;
+  supplier: { id: string; name: string };
+  lines: Array<{ id: string }>;
+}
+
+interface PurchaseRequestOrdersCardProps {
+  purchaseRequestId: string;
+  /** Orders can only be issued while the request is approved */
+  status: string;
+  items: OrderableRequestItem[];
+}
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+
+/**
+ * Purchase orders issued for an approved request, and issuing new ones for
+ * the items not yet ordered
+ */
+export function PurchaseRequestOrdersCard({ purchaseRequestId, status, items }: PurchaseRequestOrdersCardProps) {
+  const [orders, setOrders] = useState<RequestPurchaseOrder[]>([]);
+  const [orderedItems, setOrderedItems] = useState<Record<string, string>>({});
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const fetchOrders = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/purchase-requests/${purchaseRequestId}/purchase-orders`);
+      if (response.ok) {
+        const data = await response.json();
+        setOrders(data.purchaseOrders);
+        setOrderedItems(data.orderedItems);
+      }
+    } catch (err) {
+      console.error('Failed to fetch purchase orders:', err);
+    } finally {
+      setIsLoaded(true);
+    }
+  }, [purchaseRequestId]);
+
+  useEffect(() => {
+    fetchOrders();
+  }, [fetchOrders, status]);
+
+  const unorderedItems = useMemo(
+    () => items.filter(item => !orderedItems[item.id]),
+    [items, orderedItems]
+  );
+
+  const canIssue = status === 'APPROVED' && unorderedItems.length > 0;
+  if (!isLoaded || (orders.length === 0 && status !== 'APPROVED')) return null;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Purchase Orders</CardTitle>
+          <CardDescription>
+            {unorderedItems.length === 0
+              ? 'Every item is on a purchase order'
+              : `${unorderedItems.length} of ${items.length} items not yet ordered`}
+          </CardDescription>
+        </div>
+        {canIssue && (
+          <Button size="sm" onClick={() => setDialogOpen(true)}>
+            <FilePlus className="h-4 w-4 mr-2" />
+            Issue PO
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {orders.length === 0 ? (
+          <p className="text-sm text-gray-500">No purchase orders issued yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {orders.map(order => (
+              <div key={order.id} className="flex flex-wrap items-center justify-between gap-3 p-3 border rounded-lg">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Link href={`/admin/purchase-orders/${order.id}`} className="font-medium font-mono hover:underline">
+                      {order.poNumber}
+                    </Link>
+                    <PurchaseOrderStatusBadge status={order.status} />
+                  </div>
+                  <p className="text-sm text-gray-600">
+                    {order.supplier.name} · {order.lines.length} item{order.lines.length === 1 ? '' : 's'}
+                    {' '}· {formatCurrency(order.totalAmount, order.currency)}
+                  </p>
+                  <p className="text-xs text-gray-500">Issued {formatDate(order.orderDate)}</p>
+                </div>
+                <DownloadPurchaseOrderButton purchaseOrderId={order.id} poNumber={order.poNumber} />
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <CreatePurchaseOrderDialog
+        purchaseRequestId={purchaseRequestId}
+        items={unorderedItems}
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onCreated={fetchOrders}
+      />
+    </Card>
+  );
+}
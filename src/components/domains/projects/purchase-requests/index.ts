@@ -1,2 +1,6 @@
 export { PurchaseRequestListTable } from './PurchaseRequestListTable';
 export { StatusBadge } from './StatusBadge';
+export { PurchaseApprovalProgress } from './purchase-approval-progress';
+export { PurchaseApprovalActions } from './purchase-approval-actions';
+export { PurchaseApprovalMatrixEditor } from './purchase-approval-matrix-editor';
+export { PendingPurchaseApprovals } from './pending-purchase-approvals';
@@ -0,0 +1,119 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { Badge } from '@/components/ui/badge';
+import { formatCurrency } from '@/lib/payroll/utils';
+import { getPurchaseTypeLabel } from '@/lib/purchase-request-utils';
+import { getPurchaseRequestAmountQAR } from '@/lib/domains/projects/budgets/budget';
+import { getDaysWaiting } from '@/lib/domains/projects/purchase-requests/approval-matrix';
+import { PurchaseApprovalActions } from './purchase-approval-actions';
+
+interface PendingApproval {
+  id: string;
+  referenceNumber: string;
+  title: string;
+  purchaseType: string;
+  totalAmount: string;
+  totalAmountQAR: string | null;
+  requester: { id: string; name: string | null; email: string };
+  approvals: Array<{ stepOrder: number }>;
+  currentStep: {
+    stepOrder: number;
+    name: string;
+    activatedAt: string | null;
+    onBehalfOf: { id: string; name: string | null } | null;
+  };
+}
+
+interface PendingPurchaseApprovalsProps {
+  /** Where a request's details open, by id */
+  detailHref?: (id: string) => string;
+}
+
+/**
+ * Purchase requests waiting on the signed-in user in their approval chain
+ */
+export function PendingPurchaseApprovals({
+  detailHref = (id) => `/employee/purchase-requests/${id}`,
+}: PendingPurchaseApprovalsProps) {
+  const [requests, setRequests] = useState<PendingApproval[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchApprovals = useCallback(async () => {
+    try {
+      const response = await fetch('/api/purchase-requests/approvals');
+      if (response.ok) {
+        const data = await response.json();
+        setRequests(data.requests);
+      }
+    } catch (error) {
+      console.error('Failed to fetch pending purchase approvals:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchApprovals();
+  }, [fetchApprovals]);
+
+  if (loading) {
+    return <div className="text-center py-8">Loading...</div>;
+  }
+
+  if (requests.length === 0) {
+    return (
+      <div className="py-8 text-center text-gray-500">
+        No purchase requests are waiting for your approval.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {requests.map(request => {
+        const daysWaiting = request.currentStep.activatedAt ? getDaysWaiting(request.currentStep.activatedAt) : 0;
+        return (
+          <div key={request.id} className="p-4 border rounded-lg">
+            <div className="flex flex-wrap items-start justify-between gap-4">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <Link href={detailHref(request.id)} className="font-medium hover:underline">
+                    {request.title}
+                  </Link>
+                  <span className="text-sm text-gray-500">{request.referenceNumber}</span>
+                </div>
+                <div className="text-sm text-gray-600">
+                  {request.requester.name || request.requester.email}
+                  {' '}· {getPurchaseTypeLabel(request.purchaseType)}
+                  {' '}· {formatCurrency(getPurchaseRequestAmountQAR(request))}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant="secondary">
+                    Step {request.currentStep.stepOrder} of {request.approvals.length}: {request.currentStep.name}
+                  </Badge>
+                  {daysWaiting > 0 && (
+                    <span className="text-xs text-gray-500">
+                      Waiting {daysWaiting} day{daysWaiting === 1 ? '' : 's'}
+                    </span>
+                  )}
+                  {request.currentStep.onBehalfOf && (
+                    <span className="text-xs text-gray-500">
+                      On behalf of {request.currentStep.onBehalfOf.name}
+                    </span>
+                  )}
+                </div>
+              </div>
+              <PurchaseApprovalActions
+                requestId={request.id}
+                stepName={request.currentStep.name}
+                onDecided={fetchApprovals}
+              />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
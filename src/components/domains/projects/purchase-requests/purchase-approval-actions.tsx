@@ -0,0 +1,201 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { CheckCircle, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface PurchaseApprovalActionsProps {
+  requestId: string;
+  /** Name of the step being decided, shown in the dialogs */
+  stepName?: string | null;
+  onDecided?: () => void;
+}
+
+/**
+ * Approve or reject the current step of a purchase request's approval chain
+ */
+export function PurchaseApprovalActions({ requestId, stepName, onDecided }: PurchaseApprovalActionsProps) {
+  const [approveOpen, setApproveOpen] = useState(false);
+  const [rejectOpen, setRejectOpen] = useState(false);
+  const [notes, setNotes] = useState('');
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const openDialog = (dialog: 'approve' | 'reject') => {
+    setError(null);
+    setNotes('');
+    setReason('');
+    if (dialog === 'approve') setApproveOpen(true);
+    else setRejectOpen(true);
+  };
+
+  const handleApprove = async (acknowledgeOverBudget = false) => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/purchase-requests/${requestId}/approve`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          notes: notes || undefined,
+          acknowledgeOverBudget: acknowledgeOverBudget || undefined,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        // Budget set to warn: approve anyway once the approver confirms
+        if (data.requiresAcknowledgement && confirm(`${data.error}.\n\nApprove anyway?`)) {
+          setIsSubmitting(false);
+          return handleApprove(true);
+        }
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to approve request');
+      }
+
+      toast.success(stepName ? `${stepName} approval recorded` : 'Purchase request approved');
+      setApproveOpen(false);
+      onDecided?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleReject = async () => {
+    if (!reason.trim()) {
+      setError('Rejection reason is required');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/purchase-requests/${requestId}/reject`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to reject request');
+      }
+
+      toast.success('Purchase request rejected');
+      setRejectOpen(false);
+      onDecided?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="flex gap-2">
+        <Button onClick={() => openDialog('approve')} className="bg-green-600 hover:bg-green-700">
+          <CheckCircle className="h-4 w-4 mr-2" />
+          Approve
+        </Button>
+        <Button variant="destructive" onClick={() => openDialog('reject')}>
+          <XCircle className="h-4 w-4 mr-2" />
+          Reject
+        </Button>
+      </div>
+
+      {/* Approve Dialog */}
+      <Dialog open={approveOpen} onOpenChange={setApproveOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Approve Purchase Request</DialogTitle>
+            <DialogDescription>
+              {stepName
+                ? `Record your approval for the ${stepName} step. The request moves on to the next step, or is approved if this is the last one.`
+                : 'Are you sure you want to approve this purchase request?'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {error && (
+            <div className="bg-red-50 text-red-600 p-3 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Notes (Optional)</label>
+            <Textarea
+              placeholder="Add notes about this decision..."
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setApproveOpen(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => handleApprove()}
+              disabled={isSubmitting}
+              className="bg-green-600 hover:bg-green-700"
+            >
+              {isSubmitting ? 'Approving...' : 'Approve'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Reject Dialog */}
+      <Dialog open={rejectOpen} onOpenChange={setRejectOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Purchase Request</DialogTitle>
+            <DialogDescription>
+              Please provide a reason for rejecting this purchase request.
+            </DialogDescription>
+          </DialogHeader>
+
+          {error && (
+            <div className="bg-red-50 text-red-600 p-3 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Rejection Reason *</label>
+            <Textarea
+              placeholder="Explain why the request is being rejected..."
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              required
+            />
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejectOpen(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleReject} disabled={isSubmitting}>
+              {isSubmitting ? 'Rejecting...' : 'Reject Request'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,352 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowUp, ArrowDown, Plus, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatCurrency } from '@/lib/payroll/utils';
+import { PURCHASE_TYPES, getPurchaseTypeLabel } from '@/lib/purchase-request-utils';
+import {
+  PURCHASE_APPROVER_TYPES,
+  PURCHASE_APPROVER_TYPE_LABELS,
+  PurchaseApproverType,
+} from '@/lib/domains/projects/purchase-requests/approval-matrix';
+
+interface RuleStep {
+  name: string;
+  approverType: PurchaseApproverType;
+  approverId: string | null;
+}
+
+interface Rule {
+  name: string;
+  minAmountQAR: number | null;
+  purchaseTypes: string[];
+  steps: RuleStep[];
+}
+
+interface Approver {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
+const EMPTY_STEP: RuleStep = { name: '', approverType: 'ADMIN', approverId: null };
+
+function describeRule(rule: Rule): string {
+  const conditions = [
+    rule.minAmountQAR !== null ? `${formatCurrency(rule.minAmountQAR)} or more` : null,
+    rule.purchaseTypes.length > 0 ? rule.purchaseTypes.map(getPurchaseTypeLabel).join(', ') : null,
+  ].filter(Boolean);
+  return conditions.length > 0 ? `Requests of ${conditions.join(', or ')}` : 'All other requests';
+}
+
+function move<T>(list: T[], index: number, direction: -1 | 1): T[] {
+  const next = [...list];
+  const target = index + direction;
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+}
+
+/**
+ * Amount- and type-based approval rules for purchase requests. The first
+ * matching rule decides a new request's approval chain.
+ */
+export function PurchaseApprovalMatrixEditor() {
+  const [rules, setRules] = useState<Rule[]>([]);
+  const [approvers, setApprovers] = useState<Approver[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [matrixResponse, usersResponse] = await Promise.all([
+          fetch('/api/purchase-requests/approval-matrix'),
+          fetch('/api/leave/delegations/candidates'),
+        ]);
+        if (matrixResponse.ok) {
+          const data = await matrixResponse.json();
+          setRules(data.rules.map((rule: Rule) => ({
+            name: rule.name,
+            minAmountQAR: rule.minAmountQAR,
+            purchaseTypes: rule.purchaseTypes,
+            steps: rule.steps.map(step => ({
+              name: step.name,
+              approverType: step.approverType,
+              approverId: step.approverId,
+            })),
+          })));
+        }
+        if (usersResponse.ok) {
+          const data = await usersResponse.json();
+          setApprovers(data.users);
+        }
+      } catch (err) {
+        console.error('Failed to load approval matrix:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, []);
+
+  const updateRule = (index: number, changes: Partial<Rule>) => {
+    setRules(prev => prev.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+  };
+
+  const updateStep = (ruleIndex: number, stepIndex: number, changes: Partial<RuleStep>) => {
+    setRules(prev => prev.map((rule, i) => (
+      i === ruleIndex
+        ? { ...rule, steps: rule.steps.map((step, j) => (j === stepIndex ? { ...step, ...changes } : step)) }
+        : rule
+    )));
+  };
+
+  const toggleType = (index: number, type: string) => {
+    const rule = rules[index];
+    updateRule(index, {
+      purchaseTypes: rule.purchaseTypes.includes(type)
+        ? rule.purchaseTypes.filter(t => t !== type)
+        : [...rule.purchaseTypes, type],
+    });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/purchase-requests/approval-matrix', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rules }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to save approval matrix');
+      }
+
+      toast.success('Approval matrix saved');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-6">Loading...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="bg-red-50 text-red-600 p-3 rounded-md text-sm">
+          {error}
+        </div>
+      )}
+
+      {rules.length === 0 ? (
+        <div className="p-4 bg-gray-50 rounded-md text-sm text-gray-600">
+          No approval rules configured. Any admin can approve purchase requests in a single step.
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {rules.map((rule, ruleIndex) => (
+            <div key={ruleIndex} className="border rounded-lg p-4 space-y-4">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <span className="text-sm font-medium text-gray-500">Rule {ruleIndex + 1}</span>
+                  <p className="text-xs text-gray-500">{describeRule(rule)}</p>
+                </div>
+                <div className="flex gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setRules(prev => move(prev, ruleIndex, -1))}
+                    disabled={ruleIndex === 0}
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setRules(prev => move(prev, ruleIndex, 1))}
+                    disabled={ruleIndex === rules.length - 1}
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setRules(prev => prev.filter((_, i) => i !== ruleIndex))}
+                  >
+                    <Trash2 className="h-4 w-4 text-red-500" />
+                  </Button>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label>Rule Name</Label>
+                  <Input
+                    placeholder="e.g., Major spend or services"
+                    value={rule.name}
+                    onChange={(e) => updateRule(ruleIndex, { name: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>Applies from (QAR)</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    placeholder="Any amount"
+                    value={rule.minAmountQAR ?? ''}
+                    onChange={(e) => updateRule(ruleIndex, {
+                      minAmountQAR: e.target.value === '' ? null : Number(e.target.value),
+                    })}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <Label>Or for these purchase types</Label>
+                <div className="flex flex-wrap gap-2">
+                  {PURCHASE_TYPES.map(type => {
+                    const selected = rule.purchaseTypes.includes(type.value);
+                    return (
+                      <Badge
+                        key={type.value}
+                        variant={selected ? 'default' : 'outline'}
+                        className="cursor-pointer"
+                        onClick={() => toggleType(ruleIndex, type.value)}
+                      >
+                        {type.label}
+                      </Badge>
+                    );
+                  })}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Approval Steps</Label>
+                {rule.steps.map((step, stepIndex) => (
+                  <div key={stepIndex} className="flex flex-wrap items-center gap-2">
+                    <span className="w-6 text-sm text-gray-500">{stepIndex + 1}.</span>
+                    <Input
+                      className="w-44"
+                      placeholder="e.g., Department Head"
+                      value={step.name}
+                      onChange={(e) => updateStep(ruleIndex, stepIndex, { name: e.target.value })}
+                    />
+                    <Select
+                      value={step.approverType}
+                      onValueChange={(value) => updateStep(ruleIndex, stepIndex, {
+                        approverType: value as PurchaseApproverType,
+                        approverId: value === 'USER' ? step.approverId : null,
+                      })}
+                    >
+                      <SelectTrigger className="w-56">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {PURCHASE_APPROVER_TYPES.map(type => (
+                          <SelectItem key={type} value={type}>
+                            {PURCHASE_APPROVER_TYPE_LABELS[type]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {step.approverType === 'USER' && (
+                      <Select
+                        value={step.approverId ?? ''}
+                        onValueChange={(value) => updateStep(ruleIndex, stepIndex, { approverId: value })}
+                      >
+                        <SelectTrigger className="w-48">
+                          <SelectValue placeholder="Select approver" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {approvers.map(approver => (
+                            <SelectItem key={approver.id} value={approver.id}>
+                              {approver.name || approver.email}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    <div className="flex">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => updateRule(ruleIndex, { steps: move(rule.steps, stepIndex, -1) })}
+                        disabled={stepIndex === 0}
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => updateRule(ruleIndex, { steps: move(rule.steps, stepIndex, 1) })}
+                        disabled={stepIndex === rule.steps.length - 1}
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => updateRule(ruleIndex, { steps: rule.steps.filter((_, j) => j !== stepIndex) })}
+                        disabled={rule.steps.length === 1}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => updateRule(ruleIndex, { steps: [...rule.steps, { ...EMPTY_STEP }] })}
+                  disabled={rule.steps.length >= 10}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Step
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500">
+        Rules are checked from the top and the first match decides the chain. Line manager and department
+        head steps fall back to any admin when the requester has none on file. Changes apply to new requests,
+        and to pending requests whose amount or type is edited.
+      </p>
+
+      <div className="flex justify-between">
+        <Button
+          variant="outline"
+          onClick={() => setRules(prev => [
+            ...prev,
+            { name: '', minAmountQAR: null, purchaseTypes: [], steps: [{ ...EMPTY_STEP }] },
+          ])}
+          disabled={rules.length >= 20}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Rule
+        </Button>
+        <Button onClick={handleSave} disabled={isSaving}>
+          {isSaving ? 'Saving...' : 'Save Matrix'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle, XCircle, Clock, MinusCircle, UserCheck } from 'lucide-react';
+import { getDaysWaiting, getStepHolderText } from '@/lib/domains/projects/purchase-requests/approval-matrix';
+
+interface ApprovalStep {
+  id: string;
+  stepOrder: number;
+  name: string;
+  approverType: string;
+  status: string;
+  actedAt?: string | null;
+  activatedAt?: string | null;
+  notes?: string | null;
+  approver?: { id: string; name: string | null; email?: string } | null;
+  actedBy?: { id: string; name: string | null } | null;
+  delegatedFrom?: { id: string; name: string | null } | null;
+}
+
+interface PurchaseApprovalProgressProps {
+  approvals: ApprovalStep[];
+  currentStep?: number | null;
+  ruleName?: string | null;
+}
+
+function getStepIcon(status: string) {
+  switch (status) {
+    case 'APPROVED':
+      return <CheckCircle className="h-5 w-5 text-green-500" />;
+    case 'REJECTED':
+      return <XCircle className="h-5 w-5 text-red-500" />;
+    case 'SKIPPED':
+      return <MinusCircle className="h-5 w-5 text-gray-300" />;
+    default:
+      return <Clock className="h-5 w-5 text-amber-500" />;
+  }
+}
+
+function getStepVariant(status: string): 'default' | 'secondary' | 'destructive' | 'outline' {
+  switch (status) {
+    case 'APPROVED':
+      return 'default';
+    case 'REJECTED':
+      return 'destructive';
+    case 'SKIPPED':
+      return 'outline';
+    default:
+      return 'secondary';
+  }
+}
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+
+/**
+ * A purchase request's approval chain, with who currently holds it
+ */
+export function PurchaseApprovalProgress({ approvals, currentStep, ruleName }: PurchaseApprovalProgressProps) {
+  if (!approvals || approvals.length === 0) {
+    return (
+      <div className="text-sm text-gray-500">
+        Single-step approval by an administrator
+      </div>
+    );
+  }
+
+  const holder = approvals.find(step => step.status === 'PENDING' && step.stepOrder === currentStep);
+
+  return (
+    <div className="space-y-3">
+      {ruleName && <p className="text-xs text-gray-500">Approval rule: {ruleName}</p>}
+
+      {holder && (
+        <div className="flex gap-2 rounded-md bg-amber-50 p-3 text-sm text-amber-800">
+          <UserCheck className="h-4 w-4 shrink-0 mt-0.5" />
+          <span>
+            Currently with <span className="font-medium">{getStepHolderText(holder)}</span>
+            {holder.activatedAt && (
+              <> · waiting {getDaysWaiting(holder.activatedAt)} day{getDaysWaiting(holder.activatedAt) === 1 ? '' : 's'}</>
+            )}
+          </span>
+        </div>
+      )}
+
+      {approvals.map((step) => {
+        const isCurrent = step === holder;
+        const assignee = step.approverType === 'ADMIN' ? 'Any admin' : step.approver?.name || 'Unassigned';
+
+        return (
+          <div
+            key={step.id}
+            className={`flex gap-3 p-3 rounded-lg border ${isCurrent ? 'border-amber-300 bg-amber-50' : ''}`}
+          >
+            {getStepIcon(step.status)}
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium text-sm">
+                  {step.stepOrder}. {step.name}
+                </span>
+                <Badge variant={getStepVariant(step.status)}>
+                  {isCurrent ? 'Awaiting' : step.status}
+                </Badge>
+              </div>
+              <div className="text-xs text-gray-500 mt-1">
+                {step.actedBy ? (
+                  <>
+                    {step.status === 'REJECTED' ? 'Rejected' : 'Approved'} by {step.actedBy.name}
+                    {step.delegatedFrom && <> on behalf of {step.delegatedFrom.name}</>}
+                    {step.actedAt && <> · {formatDate(step.actedAt)}</>}
+                  </>
+                ) : (
+                  <>Approver: {assignee}</>
+                )}
+              </div>
+              {step.notes && (
+                <div className="mt-2 p-2 bg-gray-50 rounded text-xs text-gray-600">
+                  {step.notes}
+                </div>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,476 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { PurchaseOrderStatus } from '@prisma/client';
+import { formatCurrency } from '@/lib/payroll/utils';
+import { DocumentUpload } from '@/components/domains/hr/profile';
+
+export interface InvoiceableRequestItem {
+  id: string;
+  itemNumber: number;
+  description: string;
+  quantity: number;
+  quantityReceived: number;
+  unitPrice: string | number;
+  currency: string;
+}
+
+export interface InvoiceablePurchaseOrder {
+  id: string;
+  poNumber: string;
+  status: PurchaseOrderStatus;
+  currency: string;
+  supplier: { id: string; name: string };
+  lines: Array<{ purchaseRequestItemId: string; quantity: number; unitPrice: number }>;
+}
+
+export interface InvoiceableGoodsReceipt {
+  id: string;
+  receiptNumber: string;
+  receivedDate: string;
+  lines: Array<{ purchaseRequestItem: { id: string } }>;
+}
+
+interface ApprovedSupplier {
+  id: string;
+  name: string;
+}
+
+interface ItemLineDraft {
+  selected: boolean;
+  quantity: string;
+  unitPrice: string;
+}
+
+interface ChargeDraft {
+  description: string;
+  quantity: string;
+  unitPrice: string;
+}
+
+interface CaptureInvoiceDialogProps {
+  purchaseRequestId: string;
+  currency: string;
+  items: InvoiceableRequestItem[];
+  purchaseOrders: InvoiceablePurchaseOrder[];
+  goodsReceipts: InvoiceableGoodsReceipt[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCaptured?: () => void;
+}
+
+const NO_ORDER = 'none';
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+const addDays = (date: string, days: number) => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return toDateInput(result);
+};
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+
+/**
+ * Capture an invoice a supplier sent for a request. Lines are pre-filled from
+ * the purchase order (or the request) and the receipts it bills, so the
+ * three-way match only flags what the supplier actually charged differently.
+ * Amounts exclude VAT.
+ */
+export function CaptureInvoiceDialog({
+  purchaseRequestId,
+  currency: requestCurrency,
+  items,
+  purchaseOrders,
+  goodsReceipts,
+  open,
+  onOpenChange,
+  onCaptured,
+}: CaptureInvoiceDialogProps) {
+  const [suppliers, setSuppliers] = useState<ApprovedSupplier[]>([]);
+  const [purchaseOrderId, setPurchaseOrderId] = useState(NO_ORDER);
+  const [supplierId, setSupplierId] = useState('');
+  const [invoiceNumber, setInvoiceNumber] = useState('');
+  const [invoiceDate, setInvoiceDate] = useState(toDateInput(new Date()));
+  const [dueDate, setDueDate] = useState(addDays(toDateInput(new Date()), 30));
+  const [currency, setCurrency] = useState(requestCurrency);
+  const [attachmentUrl, setAttachmentUrl] = useState<string | null>(null);
+  const [notes, setNotes] = useState('');
+  const [lines, setLines] = useState<Record<string, ItemLineDraft>>({});
+  const [charges, setCharges] = useState<ChargeDraft[]>([]);
+  const [receiptIds, setReceiptIds] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const openOrders = purchaseOrders.filter(order => order.status !== 'CANCELLED');
+
+  // Pre-fill lines and receipts from an order, or from the whole request
+  const applyOrder = useCallback((orderId: string) => {
+    const order = purchaseOrders.find(o => o.id === orderId);
+    setPurchaseOrderId(order ? order.id : NO_ORDER);
+    if (order) {
+      setSupplierId(order.supplier.id);
+      setCurrency(order.currency);
+    }
+
+    const drafts = Object.fromEntries(items.map(item => {
+      const orderLine = order?.lines.find(line => line.purchaseRequestItemId === item.id);
+      const ordered = orderLine?.quantity ?? item.quantity;
+      return [item.id, {
+        selected: order ? !!orderLine : true,
+        quantity: String(item.quantityReceived > 0 ? Math.min(item.quantityReceived, ordered) : ordered),
+        unitPrice: String(orderLine?.unitPrice ?? Number(item.unitPrice)),
+      }];
+    }));
+    setLines(drafts);
+    setReceiptIds(goodsReceipts
+      .filter(receipt => receipt.lines.some(line => drafts[line.purchaseRequestItem.id]?.selected))
+      .map(receipt => receipt.id));
+  }, [items, purchaseOrders, goodsReceipts]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const today = toDateInput(new Date());
+    setError(null);
+    setSupplierId('');
+    setInvoiceNumber('');
+    setInvoiceDate(today);
+    setDueDate(addDays(today, 30));
+    setCurrency(requestCurrency);
+    setAttachmentUrl(null);
+    setNotes('');
+    setCharges([]);
+    applyOrder(purchaseOrders.find(order => order.status !== 'CANCELLED')?.id ?? NO_ORDER);
+
+    const fetchSuppliers = async () => {
+      try {
+        const response = await fetch('/api/suppliers?status=APPROVED&ps=100&sort=name&order=asc');
+        if (response.ok) {
+          const data = await response.json();
+          setSuppliers(data.suppliers);
+        }
+      } catch (err) {
+        console.error('Failed to fetch suppliers:', err);
+      }
+    };
+    fetchSuppliers();
+  }, [open, requestCurrency, purchaseOrders, applyOrder]);
+
+  const updateLine = (itemId: string, changes: Partial<ItemLineDraft>) => {
+    setLines(prev => ({ ...prev, [itemId]: { ...prev[itemId], ...changes } }));
+  };
+
+  const updateCharge = (index: number, changes: Partial<ChargeDraft>) => {
+    setCharges(prev => prev.map((charge, i) => (i === index ? { ...charge, ...changes } : charge)));
+  };
+
+  const toggleReceipt = (receiptId: string) => {
+    setReceiptIds(prev => (
+      prev.includes(receiptId) ? prev.filter(id => id !== receiptId) : [...prev, receiptId]
+    ));
+  };
+
+  const selectedItems = items.filter(item => lines[item.id]?.selected);
+  const invoiceLines = [
+    ...selectedItems.map(item => ({
+      itemId: item.id,
+      description: item.description,
+      quantity: Number(lines[item.id].quantity),
+      unitPrice: Number(lines[item.id].unitPrice),
+    })),
+    ...charges.map(charge => ({
+      itemId: null,
+      description: charge.description,
+      quantity: Number(charge.quantity),
+      unitPrice: Number(charge.unitPrice),
+    })),
+  ];
+  const total = invoiceLines.reduce((sum, line) => sum + line.quantity * line.unitPrice, 0);
+
+  const handleSubmit = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/purchase-requests/${purchaseRequestId}/supplier-invoices`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          supplierId,
+          purchaseOrderId: purchaseOrderId === NO_ORDER ? null : purchaseOrderId,
+          goodsReceiptIds: receiptIds,
+          invoiceNumber,
+          invoiceDate,
+          dueDate,
+          currency,
+          attachmentUrl,
+          notes: notes || null,
+          lines: invoiceLines,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to capture invoice');
+      }
+
+      if (data.match.hasVariance) {
+        toast.warning(`Invoice ${data.invoiceNumber} captured with variances`, {
+          description: 'It does not match the order and receipts within tolerance. Review it before approving.',
+        });
+      } else {
+        toast.success(`Invoice ${data.invoiceNumber} captured and matched`);
+      }
+      onOpenChange(false);
+      onCaptured?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const canSubmit = !!supplierId && !!invoiceNumber.trim() && !!invoiceDate && !!dueDate &&
+    invoiceLines.length > 0 && !isSaving;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Capture Supplier Invoice</DialogTitle>
+          <DialogDescription>
+            Enter the invoice as billed, excluding VAT. It is matched against the purchase order
+            and goods receipts before it can be approved for payment.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {error && (
+            <div className="bg-red-50 text-red-600 p-3 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>Purchase Order</Label>
+              <Select value={purchaseOrderId} onValueChange={applyOrder}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_ORDER}>No purchase order</SelectItem>
+                  {openOrders.map(order => (
+                    <SelectItem key={order.id} value={order.id}>
+                      {order.poNumber} - {order.supplier.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Supplier *</Label>
+              <Select value={supplierId} onValueChange={setSupplierId} disabled={purchaseOrderId !== NO_ORDER}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select supplier" />
+                </SelectTrigger>
+                <SelectContent>
+                  {purchaseOrderId !== NO_ORDER && !suppliers.some(s => s.id === supplierId) && (
+                    <SelectItem value={supplierId}>
+                      {purchaseOrders.find(order => order.id === purchaseOrderId)?.supplier.name}
+                    </SelectItem>
+                  )}
+                  {suppliers.map(supplier => (
+                    <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Invoice Number *</Label>
+              <Input
+                placeholder="As printed on the invoice"
+                value={invoiceNumber}
+                onChange={(e) => setInvoiceNumber(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Currency</Label>
+              <Select value={currency} onValueChange={setCurrency}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="QAR">QAR</SelectItem>
+                  <SelectItem value="USD">USD</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Invoice Date *</Label>
+              <Input type="date" value={invoiceDate} onChange={(e) => setInvoiceDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label>Due Date *</Label>
+              <Input type="date" value={dueDate} min={invoiceDate} onChange={(e) => setDueDate(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Invoiced Items</Label>
+            <div className="rounded-md border divide-y">
+              {items.map(item => {
+                const line = lines[item.id];
+                if (!line) return null;
+
+                return (
+                  <div key={item.id} className="flex items-start gap-3 p-3">
+                    <Checkbox
+                      checked={line.selected}
+                      onCheckedChange={(checked) => updateLine(item.id, { selected: checked === true })}
+                    />
+                    <div className="flex-1 min-w-0 text-sm">
+                      <p className="font-medium">{item.itemNumber}. {item.description}</p>
+                      <p className="text-xs text-gray-500">
+                        {item.quantityReceived} of {item.quantity} received ·{' '}
+                        {formatCurrency(Number(item.unitPrice), item.currency)} each on the request
+                      </p>
+                    </div>
+                    {line.selected && (
+                      <div className="flex gap-2">
+                        <Input
+                          type="number"
+                          min={1}
+                          className="w-20 text-right"
+                          aria-label="Quantity"
+                          value={line.quantity}
+                          onChange={(e) => updateLine(item.id, { quantity: e.target.value })}
+                        />
+                        <Input
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          className="w-28 text-right"
+                          aria-label="Unit price"
+                          value={line.unitPrice}
+                          onChange={(e) => updateLine(item.id, { unitPrice: e.target.value })}
+                        />
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+              {charges.map((charge, index) => (
+                <div key={index} className="flex items-center gap-2 p-3">
+                  <Input
+                    className="flex-1"
+                    placeholder="Other charge, e.g. delivery"
+                    value={charge.description}
+                    onChange={(e) => updateCharge(index, { description: e.target.value })}
+                  />
+                  <Input
+                    type="number"
+                    min={1}
+                    className="w-20 text-right"
+                    aria-label="Quantity"
+                    value={charge.quantity}
+                    onChange={(e) => updateCharge(index, { quantity: e.target.value })}
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    className="w-28 text-right"
+                    aria-label="Unit price"
+                    value={charge.unitPrice}
+                    onChange={(e) => updateCharge(index, { unitPrice: e.target.value })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setCharges(prev => prev.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+            <div className="flex items-center justify-between">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setCharges(prev => [...prev, { description: '', quantity: '1', unitPrice: '' }])}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Other Charge
+              </Button>
+              <p className="text-sm">
+                Total excl. VAT: <span className="font-semibold">{formatCurrency(total, currency)}</span>
+              </p>
+            </div>
+          </div>
+
+          {goodsReceipts.length > 0 && (
+            <div className="space-y-2">
+              <Label>Goods Receipts Billed</Label>
+              <div className="flex flex-wrap gap-x-4 gap-y-2">
+                {goodsReceipts.map(receipt => (
+                  <label key={receipt.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={receiptIds.includes(receipt.id)}
+                      onCheckedChange={() => toggleReceipt(receipt.id)}
+                    />
+                    <span className="font-mono">{receipt.receiptNumber}</span>
+                    <span className="text-xs text-gray-500">{formatDate(receipt.receivedDate)}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <DocumentUpload
+            id="supplier-invoice-attachment"
+            label="Invoice Copy"
+            description="Scanned or PDF invoice from the supplier"
+            value={attachmentUrl}
+            onChange={setAttachmentUrl}
+            disabled={isSaving}
+          />
+
+          <div className="space-y-1">
+            <Label>Notes (Optional)</Label>
+            <Textarea rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit}>
+            {isSaving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            Capture Invoice
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
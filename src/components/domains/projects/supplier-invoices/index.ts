@@ -0,0 +1,6 @@
+export { CaptureInvoiceDialog } from './capture-invoice-dialog';
+export { PayablesAgingTable } from './payables-aging-table';
+export { PurchaseRequestInvoicesCard } from './purchase-request-invoices-card';
+export { SupplierInvoiceActions } from './supplier-invoice-actions';
+export { SupplierInvoiceList } from './supplier-invoice-list';
+export { SupplierInvoiceStatusBadge } from './supplier-invoice-status-badge';
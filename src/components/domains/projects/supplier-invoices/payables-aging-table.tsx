@@ -0,0 +1,93 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2 } from 'lucide-react';
+import { formatCurrency } from '@/lib/payroll/utils';
+import {
+  AGING_BUCKETS,
+  type PayablesAging,
+} from '@/lib/domains/projects/supplier-invoices/supplier-invoice';
+
+/**
+ * Accounts-payable aging: what is owed to each supplier, by how overdue it is
+ */
+export function PayablesAgingTable() {
+  const [aging, setAging] = useState<PayablesAging | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchAging = async () => {
+      try {
+        const response = await fetch('/api/supplier-invoices/aging');
+        if (response.ok) {
+          setAging(await response.json());
+        }
+      } catch (err) {
+        console.error('Failed to fetch payables aging:', err);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchAging();
+  }, []);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (!aging || aging.suppliers.length === 0) {
+    return <p className="text-sm text-gray-500">Nothing is owed to suppliers.</p>;
+  }
+
+  return (
+    <div className="rounded-md border overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Supplier</TableHead>
+            {AGING_BUCKETS.map(bucket => (
+              <TableHead key={bucket.key} className="text-right">{bucket.label}</TableHead>
+            ))}
+            <TableHead className="text-right">Total</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {aging.suppliers.map(row => (
+            <TableRow key={row.supplierId}>
+              <TableCell>
+                <p className="font-medium">{row.supplierName}</p>
+                <p className="text-xs text-gray-500">
+                  {row.invoiceCount} invoice{row.invoiceCount === 1 ? '' : 's'}
+                  {row.maxDaysOverdue > 0 && <> · oldest {row.maxDaysOverdue} days overdue</>}
+                </p>
+              </TableCell>
+              {AGING_BUCKETS.map(bucket => (
+                <TableCell
+                  key={bucket.key}
+                  className={`text-right ${bucket.key !== 'CURRENT' && row.buckets[bucket.key] > 0 ? 'text-red-600' : ''}`}
+                >
+                  {row.buckets[bucket.key] > 0 ? formatCurrency(row.buckets[bucket.key]) : '-'}
+                </TableCell>
+              ))}
+              <TableCell className="text-right font-medium">{formatCurrency(row.total)}</TableCell>
+            </TableRow>
+          ))}
+          <TableRow>
+            <TableCell className="font-medium">Total</TableCell>
+            {AGING_BUCKETS.map(bucket => (
+              <TableCell key={bucket.key} className="text-right font-medium">
+                {formatCurrency(aging.totals[bucket.key])}
+              </TableCell>
+            ))}
+            <TableCell className="text-right font-bold">{formatCurrency(aging.total)}</TableCell>
+          </TableRow>
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
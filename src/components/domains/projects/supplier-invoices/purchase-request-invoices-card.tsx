@@ -0,0 +1,169 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Paperclip, Receipt } from 'lucide-react';
+import type { SupplierInvoiceStatus } from '@prisma/client';
+import { formatCurrency } from '@/lib/payroll/utils';
+import { RECEIVABLE_PURCHASE_REQUEST_STATUSES } from '@/lib/domains/projects/goods-receipts/goods-receipt';
+import { UNPAID_SUPPLIER_INVOICE_STATUSES } from '@/lib/domains/projects/supplier-invoices/supplier-invoice';
+import {
+  CaptureInvoiceDialog,
+  InvoiceableGoodsReceipt,
+  InvoiceablePurchaseOrder,
+  InvoiceableRequestItem,
+} from './capture-invoice-dialog';
+import { SupplierInvoiceStatusBadge } from './supplier-invoice-status-badge';
+
+interface RequestSupplierInvoice {
+  id: string;
+  invoiceNumber: string;
+  status: SupplierInvoiceStatus;
+  invoiceDate: string;
+  dueDate: string;
+  totalAmount: number;
+  currency: string;
+  attachmentUrl: string | null;
+  supplier: { id: string; name: string };
+  purchaseOrder: { id: string; poNumber: string } | null;
+}
+
+interface PurchaseRequestInvoicesCardProps {
+  purchaseRequestId: string;
+  /** Invoices can only be captured once the request is approved */
+  status: string;
+  currency: string;
+  items: InvoiceableRequestItem[];
+}
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+
+/**
+ * Invoices suppliers sent for a request, and capturing new ones against its
+ * purchase orders and goods receipts
+ */
+export function PurchaseRequestInvoicesCard({
+  purchaseRequestId,
+  status,
+  currency,
+  items,
+}: PurchaseRequestInvoicesCardProps) {
+  const [invoices, setInvoices] = useState<RequestSupplierInvoice[]>([]);
+  const [purchaseOrders, setPurchaseOrders] = useState<InvoiceablePurchaseOrder[]>([]);
+  const [goodsReceipts, setGoodsReceipts] = useState<InvoiceableGoodsReceipt[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const fetchInvoices = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/purchase-requests/${purchaseRequestId}/supplier-invoices`);
+      if (response.ok) {
+        const data = await response.json();
+        setInvoices(data.supplierInvoices);
+      }
+    } catch (err) {
+      console.error('Failed to fetch supplier invoices:', err);
+    } finally {
+      setIsLoaded(true);
+    }
+  }, [purchaseRequestId]);
+
+  useEffect(() => {
+    fetchInvoices();
+  }, [fetchInvoices]);
+
+  const isCapturable = (RECEIVABLE_PURCHASE_REQUEST_STATUSES as string[]).includes(status);
+
+  const openCapture = async () => {
+    try {
+      const [ordersResponse, receiptsResponse] = await Promise.all([
+        fetch(`/api/purchase-requests/${purchaseRequestId}/purchase-orders`),
+        fetch(`/api/purchase-requests/${purchaseRequestId}/goods-receipts`),
+      ]);
+      if (ordersResponse.ok) {
+        setPurchaseOrders((await ordersResponse.json()).purchaseOrders);
+      }
+      if (receiptsResponse.ok) {
+        setGoodsReceipts((await receiptsResponse.json()).goodsReceipts);
+      }
+    } catch (err) {
+      console.error('Failed to fetch orders and receipts:', err);
+    }
+    setDialogOpen(true);
+  };
+
+  if (!isLoaded || (invoices.length === 0 && !isCapturable)) return null;
+
+  const unpaid = invoices.filter(invoice => UNPAID_SUPPLIER_INVOICE_STATUSES.includes(invoice.status)).length;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Supplier Invoices</CardTitle>
+          <CardDescription>
+            {invoices.length === 0
+              ? 'No invoices received yet'
+              : `${invoices.length} invoice${invoices.length === 1 ? '' : 's'}, ${unpaid} unpaid`}
+          </CardDescription>
+        </div>
+        {isCapturable && (
+          <Button size="sm" onClick={openCapture}>
+            <Receipt className="h-4 w-4 mr-2" />
+            Capture Invoice
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {invoices.length === 0 ? (
+          <p className="text-sm text-gray-500">Invoices are matched against the purchase orders and receipts above.</p>
+        ) : (
+          <div className="space-y-3">
+            {invoices.map(invoice => (
+              <div key={invoice.id} className="flex flex-wrap items-center justify-between gap-3 p-3 border rounded-lg">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Link href={`/admin/supplier-invoices/${invoice.id}`} className="font-medium font-mono hover:underline">
+                      {invoice.invoiceNumber}
+                    </Link>
+                    <SupplierInvoiceStatusBadge status={invoice.status} />
+                  </div>
+                  <p className="text-sm text-gray-600">
+                    {invoice.supplier.name}
+                    {invoice.purchaseOrder && <> · {invoice.purchaseOrder.poNumber}</>}
+                    {' '}· {formatCurrency(invoice.totalAmount, invoice.currency)} excl. VAT
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    Dated {formatDate(invoice.invoiceDate)} · due {formatDate(invoice.dueDate)}
+                  </p>
+                </div>
+                {invoice.attachmentUrl && (
+                  <a href={invoice.attachmentUrl} target="_blank" rel="noopener noreferrer">
+                    <Button variant="ghost" size="sm">
+                      <Paperclip className="h-4 w-4 mr-2" />
+                      Invoice Copy
+                    </Button>
+                  </a>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <CaptureInvoiceDialog
+        purchaseRequestId={purchaseRequestId}
+        currency={currency}
+        items={items}
+        purchaseOrders={purchaseOrders}
+        goodsReceipts={goodsReceipts}
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onCaptured={fetchInvoices}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,223 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Banknote, CheckCircle, Loader2, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import type { SupplierInvoiceStatus } from '@prisma/client';
+import {
+  canApproveSupplierInvoice,
+  canCancelSupplierInvoice,
+  canPaySupplierInvoice,
+} from '@/lib/domains/projects/supplier-invoices/supplier-invoice';
+
+interface SupplierInvoiceActionsProps {
+  supplierInvoice: {
+    id: string;
+    invoiceNumber: string;
+    status: SupplierInvoiceStatus;
+  };
+  onUpdated?: () => void;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * Approve an invoice for payment, record its payment, or cancel it while unpaid
+ */
+export function SupplierInvoiceActions({ supplierInvoice, onUpdated }: SupplierInvoiceActionsProps) {
+  const [payOpen, setPayOpen] = useState(false);
+  const [cancelOpen, setCancelOpen] = useState(false);
+  const [paidAt, setPaidAt] = useState(today());
+  const [paymentReference, setPaymentReference] = useState('');
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const openPay = () => {
+    setError(null);
+    setPaidAt(today());
+    setPaymentReference('');
+    setPayOpen(true);
+  };
+
+  const openCancel = () => {
+    setError(null);
+    setReason('');
+    setCancelOpen(true);
+  };
+
+  // Returns the error message, or the response when the approval needs acknowledging
+  const submit = async (
+    body: unknown,
+    successMessage: string
+  ): Promise<{ error?: string; requiresAcknowledgement?: boolean }> => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/supplier-invoices/${supplierInvoice.id}/status`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+      const data = await response.json();
+      if (response.status === 409 && data.requiresAcknowledgement) {
+        return data;
+      }
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to update invoice');
+      }
+
+      toast.success(successMessage);
+      setPayOpen(false);
+      setCancelOpen(false);
+      onUpdated?.();
+      return {};
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'An error occurred';
+      setError(message);
+      return { error: message };
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleApprove = async () => {
+    if (!confirm(`Approve invoice ${supplierInvoice.invoiceNumber} for payment?`)) return;
+
+    let result = await submit({ status: 'APPROVED' }, 'Invoice approved for payment');
+    if (result.requiresAcknowledgement) {
+      if (!confirm(`${result.error}\n\nApprove anyway?`)) return;
+      result = await submit({ status: 'APPROVED', acknowledgeVariance: true }, 'Invoice approved with variances');
+    }
+    if (result.error) toast.error(result.error);
+  };
+
+  const handlePay = () => submit(
+    { status: 'PAID', paidAt, paymentReference: paymentReference || null },
+    'Invoice marked as paid'
+  );
+
+  const handleCancel = () => submit(
+    { status: 'CANCELLED', reason },
+    'Invoice cancelled'
+  );
+
+  const { status } = supplierInvoice;
+  if (!canCancelSupplierInvoice(status)) return null;
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-2">
+        {canApproveSupplierInvoice(status) && (
+          <Button onClick={handleApprove} disabled={isSubmitting}>
+            <CheckCircle className="h-4 w-4 mr-2" />
+            Approve for Payment
+          </Button>
+        )}
+        {canPaySupplierInvoice(status) && (
+          <Button onClick={openPay}>
+            <Banknote className="h-4 w-4 mr-2" />
+            Mark as Paid
+          </Button>
+        )}
+        <Button variant="destructive" onClick={openCancel}>
+          <XCircle className="h-4 w-4 mr-2" />
+          Cancel Invoice
+        </Button>
+      </div>
+
+      {/* Pay Dialog */}
+      <Dialog open={payOpen} onOpenChange={setPayOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Mark {supplierInvoice.invoiceNumber} as Paid</DialogTitle>
+            <DialogDescription>
+              The invoice leaves the accounts-payable aging once paid.
+            </DialogDescription>
+          </DialogHeader>
+
+          {error && (
+            <div className="bg-red-50 text-red-600 p-3 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>Payment Date *</Label>
+              <Input type="date" value={paidAt} onChange={(e) => setPaidAt(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label>Payment Reference</Label>
+              <Input
+                placeholder="e.g., transfer or cheque number"
+                value={paymentReference}
+                onChange={(e) => setPaymentReference(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPayOpen(false)} disabled={isSubmitting}>
+              Back
+            </Button>
+            <Button onClick={handlePay} disabled={isSubmitting || !paidAt}>
+              {isSubmitting && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Mark as Paid
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Cancel Dialog */}
+      <Dialog open={cancelOpen} onOpenChange={setCancelOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancel {supplierInvoice.invoiceNumber}</DialogTitle>
+            <DialogDescription>
+              Its quantities will no longer count when matching the supplier&apos;s other invoices.
+            </DialogDescription>
+          </DialogHeader>
+
+          {error && (
+            <div className="bg-red-50 text-red-600 p-3 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Reason *</label>
+            <Textarea
+              placeholder="e.g., captured in error, replaced by a credit note"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCancelOpen(false)} disabled={isSubmitting}>
+              Back
+            </Button>
+            <Button variant="destructive" onClick={handleCancel} disabled={isSubmitting || !reason.trim()}>
+              {isSubmitting ? 'Cancelling...' : 'Cancel Invoice'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
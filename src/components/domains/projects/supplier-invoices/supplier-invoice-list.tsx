@@ -0,0 +1,144 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2 } from 'lucide-react';
+import type { SupplierInvoiceStatus } from '@prisma/client';
+import { formatCurrency } from '@/lib/payroll/utils';
+import {
+  getDaysOverdue,
+  SUPPLIER_INVOICE_STATUS_LABELS,
+  UNPAID_SUPPLIER_INVOICE_STATUSES,
+} from '@/lib/domains/projects/supplier-invoices/supplier-invoice';
+import { SupplierInvoiceStatusBadge } from './supplier-invoice-status-badge';
+
+interface SupplierInvoiceRow {
+  id: string;
+  invoiceNumber: string;
+  status: SupplierInvoiceStatus;
+  invoiceDate: string;
+  dueDate: string;
+  totalAmount: number;
+  currency: string;
+  varianceAcknowledged: boolean;
+  supplier: { id: string; name: string };
+  purchaseRequest: { id: string; referenceNumber: string; title: string };
+  purchaseOrder: { id: string; poNumber: string } | null;
+}
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+
+/**
+ * All supplier invoices, filterable by status, with unpaid ones past their
+ * due date highlighted
+ */
+export function SupplierInvoiceList() {
+  const [invoices, setInvoices] = useState<SupplierInvoiceRow[]>([]);
+  const [status, setStatus] = useState<string>('all');
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchInvoices = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (status !== 'all') params.set('status', status);
+
+      const response = await fetch(`/api/supplier-invoices?${params}`);
+      if (response.ok) {
+        const data = await response.json();
+        setInvoices(data.supplierInvoices);
+      }
+    } catch (err) {
+      console.error('Failed to fetch supplier invoices:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    fetchInvoices();
+  }, [fetchInvoices]);
+
+  const today = new Date();
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Select value={status} onValueChange={setStatus}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            {Object.entries(SUPPLIER_INVOICE_STATUS_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        </div>
+      ) : invoices.length === 0 ? (
+        <p className="text-sm text-gray-500">No supplier invoices.</p>
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Invoice</TableHead>
+                <TableHead>Supplier</TableHead>
+                <TableHead>Purchase Request</TableHead>
+                <TableHead>Dated</TableHead>
+                <TableHead>Due</TableHead>
+                <TableHead className="text-right">Amount (excl. VAT)</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {invoices.map(invoice => {
+                const daysOverdue = UNPAID_SUPPLIER_INVOICE_STATUSES.includes(invoice.status)
+                  ? getDaysOverdue(new Date(invoice.dueDate), today)
+                  : 0;
+                return (
+                  <TableRow key={invoice.id}>
+                    <TableCell>
+                      <Link href={`/admin/supplier-invoices/${invoice.id}`} className="font-mono font-medium hover:underline">
+                        {invoice.invoiceNumber}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{invoice.supplier.name}</TableCell>
+                    <TableCell>
+                      <Link href={`/admin/purchase-requests/${invoice.purchaseRequest.id}`} className="text-sm hover:underline">
+                        {invoice.purchaseRequest.referenceNumber}
+                      </Link>
+                      {invoice.purchaseOrder && (
+                        <span className="block text-xs font-mono text-gray-500">{invoice.purchaseOrder.poNumber}</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">{formatDate(invoice.invoiceDate)}</TableCell>
+                    <TableCell className="text-sm">
+                      {formatDate(invoice.dueDate)}
+                      {daysOverdue > 0 && (
+                        <span className="block text-xs text-red-600">{daysOverdue} days overdue</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrency(invoice.totalAmount, invoice.currency)}</TableCell>
+                    <TableCell><SupplierInvoiceStatusBadge status={invoice.status} /></TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import type { SupplierInvoiceStatus } from '@prisma/client';
+import { SUPPLIER_INVOICE_STATUS_LABELS } from '@/lib/domains/projects/supplier-invoices/supplier-invoice';
+
+const STATUS_STYLES: Record<SupplierInvoiceStatus, string> = {
+  PENDING: 'bg-amber-100 text-amber-800',
+  APPROVED: 'bg-blue-100 text-blue-800',
+  PAID: 'bg-green-100 text-green-800',
+  CANCELLED: 'bg-red-100 text-red-800',
+};
+
+export function SupplierInvoiceStatusBadge({ status }: { status: SupplierInvoiceStatus }) {
+  return (
+    <Badge variant="outline" className={`border-0 ${STATUS_STYLES[status]}`}>
+      {SUPPLIER_INVOICE_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
@@ -10,6 +10,8 @@ import {
   FileText,
   AlertTriangle,
   Bell,
+  ClipboardCheck,
+  Trash2,
 } from 'lucide-react';
 
 interface NotificationItemProps {
@@ -43,6 +45,11 @@ const iconMap: Record<string, React.ComponentType<{ className?: string }>> = {
   PURCHASE_REQUEST_APPROVED: CheckCircle,
   PURCHASE_REQUEST_REJECTED: XCircle,
   DOCUMENT_EXPIRY_WARNING: AlertTriangle,
+  ASSET_AUDIT_REQUESTED: ClipboardCheck,
+  ASSET_DISPOSAL_SUBMITTED: Trash2,
+  ASSET_DISPOSAL_APPROVED: CheckCircle,
+  ASSET_DISPOSAL_REJECTED: XCircle,
+  ASSET_REQUEST_CANCELLED: XCircle,
   GENERAL: Bell,
 };
 
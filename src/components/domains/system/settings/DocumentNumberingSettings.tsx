@@ -30,6 +30,7 @@ interface DocumentNumberConfig {
   isAssetCategory: boolean;
   isSystemRequired: boolean;
   isActive: boolean;
+  nextNumber: string;
 }
 
 interface FormData {
@@ -221,18 +222,6 @@ export function DocumentNumberingSettings() {
     }
   };
 
-  // Generate format preview
-  const getFormatPreview = (config: DocumentNumberConfig) => {
-    const year = new Date().getFullYear().toString().slice(-2);
-    const month = (new Date().getMonth() + 1).toString().padStart(2, '0');
-    const seq = '001'.padStart(config.sequenceDigits, '0');
-
-    if (config.includeMonth) {
-      return `${companyPrefix}-${config.code}-${year}${month}${seq}`;
-    }
-    return `${companyPrefix}-${config.code}-${year}${seq}`;
-  };
-
   const documentTypes = configs.filter((c) => !c.isAssetCategory);
   const assetCategories = configs.filter((c) => c.isAssetCategory);
 
@@ -272,8 +261,8 @@ export function DocumentNumberingSettings() {
           )}
         </div>
         <div className="flex items-center gap-4 mt-1">
-          <span className="text-sm text-muted-foreground font-mono">
-            {getFormatPreview(config)}
+          <span className="text-sm text-muted-foreground">
+            Next: <span className="font-mono">{config.nextNumber}</span>
           </span>
           {config.description && (
             <span className="text-sm text-muted-foreground">
@@ -520,6 +509,11 @@ export function DocumentNumberingSettings() {
                 }
                 {'0'.repeat(formData.sequenceDigits || 3).slice(0, -1)}1
               </p>
+              {editingConfig && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Next number with the saved settings: <span className="font-mono">{editingConfig.nextNumber}</span>
+                </p>
+              )}
             </div>
           </div>
 
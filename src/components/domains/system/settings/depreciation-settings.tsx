@@ -0,0 +1,294 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { Download, Loader2, Pencil, TrendingDown, Trash2 } from 'lucide-react';
+import { formatUsefulLife } from '@/lib/domains/operations/assets/depreciation';
+import type { DepreciationMethod } from '@prisma/client';
+
+interface DepreciationPolicy {
+  id: string;
+  categoryCode: string;
+  method: DepreciationMethod;
+  usefulLifeMonths: number;
+  salvageValuePercent: number;
+}
+
+interface CategoryPolicy {
+  code: string;
+  label: string;
+  assetCount: number;
+  policy: DepreciationPolicy | null;
+}
+
+const METHOD_LABELS: Record<DepreciationMethod, string> = {
+  STRAIGHT_LINE: 'Straight line',
+  DECLINING_BALANCE: 'Declining balance',
+};
+
+/**
+ * Depreciation policy per asset category, and the month-end fixed-asset register
+ */
+export function DepreciationSettings() {
+  const [categories, setCategories] = useState<CategoryPolicy[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editing, setEditing] = useState<CategoryPolicy | null>(null);
+  const [method, setMethod] = useState<DepreciationMethod>('STRAIGHT_LINE');
+  const [usefulLifeMonths, setUsefulLifeMonths] = useState('36');
+  const [salvageValuePercent, setSalvageValuePercent] = useState('0');
+  const [isSaving, setIsSaving] = useState(false);
+  const [registerMonth, setRegisterMonth] = useState(new Date().toISOString().slice(0, 7));
+
+  const fetchPolicies = useCallback(async () => {
+    try {
+      const response = await fetch('/api/assets/depreciation-policies');
+      if (response.ok) {
+        const data = await response.json();
+        setCategories(data.categories);
+      }
+    } catch (error) {
+      console.error('Failed to fetch depreciation policies:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPolicies();
+  }, [fetchPolicies]);
+
+  const openDialog = (category: CategoryPolicy) => {
+    setEditing(category);
+    setMethod(category.policy?.method ?? 'STRAIGHT_LINE');
+    setUsefulLifeMonths(String(category.policy?.usefulLifeMonths ?? 36));
+    setSalvageValuePercent(String(category.policy?.salvageValuePercent ?? 0));
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    setIsSaving(true);
+
+    try {
+      const response = await fetch('/api/assets/depreciation-policies', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          categoryCode: editing.code,
+          method,
+          usefulLifeMonths: parseInt(usefulLifeMonths, 10),
+          salvageValuePercent: parseFloat(salvageValuePercent) || 0,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to save depreciation policy');
+      }
+
+      toast.success(`Depreciation policy saved for ${editing.label}`);
+      setEditing(null);
+      fetchPolicies();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (category: CategoryPolicy) => {
+    try {
+      const response = await fetch(`/api/assets/depreciation-policies/${category.code}`, { method: 'DELETE' });
+      if (response.ok) {
+        toast.success(`${category.label} is no longer depreciated`);
+        fetchPolicies();
+      } else {
+        const data = await response.json();
+        toast.error(data.error || 'Failed to remove depreciation policy');
+      }
+    } catch (error) {
+      console.error('Failed to remove depreciation policy:', error);
+      toast.error('An error occurred');
+    }
+  };
+
+  const parsedLife = parseInt(usefulLifeMonths, 10);
+  const parsedSalvage = parseFloat(salvageValuePercent);
+  const isValid = parsedLife >= 1 && parsedLife <= 600 &&
+    (salvageValuePercent === '' || (parsedSalvage >= 0 && parsedSalvage <= 100));
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <TrendingDown className="h-5 w-5" />
+            Depreciation Policies
+          </CardTitle>
+          <CardDescription>
+            How assets in each category lose value. Book values use the asset&apos;s QAR price and purchase date;
+            categories without a policy are carried at cost.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {categories.map(category => (
+                <div
+                  key={category.code}
+                  className="flex items-center justify-between p-3 border rounded-lg hover:bg-gray-50"
+                >
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{category.label}</span>
+                      <Badge variant="outline" className="font-mono text-xs">
+                        {category.code}
+                      </Badge>
+                      <span className="text-xs text-muted-foreground">{category.assetCount} assets</span>
+                    </div>
+                    <div className="text-sm text-muted-foreground mt-1">
+                      {category.policy
+                        ? `${METHOD_LABELS[category.policy.method]} over ${formatUsefulLife(category.policy.usefulLifeMonths)}` +
+                          (category.policy.salvageValuePercent > 0
+                            ? `, ${category.policy.salvageValuePercent}% salvage value`
+                            : '')
+                        : 'Not depreciated'}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Button variant="ghost" size="icon" onClick={() => openDialog(category)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    {category.policy && (
+                      <Button variant="ghost" size="icon" onClick={() => handleRemove(category)}>
+                        <Trash2 className="h-4 w-4 text-red-500" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Download className="h-5 w-5" />
+            Fixed-Asset Register
+          </CardTitle>
+          <CardDescription>
+            Cost, depreciation for the month, accumulated depreciation and net book value at month-end,
+            with gains and losses on assets disposed during the year
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-end gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="register-month">Month</Label>
+              <Input
+                id="register-month"
+                type="month"
+                value={registerMonth}
+                onChange={(e) => setRegisterMonth(e.target.value)}
+              />
+            </div>
+            <Button asChild disabled={!registerMonth}>
+              <a href={`/api/assets/depreciation-register?month=${registerMonth}`}>
+                <Download className="mr-2 h-4 w-4" />
+                Download Register
+              </a>
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Depreciation Policy</DialogTitle>
+            <DialogDescription>
+              {editing?.code} - {editing?.label}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label>Method</Label>
+              <Select value={method} onValueChange={(value) => setMethod(value as DepreciationMethod)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(METHOD_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {method === 'DECLINING_BALANCE' && (
+                <p className="text-xs text-muted-foreground">
+                  Double the straight-line rate on the remaining value, switching to straight line
+                  so the asset reaches its salvage value at the end of its life
+                </p>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="useful-life">Useful life (months)</Label>
+                <Input
+                  id="useful-life"
+                  type="number"
+                  min={1}
+                  max={600}
+                  value={usefulLifeMonths}
+                  onChange={(e) => setUsefulLifeMonths(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="salvage-value">Salvage value (% of cost)</Label>
+                <Input
+                  id="salvage-value"
+                  type="number"
+                  min={0}
+                  max={100}
+                  step="0.01"
+                  value={salvageValuePercent}
+                  onChange={(e) => setSalvageValuePercent(e.target.value)}
+                />
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving || !isValid}>
+              {isSaving ? 'Saving...' : 'Save Policy'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -3,4 +3,7 @@ export { DatabaseStats } from './database-stats';
 export { DataDeletion } from './data-deletion';
 export { DataExportImport } from './data-export-import';
 export { ExchangeRateSettings } from './exchange-rate-settings';
+export { InvoiceMatchingSettings } from './invoice-matching-settings';
 export { PayrollSettings } from './payroll-settings';
+export { WpsSettings } from './wps-settings';
+export { DepreciationSettings } from './depreciation-settings';
@@ -0,0 +1,139 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { FileCheck, Loader2, Save } from 'lucide-react';
+import { toast } from 'sonner';
+
+/**
+ * Tolerance of the three-way match between supplier invoices, purchase
+ * orders and goods receipts
+ */
+export function InvoiceMatchingSettings() {
+  const [tolerance, setTolerance] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [lastUpdated, setLastUpdated] = useState<string | null>(null);
+  const [updatedBy, setUpdatedBy] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const response = await fetch('/api/settings/invoice-matching');
+        if (!response.ok) throw new Error('Failed to fetch settings');
+
+        const data = await response.json();
+        setTolerance(data.tolerancePercent.toString());
+        setLastUpdated(data.lastUpdated);
+        setUpdatedBy(data.updatedBy);
+      } catch (error) {
+        console.error('Error fetching invoice matching settings:', error);
+        toast.error('Failed to load invoice matching settings', { duration: 10000 });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSettings();
+  }, []);
+
+  const handleSave = async () => {
+    const toleranceNum = parseFloat(tolerance);
+
+    if (isNaN(toleranceNum) || toleranceNum < 0 || toleranceNum > 100) {
+      toast.error('Invalid tolerance', { description: 'Please enter a percentage between 0 and 100', duration: 10000 });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch('/api/settings/invoice-matching', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tolerancePercent: toleranceNum }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to update tolerance');
+      }
+
+      setTolerance(data.tolerancePercent.toString());
+      setLastUpdated(data.lastUpdated);
+      setUpdatedBy(data.updatedBy);
+
+      toast.success('Invoice matching tolerance updated', { duration: 5000 });
+    } catch (error) {
+      console.error('Error updating invoice matching settings:', error);
+      toast.error('Failed to update invoice matching tolerance', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+        duration: 8000,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileCheck className="h-5 w-5" />
+          Supplier Invoice Matching
+        </CardTitle>
+        <CardDescription>
+          Invoices are matched against their purchase order and goods receipts. Quantity or price
+          differences above this tolerance must be acknowledged before the invoice is approved.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <>
+            <div className="space-y-2 max-w-sm">
+              <Label htmlFor="invoice-match-tolerance">Tolerance (%)</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="invoice-match-tolerance"
+                  type="number"
+                  step="0.5"
+                  min="0"
+                  max="100"
+                  value={tolerance}
+                  onChange={(e) => setTolerance(e.target.value)}
+                  className="flex-1"
+                />
+                <Button onClick={handleSave} disabled={saving}>
+                  {saving ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Saving...
+                    </>
+                  ) : (
+                    <>
+                      <Save className="mr-2 h-4 w-4" />
+                      Save
+                    </>
+                  )}
+                </Button>
+              </div>
+            </div>
+
+            {lastUpdated && (
+              <div className="text-sm text-gray-500 pt-2 border-t">
+                Last updated: {new Date(lastUpdated).toLocaleString()}
+                {updatedBy && <> by {updatedBy}</>}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
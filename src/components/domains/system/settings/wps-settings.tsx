@@ -0,0 +1,260 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Save } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface WpsSettingsState {
+  employerEid: string;
+  payerEid: string;
+  payerQid: string;
+  payerBankShortName: string;
+  payerIban: string;
+  salaryFrequency: 'M' | 'B';
+  includeFieldNames: boolean;
+  deductionReasonCodes: Record<string, string>;
+}
+
+const DEDUCTION_LABELS: Record<string, string> = {
+  UNPAID_LEAVE: 'Unpaid Leave',
+  LOAN_REPAYMENT: 'Loan Repayment',
+  ADVANCE_DEDUCTION: 'Salary Advance',
+  OTHER: 'Other',
+};
+
+const EMPTY_SETTINGS: WpsSettingsState = {
+  employerEid: '',
+  payerEid: '',
+  payerQid: '',
+  payerBankShortName: '',
+  payerIban: '',
+  salaryFrequency: 'M',
+  includeFieldNames: true,
+  deductionReasonCodes: {},
+};
+
+export function WpsSettings() {
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [settings, setSettings] = useState<WpsSettingsState>(EMPTY_SETTINGS);
+  const [bankCodes, setBankCodes] = useState<string[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/settings/wps');
+      if (response.ok) {
+        const data = await response.json();
+        setBankCodes(data.bankCodes);
+        setErrors(data.errors);
+        setSettings({
+          employerEid: data.settings.employerEid || '',
+          payerEid: data.settings.payerEid || '',
+          payerQid: data.settings.payerQid || '',
+          payerBankShortName: data.settings.payerBankShortName || '',
+          payerIban: data.settings.payerIban || '',
+          salaryFrequency: data.settings.salaryFrequency || 'M',
+          includeFieldNames: data.settings.variant?.includeFieldNames ?? true,
+          deductionReasonCodes: {
+            ...data.defaultDeductionReasonCodes,
+            ...data.settings.variant?.deductionReasonCodes,
+          },
+        });
+      }
+    } catch (error) {
+      console.error('Failed to load WPS settings:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/settings/wps', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          employerEid: settings.employerEid,
+          payerEid: settings.payerEid,
+          payerQid: settings.payerQid || null,
+          payerBankShortName: settings.payerBankShortName,
+          payerIban: settings.payerIban,
+          salaryFrequency: settings.salaryFrequency,
+          variant: {
+            includeFieldNames: settings.includeFieldNames,
+            deductionReasonCodes: settings.deductionReasonCodes,
+          },
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to save settings');
+      }
+
+      setErrors([]);
+      toast.success('WPS settings saved successfully');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save WPS settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="py-8 flex items-center justify-center">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>WPS (Wage Protection System)</CardTitle>
+        <CardDescription>
+          Employer and payer details used in the Salary Information File (SIF) submitted to the bank.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {errors.length > 0 && (
+          <div className="bg-amber-50 border border-amber-200 text-amber-800 p-3 rounded-md text-sm">
+            <ul className="list-disc list-inside">
+              {errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          </div>
+        )}
+
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="wps-employer-eid">Employer EID *</Label>
+            <Input
+              id="wps-employer-eid"
+              placeholder="Establishment ID"
+              value={settings.employerEid}
+              onChange={(e) => setSettings({ ...settings, employerEid: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="wps-payer-eid">Payer EID *</Label>
+            <Input
+              id="wps-payer-eid"
+              placeholder="Usually the same as the employer"
+              value={settings.payerEid}
+              onChange={(e) => setSettings({ ...settings, payerEid: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="wps-payer-qid">Payer QID</Label>
+            <Input
+              id="wps-payer-qid"
+              placeholder="Only for individual payers"
+              value={settings.payerQid}
+              onChange={(e) => setSettings({ ...settings, payerQid: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Payer Bank *</Label>
+            <Select
+              value={settings.payerBankShortName}
+              onValueChange={(value) => setSettings({ ...settings, payerBankShortName: value })}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select bank" />
+              </SelectTrigger>
+              <SelectContent>
+                {bankCodes.map(code => (
+                  <SelectItem key={code} value={code}>{code}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="wps-payer-iban">Payer IBAN *</Label>
+            <Input
+              id="wps-payer-iban"
+              placeholder="QA00XXXX000000000000000000000"
+              value={settings.payerIban}
+              onChange={(e) => setSettings({ ...settings, payerIban: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Salary Frequency</Label>
+            <Select
+              value={settings.salaryFrequency}
+              onValueChange={(value) => setSettings({ ...settings, salaryFrequency: value as 'M' | 'B' })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="M">Monthly</SelectItem>
+                <SelectItem value="B">Bi-weekly</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center gap-2 md:col-span-2 pt-6">
+            <Switch
+              id="wps-field-names"
+              checked={settings.includeFieldNames}
+              onCheckedChange={(checked) => setSettings({ ...settings, includeFieldNames: checked })}
+            />
+            <Label htmlFor="wps-field-names">Include field-name rows (required by most banks)</Label>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Deduction Reason Codes</Label>
+          <div className="grid gap-4 md:grid-cols-4">
+            {Object.entries(DEDUCTION_LABELS).map(([type, label]) => (
+              <div key={type} className="space-y-1">
+                <Label htmlFor={`wps-reason-${type}`} className="text-xs text-gray-500">{label}</Label>
+                <Input
+                  id={`wps-reason-${type}`}
+                  value={settings.deductionReasonCodes[type] || ''}
+                  onChange={(e) => setSettings({
+                    ...settings,
+                    deductionReasonCodes: { ...settings.deductionReasonCodes, [type]: e.target.value },
+                  })}
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">
+            Confirm these codes with your bank. Each record uses the code of its largest deduction.
+          </p>
+        </div>
+
+        <Button onClick={handleSave} disabled={isSaving}>
+          {isSaving ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Save className="mr-2 h-4 w-4" />
+          )}
+          Save Settings
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
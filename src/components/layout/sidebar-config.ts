@@ -10,6 +10,7 @@ import {
   List,
   Calculator,
   CalendarDays,
+  CalendarOff,
   DollarSign,
   FileText,
   CreditCard,
@@ -28,6 +29,19 @@ import {
   ArrowRightLeft,
   FileCheck,
   Bell,
+  Network,
+  Building2,
+  UsersRound,
+  Clock,
+  UserMinus,
+  Landmark,
+  Banknote,
+  LayoutGrid,
+  Wrench,
+  ScanLine,
+  ClipboardCheck,
+  Archive,
+  PiggyBank,
   type LucideIcon,
 } from 'lucide-react';
 
@@ -69,17 +83,25 @@ export const adminSidebarConfig: SidebarConfig = {
       defaultOpen: false,
       items: [
         { label: 'Employees', href: '/admin/employees', icon: User },
+        { label: 'Org Chart', href: '/admin/employees/org-chart', icon: Network },
+        { label: 'Departments', href: '/admin/employees/departments', icon: Building2 },
         { label: 'Document Expiry', href: '/admin/employees/document-expiry', icon: AlertTriangle },
         { label: 'Change Requests', href: '/admin/employees/change-requests', icon: FileText, badgeKey: 'pendingChangeRequests' },
         { label: 'Leave Requests', href: '/admin/leave/requests', icon: Calendar, badgeKey: 'pendingLeaveRequests' },
         { label: 'Leave Types', href: '/admin/leave/types', icon: List },
         { label: 'Leave Balances', href: '/admin/leave/balances', icon: Calculator },
+        { label: 'Leave Encashment', href: '/admin/leave/encashments', icon: Banknote },
         { label: 'Team Calendar', href: '/admin/leave/calendar', icon: CalendarDays },
+        { label: 'Team Coverage', href: '/admin/leave/team-coverage', icon: LayoutGrid },
+        { label: 'Public Holidays', href: '/admin/leave/calendar/holidays', icon: CalendarOff },
         { label: 'Payroll Runs', href: '/admin/payroll/runs', icon: DollarSign },
         { label: 'Salary Structures', href: '/admin/payroll/salary-structures', icon: FileText },
+        { label: 'Overtime & Earnings', href: '/admin/payroll/earnings', icon: Clock },
         { label: 'Loans & Advances', href: '/admin/payroll/loans', icon: CreditCard },
         { label: 'Payslips', href: '/admin/payroll/payslips', icon: Receipt },
         { label: 'Gratuity', href: '/admin/payroll/gratuity', icon: Gift },
+        { label: 'Liability Report', href: '/admin/payroll/liability', icon: Landmark },
+        { label: 'Final Settlements', href: '/admin/payroll/final-settlements', icon: UserMinus },
       ],
     },
     {
@@ -91,6 +113,10 @@ export const adminSidebarConfig: SidebarConfig = {
       items: [
         { label: 'Assets', href: '/admin/assets', icon: Box },
         { label: 'Asset Requests', href: '/admin/asset-requests', icon: ArrowRightLeft, badgeKey: 'pendingAssetRequests' },
+        { label: 'Maintenance', href: '/admin/assets/maintenance', icon: Wrench },
+        { label: 'Asset Audits', href: '/admin/assets/audits', icon: ClipboardCheck },
+        { label: 'Disposals', href: '/admin/assets/disposals', icon: Archive, badgeKey: 'pendingAssetDisposals' },
+        { label: 'Scan Asset', href: '/scan', icon: ScanLine },
         { label: 'Subscriptions', href: '/admin/subscriptions', icon: CreditCard },
         { label: 'Suppliers', href: '/admin/suppliers', icon: Truck, badgeKey: 'pendingSuppliers' },
       ],
@@ -104,6 +130,9 @@ export const adminSidebarConfig: SidebarConfig = {
       items: [
         { label: 'Projects', href: '/admin/projects', icon: Briefcase },
         { label: 'Purchase Requests', href: '/admin/purchase-requests', icon: ShoppingCart, badgeKey: 'pendingPurchaseRequests' },
+        { label: 'Purchase Orders', href: '/admin/purchase-orders', icon: FileText },
+        { label: 'Supplier Invoices', href: '/admin/supplier-invoices', icon: Receipt },
+        { label: 'Budgets', href: '/admin/budgets', icon: PiggyBank },
       ],
     },
     {
@@ -141,7 +170,11 @@ export const employeeSidebarConfig: SidebarConfig = {
       items: [
         { label: 'My Leave', href: '/employee/leave', icon: Palmtree },
         { label: 'New Request', href: '/employee/leave/new', icon: Plus },
+        { label: 'Leave Approvals', href: '/employee/leave/approvals', icon: CheckSquare },
+        { label: 'Leave Encashment', href: '/employee/leave/encashments', icon: Banknote },
+        { label: 'My Team', href: '/employee/team', icon: UsersRound },
         { label: 'My Payslips', href: '/employee/payroll/payslips', icon: Receipt },
+        { label: 'Overtime & Earnings', href: '/employee/payroll/earnings', icon: Clock },
         { label: 'Gratuity', href: '/employee/payroll/gratuity', icon: Gift },
       ],
     },
@@ -155,6 +188,8 @@ export const employeeSidebarConfig: SidebarConfig = {
         { label: 'My Holdings', href: '/employee/my-assets', icon: User },
         { label: 'Asset Requests', href: '/employee/asset-requests', icon: ArrowRightLeft, badgeKey: 'myPendingAssignments' },
         { label: 'All Assets', href: '/employee/assets', icon: Box },
+        { label: 'Asset Audits', href: '/employee/asset-audits', icon: ClipboardCheck },
+        { label: 'Scan Asset', href: '/scan', icon: ScanLine },
         { label: 'Subscriptions', href: '/employee/subscriptions', icon: CreditCard },
         { label: 'Suppliers', href: '/employee/suppliers', icon: Truck },
       ],
@@ -168,6 +203,7 @@ export const employeeSidebarConfig: SidebarConfig = {
       items: [
         { label: 'Purchase Requests', href: '/employee/purchase-requests', icon: ShoppingCart },
         { label: 'New Request', href: '/employee/purchase-requests/new', icon: Plus },
+        { label: 'Purchase Approvals', href: '/employee/purchase-requests/approvals', icon: CheckSquare },
       ],
     },
   ],
@@ -180,6 +216,7 @@ export const badgeKeys = [
   'pendingSuppliers',
   'pendingPurchaseRequests',
   'pendingAssetRequests',
+  'pendingAssetDisposals',
   'myPendingAssignments',
 ] as const;
 
@@ -24,6 +24,8 @@ interface FormData {
   minNoticeDays: number;
   allowCarryForward: boolean;
   maxCarryForwardDays?: number | null;
+  carryForwardExpiryMonths?: number | null;
+  allowEncashment: boolean;
 }
 
 interface LeaveTypeFormProps {
@@ -52,6 +54,8 @@ export function LeaveTypeForm({ onSuccess, initialData, isEdit, leaveTypeId }: L
       minNoticeDays: initialData?.minNoticeDays ?? 0,
       allowCarryForward: initialData?.allowCarryForward ?? false,
       maxCarryForwardDays: initialData?.maxCarryForwardDays ?? null,
+      carryForwardExpiryMonths: initialData?.carryForwardExpiryMonths ?? null,
+      allowEncashment: initialData?.allowEncashment ?? false,
     },
   });
 
@@ -207,6 +211,18 @@ export function LeaveTypeForm({ onSuccess, initialData, isEdit, leaveTypeId }: L
         </div>
       </div>
 
+      <div className="flex items-center justify-between p-3 bg-gray-50 rounded-md">
+        <div>
+          <Label htmlFor="allowEncashment" className="cursor-pointer">Allow Encashment</Label>
+          <p className="text-xs text-gray-500">Employees can request payout of unused days</p>
+        </div>
+        <Switch
+          id="allowEncashment"
+          checked={form.watch('allowEncashment')}
+          onCheckedChange={(checked: boolean) => form.setValue('allowEncashment', checked)}
+        />
+      </div>
+
       <div className="space-y-4 p-4 bg-gray-50 rounded-md">
         <div className="flex items-center justify-between">
           <Label htmlFor="allowCarryForward" className="cursor-pointer">Allow Carry Forward</Label>
@@ -233,6 +249,28 @@ export function LeaveTypeForm({ onSuccess, initialData, isEdit, leaveTypeId }: L
             )}
           </div>
         )}
+
+        {watchAllowCarryForward && (
+          <div className="space-y-2">
+            <Label htmlFor="carryForwardExpiryMonths">Carried Days Expire After (months)</Label>
+            <Input
+              id="carryForwardExpiryMonths"
+              type="number"
+              min="1"
+              max="12"
+              placeholder="Never"
+              {...form.register('carryForwardExpiryMonths', {
+                setValueAs: (v: string) => (v === '' || v === null ? null : parseInt(v, 10)),
+              })}
+            />
+            <p className="text-xs text-gray-500">
+              Carried days not used by the end of this month of the new year lapse (3 = 31 March). Leave blank to keep them all year.
+            </p>
+            {form.formState.errors.carryForwardExpiryMonths && (
+              <p className="text-sm text-red-500">{form.formState.errors.carryForwardExpiryMonths.message}</p>
+            )}
+          </div>
+        )}
       </div>
 
       <Button type="submit" className="w-full" disabled={isSubmitting}>
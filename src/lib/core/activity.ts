@@ -47,6 +47,37 @@ export const ActivityActions = {
   ASSET_RETURN_APPROVED: 'ASSET_RETURN_APPROVED',
   ASSET_RETURN_REJECTED: 'ASSET_RETURN_REJECTED',
 
+  // Preventive maintenance actions
+  MAINTENANCE_PLAN_CREATED: 'MAINTENANCE_PLAN_CREATED',
+  MAINTENANCE_PLAN_UPDATED: 'MAINTENANCE_PLAN_UPDATED',
+  MAINTENANCE_PLAN_DELETED: 'MAINTENANCE_PLAN_DELETED',
+  MAINTENANCE_TASK_STARTED: 'MAINTENANCE_TASK_STARTED',
+  MAINTENANCE_TASK_COMPLETED: 'MAINTENANCE_TASK_COMPLETED',
+  MAINTENANCE_TASK_SKIPPED: 'MAINTENANCE_TASK_SKIPPED',
+
+  // Depreciation actions
+  DEPRECIATION_POLICY_UPDATED: 'DEPRECIATION_POLICY_UPDATED',
+  DEPRECIATION_POLICY_DELETED: 'DEPRECIATION_POLICY_DELETED',
+  FIXED_ASSET_REGISTER_EXPORTED: 'FIXED_ASSET_REGISTER_EXPORTED',
+
+  // Asset label and scan actions
+  ASSET_LABELS_PRINTED: 'ASSET_LABELS_PRINTED',
+  ASSET_CHECKED_IN: 'ASSET_CHECKED_IN',
+  ASSET_CUSTODY_CONFIRMED: 'ASSET_CUSTODY_CONFIRMED',
+
+  // Asset audit actions
+  ASSET_AUDIT_STARTED: 'ASSET_AUDIT_STARTED',
+  ASSET_AUDIT_ITEM_VERIFIED: 'ASSET_AUDIT_ITEM_VERIFIED',
+  ASSET_AUDIT_CLOSED: 'ASSET_AUDIT_CLOSED',
+  ASSET_AUDIT_CORRECTIONS_APPLIED: 'ASSET_AUDIT_CORRECTIONS_APPLIED',
+  ASSET_AUDIT_REPORT_EXPORTED: 'ASSET_AUDIT_REPORT_EXPORTED',
+
+  // Asset disposal actions
+  ASSET_DISPOSAL_REQUESTED: 'ASSET_DISPOSAL_REQUESTED',
+  ASSET_DISPOSAL_APPROVED: 'ASSET_DISPOSAL_APPROVED',
+  ASSET_DISPOSAL_REJECTED: 'ASSET_DISPOSAL_REJECTED',
+  ASSET_DISPOSAL_CANCELLED: 'ASSET_DISPOSAL_CANCELLED',
+
   SUBSCRIPTION_CREATED: 'SUBSCRIPTION_CREATED',
   SUBSCRIPTION_UPDATED: 'SUBSCRIPTION_UPDATED',
   SUBSCRIPTION_DELETED: 'SUBSCRIPTION_DELETED',
@@ -82,10 +113,16 @@ export const ActivityActions = {
 
   ALERT_SUBSCRIPTION_RENEWAL: 'ALERT_SUBSCRIPTION_RENEWAL',
   ALERT_WARRANTY_EXPIRY: 'ALERT_WARRANTY_EXPIRY',
+  ALERT_MAINTENANCE_DUE: 'ALERT_MAINTENANCE_DUE',
   
   USER_CREATED: 'USER_CREATED',
   USER_UPDATED: 'USER_UPDATED',
   USER_DELETED: 'USER_DELETED',
+  USER_REPORTING_LINE_UPDATED: 'USER_REPORTING_LINE_UPDATED',
+
+  DEPARTMENT_CREATED: 'DEPARTMENT_CREATED',
+  DEPARTMENT_UPDATED: 'DEPARTMENT_UPDATED',
+  DEPARTMENT_DELETED: 'DEPARTMENT_DELETED',
 
   SUPPLIER_CREATED: 'SUPPLIER_CREATED',
   SUPPLIER_UPDATED: 'SUPPLIER_UPDATED',
@@ -140,6 +177,27 @@ export const ActivityActions = {
   PURCHASE_REQUEST_APPROVED: 'PURCHASE_REQUEST_APPROVED',
   PURCHASE_REQUEST_REJECTED: 'PURCHASE_REQUEST_REJECTED',
   PURCHASE_REQUEST_COMPLETED: 'PURCHASE_REQUEST_COMPLETED',
+  PURCHASE_REQUEST_STEP_APPROVED: 'PURCHASE_REQUEST_STEP_APPROVED',
+  PURCHASE_APPROVAL_MATRIX_UPDATED: 'PURCHASE_APPROVAL_MATRIX_UPDATED',
+  PURCHASE_APPROVAL_REMINDERS_SENT: 'PURCHASE_APPROVAL_REMINDERS_SENT',
+
+  // Purchase Order actions
+  PURCHASE_ORDER_ISSUED: 'PURCHASE_ORDER_ISSUED',
+  PURCHASE_ORDER_CLOSED: 'PURCHASE_ORDER_CLOSED',
+  PURCHASE_ORDER_CANCELLED: 'PURCHASE_ORDER_CANCELLED',
+  GOODS_RECEIVED: 'GOODS_RECEIVED',
+
+  // Supplier Invoice actions
+  SUPPLIER_INVOICE_CAPTURED: 'SUPPLIER_INVOICE_CAPTURED',
+  SUPPLIER_INVOICE_APPROVED: 'SUPPLIER_INVOICE_APPROVED',
+  SUPPLIER_INVOICE_PAID: 'SUPPLIER_INVOICE_PAID',
+  SUPPLIER_INVOICE_CANCELLED: 'SUPPLIER_INVOICE_CANCELLED',
+  INVOICE_MATCH_TOLERANCE_UPDATED: 'INVOICE_MATCH_TOLERANCE_UPDATED',
+
+  // Budget actions
+  OPERATING_BUDGET_CREATED: 'OPERATING_BUDGET_CREATED',
+  OPERATING_BUDGET_UPDATED: 'OPERATING_BUDGET_UPDATED',
+  OPERATING_BUDGET_DELETED: 'OPERATING_BUDGET_DELETED',
 
   // Leave Management actions
   LEAVE_TYPE_CREATED: 'LEAVE_TYPE_CREATED',
@@ -152,9 +210,32 @@ export const ActivityActions = {
   LEAVE_REQUEST_APPROVED: 'LEAVE_REQUEST_APPROVED',
   LEAVE_REQUEST_REJECTED: 'LEAVE_REQUEST_REJECTED',
   LEAVE_REQUEST_CANCELLED: 'LEAVE_REQUEST_CANCELLED',
+  LEAVE_REQUEST_STEP_APPROVED: 'LEAVE_REQUEST_STEP_APPROVED',
+  LEAVE_APPROVAL_CHAIN_UPDATED: 'LEAVE_APPROVAL_CHAIN_UPDATED',
+  APPROVAL_DELEGATION_CREATED: 'APPROVAL_DELEGATION_CREATED',
+  APPROVAL_DELEGATION_REMOVED: 'APPROVAL_DELEGATION_REMOVED',
 
   LEAVE_BALANCE_CREATED: 'LEAVE_BALANCE_CREATED',
   LEAVE_BALANCE_ADJUSTED: 'LEAVE_BALANCE_ADJUSTED',
+  LEAVE_ROLLOVER_COMPLETED: 'LEAVE_ROLLOVER_COMPLETED',
+  LEAVE_CARRY_FORWARD_EXPIRED: 'LEAVE_CARRY_FORWARD_EXPIRED',
+  LEAVE_ENCASHMENT_REQUESTED: 'LEAVE_ENCASHMENT_REQUESTED',
+  LEAVE_ENCASHMENT_APPROVED: 'LEAVE_ENCASHMENT_APPROVED',
+  LEAVE_ENCASHMENT_REJECTED: 'LEAVE_ENCASHMENT_REJECTED',
+  LEAVE_ENCASHMENT_CANCELLED: 'LEAVE_ENCASHMENT_CANCELLED',
+
+  PUBLIC_HOLIDAY_CREATED: 'PUBLIC_HOLIDAY_CREATED',
+  PUBLIC_HOLIDAY_UPDATED: 'PUBLIC_HOLIDAY_UPDATED',
+  PUBLIC_HOLIDAY_DELETED: 'PUBLIC_HOLIDAY_DELETED',
+  PUBLIC_HOLIDAYS_IMPORTED: 'PUBLIC_HOLIDAYS_IMPORTED',
+  LEAVE_DAYS_RECALCULATED: 'LEAVE_DAYS_RECALCULATED',
+
+  LEAVE_BLACKOUT_PERIOD_CREATED: 'LEAVE_BLACKOUT_PERIOD_CREATED',
+  LEAVE_BLACKOUT_PERIOD_UPDATED: 'LEAVE_BLACKOUT_PERIOD_UPDATED',
+  LEAVE_BLACKOUT_PERIOD_DELETED: 'LEAVE_BLACKOUT_PERIOD_DELETED',
+  LEAVE_COVERAGE_RULE_CREATED: 'LEAVE_COVERAGE_RULE_CREATED',
+  LEAVE_COVERAGE_RULE_UPDATED: 'LEAVE_COVERAGE_RULE_UPDATED',
+  LEAVE_COVERAGE_RULE_DELETED: 'LEAVE_COVERAGE_RULE_DELETED',
 
   // Payroll Management actions
   SALARY_STRUCTURE_CREATED: 'SALARY_STRUCTURE_CREATED',
@@ -168,6 +249,25 @@ export const ActivityActions = {
   PAYROLL_RUN_PROCESSED: 'PAYROLL_RUN_PROCESSED',
   PAYROLL_RUN_PAID: 'PAYROLL_RUN_PAID',
   PAYROLL_RUN_CANCELLED: 'PAYROLL_RUN_CANCELLED',
+  PAYROLL_RUN_RECALCULATED: 'PAYROLL_RUN_RECALCULATED',
+  PAYROLL_PAYSLIPS_EMAILED: 'PAYROLL_PAYSLIPS_EMAILED',
+  PAYSLIP_ADJUSTMENT_ADDED: 'PAYSLIP_ADJUSTMENT_ADDED',
+  PAYSLIP_ADJUSTMENT_REMOVED: 'PAYSLIP_ADJUSTMENT_REMOVED',
+  EARNING_ENTRY_SUBMITTED: 'EARNING_ENTRY_SUBMITTED',
+  EARNING_ENTRY_APPROVED: 'EARNING_ENTRY_APPROVED',
+  EARNING_ENTRY_REJECTED: 'EARNING_ENTRY_REJECTED',
+  EARNING_ENTRY_DELETED: 'EARNING_ENTRY_DELETED',
+  FINAL_SETTLEMENT_CREATED: 'FINAL_SETTLEMENT_CREATED',
+  FINAL_SETTLEMENT_UPDATED: 'FINAL_SETTLEMENT_UPDATED',
+  FINAL_SETTLEMENT_SUBMITTED: 'FINAL_SETTLEMENT_SUBMITTED',
+  FINAL_SETTLEMENT_APPROVED: 'FINAL_SETTLEMENT_APPROVED',
+  FINAL_SETTLEMENT_REJECTED: 'FINAL_SETTLEMENT_REJECTED',
+  FINAL_SETTLEMENT_PAID: 'FINAL_SETTLEMENT_PAID',
+  FINAL_SETTLEMENT_CANCELLED: 'FINAL_SETTLEMENT_CANCELLED',
+  GRATUITY_POLICY_CREATED: 'GRATUITY_POLICY_CREATED',
+  GRATUITY_POLICY_UPDATED: 'GRATUITY_POLICY_UPDATED',
+  GRATUITY_POLICY_DELETED: 'GRATUITY_POLICY_DELETED',
+  GRATUITY_POLICY_ASSIGNED: 'GRATUITY_POLICY_ASSIGNED',
   PAYROLL_WPS_GENERATED: 'PAYROLL_WPS_GENERATED',
 
   PAYSLIP_CREATED: 'PAYSLIP_CREATED',
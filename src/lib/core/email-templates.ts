@@ -1531,3 +1531,77 @@ Be Creative Portal
 
   return { subject, html, text };
 }
+
+// ============================================================================
+// PAYSLIP EMAIL
+// ============================================================================
+
+interface PayslipEmailData {
+  employeeName: string;
+  companyName: string;
+  payPeriod: string;
+  payslipNumber: string;
+  passwordProtected: boolean;
+}
+
+export function payslipEmail(data: PayslipEmailData): { subject: string; html: string; text: string } {
+  const subject = `Your Payslip for ${data.payPeriod} - ${data.companyName}`;
+
+  const passwordNote = data.passwordProtected
+    ? 'The attached PDF is password protected. Open it with the digits of your QID number.'
+    : '';
+
+  const html = emailWrapper(`
+    <h2 style="color: #333333; margin: 0 0 20px 0; font-size: 20px;">Your Payslip is Ready</h2>
+
+    <p style="color: #555555; font-size: 16px; line-height: 1.6; margin: 0 0 20px 0;">
+      Dear ${data.employeeName},
+    </p>
+
+    <p style="color: #555555; font-size: 16px; line-height: 1.6; margin: 0 0 20px 0;">
+      Your payslip for <strong>${data.payPeriod}</strong> (${data.payslipNumber}) is attached to this email.
+    </p>
+
+    ${passwordNote ? `
+    <table role="presentation" width="100%" cellspacing="0" cellpadding="0" style="background-color: #f8f9fa; border-radius: 8px; border-left: 4px solid ${BRAND_COLOR}; margin: 20px 0;">
+      <tr>
+        <td style="padding: 15px 20px; color: #555555; font-size: 14px;">
+          ${passwordNote}
+        </td>
+      </tr>
+    </table>
+    ` : ''}
+
+    <table role="presentation" width="100%" cellspacing="0" cellpadding="0" style="margin: 25px 0;">
+      <tr>
+        <td align="center">
+          <a href="${PORTAL_URL}/employee/payroll/payslips"
+             style="display: inline-block; padding: 14px 30px; background-color: ${BRAND_COLOR}; color: #ffffff; text-decoration: none; border-radius: 6px; font-size: 16px; font-weight: bold;">
+            View My Payslips
+          </a>
+        </td>
+      </tr>
+    </table>
+
+    <p style="color: #888888; font-size: 12px; margin-top: 20px;">
+      If you have any questions about your pay, please contact HR.
+    </p>
+  `);
+
+  const text = `
+Your Payslip is Ready
+
+Dear ${data.employeeName},
+
+Your payslip for ${data.payPeriod} (${data.payslipNumber}) is attached to this email.
+${passwordNote ? `\n${passwordNote}\n` : ''}
+View your payslips at: ${PORTAL_URL}/employee/payroll/payslips
+
+If you have any questions about your pay, please contact HR.
+
+Best regards,
+${data.companyName}
+`.trim();
+
+  return { subject, html, text };
+}
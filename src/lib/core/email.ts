@@ -16,15 +16,21 @@ function getResend(): Resend | null {
 // Default from address - must use a verified domain in Resend
 const DEFAULT_FROM = process.env.RESEND_FROM_EMAIL || 'Be Creative Portal <noreply@becreative.qa>';
 
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+}
+
 export interface EmailOptions {
   to: string | string[];
   subject: string;
   text?: string;
   html?: string;
   from?: string;
+  attachments?: EmailAttachment[];
 }
 
-export async function sendEmail({ to, subject, text, html, from }: EmailOptions) {
+export async function sendEmail({ to, subject, text, html, from, attachments }: EmailOptions) {
   // Skip sending if no API key configured (development mode)
   if (!process.env.RESEND_API_KEY) {
     console.log('[Email] Skipping email (no RESEND_API_KEY configured)');
@@ -46,6 +52,7 @@ export async function sendEmail({ to, subject, text, html, from }: EmailOptions)
       subject: string;
       text?: string;
       html?: string;
+      attachments?: EmailAttachment[];
     } = {
       from: fromAddress,
       to: toAddresses,
@@ -54,6 +61,7 @@ export async function sendEmail({ to, subject, text, html, from }: EmailOptions)
 
     if (text) emailPayload.text = text;
     if (html) emailPayload.html = html;
+    if (attachments?.length) emailPayload.attachments = attachments;
 
     // Fallback to text if neither provided
     if (!text && !html) {
@@ -0,0 +1,125 @@
+/**
+ * Org Chart Utilities
+ *
+ * Pure helpers for reporting lines (no database access):
+ * - Building the manager -> direct reports tree
+ * - Walking up a reporting chain
+ * - Detecting reporting-line cycles before a manager is assigned
+ */
+
+export interface ReportingLineEntry {
+  userId: string;
+  managerId: string | null;
+}
+
+export type OrgChartNode<T extends ReportingLineEntry> = T & {
+  reports: OrgChartNode<T>[];
+};
+
+/**
+ * Build the org chart forest. Employees without a manager (or whose manager
+ * is not in the list) become roots. Entries caught in a cycle are attached
+ * as roots so nobody disappears from the chart.
+ */
+export function buildOrgTree<T extends ReportingLineEntry>(entries: T[]): OrgChartNode<T>[] {
+  const nodes = new Map<string, OrgChartNode<T>>();
+  for (const entry of entries) {
+    nodes.set(entry.userId, { ...entry, reports: [] });
+  }
+
+  const roots: OrgChartNode<T>[] = [];
+  const attached = new Set<string>();
+
+  for (const node of Array.from(nodes.values())) {
+    const manager = node.managerId ? nodes.get(node.managerId) : undefined;
+    if (manager && manager.userId !== node.userId) {
+      manager.reports.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  const markReachable = (root: OrgChartNode<T>) => {
+    const stack = [root];
+    attached.add(root.userId);
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      for (const report of node.reports) {
+        if (!attached.has(report.userId)) {
+          attached.add(report.userId);
+          stack.push(report);
+        }
+      }
+    }
+  };
+
+  roots.forEach(markReachable);
+
+  // Whatever is still unattached sits in a cycle: break it at the first member
+  for (const node of Array.from(nodes.values())) {
+    if (attached.has(node.userId)) continue;
+    const manager = nodes.get(node.managerId!)!;
+    manager.reports = manager.reports.filter(r => r.userId !== node.userId);
+    roots.push(node);
+    markReachable(node);
+  }
+
+  return roots;
+}
+
+/**
+ * Get a user's managers from the direct manager upwards (stops on cycles)
+ */
+export function getReportingChain(userId: string, entries: ReportingLineEntry[]): string[] {
+  const managerOf = new Map(entries.map(entry => [entry.userId, entry.managerId]));
+  const chain: string[] = [];
+  const visited = new Set<string>([userId]);
+
+  let current = managerOf.get(userId) ?? null;
+  while (current && !visited.has(current)) {
+    chain.push(current);
+    visited.add(current);
+    current = managerOf.get(current) ?? null;
+  }
+
+  return chain;
+}
+
+/**
+ * Get everyone reporting to a manager, directly or indirectly
+ */
+export function getAllReports(managerId: string, entries: ReportingLineEntry[]): string[] {
+  const reportsOf = new Map<string, string[]>();
+  for (const entry of entries) {
+    if (!entry.managerId) continue;
+    reportsOf.set(entry.managerId, [...(reportsOf.get(entry.managerId) ?? []), entry.userId]);
+  }
+
+  const result: string[] = [];
+  const visited = new Set<string>([managerId]);
+  const queue = [...(reportsOf.get(managerId) ?? [])];
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (visited.has(id)) continue;
+    visited.add(id);
+    result.push(id);
+    queue.push(...(reportsOf.get(id) ?? []));
+  }
+
+  return result;
+}
+
+/**
+ * Check whether assigning `managerId` as the manager of `userId` would create
+ * a loop (the user managing themselves, directly or through their reports)
+ */
+export function wouldCreateCycle(
+  userId: string,
+  managerId: string | null,
+  entries: ReportingLineEntry[]
+): boolean {
+  if (!managerId) return false;
+  if (managerId === userId) return true;
+  return getReportingChain(managerId, entries).includes(userId);
+}
@@ -0,0 +1,45 @@
+import { prisma } from '@/lib/prisma';
+import { getAllReports, ReportingLineEntry } from './org-chart';
+
+/**
+ * Load every reporting line (one row per HR profile with a manager)
+ */
+export async function getReportingLines(): Promise<ReportingLineEntry[]> {
+  const profiles = await prisma.hRProfile.findMany({
+    where: { managerId: { not: null } },
+    select: { userId: true, managerId: true },
+  });
+  return profiles;
+}
+
+/**
+ * Get the user IDs a manager is responsible for.
+ * Direct reports only by default; `includeIndirect` walks the whole subtree.
+ */
+export async function getTeamMemberIds(managerId: string, includeIndirect = false): Promise<string[]> {
+  if (!includeIndirect) {
+    const reports = await prisma.hRProfile.findMany({
+      where: { managerId },
+      select: { userId: true },
+    });
+    return reports.map(report => report.userId);
+  }
+
+  return getAllReports(managerId, await getReportingLines());
+}
+
+/**
+ * Check if a user is in a manager's (direct or indirect) team
+ */
+export async function isManagerOf(managerId: string, userId: string): Promise<boolean> {
+  const teamIds = await getTeamMemberIds(managerId, true);
+  return teamIds.includes(userId);
+}
+
+/**
+ * Check if a user manages anyone (used to show team views)
+ */
+export async function hasDirectReports(userId: string): Promise<boolean> {
+  const count = await prisma.hRProfile.count({ where: { managerId: userId } });
+  return count > 0;
+}
@@ -0,0 +1,182 @@
+/**
+ * Leave Approval Chain Utilities
+ *
+ * Pure helpers for multi-level leave approvals (no database access):
+ * - Selecting which configured steps apply to a request (minDays thresholds)
+ * - Resolving out-of-office delegation to a deputy
+ * - Checking whether a user may act on the current step
+ *
+ * LINE_MANAGER steps are resolved to the requester's manager when the chain is
+ * snapshotted onto a request, so request steps are always ADMIN or USER.
+ */
+
+export const LEAVE_APPROVER_TYPES = ['ADMIN', 'USER', 'LINE_MANAGER'] as const;
+export type LeaveApproverType = (typeof LEAVE_APPROVER_TYPES)[number];
+
+export type ApprovalStepStatus = 'PENDING' | 'APPROVED' | 'REJECTED' | 'SKIPPED';
+
+export interface ApprovalStepConfig {
+  stepOrder: number;
+  name: string;
+  approverType: string;
+  approverId: string | null;
+  minDays?: number | string | { toString(): string } | null;
+}
+
+export interface RequestApprovalStep {
+  stepOrder: number;
+  name: string;
+  approverType: string;
+  approverId: string | null;
+  status: string;
+}
+
+export interface DelegationWindow {
+  delegatorId: string;
+  delegateId: string;
+  startDate: Date | string;
+  endDate: Date | string;
+  isActive?: boolean;
+}
+
+export interface ApprovalActor {
+  id: string;
+  role: string;
+}
+
+export interface StepActionPermission {
+  allowed: boolean;
+  /** Assigned approver the actor is acting for (when acting as a delegate) */
+  onBehalfOfId: string | null;
+}
+
+/**
+ * Select the configured steps that apply to a request of the given length,
+ * renumbered 1..n in chain order. LINE_MANAGER steps become USER steps for the
+ * requester's manager. Steps without an approver (no manager on file) or
+ * assigned to the requester themselves fall back to any admin so nobody
+ * approves their own leave.
+ */
+export function selectApplicableSteps(
+  steps: ApprovalStepConfig[],
+  totalDays: number,
+  requesterId?: string,
+  requesterManagerId?: string | null
+): ApprovalStepConfig[] {
+  return [...steps]
+    .sort((a, b) => a.stepOrder - b.stepOrder)
+    .filter(step => step.minDays == null || totalDays >= Number(step.minDays))
+    .map((step, index) => {
+      const isLineManager = step.approverType === 'LINE_MANAGER';
+      const approverId = isLineManager ? requesterManagerId ?? null : step.approverId;
+      const isUserStep = step.approverType === 'USER' || isLineManager;
+      const fallBackToAdmin = isUserStep && (!approverId || (!!requesterId && approverId === requesterId));
+      return {
+        stepOrder: index + 1,
+        name: step.name,
+        approverType: fallBackToAdmin ? 'ADMIN' : isUserStep ? 'USER' : step.approverType,
+        approverId: fallBackToAdmin ? null : approverId,
+        minDays: step.minDays ?? null,
+      };
+    });
+}
+
+/**
+ * Check if a delegation covers the given moment (inclusive of the whole end day)
+ */
+export function isDelegationActive(delegation: DelegationWindow, at: Date = new Date()): boolean {
+  if (delegation.isActive === false) return false;
+  const start = new Date(delegation.startDate);
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(delegation.endDate);
+  end.setHours(23, 59, 59, 999);
+  return at >= start && at <= end;
+}
+
+/**
+ * Resolve who currently handles approvals for an approver, following active
+ * delegations. Chains (A -> B -> C) are followed; cycles stop at the last
+ * distinct user.
+ */
+export function resolveDelegate(
+  approverId: string,
+  delegations: DelegationWindow[],
+  at: Date = new Date()
+): string {
+  const visited = new Set<string>([approverId]);
+  let current = approverId;
+
+  for (;;) {
+    const delegation = delegations.find(d => d.delegatorId === current && isDelegationActive(d, at));
+    if (!delegation || visited.has(delegation.delegateId)) {
+      return current;
+    }
+    visited.add(delegation.delegateId);
+    current = delegation.delegateId;
+  }
+}
+
+/**
+ * Get the step awaiting action (first PENDING step in order)
+ */
+export function getCurrentStep<T extends RequestApprovalStep>(steps: T[]): T | null {
+  return [...steps]
+    .sort((a, b) => a.stepOrder - b.stepOrder)
+    .find(step => step.status === 'PENDING') ?? null;
+}
+
+/**
+ * Get the next pending step after `stepOrder` (null when it is the final step)
+ */
+export function getNextStep<T extends RequestApprovalStep>(steps: T[], stepOrder: number): T | null {
+  return [...steps]
+    .sort((a, b) => a.stepOrder - b.stepOrder)
+    .find(step => step.stepOrder > stepOrder && step.status === 'PENDING') ?? null;
+}
+
+/**
+ * Check if an actor may approve/reject a step.
+ * - ADMIN steps: any admin
+ * - USER steps: the assigned approver, or whoever the approver has delegated to
+ * The requester never acts on their own request, as an admin or as a delegate.
+ */
+export function canActOnStep(
+  step: Pick<RequestApprovalStep, 'approverType' | 'approverId'>,
+  actor: ApprovalActor,
+  delegations: DelegationWindow[] = [],
+  at: Date = new Date(),
+  requesterId?: string | null
+): StepActionPermission {
+  if (requesterId && actor.id === requesterId) {
+    return { allowed: false, onBehalfOfId: null };
+  }
+
+  if (step.approverType === 'ADMIN' || !step.approverId) {
+    return { allowed: actor.role === 'ADMIN', onBehalfOfId: null };
+  }
+
+  const handler = resolveDelegate(step.approverId, delegations, at);
+  if (handler === actor.id) {
+    return {
+      allowed: true,
+      onBehalfOfId: handler === step.approverId ? null : step.approverId,
+    };
+  }
+
+  // The assigned approver can still act while delegated
+  if (step.approverId === actor.id) {
+    return { allowed: true, onBehalfOfId: null };
+  }
+
+  return { allowed: false, onBehalfOfId: null };
+}
+
+/**
+ * Human-readable progress label, e.g. "Step 2 of 3: HR"
+ */
+export function getApprovalProgressText(steps: RequestApprovalStep[]): string | null {
+  if (steps.length === 0) return null;
+  const current = getCurrentStep(steps);
+  if (!current) return null;
+  return `Step ${current.stepOrder} of ${steps.length}: ${current.name}`;
+}
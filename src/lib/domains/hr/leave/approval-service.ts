@@ -0,0 +1,241 @@
+import { prisma, PrismaTransactionClient } from '@/lib/prisma';
+import { Role } from '@prisma/client';
+import { createBulkNotifications, NotificationTemplates } from '@/lib/domains/system/notifications';
+import {
+  selectApplicableSteps,
+  resolveDelegate,
+  canActOnStep,
+  getCurrentStep,
+  ApprovalActor,
+  DelegationWindow,
+  RequestApprovalStep,
+  StepActionPermission,
+} from './approval-chain';
+
+/**
+ * Get delegations in effect right now (small table, loaded whole)
+ */
+export async function getActiveDelegations(at: Date = new Date()): Promise<DelegationWindow[]> {
+  const dayStart = new Date(at);
+  dayStart.setHours(0, 0, 0, 0);
+
+  return prisma.approvalDelegation.findMany({
+    where: {
+      isActive: true,
+      startDate: { lte: at },
+      endDate: { gte: dayStart },
+    },
+    select: {
+      delegatorId: true,
+      delegateId: true,
+      startDate: true,
+      endDate: true,
+      isActive: true,
+    },
+  });
+}
+
+/**
+ * Snapshot the leave type's approval chain onto a request, resolving
+ * LINE_MANAGER steps to the requester's manager.
+ * Returns the created steps (empty when the leave type has no chain configured,
+ * in which case any admin approves in a single step as before).
+ */
+export async function createRequestApprovalChain(
+  tx: PrismaTransactionClient,
+  leaveRequestId: string,
+  leaveTypeId: string,
+  totalDays: number,
+  requesterId: string
+): Promise<RequestApprovalStep[]> {
+  const configured = await tx.leaveApprovalStep.findMany({
+    where: { leaveTypeId },
+    orderBy: { stepOrder: 'asc' },
+  });
+
+  const requesterProfile = configured.some(step => step.approverType === 'LINE_MANAGER')
+    ? await tx.hRProfile.findUnique({ where: { userId: requesterId }, select: { managerId: true } })
+    : null;
+
+  const steps = selectApplicableSteps(configured, totalDays, requesterId, requesterProfile?.managerId);
+  if (steps.length === 0) {
+    await tx.leaveRequest.update({
+      where: { id: leaveRequestId },
+      data: { currentApprovalStep: null },
+    });
+    return [];
+  }
+
+  await tx.leaveRequestApproval.createMany({
+    data: steps.map(step => ({
+      leaveRequestId,
+      stepOrder: step.stepOrder,
+      name: step.name,
+      approverType: step.approverType,
+      approverId: step.approverId,
+      status: 'PENDING',
+    })),
+  });
+
+  await tx.leaveRequest.update({
+    where: { id: leaveRequestId },
+    data: { currentApprovalStep: 1 },
+  });
+
+  return steps.map(step => ({
+    stepOrder: step.stepOrder,
+    name: step.name,
+    approverType: step.approverType,
+    approverId: step.approverId,
+    status: 'PENDING',
+  }));
+}
+
+/**
+ * Rebuild a pending request's chain (e.g., after its dates changed and a
+ * minDays threshold may now apply). Any progress on the old chain is reset.
+ */
+export async function resetRequestApprovalChain(
+  tx: PrismaTransactionClient,
+  leaveRequestId: string,
+  leaveTypeId: string,
+  totalDays: number,
+  requesterId: string
+): Promise<RequestApprovalStep[]> {
+  await tx.leaveRequestApproval.deleteMany({ where: { leaveRequestId } });
+  return createRequestApprovalChain(tx, leaveRequestId, leaveTypeId, totalDays, requesterId);
+}
+
+/**
+ * Check whether a user may act on a request's current step.
+ * Requests without a chain keep the original rule: any admin other than the
+ * requester.
+ */
+export async function getApprovalPermission(
+  steps: RequestApprovalStep[],
+  actor: ApprovalActor,
+  requesterId?: string
+): Promise<StepActionPermission & { step: RequestApprovalStep | null }> {
+  if (steps.length === 0) {
+    return { allowed: actor.role === Role.ADMIN && actor.id !== requesterId, onBehalfOfId: null, step: null };
+  }
+
+  const step = getCurrentStep(steps);
+  if (!step) {
+    return { allowed: false, onBehalfOfId: null, step: null };
+  }
+
+  const delegations = step.approverType === 'USER' ? await getActiveDelegations() : [];
+  return { ...canActOnStep(step, actor, delegations, undefined, requesterId), step };
+}
+
+/**
+ * Notify whoever currently handles a step: all admins for ADMIN steps, the
+ * assigned approver (or their active delegate) for USER steps.
+ */
+export async function notifyStepApprovers(
+  step: RequestApprovalStep,
+  request: {
+    id: string;
+    requestNumber: string;
+    requesterName: string;
+    leaveTypeName: string;
+  }
+): Promise<void> {
+  let recipients: Array<{ id: string; role: Role; onBehalfOfName?: string }> = [];
+
+  if (step.approverType === 'ADMIN' || !step.approverId) {
+    const admins = await prisma.user.findMany({
+      where: { role: Role.ADMIN },
+      select: { id: true, role: true },
+    });
+    recipients = admins;
+  } else {
+    const delegations = await getActiveDelegations();
+    const handlerId = resolveDelegate(step.approverId, delegations);
+    const users = await prisma.user.findMany({
+      where: { id: { in: [handlerId, step.approverId] } },
+      select: { id: true, role: true, name: true },
+    });
+    const handler = users.find(u => u.id === handlerId);
+    const approver = users.find(u => u.id === step.approverId);
+    if (handler) {
+      recipients = [{
+        id: handler.id,
+        role: handler.role,
+        onBehalfOfName: handlerId !== step.approverId ? approver?.name || undefined : undefined,
+      }];
+    }
+  }
+
+  if (recipients.length === 0) return;
+
+  await createBulkNotifications(
+    recipients.map(recipient =>
+      NotificationTemplates.leaveApprovalRequired(
+        recipient.id,
+        request.requesterName,
+        request.requestNumber,
+        request.leaveTypeName,
+        step.name,
+        recipient.role === Role.ADMIN
+          ? `/admin/leave/requests/${request.id}`
+          : '/employee/leave/approvals',
+        request.id,
+        recipient.onBehalfOfName
+      )
+    )
+  );
+}
+
+/**
+ * Get pending leave requests whose current step is handled by the user,
+ * either directly or through an active delegation.
+ */
+export async function getPendingApprovalsForUser(actor: ApprovalActor) {
+  const delegations = await getActiveDelegations();
+
+  // Approvers the actor currently handles: themselves plus anyone delegating to them
+  const handledApproverIds = new Set<string>([actor.id]);
+  for (const delegation of delegations) {
+    if (resolveDelegate(delegation.delegatorId, delegations) === actor.id) {
+      handledApproverIds.add(delegation.delegatorId);
+    }
+  }
+
+  const approvals = await prisma.leaveRequestApproval.findMany({
+    where: {
+      status: 'PENDING',
+      leaveRequest: { status: 'PENDING' },
+      OR: [
+        { approverType: 'USER', approverId: { in: Array.from(handledApproverIds) } },
+        ...(actor.role === Role.ADMIN ? [{ approverType: 'ADMIN' }] : []),
+      ],
+    },
+    include: {
+      approver: { select: { id: true, name: true } },
+      leaveRequest: {
+        include: {
+          user: { select: { id: true, name: true, email: true } },
+          leaveType: { select: { id: true, name: true, color: true } },
+          approvals: { orderBy: { stepOrder: 'asc' } },
+        },
+      },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  // Only the current step of each request is actionable
+  return approvals
+    .filter(approval => approval.leaveRequest.currentApprovalStep === approval.stepOrder)
+    .filter(approval => canActOnStep(approval, actor, delegations, undefined, approval.leaveRequest.userId).allowed)
+    .map(approval => ({
+      ...approval.leaveRequest,
+      currentStep: {
+        stepOrder: approval.stepOrder,
+        name: approval.name,
+        approver: approval.approver,
+        onBehalfOf: approval.approverId && approval.approverId !== actor.id ? approval.approver : null,
+      },
+    }));
+}
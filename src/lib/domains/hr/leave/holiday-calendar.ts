@@ -0,0 +1,240 @@
+/**
+ * Working Calendar Utilities
+ *
+ * Pure helpers for weekends and public holidays (no database access) so they can
+ * be shared by API routes, payroll and client components.
+ * - Weekend defaults to Friday/Saturday (Qatar)
+ * - Holidays can be one-off (Eid dates move every year) or recurring on the same
+ *   day/month (e.g., National Day on 18 December)
+ */
+
+export const DEFAULT_WEEKEND_DAYS = [5, 6]; // Friday = 5, Saturday = 6
+
+export interface HolidayRange {
+  name: string;
+  startDate: Date | string;
+  endDate: Date | string;
+  isRecurring?: boolean;
+}
+
+export interface WorkingCalendar {
+  weekendDays: number[];
+  holidays: HolidayRange[];
+}
+
+export interface HolidayOccurrence {
+  name: string;
+  date: string; // YYYY-MM-DD
+}
+
+export interface ParsedICSHoliday {
+  uid: string | null;
+  name: string;
+  description: string | null;
+  startDate: Date;
+  endDate: Date;
+  isRecurring: boolean;
+}
+
+/**
+ * Build a working calendar, falling back to the default Fri/Sat weekend
+ */
+export function createWorkingCalendar(
+  holidays: HolidayRange[] = [],
+  weekendDays: number[] = DEFAULT_WEEKEND_DAYS
+): WorkingCalendar {
+  return { weekendDays, holidays };
+}
+
+/**
+ * Format a date as a local YYYY-MM-DD key (avoids UTC shifts from toISOString)
+ */
+export function toDateKey(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+function startOfDay(date: Date | string): Date {
+  // Parse date-only keys (YYYY-MM-DD) as local dates to avoid timezone shifts
+  if (typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(year, month - 1, day);
+  }
+  const d = new Date(date);
+  d.setHours(0, 0, 0, 0);
+  return d;
+}
+
+/**
+ * Expand holidays into the concrete dates they cover within a range.
+ * Recurring holidays are projected onto every year the range touches.
+ */
+export function getHolidayOccurrences(
+  holidays: HolidayRange[],
+  rangeStart: Date,
+  rangeEnd: Date
+): HolidayOccurrence[] {
+  const start = startOfDay(rangeStart);
+  const end = startOfDay(rangeEnd);
+  const occurrences = new Map<string, HolidayOccurrence>();
+
+  const addDays = (name: string, from: Date, to: Date) => {
+    const current = new Date(Math.max(from.getTime(), start.getTime()));
+    const last = new Date(Math.min(to.getTime(), end.getTime()));
+    while (current <= last) {
+      const key = toDateKey(current);
+      if (!occurrences.has(key)) {
+        occurrences.set(key, { name, date: key });
+      }
+      current.setDate(current.getDate() + 1);
+    }
+  };
+
+  for (const holiday of holidays) {
+    const holidayStart = startOfDay(holiday.startDate);
+    const holidayEnd = startOfDay(holiday.endDate);
+
+    if (!holiday.isRecurring) {
+      addDays(holiday.name, holidayStart, holidayEnd);
+      continue;
+    }
+
+    // Project the recurring holiday onto each year in range (include the year
+    // before the range in case a multi-day holiday spans New Year)
+    const spanYears = holidayEnd.getFullYear() - holidayStart.getFullYear();
+    for (let year = start.getFullYear() - 1; year <= end.getFullYear(); year++) {
+      const from = new Date(year, holidayStart.getMonth(), holidayStart.getDate());
+      const to = new Date(year + spanYears, holidayEnd.getMonth(), holidayEnd.getDate());
+      addDays(holiday.name, from, to);
+    }
+  }
+
+  return Array.from(occurrences.values()).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Check if a date falls on one of the calendar's weekend days
+ */
+export function isCalendarWeekend(date: Date, calendar?: WorkingCalendar): boolean {
+  const weekendDays = calendar?.weekendDays ?? DEFAULT_WEEKEND_DAYS;
+  return weekendDays.includes(date.getDay());
+}
+
+/**
+ * Check if a date is a public holiday in the calendar
+ */
+export function isPublicHoliday(date: Date, calendar?: WorkingCalendar): boolean {
+  if (!calendar || calendar.holidays.length === 0) return false;
+  return getHolidayOccurrences(calendar.holidays, date, date).length > 0;
+}
+
+/**
+ * Get the set of holiday date keys within a range (for fast day-by-day lookups)
+ */
+export function getHolidayDateSet(
+  calendar: WorkingCalendar | undefined,
+  rangeStart: Date,
+  rangeEnd: Date
+): Set<string> {
+  if (!calendar || calendar.holidays.length === 0) return new Set();
+  return new Set(getHolidayOccurrences(calendar.holidays, rangeStart, rangeEnd).map(o => o.date));
+}
+
+// ===== ICS Import =====
+
+/**
+ * Unfold ICS content lines (RFC 5545: continuation lines start with a space or tab)
+ */
+function unfoldICSLines(content: string): string[] {
+  return content
+    .replace(/\r\n/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean);
+}
+
+function unescapeICSText(value: string): string {
+  return value
+    .replace(/\\n/gi, ' ')
+    .replace(/\\,/g, ',')
+    .replace(/\\;/g, ';')
+    .replace(/\\\\/g, '\\')
+    .trim();
+}
+
+/**
+ * Parse an ICS date value (DATE "20250618" or DATE-TIME "20250618T000000Z")
+ */
+function parseICSDate(value: string): Date | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+}
+
+/**
+ * Parse holidays from ICS (iCalendar) content.
+ * - All-day DTEND is exclusive per RFC 5545, so one day is subtracted
+ * - RRULE with FREQ=YEARLY marks the holiday as recurring
+ * Events without a valid DTSTART or SUMMARY are skipped.
+ */
+export function parseICSHolidays(content: string): ParsedICSHoliday[] {
+  const lines = unfoldICSLines(content);
+  const holidays: ParsedICSHoliday[] = [];
+  let current: Record<string, { value: string; params: string }> | null = null;
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      current = {};
+      continue;
+    }
+
+    if (line === 'END:VEVENT') {
+      if (current) {
+        const dtStart = current.DTSTART ? parseICSDate(current.DTSTART.value) : null;
+        const summary = current.SUMMARY ? unescapeICSText(current.SUMMARY.value) : '';
+
+        if (dtStart && summary) {
+          let endDate = new Date(dtStart);
+          const dtEnd = current.DTEND ? parseICSDate(current.DTEND.value) : null;
+          if (dtEnd) {
+            const isAllDay = current.DTEND.params.includes('VALUE=DATE') || /^\d{8}$/.test(current.DTEND.value);
+            endDate = new Date(dtEnd);
+            if (isAllDay) {
+              endDate.setDate(endDate.getDate() - 1);
+            }
+            if (endDate < dtStart) {
+              endDate = new Date(dtStart);
+            }
+          }
+
+          holidays.push({
+            uid: current.UID ? current.UID.value : null,
+            name: summary,
+            description: current.DESCRIPTION ? unescapeICSText(current.DESCRIPTION.value) || null : null,
+            startDate: dtStart,
+            endDate,
+            isRecurring: current.RRULE ? /FREQ=YEARLY/i.test(current.RRULE.value) : false,
+          });
+        }
+      }
+      current = null;
+      continue;
+    }
+
+    if (!current) continue;
+
+    const colonIndex = line.indexOf(':');
+    if (colonIndex === -1) continue;
+
+    const [key, ...params] = line.substring(0, colonIndex).split(';');
+    current[key.toUpperCase()] = {
+      value: line.substring(colonIndex + 1),
+      params: params.join(';').toUpperCase(),
+    };
+  }
+
+  return holidays;
+}
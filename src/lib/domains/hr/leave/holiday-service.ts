@@ -0,0 +1,172 @@
+import { prisma } from '@/lib/prisma';
+import { LeaveRequestType, LeaveStatus } from '@prisma/client';
+import { calculateWorkingDays } from './leave-utils';
+import { createWorkingCalendar, WorkingCalendar } from './holiday-calendar';
+
+export interface LeaveRecalculationItem {
+  leaveRequestId: string;
+  requestNumber: string;
+  userId: string;
+  userName: string | null;
+  leaveTypeName: string;
+  status: LeaveStatus;
+  startDate: Date;
+  endDate: Date;
+  oldTotalDays: number;
+  newTotalDays: number;
+  difference: number;
+}
+
+/**
+ * Load the working calendar (active public holidays) covering a date range.
+ * Recurring holidays are always loaded since they apply to every year.
+ */
+export async function getWorkingCalendar(rangeStart: Date, rangeEnd: Date): Promise<WorkingCalendar> {
+  const holidays = await prisma.publicHoliday.findMany({
+    where: {
+      isActive: true,
+      OR: [
+        { isRecurring: true },
+        {
+          AND: [
+            { startDate: { lte: rangeEnd } },
+            { endDate: { gte: rangeStart } },
+          ],
+        },
+      ],
+    },
+    select: {
+      name: true,
+      startDate: true,
+      endDate: true,
+      isRecurring: true,
+    },
+  });
+
+  return createWorkingCalendar(holidays);
+}
+
+/**
+ * Find pending/approved leave requests whose charged days differ from what the
+ * current working calendar yields (e.g., after a holiday was added after the fact)
+ *
+ * @param rangeStart Only consider requests ending on/after this date
+ * @param rangeEnd Only consider requests starting on/before this date (optional)
+ */
+export async function findLeaveRequestsToRecalculate(
+  rangeStart: Date,
+  rangeEnd?: Date
+): Promise<LeaveRecalculationItem[]> {
+  const requests = await prisma.leaveRequest.findMany({
+    where: {
+      status: { in: [LeaveStatus.PENDING, LeaveStatus.APPROVED] },
+      endDate: { gte: rangeStart },
+      ...(rangeEnd && { startDate: { lte: rangeEnd } }),
+    },
+    include: {
+      user: { select: { name: true } },
+      leaveType: { select: { name: true, accrualBased: true } },
+    },
+    orderBy: { startDate: 'asc' },
+  });
+
+  if (requests.length === 0) return [];
+
+  const earliest = requests.reduce((min, r) => (r.startDate < min ? r.startDate : min), requests[0].startDate);
+  const latest = requests.reduce((max, r) => (r.endDate > max ? r.endDate : max), requests[0].endDate);
+  const calendar = await getWorkingCalendar(earliest, latest);
+
+  const items: LeaveRecalculationItem[] = [];
+
+  for (const request of requests) {
+    const includeWeekends = request.leaveType.accrualBased === true;
+    const newTotalDays = calculateWorkingDays(
+      request.startDate,
+      request.endDate,
+      request.requestType as LeaveRequestType,
+      includeWeekends,
+      calendar
+    );
+    const oldTotalDays = Number(request.totalDays);
+
+    if (newTotalDays !== oldTotalDays) {
+      items.push({
+        leaveRequestId: request.id,
+        requestNumber: request.requestNumber,
+        userId: request.userId,
+        userName: request.user.name,
+        leaveTypeName: request.leaveType.name,
+        status: request.status,
+        startDate: request.startDate,
+        endDate: request.endDate,
+        oldTotalDays,
+        newTotalDays,
+        difference: newTotalDays - oldTotalDays,
+      });
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Apply recalculated day counts: updates each request's totalDays, moves the
+ * difference on the balance (pending for PENDING, used for APPROVED) and records
+ * a RECALCULATED history entry.
+ */
+export async function applyLeaveRecalculation(
+  items: LeaveRecalculationItem[],
+  performedById: string,
+  notes?: string
+): Promise<number> {
+  let updated = 0;
+
+  for (const item of items) {
+    await prisma.$transaction(async (tx) => {
+      const request = await tx.leaveRequest.findUnique({
+        where: { id: item.leaveRequestId },
+        select: { status: true, totalDays: true, userId: true, leaveTypeId: true, startDate: true },
+      });
+
+      // Skip if the request changed since the preview was computed
+      if (!request || request.status !== item.status || Number(request.totalDays) !== item.oldTotalDays) {
+        return;
+      }
+
+      await tx.leaveRequest.update({
+        where: { id: item.leaveRequestId },
+        data: { totalDays: item.newTotalDays },
+      });
+
+      const balanceField = request.status === LeaveStatus.APPROVED ? 'used' : 'pending';
+      await tx.leaveBalance.updateMany({
+        where: {
+          userId: request.userId,
+          leaveTypeId: request.leaveTypeId,
+          year: request.startDate.getFullYear(),
+        },
+        data: {
+          [balanceField]: { increment: item.difference },
+        },
+      });
+
+      await tx.leaveRequestHistory.create({
+        data: {
+          leaveRequestId: item.leaveRequestId,
+          action: 'RECALCULATED',
+          oldStatus: request.status,
+          newStatus: request.status,
+          changes: {
+            totalDays: { from: item.oldTotalDays, to: item.newTotalDays },
+          },
+          notes: notes || 'Recalculated after public holiday calendar change',
+          performedById,
+        },
+      });
+
+      updated++;
+    });
+  }
+
+  return updated;
+}
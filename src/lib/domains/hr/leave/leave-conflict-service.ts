@@ -0,0 +1,193 @@
+import { LeaveStatus, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { getWorkingCalendar } from './holiday-service';
+import {
+  buildCoverageHeatmap,
+  CoverageAbsence,
+  CoverageEmployee,
+  findBlackoutConflicts,
+  findCoverageConflicts,
+  toConflictReport,
+} from './leave-conflicts';
+import type { LeaveBlackoutPeriod, LeaveConflictReport, LeaveCoverageHeatmap } from '@/lib/types/leave';
+
+export const LEAVE_COVERAGE_INCLUDE = {
+  department: { select: { id: true, name: true } },
+} satisfies Prisma.LeaveBlackoutPeriodInclude & Prisma.LeaveCoverageRuleInclude;
+
+const COVERAGE_EMPLOYEE_SELECT = {
+  id: true,
+  name: true,
+  email: true,
+  hrProfile: {
+    select: {
+      departmentId: true,
+      designation: true,
+      isCriticalRole: true,
+      department: { select: { name: true } },
+    },
+  },
+} satisfies Prisma.UserSelect;
+
+type CoverageUser = Prisma.UserGetPayload<{ select: typeof COVERAGE_EMPLOYEE_SELECT }>;
+
+function toCoverageEmployee(user: CoverageUser): CoverageEmployee {
+  return {
+    userId: user.id,
+    name: user.name || user.email,
+    departmentId: user.hrProfile?.departmentId ?? null,
+    departmentName: user.hrProfile?.department?.name ?? null,
+    designation: user.hrProfile?.designation ?? null,
+    isCriticalRole: user.hrProfile?.isCriticalRole ?? false,
+  };
+}
+
+/**
+ * Approved and pending leave overlapping a date range. Pending requests
+ * count so two people can't both book the last free slot.
+ */
+async function getAbsences(
+  startDate: Date,
+  endDate: Date,
+  where: Prisma.LeaveRequestWhereInput = {}
+): Promise<CoverageAbsence[]> {
+  return prisma.leaveRequest.findMany({
+    where: {
+      ...where,
+      status: { in: [LeaveStatus.APPROVED, LeaveStatus.PENDING] },
+      startDate: { lte: endDate },
+      endDate: { gte: startDate },
+    },
+    select: { userId: true, startDate: true, endDate: true },
+  });
+}
+
+interface LeaveConflictCheck {
+  userId: string;
+  startDate: Date;
+  endDate: Date;
+  /** Request being checked, when it already exists (e.g., on approval) */
+  excludeRequestId?: string;
+}
+
+/**
+ * Check requested dates against blackout periods and coverage rules
+ */
+export async function checkLeaveConflicts({
+  userId,
+  startDate,
+  endDate,
+  excludeRequestId,
+}: LeaveConflictCheck): Promise<LeaveConflictReport> {
+  const [user, blackouts, rules] = await Promise.all([
+    prisma.user.findUnique({ where: { id: userId }, select: COVERAGE_EMPLOYEE_SELECT }),
+    prisma.leaveBlackoutPeriod.findMany({
+      where: {
+        isActive: true,
+        startDate: { lte: endDate },
+        endDate: { gte: startDate },
+      },
+    }),
+    prisma.leaveCoverageRule.findMany({ where: { isActive: true } }),
+  ]);
+
+  if (!user) {
+    return toConflictReport([]);
+  }
+
+  const employee = toCoverageEmployee(user);
+  const conflicts = findBlackoutConflicts(employee, startDate, endDate, blackouts);
+
+  if (rules.length > 0) {
+    const [absences, calendar] = await Promise.all([
+      getAbsences(startDate, endDate, {
+        userId: { not: userId },
+        ...(excludeRequestId && { id: { not: excludeRequestId } }),
+      }),
+      getWorkingCalendar(startDate, endDate),
+    ]);
+
+    const colleagues = await prisma.user.findMany({
+      where: { id: { in: Array.from(new Set(absences.map(absence => absence.userId))) } },
+      select: COVERAGE_EMPLOYEE_SELECT,
+    });
+
+    conflicts.push(...findCoverageConflicts(
+      employee,
+      startDate,
+      endDate,
+      rules,
+      colleagues.map(toCoverageEmployee),
+      absences,
+      calendar
+    ));
+  }
+
+  return toConflictReport(conflicts);
+}
+
+interface CoverageHeatmapOptions {
+  startDate: Date;
+  endDate: Date;
+  /** Limit to these employees (a manager's team) */
+  userIds?: string[];
+  departmentId?: string;
+}
+
+/**
+ * Day-by-day count of employees on leave per department
+ */
+export async function getLeaveCoverageHeatmap({
+  startDate,
+  endDate,
+  userIds,
+  departmentId,
+}: CoverageHeatmapOptions): Promise<LeaveCoverageHeatmap> {
+  const users = await prisma.user.findMany({
+    where: {
+      isSystemAccount: false,
+      ...(userIds && { id: { in: userIds } }),
+      ...(departmentId && { hrProfile: { departmentId } }),
+    },
+    select: COVERAGE_EMPLOYEE_SELECT,
+  });
+
+  const employees = users.map(toCoverageEmployee);
+  const departmentIds = Array.from(new Set(employees.map(employee => employee.departmentId).filter(Boolean))) as string[];
+
+  const [absences, calendar, blackouts] = await Promise.all([
+    getAbsences(startDate, endDate, { userId: { in: employees.map(employee => employee.userId) } }),
+    getWorkingCalendar(startDate, endDate),
+    prisma.leaveBlackoutPeriod.findMany({
+      where: {
+        isActive: true,
+        startDate: { lte: endDate },
+        endDate: { gte: startDate },
+        OR: [{ departmentId: null }, { departmentId: { in: departmentIds } }],
+      },
+      include: LEAVE_COVERAGE_INCLUDE,
+      orderBy: { startDate: 'asc' },
+    }),
+  ]);
+
+  return {
+    ...buildCoverageHeatmap(employees, absences, startDate, endDate, calendar),
+    blackouts: blackouts.map(transformLeaveBlackoutPeriod),
+  };
+}
+
+export function transformLeaveBlackoutPeriod(
+  blackout: Prisma.LeaveBlackoutPeriodGetPayload<{ include: typeof LEAVE_COVERAGE_INCLUDE }>
+): LeaveBlackoutPeriod {
+  return {
+    id: blackout.id,
+    name: blackout.name,
+    description: blackout.description,
+    startDate: blackout.startDate.toISOString(),
+    endDate: blackout.endDate.toISOString(),
+    enforcement: blackout.enforcement,
+    isActive: blackout.isActive,
+    departmentId: blackout.departmentId,
+    department: blackout.department,
+  };
+}
@@ -0,0 +1,276 @@
+/**
+ * Leave Conflict Detection
+ *
+ * Checks a leave request against admin-configured blackout periods and
+ * coverage rules (how many people in a department, designation or critical
+ * role can be off on the same day), and builds the day-by-day coverage
+ * heatmap managers use to plan around absences. Pure helpers so the same
+ * checks run on submission, in the request form and in tests.
+ */
+
+import { LeaveConflictEnforcement, LeaveCoverageScope } from '@prisma/client';
+import {
+  getHolidayDateSet,
+  isCalendarWeekend,
+  toDateKey,
+  WorkingCalendar,
+} from './holiday-calendar';
+import type {
+  LeaveConflict,
+  LeaveConflictReport,
+  LeaveCoverageHeatmap,
+  LeaveCoverageRow,
+} from '@/lib/types/leave';
+
+export interface CoverageEmployee {
+  userId: string;
+  name: string;
+  departmentId: string | null;
+  departmentName?: string | null;
+  designation: string | null;
+  isCriticalRole: boolean;
+}
+
+export interface CoverageAbsence {
+  userId: string;
+  startDate: Date;
+  endDate: Date;
+}
+
+export interface BlackoutPeriodInput {
+  id: string;
+  name: string;
+  startDate: Date;
+  endDate: Date;
+  enforcement: LeaveConflictEnforcement;
+  departmentId: string | null;
+}
+
+export interface CoverageRuleInput {
+  id: string;
+  name: string;
+  scope: LeaveCoverageScope;
+  departmentId: string | null;
+  designation: string | null;
+  maxOnLeave: number;
+  enforcement: LeaveConflictEnforcement;
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/**
+ * Every day between two dates (inclusive)
+ */
+export function getDatesInRange(startDate: Date, endDate: Date): Date[] {
+  const dates: Date[] = [];
+  const current = startOfDay(startDate);
+  const end = startOfDay(endDate);
+
+  while (current <= end) {
+    dates.push(new Date(current));
+    current.setDate(current.getDate() + 1);
+  }
+
+  return dates;
+}
+
+function isAbsentOn(absence: CoverageAbsence, date: Date): boolean {
+  return startOfDay(absence.startDate) <= date && startOfDay(absence.endDate) >= date;
+}
+
+function normalizeDesignation(designation: string | null): string {
+  return (designation || '').trim().toLowerCase();
+}
+
+/**
+ * Check whether an employee falls in the group a coverage rule limits
+ */
+export function isCoveredByRule(rule: CoverageRuleInput, employee: CoverageEmployee): boolean {
+  switch (rule.scope) {
+    case LeaveCoverageScope.DEPARTMENT:
+      return rule.departmentId !== null && employee.departmentId === rule.departmentId;
+    case LeaveCoverageScope.DESIGNATION:
+      return normalizeDesignation(rule.designation) !== '' &&
+        normalizeDesignation(employee.designation) === normalizeDesignation(rule.designation);
+    case LeaveCoverageScope.CRITICAL_ROLE:
+      return employee.isCriticalRole && (rule.departmentId === null || employee.departmentId === rule.departmentId);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Blackout periods that apply to the employee and overlap the requested dates
+ */
+export function findBlackoutConflicts(
+  employee: Pick<CoverageEmployee, 'departmentId'>,
+  startDate: Date,
+  endDate: Date,
+  blackouts: BlackoutPeriodInput[]
+): LeaveConflict[] {
+  const requestedDates = getDatesInRange(startDate, endDate);
+  const conflicts: LeaveConflict[] = [];
+
+  for (const blackout of blackouts) {
+    if (blackout.departmentId !== null && blackout.departmentId !== employee.departmentId) continue;
+
+    const dates = requestedDates
+      .filter(date => startOfDay(blackout.startDate) <= date && startOfDay(blackout.endDate) >= date)
+      .map(toDateKey);
+    if (dates.length === 0) continue;
+
+    conflicts.push({
+      type: 'BLACKOUT',
+      enforcement: blackout.enforcement,
+      sourceId: blackout.id,
+      message: blackout.enforcement === LeaveConflictEnforcement.BLOCK
+        ? `Leave is not allowed during ${blackout.name}`
+        : `${blackout.name} is a blackout period; leave should be avoided`,
+      dates,
+      colleagues: [],
+    });
+  }
+
+  return conflicts;
+}
+
+function describeRuleGroup(rule: CoverageRuleInput, departmentName?: string | null): string {
+  switch (rule.scope) {
+    case LeaveCoverageScope.DEPARTMENT:
+      return departmentName ? `the ${departmentName} team` : 'the team';
+    case LeaveCoverageScope.DESIGNATION:
+      return `${rule.designation} staff`;
+    default:
+      return departmentName ? `critical roles in ${departmentName}` : 'critical roles';
+  }
+}
+
+/**
+ * Coverage rules the request would break: days on which the employee plus
+ * colleagues already off in the same group exceed the rule's limit.
+ * Weekends and public holidays are not counted.
+ */
+export function findCoverageConflicts(
+  employee: CoverageEmployee,
+  startDate: Date,
+  endDate: Date,
+  rules: CoverageRuleInput[],
+  colleagues: CoverageEmployee[],
+  absences: CoverageAbsence[],
+  calendar?: WorkingCalendar
+): LeaveConflict[] {
+  const holidays = getHolidayDateSet(calendar, startDate, endDate);
+  const workingDates = getDatesInRange(startDate, endDate)
+    .filter(date => !isCalendarWeekend(date, calendar) && !holidays.has(toDateKey(date)));
+  const colleaguesById = new Map(colleagues.map(colleague => [colleague.userId, colleague]));
+  const conflicts: LeaveConflict[] = [];
+
+  for (const rule of rules) {
+    if (!isCoveredByRule(rule, employee)) continue;
+
+    const groupAbsences = absences.filter(absence => {
+      const colleague = colleaguesById.get(absence.userId);
+      return absence.userId !== employee.userId && colleague !== undefined && isCoveredByRule(rule, colleague);
+    });
+
+    const dates: string[] = [];
+    const names = new Set<string>();
+    for (const date of workingDates) {
+      const off = groupAbsences.filter(absence => isAbsentOn(absence, date));
+      const offUserIds = new Set(off.map(absence => absence.userId));
+      if (offUserIds.size + 1 <= rule.maxOnLeave) continue;
+
+      dates.push(toDateKey(date));
+      offUserIds.forEach(userId => names.add(colleaguesById.get(userId)!.name));
+    }
+    if (dates.length === 0) continue;
+
+    const group = describeRuleGroup(rule, employee.departmentName);
+    conflicts.push({
+      type: rule.scope,
+      enforcement: rule.enforcement,
+      sourceId: rule.id,
+      message: `No more than ${rule.maxOnLeave} of ${group} can be on leave at the same time ` +
+        `(${rule.name}); the limit is reached on ${dates.length} day(s)`,
+      dates,
+      colleagues: Array.from(names).sort(),
+    });
+  }
+
+  return conflicts;
+}
+
+export function toConflictReport(conflicts: LeaveConflict[]): LeaveConflictReport {
+  return {
+    conflicts,
+    blocked: conflicts.some(conflict => conflict.enforcement === LeaveConflictEnforcement.BLOCK),
+  };
+}
+
+/**
+ * Count who is on leave each day, per department. Employees without a
+ * department are grouped together.
+ */
+export function buildCoverageHeatmap(
+  employees: CoverageEmployee[],
+  absences: CoverageAbsence[],
+  startDate: Date,
+  endDate: Date,
+  calendar?: WorkingCalendar
+): Omit<LeaveCoverageHeatmap, 'blackouts'> {
+  const dates = getDatesInRange(startDate, endDate);
+  const holidays = getHolidayDateSet(calendar, startDate, endDate);
+  const employeesById = new Map(employees.map(employee => [employee.userId, employee]));
+
+  const groups = new Map<string, { departmentId: string | null; departmentName: string; userIds: Set<string> }>();
+  for (const employee of employees) {
+    const key = employee.departmentId ?? '';
+    if (!groups.has(key)) {
+      groups.set(key, {
+        departmentId: employee.departmentId,
+        departmentName: employee.departmentId ? employee.departmentName || 'Department' : 'No Department',
+        userIds: new Set(),
+      });
+    }
+    groups.get(key)!.userIds.add(employee.userId);
+  }
+
+  const rows: LeaveCoverageRow[] = Array.from(groups.values())
+    .sort((a, b) => {
+      if (a.departmentId === null) return 1;
+      if (b.departmentId === null) return -1;
+      return a.departmentName.localeCompare(b.departmentName);
+    })
+    .map(group => {
+      const groupAbsences = absences.filter(absence => group.userIds.has(absence.userId));
+
+      return {
+        departmentId: group.departmentId,
+        departmentName: group.departmentName,
+        headcount: group.userIds.size,
+        cells: dates.map(date => {
+          const offUserIds = new Set(
+            groupAbsences.filter(absence => isAbsentOn(absence, date)).map(absence => absence.userId)
+          );
+          return {
+            date: toDateKey(date),
+            onLeave: offUserIds.size,
+            names: Array.from(offUserIds).map(userId => employeesById.get(userId)!.name).sort(),
+          };
+        }),
+      };
+    });
+
+  return {
+    startDate: toDateKey(startOfDay(startDate)),
+    endDate: toDateKey(startOfDay(endDate)),
+    days: dates.map(date => ({
+      date: toDateKey(date),
+      isWeekend: isCalendarWeekend(date, calendar),
+      isHoliday: holidays.has(toDateKey(date)),
+    })),
+    rows,
+  };
+}
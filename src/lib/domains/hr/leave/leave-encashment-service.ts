@@ -0,0 +1,107 @@
+import { Prisma } from '@prisma/client';
+import { prisma, PrismaTransactionClient } from '@/lib/prisma';
+import { parseDecimal } from '@/lib/payroll/utils';
+import { calculateEncashmentAmount, getEncashableDays } from './leave-encashment';
+import type { LeaveEncashmentPreview } from '@/lib/types/leave';
+
+/**
+ * Everything shown for a leave encashment request
+ */
+export const LEAVE_ENCASHMENT_INCLUDE = {
+  user: { select: { id: true, name: true, email: true } },
+  leaveBalance: {
+    select: {
+      year: true,
+      leaveType: { select: { id: true, name: true, color: true } },
+    },
+  },
+  reviewedBy: { select: { id: true, name: true } },
+  earningEntry: {
+    select: {
+      payslipEarning: {
+        select: { payslip: { select: { id: true, payslipNumber: true } } },
+      },
+    },
+  },
+} satisfies Prisma.LeaveEncashmentInclude;
+
+export type LeaveEncashmentWithDetails = Prisma.LeaveEncashmentGetPayload<{ include: typeof LEAVE_ENCASHMENT_INCLUDE }>;
+
+/**
+ * Leave encashment with Decimals as numbers and the payslip it was paid on
+ */
+export function transformLeaveEncashment({ earningEntry, ...encashment }: LeaveEncashmentWithDetails) {
+  return {
+    ...encashment,
+    days: parseDecimal(encashment.days),
+    dailyRate: parseDecimal(encashment.dailyRate),
+    amount: parseDecimal(encashment.amount),
+    payslip: earningEntry?.payslipEarning?.payslip ?? null,
+  };
+}
+
+/**
+ * Reasons a balance cannot be encashed, returned to the requester as-is
+ */
+export class LeaveEncashmentError extends Error {}
+
+/**
+ * Lock a leave balance row until the transaction ends. Requests holding days
+ * against the same balance queue here, and each then quotes from the balance
+ * as the previous one left it.
+ */
+export async function lockLeaveBalance(tx: PrismaTransactionClient, leaveBalanceId: string): Promise<void> {
+  await tx.$queryRaw`SELECT id FROM "LeaveBalance" WHERE id = ${leaveBalanceId} FOR UPDATE`;
+}
+
+/**
+ * Price encashing days of a leave balance at the employee's current daily
+ * rate. Throws LeaveEncashmentError when the balance cannot be encashed.
+ */
+export async function quoteLeaveEncashment(
+  leaveBalanceId: string,
+  days: number,
+  tx: PrismaTransactionClient = prisma
+): Promise<LeaveEncashmentPreview & { userId: string }> {
+  const balance = await tx.leaveBalance.findUnique({
+    where: { id: leaveBalanceId },
+    include: {
+      leaveType: { select: { name: true, allowEncashment: true } },
+      user: { select: { salaryStructure: { select: { grossSalary: true, isActive: true } } } },
+    },
+  });
+
+  if (!balance) {
+    throw new LeaveEncashmentError('Leave balance not found');
+  }
+  if (!balance.leaveType.allowEncashment) {
+    throw new LeaveEncashmentError(`${balance.leaveType.name} cannot be encashed`);
+  }
+
+  const salary = balance.user.salaryStructure;
+  if (!salary?.isActive) {
+    throw new LeaveEncashmentError('No active salary structure to calculate the encashment from');
+  }
+
+  const encashableDays = getEncashableDays({
+    entitlement: parseDecimal(balance.entitlement),
+    used: parseDecimal(balance.used),
+    pending: parseDecimal(balance.pending),
+    carriedForward: parseDecimal(balance.carriedForward),
+    adjustment: parseDecimal(balance.adjustment),
+  });
+
+  if (days > encashableDays) {
+    throw new LeaveEncashmentError(`Insufficient leave balance. Available: ${encashableDays} days`);
+  }
+
+  return {
+    userId: balance.userId,
+    leaveBalanceId,
+    leaveTypeName: balance.leaveType.name,
+    year: balance.year,
+    encashableDays,
+    days,
+    ...calculateEncashmentAmount(days, parseDecimal(salary.grossSalary)),
+  };
+}
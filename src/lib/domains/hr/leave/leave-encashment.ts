@@ -0,0 +1,48 @@
+import { calculateDailySalary, toFixed2 } from '@/lib/payroll/utils';
+
+/**
+ * Leave Encashment
+ *
+ * Employees can be paid out for unused days of leave types that allow
+ * encashment. The value is the number of days at the daily rate
+ * (gross salary / 30), the same rate used for unpaid leave deductions and
+ * final settlement encashment.
+ */
+
+export interface EncashableBalance {
+  entitlement: number;
+  used: number;
+  pending: number;
+  carriedForward: number;
+  adjustment: number;
+}
+
+/**
+ * Days of a balance that can still be encashed. Days held by pending leave
+ * or encashment requests are not available.
+ */
+export function getEncashableDays(balance: EncashableBalance): number {
+  return toFixed2(Math.max(
+    0,
+    balance.entitlement + balance.carriedForward + balance.adjustment - balance.used - balance.pending
+  ));
+}
+
+/**
+ * Value of encashing a number of days
+ */
+export function calculateEncashmentAmount(days: number, grossSalary: number): {
+  dailyRate: number;
+  amount: number;
+} {
+  const dailyRate = toFixed2(calculateDailySalary(grossSalary));
+  return { dailyRate, amount: toFixed2(days * dailyRate) };
+}
+
+/**
+ * Whether a reviewer may approve an encashment. Admins cannot approve
+ * encashing their own leave, since that pays them out.
+ */
+export function canApproveLeaveEncashment(encashment: { userId: string }, reviewerId: string): boolean {
+  return encashment.userId !== reviewerId;
+}
@@ -0,0 +1,293 @@
+import { prisma } from '@/lib/prisma';
+import { logAction, ActivityActions } from '@/lib/activity';
+import { initializeUserLeaveBalances } from './leave-balance-init';
+import { getAnnualLeaveDetails } from './leave-utils';
+import {
+  calculateExpiredCarryForward,
+  calculateRollover,
+  getCarryForwardExpiryDate,
+  isCarryForwardExpired,
+} from './leave-rollover';
+import type {
+  LeaveCarryForwardExpiryLine,
+  LeaveCarryForwardExpiryReport,
+  LeaveRolloverLine,
+  LeaveRolloverReport,
+} from '@/lib/types/leave';
+
+interface RolloverOptions {
+  /** Preview only; nothing is written */
+  dryRun?: boolean;
+  /** Admin running the rollover, null when run by cron */
+  performedById?: string | null;
+}
+
+function sumDays(values: number[]): number {
+  return Math.round(values.reduce((sum, value) => sum + value, 0) * 100) / 100;
+}
+
+/**
+ * Roll leave balances from one year into the next. Every employee gets
+ * next-year balances from initializeUserLeaveBalances, and unused days of
+ * carry-forward leave types are carried over up to the type's cap.
+ *
+ * Carried days are set rather than added, so running the rollover again for
+ * the same year corrects the figures instead of doubling them. Balances whose
+ * carried days have already lapsed are left as they are.
+ */
+export async function runLeaveRollover(
+  fromYear: number,
+  { dryRun = true, performedById = null }: RolloverOptions = {}
+): Promise<LeaveRolloverReport> {
+  const toYear = fromYear + 1;
+  const yearEnd = new Date(fromYear, 11, 31);
+
+  const [users, carryTypes] = await Promise.all([
+    prisma.user.findMany({
+      where: { isSystemAccount: false },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        hrProfile: { select: { dateOfJoining: true } },
+      },
+    }),
+    prisma.leaveType.findMany({
+      where: { isActive: true, allowCarryForward: true },
+    }),
+  ]);
+
+  const userIds = users.map(user => user.id);
+  const usersById = new Map(users.map(user => [user.id, user]));
+  const typesById = new Map(carryTypes.map(type => [type.id, type]));
+
+  const [closingBalances, nextYearUsers, nextYearCarryBalances] = await Promise.all([
+    prisma.leaveBalance.findMany({
+      where: {
+        year: fromYear,
+        userId: { in: userIds },
+        leaveTypeId: { in: carryTypes.map(type => type.id) },
+      },
+    }),
+    prisma.leaveBalance.findMany({
+      where: { year: toYear, userId: { in: userIds } },
+      distinct: ['userId'],
+      select: { userId: true },
+    }),
+    prisma.leaveBalance.findMany({
+      where: {
+        year: toYear,
+        userId: { in: userIds },
+        leaveTypeId: { in: carryTypes.map(type => type.id) },
+      },
+      select: { userId: true, leaveTypeId: true, carriedForward: true, carryForwardExpiredAt: true },
+    }),
+  ]);
+  const nextYearBalances = new Map(
+    nextYearCarryBalances.map(balance => [`${balance.userId}:${balance.leaveTypeId}`, balance])
+  );
+
+  const lines: LeaveRolloverLine[] = [];
+  for (const balance of closingBalances) {
+    const user = usersById.get(balance.userId)!;
+    const leaveType = typesById.get(balance.leaveTypeId)!;
+    const dateOfJoining = user.hrProfile?.dateOfJoining;
+    const nextYearBalance = nextYearBalances.get(`${balance.userId}:${balance.leaveTypeId}`);
+
+    // Carried days that already lapsed were settled against the balance's
+    // adjustment; carrying them again would lapse them a second time
+    if (nextYearBalance?.carryForwardExpiredAt) continue;
+
+    // Accrual-based leave is only earned up to the year end
+    const entitlement = leaveType.accrualBased && dateOfJoining
+      ? getAnnualLeaveDetails(dateOfJoining, fromYear, yearEnd).accrued
+      : Number(balance.entitlement);
+
+    const amounts = calculateRollover(
+      {
+        entitlement,
+        used: Number(balance.used),
+        pending: Number(balance.pending),
+        carriedForward: Number(balance.carriedForward),
+        adjustment: Number(balance.adjustment),
+      },
+      leaveType
+    );
+
+    // Nothing to carry, unless an earlier run carried days that are no longer unused
+    if (amounts.unusedDays === 0 && !Number(nextYearBalance?.carriedForward ?? 0)) continue;
+
+    const expiresAt = getCarryForwardExpiryDate(toYear, leaveType.carryForwardExpiryMonths);
+    lines.push({
+      userId: user.id,
+      userName: user.name || user.email,
+      leaveTypeId: leaveType.id,
+      leaveTypeName: leaveType.name,
+      maxCarryForwardDays: leaveType.maxCarryForwardDays ?? 0,
+      ...amounts,
+      expiresAt: amounts.carryForward > 0 && expiresAt ? expiresAt.toISOString() : null,
+    });
+  }
+
+  lines.sort((a, b) => a.userName.localeCompare(b.userName) || a.leaveTypeName.localeCompare(b.leaveTypeName));
+
+  const usersToInitialize = users.length - nextYearUsers.length;
+  let balancesCreated = 0;
+
+  if (!dryRun) {
+    for (const user of users) {
+      const { created } = await initializeUserLeaveBalances(user.id, toYear);
+      balancesCreated += created;
+    }
+
+    await prisma.$transaction(async (tx) => {
+      for (const line of lines) {
+        const where = {
+          userId_leaveTypeId_year: { userId: line.userId, leaveTypeId: line.leaveTypeId, year: toYear },
+        };
+        const carryForwardExpiresAt = line.expiresAt ? new Date(line.expiresAt) : null;
+
+        if (line.carryForward > 0) {
+          // Types the employee is not yet eligible for have no balance to carry into
+          await tx.leaveBalance.upsert({
+            where,
+            update: { carriedForward: line.carryForward, carryForwardExpiresAt },
+            create: {
+              ...where.userId_leaveTypeId_year,
+              entitlement: 0,
+              carriedForward: line.carryForward,
+              carryForwardExpiresAt,
+            },
+          });
+        } else {
+          await tx.leaveBalance.updateMany({
+            where: where.userId_leaveTypeId_year,
+            data: { carriedForward: 0, carryForwardExpiresAt: null },
+          });
+        }
+      }
+    });
+  }
+
+  const report: LeaveRolloverReport = {
+    fromYear,
+    toYear,
+    dryRun,
+    usersToInitialize,
+    balancesCreated,
+    lines,
+    totals: {
+      employees: new Set(lines.map(line => line.userId)).size,
+      carriedForward: sumDays(lines.map(line => line.carryForward)),
+      forfeited: sumDays(lines.map(line => line.forfeited)),
+    },
+  };
+
+  if (!dryRun) {
+    await logAction(
+      performedById,
+      ActivityActions.LEAVE_ROLLOVER_COMPLETED,
+      'LeaveBalance',
+      undefined,
+      {
+        fromYear,
+        toYear,
+        balancesCreated,
+        totals: report.totals,
+        lines: lines.map(line => ({
+          userName: line.userName,
+          leaveType: line.leaveTypeName,
+          unusedDays: line.unusedDays,
+          carryForward: line.carryForward,
+          forfeited: line.forfeited,
+          expiresAt: line.expiresAt,
+        })),
+      }
+    );
+  }
+
+  return report;
+}
+
+/**
+ * Lapse carried days that were not used by their expiry date. The lapsed
+ * days are recorded as a negative adjustment so every balance calculation
+ * picks them up, and each balance is only lapsed once.
+ */
+export async function expireCarriedForwardLeave(
+  { asOf = new Date(), dryRun = true, performedById = null }: RolloverOptions & { asOf?: Date } = {}
+): Promise<LeaveCarryForwardExpiryReport> {
+  const balances = await prisma.leaveBalance.findMany({
+    where: {
+      carryForwardExpiresAt: { not: null, lte: asOf },
+      carryForwardExpiredAt: null,
+      carriedForward: { gt: 0 },
+    },
+    include: {
+      user: { select: { name: true, email: true } },
+      leaveType: { select: { name: true } },
+    },
+  });
+
+  const due = balances.filter(balance => isCarryForwardExpired(balance.carryForwardExpiresAt!, asOf));
+
+  const lines: LeaveCarryForwardExpiryLine[] = due.map(balance => ({
+    balanceId: balance.id,
+    userId: balance.userId,
+    userName: balance.user.name || balance.user.email,
+    leaveTypeName: balance.leaveType.name,
+    year: balance.year,
+    carriedForward: Number(balance.carriedForward),
+    expiredDays: calculateExpiredCarryForward({
+      carriedForward: Number(balance.carriedForward),
+      used: Number(balance.used),
+      pending: Number(balance.pending),
+    }),
+    expiresAt: balance.carryForwardExpiresAt!.toISOString(),
+  }));
+
+  if (!dryRun && due.length > 0) {
+    await prisma.$transaction(async (tx) => {
+      for (const [index, balance] of due.entries()) {
+        const { expiredDays } = lines[index];
+        const note = `${expiredDays} carried forward day(s) expired on ${balance.carryForwardExpiresAt!.toLocaleDateString('en-GB')}`;
+
+        await tx.leaveBalance.update({
+          where: { id: balance.id },
+          data: {
+            adjustment: { decrement: expiredDays },
+            adjustmentNotes: expiredDays > 0
+              ? [balance.adjustmentNotes, note].filter(Boolean).join('\n')
+              : balance.adjustmentNotes,
+            carryForwardExpiredAt: asOf,
+          },
+        });
+      }
+    });
+
+    await logAction(
+      performedById,
+      ActivityActions.LEAVE_CARRY_FORWARD_EXPIRED,
+      'LeaveBalance',
+      undefined,
+      {
+        asOf: asOf.toISOString(),
+        totalExpiredDays: sumDays(lines.map(line => line.expiredDays)),
+        lines: lines.map(line => ({
+          userName: line.userName,
+          leaveType: line.leaveTypeName,
+          year: line.year,
+          carriedForward: line.carriedForward,
+          expiredDays: line.expiredDays,
+        })),
+      }
+    );
+  }
+
+  return {
+    asOf: asOf.toISOString(),
+    dryRun,
+    lines,
+    totalExpiredDays: sumDays(lines.map(line => line.expiredDays)),
+  };
+}
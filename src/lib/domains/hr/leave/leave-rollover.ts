@@ -0,0 +1,75 @@
+/**
+ * Year-end Leave Rollover
+ *
+ * At year end unused days of leave types that allow carry forward move to
+ * the next year's balance, capped at the type's maximum; the rest lapse.
+ * When the type sets an expiry, carried days not used by the end of that
+ * month of the new year lapse too. Carried days are used before the new
+ * year's entitlement.
+ */
+
+export interface RolloverBalance {
+  /** Entitlement earned in the closing year (accrued days for accrual-based types) */
+  entitlement: number;
+  used: number;
+  pending: number;
+  carriedForward: number;
+  adjustment: number;
+}
+
+export interface CarryForwardRule {
+  allowCarryForward: boolean;
+  maxCarryForwardDays: number | null;
+}
+
+export interface RolloverAmounts {
+  unusedDays: number;
+  carryForward: number;
+  forfeited: number;
+}
+
+function roundDays(days: number): number {
+  return Math.round(days * 100) / 100;
+}
+
+/**
+ * Split a closing balance into days carried to the next year and days that lapse
+ */
+export function calculateRollover(balance: RolloverBalance, rule: CarryForwardRule): RolloverAmounts {
+  const unusedDays = roundDays(Math.max(
+    0,
+    balance.entitlement + balance.carriedForward + balance.adjustment - balance.used - balance.pending
+  ));
+  const cap = rule.allowCarryForward ? Math.max(0, rule.maxCarryForwardDays ?? 0) : 0;
+  const carryForward = Math.min(unusedDays, cap);
+
+  return {
+    unusedDays,
+    carryForward,
+    forfeited: roundDays(unusedDays - carryForward),
+  };
+}
+
+/**
+ * Last day carried days can be used, or null when they never expire
+ */
+export function getCarryForwardExpiryDate(toYear: number, expiryMonths: number | null | undefined): Date | null {
+  if (!expiryMonths || expiryMonths < 1 || expiryMonths > 12) return null;
+  return new Date(toYear, expiryMonths, 0);
+}
+
+/**
+ * Carried days still unused at expiry. Days taken or requested in the new
+ * year are counted against the carried days first.
+ */
+export function calculateExpiredCarryForward(balance: Pick<RolloverBalance, 'carriedForward' | 'used' | 'pending'>): number {
+  return roundDays(Math.max(0, balance.carriedForward - balance.used - balance.pending));
+}
+
+/**
+ * Whether carried days of a balance are due to lapse on a date
+ */
+export function isCarryForwardExpired(expiresAt: Date, asOf: Date): boolean {
+  const startOfDay = new Date(asOf.getFullYear(), asOf.getMonth(), asOf.getDate());
+  return expiresAt < startOfDay;
+}
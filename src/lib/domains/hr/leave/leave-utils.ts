@@ -1,5 +1,11 @@
 import { LeaveStatus, LeaveRequestType } from '@prisma/client';
 import { Decimal } from '@prisma/client/runtime/library';
+import {
+  DEFAULT_WEEKEND_DAYS,
+  WorkingCalendar,
+  getHolidayDateSet,
+  toDateKey,
+} from './holiday-calendar';
 
 // Type definitions for Qatar labor law fields
 export interface PayTier {
@@ -160,6 +166,67 @@ export function calculateSickLeavePayBreakdown(
   };
 }
 
+export interface PayTierAllocation {
+  payPercent: number;
+  days: number;
+}
+
+/**
+ * Parse a leave type's stored pay tiers, or null when it has none
+ */
+export function parsePayTiers(value: unknown): PayTier[] | null {
+  if (!Array.isArray(value)) return null;
+
+  const tiers = value.filter((tier): tier is PayTier =>
+    typeof tier === 'object' && tier !== null &&
+    typeof tier.days === 'number' && tier.days > 0 &&
+    typeof tier.payPercent === 'number'
+  );
+  return tiers.length > 0 ? tiers : null;
+}
+
+/**
+ * Split days of leave across pay tiers, given the days of the same leave
+ * type already taken earlier in the year. Days beyond the last tier are
+ * unpaid. Tiers with the same pay are merged.
+ * @param daysAlreadyTaken Days taken earlier in the year
+ * @param days Days to allocate
+ * @param payTiers Pay tier configuration
+ */
+export function allocatePayTiers(
+  daysAlreadyTaken: number,
+  days: number,
+  payTiers: PayTier[]
+): PayTierAllocation[] {
+  const allocations: PayTierAllocation[] = [];
+  const add = (payPercent: number, tierDays: number) => {
+    if (tierDays <= 0) return;
+    const existing = allocations.find(a => a.payPercent === payPercent);
+    if (existing) existing.days += tierDays;
+    else allocations.push({ payPercent, days: tierDays });
+  };
+
+  let tierStart = 0;
+  let taken = daysAlreadyTaken;
+  let remaining = days;
+
+  for (const tier of payTiers) {
+    const tierEnd = tierStart + tier.days;
+    const available = Math.max(0, tierEnd - Math.max(taken, tierStart));
+    const allocated = Math.min(remaining, available);
+
+    add(tier.payPercent, allocated);
+    remaining -= allocated;
+    taken += allocated;
+    tierStart = tierEnd;
+    if (remaining <= 0) break;
+  }
+
+  add(0, remaining);
+
+  return allocations;
+}
+
 /**
  * Get remaining sick leave days at each pay tier
  * @param daysUsed Total sick days used this year
@@ -398,9 +465,8 @@ export function shouldAutoInitializeBalance(
 /**
  * Check if a date is a weekend (Qatar: Friday and Saturday)
  */
-export function isWeekend(date: Date): boolean {
-  const day = date.getDay();
-  return day === 5 || day === 6; // Friday = 5, Saturday = 6
+export function isWeekend(date: Date, weekendDays: number[] = DEFAULT_WEEKEND_DAYS): boolean {
+  return weekendDays.includes(date.getDay()); // Friday = 5, Saturday = 6
 }
 
 /**
@@ -424,33 +490,43 @@ export function calculateCalendarDays(startDate: Date, endDate: Date): number {
 
 /**
  * Calculate working days between two dates, excluding Fri/Sat (Qatar weekend)
+ * and any public holidays in the working calendar
  * @param startDate Start date
  * @param endDate End date
  * @param requestType Type of leave request
- * @param includeWeekends If true, counts all calendar days (for Annual Leave)
+ * @param includeWeekends If true, counts all calendar days (for Annual Leave) - public holidays are still excluded
+ * @param calendar Optional working calendar (weekend days and public holidays)
  * @returns Number of days
  */
 export function calculateWorkingDays(
   startDate: Date,
   endDate: Date,
   requestType: LeaveRequestType = 'FULL_DAY',
-  includeWeekends: boolean = false
+  includeWeekends: boolean = false,
+  calendar?: WorkingCalendar
 ): number {
+  const weekendDays = calendar?.weekendDays ?? DEFAULT_WEEKEND_DAYS;
+  const holidayDates = getHolidayDateSet(calendar, startDate, endDate);
+
   // For half-day requests, return 0.5
   if (requestType === 'HALF_DAY_AM' || requestType === 'HALF_DAY_PM') {
     // Half day should be on a working day (unless including weekends)
-    if (!includeWeekends && isWeekend(startDate)) {
+    if (!includeWeekends && isWeekend(startDate, weekendDays)) {
+      return 0;
+    }
+    // Half day on a public holiday is not charged
+    if (holidayDates.has(toDateKey(startDate))) {
       return 0;
     }
     return 0.5;
   }
 
-  // If including weekends (for Annual Leave), count all calendar days
-  if (includeWeekends) {
+  // If including weekends (for Annual Leave), count all calendar days except public holidays
+  if (includeWeekends && holidayDates.size === 0) {
     return calculateCalendarDays(startDate, endDate);
   }
 
-  // For full day requests, count working days (excluding weekends)
+  // For full day requests, count working days (excluding weekends and public holidays)
   let count = 0;
   const current = new Date(startDate);
   current.setHours(0, 0, 0, 0);
@@ -459,7 +535,9 @@ export function calculateWorkingDays(
   end.setHours(0, 0, 0, 0);
 
   while (current <= end) {
-    if (!isWeekend(current)) {
+    const isNonWorkingDay = (!includeWeekends && isWeekend(current, weekendDays)) ||
+      holidayDates.has(toDateKey(current));
+    if (!isNonWorkingDay) {
       count++;
     }
     current.setDate(current.getDate() + 1);
@@ -468,15 +546,6 @@ export function calculateWorkingDays(
   return count;
 }
 
-/**
- * Generate a leave request number
- * Format: LR-XXXXX (e.g., LR-00001)
- */
-export function generateLeaveRequestNumber(existingCount: number): string {
-  const nextNumber = existingCount + 1;
-  return `LR-${String(nextNumber).padStart(5, '0')}`;
-}
-
 /**
  * Calculate remaining balance
  */
@@ -742,6 +811,7 @@ export const DEFAULT_LEAVE_TYPES = [
     minNoticeDays: 7,
     allowCarryForward: true,
     maxCarryForwardDays: 5,
+    allowEncashment: true,
     // Qatar Labor Law fields
     minimumServiceMonths: 0, // Pro-rata accrual from day one
     isOnceInEmployment: false,
@@ -762,6 +832,11 @@ export const DEFAULT_LEAVE_TYPES = [
     allowCarryForward: false,
     // Qatar Labor Law fields
     minimumServiceMonths: 3, // Eligible after 3 months of service
+    payTiers: [
+      { days: 14, payPercent: 100, label: 'Full Pay' },
+      { days: 28, payPercent: 50, label: 'Half Pay' },
+      { days: 42, payPercent: 0, label: 'Unpaid' },
+    ],
     isOnceInEmployment: false,
     category: LeaveCategory.MEDICAL,
     accrualBased: false, // Fixed entitlement
@@ -0,0 +1,231 @@
+import { prisma } from '@/lib/prisma';
+import { AssetRequestStatus, LoanStatus, PayrollRun, Prisma } from '@prisma/client';
+import { calculateUnpaidLeaveDeductions } from './leave-deduction';
+import { calculateFinalSettlement } from './final-settlement';
+import { getGratuityOptions } from './gratuity-service';
+import { isPayrollEditable } from './payslip-calculation';
+import { calculateDailySalary, parseDecimal } from './utils';
+import type { FinalSettlementCalculation } from '@/lib/types/payroll';
+
+export interface BuildFinalSettlementOptions {
+  userId: string;
+  terminationDate: Date;
+  /** Amount charged per unreturned asset, keyed by asset ID */
+  assetDeductions?: Record<string, number>;
+  otherEarnings?: number;
+  otherDeductions?: number;
+}
+
+/**
+ * Gather everything owed to and by an employee at the termination date and
+ * calculate their final settlement
+ */
+export async function buildFinalSettlement(
+  options: BuildFinalSettlementOptions
+): Promise<{ calculation: FinalSettlementCalculation } | { error: string }> {
+  const { userId, terminationDate } = options;
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      salaryStructure: true,
+      hrProfile: { select: { dateOfJoining: true, contractType: true, gratuityPolicyId: true } },
+    },
+  });
+
+  if (!user) {
+    return { error: 'User not found' };
+  }
+
+  const salary = user.salaryStructure;
+  if (!salary) {
+    return { error: 'Employee has no salary structure' };
+  }
+
+  const dateOfJoining = user.hrProfile?.dateOfJoining;
+  if (!dateOfJoining) {
+    return { error: 'Employee has no date of joining in their HR profile' };
+  }
+
+  if (terminationDate < dateOfJoining) {
+    return { error: 'Termination date is before the date of joining' };
+  }
+
+  const year = terminationDate.getFullYear();
+  const month = terminationDate.getMonth() + 1;
+
+  const [leaveBalances, loans, assets] = await Promise.all([
+    prisma.leaveBalance.findMany({
+      where: { userId, year },
+      include: { leaveType: { select: { name: true, accrualBased: true } } },
+    }),
+    prisma.employeeLoan.findMany({
+      where: {
+        userId,
+        status: { in: [LoanStatus.ACTIVE, LoanStatus.PAUSED] },
+        remainingAmount: { gt: 0 },
+      },
+      orderBy: { startDate: 'asc' },
+    }),
+    prisma.asset.findMany({
+      where: { assignedUserId: userId },
+      select: {
+        id: true,
+        assetTag: true,
+        type: true,
+        model: true,
+        priceQAR: true,
+        assetRequests: {
+          where: { userId, status: AssetRequestStatus.PENDING_RETURN_APPROVAL },
+          select: { id: true },
+        },
+      },
+      orderBy: { assetTag: 'asc' },
+    }),
+  ]);
+
+  const grossSalary = parseDecimal(salary.grossSalary);
+  const [unpaidLeave, gratuityOptions] = await Promise.all([
+    calculateUnpaidLeaveDeductions(userId, year, month, calculateDailySalary(grossSalary)),
+    getGratuityOptions({
+      userId,
+      gratuityPolicyId: user.hrProfile?.gratuityPolicyId ?? null,
+      contractType: user.hrProfile?.contractType ?? null,
+      grossSalary,
+    }, terminationDate),
+  ]);
+
+  const calculation = calculateFinalSettlement({
+    terminationDate,
+    dateOfJoining,
+    components: {
+      basicSalary: parseDecimal(salary.basicSalary),
+      housingAllowance: parseDecimal(salary.housingAllowance),
+      transportAllowance: parseDecimal(salary.transportAllowance),
+      foodAllowance: parseDecimal(salary.foodAllowance),
+      phoneAllowance: parseDecimal(salary.phoneAllowance),
+      otherAllowances: parseDecimal(salary.otherAllowances),
+    },
+    leaveBalances: leaveBalances.map(balance => ({
+      leaveTypeName: balance.leaveType.name,
+      accrualBased: balance.leaveType.accrualBased,
+      entitlement: parseDecimal(balance.entitlement),
+      used: parseDecimal(balance.used),
+      pending: parseDecimal(balance.pending),
+      carriedForward: parseDecimal(balance.carriedForward),
+      adjustment: parseDecimal(balance.adjustment),
+    })),
+    unpaidLeave: unpaidLeave.map(leave => ({
+      leaveRequestId: leave.leaveRequestId,
+      leaveTypeName: leave.leaveTypeName,
+      totalDays: leave.totalDays,
+      deductionAmount: leave.deductionAmount,
+      payPercent: leave.payPercent,
+    })),
+    loans: loans.map(loan => ({
+      loanId: loan.id,
+      loanNumber: loan.loanNumber,
+      type: loan.type,
+      remainingAmount: parseDecimal(loan.remainingAmount),
+    })),
+    assets: assets.map(asset => ({
+      assetId: asset.id,
+      assetTag: asset.assetTag,
+      type: asset.type,
+      model: asset.model,
+      valueQAR: asset.priceQAR === null ? null : parseDecimal(asset.priceQAR),
+      returnRequested: asset.assetRequests.length > 0,
+      deductionAmount: options.assetDeductions?.[asset.id] || 0,
+    })),
+    otherEarnings: options.otherEarnings,
+    otherDeductions: options.otherDeductions,
+    gratuityOptions,
+  });
+
+  return { calculation };
+}
+
+/**
+ * Pay period for a final payslip: the termination month, or the first later
+ * month whose payroll has not been submitted yet
+ */
+export async function resolveFinalPayPeriod(
+  terminationDate: Date
+): Promise<{ year: number; month: number; payrollRun: PayrollRun | null }> {
+  let year = terminationDate.getFullYear();
+  let month = terminationDate.getMonth() + 1;
+
+  for (;;) {
+    const payrollRun = await prisma.payrollRun.findUnique({
+      where: { year_month: { year, month } },
+    });
+
+    if (!payrollRun || isPayrollEditable(payrollRun.status)) {
+      return { year, month, payrollRun };
+    }
+
+    month++;
+    if (month > 12) {
+      month = 1;
+      year++;
+    }
+  }
+}
+
+/**
+ * Settlement columns for a calculation
+ */
+export function toSettlementData(calculation: FinalSettlementCalculation) {
+  return {
+    basicSalary: calculation.basicSalary,
+    grossSalary: calculation.grossSalary,
+    serviceMonths: calculation.serviceMonths,
+    gratuityAmount: calculation.gratuityAmount,
+    leaveEncashmentDays: calculation.leaveEncashmentDays,
+    leaveEncashmentAmount: calculation.leaveEncashmentAmount,
+    workedDays: calculation.workedDays,
+    proRataSalary: calculation.proRataSalary,
+    otherEarnings: calculation.otherEarnings,
+    unpaidLeaveDeduction: calculation.unpaidLeaveDeduction,
+    loanDeduction: calculation.loanDeduction,
+    assetDeduction: calculation.assetDeduction,
+    otherDeductions: calculation.otherDeductions,
+    totalEarnings: calculation.totalEarnings,
+    totalDeductions: calculation.totalDeductions,
+    netAmount: calculation.netAmount,
+    details: calculation.details as unknown as Prisma.InputJsonValue,
+  };
+}
+
+const SETTLEMENT_DECIMAL_FIELDS = [
+  'basicSalary',
+  'grossSalary',
+  'gratuityAmount',
+  'leaveEncashmentDays',
+  'leaveEncashmentAmount',
+  'proRataSalary',
+  'otherEarnings',
+  'unpaidLeaveDeduction',
+  'loanDeduction',
+  'assetDeduction',
+  'otherDeductions',
+  'totalEarnings',
+  'totalDeductions',
+  'netAmount',
+] as const;
+
+type SettlementDecimalField = (typeof SETTLEMENT_DECIMAL_FIELDS)[number];
+
+/**
+ * Convert a settlement's decimal columns to numbers for API responses
+ */
+export function transformSettlementDecimals<T extends Record<SettlementDecimalField, unknown>>(
+  settlement: T
+): Omit<T, SettlementDecimalField> & Record<SettlementDecimalField, number> {
+  const transformed: Record<string, unknown> = { ...settlement };
+  for (const field of SETTLEMENT_DECIMAL_FIELDS) {
+    transformed[field] = parseDecimal(settlement[field]);
+  }
+  return transformed as Omit<T, SettlementDecimalField> & Record<SettlementDecimalField, number>;
+}
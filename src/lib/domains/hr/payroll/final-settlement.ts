@@ -0,0 +1,185 @@
+import { FinalSettlementStatus } from '@prisma/client';
+import { calculateAccruedAnnualLeave } from '@/lib/leave-utils';
+import { calculateGratuity, GratuityOptions } from './gratuity';
+import { calculateDailySalary, toFixed2 } from './utils';
+import { PayslipComponents } from './payslip-calculation';
+import type {
+  FinalSettlementCalculation,
+  SettlementAssetLine,
+  SettlementLeaveBalance,
+  SettlementLeaveLine,
+  SettlementLoanLine,
+  SettlementUnpaidLeaveLine,
+} from '@/lib/types/payroll';
+
+/**
+ * End-of-service (final) settlement calculation
+ *
+ * Earnings: gratuity at the termination date, encashment of unused
+ * accrual-based (annual) leave, and salary for the days worked in the final
+ * month. Deductions: unpaid leave in the final month, outstanding loan
+ * balances and any amount charged for unreturned assets.
+ */
+
+export interface FinalSettlementInput {
+  terminationDate: Date;
+  dateOfJoining: Date;
+  components: PayslipComponents;
+  leaveBalances: SettlementLeaveBalance[];
+  unpaidLeave: SettlementUnpaidLeaveLine[];
+  loans: SettlementLoanLine[];
+  assets: SettlementAssetLine[];
+  otherEarnings?: number;
+  otherDeductions?: number;
+  /** Employee's gratuity policy, gross salary and unpaid leave */
+  gratuityOptions?: GratuityOptions;
+}
+
+/**
+ * Salary components pro-rated to the days worked in the termination month
+ */
+export function calculateProRataComponents(
+  components: PayslipComponents,
+  terminationDate: Date
+): { workedDays: number; daysInMonth: number; components: PayslipComponents } {
+  const daysInMonth = new Date(terminationDate.getFullYear(), terminationDate.getMonth() + 1, 0).getDate();
+  const workedDays = terminationDate.getDate();
+  const factor = workedDays / daysInMonth;
+
+  return {
+    workedDays,
+    daysInMonth,
+    components: {
+      basicSalary: toFixed2(components.basicSalary * factor),
+      housingAllowance: toFixed2(components.housingAllowance * factor),
+      transportAllowance: toFixed2(components.transportAllowance * factor),
+      foodAllowance: toFixed2(components.foodAllowance * factor),
+      phoneAllowance: toFixed2(components.phoneAllowance * factor),
+      otherAllowances: toFixed2(components.otherAllowances * factor),
+    },
+  };
+}
+
+/**
+ * Unused leave days per balance at the termination date. Accrual-based leave
+ * only counts what has been earned so far this year; other leave types are
+ * not encashable.
+ */
+export function calculateUnusedLeave(
+  balances: SettlementLeaveBalance[],
+  dateOfJoining: Date,
+  terminationDate: Date
+): SettlementLeaveLine[] {
+  return balances
+    .filter(balance => balance.accrualBased)
+    .map(balance => {
+      const earnedEntitlement = calculateAccruedAnnualLeave(
+        dateOfJoining,
+        balance.entitlement,
+        terminationDate.getFullYear(),
+        terminationDate
+      );
+      const unusedDays = earnedEntitlement + balance.carriedForward + balance.adjustment -
+        balance.used - balance.pending;
+
+      return {
+        ...balance,
+        earnedEntitlement,
+        unusedDays: Math.max(0, toFixed2(unusedDays)),
+      };
+    });
+}
+
+/**
+ * Build the full settlement from the employee's data at the termination date
+ */
+export function calculateFinalSettlement(input: FinalSettlementInput): FinalSettlementCalculation {
+  const { terminationDate, dateOfJoining, components } = input;
+
+  const grossSalary = toFixed2(Object.values(components).reduce((sum, value) => sum + value, 0));
+  const gratuity = calculateGratuity(components.basicSalary, dateOfJoining, terminationDate, input.gratuityOptions);
+
+  const leave = calculateUnusedLeave(input.leaveBalances, dateOfJoining, terminationDate);
+  const leaveEncashmentDays = toFixed2(leave.reduce((sum, line) => sum + line.unusedDays, 0));
+  const leaveDailyRate = toFixed2(calculateDailySalary(grossSalary));
+  const leaveEncashmentAmount = toFixed2(leaveEncashmentDays * leaveDailyRate);
+
+  const finalMonth = calculateProRataComponents(components, terminationDate);
+  const proRataSalary = toFixed2(Object.values(finalMonth.components).reduce((sum, value) => sum + value, 0));
+
+  const otherEarnings = toFixed2(input.otherEarnings || 0);
+  const unpaidLeaveDeduction = toFixed2(input.unpaidLeave.reduce((sum, line) => sum + line.deductionAmount, 0));
+  const loanDeduction = toFixed2(input.loans.reduce((sum, loan) => sum + loan.remainingAmount, 0));
+  const assetDeduction = toFixed2(input.assets.reduce((sum, asset) => sum + asset.deductionAmount, 0));
+  const otherDeductions = toFixed2(input.otherDeductions || 0);
+
+  const totalEarnings = toFixed2(gratuity.gratuityAmount + leaveEncashmentAmount + proRataSalary + otherEarnings);
+  const totalDeductions = toFixed2(unpaidLeaveDeduction + loanDeduction + assetDeduction + otherDeductions);
+
+  return {
+    basicSalary: components.basicSalary,
+    grossSalary,
+    serviceMonths: gratuity.monthsOfService,
+    gratuityAmount: gratuity.gratuityAmount,
+    leaveEncashmentDays,
+    leaveEncashmentAmount,
+    workedDays: finalMonth.workedDays,
+    proRataSalary,
+    otherEarnings,
+    unpaidLeaveDeduction,
+    loanDeduction,
+    assetDeduction,
+    otherDeductions,
+    totalEarnings,
+    totalDeductions,
+    netAmount: toFixed2(totalEarnings - totalDeductions),
+    details: {
+      dateOfJoining: dateOfJoining.toISOString(),
+      finalMonth: {
+        year: terminationDate.getFullYear(),
+        month: terminationDate.getMonth() + 1,
+        workedDays: finalMonth.workedDays,
+        daysInMonth: finalMonth.daysInMonth,
+        components: finalMonth.components,
+      },
+      gratuity,
+      leaveDailyRate,
+      leave,
+      unpaidLeave: input.unpaidLeave,
+      loans: input.loans,
+      assets: input.assets,
+    },
+  };
+}
+
+export function getSettlementStatusVariant(
+  status: FinalSettlementStatus
+): 'default' | 'secondary' | 'destructive' | 'outline' {
+  switch (status) {
+    case FinalSettlementStatus.APPROVED:
+      return 'default';
+    case FinalSettlementStatus.PAID:
+      return 'outline';
+    case FinalSettlementStatus.CANCELLED:
+      return 'destructive';
+    default:
+      return 'secondary';
+  }
+}
+
+export function getSettlementStatusText(status: FinalSettlementStatus): string {
+  switch (status) {
+    case FinalSettlementStatus.DRAFT:
+      return 'Draft';
+    case FinalSettlementStatus.PENDING_APPROVAL:
+      return 'Pending Approval';
+    case FinalSettlementStatus.APPROVED:
+      return 'Approved';
+    case FinalSettlementStatus.PAID:
+      return 'Paid';
+    case FinalSettlementStatus.CANCELLED:
+      return 'Cancelled';
+    default:
+      return status;
+  }
+}
@@ -0,0 +1,98 @@
+import { prisma } from '@/lib/prisma';
+import { ContractType, GratuityPolicy, LeaveStatus } from '@prisma/client';
+import {
+  AssignableGratuityPolicy,
+  GratuityOptions,
+  parseGratuityRateTiers,
+  selectGratuityPolicy,
+} from './gratuity';
+import { parseDecimal } from './utils';
+
+/**
+ * Convert a stored gratuity policy to the rules used by the calculation
+ */
+export function toGratuityPolicyRules(policy: GratuityPolicy): AssignableGratuityPolicy {
+  return {
+    id: policy.id,
+    name: policy.name,
+    salaryBasis: policy.salaryBasis,
+    rateTiers: parseGratuityRateTiers(policy.rateTiers),
+    minServiceMonths: policy.minServiceMonths,
+    excludeUnpaidLeave: policy.excludeUnpaidLeave,
+    contractType: policy.contractType,
+    isDefault: policy.isDefault,
+  };
+}
+
+export async function getActiveGratuityPolicies(): Promise<AssignableGratuityPolicy[]> {
+  const policies = await prisma.gratuityPolicy.findMany({
+    where: { isActive: true },
+    orderBy: { name: 'asc' },
+  });
+
+  return policies.map(toGratuityPolicyRules);
+}
+
+/**
+ * Approved unpaid leave days taken up to a date, per user
+ */
+export async function getUnpaidLeaveDays(userIds: string[], asOf: Date): Promise<Map<string, number>> {
+  const totals = await prisma.leaveRequest.groupBy({
+    by: ['userId'],
+    where: {
+      userId: { in: userIds },
+      status: LeaveStatus.APPROVED,
+      startDate: { lte: asOf },
+      leaveType: { isPaid: false },
+    },
+    _sum: { totalDays: true },
+  });
+
+  return new Map(totals.map(total => [total.userId, parseDecimal(total._sum.totalDays)]));
+}
+
+export interface GratuityEmployee {
+  userId: string;
+  gratuityPolicyId: string | null;
+  contractType: ContractType | null;
+  grossSalary: number;
+}
+
+/**
+ * Gratuity options (policy, gross salary, unpaid leave) for a set of employees,
+ * keyed by user ID
+ */
+export async function getGratuityOptionsForEmployees(
+  employees: GratuityEmployee[],
+  asOf: Date = new Date()
+): Promise<Map<string, GratuityOptions>> {
+  const policies = await getActiveGratuityPolicies();
+  const selected = employees.map(employee => ({
+    employee,
+    policy: selectGratuityPolicy(employee, policies),
+  }));
+
+  const unpaidLeaveUserIds = selected
+    .filter(({ policy }) => policy.excludeUnpaidLeave)
+    .map(({ employee }) => employee.userId);
+  const unpaidLeaveDays = unpaidLeaveUserIds.length > 0
+    ? await getUnpaidLeaveDays(unpaidLeaveUserIds, asOf)
+    : new Map<string, number>();
+
+  return new Map(selected.map(({ employee, policy }) => [
+    employee.userId,
+    {
+      policy,
+      grossSalary: employee.grossSalary,
+      unpaidLeaveDays: unpaidLeaveDays.get(employee.userId) || 0,
+    },
+  ]));
+}
+
+export async function getGratuityOptions(
+  employee: GratuityEmployee,
+  asOf: Date = new Date()
+): Promise<GratuityOptions> {
+  const options = await getGratuityOptionsForEmployees([employee], asOf);
+  return options.get(employee.userId) || {};
+}
@@ -1,13 +1,114 @@
-import { GratuityCalculation, GratuityProjection } from '@/lib/types/payroll';
+import { ContractType, GratuitySalaryBasis } from '@prisma/client';
+import {
+  GratuityCalculation,
+  GratuityPolicyRules,
+  GratuityProjection,
+  GratuityRateTier,
+  GratuityTierAmount,
+} from '@/lib/types/payroll';
 
 /**
  * Qatar End of Service Benefits (Gratuity) Calculation
  *
- * Custom Formula: 3 weeks of BASIC salary per year of service (constant rate)
- * Pro-rated for partial years
+ * The rate comes from a gratuity policy: weeks of salary per year of service,
+ * optionally stepping up after a number of years, applied to basic or gross
+ * salary and pro-rated for partial years. Without a configured policy the
+ * statutory rule applies: 3 weeks of BASIC salary per year of service.
  */
 
-const WEEKS_PER_YEAR = 3; // 3 weeks per year of service
+export const DEFAULT_GRATUITY_POLICY: GratuityPolicyRules = {
+  id: null,
+  name: 'Statutory (3 weeks basic)',
+  salaryBasis: GratuitySalaryBasis.BASIC,
+  rateTiers: [{ fromYear: 0, weeksPerYear: 3 }],
+  minServiceMonths: 0,
+  excludeUnpaidLeave: false,
+};
+
+export const CONTRACT_TYPE_OPTIONS: { value: ContractType; label: string }[] = [
+  { value: ContractType.PERMANENT, label: 'Permanent' },
+  { value: ContractType.FIXED_TERM, label: 'Fixed Term' },
+  { value: ContractType.PART_TIME, label: 'Part Time' },
+  { value: ContractType.TEMPORARY, label: 'Temporary' },
+];
+
+export function getContractTypeText(contractType: ContractType): string {
+  return CONTRACT_TYPE_OPTIONS.find(option => option.value === contractType)?.label || contractType;
+}
+
+/**
+ * A stored policy with the fields used to pick it for an employee
+ */
+export interface AssignableGratuityPolicy extends GratuityPolicyRules {
+  contractType: ContractType | null;
+  isDefault: boolean;
+}
+
+export interface GratuityOptions {
+  /** Policy to apply (defaults to the statutory rule) */
+  policy?: GratuityPolicyRules;
+  /** Monthly gross salary, used when the policy pays on gross */
+  grossSalary?: number;
+  /** Approved unpaid leave days, excluded from service when the policy says so */
+  unpaidLeaveDays?: number;
+}
+
+/**
+ * Read rate tiers stored as JSON, sorted by the year they start from.
+ * Invalid entries are dropped; an empty result falls back to 3 weeks/year.
+ */
+export function parseGratuityRateTiers(value: unknown): GratuityRateTier[] {
+  if (!Array.isArray(value)) {
+    return DEFAULT_GRATUITY_POLICY.rateTiers;
+  }
+
+  const tiers = value
+    .filter((tier): tier is GratuityRateTier =>
+      typeof tier?.fromYear === 'number' && tier.fromYear >= 0 &&
+      typeof tier?.weeksPerYear === 'number' && tier.weeksPerYear >= 0
+    )
+    .map(tier => ({ fromYear: tier.fromYear, weeksPerYear: tier.weeksPerYear }))
+    .sort((a, b) => a.fromYear - b.fromYear);
+
+  return tiers.length > 0 ? tiers : DEFAULT_GRATUITY_POLICY.rateTiers;
+}
+
+/**
+ * Pick the policy for an employee: their own assignment, then the policy for
+ * their contract type, then the default policy, then the statutory rule.
+ */
+export function selectGratuityPolicy(
+  employee: { gratuityPolicyId: string | null; contractType: ContractType | null },
+  policies: AssignableGratuityPolicy[]
+): GratuityPolicyRules {
+  return (
+    policies.find(policy => employee.gratuityPolicyId && policy.id === employee.gratuityPolicyId) ||
+    policies.find(policy => employee.contractType && policy.contractType === employee.contractType) ||
+    policies.find(policy => policy.isDefault) ||
+    DEFAULT_GRATUITY_POLICY
+  );
+}
+
+/**
+ * Describe a policy's rates, e.g. "3 weeks/year, 4 weeks/year from year 5"
+ */
+export function describeGratuityPolicy(policy: GratuityPolicyRules): string {
+  const rates = policy.rateTiers
+    .map(tier => tier.fromYear === 0
+      ? `${tier.weeksPerYear} weeks/year`
+      : `${tier.weeksPerYear} weeks/year from year ${tier.fromYear}`)
+    .join(', ');
+  const parts = [`${rates} of ${policy.salaryBasis === GratuitySalaryBasis.GROSS ? 'gross' : 'basic'} salary`];
+
+  if (policy.minServiceMonths > 0) {
+    parts.push(`minimum ${policy.minServiceMonths} months service`);
+  }
+  if (policy.excludeUnpaidLeave) {
+    parts.push('unpaid leave excluded');
+  }
+
+  return parts.join('; ');
+}
 
 /**
  * Calculate months of service between two dates
@@ -37,53 +138,101 @@ export function calculateServiceYears(dateOfJoining: Date, referenceDate: Date =
 }
 
 /**
- * Calculate gratuity based on basic salary and service duration
+ * Years of service falling in each rate tier
+ */
+function splitServiceByTier(tiers: GratuityRateTier[], serviceYears: number) {
+  return tiers.map((tier, index) => {
+    const toYear = tiers[index + 1]?.fromYear ?? null;
+    const upper = toYear === null ? serviceYears : Math.min(serviceYears, toYear);
+    return {
+      fromYear: tier.fromYear,
+      toYear,
+      weeksPerYear: tier.weeksPerYear,
+      yearsOfService: Math.max(0, upper - tier.fromYear),
+    };
+  });
+}
+
+/**
+ * Total weeks of salary earned for a length of service
+ */
+export function getGratuityWeeks(tiers: GratuityRateTier[], serviceYears: number): number {
+  return splitServiceByTier(tiers, serviceYears)
+    .reduce((sum, tier) => sum + tier.yearsOfService * tier.weeksPerYear, 0);
+}
+
+/**
+ * Calculate gratuity based on salary, service duration and the gratuity policy
  *
- * Formula: 3 weeks of basic salary per year of service
- * - Weekly rate = (Basic Salary / 30) * 7
- * - Gratuity = Years of Service * 3 * Weekly Rate
+ * Formula: weeks of salary per year of service, at the rate of each tier
+ * - Weekly rate = (Monthly Salary / 30) * 7
+ * - Gratuity = Sum over tiers of (Years in tier * Weeks per year * Weekly Rate)
  * - Pro-rated for partial years
+ * - Nothing is due below the policy's minimum service
  *
  * @param basicSalary Monthly basic salary in QAR
  * @param dateOfJoining Employee's date of joining
  * @param terminationDate Date of termination (defaults to today for projection)
+ * @param options Policy, gross salary and unpaid leave to apply
  */
 export function calculateGratuity(
   basicSalary: number,
   dateOfJoining: Date,
-  terminationDate: Date = new Date()
+  terminationDate: Date = new Date(),
+  options: GratuityOptions = {}
 ): GratuityCalculation {
-  // Calculate service duration
-  const monthsOfService = calculateServiceMonths(dateOfJoining, terminationDate);
+  const policy = options.policy || DEFAULT_GRATUITY_POLICY;
+
+  // Unpaid leave is taken off service time, rounded to whole months
+  const unpaidLeaveDaysExcluded = policy.excludeUnpaidLeave ? options.unpaidLeaveDays || 0 : 0;
+  const monthsOfService = Math.max(
+    0,
+    calculateServiceMonths(dateOfJoining, terminationDate) - Math.round(unpaidLeaveDaysExcluded / 30)
+  );
   const yearsOfService = Math.floor(monthsOfService / 12);
-  const partialMonths = monthsOfService % 12;
+  const serviceYears = monthsOfService / 12;
+  const isEligible = monthsOfService >= policy.minServiceMonths;
 
   // Calculate days of service
-  const daysOfService = Math.floor((monthsOfService / 12) * 365);
+  const daysOfService = Math.floor(serviceYears * 365);
 
-  // Daily and weekly rates based on basic salary
+  // Daily and weekly rates based on the policy's salary basis
   // Monthly salary / 30 = daily rate
   // Daily rate * 7 = weekly rate
-  const dailyRate = basicSalary / 30;
+  const salaryAmount = policy.salaryBasis === GratuitySalaryBasis.GROSS && options.grossSalary !== undefined
+    ? options.grossSalary
+    : basicSalary;
+  const dailyRate = salaryAmount / 30;
   const weeklyRate = dailyRate * 7;
+  const payableRate = isEligible ? weeklyRate : 0;
 
-  // Full years gratuity: years * 3 weeks * weekly rate
-  const fullYearsAmount = yearsOfService * WEEKS_PER_YEAR * weeklyRate;
+  const tiers: GratuityTierAmount[] = splitServiceByTier(policy.rateTiers, serviceYears).map(tier => ({
+    ...tier,
+    yearsOfService: Math.round(tier.yearsOfService * 100) / 100,
+    amount: Math.round(tier.yearsOfService * tier.weeksPerYear * payableRate * 100) / 100,
+  }));
 
-  // Partial year gratuity: (months / 12) * 3 weeks * weekly rate
-  const partialYearAmount = (partialMonths / 12) * WEEKS_PER_YEAR * weeklyRate;
+  // Full years at their tier rates, then the partial year
+  const fullYearsAmount = getGratuityWeeks(policy.rateTiers, yearsOfService) * payableRate;
+  const gratuityAmount = getGratuityWeeks(policy.rateTiers, serviceYears) * payableRate;
+  const partialYearAmount = gratuityAmount - fullYearsAmount;
 
-  const gratuityAmount = fullYearsAmount + partialYearAmount;
+  const currentTier = [...policy.rateTiers].reverse().find(tier => tier.fromYear <= yearsOfService);
 
   return {
     basicSalary,
+    salaryAmount,
     yearsOfService,
     monthsOfService,
     daysOfService,
-    weeksPerYear: WEEKS_PER_YEAR,
+    weeksPerYear: currentTier?.weeksPerYear ?? 0,
     gratuityAmount: Math.round(gratuityAmount * 100) / 100,
     dailyRate: Math.round(dailyRate * 100) / 100,
     weeklyRate: Math.round(weeklyRate * 100) / 100,
+    unpaidLeaveDaysExcluded,
+    isEligible,
+    policy,
+    tiers,
     breakdown: {
       fullYearsAmount: Math.round(fullYearsAmount * 100) / 100,
       partialYearAmount: Math.round(partialYearAmount * 100) / 100,
@@ -97,7 +246,8 @@ export function calculateGratuity(
 export function projectGratuity(
   basicSalary: number,
   dateOfJoining: Date,
-  projectionYears: number[] = [1, 3, 5, 10]
+  projectionYears: number[] = [1, 3, 5, 10],
+  options: GratuityOptions = {}
 ): GratuityProjection[] {
   const today = new Date();
 
@@ -105,12 +255,13 @@ export function projectGratuity(
     const projectionDate = new Date(today);
     projectionDate.setFullYear(projectionDate.getFullYear() + years);
 
-    const calculation = calculateGratuity(basicSalary, dateOfJoining, projectionDate);
+    const calculation = calculateGratuity(basicSalary, dateOfJoining, projectionDate, options);
 
     return {
       years,
       date: projectionDate.toISOString(),
       amount: calculation.gratuityAmount,
+      policyName: calculation.policy.name,
     };
   });
 }
@@ -1,6 +1,8 @@
 import { prisma } from '@/lib/prisma';
 import { LeaveStatus } from '@prisma/client';
-import { parseDecimal } from './utils';
+import { allocatePayTiers, calculateWorkingDays, parsePayTiers } from '@/lib/leave-utils';
+import { WorkingCalendar } from '@/lib/domains/hr/leave/holiday-calendar';
+import { getWorkingCalendar } from '@/lib/domains/hr/leave/holiday-service';
 
 export interface UnpaidLeaveDeduction {
   leaveRequestId: string;
@@ -11,25 +13,46 @@ export interface UnpaidLeaveDeduction {
   totalDays: number;
   dailyRate: number;
   deductionAmount: number;
+  /** Pay tier the days fall in for paid leave with pay tiers (sick leave); null for unpaid leave */
+  payPercent: number | null;
+}
+
+/**
+ * Payslip line description for a leave deduction
+ */
+export function describeLeaveDeduction(
+  leave: Pick<UnpaidLeaveDeduction, 'leaveTypeName' | 'totalDays'> & { payPercent?: number | null }
+): string {
+  if (leave.payPercent === null || leave.payPercent === undefined) {
+    return `${leave.leaveTypeName} (${leave.totalDays} days)`;
+  }
+  return `${leave.leaveTypeName} (${leave.totalDays} days at ${leave.payPercent}% pay)`;
 }
 
 /**
  * Calculate unpaid leave deductions for a given month
  *
+ * Paid leave types with pay tiers (sick leave: 100% / 50% / unpaid) are
+ * deducted for the days of the month that fall in a reduced-pay tier,
+ * counting the days of the same leave type taken earlier in the year.
+ *
  * @param userId Employee ID
  * @param year Payroll year
  * @param month Payroll month (1-12)
  * @param dailySalary Daily salary rate (gross / 30)
+ * @param calendar Working calendar for the period (loaded if not provided) - public holidays are not deducted
  */
 export async function calculateUnpaidLeaveDeductions(
   userId: string,
   year: number,
   month: number,
-  dailySalary: number
+  dailySalary: number,
+  calendar?: WorkingCalendar
 ): Promise<UnpaidLeaveDeduction[]> {
   // Get the first and last day of the payroll month
   const periodStart = new Date(year, month - 1, 1);
   const periodEnd = new Date(year, month, 0); // Last day of month
+  const workingCalendar = calendar ?? await getWorkingCalendar(periodStart, periodEnd);
 
   // Find approved unpaid leave requests that overlap with this period
   const unpaidLeaves = await prisma.leaveRequest.findMany({
@@ -77,10 +100,10 @@ export async function calculateUnpaidLeaveDeductions(
     const effectiveStart = leave.startDate > periodStart ? leave.startDate : periodStart;
     const effectiveEnd = leave.endDate < periodEnd ? leave.endDate : periodEnd;
 
-    // Calculate calendar days in range
-    const daysDiff = Math.ceil(
-      (effectiveEnd.getTime() - effectiveStart.getTime()) / (1000 * 60 * 60 * 24)
-    ) + 1;
+    // Calculate calendar days in range, excluding public holidays
+    const daysDiff = calculateWorkingDays(effectiveStart, effectiveEnd, leave.requestType, true, workingCalendar);
+
+    if (daysDiff === 0) continue;
 
     const deductionAmount = daysDiff * dailySalary;
 
@@ -93,9 +116,93 @@ export async function calculateUnpaidLeaveDeductions(
       totalDays: daysDiff,
       dailyRate: dailySalary,
       deductionAmount: Math.round(deductionAmount * 100) / 100,
+      payPercent: null,
     });
   }
 
+  deductions.push(...await calculatePayTierDeductions(userId, periodStart, periodEnd, dailySalary));
+
+  return deductions;
+}
+
+/**
+ * Deductions for days of tiered paid leave (sick leave) in a period that
+ * fall beyond the full-pay tier. Days are counted the way the leave request
+ * counted them, and tiers restart each calendar year.
+ */
+async function calculatePayTierDeductions(
+  userId: string,
+  periodStart: Date,
+  periodEnd: Date,
+  dailySalary: number
+): Promise<UnpaidLeaveDeduction[]> {
+  const yearStart = new Date(periodStart.getFullYear(), 0, 1);
+
+  const leaves = await prisma.leaveRequest.findMany({
+    where: {
+      userId,
+      status: LeaveStatus.APPROVED,
+      leaveType: { isPaid: true },
+      startDate: { lte: periodEnd },
+      endDate: { gte: yearStart },
+    },
+    include: {
+      leaveType: {
+        select: { name: true, payTiers: true, accrualBased: true },
+      },
+    },
+    orderBy: { startDate: 'asc' },
+  });
+
+  const tieredLeaves = leaves
+    .map(leave => ({ ...leave, tiers: parsePayTiers(leave.leaveType.payTiers) }))
+    .filter(leave => leave.tiers !== null);
+  if (tieredLeaves.length === 0) return [];
+
+  const calendar = await getWorkingCalendar(yearStart, periodEnd);
+  const dayBeforePeriod = new Date(periodStart);
+  dayBeforePeriod.setDate(dayBeforePeriod.getDate() - 1);
+
+  const countDays = (leave: (typeof tieredLeaves)[number], from: Date, to: Date) => {
+    const start = leave.startDate > from ? leave.startDate : from;
+    const end = leave.endDate < to ? leave.endDate : to;
+    if (start > end) return 0;
+    return calculateWorkingDays(start, end, leave.requestType, leave.leaveType.accrualBased, calendar);
+  };
+
+  // Days of each leave type taken this year before the period
+  const takenByType = new Map<string, number>();
+  for (const leave of tieredLeaves) {
+    const daysBefore = countDays(leave, yearStart, dayBeforePeriod);
+    takenByType.set(leave.leaveTypeId, (takenByType.get(leave.leaveTypeId) || 0) + daysBefore);
+  }
+
+  const deductions: UnpaidLeaveDeduction[] = [];
+  for (const leave of tieredLeaves) {
+    const days = countDays(leave, periodStart, periodEnd);
+    if (days === 0) continue;
+
+    const taken = takenByType.get(leave.leaveTypeId) || 0;
+    takenByType.set(leave.leaveTypeId, taken + days);
+
+    for (const allocation of allocatePayTiers(taken, days, leave.tiers!)) {
+      if (allocation.payPercent >= 100) continue;
+
+      const deductionAmount = allocation.days * dailySalary * (100 - allocation.payPercent) / 100;
+      deductions.push({
+        leaveRequestId: leave.id,
+        requestNumber: leave.requestNumber,
+        leaveTypeName: leave.leaveType.name,
+        startDate: leave.startDate > periodStart ? leave.startDate : periodStart,
+        endDate: leave.endDate < periodEnd ? leave.endDate : periodEnd,
+        totalDays: allocation.days,
+        dailyRate: dailySalary,
+        deductionAmount: Math.round(deductionAmount * 100) / 100,
+        payPercent: allocation.payPercent,
+      });
+    }
+  }
+
   return deductions;
 }
 
@@ -105,10 +212,12 @@ export async function calculateUnpaidLeaveDeductions(
 export async function getUnpaidLeaveDaysInPeriod(
   userId: string,
   year: number,
-  month: number
+  month: number,
+  calendar?: WorkingCalendar
 ): Promise<number> {
   const periodStart = new Date(year, month - 1, 1);
   const periodEnd = new Date(year, month, 0);
+  const workingCalendar = calendar ?? await getWorkingCalendar(periodStart, periodEnd);
 
   const unpaidLeaves = await prisma.leaveRequest.findMany({
     where: {
@@ -142,6 +251,7 @@ export async function getUnpaidLeaveDaysInPeriod(
       startDate: true,
       endDate: true,
       totalDays: true,
+      requestType: true,
     },
   });
 
@@ -151,11 +261,7 @@ export async function getUnpaidLeaveDaysInPeriod(
     const effectiveStart = leave.startDate > periodStart ? leave.startDate : periodStart;
     const effectiveEnd = leave.endDate < periodEnd ? leave.endDate : periodEnd;
 
-    const daysDiff = Math.ceil(
-      (effectiveEnd.getTime() - effectiveStart.getTime()) / (1000 * 60 * 60 * 24)
-    ) + 1;
-
-    totalDays += daysDiff;
+    totalDays += calculateWorkingDays(effectiveStart, effectiveEnd, leave.requestType, true, workingCalendar);
   }
 
   return totalDays;
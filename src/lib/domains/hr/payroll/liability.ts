@@ -0,0 +1,123 @@
+import { getAnnualLeaveDetails } from '@/lib/leave-utils';
+import { calculateGratuity, GratuityOptions } from './gratuity';
+import { calculateDailySalary, toFixed2 } from './utils';
+import type {
+  EmployeeLiability,
+  LiabilityMovement,
+  LiabilityTotals,
+} from '@/lib/types/payroll';
+
+/**
+ * Month-end end-of-service and annual leave liabilities
+ *
+ * Gratuity liability is what would be payable if the employee left at the
+ * month end. Leave liability values unused annual leave at the daily gross
+ * rate used for leave encashment in final settlements.
+ */
+
+export interface EmployeeLiabilityInput {
+  userId: string;
+  name: string;
+  employeeId: string | null;
+  basicSalary: number;
+  grossSalary: number;
+  dateOfJoining: Date;
+  gratuityOptions?: GratuityOptions;
+  /** Annual leave carried forward and adjusted this year, and days taken up to the month end */
+  leave: {
+    carriedForward: number;
+    adjustment: number;
+    daysTaken: number;
+  };
+}
+
+export function getPreviousPeriod(year: number, month: number): { year: number; month: number } {
+  return month === 1 ? { year: year - 1, month: 12 } : { year, month: month - 1 };
+}
+
+/**
+ * An employee's gratuity and leave liability at a date
+ */
+export function calculateEmployeeLiability(input: EmployeeLiabilityInput, asOf: Date): EmployeeLiability {
+  const gratuity = calculateGratuity(input.basicSalary, input.dateOfJoining, asOf, input.gratuityOptions);
+
+  const { accrued } = getAnnualLeaveDetails(input.dateOfJoining, asOf.getFullYear(), asOf);
+  const unusedLeaveDays = Math.max(
+    0,
+    toFixed2(accrued + input.leave.carriedForward + input.leave.adjustment - input.leave.daysTaken)
+  );
+  const leaveDailyRate = toFixed2(calculateDailySalary(input.grossSalary));
+  const leaveLiability = toFixed2(unusedLeaveDays * leaveDailyRate);
+
+  return {
+    userId: input.userId,
+    name: input.name,
+    employeeId: input.employeeId,
+    basicSalary: input.basicSalary,
+    grossSalary: input.grossSalary,
+    monthsOfService: gratuity.monthsOfService,
+    gratuityPolicyName: gratuity.policy.name,
+    gratuityLiability: gratuity.gratuityAmount,
+    unusedLeaveDays,
+    leaveDailyRate,
+    leaveLiability,
+    totalLiability: toFixed2(gratuity.gratuityAmount + leaveLiability),
+  };
+}
+
+export function sumLiabilities(liabilities: EmployeeLiability[]): LiabilityTotals {
+  return liabilities.reduce(
+    (totals, liability) => ({
+      gratuityLiability: toFixed2(totals.gratuityLiability + liability.gratuityLiability),
+      leaveLiability: toFixed2(totals.leaveLiability + liability.leaveLiability),
+      totalLiability: toFixed2(totals.totalLiability + liability.totalLiability),
+    }),
+    { gratuityLiability: 0, leaveLiability: 0, totalLiability: 0 }
+  );
+}
+
+/**
+ * Per-employee movement between two month-end snapshots. Employees in only
+ * one of them are marked as joining or leaving the provision.
+ */
+export function compareLiabilities(
+  current: EmployeeLiability[],
+  previous: EmployeeLiability[]
+): LiabilityMovement[] {
+  const previousByUser = new Map(previous.map(liability => [liability.userId, liability]));
+  const currentIds = new Set(current.map(liability => liability.userId));
+
+  const movements: LiabilityMovement[] = current.map(liability => {
+    const before = previousByUser.get(liability.userId) || null;
+    return {
+      userId: liability.userId,
+      name: liability.name,
+      employeeId: liability.employeeId,
+      current: liability,
+      previous: before,
+      gratuityMovement: toFixed2(liability.gratuityLiability - (before?.gratuityLiability || 0)),
+      leaveDaysMovement: toFixed2(liability.unusedLeaveDays - (before?.unusedLeaveDays || 0)),
+      leaveMovement: toFixed2(liability.leaveLiability - (before?.leaveLiability || 0)),
+      totalMovement: toFixed2(liability.totalLiability - (before?.totalLiability || 0)),
+      change: before ? null : 'NEW',
+    };
+  });
+
+  for (const liability of previous) {
+    if (currentIds.has(liability.userId)) continue;
+    movements.push({
+      userId: liability.userId,
+      name: liability.name,
+      employeeId: liability.employeeId,
+      current: null,
+      previous: liability,
+      gratuityMovement: 0 - liability.gratuityLiability,
+      leaveDaysMovement: 0 - liability.unusedLeaveDays,
+      leaveMovement: 0 - liability.leaveLiability,
+      totalMovement: 0 - liability.totalLiability,
+      change: 'LEFT',
+    });
+  }
+
+  return movements.sort((a, b) => a.name.localeCompare(b.name));
+}
@@ -0,0 +1,45 @@
+import { toFixed2 } from './utils';
+
+/**
+ * Qatar Labour Law overtime rates (Law No. 14 of 2004, Article 74):
+ * - Regular overtime: basic hourly wage plus at least 25%
+ * - Overtime between 9 PM and 6 AM, and work on the weekly rest day or a
+ *   public holiday: basic hourly wage plus at least 50%
+ */
+export const OVERTIME_RATE_MULTIPLIERS = {
+  REGULAR: 1.25,
+  NIGHT_OR_REST_DAY: 1.5,
+} as const;
+
+export type OvertimeRateMultiplier =
+  (typeof OVERTIME_RATE_MULTIPLIERS)[keyof typeof OVERTIME_RATE_MULTIPLIERS];
+
+/**
+ * Regular working hours per day (Article 73: 48 hours a week, 8 a day)
+ */
+export const STANDARD_WORKING_HOURS_PER_DAY = 8;
+
+/**
+ * Hourly basic wage: monthly basic salary / 30 days / 8 hours
+ */
+export function calculateHourlyRate(basicSalary: number): number {
+  return toFixed2(basicSalary / 30 / STANDARD_WORKING_HOURS_PER_DAY);
+}
+
+/**
+ * Overtime pay for a number of hours at a rate multiplier
+ */
+export function calculateOvertimeAmount(
+  basicSalary: number,
+  hours: number,
+  rateMultiplier: number
+): number {
+  return toFixed2(calculateHourlyRate(basicSalary) * hours * rateMultiplier);
+}
+
+/**
+ * Label for an overtime multiplier, e.g. 1.25 -> "125%"
+ */
+export function formatRateMultiplier(rateMultiplier: number): string {
+  return `${Math.round(rateMultiplier * 100)}%`;
+}
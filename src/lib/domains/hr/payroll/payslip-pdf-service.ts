@@ -0,0 +1,228 @@
+import archiver from 'archiver';
+import { PassThrough } from 'stream';
+import { Prisma } from '@prisma/client';
+import { getBrandingSettings } from '@/lib/core/branding';
+import { sendBatchEmails } from '@/lib/core/email';
+import { payslipEmail } from '@/lib/core/email-templates';
+import {
+  generatePayslipPdf,
+  getPayslipPassword,
+  getPayslipPdfFilename,
+  PayslipPdfBranding,
+} from './payslip-pdf';
+import { formatPayPeriod, parseDecimal } from './utils';
+import type { PayslipEmailResult, PayslipPdfData } from '@/lib/types/payroll';
+
+/**
+ * Everything a payslip PDF is drawn from
+ */
+export const PAYSLIP_PDF_INCLUDE = {
+  user: {
+    select: {
+      name: true,
+      email: true,
+      hrProfile: {
+        select: {
+          employeeId: true,
+          designation: true,
+        },
+      },
+    },
+  },
+  payrollRun: {
+    select: {
+      year: true,
+      month: true,
+    },
+  },
+  earnings: { orderBy: { createdAt: 'asc' } },
+  deductions: { orderBy: { createdAt: 'asc' } },
+} satisfies Prisma.PayslipInclude;
+
+export type PayslipWithPdfDetails = Prisma.PayslipGetPayload<{ include: typeof PAYSLIP_PDF_INCLUDE }>;
+
+function formatLineType(type: string): string {
+  return type
+    .split('_')
+    .map(word => word.charAt(0) + word.slice(1).toLowerCase())
+    .join(' ');
+}
+
+export function toPayslipPdfData(payslip: PayslipWithPdfDetails): PayslipPdfData {
+  const allowances = [
+    { label: 'Basic Salary', amount: parseDecimal(payslip.basicSalary) },
+    { label: 'Housing Allowance', amount: parseDecimal(payslip.housingAllowance) },
+    { label: 'Transport Allowance', amount: parseDecimal(payslip.transportAllowance) },
+    { label: 'Food Allowance', amount: parseDecimal(payslip.foodAllowance) },
+    { label: 'Phone Allowance', amount: parseDecimal(payslip.phoneAllowance) },
+    {
+      label: 'Other Allowances',
+      description: payslip.otherAllowancesDetails,
+      amount: parseDecimal(payslip.otherAllowances),
+    },
+  ].filter(line => line.label === 'Basic Salary' || line.amount > 0);
+
+  return {
+    payslipId: payslip.id,
+    payslipNumber: payslip.payslipNumber,
+    year: payslip.payrollRun.year,
+    month: payslip.payrollRun.month,
+    employeeName: payslip.user.name || payslip.user.email,
+    employeeId: payslip.user.hrProfile?.employeeId ?? null,
+    designation: payslip.user.hrProfile?.designation ?? null,
+    email: payslip.user.email,
+    qidNumber: payslip.qidNumber,
+    bankName: payslip.bankName,
+    iban: payslip.iban,
+    earnings: [
+      ...allowances,
+      ...payslip.earnings.map(earning => ({
+        label: formatLineType(earning.type),
+        description: earning.description,
+        amount: parseDecimal(earning.amount),
+      })),
+    ],
+    deductions: payslip.deductions.map(deduction => ({
+      label: formatLineType(deduction.type),
+      description: deduction.description,
+      amount: parseDecimal(deduction.amount),
+    })),
+    grossSalary: parseDecimal(payslip.grossSalary),
+    totalDeductions: parseDecimal(payslip.totalDeductions),
+    netSalary: parseDecimal(payslip.netSalary),
+    paidAt: payslip.paidAt,
+  };
+}
+
+/**
+ * Company branding for payslips. The logo is embedded when it is a PNG or
+ * JPEG that can be downloaded; otherwise the payslip is drawn without it.
+ */
+export async function getPayslipPdfBranding(): Promise<PayslipPdfBranding> {
+  const branding = await getBrandingSettings();
+  let logo: PayslipPdfBranding['logo'] = null;
+
+  if (branding.logoUrl && /^https?:\/\//.test(branding.logoUrl)) {
+    try {
+      const response = await fetch(branding.logoUrl);
+      const contentType = response.headers.get('content-type') || '';
+      const format = contentType.includes('png') ? 'PNG' : /jpe?g/.test(contentType) ? 'JPEG' : null;
+
+      if (response.ok && format) {
+        const data = Buffer.from(await response.arrayBuffer()).toString('base64');
+        logo = { data: `data:${contentType};base64,${data}`, format };
+      }
+    } catch (error) {
+      console.error('Failed to load branding logo for payslips:', error);
+    }
+  }
+
+  return {
+    companyName: branding.companyName,
+    primaryColor: branding.primaryColor,
+    logo,
+  };
+}
+
+export interface PayslipPdfFile {
+  filename: string;
+  content: Buffer;
+}
+
+/**
+ * Render a payslip, optionally protected with the employee's QID digits.
+ * Throws when protection is requested and the employee has no QID.
+ */
+export function renderPayslipPdf(
+  data: PayslipPdfData,
+  branding: PayslipPdfBranding,
+  protectWithQid = false
+): PayslipPdfFile {
+  const password = protectWithQid ? getPayslipPassword(data.qidNumber) : null;
+  if (protectWithQid && !password) {
+    throw new Error('No QID number to protect the payslip with');
+  }
+
+  return {
+    filename: getPayslipPdfFilename(data),
+    content: generatePayslipPdf(data, branding, { password }),
+  };
+}
+
+/**
+ * Bundle payslip PDFs into a ZIP archive
+ */
+export async function createPayslipZip(files: PayslipPdfFile[]): Promise<Buffer> {
+  const archive = archiver('zip', { zlib: { level: 9 } });
+  const output = new PassThrough();
+  const chunks: Buffer[] = [];
+
+  const done = new Promise<Buffer>((resolve, reject) => {
+    output.on('data', (chunk: Buffer) => chunks.push(chunk));
+    output.on('end', () => resolve(Buffer.concat(chunks)));
+    archive.on('error', reject);
+  });
+
+  archive.pipe(output);
+  for (const file of files) {
+    archive.append(file.content, { name: file.filename });
+  }
+  await archive.finalize();
+
+  return done;
+}
+
+/**
+ * Email each employee their own payslip PDF. Employees without an email
+ * address, or without a QID when protection is on, are reported as not sent.
+ */
+export async function emailPayslips(
+  payslips: PayslipWithPdfDetails[],
+  protectWithQid: boolean
+): Promise<PayslipEmailResult[]> {
+  const branding = await getPayslipPdfBranding();
+  const results: PayslipEmailResult[] = [];
+  const emails: Parameters<typeof sendBatchEmails>[0] = [];
+  const queued: PayslipEmailResult[] = [];
+
+  for (const payslip of payslips) {
+    const data = toPayslipPdfData(payslip);
+    const result: PayslipEmailResult = {
+      payslipId: payslip.id,
+      employeeName: data.employeeName,
+      email: data.email,
+      sent: false,
+    };
+
+    try {
+      const file = renderPayslipPdf(data, branding, protectWithQid);
+      const content = payslipEmail({
+        employeeName: data.employeeName,
+        companyName: branding.companyName,
+        payPeriod: formatPayPeriod(data.year, data.month),
+        payslipNumber: data.payslipNumber,
+        passwordProtected: protectWithQid,
+      });
+
+      emails.push({ to: data.email, ...content, attachments: [file] });
+      queued.push(result);
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : 'Failed to generate payslip';
+    }
+
+    results.push(result);
+  }
+
+  if (emails.length > 0) {
+    const { results: sendResults } = await sendBatchEmails(emails);
+    sendResults.forEach((sendResult, index) => {
+      const failed = 'success' in sendResult && !sendResult.success;
+      queued[index].sent = !failed;
+      if (failed) {
+        queued[index].error = ('error' in sendResult && sendResult.error) || 'Failed to send email';
+      }
+    });
+  }
+
+  return results;
+}
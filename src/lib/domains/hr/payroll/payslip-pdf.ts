@@ -0,0 +1,238 @@
+import { jsPDF } from 'jspdf';
+import { formatCurrency, formatPayPeriod } from './utils';
+import type { PayslipPdfData, PayslipPdfLine } from '@/lib/types/payroll';
+
+/**
+ * Branded payslip PDFs
+ *
+ * Payslips are drawn with jsPDF so the same document is produced for the
+ * employee download, the bulk email attachment and the run ZIP.
+ */
+
+export interface PayslipPdfBranding {
+  companyName: string;
+  primaryColor: string;
+  /** Base64 image data for the company logo, when it could be loaded */
+  logo: { data: string; format: 'PNG' | 'JPEG' } | null;
+}
+
+export interface PayslipPdfOptions {
+  /** Password required to open the PDF */
+  password?: string | null;
+}
+
+const PAGE_MARGIN = 15;
+const PAGE_BOTTOM = 275;
+const HEADER_HEIGHT = 30;
+
+/**
+ * The password for a protected payslip: the digits of the employee's QID.
+ * Returns null when there is no QID to protect the file with.
+ */
+export function getPayslipPassword(qidNumber: string | null | undefined): string | null {
+  const digits = (qidNumber || '').replace(/\D/g, '');
+  return digits.length > 0 ? digits : null;
+}
+
+export function getPayslipPdfFilename(data: Pick<PayslipPdfData, 'payslipNumber' | 'employeeName'>): string {
+  const name = data.employeeName.replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${data.payslipNumber}${name ? `-${name}` : ''}.pdf`;
+}
+
+function maskIban(iban: string): string {
+  return iban.length > 4 ? `****${iban.slice(-4)}` : iban;
+}
+
+function isValidHexColor(color: string): boolean {
+  return /^#[0-9a-fA-F]{6}$/.test(color);
+}
+
+/**
+ * Draw one column of earnings or deductions and return the y position below it
+ */
+function drawLines(
+  doc: jsPDF,
+  title: string,
+  lines: PayslipPdfLine[],
+  total: { label: string; amount: number },
+  x: number,
+  width: number,
+  startY: number
+): number {
+  let y = startY;
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(11);
+  doc.text(title, x, y);
+  y += 2;
+  doc.setDrawColor(200);
+  doc.line(x, y, x + width, y);
+  y += 6;
+
+  doc.setFontSize(9);
+  if (lines.length === 0) {
+    doc.setFont('helvetica', 'italic');
+    doc.setTextColor(120);
+    doc.text('None', x, y);
+    doc.setTextColor(0);
+    y += 6;
+  }
+
+  for (const line of lines) {
+    if (y > PAGE_BOTTOM) {
+      doc.addPage();
+      y = PAGE_MARGIN + 5;
+    }
+
+    doc.setFont('helvetica', 'normal');
+    doc.text(line.label, x, y);
+    doc.text(formatCurrency(line.amount), x + width, y, { align: 'right' });
+
+    if (line.description && line.description !== line.label) {
+      y += 4;
+      doc.setFontSize(7.5);
+      doc.setTextColor(110);
+      const description = doc.splitTextToSize(line.description, width - 35) as string[];
+      doc.text(description, x, y);
+      y += (description.length - 1) * 3.5;
+      doc.setTextColor(0);
+      doc.setFontSize(9);
+    }
+    y += 6;
+  }
+
+  doc.line(x, y - 3, x + width, y - 3);
+  doc.setFont('helvetica', 'bold');
+  doc.text(total.label, x, y + 2);
+  doc.text(formatCurrency(total.amount), x + width, y + 2, { align: 'right' });
+
+  return y + 8;
+}
+
+/**
+ * Render a payslip as a PDF document
+ */
+export function generatePayslipPdf(
+  data: PayslipPdfData,
+  branding: PayslipPdfBranding,
+  options: PayslipPdfOptions = {}
+): Buffer {
+  const doc = new jsPDF({
+    format: 'a4',
+    unit: 'mm',
+    ...(options.password && {
+      encryption: {
+        userPassword: options.password,
+        ownerPassword: options.password,
+        userPermissions: ['print'],
+      },
+    }),
+  });
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const contentWidth = pageWidth - PAGE_MARGIN * 2;
+  const primaryColor = isValidHexColor(branding.primaryColor) ? branding.primaryColor : '#3B82F6';
+  const period = formatPayPeriod(data.year, data.month);
+
+  // Header band
+  doc.setFillColor(primaryColor);
+  doc.rect(0, 0, pageWidth, HEADER_HEIGHT, 'F');
+
+  let titleX = PAGE_MARGIN;
+  if (branding.logo) {
+    try {
+      const { width, height } = doc.getImageProperties(branding.logo.data);
+      const logoHeight = 16;
+      const logoWidth = Math.min((width / height) * logoHeight, 50);
+      doc.addImage(branding.logo.data, branding.logo.format, PAGE_MARGIN, 7, logoWidth, logoHeight);
+      titleX += logoWidth + 5;
+    } catch (error) {
+      console.error('Payslip PDF logo error:', error);
+    }
+  }
+
+  doc.setTextColor(255);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.text(branding.companyName, titleX, 14);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.text(`Payslip for ${period}`, titleX, 21);
+  doc.setFontSize(9);
+  doc.text(data.payslipNumber, pageWidth - PAGE_MARGIN, 14, { align: 'right' });
+  if (data.paidAt) {
+    doc.text(`Paid ${data.paidAt.toLocaleDateString('en-GB')}`, pageWidth - PAGE_MARGIN, 21, { align: 'right' });
+  }
+  doc.setTextColor(0);
+
+  // Employee details
+  let y = HEADER_HEIGHT + 12;
+  const details: [string, string][] = [
+    ['Employee', data.employeeName],
+    ['Employee ID', data.employeeId || '-'],
+    ['Designation', data.designation || '-'],
+    ['Pay Period', period],
+    ['Bank', data.bankName || '-'],
+    ['IBAN', data.iban ? maskIban(data.iban) : '-'],
+  ];
+  const columnWidth = contentWidth / 2;
+  details.forEach(([label, value], index) => {
+    const x = PAGE_MARGIN + (index % 2) * columnWidth;
+    const rowY = y + Math.floor(index / 2) * 7;
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(110);
+    doc.text(label, x, rowY);
+    doc.setTextColor(0);
+    doc.setFontSize(10);
+    doc.text(value, x + 28, rowY);
+  });
+  y += Math.ceil(details.length / 2) * 7 + 8;
+
+  // Earnings and deductions
+  y = drawLines(
+    doc,
+    'Earnings',
+    data.earnings,
+    { label: 'Total Earnings', amount: data.grossSalary },
+    PAGE_MARGIN,
+    contentWidth,
+    y
+  );
+  y = drawLines(
+    doc,
+    'Deductions',
+    data.deductions,
+    { label: 'Total Deductions', amount: data.totalDeductions },
+    PAGE_MARGIN,
+    contentWidth,
+    y + 4
+  );
+
+  // Net pay
+  if (y + 20 > PAGE_BOTTOM) {
+    doc.addPage();
+    y = PAGE_MARGIN;
+  }
+  doc.setFillColor(primaryColor);
+  doc.rect(PAGE_MARGIN, y, contentWidth, 14, 'F');
+  doc.setTextColor(255);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(12);
+  doc.text('Net Pay', PAGE_MARGIN + 4, y + 9);
+  doc.text(formatCurrency(data.netSalary), pageWidth - PAGE_MARGIN - 4, y + 9, { align: 'right' });
+  doc.setTextColor(0);
+
+  // Footer
+  doc.setFont('helvetica', 'italic');
+  doc.setFontSize(8);
+  doc.setTextColor(120);
+  doc.text(
+    'This is a computer-generated payslip and does not require a signature.',
+    pageWidth / 2,
+    doc.internal.pageSize.getHeight() - 10,
+    { align: 'center' }
+  );
+
+  return Buffer.from(doc.output('arraybuffer'));
+}
@@ -3,112 +3,380 @@ import { WPSEmployeeRecord, WPSFileHeader } from '@/lib/types/payroll';
 /**
  * Qatar Wage Protection System (WPS) SIF File Generator
  *
- * SIF (Salary Information File) Format Specification:
- * - Fixed-width text file
- * - Each employee record on separate line
- * - File submitted to banks/exchange houses
+ * SIF (Salary Information File) layout:
+ * - Comma-separated text file submitted to the payer bank
+ * - One employer record (EID, payer bank, period, totals)
+ * - One salary record per employee (QID, bank, IBAN, working days,
+ *   basic salary, extra hours/income, deductions with a reason code, net)
+ * - Optional field-name rows above the employer and employee records
  *
- * Standard fields (simplified version):
- * - Employer MOL ID (10 chars)
- * - Employee QID (11 chars)
- * - Employee Name (40 chars)
- * - Bank Code (4 chars)
- * - IBAN (29 chars)
- * - Salary Amount (13 chars, last 3 decimals)
- * - Extra Earnings (13 chars)
- * - Deductions (13 chars)
- * - Payment Date (8 chars, YYYYMMDD)
+ * Banks differ in small details (field-name rows, name length, reason codes),
+ * which are set per organization as a variant of the standard layout in the
+ * WPS settings.
  */
 
+// ===== Layout =====
+
+export const SIF_HEADER_FIELDS = [
+  'Employer EID',
+  'File Creation Date',
+  'File Creation Time',
+  'Payer EID',
+  'Payer QID',
+  'Payer Bank Short Name',
+  'Payer IBAN',
+  'Salary Year and Month',
+  'Total Salaries',
+  'Total records',
+] as const;
+
+export const SIF_RECORD_FIELDS = [
+  'Record Sequence',
+  'Employee QID',
+  'Employee Visa ID',
+  'Employee Name',
+  'Employee Bank Short Name',
+  'Employee Account',
+  'Salary Frequency',
+  'Number of Working days',
+  'Net Salary',
+  'Basic Salary',
+  'Extra hours',
+  'Extra income',
+  'Deductions',
+  'Payment Type',
+  'Notes / Comments',
+  'Housing Allowance',
+  'Food Allowance',
+  'Transportation Allowance',
+  'Over Time Allowance',
+  'Deduction Reason Code',
+] as const;
+
+/**
+ * Default deduction reason codes by payslip deduction type
+ */
+export const WPS_DEDUCTION_REASON_CODES: Record<string, string> = {
+  UNPAID_LEAVE: '1',
+  LOAN_REPAYMENT: '2',
+  ADVANCE_DEDUCTION: '3',
+  OTHER: '9',
+};
+
+// ===== Bank Variants =====
+
+export interface WPSSIFVariant {
+  id: string;
+  label: string;
+  delimiter: string;
+  lineEnding: string;
+  /** Emit the field-name rows above the employer and employee records */
+  includeFieldNames: boolean;
+  /** Employee names are truncated to this length */
+  nameMaxLength: number;
+  fileExtension: string;
+  paymentType: string;
+  deductionReasonCodes: Record<string, string>;
+}
+
+export const STANDARD_SIF_VARIANT: WPSSIFVariant = {
+  id: 'STANDARD',
+  label: 'Standard SIF',
+  delimiter: ',',
+  lineEnding: '\r\n', // Windows-style line endings for compatibility
+  includeFieldNames: true,
+  nameMaxLength: 70,
+  fileExtension: 'csv',
+  paymentType: 'Normal Payment',
+  deductionReasonCodes: WPS_DEDUCTION_REASON_CODES,
+};
+
+// ===== Generation =====
+
 /**
  * Generate WPS SIF file content
  */
 export function generateWPSSIFFile(
   header: WPSFileHeader,
-  records: WPSEmployeeRecord[]
+  records: WPSEmployeeRecord[],
+  variant: WPSSIFVariant = STANDARD_SIF_VARIANT
 ): string {
-  const lines: string[] = [];
+  const rows: string[][] = [];
 
-  // Header Record (SCR - Salary Control Record)
-  lines.push(formatSCRRecord(header));
+  if (variant.includeFieldNames) rows.push([...SIF_HEADER_FIELDS]);
+  rows.push(formatHeaderRecord(header));
 
-  // Employee Salary Detail Records (SDR)
-  for (const record of records) {
-    lines.push(formatSDRRecord(record, header));
-  }
+  if (variant.includeFieldNames) rows.push([...SIF_RECORD_FIELDS]);
+  records.forEach((record, index) => {
+    rows.push(formatEmployeeRecord(record, index + 1, variant));
+  });
 
-  // Trailer Record (ETR - End of Transmission Record)
-  lines.push(formatETRRecord(header, records.length));
+  return rows
+    .map(row => row.map(value => escapeField(value, variant.delimiter)).join(variant.delimiter))
+    .join(variant.lineEnding);
+}
 
-  return lines.join('\r\n'); // Windows-style line endings for compatibility
+/**
+ * Format the employer (header) record
+ */
+function formatHeaderRecord(header: WPSFileHeader): string[] {
+  return [
+    header.employerEid,
+    formatDate(header.paymentDate),
+    formatTime(header.paymentDate),
+    header.payerEid,
+    header.payerQid || '',
+    header.payerBankShortName,
+    header.payerIban.replace(/\s/g, '').toUpperCase(),
+    `${header.paymentYear}${header.paymentMonth.toString().padStart(2, '0')}`,
+    formatAmount(header.totalAmount),
+    header.totalRecords.toString(),
+  ];
 }
 
 /**
- * Format Salary Control Record (Header)
+ * Format an employee salary record
  */
-function formatSCRRecord(header: WPSFileHeader): string {
-  const fields = [
-    'SCR', // Record Type (3 chars)
-    padRight(header.employerMolId, 10), // Employer MOL ID
-    padRight(header.employerName.toUpperCase(), 40), // Employer Name
-    formatDate(header.paymentDate), // Payment Date (YYYYMMDD)
-    padLeft(header.totalRecords.toString(), 6, '0'), // Total Records
-    formatAmount(header.totalAmount), // Total Amount
+function formatEmployeeRecord(record: WPSEmployeeRecord, sequence: number, variant: WPSSIFVariant): string[] {
+  return [
+    sequence.toString().padStart(6, '0'),
+    record.qidNumber,
+    record.visaId || '',
+    record.employeeName.toUpperCase().substring(0, variant.nameMaxLength),
+    record.bankCode || '',
+    record.iban.replace(/\s/g, '').toUpperCase(),
+    record.salaryFrequency,
+    record.workingDays.toString(),
+    formatAmount(record.netSalary),
+    formatAmount(record.basicSalary),
+    formatHours(record.extraHours),
+    formatAmount(getExtraIncome(record)),
+    formatAmount(record.totalDeductions),
+    variant.paymentType,
+    record.notes || '',
+    formatAmount(record.housingAllowance),
+    formatAmount(record.foodAllowance),
+    formatAmount(record.transportAllowance),
+    formatAmount(record.overtimeAllowance),
+    record.totalDeductions > 0 ? record.deductionReasonCode || '' : '',
   ];
+}
 
-  return fields.join('');
+/**
+ * Everything paid on top of basic salary
+ */
+export function getExtraIncome(record: Pick<
+  WPSEmployeeRecord,
+  'housingAllowance' | 'foodAllowance' | 'transportAllowance' | 'otherAllowances' | 'overtimeAllowance'
+>): number {
+  return roundAmount(
+    record.housingAllowance +
+    record.foodAllowance +
+    record.transportAllowance +
+    record.otherAllowances +
+    record.overtimeAllowance
+  );
 }
 
 /**
- * Format Salary Detail Record (Employee)
+ * Pick the reason code for a payslip's deductions: the code of the largest
+ * deduction (SIF records carry a single reason code)
  */
-function formatSDRRecord(record: WPSEmployeeRecord, header: WPSFileHeader): string {
-  const totalEarnings = record.basicSalary + record.housingAllowance + record.otherAllowances;
+export function getDeductionReasonCode(
+  deductions: Array<{ type: string; amount: number }>,
+  variant: WPSSIFVariant = STANDARD_SIF_VARIANT
+): string | null {
+  const largest = deductions
+    .filter(d => d.amount > 0)
+    .sort((a, b) => b.amount - a.amount)[0];
+  if (!largest) return null;
+  return variant.deductionReasonCodes[largest.type] ?? variant.deductionReasonCodes.OTHER ?? null;
+}
 
-  const fields = [
-    'SDR', // Record Type (3 chars)
-    padRight(record.qidNumber, 11), // Employee QID
-    padRight(record.employeeName.toUpperCase(), 40), // Employee Name
-    padRight(record.bankCode, 4), // Bank Code
-    padRight(record.iban.toUpperCase(), 29), // IBAN
-    formatAmount(record.basicSalary), // Basic Salary
-    formatAmount(record.housingAllowance), // Housing Allowance
-    formatAmount(record.otherAllowances), // Other Allowances
-    formatAmount(record.totalDeductions), // Total Deductions
-    formatAmount(record.netSalary), // Net Salary
-    formatDate(header.paymentDate), // Payment Date
-  ];
+// ===== Parsing =====
 
-  return fields.join('');
+export interface ParsedWPSSIFFile {
+  header: WPSFileHeader | null;
+  records: Array<WPSEmployeeRecord & { sequence: number; extraIncome: number }>;
+  errors: string[];
 }
 
 /**
- * Format End of Transmission Record (Trailer)
+ * Parse an SIF file (with or without field-name rows) back into records,
+ * e.g. to reconcile a file the bank returned against the payroll run
  */
-function formatETRRecord(header: WPSFileHeader, recordCount: number): string {
-  const fields = [
-    'ETR', // Record Type (3 chars)
-    padLeft(recordCount.toString(), 6, '0'), // Total Employee Records
-    formatAmount(header.totalAmount), // Total Net Amount
-  ];
+export function parseWPSSIFFile(content: string, delimiter = ','): ParsedWPSSIFFile {
+  const errors: string[] = [];
+  const rows = content
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    .map(line => splitFields(line, delimiter))
+    .filter(row => row[0] !== SIF_HEADER_FIELDS[0] && row[0] !== SIF_RECORD_FIELDS[0]);
+
+  if (rows.length === 0) {
+    return { header: null, records: [], errors: ['File is empty'] };
+  }
+
+  const [headerRow, ...recordRows] = rows;
+  let header: WPSFileHeader | null = null;
+
+  if (headerRow.length < SIF_HEADER_FIELDS.length) {
+    errors.push(`Employer record has ${headerRow.length} fields, expected ${SIF_HEADER_FIELDS.length}`);
+  } else {
+    const period = headerRow[7];
+    header = {
+      employerEid: headerRow[0],
+      paymentDate: parseDateTime(headerRow[1], headerRow[2]),
+      payerEid: headerRow[3],
+      payerQid: headerRow[4] || null,
+      payerBankShortName: headerRow[5],
+      payerIban: headerRow[6],
+      paymentYear: parseInt(period.substring(0, 4)),
+      paymentMonth: parseInt(period.substring(4, 6)),
+      totalAmount: parseAmount(headerRow[8]),
+      totalRecords: parseInt(headerRow[9]) || 0,
+    };
+  }
+
+  const records: ParsedWPSSIFFile['records'] = [];
+  recordRows.forEach((row, index) => {
+    if (row.length < SIF_RECORD_FIELDS.length) {
+      errors.push(`Record ${index + 1} has ${row.length} fields, expected ${SIF_RECORD_FIELDS.length}`);
+      return;
+    }
+
+    const housingAllowance = parseAmount(row[15]);
+    const foodAllowance = parseAmount(row[16]);
+    const transportAllowance = parseAmount(row[17]);
+    const overtimeAllowance = parseAmount(row[18]);
+    const extraIncome = parseAmount(row[11]);
+
+    records.push({
+      sequence: parseInt(row[0]) || index + 1,
+      qidNumber: row[1],
+      visaId: row[2] || null,
+      employeeName: row[3],
+      bankCode: row[4] || null,
+      iban: row[5],
+      salaryFrequency: row[6] === 'B' ? 'B' : 'M',
+      workingDays: parseInt(row[7]) || 0,
+      netSalary: parseAmount(row[8]),
+      basicSalary: parseAmount(row[9]),
+      extraHours: parseFloat(row[10]) || 0,
+      extraIncome,
+      totalDeductions: parseAmount(row[12]),
+      notes: row[14] || null,
+      housingAllowance,
+      foodAllowance,
+      transportAllowance,
+      // Not a separate SIF column: whatever extra income the itemised allowances don't explain
+      otherAllowances: roundAmount(
+        Math.max(0, extraIncome - housingAllowance - foodAllowance - transportAllowance - overtimeAllowance)
+      ),
+      overtimeAllowance,
+      deductionReasonCode: row[19] || null,
+    });
+  });
+
+  if (header) {
+    if (header.totalRecords !== records.length) {
+      errors.push(`Employer record declares ${header.totalRecords} records but the file has ${records.length}`);
+    }
+    const total = roundAmount(records.reduce((sum, r) => sum + r.netSalary, 0));
+    if (Math.abs(total - header.totalAmount) > 0.01) {
+      errors.push(`Employer record total ${formatAmount(header.totalAmount)} does not match record total ${formatAmount(total)}`);
+    }
+  }
+
+  return { header, records, errors };
+}
+
+export interface WPSReconciliationResult {
+  matched: string[];
+  missingFromFile: string[];
+  unexpectedInFile: string[];
+  amountMismatches: Array<{ qidNumber: string; expected: number; actual: number }>;
+}
+
+/**
+ * Compare SIF records against the expected records by QID and net salary
+ */
+export function reconcileWPSRecords(
+  fileRecords: Array<Pick<WPSEmployeeRecord, 'qidNumber' | 'netSalary'>>,
+  expectedRecords: Array<Pick<WPSEmployeeRecord, 'qidNumber' | 'netSalary'>>
+): WPSReconciliationResult {
+  const fileByQid = new Map(fileRecords.map(r => [r.qidNumber, r]));
+  const expectedQids = new Set(expectedRecords.map(r => r.qidNumber));
 
-  return fields.join('');
+  const result: WPSReconciliationResult = {
+    matched: [],
+    missingFromFile: [],
+    unexpectedInFile: fileRecords.filter(r => !expectedQids.has(r.qidNumber)).map(r => r.qidNumber),
+    amountMismatches: [],
+  };
+
+  for (const expected of expectedRecords) {
+    const actual = fileByQid.get(expected.qidNumber);
+    if (!actual) {
+      result.missingFromFile.push(expected.qidNumber);
+    } else if (Math.abs(actual.netSalary - expected.netSalary) > 0.01) {
+      result.amountMismatches.push({
+        qidNumber: expected.qidNumber,
+        expected: expected.netSalary,
+        actual: actual.netSalary,
+      });
+    } else {
+      result.matched.push(expected.qidNumber);
+    }
+  }
+
+  return result;
 }
 
 // ===== Helper Functions =====
 
 /**
- * Pad string to the right with specified character
+ * Quote a field when it contains the delimiter or quotes
  */
-function padRight(str: string, length: number, char = ' '): string {
-  return str.substring(0, length).padEnd(length, char);
+function escapeField(value: string, delimiter: string): string {
+  if (value.includes(delimiter) || value.includes('"')) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
 }
 
 /**
- * Pad string to the left with specified character
+ * Split a delimited line, honouring quoted fields
  */
-function padLeft(str: string, length: number, char = ' '): string {
-  return str.substring(0, length).padStart(length, char);
+function splitFields(line: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current.trim());
+
+  return fields;
 }
 
 /**
@@ -122,14 +390,39 @@ function formatDate(date: Date): string {
 }
 
 /**
- * Format amount for WPS file
- * Format: 13 characters, last 3 are decimals (fils)
- * e.g., 10000.50 becomes 0000010000500
+ * Format time as HHMM
+ */
+function formatTime(date: Date): string {
+  return date.getHours().toString().padStart(2, '0') + date.getMinutes().toString().padStart(2, '0');
+}
+
+function parseDateTime(date: string, time: string): Date {
+  return new Date(
+    parseInt(date.substring(0, 4)),
+    parseInt(date.substring(4, 6)) - 1,
+    parseInt(date.substring(6, 8)),
+    parseInt(time.substring(0, 2)) || 0,
+    parseInt(time.substring(2, 4)) || 0
+  );
+}
+
+/**
+ * Format amount for WPS file with 2 decimals, e.g., 10000.5 becomes 10000.50
  */
 function formatAmount(amount: number): string {
-  // Convert to fils (1 QAR = 1000 fils)
-  const fils = Math.round(amount * 1000);
-  return fils.toString().padStart(13, '0');
+  return roundAmount(amount).toFixed(2);
+}
+
+function formatHours(hours: number): string {
+  return Number.isInteger(hours) ? hours.toString() : hours.toFixed(2);
+}
+
+function parseAmount(value: string): number {
+  return roundAmount(parseFloat(value) || 0);
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
 }
 
 // ===== Bank Codes =====
@@ -160,22 +453,46 @@ export const QATAR_BANK_CODES: Record<string, string> = {
   'DUKHAN BANK': 'DUKH',
 };
 
+const KNOWN_BANK_CODES = new Set(Object.values(QATAR_BANK_CODES));
+
+/**
+ * Check if a code is a known WPS bank short name
+ */
+export function isKnownBankCode(code: string | null | undefined): boolean {
+  return !!code && KNOWN_BANK_CODES.has(code.toUpperCase().trim());
+}
+
 /**
- * Get bank code from bank name
+ * Get bank code from bank name.
+ * Accepts the bank's name or code; when the name is not recognised the bank
+ * identifier inside a Qatar IBAN (characters 5-8) is used if it is a known
+ * code. Returns null when the bank cannot be identified.
  */
-export function getBankCode(bankName: string): string {
-  if (!bankName) return 'XXXX';
-  const normalized = bankName.toUpperCase().trim();
-  return QATAR_BANK_CODES[normalized] || 'XXXX';
+export function getBankCode(bankName: string | null | undefined, iban?: string | null): string | null {
+  const normalized = (bankName || '').toUpperCase().trim();
+  if (normalized) {
+    if (QATAR_BANK_CODES[normalized]) return QATAR_BANK_CODES[normalized];
+    if (KNOWN_BANK_CODES.has(normalized)) return normalized;
+  }
+
+  const ibanBankId = (iban || '').replace(/\s/g, '').toUpperCase().substring(4, 8);
+  if (ibanBankId && KNOWN_BANK_CODES.has(ibanBankId)) return ibanBankId;
+
+  return null;
 }
 
+// ===== Validation =====
+
+const QID_REGEX = /^\d{11}$/;
+const QATAR_IBAN_REGEX = /^QA\d{2}[A-Z]{4}[A-Z0-9]{21}$/;
+
 /**
  * Validate WPS record data
  */
 export function validateWPSRecord(record: WPSEmployeeRecord): string[] {
   const errors: string[] = [];
 
-  if (!record.qidNumber || record.qidNumber.length !== 11) {
+  if (!QID_REGEX.test(record.qidNumber || '') && !record.visaId) {
     errors.push('QID must be exactly 11 digits');
   }
 
@@ -183,34 +500,76 @@ export function validateWPSRecord(record: WPSEmployeeRecord): string[] {
     errors.push('Employee name is required');
   }
 
-  if (!record.iban || record.iban.length < 10) {
-    errors.push('Valid IBAN is required');
+  if (!record.iban) {
+    errors.push('IBAN is required');
+  } else if (!QATAR_IBAN_REGEX.test(record.iban.replace(/\s/g, '').toUpperCase())) {
+    errors.push('IBAN must be a 29-character Qatar IBAN (QA...)');
   }
 
-  if (record.bankCode === 'XXXX') {
-    errors.push('Unknown bank code');
+  if (!record.bankCode) {
+    errors.push('Bank is not a recognised WPS bank');
+  }
+
+  if (record.salaryFrequency !== 'M' && record.salaryFrequency !== 'B') {
+    errors.push('Salary frequency must be M (monthly) or B (bi-weekly)');
+  }
+
+  if (!Number.isInteger(record.workingDays) || record.workingDays < 0 || record.workingDays > 31) {
+    errors.push('Working days must be a whole number between 0 and 31');
+  }
+
+  if (record.extraHours < 0) {
+    errors.push('Extra hours cannot be negative');
+  }
+
+  if (record.totalDeductions > 0 && !record.deductionReasonCode) {
+    errors.push('Deduction reason code is required when there are deductions');
   }
 
   if (record.netSalary <= 0) {
     errors.push('Net salary must be greater than 0');
+  } else {
+    const expectedNet = roundAmount(record.basicSalary + getExtraIncome(record) - record.totalDeductions);
+    if (Math.abs(expectedNet - record.netSalary) > 0.01) {
+      errors.push(`Net salary ${formatAmount(record.netSalary)} does not equal basic + extra income - deductions (${formatAmount(expectedNet)})`);
+    }
   }
 
   return errors;
 }
 
 /**
- * Generate WPS filename
- * Format: WPS_EMPLOYERID_YYYYMM_HHMMSS.sif
+ * Validate the employer record (company WPS settings)
  */
-export function generateWPSFileName(employerMolId: string, year: number, month: number): string {
-  const now = new Date();
-  const timestamp = [
-    now.getHours().toString().padStart(2, '0'),
-    now.getMinutes().toString().padStart(2, '0'),
-    now.getSeconds().toString().padStart(2, '0'),
-  ].join('');
+export function validateWPSHeader(header: Pick<WPSFileHeader, 'employerEid' | 'payerEid' | 'payerBankShortName' | 'payerIban'>): string[] {
+  const errors: string[] = [];
 
-  const monthStr = month.toString().padStart(2, '0');
+  if (!header.employerEid || !/^\d+$/.test(header.employerEid) || /^0+$/.test(header.employerEid)) {
+    errors.push('Employer EID (establishment ID) is not configured');
+  }
+
+  if (!header.payerEid || !/^\d+$/.test(header.payerEid)) {
+    errors.push('Payer EID is not configured');
+  }
 
-  return `WPS_${employerMolId}_${year}${monthStr}_${timestamp}.sif`;
+  if (!isKnownBankCode(header.payerBankShortName)) {
+    errors.push('Payer bank is not a recognised WPS bank');
+  }
+
+  if (!QATAR_IBAN_REGEX.test((header.payerIban || '').replace(/\s/g, '').toUpperCase())) {
+    errors.push('Payer IBAN must be a 29-character Qatar IBAN (QA...)');
+  }
+
+  return errors;
+}
+
+/**
+ * Generate WPS filename
+ * Format: SIF_EMPLOYEREID_BANK_YYYYMMDD_HHMM.csv
+ */
+export function generateWPSFileName(
+  header: Pick<WPSFileHeader, 'employerEid' | 'payerBankShortName' | 'paymentDate'>,
+  variant: WPSSIFVariant = STANDARD_SIF_VARIANT
+): string {
+  return `SIF_${header.employerEid}_${header.payerBankShortName}_${formatDate(header.paymentDate)}_${formatTime(header.paymentDate)}.${variant.fileExtension}`;
 }
@@ -1,49 +1,15 @@
 import { prisma, PrismaTransactionClient } from '@/lib/prisma';
 import { AssetStatus, AssetRequestStatus, AssetRequestType } from '@prisma/client';
+import { generateDocumentNumber } from '@/lib/domains/system/document-numbering/document-number-service';
 
 /**
- * Generate a unique request number
- * Format: AR-YYMMDD-XXX
- * Example: AR-241222-001
+ * Generate a unique request number from the ASSET_REQUEST DocumentNumberConfig
+ * Format: BCE-AR-YYXXX
+ * Example: BCE-AR-24001
  * @param tx - Optional transaction client to use (required when called inside a transaction)
  */
 export async function generateRequestNumber(tx?: PrismaTransactionClient): Promise<string> {
-  const db = tx || prisma;
-  const now = new Date();
-  const year = now.getFullYear().toString().slice(-2);
-  const month = (now.getMonth() + 1).toString().padStart(2, '0');
-  const day = now.getDate().toString().padStart(2, '0');
-  const datePrefix = `AR-${year}${month}${day}`;
-
-  // Find the highest sequence number for today
-  const existingRequests = await db.assetRequest.findMany({
-    where: {
-      requestNumber: {
-        startsWith: datePrefix,
-      },
-    },
-    orderBy: {
-      requestNumber: 'desc',
-    },
-    take: 1,
-  });
-
-  let nextSequence = 1;
-
-  if (existingRequests.length > 0) {
-    const latestNumber = existingRequests[0].requestNumber;
-    // Extract sequence from "AR-YYMMDD-XXX"
-    const parts = latestNumber.split('-');
-    if (parts.length === 3) {
-      const currentSequence = parseInt(parts[2], 10);
-      if (!isNaN(currentSequence)) {
-        nextSequence = currentSequence + 1;
-      }
-    }
-  }
-
-  const sequence = nextSequence.toString().padStart(3, '0');
-  return `${datePrefix}-${sequence}`;
+  return generateDocumentNumber('ASSET_REQUEST', { tx });
 }
 
 /**
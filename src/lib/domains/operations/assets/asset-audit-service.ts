@@ -0,0 +1,325 @@
+import { AssetAuditCampaignStatus, AssetAuditItemStatus, AssetStatus, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { AuthorizationError, ConflictError, NotFoundError, ValidationError } from '@/lib/http/errors';
+import { generateDocumentNumber } from '@/lib/domains/system/document-numbering/document-number-service';
+import { createBulkNotifications, NotificationTemplates } from '@/lib/domains/system/notifications';
+import {
+  recordAssetAssignment,
+  recordAssetCustodyConfirmation,
+  recordAssetLocationChange,
+  recordAssetStatusChange,
+  recordAssetUpdate,
+} from './asset-history';
+import { getAuditCorrection, getAuditDiscrepancies, summarizeAuditItems } from './asset-audit';
+import type {
+  AssetAuditResponseRequest,
+  CreateAssetAuditCampaignRequest,
+} from '@/lib/validations/operations/asset-audit';
+
+/**
+ * Everything shown for a campaign in the list (items only for the progress counts)
+ */
+export const AUDIT_CAMPAIGN_INCLUDE = {
+  startedBy: { select: { id: true, name: true, email: true } },
+  closedBy: { select: { id: true, name: true, email: true } },
+  items: {
+    select: {
+      status: true,
+      expectedLocation: true,
+      expectedSerial: true,
+      foundLocation: true,
+      foundSerial: true,
+    },
+  },
+} satisfies Prisma.AssetAuditCampaignInclude;
+
+/**
+ * Everything shown for an audit item
+ */
+export const AUDIT_ITEM_INCLUDE = {
+  campaign: {
+    select: { id: true, campaignNumber: true, name: true, status: true, dueDate: true },
+  },
+  asset: {
+    select: {
+      id: true,
+      assetTag: true,
+      model: true,
+      brand: true,
+      type: true,
+      status: true,
+      serial: true,
+      location: true,
+      assignedUser: { select: { id: true, name: true, email: true } },
+    },
+  },
+  responsibleUser: { select: { id: true, name: true, email: true } },
+  verifiedBy: { select: { id: true, name: true, email: true } },
+  correctedBy: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.AssetAuditItemInclude;
+
+type AuditCampaignWithDetails = Prisma.AssetAuditCampaignGetPayload<{ include: typeof AUDIT_CAMPAIGN_INCLUDE }>;
+type AuditItemWithDetails = Prisma.AssetAuditItemGetPayload<{ include: typeof AUDIT_ITEM_INCLUDE }>;
+
+/**
+ * Campaign with progress counts in place of its items
+ */
+export function transformAuditCampaign({ items, ...campaign }: AuditCampaignWithDetails) {
+  return {
+    ...campaign,
+    progress: summarizeAuditItems(items),
+  };
+}
+
+/**
+ * Audit item with its discrepancies and the correction that would be pushed
+ * to the asset (null once applied, or when there is nothing to change)
+ */
+export function transformAuditItem(item: AuditItemWithDetails) {
+  return {
+    ...item,
+    discrepancies: getAuditDiscrepancies(item),
+    correction: item.correctedAt
+      ? null
+      : getAuditCorrection(item, item.asset.status, item.campaign.campaignNumber),
+  };
+}
+
+/**
+ * Assets a campaign covers: everything not disposed, narrowed to a location
+ * and/or BCE category
+ */
+export function getAuditScopeWhere(scope: { location?: string | null; categoryCode?: string | null }): Prisma.AssetWhereInput {
+  return {
+    status: { not: AssetStatus.DISPOSED },
+    ...(scope.location?.trim() && { location: { equals: scope.location.trim(), mode: 'insensitive' } }),
+    ...(scope.categoryCode && { assetCategory: scope.categoryCode }),
+  };
+}
+
+/**
+ * Start a campaign: snapshot the records of every asset in scope and ask
+ * each assigned user to confirm their assets. Assets that are not in use
+ * have no responsible user and are verified by admins scanning them.
+ */
+export async function startAuditCampaign(input: CreateAssetAuditCampaignRequest, userId: string) {
+  const campaign = await prisma.$transaction(async (tx) => {
+    const assets = await tx.asset.findMany({
+      where: getAuditScopeWhere(input),
+      select: { id: true, status: true, assignedUserId: true, location: true, serial: true },
+    });
+
+    if (assets.length === 0) {
+      throw new ValidationError('No assets match this location and category');
+    }
+
+    const campaignNumber = await generateDocumentNumber('ASSET_AUDIT', { tx });
+
+    return tx.assetAuditCampaign.create({
+      data: {
+        campaignNumber,
+        name: input.name,
+        description: input.description || null,
+        location: input.location?.trim() || null,
+        categoryCode: input.categoryCode || null,
+        dueDate: input.dueDate ?? null,
+        startedById: userId,
+        items: {
+          create: assets.map(asset => ({
+            assetId: asset.id,
+            responsibleUserId: asset.status === AssetStatus.IN_USE ? asset.assignedUserId : null,
+            expectedLocation: asset.location,
+            expectedSerial: asset.serial,
+          })),
+        },
+      },
+      include: {
+        ...AUDIT_CAMPAIGN_INCLUDE,
+        items: { select: { ...AUDIT_CAMPAIGN_INCLUDE.items.select, responsibleUserId: true } },
+      },
+    });
+  });
+
+  // One notification per user, however many of their assets are in scope
+  const assetCounts = new Map<string, number>();
+  for (const item of campaign.items) {
+    if (item.responsibleUserId) {
+      assetCounts.set(item.responsibleUserId, (assetCounts.get(item.responsibleUserId) ?? 0) + 1);
+    }
+  }
+
+  const notified = assetCounts.size > 0
+    ? await createBulkNotifications(
+        Array.from(assetCounts, ([recipientId, count]) =>
+          NotificationTemplates.assetAuditRequested(
+            recipientId,
+            campaign.campaignNumber,
+            campaign.name,
+            count,
+            campaign.dueDate,
+            campaign.id
+          )
+        )
+      )
+    : 0;
+
+  return { campaign: transformAuditCampaign(campaign), notified };
+}
+
+/**
+ * Record what was found for one asset. Assigned users answer for their own
+ * assets; admins can answer for any item (typically by scanning it).
+ */
+export async function recordAuditResponse(
+  itemId: string,
+  input: AssetAuditResponseRequest,
+  user: { id: string; isAdmin: boolean }
+) {
+  const item = await prisma.assetAuditItem.findUnique({
+    where: { id: itemId },
+    include: { campaign: { select: { status: true } } },
+  });
+
+  if (!item) {
+    throw new NotFoundError('Audit item');
+  }
+  if (item.campaign.status !== AssetAuditCampaignStatus.ACTIVE) {
+    throw new ConflictError('This audit has been closed');
+  }
+  if (!user.isAdmin && item.responsibleUserId !== user.id) {
+    throw new AuthorizationError('You can only confirm assets assigned to you');
+  }
+  if (item.correctedAt) {
+    throw new ConflictError('The findings for this asset have already been applied');
+  }
+
+  const updated = await prisma.assetAuditItem.update({
+    where: { id: itemId },
+    data: {
+      status: input.status,
+      foundLocation: input.foundLocation?.trim() || null,
+      foundSerial: input.foundSerial?.trim() || null,
+      notes: input.notes || null,
+      verifiedAt: new Date(),
+      verifiedById: user.id,
+    },
+    include: AUDIT_ITEM_INCLUDE,
+  });
+
+  // The assigned user confirming they have the asset is also a custody confirmation
+  if (updated.responsibleUserId === user.id && input.status !== AssetAuditItemStatus.MISSING) {
+    await recordAssetCustodyConfirmation(
+      updated.assetId,
+      user.id,
+      `Confirmed in audit ${updated.campaign.campaignNumber}`
+    );
+  }
+
+  return transformAuditItem(updated);
+}
+
+/**
+ * Close a campaign to further responses. Unverified items stay in the
+ * discrepancy report as not verified.
+ */
+export async function closeAuditCampaign(campaignId: string, userId: string) {
+  const campaign = await prisma.assetAuditCampaign.findUnique({ where: { id: campaignId } });
+
+  if (!campaign) {
+    throw new NotFoundError('Audit campaign');
+  }
+  if (campaign.status === AssetAuditCampaignStatus.CLOSED) {
+    throw new ConflictError('This audit is already closed');
+  }
+
+  const closed = await prisma.assetAuditCampaign.update({
+    where: { id: campaignId },
+    data: {
+      status: AssetAuditCampaignStatus.CLOSED,
+      closedAt: new Date(),
+      closedById: userId,
+    },
+    include: AUDIT_CAMPAIGN_INCLUDE,
+  });
+
+  return transformAuditCampaign(closed);
+}
+
+/**
+ * Push the findings of a campaign's items (all of them, or the given ones)
+ * into the assets and their history. Items with nothing to change or that
+ * were already applied are skipped.
+ */
+export async function applyAuditCorrections(campaignId: string, userId: string, itemIds?: string[]) {
+  const items = await prisma.assetAuditItem.findMany({
+    where: {
+      campaignId,
+      correctedAt: null,
+      status: { not: AssetAuditItemStatus.PENDING },
+      ...(itemIds && { id: { in: itemIds } }),
+    },
+    include: AUDIT_ITEM_INCLUDE,
+  });
+
+  let applied = 0;
+  for (const item of items) {
+    const correction = getAuditCorrection(item, item.asset.status, item.campaign.campaignNumber);
+    if (!correction) continue;
+
+    const auditNote = `From audit ${item.campaign.campaignNumber}`;
+    // An asset taken out of use is no longer assigned, as when its status is edited
+    const unassignFromId = correction.status !== undefined ? item.asset.assignedUser?.id ?? null : null;
+
+    await prisma.$transaction(async (tx) => {
+      await tx.asset.update({
+        where: { id: item.assetId },
+        data: {
+          ...(correction.location !== undefined && { location: correction.location }),
+          ...(correction.serial !== undefined && { serial: correction.serial }),
+          ...(correction.status !== undefined && { status: correction.status }),
+          ...(unassignFromId && { assignedUserId: null }),
+        },
+      });
+      await tx.assetAuditItem.update({
+        where: { id: item.id },
+        data: { correctedAt: new Date(), correctedById: userId },
+      });
+    });
+
+    if (correction.location !== undefined) {
+      await recordAssetLocationChange(item.assetId, item.asset.location, correction.location, userId, auditNote);
+    }
+    if (correction.serial !== undefined) {
+      await recordAssetUpdate(
+        item.assetId,
+        userId,
+        `${auditNote}\nSerial Number: ${item.asset.serial || '(none)'} → ${correction.serial}`
+      );
+    }
+    if (correction.status !== undefined) {
+      await recordAssetStatusChange(
+        item.assetId,
+        item.asset.status,
+        correction.status,
+        userId,
+        `${auditNote}: reported damaged`
+      );
+    }
+    if (unassignFromId) {
+      await recordAssetAssignment(
+        item.assetId,
+        unassignFromId,
+        null,
+        userId,
+        `Asset automatically unassigned due to status change to ${correction.status}`
+      );
+    }
+    for (const note of correction.notes) {
+      await recordAssetUpdate(item.assetId, userId, note);
+    }
+
+    applied++;
+  }
+
+  return { applied, skipped: items.length - applied };
+}
@@ -0,0 +1,166 @@
+import { AssetAuditItemStatus, AssetStatus } from '@prisma/client';
+
+/**
+ * What an audit item's findings disagree with in the asset records.
+ * NOT_VERIFIED is an item nobody confirmed or scanned.
+ */
+export type AuditDiscrepancy =
+  | 'NOT_VERIFIED'
+  | 'DAMAGED'
+  | 'MISSING'
+  | 'SERIAL_MISMATCH'
+  | 'LOCATION_MISMATCH';
+
+export const AUDIT_DISCREPANCY_LABELS: Record<AuditDiscrepancy, string> = {
+  NOT_VERIFIED: 'Not verified',
+  DAMAGED: 'Damaged',
+  MISSING: 'Missing',
+  SERIAL_MISMATCH: 'Serial mismatch',
+  LOCATION_MISMATCH: 'Location mismatch',
+};
+
+export const AUDIT_ITEM_STATUS_LABELS: Record<AssetAuditItemStatus, string> = {
+  PENDING: 'Pending',
+  PRESENT: 'Present',
+  DAMAGED: 'Damaged',
+  MISSING: 'Missing',
+  SERIAL_MISMATCH: 'Serial mismatch',
+};
+
+export interface AuditItemFindings {
+  status: AssetAuditItemStatus;
+  expectedLocation: string | null;
+  expectedSerial: string | null;
+  foundLocation: string | null;
+  foundSerial: string | null;
+}
+
+export interface AuditCorrection {
+  location?: string;
+  serial?: string;
+  status?: AssetStatus;
+  /** History notes for findings that do not change an asset field */
+  notes: string[];
+}
+
+function normalize(value: string | null): string {
+  return (value || '').trim().toLowerCase();
+}
+
+function differs(found: string | null, expected: string | null): boolean {
+  return !!found?.trim() && normalize(found) !== normalize(expected);
+}
+
+/**
+ * Discrepancies between an item's findings and the records taken when the
+ * campaign started. A serial or location entered with any status counts.
+ */
+export function getAuditDiscrepancies(item: AuditItemFindings): AuditDiscrepancy[] {
+  if (item.status === AssetAuditItemStatus.PENDING) {
+    return ['NOT_VERIFIED'];
+  }
+
+  const discrepancies: AuditDiscrepancy[] = [];
+
+  if (item.status === AssetAuditItemStatus.MISSING) {
+    discrepancies.push('MISSING');
+  }
+  if (item.status === AssetAuditItemStatus.DAMAGED) {
+    discrepancies.push('DAMAGED');
+  }
+  if (
+    item.status === AssetAuditItemStatus.SERIAL_MISMATCH ||
+    differs(item.foundSerial, item.expectedSerial)
+  ) {
+    discrepancies.push('SERIAL_MISMATCH');
+  }
+  if (item.status !== AssetAuditItemStatus.MISSING && differs(item.foundLocation, item.expectedLocation)) {
+    discrepancies.push('LOCATION_MISMATCH');
+  }
+
+  return discrepancies;
+}
+
+/**
+ * Changes that bring an asset in line with what the audit found, or null when
+ * there is nothing to push. Damaged assets go into repair (unless already in
+ * repair or disposed), which also unassigns them; missing assets only get a
+ * history note, since there is no status for them and disposal is a separate
+ * decision.
+ */
+export function getAuditCorrection(
+  item: AuditItemFindings,
+  currentStatus: AssetStatus,
+  campaignNumber: string
+): AuditCorrection | null {
+  const discrepancies = getAuditDiscrepancies(item);
+  const correction: AuditCorrection = { notes: [] };
+
+  for (const discrepancy of discrepancies) {
+    switch (discrepancy) {
+      case 'LOCATION_MISMATCH':
+        correction.location = item.foundLocation!.trim();
+        break;
+      case 'SERIAL_MISMATCH':
+        if (item.foundSerial?.trim()) {
+          correction.serial = item.foundSerial.trim();
+        } else {
+          correction.notes.push(`Serial number did not match in audit ${campaignNumber}`);
+        }
+        break;
+      case 'DAMAGED':
+        if (currentStatus !== AssetStatus.REPAIR && currentStatus !== AssetStatus.DISPOSED) {
+          correction.status = AssetStatus.REPAIR;
+        } else {
+          correction.notes.push(`Reported damaged in audit ${campaignNumber}`);
+        }
+        break;
+      case 'MISSING':
+        correction.notes.push(`Reported missing in audit ${campaignNumber}`);
+        break;
+      case 'NOT_VERIFIED':
+        break;
+    }
+  }
+
+  const hasChanges = correction.location !== undefined
+    || correction.serial !== undefined
+    || correction.status !== undefined
+    || correction.notes.length > 0;
+
+  return hasChanges ? correction : null;
+}
+
+export interface AuditProgress {
+  total: number;
+  verified: number;
+  pending: number;
+  present: number;
+  damaged: number;
+  missing: number;
+  serialMismatch: number;
+  /** Items with at least one discrepancy, including unverified ones */
+  discrepancies: number;
+  percentComplete: number;
+}
+
+/**
+ * Counts for a campaign's progress bar and summary cards
+ */
+export function summarizeAuditItems(items: AuditItemFindings[]): AuditProgress {
+  const count = (status: AssetAuditItemStatus) => items.filter(item => item.status === status).length;
+  const pending = count(AssetAuditItemStatus.PENDING);
+  const verified = items.length - pending;
+
+  return {
+    total: items.length,
+    verified,
+    pending,
+    present: count(AssetAuditItemStatus.PRESENT),
+    damaged: count(AssetAuditItemStatus.DAMAGED),
+    missing: count(AssetAuditItemStatus.MISSING),
+    serialMismatch: count(AssetAuditItemStatus.SERIAL_MISMATCH),
+    discrepancies: items.filter(item => getAuditDiscrepancies(item).length > 0).length,
+    percentComplete: items.length > 0 ? Math.round((verified / items.length) * 100) : 0,
+  };
+}
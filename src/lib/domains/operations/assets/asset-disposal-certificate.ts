@@ -0,0 +1,190 @@
+import { jsPDF } from 'jspdf';
+import { AssetDisposalMethod } from '@prisma/client';
+import { formatCurrency } from '@/lib/payroll/utils';
+import { DISPOSAL_METHOD_LABELS } from './asset-disposal';
+
+/**
+ * Asset disposal certificates
+ *
+ * Issued once a disposal is approved, as the record that the asset left the
+ * company's books: what it was, how and when it went, its book value against
+ * the proceeds, and that its data was wiped.
+ */
+
+export interface DisposalCertificateData {
+  disposalNumber: string;
+  asset: {
+    assetTag: string | null;
+    description: string;
+    type: string;
+    category: string | null;
+    serial: string | null;
+    purchaseDate: Date | null;
+    cost: number | null;
+  };
+  method: AssetDisposalMethod;
+  reason: string;
+  disposalDate: Date;
+  recipient: string | null;
+  proceeds: number | null;
+  bookValueAtDisposal: number | null;
+  gainLoss: number | null;
+  dataWipe: {
+    required: boolean;
+    confirmed: boolean;
+    method: string | null;
+  };
+  requestedBy: string;
+  requestedAt: Date;
+  approvedBy: string;
+  approvedAt: Date;
+}
+
+export interface DisposalCertificateBranding {
+  companyName: string;
+  primaryColor: string;
+}
+
+const PAGE_MARGIN = 20;
+const LABEL_WIDTH = 50;
+
+function formatDay(date: Date | null): string {
+  return date ? date.toLocaleDateString('en-GB') : '-';
+}
+
+function isValidHexColor(color: string): boolean {
+  return /^#[0-9a-fA-F]{6}$/.test(color);
+}
+
+export function getDisposalCertificateFilename(disposalNumber: string): string {
+  return `Disposal-Certificate-${disposalNumber}.pdf`;
+}
+
+/**
+ * Describe the data wipe for the certificate
+ */
+export function describeDataWipe(data: DisposalCertificateData): string {
+  if (data.method === AssetDisposalMethod.LOST_STOLEN) {
+    return data.dataWipe.required ? 'Not possible (asset lost or stolen)' : 'Not applicable';
+  }
+  if (data.dataWipe.confirmed) {
+    return data.dataWipe.method ? `Confirmed - ${data.dataWipe.method}` : 'Confirmed';
+  }
+  return data.dataWipe.required ? 'Not confirmed' : 'Not applicable';
+}
+
+/**
+ * Draw a titled block of label/value rows and return the y position below it
+ */
+function drawSection(doc: jsPDF, title: string, rows: [string, string][], startY: number, width: number): number {
+  let y = startY;
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(11);
+  doc.text(title, PAGE_MARGIN, y);
+  y += 2;
+  doc.setDrawColor(200);
+  doc.line(PAGE_MARGIN, y, PAGE_MARGIN + width, y);
+  y += 6;
+
+  doc.setFontSize(9.5);
+  for (const [label, value] of rows) {
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(110);
+    doc.text(label, PAGE_MARGIN, y);
+    doc.setTextColor(0);
+    const lines = doc.splitTextToSize(value, width - LABEL_WIDTH) as string[];
+    doc.text(lines, PAGE_MARGIN + LABEL_WIDTH, y);
+    y += Math.max(lines.length, 1) * 4.5 + 1.5;
+  }
+
+  return y + 4;
+}
+
+/**
+ * Render a disposal certificate as a PDF document
+ */
+export function generateDisposalCertificatePdf(
+  data: DisposalCertificateData,
+  branding: DisposalCertificateBranding
+): Buffer {
+  const doc = new jsPDF({ format: 'a4', unit: 'mm' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const contentWidth = pageWidth - PAGE_MARGIN * 2;
+  const primaryColor = isValidHexColor(branding.primaryColor) ? branding.primaryColor : '#3B82F6';
+
+  // Header
+  doc.setFillColor(primaryColor);
+  doc.rect(0, 0, pageWidth, 8, 'F');
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(12);
+  doc.text(branding.companyName, PAGE_MARGIN, 22);
+  doc.setFontSize(18);
+  doc.text('Certificate of Asset Disposal', pageWidth / 2, 38, { align: 'center' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.text(`Certificate No. ${data.disposalNumber}`, pageWidth / 2, 45, { align: 'center' });
+
+  doc.setFontSize(9.5);
+  const statement = doc.splitTextToSize(
+    `This certifies that the asset described below was disposed of by ${branding.companyName} ` +
+      `on ${formatDay(data.disposalDate)} and has been removed from the fixed-asset register.`,
+    contentWidth
+  ) as string[];
+  doc.text(statement, PAGE_MARGIN, 56);
+
+  let y = 56 + statement.length * 4.5 + 8;
+
+  y = drawSection(doc, 'Asset', [
+    ['Asset tag', data.asset.assetTag || '-'],
+    ['Description', data.asset.description],
+    ['Type', data.asset.type],
+    ['Category', data.asset.category || '-'],
+    ['Serial number', data.asset.serial || '-'],
+    ['Purchase date', formatDay(data.asset.purchaseDate)],
+    ['Cost', data.asset.cost !== null ? formatCurrency(data.asset.cost) : '-'],
+  ], y, contentWidth);
+
+  y = drawSection(doc, 'Disposal', [
+    ['Method', DISPOSAL_METHOD_LABELS[data.method]],
+    ['Disposal date', formatDay(data.disposalDate)],
+    ['Reason', data.reason],
+    ['Buyer / recipient', data.recipient || '-'],
+    ['Proceeds', formatCurrency(data.proceeds ?? 0)],
+    ['Book value at disposal', data.bookValueAtDisposal !== null ? formatCurrency(data.bookValueAtDisposal) : 'No depreciation policy'],
+    ['Gain / (loss)', data.gainLoss !== null ? formatCurrency(data.gainLoss) : '-'],
+    ['Data wipe', describeDataWipe(data)],
+  ], y, contentWidth);
+
+  y = drawSection(doc, 'Authorisation', [
+    ['Requested by', `${data.requestedBy} on ${formatDay(data.requestedAt)}`],
+    ['Approved by', `${data.approvedBy} on ${formatDay(data.approvedAt)}`],
+  ], y, contentWidth);
+
+  // Signature lines
+  const signatureY = Math.max(y + 20, 240);
+  const signatureWidth = (contentWidth - 20) / 2;
+  doc.setDrawColor(120);
+  doc.setFontSize(9);
+  doc.setTextColor(110);
+  [['Approved by', data.approvedBy], ['Received by', data.recipient || '']].forEach(([label, name], index) => {
+    const x = PAGE_MARGIN + index * (signatureWidth + 20);
+    doc.line(x, signatureY, x + signatureWidth, signatureY);
+    doc.text(name ? `${label}: ${name}` : label, x, signatureY + 5);
+  });
+  doc.setTextColor(0);
+
+  // Footer
+  doc.setFont('helvetica', 'italic');
+  doc.setFontSize(8);
+  doc.setTextColor(120);
+  doc.text(
+    `Generated on ${formatDay(new Date())} from the asset register.`,
+    pageWidth / 2,
+    doc.internal.pageSize.getHeight() - 10,
+    { align: 'center' }
+  );
+
+  return Buffer.from(doc.output('arraybuffer'));
+}
@@ -0,0 +1,373 @@
+import { AssetDisposalStatus, AssetRequestStatus, AssetStatus, Prisma, Role } from '@prisma/client';
+import { prisma, PrismaTransactionClient } from '@/lib/prisma';
+import { AuthorizationError, ConflictError, NotFoundError, ValidationError } from '@/lib/http/errors';
+import { generateDocumentNumber } from '@/lib/domains/system/document-numbering/document-number-service';
+import { createBulkNotifications, createNotification, NotificationTemplates } from '@/lib/domains/system/notifications';
+import { recordAssetAssignment, recordAssetStatusChange } from './asset-history';
+import { getCategoryByCode } from './asset-categories';
+import { getAssetDisposalValuation } from './depreciation-service';
+import { getDepreciableCost } from './depreciation';
+import { DISPOSAL_METHOD_LABELS, needsDataWipeConfirmation, requiresDataWipe } from './asset-disposal';
+import type { DisposalCertificateData } from './asset-disposal-certificate';
+import type { CreateAssetDisposalRequest } from '@/lib/validations/operations/asset-disposal';
+
+/**
+ * Asset requests still waiting on someone; disposing of the asset cancels them
+ */
+export const PENDING_ASSET_REQUEST_STATUSES: AssetRequestStatus[] = [
+  AssetRequestStatus.PENDING_ADMIN_APPROVAL,
+  AssetRequestStatus.PENDING_USER_ACCEPTANCE,
+  AssetRequestStatus.PENDING_RETURN_APPROVAL,
+];
+
+/**
+ * Everything shown for a disposal request
+ */
+export const DISPOSAL_INCLUDE = {
+  asset: {
+    select: {
+      id: true,
+      assetTag: true,
+      assetCategory: true,
+      type: true,
+      brand: true,
+      model: true,
+      serial: true,
+      status: true,
+      purchaseDate: true,
+      price: true,
+      priceCurrency: true,
+      priceQAR: true,
+      assignedUser: { select: { id: true, name: true, email: true } },
+    },
+  },
+  requestedBy: { select: { id: true, name: true, email: true } },
+  reviewedBy: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.AssetDisposalInclude;
+
+type DisposalWithDetails = Prisma.AssetDisposalGetPayload<{ include: typeof DISPOSAL_INCLUDE }>;
+
+/**
+ * Disposal with amounts as numbers for the client
+ */
+export function transformDisposal(disposal: DisposalWithDetails) {
+  const { asset } = disposal;
+  return {
+    ...disposal,
+    asset: {
+      id: asset.id,
+      assetTag: asset.assetTag,
+      assetCategory: asset.assetCategory,
+      type: asset.type,
+      brand: asset.brand,
+      model: asset.model,
+      serial: asset.serial,
+      status: asset.status,
+      purchaseDate: asset.purchaseDate,
+      assignedUser: asset.assignedUser,
+      cost: getDepreciableCost(asset),
+      requiresDataWipe: requiresDataWipe(asset),
+    },
+    proceeds: disposal.proceeds !== null ? Number(disposal.proceeds) : null,
+    bookValueAtDisposal: disposal.bookValueAtDisposal !== null ? Number(disposal.bookValueAtDisposal) : null,
+    gainLoss: disposal.gainLoss !== null ? Number(disposal.gainLoss) : null,
+  };
+}
+
+/**
+ * Ask for an asset to be disposed of. Other admins are notified to approve it.
+ */
+export async function requestAssetDisposal(
+  assetId: string,
+  input: CreateAssetDisposalRequest,
+  user: { id: string; name: string }
+) {
+  const disposal = await prisma.$transaction(async (tx) => {
+    const asset = await tx.asset.findUnique({
+      where: { id: assetId },
+      select: {
+        id: true,
+        status: true,
+        assetCategory: true,
+        type: true,
+        disposals: { where: { status: AssetDisposalStatus.PENDING }, select: { disposalNumber: true } },
+      },
+    });
+
+    if (!asset) {
+      throw new NotFoundError('Asset');
+    }
+    if (asset.status === AssetStatus.DISPOSED) {
+      throw new ConflictError('This asset has already been disposed of');
+    }
+    if (asset.disposals.length > 0) {
+      throw new ConflictError(`Disposal ${asset.disposals[0].disposalNumber} is already awaiting approval`);
+    }
+    if (needsDataWipeConfirmation(asset, input.method) && !input.dataWipeConfirmed) {
+      throw new ValidationError('Confirm that the device storage has been wiped or destroyed');
+    }
+
+    const disposalNumber = await generateDocumentNumber('ASSET_DISPOSAL', { tx });
+
+    return tx.assetDisposal.create({
+      data: {
+        disposalNumber,
+        assetId,
+        method: input.method,
+        reason: input.reason,
+        disposalDate: input.disposalDate,
+        proceeds: input.proceeds ?? null,
+        recipient: input.recipient || null,
+        dataWipeConfirmed: input.dataWipeConfirmed,
+        dataWipeMethod: input.dataWipeConfirmed ? input.dataWipeMethod?.trim() || null : null,
+        requestedById: user.id,
+      },
+      include: DISPOSAL_INCLUDE,
+    });
+  });
+
+  const admins = await prisma.user.findMany({
+    where: { role: Role.ADMIN, id: { not: user.id } },
+    select: { id: true },
+  });
+  if (admins.length > 0) {
+    await createBulkNotifications(
+      admins.map(admin =>
+        NotificationTemplates.assetDisposalSubmitted(
+          admin.id,
+          user.name,
+          disposal.asset.assetTag || disposal.asset.model,
+          DISPOSAL_METHOD_LABELS[disposal.method],
+          disposal.disposalNumber,
+          disposal.id
+        )
+      )
+    );
+  }
+
+  return transformDisposal(disposal);
+}
+
+async function getPendingDisposal(disposalId: string) {
+  const disposal = await prisma.assetDisposal.findUnique({
+    where: { id: disposalId },
+    include: DISPOSAL_INCLUDE,
+  });
+
+  if (!disposal) {
+    throw new NotFoundError('Disposal request');
+  }
+  if (disposal.status !== AssetDisposalStatus.PENDING) {
+    throw new ConflictError('This disposal request has already been processed');
+  }
+
+  return disposal;
+}
+
+/**
+ * Decide a disposal that is still pending. Only one of two requests deciding
+ * the same disposal gets past this; the other fails with a conflict.
+ */
+async function decidePendingDisposal(
+  tx: PrismaTransactionClient,
+  disposalId: string,
+  data: Prisma.AssetDisposalUncheckedUpdateManyInput
+) {
+  const result = await tx.assetDisposal.updateMany({
+    where: { id: disposalId, status: AssetDisposalStatus.PENDING },
+    data,
+  });
+  if (result.count === 0) {
+    throw new ConflictError('This disposal request has already been processed');
+  }
+
+  return tx.assetDisposal.findUniqueOrThrow({ where: { id: disposalId }, include: DISPOSAL_INCLUDE });
+}
+
+/**
+ * Approve a disposal: snapshot the book value and gain/loss, mark the asset
+ * DISPOSED (stopping depreciation on the disposal date), unassign it and
+ * cancel any asset requests still pending for it. Requests are approved by an
+ * admin other than the requester unless the requester is the only admin.
+ */
+export async function approveAssetDisposal(disposalId: string, reviewerId: string, notes?: string | null) {
+  const disposal = await getPendingDisposal(disposalId);
+
+  if (disposal.requestedById === reviewerId) {
+    const otherAdmins = await prisma.user.count({ where: { role: Role.ADMIN, id: { not: reviewerId } } });
+    if (otherAdmins > 0) {
+      throw new AuthorizationError('Another admin must approve a disposal you requested');
+    }
+  }
+
+  const { asset } = disposal;
+  const proceeds = Number(disposal.proceeds ?? 0);
+  const reviewedAt = new Date();
+
+  const { approved, cancelledRequests } = await prisma.$transaction(async (tx) => {
+    const valuation = await getAssetDisposalValuation(asset.id, disposal.disposalDate, proceeds, tx);
+
+    const approved = await decidePendingDisposal(tx, disposalId, {
+      status: AssetDisposalStatus.APPROVED,
+      bookValueAtDisposal: valuation?.bookValueAtDisposal ?? null,
+      gainLoss: valuation?.gainLoss ?? null,
+      reviewedById: reviewerId,
+      reviewedAt,
+      reviewNotes: notes || null,
+    });
+
+    await tx.asset.update({
+      where: { id: asset.id },
+      data: {
+        status: AssetStatus.DISPOSED,
+        disposalDate: disposal.disposalDate,
+        disposalProceeds: proceeds,
+        assignedUserId: null,
+      },
+    });
+
+    const pendingRequests = await tx.assetRequest.findMany({
+      where: { assetId: asset.id, status: { in: PENDING_ASSET_REQUEST_STATUSES } },
+      select: { id: true, requestNumber: true, status: true, userId: true },
+    });
+
+    if (pendingRequests.length > 0) {
+      await tx.assetRequest.updateMany({
+        where: { id: { in: pendingRequests.map(request => request.id) } },
+        data: {
+          status: AssetRequestStatus.CANCELLED,
+          processedById: reviewerId,
+          processedAt: reviewedAt,
+          processorNotes: `Asset disposed (${disposal.disposalNumber})`,
+        },
+      });
+      await tx.assetRequestHistory.createMany({
+        data: pendingRequests.map(request => ({
+          assetRequestId: request.id,
+          action: 'CANCELLED',
+          oldStatus: request.status,
+          newStatus: AssetRequestStatus.CANCELLED,
+          notes: `Asset disposed (${disposal.disposalNumber})`,
+          performedById: reviewerId,
+        })),
+      });
+    }
+
+    return { approved, cancelledRequests: pendingRequests };
+  });
+
+  const historyNote = `${DISPOSAL_METHOD_LABELS[disposal.method]}: ${disposal.reason} (${disposal.disposalNumber})`;
+  if (asset.assignedUser) {
+    await recordAssetAssignment(
+      asset.id,
+      asset.assignedUser.id,
+      null,
+      reviewerId,
+      `Asset unassigned on disposal (${disposal.disposalNumber})`
+    );
+  }
+  await recordAssetStatusChange(asset.id, asset.status, AssetStatus.DISPOSED, reviewerId, historyNote);
+
+  const assetLabel = asset.assetTag || asset.model;
+  const notifications = cancelledRequests.map(request =>
+    NotificationTemplates.assetRequestCancelled(
+      request.userId,
+      assetLabel,
+      request.requestNumber,
+      'The asset has been disposed of',
+      request.id
+    )
+  );
+  if (disposal.requestedById !== reviewerId) {
+    notifications.push(
+      NotificationTemplates.assetDisposalApproved(disposal.requestedById, assetLabel, disposal.disposalNumber, disposal.id)
+    );
+  }
+  if (notifications.length > 0) {
+    await createBulkNotifications(notifications);
+  }
+
+  return {
+    disposal: transformDisposal(approved),
+    cancelledRequests: cancelledRequests.map(request => request.requestNumber),
+  };
+}
+
+/**
+ * Reject a disposal; the asset stays as it is
+ */
+export async function rejectAssetDisposal(disposalId: string, reviewerId: string, notes: string) {
+  const disposal = await getPendingDisposal(disposalId);
+
+  const rejected = await prisma.$transaction(tx => decidePendingDisposal(tx, disposalId, {
+    status: AssetDisposalStatus.REJECTED,
+    reviewedById: reviewerId,
+    reviewedAt: new Date(),
+    reviewNotes: notes,
+  }));
+
+  if (disposal.requestedById !== reviewerId) {
+    await createNotification(
+      NotificationTemplates.assetDisposalRejected(
+        disposal.requestedById,
+        disposal.asset.assetTag || disposal.asset.model,
+        disposal.disposalNumber,
+        notes,
+        disposal.id
+      )
+    );
+  }
+
+  return transformDisposal(rejected);
+}
+
+/**
+ * Withdraw a pending disposal request
+ */
+export async function cancelAssetDisposal(disposalId: string, userId: string) {
+  await getPendingDisposal(disposalId);
+
+  const cancelled = await prisma.$transaction(tx => decidePendingDisposal(tx, disposalId, {
+    status: AssetDisposalStatus.CANCELLED,
+    reviewedById: userId,
+    reviewedAt: new Date(),
+  }));
+
+  return transformDisposal(cancelled);
+}
+
+/**
+ * Certificate contents for an approved disposal
+ */
+export function toDisposalCertificateData(disposal: DisposalWithDetails): DisposalCertificateData {
+  const category = disposal.asset.assetCategory ? getCategoryByCode(disposal.asset.assetCategory) : null;
+
+  return {
+    disposalNumber: disposal.disposalNumber,
+    asset: {
+      assetTag: disposal.asset.assetTag,
+      description: disposal.asset.brand ? `${disposal.asset.brand} ${disposal.asset.model}` : disposal.asset.model,
+      type: disposal.asset.type,
+      category: category ? `${category.code} - ${category.label}` : null,
+      serial: disposal.asset.serial,
+      purchaseDate: disposal.asset.purchaseDate,
+      cost: getDepreciableCost(disposal.asset),
+    },
+    method: disposal.method,
+    reason: disposal.reason,
+    disposalDate: disposal.disposalDate,
+    recipient: disposal.recipient,
+    proceeds: disposal.proceeds !== null ? Number(disposal.proceeds) : null,
+    bookValueAtDisposal: disposal.bookValueAtDisposal !== null ? Number(disposal.bookValueAtDisposal) : null,
+    gainLoss: disposal.gainLoss !== null ? Number(disposal.gainLoss) : null,
+    dataWipe: {
+      required: requiresDataWipe(disposal.asset),
+      confirmed: disposal.dataWipeConfirmed,
+      method: disposal.dataWipeMethod,
+    },
+    requestedBy: disposal.requestedBy.name || disposal.requestedBy.email,
+    requestedAt: disposal.createdAt,
+    approvedBy: disposal.reviewedBy?.name || disposal.reviewedBy?.email || '-',
+    approvedAt: disposal.reviewedAt ?? disposal.updatedAt,
+  };
+}
@@ -0,0 +1,43 @@
+import { AssetDisposalMethod } from '@prisma/client';
+import { suggestCategoryFromType } from './asset-categories';
+
+export const DISPOSAL_METHOD_LABELS: Record<AssetDisposalMethod, string> = {
+  SOLD: 'Sold',
+  SCRAPPED: 'Scrapped',
+  DONATED: 'Donated',
+  LOST_STOLEN: 'Lost / stolen',
+};
+
+/**
+ * Categories whose assets can hold company data: computing, mobile devices,
+ * storage and networking equipment
+ */
+export const DATA_WIPE_CATEGORY_CODES: readonly string[] = ['CP', 'MO', 'ST', 'NW'];
+
+/**
+ * Whether the asset's storage has to be wiped or destroyed before it leaves
+ * the company. Assets without a category fall back to the one suggested by
+ * their type.
+ */
+export function requiresDataWipe(asset: { assetCategory: string | null; type: string }): boolean {
+  const categoryCode = asset.assetCategory || suggestCategoryFromType(asset.type);
+  return !!categoryCode && DATA_WIPE_CATEGORY_CODES.includes(categoryCode);
+}
+
+/**
+ * Whether a disposal request must confirm the data wipe. Lost or stolen
+ * assets cannot be wiped, so they are exempt.
+ */
+export function needsDataWipeConfirmation(
+  asset: { assetCategory: string | null; type: string },
+  method: AssetDisposalMethod
+): boolean {
+  return method !== AssetDisposalMethod.LOST_STOLEN && requiresDataWipe(asset);
+}
+
+/**
+ * Whether a disposal method brings in money (sale price or scrap value)
+ */
+export function allowsDisposalProceeds(method: AssetDisposalMethod): boolean {
+  return method === AssetDisposalMethod.SOLD || method === AssetDisposalMethod.SCRAPPED;
+}
@@ -145,6 +145,20 @@ export async function recordAssetLocationChange(
   });
 }
 
+export async function recordAssetCustodyConfirmation(
+  assetId: string,
+  userId: string,
+  notes?: string
+) {
+  await recordAssetHistory({
+    assetId,
+    action: AssetHistoryAction.CUSTODY_CONFIRMED,
+    toUserId: userId,
+    performedBy: userId,
+    notes: notes || 'Assigned user confirmed they hold the asset',
+  });
+}
+
 export async function recordAssetCreation(
   assetId: string,
   performedBy: string,
@@ -0,0 +1,116 @@
+import { jsPDF } from 'jspdf';
+import QRCode from 'qrcode';
+import { getAssetScanUrl } from './asset-scan';
+
+/**
+ * Printable asset labels
+ *
+ * Each label carries a QR code pointing at the scan route, the asset tag and
+ * the model. Labels are laid out on A4 sheets of 3 x 8 (63.5 x 33.9 mm, the
+ * common L7159 label stock) so they can be printed on pre-cut sheets.
+ */
+
+export const LABEL_SHEET = {
+  columns: 3,
+  rows: 8,
+  labelWidth: 63.5,
+  labelHeight: 33.9,
+  marginLeft: 7.2,
+  marginTop: 12.9,
+  columnGap: 2.5,
+  rowGap: 0,
+} as const;
+
+const LABELS_PER_PAGE = LABEL_SHEET.columns * LABEL_SHEET.rows;
+const LABEL_PADDING = 2.5;
+const QR_SIZE = 28;
+
+export interface AssetLabel {
+  assetTag: string;
+  model: string;
+  brand?: string | null;
+}
+
+export interface AssetLabelOptions {
+  /** Portal base URL encoded in the QR codes */
+  baseUrl: string;
+  companyName: string;
+}
+
+export interface LabelPosition {
+  page: number;
+  x: number;
+  y: number;
+}
+
+/**
+ * Page and top-left corner (mm) of the nth label on the sheet
+ */
+export function getLabelPosition(index: number): LabelPosition {
+  const page = Math.floor(index / LABELS_PER_PAGE);
+  const slot = index % LABELS_PER_PAGE;
+  const column = slot % LABEL_SHEET.columns;
+  const row = Math.floor(slot / LABEL_SHEET.columns);
+
+  return {
+    page,
+    x: LABEL_SHEET.marginLeft + column * (LABEL_SHEET.labelWidth + LABEL_SHEET.columnGap),
+    y: LABEL_SHEET.marginTop + row * (LABEL_SHEET.labelHeight + LABEL_SHEET.rowGap),
+  };
+}
+
+/**
+ * Draw a QR code as vector squares, which stays sharp at any print resolution
+ */
+function drawQrCode(doc: jsPDF, text: string, x: number, y: number, size: number) {
+  const { modules } = QRCode.create(text, { errorCorrectionLevel: 'M' });
+  const moduleSize = size / modules.size;
+
+  doc.setFillColor(0, 0, 0);
+  for (let row = 0; row < modules.size; row++) {
+    for (let column = 0; column < modules.size; column++) {
+      if (modules.get(row, column)) {
+        doc.rect(x + column * moduleSize, y + row * moduleSize, moduleSize, moduleSize, 'F');
+      }
+    }
+  }
+}
+
+/**
+ * Render label sheets for the given assets as a PDF document
+ */
+export function generateAssetLabelsPdf(labels: AssetLabel[], options: AssetLabelOptions): Buffer {
+  const doc = new jsPDF({ format: 'a4', unit: 'mm' });
+
+  let currentPage = 0;
+  labels.forEach((label, index) => {
+    const { page, x, y } = getLabelPosition(index);
+    if (page > currentPage) {
+      doc.addPage();
+      currentPage = page;
+    }
+
+    const qrY = y + (LABEL_SHEET.labelHeight - QR_SIZE) / 2;
+    drawQrCode(doc, getAssetScanUrl(label.assetTag, options.baseUrl), x + LABEL_PADDING, qrY, QR_SIZE);
+
+    const textX = x + LABEL_PADDING * 2 + QR_SIZE;
+    const textWidth = LABEL_SHEET.labelWidth - QR_SIZE - LABEL_PADDING * 3;
+
+    doc.setTextColor(0);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(9);
+    doc.text(doc.splitTextToSize(label.assetTag, textWidth) as string[], textX, y + 9);
+
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(7.5);
+    const model = label.brand ? `${label.brand} ${label.model}` : label.model;
+    const modelLines = (doc.splitTextToSize(model, textWidth) as string[]).slice(0, 3);
+    doc.text(modelLines, textX, y + 14);
+
+    doc.setFontSize(6);
+    doc.setTextColor(110);
+    doc.text(doc.splitTextToSize(options.companyName, textWidth)[0] as string, textX, y + LABEL_SHEET.labelHeight - 4);
+  });
+
+  return Buffer.from(doc.output('arraybuffer'));
+}
@@ -0,0 +1,38 @@
+/**
+ * Asset label scanning
+ *
+ * Kept apart from the label PDF code so the browser scanner can parse
+ * scanned values without bundling the PDF and QR libraries.
+ */
+
+/** Route that resolves a scanned label to the asset */
+export const ASSET_SCAN_PATH = '/scan';
+
+/**
+ * URL encoded in an asset's QR code
+ */
+export function getAssetScanUrl(assetTag: string, baseUrl: string): string {
+  return `${baseUrl.replace(/\/+$/, '')}${ASSET_SCAN_PATH}/${encodeURIComponent(assetTag)}`;
+}
+
+/**
+ * Asset tag from a scanned value. Accepts the scan URL printed on our labels
+ * (from any host, so labels keep working if the portal moves) or a bare tag
+ * from a barcode. Returns null when nothing usable was scanned.
+ */
+export function parseAssetScanValue(value: string): string | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  if (/^https?:\/\//i.test(trimmed)) {
+    try {
+      const { pathname } = new URL(trimmed);
+      const match = pathname.match(/\/scan\/([^/]+)\/?$/);
+      return match ? decodeURIComponent(match[1]) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  return /^[A-Za-z0-9][A-Za-z0-9-]*$/.test(trimmed) ? trimmed : null;
+}
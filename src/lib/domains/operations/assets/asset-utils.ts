@@ -1,8 +1,10 @@
-import { prisma } from '@/lib/prisma';
+import { prisma, PrismaTransactionClient } from '@/lib/prisma';
+import { generateDocumentNumber } from '@/lib/domains/system/document-numbering/document-number-service';
+import { getAssetCategoryEntityType } from '@/lib/domains/system/document-numbering/document-number-format';
 import { isValidCategoryCode, type AssetCategoryCode } from './asset-categories';
 
 /**
- * Generate a unique asset tag using BCE format
+ * Generate a unique asset tag from the category's DocumentNumberConfig
  * Format: BCE-[CAT]-[YY][SEQ]
  * Examples:
  *   - BCE-CP-25001 (1st Computing asset in 2025)
@@ -10,56 +12,19 @@ import { isValidCategoryCode, type AssetCategoryCode } from './asset-categories'
  *
  * @param categoryCode - 2-letter category code (e.g., 'CP', 'MO', 'DP')
  * @param isTransferred - If true, uses '00' for year to indicate transferred asset
+ * @param tx - Optional transaction client to use (required when called inside a transaction)
  */
 export async function generateAssetTag(
   categoryCode: string,
-  isTransferred: boolean = false
+  isTransferred: boolean = false,
+  tx?: PrismaTransactionClient
 ): Promise<string> {
   // Validate category code
   if (!isValidCategoryCode(categoryCode)) {
     throw new Error(`Invalid category code: ${categoryCode}`);
   }
 
-  // Year: use '00' for transferred assets, otherwise current 2-digit year
-  const year = isTransferred ? '00' : new Date().getFullYear().toString().slice(-2);
-
-  // Build prefix for search: BCE-{CAT}-{YY}
-  const prefix = `BCE-${categoryCode}-${year}`;
-
-  // Find the highest sequence number for this category and year
-  const existingAssets = await prisma.asset.findMany({
-    where: {
-      assetTag: {
-        startsWith: prefix
-      }
-    },
-    orderBy: {
-      assetTag: 'desc'
-    },
-    take: 1
-  });
-
-  let nextSequence = 1;
-
-  if (existingAssets.length > 0) {
-    const latestTag = existingAssets[0].assetTag;
-    if (latestTag) {
-      // Extract sequence number from tag like "BCE-CP-25001"
-      // The sequence is the last 3 digits after the year
-      const match = latestTag.match(/BCE-[A-Z]{2}-(\d{2})(\d{3})$/);
-      if (match) {
-        const currentSequence = parseInt(match[2], 10);
-        if (!isNaN(currentSequence)) {
-          nextSequence = currentSequence + 1;
-        }
-      }
-    }
-  }
-
-  // Format sequence with leading zeros (3 digits)
-  const sequence = nextSequence.toString().padStart(3, '0');
-
-  return `${prefix}${sequence}`;
+  return generateDocumentNumber(getAssetCategoryEntityType(categoryCode), { isTransferred, tx });
 }
 
 /**
@@ -0,0 +1,218 @@
+import { AssetDepreciationPolicy, AssetStatus, Prisma } from '@prisma/client';
+import { prisma, PrismaTransactionClient } from '@/lib/prisma';
+import { getCategoryByCode } from './asset-categories';
+import {
+  DepreciationPolicyInput,
+  calculateDepreciation,
+  calculateDisposalGainLoss,
+  getDepreciableCost,
+  getMonthEnd,
+} from './depreciation';
+
+export function toDepreciationPolicyInput(policy: AssetDepreciationPolicy): DepreciationPolicyInput {
+  return {
+    method: policy.method,
+    usefulLifeMonths: policy.usefulLifeMonths,
+    salvageValuePercent: Number(policy.salvageValuePercent),
+  };
+}
+
+/**
+ * Depreciation policies keyed by category code
+ */
+export async function getDepreciationPolicyMap(): Promise<Map<string, DepreciationPolicyInput>> {
+  const policies = await prisma.assetDepreciationPolicy.findMany();
+  return new Map(policies.map(policy => [policy.categoryCode, toDepreciationPolicyInput(policy)]));
+}
+
+const DEPRECIATION_ASSET_SELECT = {
+  id: true,
+  assetTag: true,
+  assetCategory: true,
+  type: true,
+  brand: true,
+  model: true,
+  status: true,
+  purchaseDate: true,
+  price: true,
+  priceCurrency: true,
+  priceQAR: true,
+  disposalDate: true,
+  disposalProceeds: true,
+} satisfies Prisma.AssetSelect;
+
+type DepreciationAsset = Prisma.AssetGetPayload<{ select: typeof DEPRECIATION_ASSET_SELECT }>;
+
+/**
+ * Book value of an asset on a date (QAR). Depreciation stops on the disposal
+ * date, after which the book value is written off against the proceeds.
+ * Returns null when the asset has no cost, purchase date or category policy.
+ */
+export function getAssetDepreciation(
+  asset: Pick<DepreciationAsset, 'purchaseDate' | 'price' | 'priceCurrency' | 'priceQAR' | 'status' | 'disposalDate' | 'disposalProceeds'>,
+  policy: DepreciationPolicyInput | undefined,
+  asOf: Date = new Date()
+) {
+  const cost = getDepreciableCost(asset);
+  if (cost === null || !asset.purchaseDate || !policy) {
+    return null;
+  }
+
+  const isDisposed = asset.status === AssetStatus.DISPOSED && !!asset.disposalDate && asset.disposalDate <= asOf;
+  const depreciation = calculateDepreciation(
+    cost,
+    asset.purchaseDate,
+    policy,
+    isDisposed ? asset.disposalDate! : asOf
+  );
+
+  const disposal = isDisposed
+    ? {
+        date: asset.disposalDate!,
+        proceeds: Number(asset.disposalProceeds ?? 0),
+        bookValueAtDisposal: depreciation.bookValue,
+        gainLoss: calculateDisposalGainLoss(Number(asset.disposalProceeds ?? 0), depreciation.bookValue),
+      }
+    : null;
+
+  return {
+    cost,
+    policy,
+    ...depreciation,
+    bookValue: disposal ? 0 : depreciation.bookValue,
+    disposal,
+  };
+}
+
+/**
+ * Book value of one asset today, using its category's policy
+ */
+export async function getAssetBookValue(assetId: string) {
+  const asset = await prisma.asset.findUnique({
+    where: { id: assetId },
+    select: DEPRECIATION_ASSET_SELECT,
+  });
+  if (!asset) return null;
+
+  const policy = asset.assetCategory
+    ? await prisma.assetDepreciationPolicy.findUnique({ where: { categoryCode: asset.assetCategory } })
+    : null;
+
+  return getAssetDepreciation(asset, policy ? toDepreciationPolicyInput(policy) : undefined);
+}
+
+/**
+ * Book value and gain/loss for disposing of an asset on a date for the given
+ * proceeds. Returns null when the asset has no cost, purchase date or policy.
+ * @param db - Transaction client when called inside a transaction
+ */
+export async function getAssetDisposalValuation(
+  assetId: string,
+  disposalDate: Date,
+  proceeds: number,
+  db: PrismaTransactionClient = prisma
+) {
+  const asset = await db.asset.findUnique({
+    where: { id: assetId },
+    select: DEPRECIATION_ASSET_SELECT,
+  });
+  if (!asset || !asset.assetCategory) return null;
+
+  const policy = await db.assetDepreciationPolicy.findUnique({ where: { categoryCode: asset.assetCategory } });
+  const depreciation = getAssetDepreciation(
+    { ...asset, status: AssetStatus.DISPOSED, disposalDate, disposalProceeds: new Prisma.Decimal(proceeds) },
+    policy ? toDepreciationPolicyInput(policy) : undefined,
+    disposalDate
+  );
+
+  return depreciation?.disposal ?? null;
+}
+
+export interface FixedAssetRegisterRow {
+  assetId: string;
+  assetTag: string;
+  categoryCode: string;
+  categoryLabel: string;
+  description: string;
+  status: AssetStatus;
+  purchaseDate: Date | null;
+  cost: number | null;
+  method: string;
+  usefulLifeMonths: number | null;
+  openingAccumulated: number | null;
+  depreciationForMonth: number | null;
+  closingAccumulated: number | null;
+  netBookValue: number | null;
+  disposalDate: Date | null;
+  disposalProceeds: number | null;
+  disposalGainLoss: number | null;
+}
+
+/**
+ * Fixed-asset register as at the end of a month (YYYY-MM): every asset bought
+ * by then, plus assets disposed earlier in the same year with their gain/loss.
+ * Assets without a cost, purchase date or category policy are listed at cost.
+ */
+export async function getFixedAssetRegister(month: string): Promise<FixedAssetRegisterRow[]> {
+  const asOf = getMonthEnd(month);
+  const previousMonthEnd = new Date(asOf.getFullYear(), asOf.getMonth(), 0, 23, 59, 59, 999);
+  const yearStart = new Date(asOf.getFullYear(), 0, 1);
+
+  const [assets, policies] = await Promise.all([
+    prisma.asset.findMany({
+      where: {
+        AND: [
+          {
+            OR: [
+              { purchaseDate: { lte: asOf } },
+              { purchaseDate: null, createdAt: { lte: asOf } },
+            ],
+          },
+          {
+            OR: [
+              { status: { not: AssetStatus.DISPOSED } },
+              { disposalDate: { gte: yearStart } },
+            ],
+          },
+        ],
+      },
+      select: DEPRECIATION_ASSET_SELECT,
+      orderBy: [{ assetCategory: 'asc' }, { assetTag: 'asc' }],
+    }),
+    getDepreciationPolicyMap(),
+  ]);
+
+  return assets.map(asset => {
+    const policy = asset.assetCategory ? policies.get(asset.assetCategory) : undefined;
+    const closing = getAssetDepreciation(asset, policy, asOf);
+    const opening = getAssetDepreciation(asset, policy, previousMonthEnd);
+    const cost = getDepreciableCost(asset);
+    const disposedThisYear = asset.status === AssetStatus.DISPOSED &&
+      !!asset.disposalDate && asset.disposalDate >= yearStart && asset.disposalDate <= asOf;
+    const proceeds = disposedThisYear ? Number(asset.disposalProceeds ?? 0) : null;
+
+    return {
+      assetId: asset.id,
+      assetTag: asset.assetTag || '',
+      categoryCode: asset.assetCategory || '',
+      categoryLabel: (asset.assetCategory && getCategoryByCode(asset.assetCategory)?.label) || 'Uncategorized',
+      description: [asset.brand, asset.model].filter(Boolean).join(' ') || asset.type,
+      status: asset.status,
+      purchaseDate: asset.purchaseDate,
+      cost,
+      method: policy ? policy.method : '',
+      usefulLifeMonths: policy?.usefulLifeMonths ?? null,
+      openingAccumulated: opening?.accumulatedDepreciation ?? null,
+      depreciationForMonth: closing && opening
+        ? Math.round((closing.accumulatedDepreciation - opening.accumulatedDepreciation) * 100) / 100
+        : null,
+      closingAccumulated: closing?.accumulatedDepreciation ?? null,
+      netBookValue: closing ? closing.bookValue : disposedThisYear ? 0 : cost,
+      disposalDate: disposedThisYear ? asset.disposalDate : null,
+      disposalProceeds: proceeds,
+      // Without a policy the asset was carried at cost until disposal
+      disposalGainLoss: closing?.disposal?.gainLoss ??
+        (proceeds !== null && cost !== null ? calculateDisposalGainLoss(proceeds, cost) : null),
+    };
+  });
+}
@@ -0,0 +1,130 @@
+import { DepreciationMethod } from '@prisma/client';
+
+export interface DepreciationPolicyInput {
+  method: DepreciationMethod;
+  usefulLifeMonths: number;
+  salvageValuePercent: number;
+}
+
+export interface DepreciationResult {
+  /** Whole months the asset has been in service */
+  monthsInService: number;
+  salvageValue: number;
+  accumulatedDepreciation: number;
+  bookValue: number;
+  /** Charge for the next month, 0 once fully depreciated */
+  nextMonthDepreciation: number;
+  isFullyDepreciated: boolean;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Whole months between two dates. A date on the last day of its month counts
+ * as a full month for assets bought on a later day of month (Jan 31 → Feb 28 = 1).
+ */
+export function getMonthsInService(purchaseDate: Date, asOf: Date): number {
+  let months = (asOf.getFullYear() - purchaseDate.getFullYear()) * 12 + (asOf.getMonth() - purchaseDate.getMonth());
+  const isMonthEnd = asOf.getDate() === new Date(asOf.getFullYear(), asOf.getMonth() + 1, 0).getDate();
+
+  if (asOf.getDate() < purchaseDate.getDate() && !isMonthEnd) {
+    months--;
+  }
+
+  return Math.max(0, months);
+}
+
+/**
+ * Depreciation charged in each month of an asset's useful life.
+ * - Straight line: equal charges down to the salvage value
+ * - Declining balance: double the straight-line rate on the remaining book
+ *   value, switching to straight line once that is higher so the asset
+ *   reaches its salvage value at the end of its life
+ */
+function getMonthlyCharges(cost: number, policy: DepreciationPolicyInput, months: number): number[] {
+  const life = policy.usefulLifeMonths;
+  const salvage = cost * policy.salvageValuePercent / 100;
+  const charges: number[] = [];
+  let bookValue = cost;
+
+  for (let month = 0; month < Math.min(months, life); month++) {
+    const straightLine = (bookValue - salvage) / (life - month);
+    const charge = policy.method === DepreciationMethod.DECLINING_BALANCE
+      ? Math.min(Math.max(bookValue * 2 / life, straightLine), bookValue - salvage)
+      : (cost - salvage) / life;
+
+    charges.push(charge);
+    bookValue -= charge;
+  }
+
+  return charges;
+}
+
+/**
+ * Depreciation of an asset up to a date. Amounts are in the cost's currency,
+ * rounded to 2 decimals.
+ */
+export function calculateDepreciation(
+  cost: number,
+  purchaseDate: Date,
+  policy: DepreciationPolicyInput,
+  asOf: Date = new Date()
+): DepreciationResult {
+  const monthsInService = getMonthsInService(purchaseDate, asOf);
+  const charges = getMonthlyCharges(cost, policy, monthsInService + 1);
+  const accumulated = charges.slice(0, monthsInService).reduce((sum, charge) => sum + charge, 0);
+  const isFullyDepreciated = monthsInService >= policy.usefulLifeMonths;
+
+  return {
+    monthsInService,
+    salvageValue: round2(cost * policy.salvageValuePercent / 100),
+    accumulatedDepreciation: round2(accumulated),
+    bookValue: round2(cost - accumulated),
+    nextMonthDepreciation: isFullyDepreciated ? 0 : round2(charges[monthsInService] ?? 0),
+    isFullyDepreciated,
+  };
+}
+
+/**
+ * Gain (positive) or loss (negative) on disposal: proceeds less book value
+ */
+export function calculateDisposalGainLoss(proceeds: number, bookValueAtDisposal: number): number {
+  return round2(proceeds - bookValueAtDisposal);
+}
+
+/**
+ * Cost used for depreciation: the QAR price, or the price when it is already in QAR
+ */
+export function getDepreciableCost(asset: {
+  price: unknown;
+  priceCurrency: string | null;
+  priceQAR: unknown;
+}): number | null {
+  if (asset.priceQAR !== null && asset.priceQAR !== undefined) return Number(asset.priceQAR);
+  if (asset.price !== null && asset.price !== undefined && (asset.priceCurrency ?? 'QAR') === 'QAR') {
+    return Number(asset.price);
+  }
+  return null;
+}
+
+/**
+ * Last moment of a month given as YYYY-MM
+ */
+export function getMonthEnd(month: string): Date {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(year, monthIndex, 0, 23, 59, 59, 999);
+}
+
+/**
+ * Human-readable useful life
+ * @example formatUsefulLife(36) // '3 years'
+ */
+export function formatUsefulLife(months: number): string {
+  if (months % 12 === 0) {
+    const years = months / 12;
+    return years === 1 ? '1 year' : `${years} years`;
+  }
+  return months === 1 ? '1 month' : `${months} months`;
+}
@@ -0,0 +1,137 @@
+import { MaintenanceIntervalUnit, MaintenanceTaskStatus } from '@prisma/client';
+
+/** Days before a due date that a task shows as due soon */
+export const MAINTENANCE_DUE_SOON_DAYS = 7;
+
+export type MaintenanceDueStatus = 'OVERDUE' | 'DUE_SOON' | 'UPCOMING';
+
+export interface MaintenanceAttachment {
+  name: string;
+  url: string;
+}
+
+/**
+ * Add a plan interval to a date. Month and year steps keep the day of
+ * month, clamped to the last day of shorter months (Jan 31 + 1 month = Feb 28).
+ */
+export function addMaintenanceInterval(date: Date, value: number, unit: MaintenanceIntervalUnit): Date {
+  const result = new Date(date);
+
+  switch (unit) {
+    case MaintenanceIntervalUnit.DAYS:
+      result.setDate(result.getDate() + value);
+      return result;
+    case MaintenanceIntervalUnit.WEEKS:
+      result.setDate(result.getDate() + value * 7);
+      return result;
+    default: {
+      const months = unit === MaintenanceIntervalUnit.YEARS ? value * 12 : value;
+      const day = result.getDate();
+      result.setDate(1);
+      result.setMonth(result.getMonth() + months);
+      const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+      result.setDate(Math.min(day, lastDay));
+      return result;
+    }
+  }
+}
+
+interface MaintenanceSchedule {
+  startDate: Date;
+  intervalValue: number;
+  intervalUnit: MaintenanceIntervalUnit;
+}
+
+/**
+ * Due date of the next task for an asset under a plan (at midnight).
+ * - After a completed task: one interval after it was completed
+ * - After a skipped task: one interval after its due date
+ * - First task: the plan start date, or one interval after the asset was
+ *   added when that is later (so new assets are not overdue straight away)
+ */
+export function getNextMaintenanceDueDate(
+  plan: MaintenanceSchedule,
+  assetCreatedAt: Date,
+  lastTask?: { status: MaintenanceTaskStatus; dueDate: Date; completedAt: Date | null } | null
+): Date {
+  let due: Date;
+
+  if (lastTask) {
+    const base = lastTask.status === MaintenanceTaskStatus.COMPLETED && lastTask.completedAt
+      ? lastTask.completedAt
+      : lastTask.dueDate;
+    due = addMaintenanceInterval(base, plan.intervalValue, plan.intervalUnit);
+  } else if (assetCreatedAt > plan.startDate) {
+    due = addMaintenanceInterval(assetCreatedAt, plan.intervalValue, plan.intervalUnit);
+  } else {
+    due = new Date(plan.startDate);
+  }
+
+  return new Date(due.getFullYear(), due.getMonth(), due.getDate());
+}
+
+/**
+ * Human-readable plan interval
+ * @example formatMaintenanceInterval(3, 'MONTHS') // 'Every 3 months'
+ */
+export function formatMaintenanceInterval(value: number, unit: MaintenanceIntervalUnit): string {
+  const noun = unit.toLowerCase().replace(/s$/, '');
+  return value === 1 ? `Every ${noun}` : `Every ${value} ${noun}s`;
+}
+
+/**
+ * Whether a task is overdue, due within the warning window, or further out
+ */
+export function getMaintenanceDueStatus(
+  dueDate: Date,
+  today: Date = new Date(),
+  dueSoonDays: number = MAINTENANCE_DUE_SOON_DAYS
+): MaintenanceDueStatus {
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  const due = new Date(dueDate.getFullYear(), dueDate.getMonth(), dueDate.getDate());
+
+  if (due < start) return 'OVERDUE';
+
+  const dueSoonLimit = new Date(start);
+  dueSoonLimit.setDate(dueSoonLimit.getDate() + dueSoonDays);
+  return due <= dueSoonLimit ? 'DUE_SOON' : 'UPCOMING';
+}
+
+/**
+ * Hours an asset was out of service, rounded to 2 decimals
+ */
+export function calculateDowntimeHours(startedAt: Date, completedAt: Date): number {
+  const hours = (completedAt.getTime() - startedAt.getTime()) / (60 * 60 * 1000);
+  return Math.max(0, Math.round(hours * 100) / 100);
+}
+
+/**
+ * Whether a plan covers an asset: plans target one asset or every asset of a type
+ */
+export function planAppliesToAsset(
+  plan: { assetId: string | null; assetType: string | null },
+  asset: { id: string; type: string }
+): boolean {
+  if (plan.assetId) return plan.assetId === asset.id;
+  if (plan.assetType) return plan.assetType.trim().toLowerCase() === asset.type.trim().toLowerCase();
+  return false;
+}
+
+/**
+ * Read a plan's checklist JSON, ignoring anything that is not a non-empty string
+ */
+export function parseMaintenanceChecklist(checklist: unknown): string[] {
+  if (!Array.isArray(checklist)) return [];
+  return checklist.filter((item): item is string => typeof item === 'string' && item.trim() !== '');
+}
+
+/**
+ * Read a maintenance record's attachments JSON
+ */
+export function parseMaintenanceAttachments(attachments: unknown): MaintenanceAttachment[] {
+  if (!Array.isArray(attachments)) return [];
+  return attachments.filter(
+    (item): item is MaintenanceAttachment =>
+      !!item && typeof item === 'object' && typeof item.name === 'string' && typeof item.url === 'string'
+  );
+}
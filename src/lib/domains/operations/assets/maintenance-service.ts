@@ -0,0 +1,378 @@
+import { AssetStatus, MaintenancePlan, MaintenanceTaskStatus, Prisma } from '@prisma/client';
+import { prisma, PrismaTransactionClient } from '@/lib/prisma';
+import { ConflictError, NotFoundError, ValidationError } from '@/lib/http/errors';
+import { recordAssetStatusChange } from './asset-history';
+import {
+  calculateDowntimeHours,
+  getMaintenanceDueStatus,
+  getNextMaintenanceDueDate,
+  parseMaintenanceAttachments,
+  parseMaintenanceChecklist,
+} from './maintenance-schedule';
+import type { CompleteMaintenanceTaskRequest } from '@/lib/validations/operations/maintenance';
+
+const OPEN_TASK_STATUSES: MaintenanceTaskStatus[] = [MaintenanceTaskStatus.SCHEDULED, MaintenanceTaskStatus.IN_PROGRESS];
+
+/**
+ * Everything shown for a maintenance plan
+ */
+export const MAINTENANCE_PLAN_INCLUDE = {
+  asset: { select: { id: true, assetTag: true, model: true, type: true } },
+  createdBy: { select: { id: true, name: true } },
+  tasks: {
+    where: { status: { in: OPEN_TASK_STATUSES } },
+    select: { id: true, dueDate: true },
+    orderBy: { dueDate: 'asc' },
+  },
+} satisfies Prisma.MaintenancePlanInclude;
+
+/**
+ * Everything shown for a maintenance task in the due list
+ */
+export const MAINTENANCE_TASK_INCLUDE = {
+  plan: {
+    select: {
+      id: true,
+      name: true,
+      intervalValue: true,
+      intervalUnit: true,
+      checklist: true,
+      vendor: true,
+      expectedCost: true,
+      costCurrency: true,
+    },
+  },
+  asset: {
+    select: {
+      id: true,
+      assetTag: true,
+      model: true,
+      brand: true,
+      type: true,
+      status: true,
+      location: true,
+      assignedUser: { select: { id: true, name: true, email: true } },
+    },
+  },
+} satisfies Prisma.MaintenanceTaskInclude;
+
+type MaintenancePlanWithDetails = Prisma.MaintenancePlanGetPayload<{ include: typeof MAINTENANCE_PLAN_INCLUDE }>;
+type MaintenanceTaskWithDetails = Prisma.MaintenanceTaskGetPayload<{ include: typeof MAINTENANCE_TASK_INCLUDE }>;
+
+/**
+ * Maintenance plan with Decimals as numbers, the checklist as a string list
+ * and the earliest open task's due date
+ */
+export function transformMaintenancePlan({ tasks, ...plan }: MaintenancePlanWithDetails) {
+  return {
+    ...plan,
+    expectedCost: plan.expectedCost !== null ? Number(plan.expectedCost) : null,
+    checklist: parseMaintenanceChecklist(plan.checklist),
+    openTasks: tasks.length,
+    nextDueDate: tasks[0]?.dueDate ?? null,
+  };
+}
+
+/**
+ * Maintenance task with its overdue/due-soon status
+ */
+export function transformMaintenanceTask(task: MaintenanceTaskWithDetails, today: Date = new Date()) {
+  return {
+    ...task,
+    plan: {
+      ...task.plan,
+      expectedCost: task.plan.expectedCost !== null ? Number(task.plan.expectedCost) : null,
+      checklist: parseMaintenanceChecklist(task.plan.checklist),
+    },
+    dueStatus: getMaintenanceDueStatus(task.dueDate, today),
+  };
+}
+
+/**
+ * Schedule the next task of a plan for an asset, unless one is already open
+ */
+async function scheduleNextTask(
+  tx: PrismaTransactionClient,
+  plan: MaintenancePlan,
+  asset: { id: string; createdAt: Date }
+): Promise<boolean> {
+  const lastTask = await tx.maintenanceTask.findFirst({
+    where: { planId: plan.id, assetId: asset.id },
+    orderBy: { dueDate: 'desc' },
+    select: { status: true, dueDate: true, completedAt: true },
+  });
+
+  if (lastTask && OPEN_TASK_STATUSES.includes(lastTask.status)) {
+    return false;
+  }
+
+  const result = await tx.maintenanceTask.createMany({
+    data: [{
+      planId: plan.id,
+      assetId: asset.id,
+      dueDate: getNextMaintenanceDueDate(plan, asset.createdAt, lastTask),
+    }],
+    skipDuplicates: true,
+  });
+  return result.count > 0;
+}
+
+/**
+ * Make sure every asset covered by an active plan (all plans, or one) has
+ * its next task scheduled. Disposed assets are left out.
+ * Returns how many tasks were created.
+ */
+export async function scheduleMaintenanceTasks(planId?: string): Promise<number> {
+  const plans = await prisma.maintenancePlan.findMany({
+    where: { isActive: true, ...(planId && { id: planId }) },
+  });
+
+  let created = 0;
+  for (const plan of plans) {
+    const assets = await prisma.asset.findMany({
+      where: {
+        status: { not: AssetStatus.DISPOSED },
+        ...(plan.assetId
+          ? { id: plan.assetId }
+          : { type: { equals: (plan.assetType ?? '').trim(), mode: 'insensitive' } }),
+      },
+      select: { id: true, createdAt: true },
+    });
+
+    for (const asset of assets) {
+      if (await scheduleNextTask(prisma, plan, asset)) {
+        created++;
+      }
+    }
+  }
+
+  return created;
+}
+
+/**
+ * Drop a plan's tasks that have not been started, so they can be scheduled
+ * again after its interval or start date changes (or it is paused)
+ */
+export async function clearScheduledMaintenanceTasks(planId: string): Promise<number> {
+  const result = await prisma.maintenanceTask.deleteMany({
+    where: { planId, status: MaintenanceTaskStatus.SCHEDULED },
+  });
+  return result.count;
+}
+
+/**
+ * Open tasks that are overdue or due within the next `days` days
+ */
+export async function getDueMaintenanceTasks({ days, assetId }: { days: number; assetId?: string }) {
+  const today = new Date();
+  const until = new Date(today.getFullYear(), today.getMonth(), today.getDate() + days + 1);
+
+  const tasks = await prisma.maintenanceTask.findMany({
+    where: {
+      status: { in: OPEN_TASK_STATUSES },
+      dueDate: { lt: until },
+      ...(assetId && { assetId }),
+    },
+    include: MAINTENANCE_TASK_INCLUDE,
+    orderBy: { dueDate: 'asc' },
+  });
+
+  return tasks.map(task => transformMaintenanceTask(task, today));
+}
+
+async function findOpenTask(tx: PrismaTransactionClient, taskId: string) {
+  const task = await tx.maintenanceTask.findUnique({
+    where: { id: taskId },
+    include: {
+      plan: true,
+      asset: { select: { id: true, status: true, createdAt: true } },
+    },
+  });
+
+  if (!task) {
+    throw new NotFoundError('Maintenance task');
+  }
+  if (!OPEN_TASK_STATUSES.includes(task.status)) {
+    throw new ConflictError(`This task is already ${task.status.toLowerCase()}`);
+  }
+
+  return task;
+}
+
+/**
+ * Move a task on from the status it was read in. Only one of two requests
+ * acting on the same task gets past this; the other fails with a conflict.
+ */
+async function updateOpenTask(
+  tx: PrismaTransactionClient,
+  task: { id: string; status: MaintenanceTaskStatus },
+  data: Prisma.MaintenanceTaskUncheckedUpdateManyInput
+): Promise<void> {
+  const result = await tx.maintenanceTask.updateMany({
+    where: { id: task.id, status: task.status },
+    data,
+  });
+  if (result.count === 0) {
+    throw new ConflictError('This task has just been updated by someone else');
+  }
+}
+
+/**
+ * Start work on a task: the asset goes into REPAIR until the task is completed
+ */
+export async function startMaintenanceTask(taskId: string, userId: string) {
+  const { task, fromStatus } = await prisma.$transaction(async (tx) => {
+    const task = await findOpenTask(tx, taskId);
+
+    if (task.status === MaintenanceTaskStatus.IN_PROGRESS) {
+      throw new ConflictError('This task has already been started');
+    }
+    if (task.asset.status === AssetStatus.DISPOSED) {
+      throw new ValidationError('The asset has been disposed');
+    }
+
+    await updateOpenTask(tx, task, {
+      status: MaintenanceTaskStatus.IN_PROGRESS,
+      startedAt: new Date(),
+      statusBeforeRepair: task.asset.status,
+    });
+    const updated = await tx.maintenanceTask.findUniqueOrThrow({
+      where: { id: taskId },
+      include: MAINTENANCE_TASK_INCLUDE,
+    });
+
+    if (task.asset.status !== AssetStatus.REPAIR) {
+      await tx.asset.update({ where: { id: task.assetId }, data: { status: AssetStatus.REPAIR } });
+    }
+
+    return { task: updated, fromStatus: task.asset.status };
+  });
+
+  if (fromStatus !== AssetStatus.REPAIR) {
+    await recordAssetStatusChange(
+      task.assetId,
+      fromStatus,
+      AssetStatus.REPAIR,
+      userId,
+      `Preventive maintenance started: ${task.plan.name}`
+    );
+  }
+
+  return task;
+}
+
+/**
+ * Complete a task: records the work as a MaintenanceRecord, puts a started
+ * asset back to the status it had before REPAIR and schedules the next task
+ */
+export async function completeMaintenanceTask(
+  taskId: string,
+  input: CompleteMaintenanceTaskRequest,
+  userId: string
+) {
+  const result = await prisma.$transaction(async (tx) => {
+    const task = await findOpenTask(tx, taskId);
+    const completedAt = input.completedAt ?? new Date();
+
+    // Close the task before recording the work, so it is only recorded once
+    await updateOpenTask(tx, task, {
+      status: MaintenanceTaskStatus.COMPLETED,
+      completedAt,
+      completedById: userId,
+      notes: input.notes || null,
+    });
+
+    const downtimeHours = input.downtimeHours ??
+      (task.startedAt ? calculateDowntimeHours(task.startedAt, completedAt) : null);
+
+    const checklist = parseMaintenanceChecklist(task.plan.checklist);
+    const notes = [
+      task.plan.name,
+      ...checklist.map(item => `${input.checkedItems.includes(item) ? '[x]' : '[ ]'} ${item}`),
+      input.notes,
+    ].filter(Boolean).join('\n');
+
+    const record = await tx.maintenanceRecord.create({
+      data: {
+        assetId: task.assetId,
+        maintenanceDate: completedAt,
+        notes,
+        performedBy: userId,
+        vendor: input.vendor || task.plan.vendor,
+        cost: input.cost ?? null,
+        costCurrency: input.costCurrency || task.plan.costCurrency || 'QAR',
+        downtimeHours,
+        attachments: input.attachments.length > 0 ? input.attachments : undefined,
+      },
+    });
+
+    const completed = await tx.maintenanceTask.update({
+      where: { id: taskId },
+      data: { maintenanceRecordId: record.id },
+      include: MAINTENANCE_TASK_INCLUDE,
+    });
+
+    // Only undo the REPAIR this task set; leave manual status changes alone
+    const restoreStatus = task.status === MaintenanceTaskStatus.IN_PROGRESS &&
+      task.asset.status === AssetStatus.REPAIR &&
+      task.statusBeforeRepair &&
+      task.statusBeforeRepair !== AssetStatus.REPAIR
+      ? task.statusBeforeRepair
+      : null;
+
+    if (restoreStatus) {
+      await tx.asset.update({ where: { id: task.assetId }, data: { status: restoreStatus } });
+    }
+
+    if (task.plan.isActive) {
+      await scheduleNextTask(tx, task.plan, task.asset);
+    }
+
+    return { task: completed, record, restoreStatus, planName: task.plan.name };
+  });
+
+  if (result.restoreStatus) {
+    await recordAssetStatusChange(
+      result.task.assetId,
+      AssetStatus.REPAIR,
+      result.restoreStatus,
+      userId,
+      `Preventive maintenance completed: ${result.planName}`
+    );
+  }
+
+  return {
+    task: result.task,
+    record: {
+      ...result.record,
+      cost: result.record.cost !== null ? Number(result.record.cost) : null,
+      downtimeHours: result.record.downtimeHours !== null ? Number(result.record.downtimeHours) : null,
+      attachments: parseMaintenanceAttachments(result.record.attachments),
+    },
+  };
+}
+
+/**
+ * Skip a task that has not been started and schedule the next one
+ */
+export async function skipMaintenanceTask(taskId: string, notes: string | null | undefined) {
+  return prisma.$transaction(async (tx) => {
+    const task = await findOpenTask(tx, taskId);
+
+    if (task.status === MaintenanceTaskStatus.IN_PROGRESS) {
+      throw new ValidationError('A started task must be completed');
+    }
+
+    await updateOpenTask(tx, task, { status: MaintenanceTaskStatus.SKIPPED, notes: notes || null });
+    const skipped = await tx.maintenanceTask.findUniqueOrThrow({
+      where: { id: taskId },
+      include: MAINTENANCE_TASK_INCLUDE,
+    });
+
+    if (task.plan.isActive) {
+      await scheduleNextTask(tx, task.plan, task.asset);
+    }
+
+    return skipped;
+  });
+}
@@ -1,57 +1,24 @@
-import { prisma } from '@/lib/prisma';
+import type { PrismaTransactionClient } from '@/lib/prisma';
+import { generateDocumentNumber } from '@/lib/domains/system/document-numbering/document-number-service';
+import { getAssetCategoryEntityType } from '@/lib/domains/system/document-numbering/document-number-format';
 
 /**
- * Generate a unique subscription tag using BCE format
+ * Generate a unique subscription tag from the category's DocumentNumberConfig
  * Format: BCE-[CAT]-[YY][SEQ]
  * Examples:
  *   - BCE-SW-25001 (1st Software/SaaS subscription in 2025)
  *   - BCE-DG-25003 (3rd Digital Asset subscription in 2025)
  *
+ * Shares its sequence with asset tags of the same category.
+ *
  * @param categoryCode - 2-letter category code ('SW' for Software/SaaS, 'DG' for Digital Assets)
+ * @param tx - Optional transaction client to use (required when called inside a transaction)
  */
 export async function generateSubscriptionTag(
-  categoryCode: 'SW' | 'DG' = 'SW'
+  categoryCode: 'SW' | 'DG' = 'SW',
+  tx?: PrismaTransactionClient
 ): Promise<string> {
-  // Current 2-digit year
-  const year = new Date().getFullYear().toString().slice(-2);
-
-  // Build prefix for search: BCE-{CAT}-{YY}
-  const prefix = `BCE-${categoryCode}-${year}`;
-
-  // Find the highest sequence number for this category and year
-  const existingSubscriptions = await prisma.subscription.findMany({
-    where: {
-      subscriptionTag: {
-        startsWith: prefix
-      }
-    },
-    orderBy: {
-      subscriptionTag: 'desc'
-    },
-    take: 1
-  });
-
-  let nextSequence = 1;
-
-  if (existingSubscriptions.length > 0) {
-    const latestTag = existingSubscriptions[0].subscriptionTag;
-    if (latestTag) {
-      // Extract sequence number from tag like "BCE-SW-25001"
-      // The sequence is the last 3 digits after the year
-      const match = latestTag.match(/BCE-[A-Z]{2}-(\d{2})(\d{3})$/);
-      if (match) {
-        const currentSequence = parseInt(match[2], 10);
-        if (!isNaN(currentSequence)) {
-          nextSequence = currentSequence + 1;
-        }
-      }
-    }
-  }
-
-  // Format sequence with leading zeros (3 digits)
-  const sequence = nextSequence.toString().padStart(3, '0');
-
-  return `${prefix}${sequence}`;
+  return generateDocumentNumber(getAssetCategoryEntityType(categoryCode), { tx });
 }
 
 /**
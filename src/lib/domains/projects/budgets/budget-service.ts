@@ -0,0 +1,287 @@
+import { BudgetEnforcement, CostType, Prisma } from '@prisma/client';
+import { prisma, PrismaTransactionClient } from '@/lib/prisma';
+import { AppError } from '@/lib/http/errors';
+import {
+  BUDGET_LEDGER_STATUSES,
+  BudgetCheck,
+  BudgetSummary,
+  checkBudget,
+  describeBudgetOverrun,
+  getOperatingBudgetYear,
+  getPurchaseRequestAmountQAR,
+  summarizeBudget,
+} from './budget';
+import { formatCurrency } from '@/lib/payroll/utils';
+
+/**
+ * Budget ledgers for projects and the operating-cost cost center. A ledger
+ * is built from the purchase requests charged to the budget: approved ones
+ * are committed spend, completed ones actual spend.
+ */
+
+const LEDGER_REQUEST_SELECT = {
+  id: true,
+  referenceNumber: true,
+  title: true,
+  status: true,
+  requestDate: true,
+  reviewedAt: true,
+  completedAt: true,
+  totalAmount: true,
+  totalAmountQAR: true,
+  currency: true,
+  requester: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.PurchaseRequestSelect;
+
+type LedgerRequest = Prisma.PurchaseRequestGetPayload<{ select: typeof LEDGER_REQUEST_SELECT }>;
+
+export type BudgetScope = 'PROJECT' | 'OPERATING';
+
+export interface BudgetLedger {
+  scope: BudgetScope;
+  /** Project id, or the operating budget year */
+  key: string;
+  label: string;
+  budget: number | null;
+  enforcement: BudgetEnforcement;
+  summary: BudgetSummary;
+  entries: Array<Omit<LedgerRequest, 'totalAmount' | 'totalAmountQAR'> & { amountQAR: number }>;
+}
+
+export interface PurchaseRequestBudgetCheck {
+  scope: BudgetScope;
+  label: string;
+  enforcement: BudgetEnforcement;
+  /** Spend so far, excluding the request being checked */
+  summary: BudgetSummary & { budget: number };
+  check: BudgetCheck;
+}
+
+function buildLedger(
+  scope: BudgetScope,
+  key: string,
+  label: string,
+  budget: Prisma.Decimal | null,
+  enforcement: BudgetEnforcement,
+  requests: LedgerRequest[]
+): BudgetLedger {
+  const entries = requests.map(({ totalAmount, totalAmountQAR, ...request }) => ({
+    ...request,
+    amountQAR: getPurchaseRequestAmountQAR({ totalAmount, totalAmountQAR }),
+  }));
+  const budgetAmount = budget !== null ? Number(budget) : null;
+
+  return {
+    scope,
+    key,
+    label,
+    budget: budgetAmount,
+    enforcement,
+    summary: summarizeBudget(budgetAmount, entries),
+    entries,
+  };
+}
+
+/**
+ * Budget and spend of a project, or null if the project does not exist
+ */
+export async function getProjectBudgetLedger(
+  projectId: string,
+  db: PrismaTransactionClient = prisma
+): Promise<BudgetLedger | null> {
+  const project = await db.project.findUnique({
+    where: { id: projectId },
+    select: { id: true, code: true, name: true, budgetAmountQAR: true, budgetEnforcement: true },
+  });
+  if (!project) return null;
+
+  const requests = await db.purchaseRequest.findMany({
+    where: { projectId, status: { in: BUDGET_LEDGER_STATUSES } },
+    select: LEDGER_REQUEST_SELECT,
+    orderBy: { requestDate: 'desc' },
+  });
+
+  return buildLedger(
+    'PROJECT',
+    project.id,
+    `project ${project.code}`,
+    project.budgetAmountQAR,
+    project.budgetEnforcement,
+    requests
+  );
+}
+
+/**
+ * Budget and spend of the operating-cost cost center for a year
+ */
+export async function getOperatingBudgetLedger(
+  year: number,
+  db: PrismaTransactionClient = prisma
+): Promise<BudgetLedger> {
+  const [budget, requests] = await Promise.all([
+    db.operatingBudget.findUnique({ where: { year } }),
+    db.purchaseRequest.findMany({
+      where: {
+        costType: CostType.OPERATING_COST,
+        status: { in: BUDGET_LEDGER_STATUSES },
+        requestDate: { gte: new Date(year, 0, 1), lt: new Date(year + 1, 0, 1) },
+      },
+      select: LEDGER_REQUEST_SELECT,
+      orderBy: { requestDate: 'desc' },
+    }),
+  ]);
+
+  return buildLedger(
+    'OPERATING',
+    String(year),
+    `${year} operating`,
+    budget?.amountQAR ?? null,
+    budget?.enforcement ?? BudgetEnforcement.WARN,
+    requests
+  );
+}
+
+type BudgetedRequest = {
+  id: string;
+  costType: CostType;
+  projectId: string | null;
+  requestDate: Date;
+  totalAmount: Prisma.Decimal;
+  totalAmountQAR: Prisma.Decimal | null;
+};
+
+/**
+ * Check a purchase request against the budget it is charged to. Returns null
+ * when no budget applies: project costs without a linked project, or a
+ * project or year with no budget set.
+ */
+export async function checkPurchaseRequestBudget(
+  request: BudgetedRequest,
+  db: PrismaTransactionClient = prisma
+): Promise<PurchaseRequestBudgetCheck | null> {
+  let ledger: BudgetLedger | null;
+  if (request.costType === CostType.PROJECT_COST) {
+    ledger = request.projectId ? await getProjectBudgetLedger(request.projectId, db) : null;
+  } else {
+    ledger = await getOperatingBudgetLedger(getOperatingBudgetYear(request.requestDate), db);
+  }
+
+  if (!ledger || ledger.budget === null) return null;
+
+  const summary = {
+    ...summarizeBudget(ledger.budget, ledger.entries.filter(entry => entry.id !== request.id)),
+    budget: ledger.budget,
+  };
+
+  return {
+    scope: ledger.scope,
+    label: ledger.label,
+    enforcement: ledger.enforcement,
+    summary,
+    check: checkBudget(summary, getPurchaseRequestAmountQAR(request), ledger.enforcement),
+  };
+}
+
+/**
+ * Check a request against its budget while approving it: the project or
+ * operating budget row is locked until the transaction ends, so approvals
+ * charged to the same budget are checked one after another and cannot both
+ * spend the same headroom.
+ */
+export async function lockAndCheckPurchaseRequestBudget(
+  tx: PrismaTransactionClient,
+  request: BudgetedRequest
+): Promise<PurchaseRequestBudgetCheck | null> {
+  if (request.costType === CostType.PROJECT_COST) {
+    if (request.projectId) {
+      await tx.$queryRaw`SELECT id FROM "Project" WHERE id = ${request.projectId} FOR UPDATE`;
+    }
+  } else {
+    const year = getOperatingBudgetYear(request.requestDate);
+    await tx.$queryRaw`SELECT id FROM "OperatingBudget" WHERE year = ${year} FOR UPDATE`;
+  }
+
+  return checkPurchaseRequestBudget(request, tx);
+}
+
+/**
+ * Response for an approval the budget stops: over a budget that blocks, or over
+ * a warn-only budget without the approver's acknowledgement. Null when the
+ * approval can go ahead.
+ */
+export function getBudgetApprovalError(
+  budgetCheck: PurchaseRequestBudgetCheck | null,
+  acknowledgeOverBudget?: boolean
+): { status: 400 | 409; body: { error: string; budget: PurchaseRequestBudgetCheck; requiresAcknowledgement?: boolean } } | null {
+  if (!budgetCheck?.check.isOverBudget) return null;
+
+  const error = describeBudgetOverrun(budgetCheck.label, budgetCheck.summary, budgetCheck.check);
+  if (budgetCheck.check.isBlocked) {
+    return { status: 400, body: { error, budget: budgetCheck } };
+  }
+  if (!acknowledgeOverBudget) {
+    return { status: 409, body: { error, budget: budgetCheck, requiresAcknowledgement: true } };
+  }
+  return null;
+}
+
+/**
+ * Thrown from an approval's transaction when the budget stops it, carrying
+ * the response from getBudgetApprovalError
+ */
+export class BudgetApprovalError extends AppError {
+  constructor(public readonly response: NonNullable<ReturnType<typeof getBudgetApprovalError>>) {
+    super(response.body.error, response.status);
+    this.name = 'BudgetApprovalError';
+  }
+}
+
+/**
+ * History note for an approval that went over budget
+ */
+export function getOverBudgetNote(budgetCheck: PurchaseRequestBudgetCheck | null): string | null {
+  return budgetCheck?.check.isOverBudget
+    ? `Approved over the ${budgetCheck.label} budget by ${formatCurrency(budgetCheck.check.overBy)}`
+    : null;
+}
+
+/**
+ * Activity log summary of a budget check
+ */
+export function getBudgetActivityPayload(budgetCheck: PurchaseRequestBudgetCheck | null) {
+  return budgetCheck
+    ? {
+        label: budgetCheck.label,
+        budget: budgetCheck.summary.budget,
+        projectedSpent: budgetCheck.check.projectedSpent,
+        overBy: budgetCheck.check.overBy,
+      }
+    : undefined;
+}
+
+/**
+ * Budget summaries of all projects that have a budget or spend against them
+ */
+export async function getProjectBudgetSummaries() {
+  const [projects, requests] = await Promise.all([
+    prisma.project.findMany({
+      select: { id: true, code: true, name: true, status: true, budgetAmountQAR: true, budgetEnforcement: true },
+      orderBy: { code: 'asc' },
+    }),
+    prisma.purchaseRequest.findMany({
+      where: { projectId: { not: null }, status: { in: BUDGET_LEDGER_STATUSES } },
+      select: { projectId: true, status: true, totalAmount: true, totalAmountQAR: true },
+    }),
+  ]);
+
+  return projects
+    .map(({ budgetAmountQAR, ...project }) => {
+      const entries = requests
+        .filter(request => request.projectId === project.id)
+        .map(request => ({ status: request.status, amountQAR: getPurchaseRequestAmountQAR(request) }));
+      const budget = budgetAmountQAR !== null ? Number(budgetAmountQAR) : null;
+
+      return { ...project, hasSpend: entries.length > 0, summary: summarizeBudget(budget, entries) };
+    })
+    .filter(project => project.summary.budget !== null || project.hasSpend);
+}
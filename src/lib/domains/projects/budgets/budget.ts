@@ -0,0 +1,128 @@
+import { BudgetEnforcement, PurchaseRequestStatus } from '@prisma/client';
+import { formatCurrency } from '@/lib/payroll/utils';
+
+/** Approved requests commit budget until they are completed */
+export const BUDGET_COMMITTED_STATUSES: PurchaseRequestStatus[] = [PurchaseRequestStatus.APPROVED];
+
+/** Completed requests are actual spend */
+export const BUDGET_ACTUAL_STATUSES: PurchaseRequestStatus[] = [PurchaseRequestStatus.COMPLETED];
+
+export const BUDGET_LEDGER_STATUSES: PurchaseRequestStatus[] = [
+  ...BUDGET_COMMITTED_STATUSES,
+  ...BUDGET_ACTUAL_STATUSES,
+];
+
+export const BUDGET_ENFORCEMENT_LABELS: Record<BudgetEnforcement, string> = {
+  WARN: 'Warn approver',
+  BLOCK: 'Block approval',
+};
+
+export interface BudgetLedgerEntry {
+  status: PurchaseRequestStatus;
+  amountQAR: number;
+}
+
+export interface BudgetSummary {
+  /** Null when no budget has been set; spend is still tracked */
+  budget: number | null;
+  committed: number;
+  actual: number;
+  /** Committed plus actual */
+  spent: number;
+  remaining: number | null;
+  /** Spent as a percentage of the budget */
+  utilisation: number | null;
+}
+
+export interface BudgetCheck {
+  amount: number;
+  /** Spent once the request is approved */
+  projectedSpent: number;
+  remainingAfter: number;
+  /** How far the request takes spend past the budget, 0 when within it */
+  overBy: number;
+  isOverBudget: boolean;
+  /** Over budget and the budget blocks approval */
+  isBlocked: boolean;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * A purchase request's amount in QAR. Requests raised in QAR before the QAR
+ * total was stored fall back to their total.
+ */
+export function getPurchaseRequestAmountQAR(request: {
+  totalAmount: number | { toString(): string };
+  totalAmountQAR: number | { toString(): string } | null;
+}): number {
+  return Number(request.totalAmountQAR ?? request.totalAmount);
+}
+
+/**
+ * The operating budget year a purchase request counts against
+ */
+export function getOperatingBudgetYear(requestDate: Date): number {
+  return requestDate.getFullYear();
+}
+
+/**
+ * Committed and actual spend against a budget
+ */
+export function summarizeBudget(budget: number | null, entries: BudgetLedgerEntry[]): BudgetSummary {
+  let committed = 0;
+  let actual = 0;
+
+  for (const entry of entries) {
+    if (BUDGET_COMMITTED_STATUSES.includes(entry.status)) {
+      committed += entry.amountQAR;
+    } else if (BUDGET_ACTUAL_STATUSES.includes(entry.status)) {
+      actual += entry.amountQAR;
+    }
+  }
+
+  const spent = committed + actual;
+
+  return {
+    budget,
+    committed: round2(committed),
+    actual: round2(actual),
+    spent: round2(spent),
+    remaining: budget !== null ? round2(budget - spent) : null,
+    utilisation: budget !== null && budget > 0 ? Math.round((spent / budget) * 1000) / 10 : null,
+  };
+}
+
+/**
+ * Whether approving a request of the given amount keeps spend within budget.
+ * The summary must not already include the request.
+ */
+export function checkBudget(
+  summary: BudgetSummary & { budget: number },
+  amount: number,
+  enforcement: BudgetEnforcement
+): BudgetCheck {
+  const projectedSpent = round2(summary.spent + amount);
+  const remainingAfter = round2(summary.budget - projectedSpent);
+  const overBy = remainingAfter < 0 ? -remainingAfter : 0;
+  const isOverBudget = overBy > 0;
+
+  return {
+    amount: round2(amount),
+    projectedSpent,
+    remainingAfter,
+    overBy,
+    isOverBudget,
+    isBlocked: isOverBudget && enforcement === BudgetEnforcement.BLOCK,
+  };
+}
+
+/**
+ * Message shown to the approver when a request would go over budget
+ */
+export function describeBudgetOverrun(budgetLabel: string, summary: BudgetSummary & { budget: number }, check: BudgetCheck): string {
+  return `Approving this request would exceed the ${budgetLabel} budget of ${formatCurrency(summary.budget)} ` +
+    `by ${formatCurrency(check.overBy)} (${formatCurrency(summary.spent)} already committed or spent)`;
+}
@@ -0,0 +1,293 @@
+import { AcquisitionType, AssetStatus, BillingCycle, GoodsReceiptTarget, Prisma, PurchaseOrderStatus, SubscriptionStatus } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { generateDocumentNumber } from '@/lib/domains/system/document-numbering/document-number-service';
+import { generateAssetTag } from '@/lib/domains/operations/assets/asset-utils';
+import {
+  generateSubscriptionTag,
+  getSubscriptionCategoryCode,
+} from '@/lib/domains/operations/subscriptions/subscription-utils';
+import { calculateNextRenewalDate } from '@/lib/domains/operations/subscriptions/subscription-lifecycle';
+import { ConflictError, NotFoundError, ValidationError } from '@/lib/http/errors';
+import { canReceivePurchaseOrder, getReceivingStatus } from '@/lib/domains/projects/purchase-orders/purchase-order';
+import {
+  getOutstandingQuantity,
+  getSubscriptionCostQAR,
+  RECEIVABLE_PURCHASE_REQUEST_STATUSES,
+} from './goods-receipt';
+import type { CreateGoodsReceiptInput } from '@/lib/validations/projects/goods-receipt';
+
+/**
+ * Everything shown for a goods receipt, including the records created from it
+ */
+export const GOODS_RECEIPT_INCLUDE = {
+  receivedBy: { select: { id: true, name: true, email: true } },
+  lines: {
+    include: {
+      purchaseRequestItem: { select: { id: true, itemNumber: true, description: true } },
+      purchaseOrderLine: { select: { purchaseOrder: { select: { id: true, poNumber: true } } } },
+      assets: {
+        select: { id: true, assetTag: true, model: true, serial: true },
+        orderBy: { assetTag: 'asc' },
+      },
+      subscriptions: {
+        select: { id: true, subscriptionTag: true, serviceName: true },
+        orderBy: { subscriptionTag: 'asc' },
+      },
+    },
+  },
+} satisfies Prisma.GoodsReceiptInclude;
+
+/**
+ * Where an asset or subscription was bought: its receipt line's receipt,
+ * purchase request and purchase order
+ */
+export const PURCHASE_ORIGIN_SELECT = {
+  select: {
+    goodsReceipt: {
+      select: {
+        id: true,
+        receiptNumber: true,
+        purchaseRequest: { select: { id: true, referenceNumber: true, title: true } },
+      },
+    },
+    purchaseOrderLine: { select: { purchaseOrder: { select: { id: true, poNumber: true } } } },
+  },
+} satisfies Prisma.GoodsReceiptLineDefaultArgs;
+
+/**
+ * A request's goods receipts, oldest first
+ */
+export async function getPurchaseRequestReceipts(purchaseRequestId: string) {
+  return prisma.goodsReceipt.findMany({
+    where: { purchaseRequestId },
+    include: GOODS_RECEIPT_INCLUDE,
+    orderBy: { createdAt: 'asc' },
+  });
+}
+
+/**
+ * Record goods that arrived for an approved request. Each line marks units of
+ * an item as received and creates one asset or subscription per unit, linked
+ * back to the receipt line. If the item was ordered, its purchase order line
+ * is brought up to the quantity received and the order status follows.
+ */
+export async function createGoodsReceipt(
+  purchaseRequestId: string,
+  input: CreateGoodsReceiptInput,
+  user: { id: string }
+) {
+  const itemIds = input.lines.map(line => line.itemId);
+
+  const receipt = await prisma.$transaction(async (tx) => {
+    const request = await tx.purchaseRequest.findUnique({
+      where: { id: purchaseRequestId },
+      select: {
+        id: true,
+        referenceNumber: true,
+        status: true,
+        vendorName: true,
+        items: {
+          where: { id: { in: itemIds } },
+          include: {
+            purchaseOrderLines: {
+              include: {
+                purchaseOrder: {
+                  select: { id: true, poNumber: true, status: true, supplier: { select: { name: true } } },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!request) {
+      throw new NotFoundError('Purchase request');
+    }
+    if (!RECEIVABLE_PURCHASE_REQUEST_STATUSES.includes(request.status)) {
+      throw new ValidationError('Goods can only be received for approved requests');
+    }
+    if (request.items.length !== itemIds.length) {
+      throw new ValidationError('One or more items do not belong to this request');
+    }
+
+    const receiptNumber = await generateDocumentNumber('GOODS_RECEIPT', { tx });
+    const created = await tx.goodsReceipt.create({
+      data: {
+        receiptNumber,
+        purchaseRequestId,
+        receivedDate: input.receivedDate,
+        invoiceNumber: input.invoiceNumber || null,
+        notes: input.notes || null,
+        receivedById: user.id,
+      },
+    });
+    const recordNotes = `Received on ${receiptNumber} for purchase request ${request.referenceNumber}`;
+    const touchedOrderIds = new Set<string>();
+
+    for (const lineInput of input.lines) {
+      const item = request.items.find(i => i.id === lineInput.itemId)!;
+      const outstanding = getOutstandingQuantity(item);
+      if (lineInput.quantity > outstanding) {
+        throw new ValidationError(
+          outstanding === 0
+            ? `Item ${item.itemNumber} has already been received in full`
+            : `Item ${item.itemNumber} only has ${outstanding} still to receive`
+        );
+      }
+
+      const orderLine = item.purchaseOrderLines.find(line => canReceivePurchaseOrder(line.purchaseOrder.status));
+      const supplierName = orderLine?.purchaseOrder.supplier.name || item.supplier || request.vendorName || null;
+
+      // The check above read the item before any receipt recorded in the
+      // meantime; the write only goes through if the units are still outstanding
+      const { count } = await tx.purchaseRequestItem.updateMany({
+        where: { id: item.id, quantityReceived: { lte: item.quantity - lineInput.quantity } },
+        data: { quantityReceived: { increment: lineInput.quantity } },
+      });
+      if (count === 0) {
+        throw new ConflictError(`Item ${item.itemNumber} has just been received by someone else`);
+      }
+
+      const receiptLine = await tx.goodsReceiptLine.create({
+        data: {
+          goodsReceiptId: created.id,
+          purchaseRequestItemId: item.id,
+          purchaseOrderLineId: orderLine?.id ?? null,
+          quantity: lineInput.quantity,
+          target: lineInput.target,
+        },
+      });
+
+      for (let unit = 0; unit < lineInput.quantity; unit++) {
+        if (lineInput.target === GoodsReceiptTarget.ASSET) {
+          const asset = await tx.asset.create({
+            data: {
+              assetTag: await generateAssetTag(lineInput.assetCategory!, false, tx),
+              assetCategory: lineInput.assetCategory,
+              type: lineInput.assetType!.trim(),
+              category: item.category,
+              brand: lineInput.brand || null,
+              model: lineInput.model || item.description,
+              serial: lineInput.serials?.[unit]?.trim() || null,
+              purchaseDate: input.receivedDate,
+              warrantyExpiry: lineInput.warrantyExpiry ?? null,
+              supplier: supplierName,
+              invoiceNumber: input.invoiceNumber || orderLine?.purchaseOrder.poNumber || null,
+              price: item.unitPrice,
+              priceCurrency: item.currency,
+              priceQAR: item.unitPriceQAR ?? item.unitPrice,
+              status: AssetStatus.SPARE,
+              acquisitionType: AcquisitionType.NEW_PURCHASE,
+              location: lineInput.location || null,
+              notes: recordNotes,
+              goodsReceiptLineId: receiptLine.id,
+            },
+          });
+
+          await tx.assetHistory.create({
+            data: {
+              assetId: asset.id,
+              action: 'CREATED',
+              toStatus: asset.status,
+              toLocation: asset.location,
+              performedBy: user.id,
+              notes: recordNotes,
+            },
+          });
+        } else if (lineInput.target === GoodsReceiptTarget.SUBSCRIPTION) {
+          const billingCycle = lineInput.billingCycle ?? item.billingCycle;
+          const costQAR = lineInput.costPerCycle ?? getSubscriptionCostQAR(item);
+          const renewalDate = lineInput.renewalDate ?? (
+            billingCycle === BillingCycle.ONE_TIME ? null : calculateNextRenewalDate(input.receivedDate, billingCycle)
+          );
+
+          const subscription = await tx.subscription.create({
+            data: {
+              subscriptionTag: await generateSubscriptionTag(getSubscriptionCategoryCode(item.category), tx),
+              serviceName: lineInput.serviceName || item.description,
+              category: item.category,
+              purchaseDate: input.receivedDate,
+              renewalDate,
+              billingCycle,
+              costPerCycle: costQAR,
+              costCurrency: 'QAR',
+              costQAR,
+              vendor: supplierName,
+              status: SubscriptionStatus.ACTIVE,
+              autoRenew: billingCycle !== BillingCycle.ONE_TIME,
+              notes: recordNotes,
+              goodsReceiptLineId: receiptLine.id,
+            },
+          });
+
+          await tx.subscriptionHistory.create({
+            data: {
+              subscriptionId: subscription.id,
+              action: 'CREATED',
+              newStatus: subscription.status,
+              performedBy: user.id,
+              notes: recordNotes,
+            },
+          });
+        }
+      }
+
+      if (orderLine) {
+        const { quantityReceived } = await tx.purchaseRequestItem.findUniqueOrThrow({
+          where: { id: item.id },
+          select: { quantityReceived: true },
+        });
+        const lineReceived = Math.min(orderLine.quantity, quantityReceived);
+        const { count: linesMoved } = await tx.purchaseOrderLine.updateMany({
+          where: { id: orderLine.id, quantityReceived: { lt: lineReceived } },
+          data: { quantityReceived: lineReceived },
+        });
+        if (linesMoved > 0) {
+          touchedOrderIds.add(orderLine.purchaseOrder.id);
+        }
+      }
+    }
+
+    // Orders whose lines moved take the receiving status that follows from them
+    for (const orderId of Array.from(touchedOrderIds)) {
+      const lines = await tx.purchaseOrderLine.findMany({
+        where: { purchaseOrderId: orderId },
+        select: { quantity: true, quantityReceived: true },
+      });
+      const status = getReceivingStatus(lines);
+      await tx.purchaseOrder.update({
+        where: { id: orderId },
+        data: {
+          status,
+          receivedAt: status === PurchaseOrderStatus.RECEIVED ? new Date() : null,
+        },
+      });
+    }
+
+    return tx.goodsReceipt.findUniqueOrThrow({
+      where: { id: created.id },
+      include: GOODS_RECEIPT_INCLUDE,
+    });
+  }, { timeout: 60000 });
+
+  const units = receipt.lines.reduce((sum, line) => sum + line.quantity, 0);
+  const assetCount = receipt.lines.reduce((sum, line) => sum + line.assets.length, 0);
+  const subscriptionCount = receipt.lines.reduce((sum, line) => sum + line.subscriptions.length, 0);
+  const created = [
+    assetCount > 0 && `${assetCount} asset${assetCount === 1 ? '' : 's'}`,
+    subscriptionCount > 0 && `${subscriptionCount} subscription${subscriptionCount === 1 ? '' : 's'}`,
+  ].filter(Boolean);
+
+  await prisma.purchaseRequestHistory.create({
+    data: {
+      purchaseRequestId,
+      action: 'GOODS_RECEIVED',
+      performedById: user.id,
+      details: `Goods receipt ${receipt.receiptNumber}: ${units} unit${units === 1 ? '' : 's'} received` +
+        (created.length > 0 ? `, ${created.join(' and ')} created` : ''),
+    },
+  });
+
+  return receipt;
+}
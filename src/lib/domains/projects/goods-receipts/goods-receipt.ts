@@ -0,0 +1,76 @@
+import { BillingCycle, GoodsReceiptTarget, PurchaseRequestStatus, PurchaseType } from '@prisma/client';
+
+/**
+ * Goods Receipt Utilities
+ *
+ * Pure helpers for receiving goods against approved purchase requests (no
+ * database access): what each item should become once it arrives, how much of
+ * it is still outstanding, and the costs carried over to the subscriptions created.
+ */
+
+export const GOODS_RECEIPT_TARGET_LABELS: Record<GoodsReceiptTarget, string> = {
+  ASSET: 'Assets',
+  SUBSCRIPTION: 'Subscriptions',
+  NONE: 'Quantity only',
+};
+
+/**
+ * Request statuses goods can be received against
+ */
+export const RECEIVABLE_PURCHASE_REQUEST_STATUSES: PurchaseRequestStatus[] = [
+  PurchaseRequestStatus.APPROVED,
+  PurchaseRequestStatus.COMPLETED,
+];
+
+type DecimalLike = number | string | { toString(): string };
+
+export interface ReceivableItem {
+  quantity: number;
+  quantityReceived: number;
+}
+
+export interface ReceiptItemPricing {
+  unitPrice: DecimalLike;
+  unitPriceQAR?: DecimalLike | null;
+}
+
+/**
+ * Units of an item still to arrive
+ */
+export function getOutstandingQuantity(item: ReceivableItem): number {
+  return Math.max(0, item.quantity - item.quantityReceived);
+}
+
+/**
+ * Whether every item of a request has arrived in full
+ */
+export function isFullyReceived(items: ReceivableItem[]): boolean {
+  return items.length > 0 && items.every(item => getOutstandingQuantity(item) === 0);
+}
+
+/**
+ * What an item most likely becomes when it arrives: recurring and software
+ * purchases become subscriptions, hardware becomes assets, and anything else
+ * (consumables, services) only has its quantity recorded
+ */
+export function suggestReceiptTarget(
+  item: { billingCycle: BillingCycle },
+  purchaseType: PurchaseType
+): GoodsReceiptTarget {
+  if (item.billingCycle !== BillingCycle.ONE_TIME || purchaseType === PurchaseType.SOFTWARE_SUBSCRIPTION) {
+    return GoodsReceiptTarget.SUBSCRIPTION;
+  }
+  if (purchaseType === PurchaseType.HARDWARE) {
+    return GoodsReceiptTarget.ASSET;
+  }
+  return GoodsReceiptTarget.NONE;
+}
+
+/**
+ * Subscription cost per cycle in QAR for one unit of an item. For recurring
+ * items the unit price is the amount per cycle; amountPerCycle is per unit on
+ * subscription requests but the line total on other requests and edited items.
+ */
+export function getSubscriptionCostQAR(item: ReceiptItemPricing): number {
+  return Number(item.unitPriceQAR ?? item.unitPrice);
+}
@@ -0,0 +1,219 @@
+import { jsPDF } from 'jspdf';
+import { formatCurrency } from '@/lib/payroll/utils';
+
+/**
+ * Purchase order PDFs
+ *
+ * The document sent to the supplier: who is buying and from whom, where to
+ * deliver, the lines ordered with their prices, and the agreed terms.
+ */
+
+export interface PurchaseOrderPdfData {
+  poNumber: string;
+  orderDate: Date;
+  expectedDeliveryDate: Date | null;
+  purchaseRequestReference: string;
+  supplier: {
+    name: string;
+    code: string | null;
+    address: string | null;
+    contactName: string | null;
+    contactEmail: string | null;
+    contactPhone: string | null;
+  };
+  deliveryAddress: string;
+  paymentTerms: string | null;
+  deliveryTerms: string | null;
+  notes: string | null;
+  currency: string;
+  lines: {
+    lineNumber: number;
+    description: string;
+    quantity: number;
+    unitPrice: number;
+    totalPrice: number;
+  }[];
+  totalAmount: number;
+  issuedBy: string;
+}
+
+export interface PurchaseOrderBranding {
+  companyName: string;
+  primaryColor: string;
+}
+
+const PAGE_MARGIN = 20;
+const ROW_LINE_HEIGHT = 4.5;
+
+function formatDay(date: Date | null): string {
+  return date ? date.toLocaleDateString('en-GB') : '-';
+}
+
+function isValidHexColor(color: string): boolean {
+  return /^#[0-9a-fA-F]{6}$/.test(color);
+}
+
+export function getPurchaseOrderFilename(poNumber: string): string {
+  return `Purchase-Order-${poNumber}.pdf`;
+}
+
+/**
+ * Draw a titled block of text lines and return the y position below it
+ */
+function drawBlock(doc: jsPDF, title: string, lines: string[], x: number, startY: number, width: number): number {
+  let y = startY;
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(9);
+  doc.setTextColor(110);
+  doc.text(title.toUpperCase(), x, y);
+  y += 5;
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9.5);
+  doc.setTextColor(0);
+  for (const line of lines) {
+    const wrapped = doc.splitTextToSize(line, width) as string[];
+    doc.text(wrapped, x, y);
+    y += wrapped.length * ROW_LINE_HEIGHT;
+  }
+
+  return y;
+}
+
+/**
+ * Render a purchase order as a PDF document
+ */
+export function generatePurchaseOrderPdf(data: PurchaseOrderPdfData, branding: PurchaseOrderBranding): Buffer {
+  const doc = new jsPDF({ format: 'a4', unit: 'mm' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - PAGE_MARGIN * 2;
+  const primaryColor = isValidHexColor(branding.primaryColor) ? branding.primaryColor : '#3B82F6';
+  const money = (amount: number) => formatCurrency(amount, data.currency);
+
+  // Header
+  doc.setFillColor(primaryColor);
+  doc.rect(0, 0, pageWidth, 8, 'F');
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(12);
+  doc.text(branding.companyName, PAGE_MARGIN, 22);
+  doc.setFontSize(18);
+  doc.text('PURCHASE ORDER', pageWidth - PAGE_MARGIN, 22, { align: 'right' });
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9.5);
+  [
+    ['PO Number', data.poNumber],
+    ['Order Date', formatDay(data.orderDate)],
+    ['Deliver By', formatDay(data.expectedDeliveryDate)],
+    ['Request Ref.', data.purchaseRequestReference],
+  ].forEach(([label, value], index) => {
+    const y = 30 + index * 5;
+    doc.setTextColor(110);
+    doc.text(label, pageWidth - PAGE_MARGIN - 45, y);
+    doc.setTextColor(0);
+    doc.text(value, pageWidth - PAGE_MARGIN, y, { align: 'right' });
+  });
+
+  // Supplier and delivery
+  const columnWidth = (contentWidth - 10) / 2;
+  const { supplier } = data;
+  const supplierY = drawBlock(doc, 'Supplier', [
+    supplier.code ? `${supplier.name} (${supplier.code})` : supplier.name,
+    ...[supplier.address, supplier.contactName, supplier.contactEmail, supplier.contactPhone]
+      .filter((line): line is string => !!line),
+  ], PAGE_MARGIN, 58, columnWidth);
+  const deliveryY = drawBlock(doc, 'Deliver To', [
+    branding.companyName,
+    data.deliveryAddress,
+  ], PAGE_MARGIN + columnWidth + 10, 58, columnWidth);
+
+  // Lines
+  const columns = {
+    number: PAGE_MARGIN + 2,
+    description: PAGE_MARGIN + 12,
+    quantity: PAGE_MARGIN + contentWidth - 62,
+    unitPrice: PAGE_MARGIN + contentWidth - 32,
+    total: PAGE_MARGIN + contentWidth - 2,
+  };
+  const descriptionWidth = columns.quantity - columns.description - 12;
+
+  let y = Math.max(supplierY, deliveryY) + 8;
+  doc.setFillColor(primaryColor);
+  doc.rect(PAGE_MARGIN, y - 5, contentWidth, 7, 'F');
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(9);
+  doc.setTextColor(255);
+  doc.text('#', columns.number, y);
+  doc.text('Description', columns.description, y);
+  doc.text('Qty', columns.quantity, y, { align: 'right' });
+  doc.text('Unit Price', columns.unitPrice, y, { align: 'right' });
+  doc.text('Total', columns.total, y, { align: 'right' });
+  doc.setTextColor(0);
+  y += 7;
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9.5);
+  doc.setDrawColor(220);
+  for (const line of data.lines) {
+    const description = doc.splitTextToSize(line.description, descriptionWidth) as string[];
+    const rowHeight = description.length * ROW_LINE_HEIGHT + 2;
+
+    if (y + rowHeight > pageHeight - 40) {
+      doc.addPage();
+      y = 25;
+    }
+
+    doc.text(String(line.lineNumber), columns.number, y);
+    doc.text(description, columns.description, y);
+    doc.text(String(line.quantity), columns.quantity, y, { align: 'right' });
+    doc.text(money(line.unitPrice), columns.unitPrice, y, { align: 'right' });
+    doc.text(money(line.totalPrice), columns.total, y, { align: 'right' });
+    y += rowHeight;
+    doc.line(PAGE_MARGIN, y - 3.5, PAGE_MARGIN + contentWidth, y - 3.5);
+  }
+
+  doc.setFont('helvetica', 'bold');
+  doc.text('Total', columns.unitPrice, y + 2, { align: 'right' });
+  doc.text(money(data.totalAmount), columns.total, y + 2, { align: 'right' });
+  y += 14;
+
+  // Terms
+  const terms = [
+    ['Payment terms', data.paymentTerms],
+    ['Delivery terms', data.deliveryTerms],
+    ['Notes', data.notes],
+  ].filter((term): term is [string, string] => !!term[1]);
+  if (terms.length > 0) {
+    if (y + terms.length * 12 > pageHeight - 45) {
+      doc.addPage();
+      y = 25;
+    }
+    for (const [label, value] of terms) {
+      y = drawBlock(doc, label, [value], PAGE_MARGIN, y, contentWidth) + 4;
+    }
+  }
+
+  // Authorisation
+  const signatureY = Math.min(Math.max(y + 20, 240), pageHeight - 25);
+  doc.setDrawColor(120);
+  doc.line(PAGE_MARGIN, signatureY, PAGE_MARGIN + 70, signatureY);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(110);
+  doc.text(`Authorised by: ${data.issuedBy}`, PAGE_MARGIN, signatureY + 5);
+
+  // Footer
+  doc.setFont('helvetica', 'italic');
+  doc.setFontSize(8);
+  doc.text(
+    `Please quote ${data.poNumber} on all invoices and delivery notes.`,
+    pageWidth / 2,
+    pageHeight - 10,
+    { align: 'center' }
+  );
+
+  return Buffer.from(doc.output('arraybuffer'));
+}
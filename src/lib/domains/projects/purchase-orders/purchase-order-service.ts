@@ -0,0 +1,325 @@
+import { Prisma, PurchaseOrderStatus, PurchaseRequestStatus, SupplierStatus } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { generateDocumentNumber } from '@/lib/domains/system/document-numbering/document-number-service';
+import { createNotification, NotificationTemplates } from '@/lib/domains/system/notifications';
+import { ConflictError, NotFoundError, ValidationError } from '@/lib/http/errors';
+import {
+  calculatePurchaseOrderTotals,
+  canCancelPurchaseOrder,
+  canClosePurchaseOrder,
+  getOrderedItems,
+} from './purchase-order';
+import type { PurchaseOrderPdfData } from './purchase-order-pdf';
+import type { CreatePurchaseOrderInput } from '@/lib/validations/projects/purchase-order';
+
+/**
+ * Everything shown for a purchase order
+ */
+export const PURCHASE_ORDER_INCLUDE = {
+  supplier: {
+    select: {
+      id: true,
+      suppCode: true,
+      name: true,
+      address: true,
+      city: true,
+      country: true,
+      primaryContactName: true,
+      primaryContactEmail: true,
+      primaryContactMobile: true,
+    },
+  },
+  purchaseRequest: {
+    select: {
+      id: true,
+      referenceNumber: true,
+      title: true,
+      requester: { select: { id: true, name: true, email: true } },
+    },
+  },
+  lines: { orderBy: { lineNumber: 'asc' } },
+  issuedBy: { select: { id: true, name: true, email: true } },
+  closedBy: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.PurchaseOrderInclude;
+
+type PurchaseOrderWithDetails = Prisma.PurchaseOrderGetPayload<{ include: typeof PURCHASE_ORDER_INCLUDE }>;
+
+/**
+ * Purchase order with amounts as numbers for the client
+ */
+export function transformPurchaseOrder(order: PurchaseOrderWithDetails) {
+  return {
+    ...order,
+    totalAmount: Number(order.totalAmount),
+    totalAmountQAR: order.totalAmountQAR !== null ? Number(order.totalAmountQAR) : null,
+    lines: order.lines.map(line => ({
+      ...line,
+      unitPrice: Number(line.unitPrice),
+      totalPrice: Number(line.totalPrice),
+    })),
+  };
+}
+
+/**
+ * A request's purchase orders, and which of its items are already on an
+ * order (item id -> PO number)
+ */
+export async function getPurchaseRequestOrders(purchaseRequestId: string) {
+  const orders = await prisma.purchaseOrder.findMany({
+    where: { purchaseRequestId },
+    include: PURCHASE_ORDER_INCLUDE,
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const orderedItems = getOrderedItems(
+    orders.flatMap(order => order.lines.map(line => ({
+      purchaseRequestItemId: line.purchaseRequestItemId,
+      purchaseOrder: { poNumber: order.poNumber, status: order.status },
+    })))
+  );
+
+  return {
+    purchaseOrders: orders.map(transformPurchaseOrder),
+    orderedItems: Object.fromEntries(orderedItems),
+  };
+}
+
+/**
+ * Issue a purchase order to an approved supplier for some or all of an
+ * approved request's items. Items already on an open or completed order
+ * cannot be ordered again; cancelling that order frees them.
+ */
+export async function createPurchaseOrder(
+  purchaseRequestId: string,
+  input: CreatePurchaseOrderInput,
+  user: { id: string }
+) {
+  const itemIds = Array.from(new Set(input.itemIds));
+
+  const order = await prisma.$transaction(async (tx) => {
+    // Orders for the same request are issued one at a time, so the same item
+    // cannot end up on two of them
+    await tx.$queryRaw`SELECT id FROM "PurchaseRequest" WHERE id = ${purchaseRequestId} FOR UPDATE`;
+
+    const request = await tx.purchaseRequest.findUnique({
+      where: { id: purchaseRequestId },
+      select: {
+        id: true,
+        status: true,
+        currency: true,
+        items: {
+          where: { id: { in: itemIds } },
+          orderBy: { itemNumber: 'asc' },
+          include: {
+            purchaseOrderLines: {
+              select: {
+                purchaseRequestItemId: true,
+                purchaseOrder: { select: { poNumber: true, status: true } },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!request) {
+      throw new NotFoundError('Purchase request');
+    }
+    if (request.status !== PurchaseRequestStatus.APPROVED) {
+      throw new ValidationError('Purchase orders can only be issued for approved requests');
+    }
+    if (request.items.length !== itemIds.length) {
+      throw new ValidationError('One or more items do not belong to this request');
+    }
+
+    const orderedItems = getOrderedItems(request.items.flatMap(item => item.purchaseOrderLines));
+    const alreadyOrdered = request.items.find(item => orderedItems.has(item.id));
+    if (alreadyOrdered) {
+      throw new ConflictError(
+        `Item ${alreadyOrdered.itemNumber} is already on purchase order ${orderedItems.get(alreadyOrdered.id)}`
+      );
+    }
+
+    const supplier = await tx.supplier.findUnique({
+      where: { id: input.supplierId },
+      select: { status: true, paymentTerms: true },
+    });
+    if (!supplier) {
+      throw new NotFoundError('Supplier');
+    }
+    if (supplier.status !== SupplierStatus.APPROVED) {
+      throw new ValidationError('Purchase orders can only be issued to approved suppliers');
+    }
+
+    const poNumber = await generateDocumentNumber('PURCHASE_ORDER', { tx });
+    const totals = calculatePurchaseOrderTotals(request.items);
+
+    return tx.purchaseOrder.create({
+      data: {
+        poNumber,
+        purchaseRequestId,
+        supplierId: input.supplierId,
+        expectedDeliveryDate: input.expectedDeliveryDate ?? null,
+        deliveryAddress: input.deliveryAddress,
+        paymentTerms: input.paymentTerms || supplier.paymentTerms || null,
+        deliveryTerms: input.deliveryTerms || null,
+        notes: input.notes || null,
+        currency: request.currency,
+        totalAmount: totals.totalAmount,
+        totalAmountQAR: totals.totalAmountQAR,
+        issuedById: user.id,
+        lines: {
+          create: request.items.map((item, index) => ({
+            purchaseRequestItemId: item.id,
+            lineNumber: index + 1,
+            description: item.description,
+            quantity: item.quantity,
+            unitPrice: item.unitPrice,
+            currency: item.currency,
+            totalPrice: item.totalPrice,
+          })),
+        },
+      },
+      include: PURCHASE_ORDER_INCLUDE,
+    });
+  });
+
+  const itemCount = order.lines.length;
+  await prisma.purchaseRequestHistory.create({
+    data: {
+      purchaseRequestId,
+      action: 'PO_ISSUED',
+      performedById: user.id,
+      details: `Purchase order ${order.poNumber} issued to ${order.supplier.name} ` +
+        `(${itemCount} item${itemCount === 1 ? '' : 's'})`,
+    },
+  });
+
+  const { requester } = order.purchaseRequest;
+  if (requester.id !== user.id) {
+    await createNotification(
+      NotificationTemplates.purchaseOrderIssued(
+        requester.id,
+        order.purchaseRequest.referenceNumber,
+        order.poNumber,
+        order.supplier.name,
+        purchaseRequestId
+      )
+    );
+  }
+
+  return transformPurchaseOrder(order);
+}
+
+async function getPurchaseOrder(orderId: string) {
+  const order = await prisma.purchaseOrder.findUnique({
+    where: { id: orderId },
+    include: PURCHASE_ORDER_INCLUDE,
+  });
+
+  if (!order) {
+    throw new NotFoundError('Purchase order');
+  }
+
+  return order;
+}
+
+/**
+ * Close an order once its deliveries are done. A partly received order is
+ * closed short and nothing more is expected from the supplier.
+ */
+export async function closePurchaseOrder(orderId: string, userId: string) {
+  const order = await getPurchaseOrder(orderId);
+
+  if (!canClosePurchaseOrder(order.status)) {
+    throw new ConflictError(
+      order.status === PurchaseOrderStatus.ISSUED
+        ? 'Nothing has been received on this order yet. Cancel it instead.'
+        : 'This purchase order is already closed or cancelled'
+    );
+  }
+
+  const closed = await prisma.purchaseOrder.update({
+    where: { id: orderId },
+    data: {
+      status: PurchaseOrderStatus.CLOSED,
+      closedAt: new Date(),
+      closedById: userId,
+    },
+    include: PURCHASE_ORDER_INCLUDE,
+  });
+
+  return transformPurchaseOrder(closed);
+}
+
+/**
+ * Cancel an order before anything arrives. Its items can be ordered again,
+ * e.g. from another supplier.
+ */
+export async function cancelPurchaseOrder(orderId: string, userId: string, reason: string) {
+  const order = await getPurchaseOrder(orderId);
+
+  if (!canCancelPurchaseOrder(order.status)) {
+    throw new ConflictError('Only orders with nothing received yet can be cancelled');
+  }
+
+  const cancelled = await prisma.$transaction(async (tx) => {
+    await tx.purchaseRequestHistory.create({
+      data: {
+        purchaseRequestId: order.purchaseRequestId,
+        action: 'PO_CANCELLED',
+        performedById: userId,
+        details: `Purchase order ${order.poNumber} cancelled. ${reason}`,
+      },
+    });
+
+    return tx.purchaseOrder.update({
+      where: { id: orderId },
+      data: {
+        status: PurchaseOrderStatus.CANCELLED,
+        closedAt: new Date(),
+        closedById: userId,
+        cancellationReason: reason,
+      },
+      include: PURCHASE_ORDER_INCLUDE,
+    });
+  });
+
+  return transformPurchaseOrder(cancelled);
+}
+
+/**
+ * PDF contents for a purchase order
+ */
+export function toPurchaseOrderPdfData(order: PurchaseOrderWithDetails): PurchaseOrderPdfData {
+  const { supplier } = order;
+
+  return {
+    poNumber: order.poNumber,
+    orderDate: order.orderDate,
+    expectedDeliveryDate: order.expectedDeliveryDate,
+    purchaseRequestReference: order.purchaseRequest.referenceNumber,
+    supplier: {
+      name: supplier.name,
+      code: supplier.suppCode,
+      address: [supplier.address, supplier.city, supplier.country].filter(Boolean).join(', ') || null,
+      contactName: supplier.primaryContactName,
+      contactEmail: supplier.primaryContactEmail,
+      contactPhone: supplier.primaryContactMobile,
+    },
+    deliveryAddress: order.deliveryAddress,
+    paymentTerms: order.paymentTerms,
+    deliveryTerms: order.deliveryTerms,
+    notes: order.notes,
+    currency: order.currency,
+    lines: order.lines.map(line => ({
+      lineNumber: line.lineNumber,
+      description: line.description,
+      quantity: line.quantity,
+      unitPrice: Number(line.unitPrice),
+      totalPrice: Number(line.totalPrice),
+    })),
+    totalAmount: Number(order.totalAmount),
+    issuedBy: order.issuedBy.name || order.issuedBy.email,
+  };
+}
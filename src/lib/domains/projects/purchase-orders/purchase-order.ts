@@ -0,0 +1,104 @@
+import { PurchaseOrderStatus } from '@prisma/client';
+
+/**
+ * Purchase Order Utilities
+ *
+ * Pure helpers for purchase orders raised from approved purchase requests (no
+ * database access): which request items can still be ordered, order totals,
+ * and the order status that follows from the quantities received.
+ */
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  ISSUED: 'Issued',
+  PARTIALLY_RECEIVED: 'Partially Received',
+  RECEIVED: 'Received',
+  CLOSED: 'Closed',
+  CANCELLED: 'Cancelled',
+};
+
+/**
+ * Orders still waiting on the supplier; their items cannot be ordered again
+ */
+export const OPEN_PURCHASE_ORDER_STATUSES: PurchaseOrderStatus[] = [
+  PurchaseOrderStatus.ISSUED,
+  PurchaseOrderStatus.PARTIALLY_RECEIVED,
+];
+
+type DecimalLike = number | string | { toString(): string };
+
+export interface OrderLineQuantities {
+  quantity: number;
+  quantityReceived: number;
+}
+
+export interface OrderedItemLine {
+  purchaseRequestItemId: string;
+  purchaseOrder: { poNumber: string; status: PurchaseOrderStatus };
+}
+
+export interface OrderableItem {
+  totalPrice: DecimalLike;
+  totalPriceQAR?: DecimalLike | null;
+}
+
+/**
+ * Map each request item to the order it is on. Items of cancelled orders are
+ * free to be ordered again.
+ */
+export function getOrderedItems(lines: OrderedItemLine[]): Map<string, string> {
+  const ordered = new Map<string, string>();
+  for (const line of lines) {
+    if (line.purchaseOrder.status !== PurchaseOrderStatus.CANCELLED) {
+      ordered.set(line.purchaseRequestItemId, line.purchaseOrder.poNumber);
+    }
+  }
+  return ordered;
+}
+
+/**
+ * Total of the items going on an order, in the request currency and in QAR
+ */
+export function calculatePurchaseOrderTotals(items: OrderableItem[]): { totalAmount: number; totalAmountQAR: number } {
+  return items.reduce(
+    (totals, item) => ({
+      totalAmount: totals.totalAmount + Number(item.totalPrice),
+      totalAmountQAR: totals.totalAmountQAR + Number(item.totalPriceQAR ?? item.totalPrice),
+    }),
+    { totalAmount: 0, totalAmountQAR: 0 }
+  );
+}
+
+/**
+ * Receiving status of an order from its lines: nothing in yet, some in, or all in
+ */
+export function getReceivingStatus(lines: OrderLineQuantities[]): PurchaseOrderStatus {
+  if (lines.length > 0 && lines.every(line => line.quantityReceived >= line.quantity)) {
+    return PurchaseOrderStatus.RECEIVED;
+  }
+  if (lines.some(line => line.quantityReceived > 0)) {
+    return PurchaseOrderStatus.PARTIALLY_RECEIVED;
+  }
+  return PurchaseOrderStatus.ISSUED;
+}
+
+/**
+ * Whether deliveries can still be recorded against an order
+ */
+export function canReceivePurchaseOrder(status: PurchaseOrderStatus): boolean {
+  return status !== PurchaseOrderStatus.CLOSED && status !== PurchaseOrderStatus.CANCELLED;
+}
+
+/**
+ * Whether an order can be closed: once anything has arrived. Closing a partly
+ * received order accepts the shortfall.
+ */
+export function canClosePurchaseOrder(status: PurchaseOrderStatus): boolean {
+  return status === PurchaseOrderStatus.PARTIALLY_RECEIVED || status === PurchaseOrderStatus.RECEIVED;
+}
+
+/**
+ * Whether an order can be cancelled: only before anything has arrived
+ */
+export function canCancelPurchaseOrder(status: PurchaseOrderStatus): boolean {
+  return status === PurchaseOrderStatus.ISSUED;
+}
@@ -0,0 +1,151 @@
+/**
+ * Purchase Approval Matrix Utilities
+ *
+ * Pure helpers for amount- and type-based purchase approvals (no database access):
+ * - Picking the matrix rule that decides a request's approval chain
+ * - Resolving the rule's steps to approvers for the requester
+ * - Spotting steps that have stalled and are due a reminder
+ *
+ * LINE_MANAGER and DEPARTMENT_HEAD steps are resolved when the chain is
+ * snapshotted onto a request, so request steps are always ADMIN or USER and the
+ * leave approval chain helpers (current step, delegation, permissions) apply.
+ */
+
+export const PURCHASE_APPROVER_TYPES = ['ADMIN', 'USER', 'LINE_MANAGER', 'DEPARTMENT_HEAD'] as const;
+export type PurchaseApproverType = (typeof PURCHASE_APPROVER_TYPES)[number];
+
+export const PURCHASE_APPROVER_TYPE_LABELS: Record<PurchaseApproverType, string> = {
+  ADMIN: 'Any admin',
+  USER: 'Specific person',
+  LINE_MANAGER: 'Requester\'s line manager',
+  DEPARTMENT_HEAD: 'Requester\'s department head',
+};
+
+/** Days a step may wait before its approvers are reminded, and between reminders */
+export const PURCHASE_APPROVAL_REMINDER_DAYS = 2;
+
+type DecimalLike = number | string | { toString(): string };
+
+export interface ApprovalRuleStepConfig {
+  stepOrder: number;
+  name: string;
+  approverType: string;
+  approverId: string | null;
+}
+
+export interface ApprovalRuleConfig {
+  ruleOrder: number;
+  name: string;
+  minAmountQAR?: DecimalLike | null;
+  purchaseTypes: string[];
+  steps: ApprovalRuleStepConfig[];
+}
+
+export interface RequesterApprovers {
+  requesterId: string;
+  managerId?: string | null;
+  departmentHeadId?: string | null;
+}
+
+export interface ReminderStep {
+  status: string;
+  activatedAt: Date | string | null;
+  lastRemindedAt?: Date | string | null;
+}
+
+/**
+ * Check if a rule applies to a request. A rule matches requests of at least its
+ * minimum amount OR of one of its purchase types; a rule with neither
+ * condition matches every request.
+ */
+export function matchesApprovalRule(
+  rule: Pick<ApprovalRuleConfig, 'minAmountQAR' | 'purchaseTypes'>,
+  amountQAR: number,
+  purchaseType: string
+): boolean {
+  const hasMinAmount = rule.minAmountQAR != null;
+  const hasTypes = rule.purchaseTypes.length > 0;
+  if (!hasMinAmount && !hasTypes) return true;
+
+  return (hasMinAmount && amountQAR >= Number(rule.minAmountQAR))
+    || (hasTypes && rule.purchaseTypes.includes(purchaseType));
+}
+
+/**
+ * Pick the first rule (by ruleOrder) that applies to a request, or null when no
+ * rule does and any admin approves in a single step
+ */
+export function selectApprovalRule<T extends ApprovalRuleConfig>(
+  rules: T[],
+  amountQAR: number,
+  purchaseType: string
+): T | null {
+  return [...rules]
+    .sort((a, b) => a.ruleOrder - b.ruleOrder)
+    .find(rule => matchesApprovalRule(rule, amountQAR, purchaseType)) ?? null;
+}
+
+/**
+ * Resolve a rule's steps for a requester, renumbered 1..n in chain order.
+ * LINE_MANAGER and DEPARTMENT_HEAD steps become USER steps for the requester's
+ * manager and department head. Steps without an approver on file, or assigned
+ * to the requester themselves, fall back to any admin. An admin step still
+ * cannot be approved by the requester: canActOnStep refuses them, as an admin
+ * or as a delegate.
+ */
+export function resolveApprovalSteps(
+  steps: ApprovalRuleStepConfig[],
+  approvers: RequesterApprovers
+): ApprovalRuleStepConfig[] {
+  return [...steps]
+    .sort((a, b) => a.stepOrder - b.stepOrder)
+    .map((step, index) => {
+      let approverId = step.approverId;
+      if (step.approverType === 'LINE_MANAGER') approverId = approvers.managerId ?? null;
+      if (step.approverType === 'DEPARTMENT_HEAD') approverId = approvers.departmentHeadId ?? null;
+
+      const isUserStep = step.approverType !== 'ADMIN';
+      const fallBackToAdmin = isUserStep && (!approverId || approverId === approvers.requesterId);
+      return {
+        stepOrder: index + 1,
+        name: step.name,
+        approverType: isUserStep && !fallBackToAdmin ? 'USER' : 'ADMIN',
+        approverId: isUserStep && !fallBackToAdmin ? approverId : null,
+      };
+    });
+}
+
+/**
+ * Check if a pending step has waited long enough for a reminder: counted from
+ * when it became current, then from the last reminder
+ */
+export function isStepStalled(
+  step: ReminderStep,
+  now: Date = new Date(),
+  reminderDays: number = PURCHASE_APPROVAL_REMINDER_DAYS
+): boolean {
+  if (step.status !== 'PENDING' || !step.activatedAt) return false;
+  const since = new Date(step.lastRemindedAt ?? step.activatedAt);
+  return now.getTime() - since.getTime() >= reminderDays * 24 * 60 * 60 * 1000;
+}
+
+/**
+ * Whole days a step has been waiting since it became current
+ */
+export function getDaysWaiting(activatedAt: Date | string, now: Date = new Date()): number {
+  return Math.max(0, Math.floor((now.getTime() - new Date(activatedAt).getTime()) / (24 * 60 * 60 * 1000)));
+}
+
+/**
+ * Who holds a step, e.g. "Jane Smith (CEO)" or "Any admin (Finance)"
+ */
+export function getStepHolderText(step: {
+  name: string;
+  approverType: string;
+  approver?: { name: string | null; email?: string } | null;
+}): string {
+  const holder = step.approverType === 'ADMIN' || !step.approver
+    ? 'Any admin'
+    : step.approver.name || step.approver.email || 'Assigned approver';
+  return `${holder} (${step.name})`;
+}
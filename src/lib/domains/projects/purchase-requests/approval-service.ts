@@ -0,0 +1,351 @@
+import { prisma, PrismaTransactionClient } from '@/lib/prisma';
+import { Prisma, PurchaseRequestStatus, PurchaseType, Role } from '@prisma/client';
+import { createBulkNotifications, NotificationTemplates } from '@/lib/domains/system/notifications';
+import { getActiveDelegations } from '@/lib/domains/hr/leave/approval-service';
+import {
+  canActOnStep,
+  resolveDelegate,
+  ApprovalActor,
+  DelegationWindow,
+  RequestApprovalStep,
+} from '@/lib/domains/hr/leave/approval-chain';
+import { getPurchaseRequestAmountQAR } from '@/lib/domains/projects/budgets/budget';
+import { getDaysWaiting, isStepStalled, resolveApprovalSteps, selectApprovalRule } from './approval-matrix';
+
+/**
+ * Purchase request approval chains. The approval matrix picks a chain for each
+ * request on submission; steps are then approved one at a time by their
+ * approver (or out-of-office delegate) and the final step approves the request.
+ */
+
+/** Statuses in which a request's chain is still being worked through */
+export const APPROVAL_CHAIN_OPEN_STATUSES: PurchaseRequestStatus[] = [
+  PurchaseRequestStatus.PENDING,
+  PurchaseRequestStatus.UNDER_REVIEW,
+];
+
+export interface ChainRequest {
+  id: string;
+  requesterId: string;
+  purchaseType: PurchaseType;
+  totalAmount: Prisma.Decimal | number;
+  totalAmountQAR: Prisma.Decimal | number | null;
+}
+
+interface StepRecipient {
+  id: string;
+  role: Role;
+  /** Assigned approver's name when the recipient stands in for them */
+  onBehalfOfName?: string;
+}
+
+/**
+ * The approval matrix, rules in the order they are checked
+ */
+export async function getPurchaseApprovalRules(db: PrismaTransactionClient = prisma) {
+  return db.purchaseApprovalRule.findMany({
+    include: {
+      steps: {
+        include: {
+          approver: { select: { id: true, name: true, email: true } },
+        },
+        orderBy: { stepOrder: 'asc' },
+      },
+    },
+    orderBy: { ruleOrder: 'asc' },
+  });
+}
+
+/**
+ * Snapshot the matching matrix rule's chain onto a request, resolving line
+ * manager and department head steps for the requester.
+ * Returns the created steps (empty when no rule matches, in which case any
+ * admin approves in a single step as before).
+ */
+export async function createPurchaseApprovalChain(
+  tx: PrismaTransactionClient,
+  request: ChainRequest
+): Promise<RequestApprovalStep[]> {
+  const rules = await getPurchaseApprovalRules(tx);
+  const rule = selectApprovalRule(
+    rules.map(r => ({ ...r, purchaseTypes: r.purchaseTypes as string[] })),
+    getPurchaseRequestAmountQAR(request),
+    request.purchaseType
+  );
+
+  if (!rule || rule.steps.length === 0) {
+    await tx.purchaseRequest.update({
+      where: { id: request.id },
+      data: { approvalRuleName: null, currentApprovalStep: null },
+    });
+    return [];
+  }
+
+  const needsOrgChart = rule.steps.some(step => step.approverType === 'LINE_MANAGER' || step.approverType === 'DEPARTMENT_HEAD');
+  const requesterProfile = needsOrgChart
+    ? await tx.hRProfile.findUnique({
+        where: { userId: request.requesterId },
+        select: { managerId: true, department: { select: { headId: true } } },
+      })
+    : null;
+
+  const steps = resolveApprovalSteps(rule.steps, {
+    requesterId: request.requesterId,
+    managerId: requesterProfile?.managerId,
+    departmentHeadId: requesterProfile?.department?.headId,
+  });
+
+  const now = new Date();
+  await tx.purchaseRequestApproval.createMany({
+    data: steps.map(step => ({
+      purchaseRequestId: request.id,
+      stepOrder: step.stepOrder,
+      name: step.name,
+      approverType: step.approverType,
+      approverId: step.approverId,
+      status: 'PENDING',
+      activatedAt: step.stepOrder === 1 ? now : null,
+    })),
+  });
+
+  await tx.purchaseRequest.update({
+    where: { id: request.id },
+    data: { approvalRuleName: rule.name, currentApprovalStep: 1 },
+  });
+
+  return steps.map(step => ({ ...step, status: 'PENDING' }));
+}
+
+/**
+ * Rebuild a request's chain (e.g., after its amount or type changed, or it was
+ * reopened after a rejection). Any progress on the old chain is reset.
+ */
+export async function resetPurchaseApprovalChain(
+  tx: PrismaTransactionClient,
+  request: ChainRequest
+): Promise<RequestApprovalStep[]> {
+  await tx.purchaseRequestApproval.deleteMany({ where: { purchaseRequestId: request.id } });
+  return createPurchaseApprovalChain(tx, request);
+}
+
+/**
+ * Close a request's open steps when it is decided outside the chain (an admin
+ * rejecting it directly)
+ */
+export async function skipOpenApprovalSteps(tx: PrismaTransactionClient, purchaseRequestId: string) {
+  await tx.purchaseRequestApproval.updateMany({
+    where: { purchaseRequestId, status: 'PENDING' },
+    data: { status: 'SKIPPED' },
+  });
+  await tx.purchaseRequest.update({
+    where: { id: purchaseRequestId },
+    data: { currentApprovalStep: null },
+  });
+}
+
+/**
+ * Who handles a step: all admins for ADMIN steps, the assigned approver's
+ * active delegate (or the approver) for USER steps. With `includeAssigned`,
+ * a delegated approver is included alongside their delegate, as both can act.
+ */
+async function getStepRecipients(
+  step: Pick<RequestApprovalStep, 'approverType' | 'approverId'>,
+  delegations: DelegationWindow[],
+  includeAssigned = false
+): Promise<StepRecipient[]> {
+  if (step.approverType === 'ADMIN' || !step.approverId) {
+    return prisma.user.findMany({
+      where: { role: Role.ADMIN },
+      select: { id: true, role: true },
+    });
+  }
+
+  const handlerId = resolveDelegate(step.approverId, delegations);
+  const users = await prisma.user.findMany({
+    where: { id: { in: [handlerId, step.approverId] } },
+    select: { id: true, role: true, name: true },
+  });
+  const handler = users.find(u => u.id === handlerId);
+  const approver = users.find(u => u.id === step.approverId);
+
+  const recipients: StepRecipient[] = [];
+  if (handler) {
+    recipients.push({
+      id: handler.id,
+      role: handler.role,
+      onBehalfOfName: handlerId !== step.approverId ? approver?.name || undefined : undefined,
+    });
+  }
+  if (includeAssigned && approver && handlerId !== step.approverId) {
+    recipients.push({ id: approver.id, role: approver.role });
+  }
+  return recipients;
+}
+
+function getApprovalLink(recipient: StepRecipient, purchaseRequestId: string): string {
+  return recipient.role === Role.ADMIN
+    ? `/admin/purchase-requests/${purchaseRequestId}`
+    : '/employee/purchase-requests/approvals';
+}
+
+/**
+ * Notify whoever currently handles a step that a request is waiting on them
+ */
+export async function notifyPurchaseStepApprovers(
+  step: RequestApprovalStep,
+  request: {
+    id: string;
+    referenceNumber: string;
+    title: string;
+    requesterName: string;
+  }
+): Promise<void> {
+  const recipients = await getStepRecipients(step, await getActiveDelegations());
+  if (recipients.length === 0) return;
+
+  await createBulkNotifications(
+    recipients.map(recipient =>
+      NotificationTemplates.purchaseApprovalRequired(
+        recipient.id,
+        request.requesterName,
+        request.referenceNumber,
+        request.title,
+        step.name,
+        getApprovalLink(recipient, request.id),
+        request.id,
+        recipient.onBehalfOfName
+      )
+    )
+  );
+}
+
+/**
+ * Remind the approvers of every stalled step. Each request's reminders go to
+ * everyone able to act on its current step at once - all admins, or the
+ * assigned approver together with their delegate - and are sent for all
+ * stalled requests in parallel. Returns the number of steps reminded.
+ */
+export async function sendStalledApprovalReminders(now: Date = new Date()): Promise<number> {
+  const [approvals, delegations] = await Promise.all([
+    prisma.purchaseRequestApproval.findMany({
+      where: {
+        status: 'PENDING',
+        activatedAt: { not: null },
+        purchaseRequest: { status: { in: APPROVAL_CHAIN_OPEN_STATUSES } },
+      },
+      include: {
+        purchaseRequest: {
+          select: { id: true, referenceNumber: true, title: true, currentApprovalStep: true },
+        },
+      },
+    }),
+    getActiveDelegations(now),
+  ]);
+
+  const stalled = approvals
+    .filter(approval => approval.purchaseRequest.currentApprovalStep === approval.stepOrder)
+    .filter(approval => isStepStalled(approval, now));
+
+  await Promise.all(
+    stalled.map(async (approval) => {
+      const request = approval.purchaseRequest;
+      const recipients = await getStepRecipients(approval, delegations, true);
+      const daysWaiting = getDaysWaiting(approval.activatedAt!, now);
+
+      await createBulkNotifications(
+        recipients.map(recipient =>
+          NotificationTemplates.purchaseApprovalReminder(
+            recipient.id,
+            request.referenceNumber,
+            request.title,
+            approval.name,
+            daysWaiting,
+            getApprovalLink(recipient, request.id),
+            request.id,
+            recipient.onBehalfOfName
+          )
+        )
+      );
+
+      await prisma.purchaseRequestApproval.update({
+        where: { id: approval.id },
+        data: { lastRemindedAt: now, reminderCount: { increment: 1 } },
+      });
+    })
+  );
+
+  return stalled.length;
+}
+
+/**
+ * Check whether a user takes part in a request's chain: assigned to a step,
+ * acted on one, or currently handling one as a delegate. Lets approvers open
+ * requests that are not their own.
+ */
+export async function isPurchaseRequestApprover(
+  steps: Array<RequestApprovalStep & { actedById: string | null }>,
+  actor: ApprovalActor
+): Promise<boolean> {
+  if (steps.some(step => step.approverId === actor.id || step.actedById === actor.id)) {
+    return true;
+  }
+
+  const delegations = await getActiveDelegations();
+  return steps.some(step =>
+    step.status === 'PENDING' && step.approverType === 'USER' && canActOnStep(step, actor, delegations).allowed
+  );
+}
+
+/**
+ * Get open purchase requests whose current step is handled by the user, either
+ * directly or through an active delegation.
+ */
+export async function getPendingPurchaseApprovalsForUser(actor: ApprovalActor) {
+  const delegations = await getActiveDelegations();
+
+  // Approvers the actor currently handles: themselves plus anyone delegating to them
+  const handledApproverIds = new Set<string>([actor.id]);
+  for (const delegation of delegations) {
+    if (resolveDelegate(delegation.delegatorId, delegations) === actor.id) {
+      handledApproverIds.add(delegation.delegatorId);
+    }
+  }
+
+  const approvals = await prisma.purchaseRequestApproval.findMany({
+    where: {
+      status: 'PENDING',
+      purchaseRequest: { status: { in: APPROVAL_CHAIN_OPEN_STATUSES } },
+      OR: [
+        { approverType: 'USER', approverId: { in: Array.from(handledApproverIds) } },
+        ...(actor.role === Role.ADMIN ? [{ approverType: 'ADMIN' }] : []),
+      ],
+    },
+    include: {
+      approver: { select: { id: true, name: true } },
+      purchaseRequest: {
+        include: {
+          requester: { select: { id: true, name: true, email: true } },
+          approvals: { orderBy: { stepOrder: 'asc' } },
+        },
+      },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  // Only the current step of each request is actionable
+  return approvals
+    .filter(approval => approval.purchaseRequest.currentApprovalStep === approval.stepOrder)
+    .filter(approval =>
+      canActOnStep(approval, actor, delegations, undefined, approval.purchaseRequest.requesterId).allowed
+    )
+    .map(approval => ({
+      ...approval.purchaseRequest,
+      currentStep: {
+        stepOrder: approval.stepOrder,
+        name: approval.name,
+        activatedAt: approval.activatedAt,
+        approver: approval.approver,
+        onBehalfOf: approval.approverId && approval.approverId !== actor.id ? approval.approver : null,
+      },
+    }));
+}
@@ -1,31 +1,20 @@
-import { PrismaClient } from '@prisma/client';
+import { PrismaTransactionClient } from '@/lib/prisma';
+import { generateDocumentNumber } from '@/lib/domains/system/document-numbering/document-number-service';
 
 /**
- * Generate a unique Purchase Request reference number.
- * Format: BCE-PR-YYMM-XXX
+ * Generate a unique Purchase Request reference number from the
+ * PURCHASE_REQUEST DocumentNumberConfig.
+ * Format: BCE-PR-YYMMXXX
  * - BCE: Company prefix
  * - PR: Purchase Request
  * - YY: Year (2 digits)
  * - MM: Month (2 digits)
  * - XXX: Sequential number per month (padded to 3 digits)
  *
- * Example: BCE-PR-2412-001 (first request in December 2024)
+ * Example: BCE-PR-2412001 (first request in December 2024)
  */
-export async function generatePurchaseRequestNumber(prisma: PrismaClient): Promise<string> {
-  const now = new Date();
-  const year = now.getFullYear().toString().slice(-2);
-  const month = (now.getMonth() + 1).toString().padStart(2, '0');
-  const prefix = `BCE-PR-${year}${month}`;
-
-  // Get count of requests this month
-  const count = await prisma.purchaseRequest.count({
-    where: {
-      referenceNumber: { startsWith: prefix }
-    }
-  });
-
-  const sequence = (count + 1).toString().padStart(3, '0');
-  return `${prefix}-${sequence}`;
+export async function generatePurchaseRequestNumber(tx?: PrismaTransactionClient): Promise<string> {
+  return generateDocumentNumber('PURCHASE_REQUEST', { tx });
 }
 
 /**
@@ -183,9 +172,14 @@ export function canDeleteRequest(status: string): boolean {
 }
 
 /**
- * Get allowed status transitions for admin
+ * Get allowed status transitions for admin.
+ * Requests with a pending approval chain are only approved by the chain's
+ * final step, so APPROVED is not offered as a direct transition.
  */
-export function getAllowedStatusTransitions(currentStatus: string): string[] {
+export function getAllowedStatusTransitions(
+  currentStatus: string,
+  options: { hasPendingApprovalChain?: boolean } = {}
+): string[] {
   const transitions: Record<string, string[]> = {
     PENDING: ['UNDER_REVIEW', 'APPROVED', 'REJECTED'],
     UNDER_REVIEW: ['APPROVED', 'REJECTED', 'PENDING'],
@@ -193,5 +187,6 @@ export function getAllowedStatusTransitions(currentStatus: string): string[] {
     REJECTED: ['PENDING', 'UNDER_REVIEW'],
     COMPLETED: [],
   };
-  return transitions[currentStatus] || [];
+  const allowed = transitions[currentStatus] || [];
+  return options.hasPendingApprovalChain ? allowed.filter(status => status !== 'APPROVED') : allowed;
 }
@@ -0,0 +1,411 @@
+import { Prisma, PurchaseOrderStatus, SupplierInvoiceStatus } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { USD_TO_QAR_RATE } from '@/lib/constants';
+import { formatCurrency } from '@/lib/payroll/utils';
+import { ConflictError, NotFoundError, ValidationError } from '@/lib/http/errors';
+import { RECEIVABLE_PURCHASE_REQUEST_STATUSES } from '@/lib/domains/projects/goods-receipts/goods-receipt';
+import {
+  buildPayablesAging,
+  canApproveSupplierInvoice,
+  canCancelSupplierInvoice,
+  canPaySupplierInvoice,
+  DEFAULT_MATCH_TOLERANCE_PERCENT,
+  describeInvoiceVariances,
+  InvoiceMatch,
+  matchInvoice,
+  UNPAID_SUPPLIER_INVOICE_STATUSES,
+} from './supplier-invoice';
+import type { CreateSupplierInvoiceInput } from '@/lib/validations/projects/supplier-invoice';
+
+/** SystemSettings key of the three-way match tolerance */
+export const INVOICE_MATCH_TOLERANCE_KEY = 'INVOICE_MATCH_TOLERANCE_PERCENT';
+
+/**
+ * Everything shown for a supplier invoice
+ */
+export const SUPPLIER_INVOICE_INCLUDE = {
+  supplier: { select: { id: true, suppCode: true, name: true } },
+  purchaseRequest: { select: { id: true, referenceNumber: true, title: true } },
+  purchaseOrder: { select: { id: true, poNumber: true } },
+  goodsReceipts: {
+    select: { id: true, receiptNumber: true, receivedDate: true },
+    orderBy: { receiptNumber: 'asc' },
+  },
+  lines: {
+    orderBy: { lineNumber: 'asc' },
+    include: { purchaseRequestItem: { select: { id: true, itemNumber: true, description: true } } },
+  },
+  createdBy: { select: { id: true, name: true, email: true } },
+  approvedBy: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.SupplierInvoiceInclude;
+
+type SupplierInvoiceWithDetails = Prisma.SupplierInvoiceGetPayload<{ include: typeof SUPPLIER_INVOICE_INCLUDE }>;
+
+/**
+ * Supplier invoice with amounts as numbers for the client
+ */
+export function transformSupplierInvoice(invoice: SupplierInvoiceWithDetails) {
+  return {
+    ...invoice,
+    totalAmount: Number(invoice.totalAmount),
+    totalAmountQAR: Number(invoice.totalAmountQAR),
+    lines: invoice.lines.map(line => ({
+      ...line,
+      unitPrice: Number(line.unitPrice),
+      totalPrice: Number(line.totalPrice),
+    })),
+  };
+}
+
+/**
+ * An invoice that does not match its order and receipts, approved without the
+ * approver acknowledging the variances
+ */
+export class SupplierInvoiceVarianceError extends ConflictError {
+  constructor(public readonly match: InvoiceMatch) {
+    super(describeInvoiceVariances(match));
+    this.name = 'SupplierInvoiceVarianceError';
+  }
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function toQAR(amount: number, currency: string): number {
+  return currency === 'USD' ? amount * USD_TO_QAR_RATE : amount;
+}
+
+/**
+ * Variance allowed by the three-way match, as set by an admin
+ */
+export async function getInvoiceMatchTolerance(): Promise<number> {
+  const setting = await prisma.systemSettings.findUnique({
+    where: { key: INVOICE_MATCH_TOLERANCE_KEY },
+  });
+  const tolerance = setting ? parseFloat(setting.value) : NaN;
+  return isNaN(tolerance) ? DEFAULT_MATCH_TOLERANCE_PERCENT : tolerance;
+}
+
+/**
+ * Three-way match of an invoice against what was ordered and received. Prices
+ * are compared in QAR. An item's ordered quantity and price come from its
+ * purchase order line (the invoice's own order first), else from the request.
+ */
+export async function getSupplierInvoiceMatch(invoice: SupplierInvoiceWithDetails): Promise<InvoiceMatch> {
+  const itemIds = invoice.lines.flatMap(line => (line.purchaseRequestItemId ? [line.purchaseRequestItemId] : []));
+
+  const [items, tolerancePercent] = await Promise.all([
+    prisma.purchaseRequestItem.findMany({
+      where: { id: { in: itemIds } },
+      select: {
+        id: true,
+        quantity: true,
+        quantityReceived: true,
+        unitPrice: true,
+        unitPriceQAR: true,
+        purchaseOrderLines: {
+          where: { purchaseOrder: { status: { not: PurchaseOrderStatus.CANCELLED } } },
+          select: {
+            purchaseOrderId: true,
+            quantity: true,
+            quantityReceived: true,
+            unitPrice: true,
+            currency: true,
+          },
+        },
+        supplierInvoiceLines: {
+          where: {
+            supplierInvoiceId: { not: invoice.id },
+            supplierInvoice: { status: { not: SupplierInvoiceStatus.CANCELLED } },
+          },
+          select: { quantity: true },
+        },
+      },
+    }),
+    getInvoiceMatchTolerance(),
+  ]);
+
+  return matchInvoice(
+    invoice.lines.map(line => {
+      const item = items.find(i => i.id === line.purchaseRequestItemId);
+      const orderLine = item?.purchaseOrderLines.find(l => l.purchaseOrderId === invoice.purchaseOrderId)
+        ?? item?.purchaseOrderLines[0];
+
+      return {
+        lineNumber: line.lineNumber,
+        quantity: line.quantity,
+        unitPrice: round2(toQAR(Number(line.unitPrice), invoice.currency)),
+        ordered: !item
+          ? null
+          : orderLine
+            ? { quantity: orderLine.quantity, unitPrice: round2(toQAR(Number(orderLine.unitPrice), orderLine.currency)) }
+            : { quantity: item.quantity, unitPrice: Number(item.unitPriceQAR ?? item.unitPrice) },
+        receivedQuantity: Math.max(item?.quantityReceived ?? 0, orderLine?.quantityReceived ?? 0),
+        otherInvoicedQuantity: item?.supplierInvoiceLines.reduce((sum, l) => sum + l.quantity, 0) ?? 0,
+      };
+    }),
+    tolerancePercent
+  );
+}
+
+async function findSupplierInvoice(invoiceId: string) {
+  const invoice = await prisma.supplierInvoice.findUnique({
+    where: { id: invoiceId },
+    include: SUPPLIER_INVOICE_INCLUDE,
+  });
+
+  if (!invoice) {
+    throw new NotFoundError('Supplier invoice');
+  }
+
+  return invoice;
+}
+
+/**
+ * A supplier invoice with its three-way match
+ */
+export async function getSupplierInvoice(invoiceId: string) {
+  const invoice = await findSupplierInvoice(invoiceId);
+  return { ...transformSupplierInvoice(invoice), match: await getSupplierInvoiceMatch(invoice) };
+}
+
+/**
+ * Supplier invoices, newest first
+ */
+export async function getSupplierInvoices(where: Prisma.SupplierInvoiceWhereInput = {}) {
+  const invoices = await prisma.supplierInvoice.findMany({
+    where,
+    include: SUPPLIER_INVOICE_INCLUDE,
+    orderBy: { invoiceDate: 'desc' },
+  });
+
+  return invoices.map(transformSupplierInvoice);
+}
+
+/**
+ * Capture an invoice a supplier sent for an approved request, linked to the
+ * purchase order and goods receipts it bills. Assets created on those
+ * receipts for the invoiced items take the supplier's invoice number.
+ */
+export async function createSupplierInvoice(
+  purchaseRequestId: string,
+  input: CreateSupplierInvoiceInput,
+  user: { id: string }
+) {
+  const itemIds = input.lines.flatMap(line => (line.itemId ? [line.itemId] : []));
+  const receiptIds = Array.from(new Set(input.goodsReceiptIds));
+
+  const invoice = await prisma.$transaction(async (tx) => {
+    const request = await tx.purchaseRequest.findUnique({
+      where: { id: purchaseRequestId },
+      select: {
+        id: true,
+        status: true,
+        items: { where: { id: { in: itemIds } }, select: { id: true } },
+        goodsReceipts: { where: { id: { in: receiptIds } }, select: { id: true } },
+      },
+    });
+
+    if (!request) {
+      throw new NotFoundError('Purchase request');
+    }
+    if (!RECEIVABLE_PURCHASE_REQUEST_STATUSES.includes(request.status)) {
+      throw new ValidationError('Invoices can only be captured for approved requests');
+    }
+    if (request.items.length !== itemIds.length) {
+      throw new ValidationError('One or more items do not belong to this request');
+    }
+    if (request.goodsReceipts.length !== receiptIds.length) {
+      throw new ValidationError('One or more goods receipts do not belong to this request');
+    }
+
+    const supplier = await tx.supplier.findUnique({
+      where: { id: input.supplierId },
+      select: { name: true },
+    });
+    if (!supplier) {
+      throw new NotFoundError('Supplier');
+    }
+
+    if (input.purchaseOrderId) {
+      const order = await tx.purchaseOrder.findFirst({
+        where: { id: input.purchaseOrderId, purchaseRequestId },
+        select: { poNumber: true, status: true, supplierId: true },
+      });
+      if (!order) {
+        throw new ValidationError('Purchase order does not belong to this request');
+      }
+      if (order.status === PurchaseOrderStatus.CANCELLED) {
+        throw new ValidationError(`Purchase order ${order.poNumber} has been cancelled`);
+      }
+      if (order.supplierId !== input.supplierId) {
+        throw new ValidationError(`Purchase order ${order.poNumber} was issued to another supplier`);
+      }
+    }
+
+    const existing = await tx.supplierInvoice.findUnique({
+      where: { supplierId_invoiceNumber: { supplierId: input.supplierId, invoiceNumber: input.invoiceNumber } },
+      select: { id: true },
+    });
+    if (existing) {
+      throw new ConflictError(`Invoice ${input.invoiceNumber} from ${supplier.name} has already been captured`);
+    }
+
+    const lines = input.lines.map((line, index) => ({
+      lineNumber: index + 1,
+      purchaseRequestItemId: line.itemId || null,
+      description: line.description,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      totalPrice: round2(line.quantity * line.unitPrice),
+    }));
+    const totalAmount = round2(lines.reduce((sum, line) => sum + line.totalPrice, 0));
+
+    const created = await tx.supplierInvoice.create({
+      data: {
+        invoiceNumber: input.invoiceNumber,
+        supplierId: input.supplierId,
+        purchaseRequestId,
+        purchaseOrderId: input.purchaseOrderId || null,
+        goodsReceipts: { connect: receiptIds.map(id => ({ id })) },
+        invoiceDate: input.invoiceDate,
+        dueDate: input.dueDate,
+        currency: input.currency,
+        totalAmount,
+        totalAmountQAR: round2(toQAR(totalAmount, input.currency)),
+        attachmentUrl: input.attachmentUrl || null,
+        notes: input.notes || null,
+        createdById: user.id,
+        lines: { create: lines },
+      },
+      include: SUPPLIER_INVOICE_INCLUDE,
+    });
+
+    if (receiptIds.length > 0 && itemIds.length > 0) {
+      await tx.asset.updateMany({
+        where: {
+          goodsReceiptLine: {
+            goodsReceiptId: { in: receiptIds },
+            purchaseRequestItemId: { in: itemIds },
+          },
+        },
+        data: { invoiceNumber: input.invoiceNumber },
+      });
+    }
+
+    await tx.purchaseRequestHistory.create({
+      data: {
+        purchaseRequestId,
+        action: 'INVOICE_RECEIVED',
+        performedById: user.id,
+        details: `Invoice ${created.invoiceNumber} from ${created.supplier.name} captured ` +
+          `(${formatCurrency(totalAmount, created.currency)} excl. VAT)`,
+      },
+    });
+
+    return created;
+  });
+
+  return { ...transformSupplierInvoice(invoice), match: await getSupplierInvoiceMatch(invoice) };
+}
+
+/**
+ * Approve an invoice for payment. An invoice that does not match its order
+ * and receipts within the tolerance needs the approver's acknowledgement.
+ */
+export async function approveSupplierInvoice(invoiceId: string, userId: string, acknowledgeVariance?: boolean) {
+  const invoice = await findSupplierInvoice(invoiceId);
+
+  if (!canApproveSupplierInvoice(invoice.status)) {
+    throw new ConflictError('Only pending invoices can be approved');
+  }
+
+  const match = await getSupplierInvoiceMatch(invoice);
+  if (match.hasVariance && !acknowledgeVariance) {
+    throw new SupplierInvoiceVarianceError(match);
+  }
+
+  const approved = await prisma.supplierInvoice.update({
+    where: { id: invoiceId },
+    data: {
+      status: SupplierInvoiceStatus.APPROVED,
+      approvedById: userId,
+      approvedAt: new Date(),
+      varianceAcknowledged: match.hasVariance,
+    },
+    include: SUPPLIER_INVOICE_INCLUDE,
+  });
+
+  return { ...transformSupplierInvoice(approved), match };
+}
+
+/**
+ * Record payment of an approved invoice
+ */
+export async function paySupplierInvoice(invoiceId: string, paidAt: Date, paymentReference?: string | null) {
+  const invoice = await findSupplierInvoice(invoiceId);
+
+  if (!canPaySupplierInvoice(invoice.status)) {
+    throw new ConflictError('Only approved invoices can be marked as paid');
+  }
+
+  const paid = await prisma.supplierInvoice.update({
+    where: { id: invoiceId },
+    data: {
+      status: SupplierInvoiceStatus.PAID,
+      paidAt,
+      paymentReference: paymentReference || null,
+    },
+    include: SUPPLIER_INVOICE_INCLUDE,
+  });
+
+  return { ...transformSupplierInvoice(paid), match: await getSupplierInvoiceMatch(paid) };
+}
+
+/**
+ * Cancel an unpaid invoice, e.g. one captured in error or replaced by a
+ * credit note. Its quantities no longer count in the match of other invoices.
+ */
+export async function cancelSupplierInvoice(invoiceId: string, reason: string) {
+  const invoice = await findSupplierInvoice(invoiceId);
+
+  if (!canCancelSupplierInvoice(invoice.status)) {
+    throw new ConflictError('Only unpaid invoices can be cancelled');
+  }
+
+  const cancelled = await prisma.supplierInvoice.update({
+    where: { id: invoiceId },
+    data: {
+      status: SupplierInvoiceStatus.CANCELLED,
+      cancellationReason: reason,
+    },
+    include: SUPPLIER_INVOICE_INCLUDE,
+  });
+
+  return { ...transformSupplierInvoice(cancelled), match: await getSupplierInvoiceMatch(cancelled) };
+}
+
+/**
+ * Accounts-payable aging: unpaid invoices by supplier and how overdue they are
+ */
+export async function getPayablesAging(asOf: Date = new Date()) {
+  const invoices = await prisma.supplierInvoice.findMany({
+    where: { status: { in: UNPAID_SUPPLIER_INVOICE_STATUSES } },
+    select: {
+      dueDate: true,
+      totalAmountQAR: true,
+      supplier: { select: { id: true, name: true } },
+    },
+  });
+
+  return buildPayablesAging(
+    invoices.map(invoice => ({
+      supplierId: invoice.supplier.id,
+      supplierName: invoice.supplier.name,
+      dueDate: invoice.dueDate,
+      amountQAR: Number(invoice.totalAmountQAR),
+    })),
+    asOf
+  );
+}
@@ -0,0 +1,255 @@
+import { SupplierInvoiceStatus } from '@prisma/client';
+
+/**
+ * Supplier Invoice Utilities
+ *
+ * Pure helpers for supplier invoices (no database access): the three-way match
+ * of what was ordered, received and invoiced, and accounts-payable aging.
+ * All amounts exclude VAT.
+ */
+
+export const SUPPLIER_INVOICE_STATUS_LABELS: Record<SupplierInvoiceStatus, string> = {
+  PENDING: 'Pending Approval',
+  APPROVED: 'Approved',
+  PAID: 'Paid',
+  CANCELLED: 'Cancelled',
+};
+
+/**
+ * Invoices still owed to the supplier
+ */
+export const UNPAID_SUPPLIER_INVOICE_STATUSES: SupplierInvoiceStatus[] = [
+  SupplierInvoiceStatus.PENDING,
+  SupplierInvoiceStatus.APPROVED,
+];
+
+/** Variance allowed before a match is flagged, until an admin sets one */
+export const DEFAULT_MATCH_TOLERANCE_PERCENT = 5;
+
+// ─── Three-way match ───────────────────────────────────────────────────────────
+
+export type InvoiceMatchIssue = 'NOT_ORDERED' | 'OVER_ORDERED' | 'OVER_RECEIVED' | 'PRICE_VARIANCE';
+
+export const INVOICE_MATCH_ISSUE_LABELS: Record<InvoiceMatchIssue, string> = {
+  NOT_ORDERED: 'Not on the request',
+  OVER_ORDERED: 'More invoiced than ordered',
+  OVER_RECEIVED: 'More invoiced than received',
+  PRICE_VARIANCE: 'Price differs from order',
+};
+
+export interface InvoiceLineMatchInput {
+  lineNumber: number;
+  quantity: number;
+  unitPrice: number;
+  /** What was ordered (purchase order line, else request item); null for charges not on the request */
+  ordered: { quantity: number; unitPrice: number } | null;
+  receivedQuantity: number;
+  /** Invoiced for the same item on other invoices that are not cancelled */
+  otherInvoicedQuantity: number;
+}
+
+export interface InvoiceLineMatch {
+  lineNumber: number;
+  /** Invoiced for the item so far, this invoice included */
+  invoicedQuantity: number;
+  orderedQuantity: number | null;
+  receivedQuantity: number;
+  orderedUnitPrice: number | null;
+  invoicedUnitPrice: number;
+  /** Invoiced minus received; positive when billed for goods not yet received */
+  quantityVariance: number;
+  /** Invoiced unit price against the ordered one, as a percentage */
+  priceVariancePercent: number | null;
+  issues: InvoiceMatchIssue[];
+}
+
+export interface InvoiceMatch {
+  tolerancePercent: number;
+  lines: InvoiceLineMatch[];
+  hasVariance: boolean;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** Whether an amount goes past its reference by more than the tolerance */
+function exceedsTolerance(amount: number, reference: number, tolerancePercent: number): boolean {
+  return amount - reference > (reference * tolerancePercent) / 100;
+}
+
+/**
+ * Match one invoice line against what was ordered and received. Quantities
+ * are compared cumulatively, so an item billed over several invoices is only
+ * flagged once the invoices together go past the order or the receipts.
+ */
+export function matchInvoiceLine(line: InvoiceLineMatchInput, tolerancePercent: number): InvoiceLineMatch {
+  const invoicedQuantity = line.otherInvoicedQuantity + line.quantity;
+  const issues: InvoiceMatchIssue[] = [];
+  let priceVariancePercent: number | null = null;
+
+  if (!line.ordered) {
+    issues.push('NOT_ORDERED');
+  } else {
+    if (exceedsTolerance(invoicedQuantity, line.ordered.quantity, tolerancePercent)) {
+      issues.push('OVER_ORDERED');
+    }
+    if (line.ordered.unitPrice > 0) {
+      priceVariancePercent = round2(((line.unitPrice - line.ordered.unitPrice) / line.ordered.unitPrice) * 100);
+      if (Math.abs(priceVariancePercent) > tolerancePercent) {
+        issues.push('PRICE_VARIANCE');
+      }
+    } else if (line.unitPrice > 0) {
+      issues.push('PRICE_VARIANCE');
+    }
+  }
+
+  if (line.ordered && exceedsTolerance(invoicedQuantity, line.receivedQuantity, tolerancePercent)) {
+    issues.push('OVER_RECEIVED');
+  }
+
+  return {
+    lineNumber: line.lineNumber,
+    invoicedQuantity,
+    orderedQuantity: line.ordered?.quantity ?? null,
+    receivedQuantity: line.receivedQuantity,
+    orderedUnitPrice: line.ordered?.unitPrice ?? null,
+    invoicedUnitPrice: line.unitPrice,
+    quantityVariance: invoicedQuantity - line.receivedQuantity,
+    priceVariancePercent,
+    issues,
+  };
+}
+
+/**
+ * Three-way match of an invoice: flags lines whose quantity or price varies
+ * from the order and receipts by more than the tolerance
+ */
+export function matchInvoice(lines: InvoiceLineMatchInput[], tolerancePercent: number): InvoiceMatch {
+  const matched = lines.map(line => matchInvoiceLine(line, tolerancePercent));
+  return {
+    tolerancePercent,
+    lines: matched,
+    hasVariance: matched.some(line => line.issues.length > 0),
+  };
+}
+
+/**
+ * One-line summary of an invoice's variances, for errors and history
+ */
+export function describeInvoiceVariances(match: InvoiceMatch): string {
+  const flagged = match.lines.filter(line => line.issues.length > 0);
+  const details = flagged.map(line =>
+    `line ${line.lineNumber}: ${line.issues.map(issue => INVOICE_MATCH_ISSUE_LABELS[issue].toLowerCase()).join(', ')}`
+  );
+  return `Invoice does not match the order and receipts within ${match.tolerancePercent}% (${details.join('; ')})`;
+}
+
+// ─── Status actions ────────────────────────────────────────────────────────────
+
+export function canApproveSupplierInvoice(status: SupplierInvoiceStatus): boolean {
+  return status === SupplierInvoiceStatus.PENDING;
+}
+
+export function canPaySupplierInvoice(status: SupplierInvoiceStatus): boolean {
+  return status === SupplierInvoiceStatus.APPROVED;
+}
+
+export function canCancelSupplierInvoice(status: SupplierInvoiceStatus): boolean {
+  return UNPAID_SUPPLIER_INVOICE_STATUSES.includes(status);
+}
+
+// ─── Accounts-payable aging ────────────────────────────────────────────────────
+
+export type AgingBucket = 'CURRENT' | 'DAYS_1_30' | 'DAYS_31_60' | 'DAYS_61_90' | 'DAYS_OVER_90';
+
+export const AGING_BUCKETS: { key: AgingBucket; label: string }[] = [
+  { key: 'CURRENT', label: 'Not Yet Due' },
+  { key: 'DAYS_1_30', label: '1-30 Days' },
+  { key: 'DAYS_31_60', label: '31-60 Days' },
+  { key: 'DAYS_61_90', label: '61-90 Days' },
+  { key: 'DAYS_OVER_90', label: '90+ Days' },
+];
+
+export interface PayableInvoice {
+  supplierId: string;
+  supplierName: string;
+  dueDate: Date;
+  amountQAR: number;
+}
+
+export interface SupplierAging {
+  supplierId: string;
+  supplierName: string;
+  buckets: Record<AgingBucket, number>;
+  total: number;
+  invoiceCount: number;
+  /** Days the oldest unpaid invoice is past due (0 when nothing is overdue) */
+  maxDaysOverdue: number;
+}
+
+export interface PayablesAging {
+  suppliers: SupplierAging[];
+  totals: Record<AgingBucket, number>;
+  total: number;
+}
+
+function emptyBuckets(): Record<AgingBucket, number> {
+  return { CURRENT: 0, DAYS_1_30: 0, DAYS_31_60: 0, DAYS_61_90: 0, DAYS_OVER_90: 0 };
+}
+
+/**
+ * Whole days an invoice is past its due date on a given day (negative before it is due)
+ */
+export function getDaysOverdue(dueDate: Date, asOf: Date): number {
+  const due = Date.UTC(dueDate.getFullYear(), dueDate.getMonth(), dueDate.getDate());
+  const today = Date.UTC(asOf.getFullYear(), asOf.getMonth(), asOf.getDate());
+  return Math.round((today - due) / (24 * 60 * 60 * 1000));
+}
+
+export function getAgingBucket(dueDate: Date, asOf: Date): AgingBucket {
+  const days = getDaysOverdue(dueDate, asOf);
+  if (days <= 0) return 'CURRENT';
+  if (days <= 30) return 'DAYS_1_30';
+  if (days <= 60) return 'DAYS_31_60';
+  if (days <= 90) return 'DAYS_61_90';
+  return 'DAYS_OVER_90';
+}
+
+/**
+ * Unpaid invoices totalled per supplier and by how overdue they are, largest
+ * balance first
+ */
+export function buildPayablesAging(invoices: PayableInvoice[], asOf: Date): PayablesAging {
+  const bySupplier = new Map<string, SupplierAging>();
+  const totals = emptyBuckets();
+
+  for (const invoice of invoices) {
+    let row = bySupplier.get(invoice.supplierId);
+    if (!row) {
+      row = {
+        supplierId: invoice.supplierId,
+        supplierName: invoice.supplierName,
+        buckets: emptyBuckets(),
+        total: 0,
+        invoiceCount: 0,
+        maxDaysOverdue: 0,
+      };
+      bySupplier.set(invoice.supplierId, row);
+    }
+
+    const bucket = getAgingBucket(invoice.dueDate, asOf);
+    row.buckets[bucket] = round2(row.buckets[bucket] + invoice.amountQAR);
+    row.total = round2(row.total + invoice.amountQAR);
+    row.invoiceCount += 1;
+    row.maxDaysOverdue = Math.max(row.maxDaysOverdue, getDaysOverdue(invoice.dueDate, asOf));
+    totals[bucket] = round2(totals[bucket] + invoice.amountQAR);
+  }
+
+  const suppliers = Array.from(bySupplier.values()).sort((a, b) => b.total - a.total);
+  return {
+    suppliers,
+    totals,
+    total: round2(suppliers.reduce((sum, row) => sum + row.total, 0)),
+  };
+}
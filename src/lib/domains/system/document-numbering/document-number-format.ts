@@ -0,0 +1,99 @@
+// Document Number Formatting - BCE-XX-YY[MM]SEQ numbers built from DocumentNumberConfig
+
+export const DEFAULT_COMPANY_PREFIX = 'BCE';
+
+export interface DocumentNumberFormat {
+  code: string;
+  includeMonth: boolean;
+  sequenceDigits: number;
+}
+
+/**
+ * Built-in formats for the entity types the app generates numbers for,
+ * used when no DocumentNumberConfig row exists (matches prisma/seed.ts)
+ */
+export const DEFAULT_DOCUMENT_NUMBER_FORMATS: Record<string, DocumentNumberFormat> = {
+  LEAVE_REQUEST: { code: 'LV', includeMonth: false, sequenceDigits: 3 },
+  PAYSLIP: { code: 'PS', includeMonth: true, sequenceDigits: 3 },
+  ASSET_REQUEST: { code: 'AR', includeMonth: false, sequenceDigits: 3 },
+  PURCHASE_REQUEST: { code: 'PR', includeMonth: true, sequenceDigits: 3 },
+  ASSET_AUDIT: { code: 'AU', includeMonth: false, sequenceDigits: 3 },
+  ASSET_DISPOSAL: { code: 'DS', includeMonth: false, sequenceDigits: 3 },
+  PURCHASE_ORDER: { code: 'PO', includeMonth: false, sequenceDigits: 3 },
+  GOODS_RECEIPT: { code: 'GR', includeMonth: false, sequenceDigits: 3 },
+  EMPLOYEE_LOAN: { code: 'LN', includeMonth: false, sequenceDigits: 3 },
+  FINAL_SETTLEMENT: { code: 'FS', includeMonth: false, sequenceDigits: 3 },
+  LEAVE_ENCASHMENT: { code: 'LE', includeMonth: false, sequenceDigits: 3 },
+};
+
+/** Entity type of an asset category config (e.g., 'CP' -> 'ASSET_CP') */
+export function getAssetCategoryEntityType(categoryCode: string): string {
+  return `ASSET_${categoryCode.toUpperCase()}`;
+}
+
+/**
+ * Fallback format for an entity type without a config. Asset categories
+ * default to their own code; unknown types have no default.
+ */
+export function getDefaultDocumentNumberFormat(entityType: string): DocumentNumberFormat | null {
+  if (DEFAULT_DOCUMENT_NUMBER_FORMATS[entityType]) {
+    return DEFAULT_DOCUMENT_NUMBER_FORMATS[entityType];
+  }
+
+  const assetMatch = entityType.match(/^ASSET_([A-Z]{2})$/);
+  if (assetMatch) {
+    return { code: assetMatch[1], includeMonth: false, sequenceDigits: 3 };
+  }
+
+  return null;
+}
+
+/**
+ * Build the part of a document number that comes before the sequence
+ * Format: {PREFIX}-{CODE}-{YY}[MM]
+ * Transferred assets use '00' in place of the year.
+ *
+ * @example getDocumentNumberPrefix('BCE', { code: 'PR', includeMonth: true, ... }, new Date(2024, 11, 5)) // 'BCE-PR-2412'
+ */
+export function getDocumentNumberPrefix(
+  companyPrefix: string,
+  format: DocumentNumberFormat,
+  date: Date = new Date(),
+  isTransferred: boolean = false
+): string {
+  if (isTransferred) {
+    return `${companyPrefix}-${format.code}-00`;
+  }
+
+  const year = date.getFullYear().toString().slice(-2);
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+
+  return `${companyPrefix}-${format.code}-${year}${format.includeMonth ? month : ''}`;
+}
+
+/**
+ * Append a zero-padded sequence to a prefix
+ * @example formatDocumentNumber('BCE-LV-25', 7, 3) // 'BCE-LV-25007'
+ */
+export function formatDocumentNumber(prefix: string, sequence: number, sequenceDigits: number): string {
+  return `${prefix}${sequence.toString().padStart(sequenceDigits, '0')}`;
+}
+
+/**
+ * Highest sequence among existing numbers that share a prefix.
+ * Numbers whose remainder is not purely numeric are ignored.
+ */
+export function getHighestSequence(prefix: string, numbers: (string | null)[]): number {
+  let highest = 0;
+
+  for (const number of numbers) {
+    if (!number || !number.startsWith(prefix)) continue;
+
+    const remainder = number.slice(prefix.length);
+    if (!/^\d+$/.test(remainder)) continue;
+
+    highest = Math.max(highest, parseInt(remainder, 10));
+  }
+
+  return highest;
+}
@@ -0,0 +1,200 @@
+import { prisma, PrismaTransactionClient } from '@/lib/prisma';
+import {
+  DEFAULT_COMPANY_PREFIX,
+  DocumentNumberFormat,
+  formatDocumentNumber,
+  getDefaultDocumentNumberFormat,
+  getDocumentNumberPrefix,
+  getHighestSequence,
+} from './document-number-format';
+
+/** Looks up numbers already issued under a prefix, to seed a new sequence */
+type ExistingNumberSource = (db: PrismaTransactionClient, prefix: string) => Promise<(string | null)[]>;
+
+// Asset and subscription tags share the ASSET_* category codes, so they share sequences
+const findAssetAndSubscriptionTags: ExistingNumberSource = async (db, prefix) => {
+  const [assets, subscriptions] = await Promise.all([
+    db.asset.findMany({ where: { assetTag: { startsWith: prefix } }, select: { assetTag: true } }),
+    db.subscription.findMany({
+      where: { subscriptionTag: { startsWith: prefix } },
+      select: { subscriptionTag: true },
+    }),
+  ]);
+  return [...assets.map(a => a.assetTag), ...subscriptions.map(s => s.subscriptionTag)];
+};
+
+const EXISTING_NUMBER_SOURCES: Record<string, ExistingNumberSource> = {
+  LEAVE_REQUEST: async (db, prefix) => {
+    const rows = await db.leaveRequest.findMany({
+      where: { requestNumber: { startsWith: prefix } },
+      select: { requestNumber: true },
+    });
+    return rows.map(r => r.requestNumber);
+  },
+  PAYSLIP: async (db, prefix) => {
+    const rows = await db.payslip.findMany({
+      where: { payslipNumber: { startsWith: prefix } },
+      select: { payslipNumber: true },
+    });
+    return rows.map(r => r.payslipNumber);
+  },
+  ASSET_REQUEST: async (db, prefix) => {
+    const rows = await db.assetRequest.findMany({
+      where: { requestNumber: { startsWith: prefix } },
+      select: { requestNumber: true },
+    });
+    return rows.map(r => r.requestNumber);
+  },
+  PURCHASE_REQUEST: async (db, prefix) => {
+    const rows = await db.purchaseRequest.findMany({
+      where: { referenceNumber: { startsWith: prefix } },
+      select: { referenceNumber: true },
+    });
+    return rows.map(r => r.referenceNumber);
+  },
+  ASSET_AUDIT: async (db, prefix) => {
+    const rows = await db.assetAuditCampaign.findMany({
+      where: { campaignNumber: { startsWith: prefix } },
+      select: { campaignNumber: true },
+    });
+    return rows.map(r => r.campaignNumber);
+  },
+  ASSET_DISPOSAL: async (db, prefix) => {
+    const rows = await db.assetDisposal.findMany({
+      where: { disposalNumber: { startsWith: prefix } },
+      select: { disposalNumber: true },
+    });
+    return rows.map(r => r.disposalNumber);
+  },
+  PURCHASE_ORDER: async (db, prefix) => {
+    const rows = await db.purchaseOrder.findMany({
+      where: { poNumber: { startsWith: prefix } },
+      select: { poNumber: true },
+    });
+    return rows.map(r => r.poNumber);
+  },
+  GOODS_RECEIPT: async (db, prefix) => {
+    const rows = await db.goodsReceipt.findMany({
+      where: { receiptNumber: { startsWith: prefix } },
+      select: { receiptNumber: true },
+    });
+    return rows.map(r => r.receiptNumber);
+  },
+  EMPLOYEE_LOAN: async (db, prefix) => {
+    const rows = await db.employeeLoan.findMany({
+      where: { loanNumber: { startsWith: prefix } },
+      select: { loanNumber: true },
+    });
+    return rows.map(r => r.loanNumber);
+  },
+  FINAL_SETTLEMENT: async (db, prefix) => {
+    const rows = await db.finalSettlement.findMany({
+      where: { settlementNumber: { startsWith: prefix } },
+      select: { settlementNumber: true },
+    });
+    return rows.map(r => r.settlementNumber);
+  },
+  LEAVE_ENCASHMENT: async (db, prefix) => {
+    const rows = await db.leaveEncashment.findMany({
+      where: { requestNumber: { startsWith: prefix } },
+      select: { requestNumber: true },
+    });
+    return rows.map(r => r.requestNumber);
+  },
+};
+
+function getExistingNumberSource(entityType: string): ExistingNumberSource | null {
+  if (EXISTING_NUMBER_SOURCES[entityType]) return EXISTING_NUMBER_SOURCES[entityType];
+  if (entityType.startsWith('ASSET_')) return findAssetAndSubscriptionTags;
+  return null;
+}
+
+async function getCompanyPrefix(db: PrismaTransactionClient): Promise<string> {
+  const setting = await db.systemSettings.findUnique({ where: { key: 'companyPrefix' } });
+  return setting?.value || DEFAULT_COMPANY_PREFIX;
+}
+
+async function getDocumentNumberFormat(
+  db: PrismaTransactionClient,
+  entityType: string
+): Promise<DocumentNumberFormat> {
+  const config = await db.documentNumberConfig.findUnique({ where: { entityType } });
+  const format = config ?? getDefaultDocumentNumberFormat(entityType);
+
+  if (!format) {
+    throw new Error(`No document number configuration for ${entityType}`);
+  }
+
+  return format;
+}
+
+/**
+ * Last sequence issued under a prefix. Before the first allocation there is
+ * no counter row, so fall back to the numbers already stored for the entity.
+ */
+async function getLastSequence(
+  db: PrismaTransactionClient,
+  entityType: string,
+  prefix: string
+): Promise<number> {
+  const counter = await db.documentNumberSequence.findUnique({ where: { prefix } });
+  if (counter) {
+    return counter.lastValue;
+  }
+
+  const source = getExistingNumberSource(entityType);
+  const existing = source ? await source(db, prefix) : [];
+  return getHighestSequence(prefix, existing);
+}
+
+export interface GenerateDocumentNumberOptions {
+  /** Date the number's year/month come from (default: now) */
+  date?: Date;
+  /** Use '00' instead of the year (transferred assets) */
+  isTransferred?: boolean;
+  /** Transaction client, when allocating inside a $transaction */
+  tx?: PrismaTransactionClient;
+}
+
+/**
+ * Allocate the next number for an entity type using its DocumentNumberConfig
+ * (code, month, sequence digits) and the company prefix.
+ * Format: {PREFIX}-{CODE}-{YY}[MM]{SEQ}, e.g., BCE-LV-25001, BCE-PR-2412001
+ *
+ * The counter is incremented with a single upsert (INSERT ... ON CONFLICT DO
+ * UPDATE), so concurrent requests never receive the same sequence.
+ */
+export async function generateDocumentNumber(
+  entityType: string,
+  options: GenerateDocumentNumberOptions = {}
+): Promise<string> {
+  const db = options.tx || prisma;
+  const [companyPrefix, format] = await Promise.all([
+    getCompanyPrefix(db),
+    getDocumentNumberFormat(db, entityType),
+  ]);
+  const prefix = getDocumentNumberPrefix(companyPrefix, format, options.date, options.isTransferred);
+
+  const lastValue = await getLastSequence(db, entityType, prefix);
+
+  // The create branch only runs for a new prefix; otherwise the stored counter wins
+  const counter = await db.documentNumberSequence.upsert({
+    where: { prefix },
+    create: { entityType, prefix, lastValue: lastValue + 1 },
+    update: { lastValue: { increment: 1 } },
+  });
+
+  return formatDocumentNumber(prefix, counter.lastValue, format.sequenceDigits);
+}
+
+/**
+ * Next number a config would issue today, without allocating it
+ */
+export async function previewNextDocumentNumber(
+  config: DocumentNumberFormat & { entityType: string },
+  companyPrefix: string
+): Promise<string> {
+  const prefix = getDocumentNumberPrefix(companyPrefix, config);
+  const lastValue = await getLastSequence(prisma, config.entityType, prefix);
+  return formatDocumentNumber(prefix, lastValue + 1, config.sequenceDigits);
+}
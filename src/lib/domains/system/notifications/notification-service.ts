@@ -118,6 +118,42 @@ export const NotificationTemplates = {
     entityId,
   }),
 
+  leaveApprovalRequired: (
+    approverId: string,
+    requesterName: string,
+    requestNumber: string,
+    leaveType: string,
+    stepName: string,
+    link: string,
+    entityId?: string,
+    onBehalfOfName?: string
+  ): CreateNotificationInput => ({
+    recipientId: approverId,
+    type: 'LEAVE_REQUEST_SUBMITTED',
+    title: 'Leave Approval Required',
+    message: `${requesterName}'s ${leaveType} request (${requestNumber}) is awaiting your approval (${stepName})${onBehalfOfName ? ` on behalf of ${onBehalfOfName}` : ''}.`,
+    link,
+    entityType: 'LeaveRequest',
+    entityId,
+  }),
+
+  leaveStepApproved: (
+    userId: string,
+    requestNumber: string,
+    leaveType: string,
+    stepName: string,
+    nextStepName: string,
+    entityId?: string
+  ): CreateNotificationInput => ({
+    recipientId: userId,
+    type: 'GENERAL',
+    title: 'Leave Request Progress',
+    message: `Your ${leaveType} request (${requestNumber}) was approved at the ${stepName} step and is now with ${nextStepName}.`,
+    link: '/employee/leave',
+    entityType: 'LeaveRequest',
+    entityId,
+  }),
+
   leaveCancelled: (
     userId: string,
     requestNumber: string,
@@ -137,6 +173,53 @@ export const NotificationTemplates = {
     entityId,
   }),
 
+  leaveEncashmentSubmitted: (
+    adminId: string,
+    requesterName: string,
+    requestNumber: string,
+    leaveType: string,
+    days: number,
+    entityId?: string
+  ): CreateNotificationInput => ({
+    recipientId: adminId,
+    type: 'LEAVE_REQUEST_SUBMITTED',
+    title: 'New Leave Encashment Request',
+    message: `${requesterName} requested encashment of ${days} ${leaveType} day${days === 1 ? '' : 's'} (${requestNumber}).`,
+    link: '/admin/leave/encashments',
+    entityType: 'LeaveEncashment',
+    entityId,
+  }),
+
+  leaveEncashmentApproved: (
+    userId: string,
+    requestNumber: string,
+    days: number,
+    entityId?: string
+  ): CreateNotificationInput => ({
+    recipientId: userId,
+    type: 'LEAVE_REQUEST_APPROVED',
+    title: 'Leave Encashment Approved',
+    message: `Your encashment of ${days} day${days === 1 ? '' : 's'} (${requestNumber}) was approved and will be paid with your next salary.`,
+    link: '/employee/leave/encashments',
+    entityType: 'LeaveEncashment',
+    entityId,
+  }),
+
+  leaveEncashmentRejected: (
+    userId: string,
+    requestNumber: string,
+    reason?: string,
+    entityId?: string
+  ): CreateNotificationInput => ({
+    recipientId: userId,
+    type: 'LEAVE_REQUEST_REJECTED',
+    title: 'Leave Encashment Rejected',
+    message: `Your leave encashment request (${requestNumber}) was rejected.${reason ? ` Reason: ${reason}` : ''}`,
+    link: '/employee/leave/encashments',
+    entityType: 'LeaveEncashment',
+    entityId,
+  }),
+
   // Asset Management
   assetAssigned: (
     userId: string,
@@ -286,6 +369,88 @@ export const NotificationTemplates = {
     entityId,
   }),
 
+  assetAuditRequested: (
+    userId: string,
+    campaignNumber: string,
+    campaignName: string,
+    assetCount: number,
+    dueDate?: Date | null,
+    entityId?: string
+  ): CreateNotificationInput => ({
+    recipientId: userId,
+    type: 'ASSET_AUDIT_REQUESTED',
+    title: 'Confirm Your Assets',
+    message: `Asset audit ${campaignNumber} (${campaignName}) has started. Please confirm the ${assetCount} asset${assetCount === 1 ? '' : 's'} assigned to you${dueDate ? ` by ${dueDate.toLocaleDateString('en-GB')}` : ''}.`,
+    link: '/employee/asset-audits',
+    entityType: 'AssetAuditCampaign',
+    entityId,
+  }),
+
+  assetRequestCancelled: (
+    userId: string,
+    assetTag: string,
+    requestNumber: string,
+    reason?: string,
+    entityId?: string
+  ): CreateNotificationInput => ({
+    recipientId: userId,
+    type: 'ASSET_REQUEST_CANCELLED',
+    title: 'Asset Request Cancelled',
+    message: `Your request for asset ${assetTag} (${requestNumber}) was cancelled.${reason ? ` Reason: ${reason}` : ''}`,
+    link: '/employee/asset-requests',
+    entityType: 'AssetRequest',
+    entityId,
+  }),
+
+  // Asset Disposals
+  assetDisposalSubmitted: (
+    adminId: string,
+    requesterName: string,
+    assetTag: string,
+    methodLabel: string,
+    disposalNumber: string,
+    entityId?: string
+  ): CreateNotificationInput => ({
+    recipientId: adminId,
+    type: 'ASSET_DISPOSAL_SUBMITTED',
+    title: 'Asset Disposal Awaiting Approval',
+    message: `${requesterName} requested disposal of ${assetTag} (${methodLabel}) - ${disposalNumber}`,
+    link: '/admin/assets/disposals',
+    entityType: 'AssetDisposal',
+    entityId,
+  }),
+
+  assetDisposalApproved: (
+    userId: string,
+    assetTag: string,
+    disposalNumber: string,
+    entityId?: string
+  ): CreateNotificationInput => ({
+    recipientId: userId,
+    type: 'ASSET_DISPOSAL_APPROVED',
+    title: 'Asset Disposal Approved',
+    message: `Disposal of ${assetTag} (${disposalNumber}) was approved. The disposal certificate is ready.`,
+    link: '/admin/assets/disposals',
+    entityType: 'AssetDisposal',
+    entityId,
+  }),
+
+  assetDisposalRejected: (
+    userId: string,
+    assetTag: string,
+    disposalNumber: string,
+    reason?: string,
+    entityId?: string
+  ): CreateNotificationInput => ({
+    recipientId: userId,
+    type: 'ASSET_DISPOSAL_REJECTED',
+    title: 'Asset Disposal Rejected',
+    message: `Disposal of ${assetTag} (${disposalNumber}) was rejected.${reason ? ` Reason: ${reason}` : ''}`,
+    link: '/admin/assets/disposals',
+    entityType: 'AssetDisposal',
+    entityId,
+  }),
+
   // Purchase Requests
   purchaseRequestSubmitted: (
     adminId: string,
@@ -332,6 +497,76 @@ export const NotificationTemplates = {
     entityId,
   }),
 
+  purchaseApprovalRequired: (
+    approverId: string,
+    requesterName: string,
+    referenceNumber: string,
+    title: string,
+    stepName: string,
+    link: string,
+    entityId?: string,
+    onBehalfOfName?: string
+  ): CreateNotificationInput => ({
+    recipientId: approverId,
+    type: 'PURCHASE_REQUEST_SUBMITTED',
+    title: 'Purchase Approval Required',
+    message: `${requesterName}'s purchase request (${referenceNumber}): ${title} is awaiting your approval (${stepName})${onBehalfOfName ? ` on behalf of ${onBehalfOfName}` : ''}.`,
+    link,
+    entityType: 'PurchaseRequest',
+    entityId,
+  }),
+
+  purchaseApprovalReminder: (
+    approverId: string,
+    referenceNumber: string,
+    title: string,
+    stepName: string,
+    daysWaiting: number,
+    link: string,
+    entityId?: string,
+    onBehalfOfName?: string
+  ): CreateNotificationInput => ({
+    recipientId: approverId,
+    type: 'GENERAL',
+    title: 'Purchase Approval Reminder',
+    message: `Purchase request ${referenceNumber}: ${title} has been waiting ${daysWaiting} day${daysWaiting === 1 ? '' : 's'} for the ${stepName} approval${onBehalfOfName ? ` (assigned to ${onBehalfOfName})` : ''}.`,
+    link,
+    entityType: 'PurchaseRequest',
+    entityId,
+  }),
+
+  purchaseRequestStepApproved: (
+    userId: string,
+    referenceNumber: string,
+    stepName: string,
+    nextStepName: string,
+    entityId?: string
+  ): CreateNotificationInput => ({
+    recipientId: userId,
+    type: 'GENERAL',
+    title: 'Purchase Request Progress',
+    message: `Your purchase request (${referenceNumber}) was approved at the ${stepName} step and is now with ${nextStepName}.`,
+    link: `/employee/purchase-requests/${entityId}`,
+    entityType: 'PurchaseRequest',
+    entityId,
+  }),
+
+  purchaseOrderIssued: (
+    userId: string,
+    referenceNumber: string,
+    poNumber: string,
+    supplierName: string,
+    entityId?: string
+  ): CreateNotificationInput => ({
+    recipientId: userId,
+    type: 'GENERAL',
+    title: 'Purchase Order Issued',
+    message: `Purchase order ${poNumber} was issued to ${supplierName} for your purchase request (${referenceNumber}).`,
+    link: `/employee/purchase-requests/${entityId}`,
+    entityType: 'PurchaseRequest',
+    entityId,
+  }),
+
   // Document Expiry Warnings
   documentExpiryWarning: (
     userId: string,
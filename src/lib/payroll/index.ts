@@ -1,6 +1,17 @@
 // Payroll Module Utilities
 
 export * from './gratuity';
+export * from './gratuity-service';
 export * from './wps';
+export * from './wps-service';
 export * from './utils';
 export * from './leave-deduction';
+export * from './payslip-calculation';
+export * from './run-calculation';
+export * from './overtime';
+export * from './final-settlement';
+export * from './final-settlement-service';
+export * from './liability';
+export * from './liability-service';
+export * from './payslip-pdf';
+export * from './payslip-pdf-service';
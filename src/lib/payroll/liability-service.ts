@@ -0,0 +1,141 @@
+import { prisma } from '@/lib/prisma';
+import { LeaveStatus } from '@prisma/client';
+import { calculateWorkingDays } from '@/lib/leave-utils';
+import { getWorkingCalendar } from '@/lib/domains/hr/leave/holiday-service';
+import { getGratuityOptionsForEmployees } from './gratuity-service';
+import {
+  calculateEmployeeLiability,
+  compareLiabilities,
+  getPreviousPeriod,
+  sumLiabilities,
+} from './liability';
+import { getPeriodEndDate, parseDecimal, toFixed2 } from './utils';
+import type { EmployeeLiability, LiabilityReport } from '@/lib/types/payroll';
+
+/**
+ * Liabilities for everyone employed and on payroll at a month end.
+ * Current salary structures are used; salary history is not replayed.
+ */
+export async function getEmployeeLiabilities(year: number, month: number): Promise<EmployeeLiability[]> {
+  const asOf = getPeriodEndDate(year, month);
+  const yearStart = new Date(year, 0, 1);
+
+  const structures = await prisma.salaryStructure.findMany({
+    where: {
+      // Still on payroll at the month end
+      OR: [
+        { effectiveTo: { gte: asOf } },
+        { effectiveTo: null, isActive: true },
+      ],
+      user: { hrProfile: { dateOfJoining: { lte: asOf } } },
+    },
+    include: {
+      user: {
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          hrProfile: {
+            select: {
+              employeeId: true,
+              dateOfJoining: true,
+              contractType: true,
+              gratuityPolicyId: true,
+            },
+          },
+        },
+      },
+    },
+  });
+
+  const userIds = structures.map(structure => structure.userId);
+
+  const [gratuityOptions, balances, leaveTaken, calendar] = await Promise.all([
+    getGratuityOptionsForEmployees(
+      structures.map(structure => ({
+        userId: structure.userId,
+        gratuityPolicyId: structure.user.hrProfile?.gratuityPolicyId ?? null,
+        contractType: structure.user.hrProfile?.contractType ?? null,
+        grossSalary: parseDecimal(structure.grossSalary),
+      })),
+      asOf
+    ),
+    prisma.leaveBalance.findMany({
+      where: { userId: { in: userIds }, year, leaveType: { accrualBased: true } },
+      select: { userId: true, carriedForward: true, adjustment: true },
+    }),
+    // Leave overlapping the year so far, including leave running across its start or the month end
+    prisma.leaveRequest.findMany({
+      where: {
+        userId: { in: userIds },
+        status: LeaveStatus.APPROVED,
+        leaveType: { accrualBased: true },
+        startDate: { lte: asOf },
+        endDate: { gte: yearStart },
+      },
+      select: { userId: true, startDate: true, endDate: true, requestType: true },
+    }),
+    getWorkingCalendar(yearStart, asOf),
+  ]);
+
+  // Only the days of each leave that fall between the year start and the month end
+  const leaveTakenByUser = new Map<string, number>();
+  for (const leave of leaveTaken) {
+    const start = leave.startDate > yearStart ? leave.startDate : yearStart;
+    const end = leave.endDate < asOf ? leave.endDate : asOf;
+    const days = calculateWorkingDays(start, end, leave.requestType, true, calendar);
+    leaveTakenByUser.set(leave.userId, (leaveTakenByUser.get(leave.userId) || 0) + days);
+  }
+
+  return structures
+    .filter(structure => structure.user.hrProfile?.dateOfJoining)
+    .map(structure => {
+      const userBalances = balances.filter(balance => balance.userId === structure.userId);
+
+      return calculateEmployeeLiability({
+        userId: structure.userId,
+        name: structure.user.name || structure.user.email,
+        employeeId: structure.user.hrProfile?.employeeId ?? null,
+        basicSalary: parseDecimal(structure.basicSalary),
+        grossSalary: parseDecimal(structure.grossSalary),
+        dateOfJoining: structure.user.hrProfile?.dateOfJoining as Date,
+        gratuityOptions: gratuityOptions.get(structure.userId),
+        leave: {
+          carriedForward: toFixed2(userBalances.reduce((sum, balance) => sum + parseDecimal(balance.carriedForward), 0)),
+          adjustment: toFixed2(userBalances.reduce((sum, balance) => sum + parseDecimal(balance.adjustment), 0)),
+          daysTaken: leaveTakenByUser.get(structure.userId) || 0,
+        },
+      }, asOf);
+    });
+}
+
+/**
+ * Month-end liability report with movement against the previous month
+ */
+export async function buildLiabilityReport(year: number, month: number): Promise<LiabilityReport> {
+  const previous = getPreviousPeriod(year, month);
+
+  const [currentLiabilities, previousLiabilities] = await Promise.all([
+    getEmployeeLiabilities(year, month),
+    getEmployeeLiabilities(previous.year, previous.month),
+  ]);
+
+  const totals = sumLiabilities(currentLiabilities);
+  const previousTotals = sumLiabilities(previousLiabilities);
+
+  return {
+    year,
+    month,
+    asOf: getPeriodEndDate(year, month).toISOString(),
+    previousYear: previous.year,
+    previousMonth: previous.month,
+    employees: compareLiabilities(currentLiabilities, previousLiabilities),
+    totals,
+    previousTotals,
+    movement: {
+      gratuityLiability: toFixed2(totals.gratuityLiability - previousTotals.gratuityLiability),
+      leaveLiability: toFixed2(totals.leaveLiability - previousTotals.leaveLiability),
+      totalLiability: toFixed2(totals.totalLiability - previousTotals.totalLiability),
+    },
+  };
+}
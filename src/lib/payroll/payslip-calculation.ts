@@ -0,0 +1,151 @@
+import { PayrollStatus } from '@prisma/client';
+import { calculateGrossSalary, toFixed2 } from './utils';
+
+/**
+ * Payroll runs can be recalculated and payslips adjusted until the run is
+ * submitted for approval. Processing moves a run from DRAFT to PROCESSED, so
+ * PROCESSED is where a run with payslips waits for review.
+ */
+export const PAYROLL_EDITABLE_STATUSES: PayrollStatus[] = [PayrollStatus.DRAFT, PayrollStatus.PROCESSED];
+
+export function isPayrollEditable(status: PayrollStatus): boolean {
+  return PAYROLL_EDITABLE_STATUSES.includes(status);
+}
+
+export interface PayslipComponents {
+  basicSalary: number;
+  housingAllowance: number;
+  transportAllowance: number;
+  foodAllowance: number;
+  phoneAllowance: number;
+  otherAllowances: number;
+}
+
+export interface PayslipTotals {
+  grossSalary: number;
+  totalDeductions: number;
+  netSalary: number;
+}
+
+/**
+ * Gross is the salary components plus any one-off earnings (bonus, overtime...)
+ */
+export function calculatePayslipTotals(
+  components: PayslipComponents,
+  earnings: Array<{ amount: number }>,
+  deductions: Array<{ amount: number }>
+): PayslipTotals {
+  const grossSalary = toFixed2(
+    calculateGrossSalary(components) + earnings.reduce((sum, e) => sum + e.amount, 0)
+  );
+  const totalDeductions = toFixed2(deductions.reduce((sum, d) => sum + d.amount, 0));
+
+  return {
+    grossSalary,
+    totalDeductions,
+    netSalary: toFixed2(grossSalary - totalDeductions),
+  };
+}
+
+export interface PayrollRunTotals {
+  totalGross: number;
+  totalDeductions: number;
+  totalNet: number;
+  employeeCount: number;
+}
+
+export function summarizePayslipTotals(payslips: PayslipTotals[]): PayrollRunTotals {
+  return {
+    totalGross: toFixed2(payslips.reduce((sum, p) => sum + p.grossSalary, 0)),
+    totalDeductions: toFixed2(payslips.reduce((sum, p) => sum + p.totalDeductions, 0)),
+    totalNet: toFixed2(payslips.reduce((sum, p) => sum + p.netSalary, 0)),
+    employeeCount: payslips.length,
+  };
+}
+
+// ===== Recalculation Diff =====
+
+export interface PayslipSnapshot extends PayslipTotals {
+  userId: string;
+  employeeName: string;
+  deductions: Array<{ type: string; description: string; amount: number }>;
+}
+
+export interface PayslipChange {
+  userId: string;
+  employeeName: string;
+  before: PayslipTotals;
+  after: PayslipTotals;
+  netDifference: number;
+  deductionsAdded: PayslipSnapshot['deductions'];
+  deductionsRemoved: PayslipSnapshot['deductions'];
+}
+
+export interface PayslipDiff {
+  added: PayslipSnapshot[];
+  removed: PayslipSnapshot[];
+  changed: PayslipChange[];
+  unchangedCount: number;
+  before: PayrollRunTotals;
+  after: PayrollRunTotals;
+}
+
+function pickTotals(payslip: PayslipTotals): PayslipTotals {
+  return {
+    grossSalary: payslip.grossSalary,
+    totalDeductions: payslip.totalDeductions,
+    netSalary: payslip.netSalary,
+  };
+}
+
+function deductionKey(deduction: PayslipSnapshot['deductions'][number]): string {
+  return `${deduction.type}|${deduction.description}|${toFixed2(deduction.amount)}`;
+}
+
+/**
+ * Compare existing payslips with freshly computed ones, by employee
+ */
+export function diffPayslips(existing: PayslipSnapshot[], computed: PayslipSnapshot[]): PayslipDiff {
+  const existingByUser = new Map(existing.map(p => [p.userId, p]));
+  const computedByUser = new Map(computed.map(p => [p.userId, p]));
+
+  const diff: PayslipDiff = {
+    added: computed.filter(p => !existingByUser.has(p.userId)),
+    removed: existing.filter(p => !computedByUser.has(p.userId)),
+    changed: [],
+    unchangedCount: 0,
+    before: summarizePayslipTotals(existing),
+    after: summarizePayslipTotals(computed),
+  };
+
+  for (const after of computed) {
+    const before = existingByUser.get(after.userId);
+    if (!before) continue;
+
+    const beforeKeys = new Set(before.deductions.map(deductionKey));
+    const afterKeys = new Set(after.deductions.map(deductionKey));
+    const deductionsAdded = after.deductions.filter(d => !beforeKeys.has(deductionKey(d)));
+    const deductionsRemoved = before.deductions.filter(d => !afterKeys.has(deductionKey(d)));
+
+    const totalsChanged =
+      Math.abs(before.grossSalary - after.grossSalary) > 0.001 ||
+      Math.abs(before.totalDeductions - after.totalDeductions) > 0.001 ||
+      Math.abs(before.netSalary - after.netSalary) > 0.001;
+
+    if (totalsChanged || deductionsAdded.length > 0 || deductionsRemoved.length > 0) {
+      diff.changed.push({
+        userId: after.userId,
+        employeeName: after.employeeName,
+        before: pickTotals(before),
+        after: pickTotals(after),
+        netDifference: toFixed2(after.netSalary - before.netSalary),
+        deductionsAdded,
+        deductionsRemoved,
+      });
+    } else {
+      diff.unchangedCount++;
+    }
+  }
+
+  return diff;
+}
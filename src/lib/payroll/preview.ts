@@ -2,6 +2,7 @@ import { prisma } from '@/lib/prisma';
 import { LoanStatus } from '@prisma/client';
 import { parseDecimal, calculateDailySalary } from './utils';
 import { calculateUnpaidLeaveDeductions, UnpaidLeaveDeduction } from './leave-deduction';
+import { getWorkingCalendar } from '@/lib/domains/hr/leave/holiday-service';
 
 export interface LoanDeductionPreview {
   loanId: string;
@@ -85,6 +86,9 @@ export async function calculatePayrollPreview(
     loansByUser.set(loan.userId, userLoans);
   }
 
+  // Load the holiday calendar once for all employees
+  const workingCalendar = await getWorkingCalendar(new Date(year, month - 1, 1), periodEnd);
+
   const employees: EmployeePayrollPreview[] = [];
   let totalGross = 0;
   let totalLoanDeductions = 0;
@@ -123,7 +127,8 @@ export async function calculatePayrollPreview(
         salary.userId,
         year,
         month,
-        dailyRate
+        dailyRate,
+        workingCalendar
       );
     } catch (error) {
       console.error('Error calculating leave deductions:', error);
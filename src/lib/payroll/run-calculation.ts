@@ -0,0 +1,700 @@
+import { prisma, PrismaTransactionClient } from '@/lib/prisma';
+import {
+  DeductionType,
+  EarningEntryStatus,
+  EarningType,
+  EmployeeLoan,
+  FinalSettlement,
+  FinalSettlementStatus,
+  LoanStatus,
+} from '@prisma/client';
+import { getWorkingCalendar } from '@/lib/domains/hr/leave/holiday-service';
+import { generateDocumentNumber } from '@/lib/domains/system/document-numbering/document-number-service';
+import { calculateUnpaidLeaveDeductions, describeLeaveDeduction } from './leave-deduction';
+import { formatRateMultiplier } from './overtime';
+import { calculateDailySalary, parseDecimal } from './utils';
+import type { FinalSettlementDetails } from '@/lib/types/payroll';
+import {
+  calculatePayslipTotals,
+  PayslipComponents,
+  PayslipSnapshot,
+  PayslipTotals,
+} from './payslip-calculation';
+
+export interface PayslipDeductionItem {
+  type: DeductionType;
+  description: string;
+  amount: number;
+  leaveRequestId?: string;
+  loanId?: string;
+}
+
+export interface PayslipEarningItem {
+  type: EarningType;
+  description: string;
+  amount: number;
+  hours: number | null;
+  earningEntryId?: string;
+}
+
+export interface ManualPayslipLine {
+  type: string;
+  description: string;
+  amount: number;
+}
+
+export interface ComputedPayslip extends PayslipComponents, PayslipTotals {
+  userId: string;
+  employeeName: string;
+  otherAllowancesDetails: string | null;
+  bankName: string | null;
+  iban: string | null;
+  qidNumber: string | null;
+  /** Calculated deductions (unpaid leave, loans) that are (re)written on save */
+  deductions: PayslipDeductionItem[];
+  /** Approved earning entries (overtime, commissions...) that are (re)written on save */
+  earnings: PayslipEarningItem[];
+  /** Manual adjustments already on the payslip, carried over as-is */
+  manualEarnings: ManualPayslipLine[];
+  manualDeductions: ManualPayslipLine[];
+  /** Set when this is the employee's final payslip */
+  finalSettlementId?: string;
+}
+
+interface PayrollRunPeriod {
+  id: string;
+  year: number;
+  month: number;
+  periodStart: Date;
+  periodEnd: Date;
+}
+
+interface ComputeRunOptions {
+  /** Only compute payslips for these employees */
+  userIds?: string[];
+  /** Read through a transaction, e.g. one that has just approved a settlement */
+  db?: PrismaTransactionClient;
+}
+
+function periodIndex(year: number, month: number): number {
+  return year * 12 + month;
+}
+
+/**
+ * Compute the payslips a payroll run should contain from the current salary
+ * structures, approved earning entries, approved unpaid leave and active loans.
+ *
+ * When the run already has payslips, their loan repayments are added back to
+ * the loan balances (in memory) so the result is what processing from scratch
+ * would give, and their manual earnings/deductions are carried over.
+ *
+ * Employees with an approved final settlement get their final payslip in the
+ * settlement's pay period (pro-rata salary, gratuity, leave encashment and the
+ * settlement deductions) and no payslip in later periods.
+ */
+export async function computeRunPayslips(
+  payrollRun: PayrollRunPeriod,
+  options: ComputeRunOptions = {}
+): Promise<ComputedPayslip[]> {
+  const db = options.db ?? prisma;
+  const allSalaryStructures = await db.salaryStructure.findMany({
+    where: {
+      isActive: true,
+      ...(options.userIds && { userId: { in: options.userIds } }),
+    },
+    include: {
+      user: {
+        select: {
+          id: true,
+          name: true,
+          hrProfile: {
+            select: {
+              bankName: true,
+              iban: true,
+              qidNumber: true,
+            },
+          },
+        },
+      },
+    },
+  });
+
+  const settlements = await db.finalSettlement.findMany({
+    where: {
+      userId: { in: allSalaryStructures.map(s => s.userId) },
+      status: { in: [FinalSettlementStatus.APPROVED, FinalSettlementStatus.PAID] },
+      payrollYear: { not: null },
+      payrollMonth: { not: null },
+    },
+  });
+  const runPeriod = periodIndex(payrollRun.year, payrollRun.month);
+  const settlementByUser = new Map<string, FinalSettlement>();
+  const leftUserIds = new Set<string>();
+  for (const settlement of settlements) {
+    if (settlement.payrollYear === null || settlement.payrollMonth === null) continue;
+    const settlementPeriod = periodIndex(settlement.payrollYear, settlement.payrollMonth);
+    if (settlementPeriod === runPeriod) settlementByUser.set(settlement.userId, settlement);
+    else if (settlementPeriod < runPeriod) leftUserIds.add(settlement.userId);
+  }
+  const salaryStructures = allSalaryStructures.filter(s => !leftUserIds.has(s.userId));
+
+  const existingPayslips = await db.payslip.findMany({
+    where: {
+      payrollRunId: payrollRun.id,
+      ...(options.userIds && { userId: { in: options.userIds } }),
+    },
+    select: {
+      id: true,
+      userId: true,
+      earnings: { where: { isManual: true } },
+      deductions: { where: { isManual: true } },
+    },
+  });
+
+  const repayments = await db.loanRepayment.findMany({
+    where: { payslipId: { in: existingPayslips.map(p => p.id) } },
+    select: { loanId: true, amount: true },
+  });
+  const repaidByLoan = new Map<string, number>();
+  for (const repayment of repayments) {
+    repaidByLoan.set(repayment.loanId, (repaidByLoan.get(repayment.loanId) || 0) + parseDecimal(repayment.amount));
+  }
+
+  // Get active loans for deductions (including loans this run already completed)
+  let activeLoans: EmployeeLoan[] = [];
+  try {
+    activeLoans = await db.employeeLoan.findMany({
+      where: {
+        OR: [
+          { status: LoanStatus.ACTIVE },
+          { id: { in: Array.from(repaidByLoan.keys()) } },
+          // Final payslips settle paused loans too
+          { status: LoanStatus.PAUSED, userId: { in: Array.from(settlementByUser.keys()) } },
+        ],
+        // Only include loans that have started by the payroll period end date
+        startDate: { lte: payrollRun.periodEnd },
+      },
+    });
+  } catch (loanError) {
+    console.error('Failed to fetch loans:', loanError);
+    // Continue without loans
+  }
+
+  const loansByUser = new Map<string, typeof activeLoans>();
+  for (const loan of activeLoans) {
+    const userLoans = loansByUser.get(loan.userId) || [];
+    userLoans.push(loan);
+    loansByUser.set(loan.userId, userLoans);
+  }
+
+  const manualByUser = new Map(existingPayslips.map(p => [p.userId, p]));
+
+  // Approved earning entries up to the period end that no other run has paid
+  // (entries approved after their month closed are paid in the next run)
+  const earningEntries = await db.earningEntry.findMany({
+    where: {
+      status: EarningEntryStatus.APPROVED,
+      date: { lte: payrollRun.periodEnd },
+      OR: [
+        { payslipEarning: null },
+        { payslipEarning: { payslip: { payrollRunId: payrollRun.id } } },
+      ],
+    },
+    orderBy: { date: 'asc' },
+  });
+  const earningsByUser = new Map<string, PayslipEarningItem[]>();
+  for (const entry of earningEntries) {
+    const userEarnings = earningsByUser.get(entry.userId) || [];
+    const hours = entry.hours === null ? null : parseDecimal(entry.hours);
+    userEarnings.push({
+      type: entry.type,
+      description: hours !== null && entry.rateMultiplier !== null
+        ? `${entry.description} (${hours}h @ ${formatRateMultiplier(parseDecimal(entry.rateMultiplier))})`
+        : entry.description,
+      amount: parseDecimal(entry.amount),
+      hours,
+      earningEntryId: entry.id,
+    });
+    earningsByUser.set(entry.userId, userEarnings);
+  }
+
+  // Public holidays in the period are not deducted as unpaid leave
+  const workingCalendar = await getWorkingCalendar(payrollRun.periodStart, payrollRun.periodEnd);
+
+  const computed: ComputedPayslip[] = [];
+  for (const salary of salaryStructures) {
+    const manual = manualByUser.get(salary.userId);
+    const manualEarnings = (manual?.earnings || []).map(e => ({
+      type: e.type as string,
+      description: e.description,
+      amount: parseDecimal(e.amount),
+    }));
+    const manualDeductions = (manual?.deductions || []).map(d => ({
+      type: d.type as string,
+      description: d.description,
+      amount: parseDecimal(d.amount),
+    }));
+    const payslipBase = {
+      userId: salary.userId,
+      employeeName: salary.user.name || 'Unknown',
+      otherAllowancesDetails: salary.otherAllowancesDetails,
+      bankName: salary.user.hrProfile?.bankName ?? null,
+      iban: salary.user.hrProfile?.iban ?? null,
+      qidNumber: salary.user.hrProfile?.qidNumber ?? null,
+      manualEarnings,
+      manualDeductions,
+    };
+
+    const settlement = settlementByUser.get(salary.userId);
+    if (settlement) {
+      const final = getFinalPayslipLines(
+        settlement,
+        loansByUser.get(salary.userId) || [],
+        repaidByLoan
+      );
+      const earnings = [...final.earnings, ...(earningsByUser.get(salary.userId) || [])];
+
+      computed.push({
+        ...payslipBase,
+        ...final.components,
+        deductions: final.deductions,
+        earnings,
+        finalSettlementId: settlement.id,
+        ...calculatePayslipTotals(
+          final.components,
+          [...earnings, ...manualEarnings],
+          [...final.deductions, ...manualDeductions]
+        ),
+      });
+      continue;
+    }
+
+    const components: PayslipComponents = {
+      basicSalary: parseDecimal(salary.basicSalary),
+      housingAllowance: parseDecimal(salary.housingAllowance),
+      transportAllowance: parseDecimal(salary.transportAllowance),
+      foodAllowance: parseDecimal(salary.foodAllowance),
+      phoneAllowance: parseDecimal(salary.phoneAllowance),
+      otherAllowances: parseDecimal(salary.otherAllowances),
+    };
+    const dailyRate = calculateDailySalary(parseDecimal(salary.grossSalary));
+    const deductions: PayslipDeductionItem[] = [];
+
+    // 1. Unpaid leave deductions
+    let leaveDeductions: Awaited<ReturnType<typeof calculateUnpaidLeaveDeductions>> = [];
+    try {
+      leaveDeductions = await calculateUnpaidLeaveDeductions(
+        salary.userId,
+        payrollRun.year,
+        payrollRun.month,
+        dailyRate,
+        workingCalendar
+      );
+    } catch (leaveError) {
+      console.error('Leave deduction calculation error:', leaveError);
+      // Continue without leave deductions if there's an error
+    }
+
+    for (const leave of leaveDeductions) {
+      deductions.push({
+        type: DeductionType.UNPAID_LEAVE,
+        description: describeLeaveDeduction(leave),
+        amount: leave.deductionAmount,
+        leaveRequestId: leave.leaveRequestId,
+      });
+    }
+
+    // 2. Loan deductions
+    for (const loan of loansByUser.get(salary.userId) || []) {
+      const monthlyDeduction = parseDecimal(loan.monthlyDeduction);
+      const remaining = parseDecimal(loan.remainingAmount) + (repaidByLoan.get(loan.id) || 0);
+      const deductionAmount = Math.min(monthlyDeduction, remaining);
+
+      if (deductionAmount > 0) {
+        deductions.push({
+          type: DeductionType.LOAN_REPAYMENT,
+          description: `${loan.type} - ${loan.loanNumber}`,
+          amount: deductionAmount,
+          loanId: loan.id,
+        });
+      }
+    }
+
+    const earnings = earningsByUser.get(salary.userId) || [];
+
+    computed.push({
+      ...payslipBase,
+      ...components,
+      deductions,
+      earnings,
+      ...calculatePayslipTotals(components, [...earnings, ...manualEarnings], [...deductions, ...manualDeductions]),
+    });
+  }
+
+  return computed;
+}
+
+/**
+ * Components and lines of a final payslip, from the approved settlement.
+ * Outstanding loans are recovered in full.
+ */
+function getFinalPayslipLines(
+  settlement: FinalSettlement,
+  loans: EmployeeLoan[],
+  repaidByLoan: Map<string, number>
+): { components: PayslipComponents; earnings: PayslipEarningItem[]; deductions: PayslipDeductionItem[] } {
+  const details = settlement.details as unknown as FinalSettlementDetails;
+  const earnings: PayslipEarningItem[] = [];
+  const addEarning = (type: EarningType, description: string, amount: number) => {
+    if (amount > 0) earnings.push({ type, description, amount, hours: null });
+  };
+  addEarning(
+    EarningType.GRATUITY,
+    `End of service gratuity (${settlement.serviceMonths} months)`,
+    parseDecimal(settlement.gratuityAmount)
+  );
+  addEarning(
+    EarningType.LEAVE_ENCASHMENT,
+    `Unused leave encashment (${parseDecimal(settlement.leaveEncashmentDays)} days)`,
+    parseDecimal(settlement.leaveEncashmentAmount)
+  );
+  addEarning(EarningType.OTHER, `Final settlement ${settlement.settlementNumber}`, parseDecimal(settlement.otherEarnings));
+
+  const deductions: PayslipDeductionItem[] = details.unpaidLeave.map(leave => ({
+    type: DeductionType.UNPAID_LEAVE,
+    description: describeLeaveDeduction(leave),
+    amount: leave.deductionAmount,
+    leaveRequestId: leave.leaveRequestId,
+  }));
+
+  for (const loan of loans) {
+    const remaining = parseDecimal(loan.remainingAmount) + (repaidByLoan.get(loan.id) || 0);
+    if (remaining > 0) {
+      deductions.push({
+        type: DeductionType.LOAN_REPAYMENT,
+        description: `${loan.type} - ${loan.loanNumber} (final settlement)`,
+        amount: remaining,
+        loanId: loan.id,
+      });
+    }
+  }
+
+  for (const asset of details.assets) {
+    if (asset.deductionAmount > 0) {
+      deductions.push({
+        type: DeductionType.OTHER,
+        description: `Unreturned asset ${asset.assetTag || asset.model}`,
+        amount: asset.deductionAmount,
+      });
+    }
+  }
+
+  const otherDeductions = parseDecimal(settlement.otherDeductions);
+  if (otherDeductions > 0) {
+    deductions.push({
+      type: DeductionType.OTHER,
+      description: `Final settlement ${settlement.settlementNumber}`,
+      amount: otherDeductions,
+    });
+  }
+
+  return { components: details.finalMonth.components, earnings, deductions };
+}
+
+/**
+ * Snapshot of a computed payslip for diffing against existing payslips
+ */
+export function toPayslipSnapshot(payslip: ComputedPayslip): PayslipSnapshot {
+  return {
+    userId: payslip.userId,
+    employeeName: payslip.employeeName,
+    grossSalary: payslip.grossSalary,
+    totalDeductions: payslip.totalDeductions,
+    netSalary: payslip.netSalary,
+    deductions: [...payslip.deductions, ...payslip.manualDeductions].map(d => ({
+      type: d.type,
+      description: d.description,
+      amount: d.amount,
+    })),
+  };
+}
+
+/**
+ * Snapshot the payslips currently saved on a payroll run
+ */
+export async function getRunPayslipSnapshots(payrollRunId: string): Promise<PayslipSnapshot[]> {
+  const payslips = await prisma.payslip.findMany({
+    where: { payrollRunId },
+    include: {
+      user: { select: { name: true } },
+      deductions: { orderBy: { createdAt: 'asc' } },
+    },
+  });
+
+  return payslips.map(payslip => ({
+    userId: payslip.userId,
+    employeeName: payslip.user.name || 'Unknown',
+    grossSalary: parseDecimal(payslip.grossSalary),
+    totalDeductions: parseDecimal(payslip.totalDeductions),
+    netSalary: parseDecimal(payslip.netSalary),
+    deductions: payslip.deductions.map(d => ({
+      type: d.type,
+      description: d.description,
+      amount: parseDecimal(d.amount),
+    })),
+  }));
+}
+
+/**
+ * Create a computed payslip's calculated deductions, recording loan
+ * repayments against the loans they come from
+ */
+export async function createPayslipDeductions(
+  tx: PrismaTransactionClient,
+  payslipId: string,
+  deductions: PayslipDeductionItem[],
+  recordedById: string
+): Promise<void> {
+  for (const deduction of deductions) {
+    await tx.payslipDeduction.create({
+      data: {
+        payslipId,
+        type: deduction.type,
+        description: deduction.description,
+        amount: deduction.amount,
+        leaveRequestId: deduction.leaveRequestId,
+        loanId: deduction.loanId,
+      },
+    });
+
+    if (deduction.type !== DeductionType.LOAN_REPAYMENT || !deduction.loanId) continue;
+
+    const loan = await tx.employeeLoan.findUnique({ where: { id: deduction.loanId } });
+    if (!loan) continue;
+
+    const newRemaining = parseDecimal(loan.remainingAmount) - deduction.amount;
+
+    await tx.employeeLoan.update({
+      where: { id: loan.id },
+      data: {
+        totalPaid: parseDecimal(loan.totalPaid) + deduction.amount,
+        remainingAmount: Math.max(0, newRemaining),
+        installmentsPaid: loan.installmentsPaid + 1,
+        status: newRemaining <= 0 ? LoanStatus.COMPLETED : LoanStatus.ACTIVE,
+      },
+    });
+
+    await tx.loanRepayment.create({
+      data: {
+        loanId: loan.id,
+        amount: deduction.amount,
+        payslipId,
+        paymentDate: new Date(),
+        paymentMethod: 'SALARY_DEDUCTION',
+        recordedById,
+      },
+    });
+  }
+}
+
+/**
+ * Undo the loan repayments recorded by a payroll run's payslips (optionally
+ * only those of some employees)
+ */
+export async function reverseLoanRepayments(
+  tx: PrismaTransactionClient,
+  payrollRunId: string,
+  userIds?: string[]
+): Promise<void> {
+  const payslips = await tx.payslip.findMany({
+    where: {
+      payrollRunId,
+      ...(userIds && { userId: { in: userIds } }),
+    },
+    include: {
+      deductions: {
+        where: { type: DeductionType.LOAN_REPAYMENT },
+      },
+    },
+  });
+
+  for (const payslip of payslips) {
+    for (const deduction of payslip.deductions) {
+      if (!deduction.loanId) continue;
+
+      // Delete the loan repayment record
+      await tx.loanRepayment.deleteMany({
+        where: {
+          payslipId: payslip.id,
+          loanId: deduction.loanId,
+        },
+      });
+
+      // Reverse loan amounts
+      const loan = await tx.employeeLoan.findUnique({
+        where: { id: deduction.loanId },
+      });
+
+      if (loan) {
+        // A repaid loan is open again; a paused or written-off one stays as it was set
+        await tx.employeeLoan.update({
+          where: { id: loan.id },
+          data: {
+            totalPaid: { decrement: Number(deduction.amount) },
+            remainingAmount: { increment: Number(deduction.amount) },
+            installmentsPaid: { decrement: 1 },
+            ...(loan.status === LoanStatus.COMPLETED && { status: LoanStatus.ACTIVE }),
+          },
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Recompute a payslip's totals from its components and lines
+ */
+export async function refreshPayslipTotals(
+  tx: PrismaTransactionClient,
+  payslipId: string
+): Promise<PayslipTotals> {
+  const payslip = await tx.payslip.findUniqueOrThrow({
+    where: { id: payslipId },
+    include: { earnings: true, deductions: true },
+  });
+
+  const totals = calculatePayslipTotals(
+    {
+      basicSalary: parseDecimal(payslip.basicSalary),
+      housingAllowance: parseDecimal(payslip.housingAllowance),
+      transportAllowance: parseDecimal(payslip.transportAllowance),
+      foodAllowance: parseDecimal(payslip.foodAllowance),
+      phoneAllowance: parseDecimal(payslip.phoneAllowance),
+      otherAllowances: parseDecimal(payslip.otherAllowances),
+    },
+    payslip.earnings.map(e => ({ amount: parseDecimal(e.amount) })),
+    payslip.deductions.map(d => ({ amount: parseDecimal(d.amount) }))
+  );
+
+  await tx.payslip.update({ where: { id: payslipId }, data: totals });
+
+  return totals;
+}
+
+/**
+ * Recompute a payroll run's totals from its payslips
+ */
+export async function refreshPayrollRunTotals(
+  tx: PrismaTransactionClient,
+  payrollRunId: string
+) {
+  const aggregate = await tx.payslip.aggregate({
+    where: { payrollRunId },
+    _sum: { grossSalary: true, totalDeductions: true, netSalary: true },
+    _count: true,
+  });
+
+  const totals = {
+    totalGross: parseDecimal(aggregate._sum.grossSalary),
+    totalDeductions: parseDecimal(aggregate._sum.totalDeductions),
+    totalNet: parseDecimal(aggregate._sum.netSalary),
+    employeeCount: aggregate._count,
+  };
+
+  await tx.payrollRun.update({ where: { id: payrollRunId }, data: totals });
+
+  return totals;
+}
+
+/**
+ * Write computed payslips to a payroll run. Existing payslips are updated in
+ * place (keeping their numbers and manual adjustments), payslips for employees
+ * without an active salary structure are removed and new employees get a new
+ * payslip. Loan repayments are reversed first and recorded again, and earning
+ * entry lines are rewritten. Pass `userIds` when only some employees were
+ * computed so the rest of the run is left alone.
+ */
+export async function saveComputedPayslips(
+  tx: PrismaTransactionClient,
+  payrollRun: PayrollRunPeriod,
+  computed: ComputedPayslip[],
+  performedById: string,
+  userIds?: string[]
+): Promise<void> {
+  await reverseLoanRepayments(tx, payrollRun.id, userIds);
+
+  const existing = await tx.payslip.findMany({
+    where: {
+      payrollRunId: payrollRun.id,
+      ...(userIds && { userId: { in: userIds } }),
+    },
+    select: { id: true, userId: true },
+  });
+  const existingByUser = new Map(existing.map(p => [p.userId, p.id]));
+  const computedUsers = new Set(computed.map(p => p.userId));
+
+  const removedIds = existing.filter(p => !computedUsers.has(p.userId)).map(p => p.id);
+  if (removedIds.length > 0) {
+    await tx.payslip.deleteMany({ where: { id: { in: removedIds } } });
+  }
+
+  const payslipDate = new Date(payrollRun.year, payrollRun.month - 1, 1);
+
+  for (const payslip of computed) {
+    const data = {
+      basicSalary: payslip.basicSalary,
+      housingAllowance: payslip.housingAllowance,
+      transportAllowance: payslip.transportAllowance,
+      foodAllowance: payslip.foodAllowance,
+      phoneAllowance: payslip.phoneAllowance,
+      otherAllowances: payslip.otherAllowances,
+      otherAllowancesDetails: payslip.otherAllowancesDetails,
+      grossSalary: payslip.grossSalary,
+      totalDeductions: payslip.totalDeductions,
+      netSalary: payslip.netSalary,
+      bankName: payslip.bankName,
+      iban: payslip.iban,
+      qidNumber: payslip.qidNumber,
+    };
+
+    let payslipId = existingByUser.get(payslip.userId);
+    if (payslipId) {
+      await tx.payslipDeduction.deleteMany({ where: { payslipId, isManual: false } });
+      await tx.payslipEarning.deleteMany({ where: { payslipId, isManual: false } });
+      await tx.payslip.update({ where: { id: payslipId }, data });
+    } else {
+      const created = await tx.payslip.create({
+        data: {
+          ...data,
+          payslipNumber: await generateDocumentNumber('PAYSLIP', { date: payslipDate, tx }),
+          payrollRunId: payrollRun.id,
+          userId: payslip.userId,
+        },
+      });
+      payslipId = created.id;
+    }
+
+    await createPayslipDeductions(tx, payslipId, payslip.deductions, performedById);
+
+    const earningsPayslipId = payslipId;
+    if (payslip.earnings.length > 0) {
+      await tx.payslipEarning.createMany({
+        data: payslip.earnings.map(earning => ({
+          payslipId: earningsPayslipId,
+          type: earning.type,
+          description: earning.description,
+          amount: earning.amount,
+          hours: earning.hours,
+          earningEntryId: earning.earningEntryId,
+        })),
+      });
+    }
+
+    if (payslip.finalSettlementId) {
+      await tx.finalSettlement.update({
+        where: { id: payslip.finalSettlementId },
+        data: { payslipId },
+      });
+    }
+  }
+}
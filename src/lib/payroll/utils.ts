@@ -10,24 +10,6 @@ export function generatePayrollReference(year: number, month: number, sequence:
   return `PAY-${year}-${monthStr}-${seqStr}`;
 }
 
-/**
- * Generate payslip number
- * Format: PS-YYYY-MM-XXXXX
- */
-export function generatePayslipNumber(year: number, month: number, sequence: number): string {
-  const monthStr = month.toString().padStart(2, '0');
-  const seqStr = sequence.toString().padStart(5, '0');
-  return `PS-${year}-${monthStr}-${seqStr}`;
-}
-
-/**
- * Generate loan number
- * Format: LOAN-XXXXX
- */
-export function generateLoanNumber(sequence: number): string {
-  return `LOAN-${sequence.toString().padStart(5, '0')}`;
-}
-
 /**
  * Calculate gross salary from components
  */
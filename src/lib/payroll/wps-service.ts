@@ -0,0 +1,210 @@
+import { prisma } from '@/lib/prisma';
+import { EarningType } from '@prisma/client';
+import { getWorkingCalendar } from '@/lib/domains/hr/leave/holiday-service';
+import {
+  getBankCode,
+  getDeductionReasonCode,
+  STANDARD_SIF_VARIANT,
+  validateWPSHeader,
+  validateWPSRecord,
+  WPSSIFVariant,
+} from './wps';
+import { getUnpaidLeaveDaysInPeriod } from './leave-deduction';
+import { parseDecimal } from './utils';
+import type {
+  WPSEmployeeRecord,
+  WPSFileHeader,
+  WPSSalaryFrequency,
+  WPSValidationIssue,
+  WPSValidationReport,
+} from '@/lib/types/payroll';
+
+export const WPS_SETTINGS_KEY = 'wps_settings';
+
+export interface WpsSettings {
+  employerEid: string;
+  payerEid: string;
+  payerQid?: string | null;
+  payerBankShortName: string;
+  payerIban: string;
+  salaryFrequency: WPSSalaryFrequency;
+  variant?: Partial<Pick<WPSSIFVariant, 'includeFieldNames' | 'nameMaxLength' | 'paymentType' | 'deductionReasonCodes'>>;
+}
+
+export interface WPSRunEntry {
+  payslipId: string;
+  userId: string;
+  record: WPSEmployeeRecord;
+  errors: string[];
+}
+
+export interface WPSRunData {
+  header: Omit<WPSFileHeader, 'totalRecords' | 'totalAmount'>;
+  variant: WPSSIFVariant;
+  entries: WPSRunEntry[];
+  report: WPSValidationReport;
+}
+
+/**
+ * Load the company's WPS settings. Before WPS settings were saved the
+ * employer EID came from the COMPANY_MOL_ID setting, so that is still used
+ * as the fallback for both employer and payer.
+ */
+export async function getWpsSettings(): Promise<WpsSettings> {
+  const [setting, molIdSetting] = await Promise.all([
+    prisma.systemSettings.findUnique({ where: { key: WPS_SETTINGS_KEY } }),
+    prisma.systemSettings.findUnique({ where: { key: 'COMPANY_MOL_ID' } }),
+  ]);
+
+  const fallbackEid = molIdSetting?.value || '';
+  const defaults: WpsSettings = {
+    employerEid: fallbackEid,
+    payerEid: fallbackEid,
+    payerQid: null,
+    payerBankShortName: '',
+    payerIban: '',
+    salaryFrequency: 'M',
+  };
+
+  if (!setting) return defaults;
+
+  try {
+    return { ...defaults, ...JSON.parse(setting.value) };
+  } catch {
+    return defaults;
+  }
+}
+
+/**
+ * Resolve the SIF layout: the standard layout with any admin overrides applied
+ */
+export function resolveWPSVariant(settings: WpsSettings): WPSSIFVariant {
+  if (!settings.variant) return STANDARD_SIF_VARIANT;
+
+  return {
+    ...STANDARD_SIF_VARIANT,
+    ...settings.variant,
+    deductionReasonCodes: {
+      ...STANDARD_SIF_VARIANT.deductionReasonCodes,
+      ...settings.variant.deductionReasonCodes,
+    },
+  };
+}
+
+/**
+ * Build the WPS header and one record per payslip for a payroll run, and
+ * validate every record so problems can be reported before the file is made.
+ */
+export async function buildWPSRunData(payrollRunId: string): Promise<WPSRunData | null> {
+  const payrollRun = await prisma.payrollRun.findUnique({
+    where: { id: payrollRunId },
+    include: {
+      payslips: {
+        include: {
+          user: { select: { name: true } },
+          deductions: { select: { type: true, amount: true } },
+          earnings: { select: { type: true, amount: true, hours: true } },
+        },
+        orderBy: { createdAt: 'asc' },
+      },
+    },
+  });
+
+  if (!payrollRun) return null;
+
+  const settings = await getWpsSettings();
+  const variant = resolveWPSVariant(settings);
+
+  const header: WPSRunData['header'] = {
+    employerEid: settings.employerEid,
+    payerEid: settings.payerEid,
+    payerQid: settings.payerQid || null,
+    payerBankShortName: settings.payerBankShortName,
+    payerIban: settings.payerIban,
+    paymentMonth: payrollRun.month,
+    paymentYear: payrollRun.year,
+    paymentDate: new Date(),
+  };
+
+  const periodStart = new Date(payrollRun.year, payrollRun.month - 1, 1);
+  const periodEnd = new Date(payrollRun.year, payrollRun.month, 0);
+  const daysInMonth = periodEnd.getDate();
+  const calendar = await getWorkingCalendar(periodStart, periodEnd);
+
+  const entries: WPSRunEntry[] = [];
+  for (const payslip of payrollRun.payslips) {
+    const unpaidDays = await getUnpaidLeaveDaysInPeriod(
+      payslip.userId,
+      payrollRun.year,
+      payrollRun.month,
+      calendar
+    );
+
+    // One-off earnings: overtime has its own SIF column, the rest is other income
+    let overtimeEarnings = 0;
+    let overtimeHours = 0;
+    let otherEarnings = 0;
+    for (const earning of payslip.earnings) {
+      if (earning.type === EarningType.OVERTIME) {
+        overtimeEarnings += parseDecimal(earning.amount);
+        overtimeHours += parseDecimal(earning.hours);
+      } else {
+        otherEarnings += parseDecimal(earning.amount);
+      }
+    }
+
+    const record: WPSEmployeeRecord = {
+      qidNumber: payslip.qidNumber || '',
+      employeeName: payslip.user.name || '',
+      bankCode: getBankCode(payslip.bankName, payslip.iban),
+      iban: payslip.iban || '',
+      salaryFrequency: settings.salaryFrequency,
+      workingDays: Math.max(0, Math.round(daysInMonth - unpaidDays)),
+      basicSalary: parseDecimal(payslip.basicSalary),
+      housingAllowance: parseDecimal(payslip.housingAllowance),
+      foodAllowance: parseDecimal(payslip.foodAllowance),
+      transportAllowance: parseDecimal(payslip.transportAllowance),
+      otherAllowances: parseDecimal(payslip.phoneAllowance) + parseDecimal(payslip.otherAllowances) + otherEarnings,
+      overtimeAllowance: overtimeEarnings,
+      extraHours: overtimeHours,
+      totalDeductions: parseDecimal(payslip.totalDeductions),
+      deductionReasonCode: getDeductionReasonCode(
+        payslip.deductions.map(d => ({ type: d.type, amount: parseDecimal(d.amount) })),
+        variant
+      ),
+      netSalary: parseDecimal(payslip.netSalary),
+    };
+
+    entries.push({
+      payslipId: payslip.id,
+      userId: payslip.userId,
+      record,
+      errors: validateWPSRecord(record),
+    });
+  }
+
+  const headerErrors = validateWPSHeader(header);
+  const invalidRecords: WPSValidationIssue[] = entries
+    .filter(entry => entry.errors.length > 0)
+    .map(entry => ({
+      payslipId: entry.payslipId,
+      userId: entry.userId,
+      employeeName: entry.record.employeeName || 'Unknown',
+      errors: entry.errors,
+    }));
+  const validEntries = entries.filter(entry => entry.errors.length === 0);
+
+  return {
+    header,
+    variant,
+    entries,
+    report: {
+      headerErrors,
+      invalidRecords,
+      validCount: validEntries.length,
+      invalidCount: invalidRecords.length,
+      totalAmount: Math.round(validEntries.reduce((sum, e) => sum + e.record.netSalary, 0) * 100) / 100,
+      canGenerate: headerErrors.length === 0 && validEntries.length > 0,
+    },
+  };
+}
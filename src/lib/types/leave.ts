@@ -1,4 +1,10 @@
-import { LeaveStatus, LeaveRequestType, LeaveCategory } from '@prisma/client';
+import {
+  LeaveStatus,
+  LeaveRequestType,
+  LeaveCategory,
+  LeaveConflictEnforcement,
+  LeaveCoverageScope,
+} from '@prisma/client';
 
 // ============ Leave Type ============
 
@@ -47,6 +53,8 @@ export interface LeaveBalance {
   carriedForward: number;
   adjustment: number;
   adjustmentNotes?: string | null;
+  carryForwardExpiresAt?: string | null;
+  carryForwardExpiredAt?: string | null;
   leaveType: {
     id: string;
     name: string;
@@ -68,6 +76,183 @@ export interface LeaveBalanceAdjustment {
   notes?: string;
 }
 
+// ============ Year-End Rollover ============
+
+export interface LeaveRolloverLine {
+  userId: string;
+  userName: string;
+  leaveTypeId: string;
+  leaveTypeName: string;
+  unusedDays: number;
+  maxCarryForwardDays: number;
+  carryForward: number;
+  forfeited: number;
+  expiresAt: string | null;
+}
+
+export interface LeaveRolloverReport {
+  fromYear: number;
+  toYear: number;
+  dryRun: boolean;
+  /** Employees who get next-year balances initialized */
+  usersToInitialize: number;
+  balancesCreated: number;
+  lines: LeaveRolloverLine[];
+  totals: {
+    employees: number;
+    carriedForward: number;
+    forfeited: number;
+  };
+}
+
+export interface LeaveCarryForwardExpiryLine {
+  balanceId: string;
+  userId: string;
+  userName: string;
+  leaveTypeName: string;
+  year: number;
+  carriedForward: number;
+  expiredDays: number;
+  expiresAt: string;
+}
+
+export interface LeaveCarryForwardExpiryReport {
+  asOf: string;
+  dryRun: boolean;
+  lines: LeaveCarryForwardExpiryLine[];
+  totalExpiredDays: number;
+}
+
+// ============ Leave Encashment ============
+
+export interface LeaveEncashment {
+  id: string;
+  requestNumber: string;
+  userId: string;
+  leaveBalanceId: string;
+  days: number;
+  dailyRate: number;
+  amount: number;
+  reason?: string | null;
+  status: LeaveStatus;
+  reviewedAt?: string | null;
+  reviewerNotes?: string | null;
+  cancelledAt?: string | null;
+  createdAt: string;
+  user: {
+    id: string;
+    name: string | null;
+    email: string;
+  };
+  leaveBalance: {
+    year: number;
+    leaveType: {
+      id: string;
+      name: string;
+      color: string;
+    };
+  };
+  reviewedBy?: {
+    id: string;
+    name: string | null;
+  } | null;
+  /** Payslip the encashment was paid on, once a payroll run includes it */
+  payslip?: {
+    id: string;
+    payslipNumber: string;
+  } | null;
+}
+
+export interface LeaveEncashmentPreview {
+  leaveBalanceId: string;
+  leaveTypeName: string;
+  year: number;
+  encashableDays: number;
+  dailyRate: number;
+  days: number;
+  amount: number;
+}
+
+// ============ Leave Coverage ============
+
+export interface LeaveBlackoutPeriod {
+  id: string;
+  name: string;
+  description?: string | null;
+  startDate: string;
+  endDate: string;
+  enforcement: LeaveConflictEnforcement;
+  isActive: boolean;
+  departmentId?: string | null;
+  department?: {
+    id: string;
+    name: string;
+  } | null;
+}
+
+export interface LeaveCoverageRule {
+  id: string;
+  name: string;
+  scope: LeaveCoverageScope;
+  designation?: string | null;
+  maxOnLeave: number;
+  enforcement: LeaveConflictEnforcement;
+  isActive: boolean;
+  departmentId?: string | null;
+  department?: {
+    id: string;
+    name: string;
+  } | null;
+}
+
+export type LeaveConflictType = 'BLACKOUT' | LeaveCoverageScope;
+
+export interface LeaveConflict {
+  type: LeaveConflictType;
+  enforcement: LeaveConflictEnforcement;
+  /** Blackout period or coverage rule that raised the conflict */
+  sourceId: string;
+  message: string;
+  /** Conflicting days (YYYY-MM-DD) */
+  dates: string[];
+  /** Colleagues already on leave on those days */
+  colleagues: string[];
+}
+
+export interface LeaveConflictReport {
+  conflicts: LeaveConflict[];
+  /** At least one conflict blocks the request */
+  blocked: boolean;
+}
+
+export interface LeaveCoverageDay {
+  date: string;
+  isWeekend: boolean;
+  isHoliday: boolean;
+}
+
+export interface LeaveCoverageCell {
+  date: string;
+  onLeave: number;
+  names: string[];
+}
+
+export interface LeaveCoverageRow {
+  departmentId: string | null;
+  departmentName: string;
+  headcount: number;
+  cells: LeaveCoverageCell[];
+}
+
+export interface LeaveCoverageHeatmap {
+  startDate: string;
+  endDate: string;
+  days: LeaveCoverageDay[];
+  rows: LeaveCoverageRow[];
+  /** Blackout periods overlapping the range */
+  blackouts: LeaveBlackoutPeriod[];
+}
+
 // ============ Leave Request ============
 
 export interface LeaveRequest {
@@ -1,4 +1,4 @@
-import { PayrollStatus, LoanStatus, DeductionType } from '@prisma/client';
+import { PayrollStatus, LoanStatus, DeductionType, GratuitySalaryBasis } from '@prisma/client';
 
 // ===== Salary Structure Types =====
 
@@ -174,6 +174,42 @@ export interface PayslipDeduction {
   createdAt: string;
 }
 
+// ===== Payslip PDF Types =====
+
+export interface PayslipPdfLine {
+  label: string;
+  description?: string | null;
+  amount: number;
+}
+
+export interface PayslipPdfData {
+  payslipId: string;
+  payslipNumber: string;
+  year: number;
+  month: number;
+  employeeName: string;
+  employeeId: string | null;
+  designation: string | null;
+  email: string;
+  qidNumber: string | null;
+  bankName: string | null;
+  iban: string | null;
+  earnings: PayslipPdfLine[];
+  deductions: PayslipPdfLine[];
+  grossSalary: number;
+  totalDeductions: number;
+  netSalary: number;
+  paidAt: Date | null;
+}
+
+export interface PayslipEmailResult {
+  payslipId: string;
+  employeeName: string;
+  email: string;
+  sent: boolean;
+  error?: string;
+}
+
 // ===== Loan Types =====
 
 export interface EmployeeLoan {
@@ -233,15 +269,47 @@ export interface LoanRepayment {
 
 // ===== Gratuity Types =====
 
+export interface GratuityRateTier {
+  /** Completed years of service from which the rate applies */
+  fromYear: number;
+  weeksPerYear: number;
+}
+
+export interface GratuityPolicyRules {
+  /** Null for the built-in statutory policy */
+  id: string | null;
+  name: string;
+  salaryBasis: GratuitySalaryBasis;
+  rateTiers: GratuityRateTier[];
+  minServiceMonths: number;
+  excludeUnpaidLeave: boolean;
+}
+
+export interface GratuityTierAmount {
+  fromYear: number;
+  toYear: number | null;
+  weeksPerYear: number;
+  yearsOfService: number;
+  amount: number;
+}
+
 export interface GratuityCalculation {
   basicSalary: number;
+  /** Monthly salary the rate is applied to (basic or gross, per the policy) */
+  salaryAmount: number;
   yearsOfService: number;
   monthsOfService: number;
   daysOfService: number;
+  /** Rate currently being earned */
   weeksPerYear: number;
   gratuityAmount: number;
   dailyRate: number;
   weeklyRate: number;
+  unpaidLeaveDaysExcluded: number;
+  /** False when service is below the policy's minimum */
+  isEligible: boolean;
+  policy: GratuityPolicyRules;
+  tiers: GratuityTierAmount[];
   breakdown: {
     fullYearsAmount: number;
     partialYearAmount: number;
@@ -252,6 +320,145 @@ export interface GratuityProjection {
   years: number;
   date: string;
   amount: number;
+  policyName: string;
+}
+
+// ===== Liability Report Types =====
+
+export interface EmployeeLiability {
+  userId: string;
+  name: string;
+  employeeId: string | null;
+  basicSalary: number;
+  grossSalary: number;
+  monthsOfService: number;
+  gratuityPolicyName: string;
+  gratuityLiability: number;
+  /** Annual leave earned this year plus carry-forward and adjustments, less leave taken */
+  unusedLeaveDays: number;
+  leaveDailyRate: number;
+  leaveLiability: number;
+  totalLiability: number;
+}
+
+export interface LiabilityMovement {
+  userId: string;
+  name: string;
+  employeeId: string | null;
+  current: EmployeeLiability | null;
+  previous: EmployeeLiability | null;
+  gratuityMovement: number;
+  leaveDaysMovement: number;
+  leaveMovement: number;
+  totalMovement: number;
+  /** NEW: not in last month's report; LEFT: not in this month's */
+  change: 'NEW' | 'LEFT' | null;
+}
+
+export interface LiabilityTotals {
+  gratuityLiability: number;
+  leaveLiability: number;
+  totalLiability: number;
+}
+
+export interface LiabilityReport {
+  year: number;
+  month: number;
+  asOf: string;
+  previousYear: number;
+  previousMonth: number;
+  employees: LiabilityMovement[];
+  totals: LiabilityTotals;
+  previousTotals: LiabilityTotals;
+  movement: LiabilityTotals;
+}
+
+// ===== Final Settlement Types =====
+
+export interface SettlementLeaveBalance {
+  leaveTypeName: string;
+  accrualBased: boolean;
+  entitlement: number;
+  used: number;
+  pending: number;
+  carriedForward: number;
+  adjustment: number;
+}
+
+export interface SettlementLeaveLine extends SettlementLeaveBalance {
+  /** Entitlement earned up to the termination date */
+  earnedEntitlement: number;
+  unusedDays: number;
+}
+
+export interface SettlementLoanLine {
+  loanId: string;
+  loanNumber: string;
+  type: string;
+  remainingAmount: number;
+}
+
+export interface SettlementAssetLine {
+  assetId: string;
+  assetTag: string | null;
+  type: string;
+  model: string;
+  valueQAR: number | null;
+  returnRequested: boolean;
+  deductionAmount: number;
+}
+
+export interface SettlementUnpaidLeaveLine {
+  leaveRequestId: string;
+  leaveTypeName: string;
+  totalDays: number;
+  deductionAmount: number;
+  /** Pay tier of sick leave days; absent for unpaid leave */
+  payPercent?: number | null;
+}
+
+export interface FinalSettlementDetails {
+  dateOfJoining: string;
+  finalMonth: {
+    year: number;
+    month: number;
+    workedDays: number;
+    daysInMonth: number;
+    components: {
+      basicSalary: number;
+      housingAllowance: number;
+      transportAllowance: number;
+      foodAllowance: number;
+      phoneAllowance: number;
+      otherAllowances: number;
+    };
+  };
+  gratuity: GratuityCalculation;
+  leaveDailyRate: number;
+  leave: SettlementLeaveLine[];
+  unpaidLeave: SettlementUnpaidLeaveLine[];
+  loans: SettlementLoanLine[];
+  assets: SettlementAssetLine[];
+}
+
+export interface FinalSettlementCalculation {
+  basicSalary: number;
+  grossSalary: number;
+  serviceMonths: number;
+  gratuityAmount: number;
+  leaveEncashmentDays: number;
+  leaveEncashmentAmount: number;
+  workedDays: number;
+  proRataSalary: number;
+  otherEarnings: number;
+  unpaidLeaveDeduction: number;
+  loanDeduction: number;
+  assetDeduction: number;
+  otherDeductions: number;
+  totalEarnings: number;
+  totalDeductions: number;
+  netAmount: number;
+  details: FinalSettlementDetails;
 }
 
 // ===== API Response Types =====
@@ -286,28 +493,58 @@ export interface LoansResponse {
 
 // ===== WPS Types =====
 
+export type WPSSalaryFrequency = 'M' | 'B'; // Monthly / Bi-weekly
+
 export interface WPSEmployeeRecord {
   qidNumber: string;
+  visaId?: string | null; // Only for employees without a QID yet
   employeeName: string;
-  bankCode: string;
+  bankCode: string | null; // Employee bank short name (null when the bank is unknown)
   iban: string;
+  salaryFrequency: WPSSalaryFrequency;
+  workingDays: number;
   basicSalary: number;
   housingAllowance: number;
-  otherAllowances: number;
+  foodAllowance: number;
+  transportAllowance: number;
+  otherAllowances: number; // Phone and other allowances
+  overtimeAllowance: number;
+  extraHours: number;
   totalDeductions: number;
+  deductionReasonCode: string | null; // Required when totalDeductions > 0
   netSalary: number;
+  notes?: string | null;
 }
 
 export interface WPSFileHeader {
-  employerMolId: string;
-  employerName: string;
+  employerEid: string; // Establishment ID (MOL)
+  payerEid: string; // Usually the employer itself
+  payerQid?: string | null; // Only when the payer is an individual
+  payerBankShortName: string;
+  payerIban: string;
   paymentMonth: number;
   paymentYear: number;
-  paymentDate: Date;
+  paymentDate: Date; // File creation date/time
   totalRecords: number;
   totalAmount: number;
 }
 
+export interface WPSValidationIssue {
+  payslipId: string;
+  userId: string;
+  employeeName: string;
+  errors: string[];
+}
+
+export interface WPSValidationReport {
+  headerErrors: string[];
+  invalidRecords: WPSValidationIssue[];
+  validCount: number;
+  invalidCount: number;
+  totalAmount: number; // Net total of valid records
+  canGenerate: boolean;
+}
+
 // ===== Dashboard Stats Types =====
 
 export interface PayrollDashboardStats {
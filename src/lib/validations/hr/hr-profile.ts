@@ -141,6 +141,7 @@ export const hrProfileSchema = z.object({
 
   // Leave settings
   bypassNoticeRequirement: z.boolean().optional(),
+  isCriticalRole: z.boolean().optional(),
 }).passthrough(); // Allow extra fields (like id, userId, workEmail, etc.) to pass through
 
 // Schema for admin update (includes employeeId)
@@ -152,6 +153,24 @@ export const hrProfileEmployeeSchema = hrProfileSchema.omit({ employeeId: true }
 export type HRProfileInput = z.infer<typeof hrProfileSchema>;
 export type HRProfileEmployeeInput = z.infer<typeof hrProfileEmployeeSchema>;
 
+// Fields the profile form passes through that the profile routes never save.
+// Reporting line is managed through /api/users/[id]/reporting-line and
+// contract type / gratuity policy through /api/users/[id]/gratuity-policy
+export const HR_PROFILE_UNSAVED_FIELDS = [
+  'id', 'userId', 'workEmail', 'isAdmin', 'createdAt', 'updatedAt', 'user',
+  'managerId', 'manager', 'departmentId', 'department',
+  'contractType', 'gratuityPolicyId',
+] as const;
+
+// Copy of validated profile data without the fields the routes never save
+export const omitUnsavedHRProfileFields = (data: Record<string, unknown>): Record<string, unknown> => {
+  const processedData = { ...data };
+  HR_PROFILE_UNSAVED_FIELDS.forEach((field) => {
+    delete processedData[field];
+  });
+  return processedData;
+};
+
 // Validation helpers for individual fields
 export const validateQID = (qid: string): boolean => qidRegex.test(qid);
 export const validateQatarMobile = (mobile: string): boolean => qatarMobileRegex.test(mobile);
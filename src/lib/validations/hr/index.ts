@@ -2,3 +2,4 @@
 export * from './hr-profile';
 export * from './leave';
 export * from './payroll';
+export * from './organization';
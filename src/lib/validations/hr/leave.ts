@@ -1,5 +1,11 @@
 import { z } from 'zod';
-import { LeaveStatus, LeaveRequestType, LeaveCategory } from '@prisma/client';
+import {
+  LeaveStatus,
+  LeaveRequestType,
+  LeaveCategory,
+  LeaveConflictEnforcement,
+  LeaveCoverageScope,
+} from '@prisma/client';
 
 // ===== Leave Type Schemas =====
 
@@ -32,6 +38,8 @@ export const createLeaveTypeSchema = z.object({
   minNoticeDays: z.number().int().min(0).default(0),
   allowCarryForward: z.boolean().default(false),
   maxCarryForwardDays: z.number().int().min(0).optional().nullable(),
+  carryForwardExpiryMonths: z.number().int().min(1).max(12).optional().nullable(),
+  allowEncashment: z.boolean().default(false),
   // Qatar Labor Law fields
   minimumServiceMonths: z.number().int().min(0, 'Minimum service months must be 0 or more').default(0),
   isOnceInEmployment: z.boolean().default(false),
@@ -69,6 +77,8 @@ export const createLeaveRequestSchema = z.object({
   emergencyPhone: z.string().max(20, 'Emergency phone is too long').optional().nullable(),
   // Admin can override advance notice requirement
   adminOverrideNotice: z.boolean().optional().default(false),
+  // Admin can override blocking blackout periods and coverage rules
+  adminOverrideConflicts: z.boolean().optional().default(false),
 }).refine(
   (data) => {
     const start = new Date(data.startDate);
@@ -103,6 +113,8 @@ export const updateLeaveRequestSchema = z.object({
   documentUrl: z.string().url('Invalid document URL').optional().nullable(),
   emergencyContact: z.string().max(100, 'Emergency contact name is too long').optional().nullable(),
   emergencyPhone: z.string().max(20, 'Emergency phone is too long').optional().nullable(),
+  // Admin can override blocking blackout periods and coverage rules
+  adminOverrideConflicts: z.boolean().optional().default(false),
 });
 
 // ===== Leave Approval/Rejection/Cancellation Schemas =====
@@ -134,6 +146,168 @@ export const initializeLeaveBalanceSchema = z.object({
   carriedForward: z.number().min(0, 'Carried forward must be 0 or more').optional(),
 });
 
+// ===== Year-End Rollover Schemas =====
+
+export const leaveRolloverSchema = z.object({
+  fromYear: z.number().int().min(2020).max(2100),
+});
+
+export const leaveRolloverQuerySchema = z.object({
+  year: z.coerce.number().int().min(2020).max(2100),
+});
+
+// ===== Leave Encashment Schemas =====
+
+export const createLeaveEncashmentSchema = z.object({
+  leaveBalanceId: z.string().min(1, 'Leave balance is required'),
+  days: z.number()
+    .min(0.5, 'At least half a day is required')
+    .max(365, 'Too many days')
+    .refine(days => Number.isInteger(days * 2), 'Days must be in half-day steps'),
+  reason: z.string().max(500, 'Reason is too long').optional().nullable(),
+});
+
+export const leaveEncashmentPreviewSchema = z.object({
+  leaveBalanceId: z.string().min(1, 'Leave balance is required'),
+  days: z.coerce.number().min(0).max(365).default(0),
+});
+
+export const leaveEncashmentQuerySchema = z.object({
+  status: z.nativeEnum(LeaveStatus).optional(),
+  userId: z.string().optional(),
+  p: z.coerce.number().min(1).default(1),
+  ps: z.coerce.number().min(1).max(100).default(50),
+});
+
+// ===== Public Holiday Schemas =====
+
+export const createPublicHolidaySchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100, 'Name is too long'),
+  description: z.string().max(500, 'Description is too long').optional().nullable(),
+  startDate: z.string().min(1, 'Start date is required'),
+  endDate: z.string().optional().nullable(),
+  isRecurring: z.boolean().default(false),
+  color: z.string().regex(/^#[0-9A-Fa-f]{6}$/, 'Invalid color format').default('#10B981'),
+  isActive: z.boolean().default(true),
+}).refine(
+  (data) => {
+    if (!data.endDate) return true;
+    return new Date(data.startDate) <= new Date(data.endDate);
+  },
+  {
+    message: 'End date must be on or after start date',
+    path: ['endDate'],
+  }
+);
+
+export const updatePublicHolidaySchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100, 'Name is too long').optional(),
+  description: z.string().max(500, 'Description is too long').optional().nullable(),
+  startDate: z.string().min(1).optional(),
+  endDate: z.string().optional().nullable(),
+  isRecurring: z.boolean().optional(),
+  color: z.string().regex(/^#[0-9A-Fa-f]{6}$/, 'Invalid color format').optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const importPublicHolidaysSchema = z.object({
+  content: z.string().min(1, 'ICS content is required').max(1_000_000, 'ICS file is too large'),
+  dryRun: z.boolean().default(false),
+});
+
+export const recalculateLeaveDaysSchema = z.object({
+  startDate: z.string().optional(),
+  endDate: z.string().optional(),
+  dryRun: z.boolean().default(true),
+});
+
+// ===== Leave Coverage Schemas =====
+
+export const createLeaveBlackoutPeriodSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100, 'Name is too long'),
+  description: z.string().max(500, 'Description is too long').optional().nullable(),
+  startDate: z.string().min(1, 'Start date is required'),
+  endDate: z.string().min(1, 'End date is required'),
+  enforcement: z.nativeEnum(LeaveConflictEnforcement).default('BLOCK'),
+  departmentId: z.string().optional().nullable(),
+  isActive: z.boolean().default(true),
+}).refine(
+  (data) => new Date(data.startDate) <= new Date(data.endDate),
+  {
+    message: 'End date must be on or after start date',
+    path: ['endDate'],
+  }
+);
+
+export const updateLeaveBlackoutPeriodSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100, 'Name is too long').optional(),
+  description: z.string().max(500, 'Description is too long').optional().nullable(),
+  startDate: z.string().min(1).optional(),
+  endDate: z.string().min(1).optional(),
+  enforcement: z.nativeEnum(LeaveConflictEnforcement).optional(),
+  departmentId: z.string().optional().nullable(),
+  isActive: z.boolean().optional(),
+});
+
+const leaveCoverageRuleBaseSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100, 'Name is too long'),
+  scope: z.nativeEnum(LeaveCoverageScope),
+  departmentId: z.string().optional().nullable(),
+  designation: z.string().max(100, 'Designation is too long').optional().nullable(),
+  maxOnLeave: z.number().int().min(1, 'At least 1 employee must be allowed on leave').max(1000),
+  enforcement: z.nativeEnum(LeaveConflictEnforcement).default('WARN'),
+  isActive: z.boolean().default(true),
+});
+
+export const createLeaveCoverageRuleSchema = leaveCoverageRuleBaseSchema.refine(
+  (data) => data.scope !== 'DEPARTMENT' || !!data.departmentId,
+  {
+    message: 'Select a department',
+    path: ['departmentId'],
+  }
+).refine(
+  (data) => data.scope !== 'DESIGNATION' || !!data.designation?.trim(),
+  {
+    message: 'Enter a designation',
+    path: ['designation'],
+  }
+);
+
+export const updateLeaveCoverageRuleSchema = leaveCoverageRuleBaseSchema.partial();
+
+// ===== Approval Chain Schemas =====
+
+export const leaveApprovalStepSchema = z.object({
+  name: z.string().min(1, 'Step name is required').max(100, 'Step name is too long'),
+  approverType: z.enum(['ADMIN', 'USER', 'LINE_MANAGER']),
+  approverId: z.string().optional().nullable(),
+  minDays: z.number().min(0, 'Minimum days cannot be negative').max(365).optional().nullable(),
+}).refine(
+  (data) => data.approverType !== 'USER' || !!data.approverId,
+  {
+    message: 'Select an approver for this step',
+    path: ['approverId'],
+  }
+);
+
+export const updateLeaveApprovalChainSchema = z.object({
+  steps: z.array(leaveApprovalStepSchema).max(10, 'A chain can have at most 10 steps'),
+});
+
+export const createApprovalDelegationSchema = z.object({
+  delegatorId: z.string().optional(), // Admin only: set up delegation for another user
+  delegateId: z.string().min(1, 'Delegate is required'),
+  startDate: z.string().min(1, 'Start date is required'),
+  endDate: z.string().min(1, 'End date is required'),
+  reason: z.string().max(500, 'Reason is too long').optional().nullable(),
+}).refine(
+  (data) => new Date(data.startDate) <= new Date(data.endDate),
+  {
+    message: 'End date must be on or after start date',
+    path: ['endDate'],
+  }
+);
+
 // ===== Query Schemas =====
 
 export const leaveRequestQuerySchema = z.object({
@@ -165,6 +339,44 @@ export const teamCalendarQuerySchema = z.object({
   leaveTypeId: z.string().optional(),
 });
 
+export const leaveConflictQuerySchema = z.object({
+  startDate: z.string().min(1, 'Start date is required'),
+  endDate: z.string().min(1, 'End date is required'),
+  userId: z.string().optional(), // Admins and managers checking someone else's dates
+  excludeRequestId: z.string().optional(),
+}).refine(
+  (data) => {
+    const days = (new Date(data.endDate).getTime() - new Date(data.startDate).getTime()) / 86_400_000;
+    return days >= 0 && days <= 365;
+  },
+  {
+    message: 'Date range must be between 1 and 366 days',
+    path: ['endDate'],
+  }
+);
+
+export const leaveCoverageQuerySchema = z.object({
+  startDate: z.string().min(1, 'Start date is required'),
+  endDate: z.string().min(1, 'End date is required'),
+  departmentId: z.string().optional(),
+}).refine(
+  (data) => {
+    const days = (new Date(data.endDate).getTime() - new Date(data.startDate).getTime()) / 86_400_000;
+    return days >= 0 && days <= 92;
+  },
+  {
+    message: 'Date range must be between 1 and 93 days',
+    path: ['endDate'],
+  }
+);
+
+export const publicHolidayQuerySchema = z.object({
+  year: z.coerce.number().int().min(2000).max(2100).optional(),
+  startDate: z.string().optional(),
+  endDate: z.string().optional(),
+  includeInactive: z.enum(['true', 'false']).optional(),
+});
+
 export const leaveTypeQuerySchema = z.object({
   isActive: z.enum(['true', 'false']).optional(),
   includeInactive: z.enum(['true', 'false']).optional(),
@@ -181,7 +393,24 @@ export type RejectLeaveRequestRequest = z.infer<typeof rejectLeaveRequestSchema>
 export type CancelLeaveRequestRequest = z.infer<typeof cancelLeaveRequestSchema>;
 export type UpdateLeaveBalanceRequest = z.infer<typeof updateLeaveBalanceSchema>;
 export type InitializeLeaveBalanceRequest = z.infer<typeof initializeLeaveBalanceSchema>;
+export type LeaveRolloverRequest = z.infer<typeof leaveRolloverSchema>;
+export type CreateLeaveEncashmentRequest = z.infer<typeof createLeaveEncashmentSchema>;
+export type LeaveEncashmentQuery = z.infer<typeof leaveEncashmentQuerySchema>;
 export type LeaveRequestQuery = z.infer<typeof leaveRequestQuerySchema>;
 export type LeaveBalanceQuery = z.infer<typeof leaveBalanceQuerySchema>;
 export type TeamCalendarQuery = z.infer<typeof teamCalendarQuerySchema>;
 export type LeaveTypeQuery = z.infer<typeof leaveTypeQuerySchema>;
+export type CreatePublicHolidayRequest = z.infer<typeof createPublicHolidaySchema>;
+export type UpdatePublicHolidayRequest = z.infer<typeof updatePublicHolidaySchema>;
+export type ImportPublicHolidaysRequest = z.infer<typeof importPublicHolidaysSchema>;
+export type RecalculateLeaveDaysRequest = z.infer<typeof recalculateLeaveDaysSchema>;
+export type PublicHolidayQuery = z.infer<typeof publicHolidayQuerySchema>;
+export type CreateLeaveBlackoutPeriodRequest = z.infer<typeof createLeaveBlackoutPeriodSchema>;
+export type UpdateLeaveBlackoutPeriodRequest = z.infer<typeof updateLeaveBlackoutPeriodSchema>;
+export type CreateLeaveCoverageRuleRequest = z.infer<typeof createLeaveCoverageRuleSchema>;
+export type UpdateLeaveCoverageRuleRequest = z.infer<typeof updateLeaveCoverageRuleSchema>;
+export type LeaveConflictQuery = z.infer<typeof leaveConflictQuerySchema>;
+export type LeaveCoverageQuery = z.infer<typeof leaveCoverageQuerySchema>;
+export type LeaveApprovalStepInput = z.infer<typeof leaveApprovalStepSchema>;
+export type UpdateLeaveApprovalChainRequest = z.infer<typeof updateLeaveApprovalChainSchema>;
+export type CreateApprovalDelegationRequest = z.infer<typeof createApprovalDelegationSchema>;
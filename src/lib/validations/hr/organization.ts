@@ -0,0 +1,32 @@
+import { z } from 'zod';
+
+// ===== Department Schemas =====
+
+export const departmentSchema = z.object({
+  name: z.string().min(1, 'Department name is required').max(100, 'Department name is too long'),
+  code: z.string().max(20, 'Code is too long').optional().nullable(),
+  description: z.string().max(500).optional().nullable(),
+  costCenter: z.string().max(50, 'Cost center is too long').optional().nullable(),
+  parentId: z.string().optional().nullable(),
+  headId: z.string().optional().nullable(),
+  isActive: z.boolean().default(true),
+});
+
+export const updateDepartmentSchema = departmentSchema.partial();
+
+// ===== Reporting Line Schemas =====
+
+export const updateReportingLineSchema = z.object({
+  managerId: z.string().optional().nullable(),
+  departmentId: z.string().optional().nullable(),
+});
+
+export const teamLeaveQuerySchema = z.object({
+  startDate: z.string().min(1, 'Start date is required'),
+  endDate: z.string().min(1, 'End date is required'),
+  includeIndirect: z.enum(['true', 'false']).optional(),
+});
+
+export type DepartmentInput = z.infer<typeof departmentSchema>;
+export type UpdateDepartmentInput = z.infer<typeof updateDepartmentSchema>;
+export type UpdateReportingLineInput = z.infer<typeof updateReportingLineSchema>;
@@ -1,5 +1,15 @@
 import { z } from 'zod';
-import { PayrollStatus, LoanStatus, DeductionType } from '@prisma/client';
+import {
+  PayrollStatus,
+  LoanStatus,
+  DeductionType,
+  EarningType,
+  EarningEntryStatus,
+  FinalSettlementStatus,
+  SeparationReason,
+  ContractType,
+  GratuitySalaryBasis,
+} from '@prisma/client';
 
 // ===== Salary Structure Schemas =====
 
@@ -45,6 +55,31 @@ export const markPaidSchema = z.object({
   notes: z.string().max(500).optional(),
 });
 
+// ===== WPS Schemas =====
+
+export const wpsSettingsSchema = z.object({
+  employerEid: z.string().regex(/^\d+$/, 'Employer EID must be numeric').max(20),
+  payerEid: z.string().regex(/^\d+$/, 'Payer EID must be numeric').max(20),
+  payerQid: z.string().regex(/^\d{11}$/, 'Payer QID must be 11 digits').nullable().optional(),
+  payerBankShortName: z.string().min(1, 'Payer bank is required').max(10),
+  payerIban: z.string().min(1, 'Payer IBAN is required').max(34),
+  salaryFrequency: z.enum(['M', 'B']).default('M'),
+  variant: z.object({
+    includeFieldNames: z.boolean().optional(),
+    nameMaxLength: z.number().int().min(10).max(100).optional(),
+    paymentType: z.string().max(50).optional(),
+    deductionReasonCodes: z.record(z.string(), z.string().min(1).max(10)).optional(),
+  }).optional(),
+});
+
+export const generateWpsSchema = z.object({
+  skipInvalid: z.boolean().default(false),
+});
+
+export const reconcileWpsSchema = z.object({
+  content: z.string().min(1, 'File content is required'),
+});
+
 // ===== Loan Schemas =====
 
 export const createLoanSchema = z.object({
@@ -81,6 +116,143 @@ export const addDeductionSchema = z.object({
   loanId: z.string().optional(),
 });
 
+// ===== Payslip Adjustment Schemas =====
+
+const adjustmentFields = {
+  description: z.string().min(1, 'Description is required').max(200),
+  amount: z.number().min(0.01, 'Amount must be greater than 0'),
+  reason: z.string().min(1, 'Reason is required').max(500),
+};
+
+// Unpaid leave and loan deductions are calculated by the payroll run
+export const payslipAdjustmentSchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('EARNING'),
+    type: z.nativeEnum(EarningType),
+    ...adjustmentFields,
+  }),
+  z.object({
+    kind: z.literal('DEDUCTION'),
+    type: z.enum([DeductionType.ADVANCE_DEDUCTION, DeductionType.OTHER]),
+    ...adjustmentFields,
+  }),
+]);
+
+export const recalculatePayrollSchema = z.object({
+  notes: z.string().max(500).optional(),
+});
+
+// ===== Payslip PDF Schemas =====
+
+export const emailPayslipsSchema = z.object({
+  protectWithQid: z.boolean().default(false),
+  // Resend to selected employees only
+  userIds: z.array(z.string()).min(1).optional(),
+});
+
+export const payslipArchiveQuerySchema = z.object({
+  protectWithQid: z.enum(['true', 'false']).optional().transform(value => value === 'true'),
+});
+
+// ===== Earning Entry Schemas =====
+
+export const createEarningEntrySchema = z.object({
+  userId: z.string().optional(), // Defaults to the submitter
+  type: z.nativeEnum(EarningType),
+  date: z.string().min(1, 'Date is required'),
+  description: z.string().min(1, 'Description is required').max(200),
+  hours: z.number().min(0.25, 'Hours must be at least 0.25').max(24).optional().nullable(),
+  rateMultiplier: z.union([z.literal(1.25), z.literal(1.5)]).optional().nullable(),
+  amount: z.number().min(0.01, 'Amount must be greater than 0').optional().nullable(),
+}).superRefine((data, ctx) => {
+  if (data.type === EarningType.OVERTIME) {
+    if (!data.hours) {
+      ctx.addIssue({ code: 'custom', path: ['hours'], message: 'Overtime hours are required' });
+    }
+    if (!data.rateMultiplier) {
+      ctx.addIssue({ code: 'custom', path: ['rateMultiplier'], message: 'Overtime rate is required' });
+    }
+  } else if (!data.amount) {
+    ctx.addIssue({ code: 'custom', path: ['amount'], message: 'Amount is required' });
+  }
+});
+
+export const reviewEarningEntrySchema = z.object({
+  notes: z.string().max(500).optional(),
+});
+
+export const rejectEarningEntrySchema = z.object({
+  notes: z.string().min(1, 'Rejection reason is required').max(500),
+});
+
+export const earningEntryQuerySchema = z.object({
+  userId: z.string().optional(),
+  status: z.nativeEnum(EarningEntryStatus).optional(),
+  type: z.nativeEnum(EarningType).optional(),
+  p: z.coerce.number().min(1).default(1),
+  ps: z.coerce.number().min(1).max(100).default(50),
+});
+
+// ===== Final Settlement Schemas =====
+
+export const finalSettlementCalculationSchema = z.object({
+  userId: z.string().min(1, 'Employee is required'),
+  terminationDate: z.string().min(1, 'Termination date is required'),
+  // Amount charged per unreturned asset, keyed by asset ID
+  assetDeductions: z.record(z.string(), z.number().min(0)).optional(),
+  otherEarnings: z.number().min(0).optional(),
+  otherDeductions: z.number().min(0).optional(),
+});
+
+export const createFinalSettlementSchema = finalSettlementCalculationSchema.extend({
+  separationReason: z.nativeEnum(SeparationReason),
+  notes: z.string().max(1000).optional(),
+});
+
+export const updateFinalSettlementSchema = createFinalSettlementSchema.omit({ userId: true });
+
+export const finalSettlementQuerySchema = z.object({
+  status: z.nativeEnum(FinalSettlementStatus).optional(),
+  userId: z.string().optional(),
+  p: z.coerce.number().min(1).default(1),
+  ps: z.coerce.number().min(1).max(100).default(20),
+});
+
+// ===== Gratuity Policy Schemas =====
+
+export const gratuityRateTierSchema = z.object({
+  fromYear: z.number().int().min(0, 'Years must be zero or more').max(50),
+  weeksPerYear: z.number().min(0).max(52),
+});
+
+export const gratuityPolicySchema = z.object({
+  name: z.string().min(1, 'Policy name is required').max(100, 'Policy name is too long'),
+  description: z.string().max(500).optional().nullable(),
+  contractType: z.nativeEnum(ContractType).optional().nullable(),
+  isDefault: z.boolean().default(false),
+  salaryBasis: z.nativeEnum(GratuitySalaryBasis).default(GratuitySalaryBasis.BASIC),
+  rateTiers: z.array(gratuityRateTierSchema)
+    .min(1, 'At least one rate is required')
+    .refine(
+      tiers => tiers.some(tier => tier.fromYear === 0),
+      'A rate must start from year 0'
+    )
+    .refine(
+      tiers => new Set(tiers.map(tier => tier.fromYear)).size === tiers.length,
+      'Each rate must start from a different year'
+    ),
+  minServiceMonths: z.number().int().min(0).max(600).default(0),
+  excludeUnpaidLeave: z.boolean().default(false),
+  isActive: z.boolean().default(true),
+});
+
+export const updateGratuityPolicySchema = gratuityPolicySchema.partial();
+
+export const assignGratuityPolicySchema = z.object({
+  contractType: z.nativeEnum(ContractType).optional().nullable(),
+  gratuityPolicyId: z.string().optional().nullable(),
+});
+
 // ===== Query Schemas =====
 
 export const payrollRunQuerySchema = z.object({
@@ -120,6 +292,11 @@ export const gratuityQuerySchema = z.object({
   terminationDate: z.string().optional(),
 });
 
+export const liabilityReportQuerySchema = z.object({
+  year: z.coerce.number().int().min(2020).max(2100),
+  month: z.coerce.number().int().min(1).max(12),
+});
+
 // ===== Type Exports =====
 
 export type CreateSalaryStructureRequest = z.infer<typeof createSalaryStructureSchema>;
@@ -129,12 +306,27 @@ export type SubmitPayrollRequest = z.infer<typeof submitPayrollSchema>;
 export type ApprovePayrollRequest = z.infer<typeof approvePayrollSchema>;
 export type RejectPayrollRequest = z.infer<typeof rejectPayrollSchema>;
 export type MarkPaidRequest = z.infer<typeof markPaidSchema>;
+export type WpsSettingsRequest = z.infer<typeof wpsSettingsSchema>;
+export type GenerateWpsRequest = z.infer<typeof generateWpsSchema>;
+export type ReconcileWpsRequest = z.infer<typeof reconcileWpsSchema>;
 export type CreateLoanRequest = z.infer<typeof createLoanSchema>;
 export type UpdateLoanRequest = z.infer<typeof updateLoanSchema>;
 export type RecordRepaymentRequest = z.infer<typeof recordRepaymentSchema>;
 export type AddDeductionRequest = z.infer<typeof addDeductionSchema>;
+export type PayslipAdjustmentRequest = z.infer<typeof payslipAdjustmentSchema>;
+export type RecalculatePayrollRequest = z.infer<typeof recalculatePayrollSchema>;
+export type EmailPayslipsRequest = z.infer<typeof emailPayslipsSchema>;
+export type CreateEarningEntryRequest = z.infer<typeof createEarningEntrySchema>;
+export type EarningEntryQuery = z.infer<typeof earningEntryQuerySchema>;
+export type FinalSettlementCalculationRequest = z.infer<typeof finalSettlementCalculationSchema>;
+export type CreateFinalSettlementRequest = z.infer<typeof createFinalSettlementSchema>;
+export type UpdateFinalSettlementRequest = z.infer<typeof updateFinalSettlementSchema>;
+export type GratuityPolicyRequest = z.infer<typeof gratuityPolicySchema>;
+export type UpdateGratuityPolicyRequest = z.infer<typeof updateGratuityPolicySchema>;
+export type AssignGratuityPolicyRequest = z.infer<typeof assignGratuityPolicySchema>;
 export type PayrollRunQuery = z.infer<typeof payrollRunQuerySchema>;
 export type PayslipQuery = z.infer<typeof payslipQuerySchema>;
 export type LoanQuery = z.infer<typeof loanQuerySchema>;
 export type SalaryStructureQuery = z.infer<typeof salaryStructureQuerySchema>;
 export type GratuityQuery = z.infer<typeof gratuityQuerySchema>;
+export type LiabilityReportQuery = z.infer<typeof liabilityReportQuerySchema>;
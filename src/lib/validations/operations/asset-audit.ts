@@ -0,0 +1,36 @@
+import { z } from 'zod';
+import { AssetAuditItemStatus } from '@prisma/client';
+import { isValidCategoryCode } from '@/lib/domains/operations/assets/asset-categories';
+
+export const createAssetAuditCampaignSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(255, 'Name is too long'),
+  description: z.string().max(1000, 'Description is too long').optional().nullable(),
+  // Scope: leave both empty to audit every asset that has not been disposed
+  location: z.string().trim().max(200, 'Location is too long').optional().nullable(),
+  categoryCode: z.string().refine(isValidCategoryCode, 'Invalid asset category').optional().nullable(),
+  dueDate: z.coerce.date().optional().nullable(),
+});
+
+export const assetAuditResponseSchema = z.object({
+  status: z.enum([
+    AssetAuditItemStatus.PRESENT,
+    AssetAuditItemStatus.DAMAGED,
+    AssetAuditItemStatus.MISSING,
+    AssetAuditItemStatus.SERIAL_MISMATCH,
+  ]),
+  foundLocation: z.string().trim().max(200, 'Location is too long').optional().nullable(),
+  foundSerial: z.string().trim().max(255, 'Serial number is too long').optional().nullable(),
+  notes: z.string().max(2000, 'Notes are too long').optional().nullable(),
+}).refine(
+  data => data.status !== AssetAuditItemStatus.SERIAL_MISMATCH || !!data.foundSerial,
+  { message: 'Enter the serial number on the asset', path: ['foundSerial'] }
+);
+
+export const applyAssetAuditCorrectionsSchema = z.object({
+  // Apply the findings of these items only (all verified items when omitted)
+  itemIds: z.array(z.string().min(1)).min(1).optional(),
+});
+
+export type CreateAssetAuditCampaignRequest = z.infer<typeof createAssetAuditCampaignSchema>;
+export type AssetAuditResponseRequest = z.infer<typeof assetAuditResponseSchema>;
+export type ApplyAssetAuditCorrectionsRequest = z.infer<typeof applyAssetAuditCorrectionsSchema>;
@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import { AssetDisposalMethod } from '@prisma/client';
+import { allowsDisposalProceeds } from '@/lib/domains/operations/assets/asset-disposal';
+
+export const createAssetDisposalSchema = z.object({
+  method: z.nativeEnum(AssetDisposalMethod),
+  reason: z.string().min(1, 'Reason is required').max(2000, 'Reason is too long'),
+  disposalDate: z.coerce.date(),
+  // Sale price or scrap value in QAR
+  proceeds: z.number().min(0, 'Proceeds cannot be negative').optional().nullable(),
+  recipient: z.string().max(255, 'Recipient is too long').optional().nullable(),
+  dataWipeConfirmed: z.boolean().default(false),
+  dataWipeMethod: z.string().max(255, 'Data wipe method is too long').optional().nullable(),
+}).refine(
+  data => data.method !== AssetDisposalMethod.SOLD || (data.proceeds !== null && data.proceeds !== undefined),
+  { message: 'Enter the sale price', path: ['proceeds'] }
+).refine(
+  data => allowsDisposalProceeds(data.method) || !data.proceeds,
+  { message: 'Only sold or scrapped assets have proceeds', path: ['proceeds'] }
+).refine(
+  data => !data.dataWipeConfirmed || !!data.dataWipeMethod?.trim(),
+  { message: 'Describe how the data was wiped', path: ['dataWipeMethod'] }
+);
+
+export const reviewAssetDisposalSchema = z.object({
+  notes: z.string().max(1000, 'Notes are too long').optional().nullable(),
+});
+
+export const rejectAssetDisposalSchema = z.object({
+  notes: z.string().min(1, 'Rejection reason is required').max(1000, 'Notes are too long'),
+});
+
+export type CreateAssetDisposalRequest = z.infer<typeof createAssetDisposalSchema>;
+export type ReviewAssetDisposalRequest = z.infer<typeof reviewAssetDisposalSchema>;
+export type RejectAssetDisposalRequest = z.infer<typeof rejectAssetDisposalSchema>;
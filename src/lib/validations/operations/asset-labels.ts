@@ -0,0 +1,21 @@
+import { z } from 'zod';
+
+export const assetLabelsSchema = z.object({
+  // Up to ten full A4 sheets of 24 labels
+  assetIds: z.array(z.string().min(1))
+    .min(1, 'Select at least one asset')
+    .max(240, 'At most 240 labels can be printed at once'),
+});
+
+export const assetCheckInSchema = z.object({
+  location: z.string().trim().min(1, 'Location is required').max(200, 'Location is too long'),
+  notes: z.string().max(1000, 'Notes are too long').optional().nullable(),
+});
+
+export const assetCustodyConfirmationSchema = z.object({
+  notes: z.string().max(1000, 'Notes are too long').optional().nullable(),
+});
+
+export type AssetLabelsRequest = z.infer<typeof assetLabelsSchema>;
+export type AssetCheckInRequest = z.infer<typeof assetCheckInSchema>;
+export type AssetCustodyConfirmationRequest = z.infer<typeof assetCustodyConfirmationSchema>;
@@ -83,6 +83,8 @@ const baseAssetSchema = z.object({
   assignmentDate: z.string().optional().nullable().or(z.literal('')),
   notes: z.string().optional().nullable().or(z.literal('')),
   location: z.string().optional().nullable().or(z.literal('')),
+  disposalDate: z.string().optional().nullable().or(z.literal('')),
+  disposalProceeds: z.number().min(0, 'Disposal proceeds cannot be negative').optional().nullable(),
 });
 
 export const updateAssetSchema = baseAssetSchema
@@ -0,0 +1,18 @@
+import { z } from 'zod';
+import { DepreciationMethod } from '@prisma/client';
+import { isValidCategoryCode } from '@/lib/domains/operations/assets/asset-categories';
+
+export const upsertDepreciationPolicySchema = z.object({
+  categoryCode: z.string().refine(isValidCategoryCode, 'Invalid asset category'),
+  method: z.nativeEnum(DepreciationMethod).default(DepreciationMethod.STRAIGHT_LINE),
+  usefulLifeMonths: z.number().int().min(1, 'Useful life must be at least 1 month').max(600, 'Useful life is too long'),
+  salvageValuePercent: z.number().min(0, 'Salvage value cannot be negative').max(100, 'Salvage value cannot exceed cost').default(0),
+});
+
+export const fixedAssetRegisterQuerySchema = z.object({
+  // Month-end to report on, e.g. 2025-06 (defaults to the current month)
+  month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Month must be in YYYY-MM format').optional(),
+});
+
+export type UpsertDepreciationPolicyRequest = z.infer<typeof upsertDepreciationPolicySchema>;
+export type FixedAssetRegisterQuery = z.infer<typeof fixedAssetRegisterQuerySchema>;
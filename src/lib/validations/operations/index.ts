@@ -3,3 +3,8 @@ export * from './assets';
 export * from './asset-request';
 export * from './subscriptions';
 export * from './suppliers';
+export * from './maintenance';
+export * from './depreciation';
+export * from './asset-labels';
+export * from './asset-audit';
+export * from './asset-disposal';
@@ -0,0 +1,60 @@
+import { z } from 'zod';
+import { MaintenanceIntervalUnit } from '@prisma/client';
+
+const maintenancePlanBaseSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(255, 'Name is too long'),
+  description: z.string().max(1000, 'Description is too long').optional().nullable(),
+  assetId: z.string().optional().nullable(),
+  assetType: z.string().max(100, 'Asset type is too long').optional().nullable(),
+  intervalValue: z.number().int().min(1, 'Interval must be at least 1').max(999),
+  intervalUnit: z.nativeEnum(MaintenanceIntervalUnit).default(MaintenanceIntervalUnit.MONTHS),
+  checklist: z.array(z.string().min(1).max(255)).max(50, 'Checklist can have at most 50 items').default([]),
+  vendor: z.string().max(255, 'Vendor name is too long').optional().nullable(),
+  expectedCost: z.number().min(0, 'Expected cost cannot be negative').optional().nullable(),
+  costCurrency: z.string().optional().nullable(),
+  startDate: z.coerce.date(),
+  isActive: z.boolean().default(true),
+});
+
+/** A plan targets exactly one asset or one asset type */
+export function hasSingleMaintenanceTarget(data: { assetId?: string | null; assetType?: string | null }): boolean {
+  return !!data.assetId !== !!data.assetType?.trim();
+}
+
+export const createMaintenancePlanSchema = maintenancePlanBaseSchema.refine(hasSingleMaintenanceTarget, {
+  message: 'Select either an asset or an asset type',
+  path: ['assetId'],
+});
+
+export const updateMaintenancePlanSchema = maintenancePlanBaseSchema.partial();
+
+export const maintenanceTaskQuerySchema = z.object({
+  // Include tasks due up to this many days ahead (overdue tasks are always included)
+  days: z.coerce.number().int().min(0).max(365).default(30),
+  assetId: z.string().optional(),
+});
+
+export const completeMaintenanceTaskSchema = z.object({
+  completedAt: z.coerce.date().optional(),
+  notes: z.string().max(2000, 'Notes are too long').optional().nullable(),
+  checkedItems: z.array(z.string()).default([]),
+  vendor: z.string().max(255, 'Vendor name is too long').optional().nullable(),
+  cost: z.number().min(0, 'Cost cannot be negative').optional().nullable(),
+  costCurrency: z.string().optional().nullable(),
+  // Defaults to the time since the task was started
+  downtimeHours: z.number().min(0, 'Downtime cannot be negative').optional().nullable(),
+  attachments: z.array(z.object({
+    name: z.string().min(1).max(255),
+    url: z.string().min(1),
+  })).max(10, 'At most 10 attachments').default([]),
+});
+
+export const skipMaintenanceTaskSchema = z.object({
+  notes: z.string().max(2000, 'Notes are too long').optional().nullable(),
+});
+
+export type CreateMaintenancePlanRequest = z.infer<typeof createMaintenancePlanSchema>;
+export type UpdateMaintenancePlanRequest = z.infer<typeof updateMaintenancePlanSchema>;
+export type MaintenanceTaskQuery = z.infer<typeof maintenanceTaskQuerySchema>;
+export type CompleteMaintenanceTaskRequest = z.infer<typeof completeMaintenanceTaskSchema>;
+export type SkipMaintenanceTaskRequest = z.infer<typeof skipMaintenanceTaskSchema>;
@@ -0,0 +1,15 @@
+import { z } from 'zod';
+import { BudgetEnforcement } from './project';
+
+// Schema for setting the operating-cost budget of a year
+export const createOperatingBudgetSchema = z.object({
+  year: z.number().int().min(2000).max(2100),
+  amountQAR: z.number().min(0, 'Budget cannot be negative'),
+  enforcement: BudgetEnforcement.default('WARN'),
+  notes: z.string().max(500).optional().nullable(),
+});
+
+export const updateOperatingBudgetSchema = createOperatingBudgetSchema.omit({ year: true }).partial();
+
+export type CreateOperatingBudgetInput = z.infer<typeof createOperatingBudgetSchema>;
+export type UpdateOperatingBudgetInput = z.infer<typeof updateOperatingBudgetSchema>;
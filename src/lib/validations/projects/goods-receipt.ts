@@ -0,0 +1,51 @@
+import { z } from 'zod';
+import { BillingCycle, GoodsReceiptTarget } from '@prisma/client';
+import { isValidCategoryCode } from '@/lib/domains/operations/assets/asset-categories';
+
+// One request item received: how many units arrived and what to create from them
+const goodsReceiptLineSchema = z.object({
+  itemId: z.string().min(1),
+  quantity: z.number().int().min(1, 'Quantity received must be at least 1'),
+  target: z.nativeEnum(GoodsReceiptTarget),
+
+  // Assets (one per unit)
+  assetCategory: z.string().optional().nullable(),
+  assetType: z.string().max(100).optional().nullable(),
+  brand: z.string().max(100).optional().nullable(),
+  model: z.string().max(200).optional().nullable(),
+  serials: z.array(z.string().max(100)).optional(),
+  warrantyExpiry: z.coerce.date().optional().nullable(),
+  location: z.string().max(200).optional().nullable(),
+
+  // Subscriptions (one per unit)
+  serviceName: z.string().max(200).optional().nullable(),
+  billingCycle: z.nativeEnum(BillingCycle).optional(),
+  costPerCycle: z.number().min(0).optional().nullable(),
+  renewalDate: z.coerce.date().optional().nullable(),
+}).superRefine((line, ctx) => {
+  if (line.target === GoodsReceiptTarget.ASSET) {
+    if (!line.assetCategory || !isValidCategoryCode(line.assetCategory)) {
+      ctx.addIssue({ code: 'custom', message: 'Please select a valid asset category', path: ['assetCategory'] });
+    }
+    if (!line.assetType?.trim()) {
+      ctx.addIssue({ code: 'custom', message: 'Asset type is required', path: ['assetType'] });
+    }
+    if (line.serials && line.serials.length > line.quantity) {
+      ctx.addIssue({ code: 'custom', message: 'More serial numbers than units received', path: ['serials'] });
+    }
+  }
+});
+
+// Schema for recording goods received against an approved purchase request
+export const createGoodsReceiptSchema = z.object({
+  receivedDate: z.coerce.date(),
+  invoiceNumber: z.string().max(100).optional().nullable(),
+  notes: z.string().max(2000).optional().nullable(),
+  lines: z.array(goodsReceiptLineSchema).min(1, 'Select at least one item received'),
+}).refine(data => new Set(data.lines.map(line => line.itemId)).size === data.lines.length, {
+  message: 'Each item can only appear once per receipt',
+  path: ['lines'],
+});
+
+export type GoodsReceiptLineInput = z.infer<typeof goodsReceiptLineSchema>;
+export type CreateGoodsReceiptInput = z.infer<typeof createGoodsReceiptSchema>;
@@ -2,3 +2,7 @@
 export * from './projects';
 export * from './purchase-request';
 export * from './project';
+export * from './budget';
+export * from './purchase-order';
+export * from './goods-receipt';
+export * from './supplier-invoice';
@@ -14,6 +14,8 @@ export const ProjectStatus = z.enum([
 
 export const ClientType = z.enum(['INTERNAL', 'EXTERNAL', 'SUPPLIER']);
 
+export const BudgetEnforcement = z.enum(['WARN', 'BLOCK']);
+
 // ─────────────────────────────────────────────────────────────────
 // PROJECT SCHEMAS
 // ─────────────────────────────────────────────────────────────────
@@ -37,6 +39,10 @@ export const projectCreateSchema = z.object({
   // Ownership
   managerId: z.string().cuid('Invalid manager ID'),
   documentHandler: z.string().max(255).optional().nullable(),
+
+  // Budget
+  budgetAmountQAR: z.number().min(0, 'Budget cannot be negative').optional().nullable(),
+  budgetEnforcement: BudgetEnforcement.optional(),
 }).refine(
   (data) => {
     if (data.startDate && data.endDate) {
@@ -0,0 +1,32 @@
+import { z } from 'zod';
+
+// Schema for issuing a purchase order for some of an approved request's items
+export const createPurchaseOrderSchema = z.object({
+  supplierId: z.string().min(1, 'Supplier is required'),
+  itemIds: z.array(z.string().min(1)).min(1, 'Select at least one item'),
+  deliveryAddress: z.string().min(1, 'Delivery address is required').max(500),
+  expectedDeliveryDate: z.coerce.date().optional().nullable(),
+  paymentTerms: z.string().max(500).optional().nullable(),
+  deliveryTerms: z.string().max(500).optional().nullable(),
+  notes: z.string().max(2000).optional().nullable(),
+});
+
+// Schema for closing or cancelling a purchase order
+export const updatePurchaseOrderStatusSchema = z.discriminatedUnion('status', [
+  z.object({
+    status: z.literal('CLOSED'),
+  }),
+  z.object({
+    status: z.literal('CANCELLED'),
+    reason: z.string().min(1, 'Cancellation reason is required').max(1000),
+  }),
+]);
+
+export const purchaseOrderQuerySchema = z.object({
+  status: z.enum(['ISSUED', 'PARTIALLY_RECEIVED', 'RECEIVED', 'CLOSED', 'CANCELLED']).optional(),
+  supplierId: z.string().optional(),
+});
+
+export type CreatePurchaseOrderInput = z.infer<typeof createPurchaseOrderSchema>;
+export type UpdatePurchaseOrderStatusInput = z.infer<typeof updatePurchaseOrderStatusSchema>;
+export type PurchaseOrderQuery = z.infer<typeof purchaseOrderQuerySchema>;
@@ -51,6 +51,7 @@ export const createPurchaseRequestSchema = z.object({
   // New fields from prototype
   purchaseType: purchaseTypeEnum.default('OTHER'),
   costType: costTypeEnum.default('OPERATING_COST'),
+  projectId: z.string().cuid().optional().nullable(),
   projectName: z.string().optional().nullable(),
   paymentMode: paymentModeEnum.default('BANK_TRANSFER'),
   currency: z.string().min(1).max(5).default('QAR'), // Form-level currency
@@ -67,9 +68,9 @@ export const createPurchaseRequestSchema = z.object({
   items: z.array(purchaseRequestItemSchema).min(1, 'At least one item is required'),
 }).refine(
   (data) => {
-    // If costType is PROJECT_COST, projectName should be provided
+    // If costType is PROJECT_COST, a project should be selected or named
     if (data.costType === 'PROJECT_COST') {
-      return data.projectName && data.projectName.trim().length > 0;
+      return !!data.projectId || (!!data.projectName && data.projectName.trim().length > 0);
     }
     return true;
   },
@@ -90,6 +91,7 @@ export const updatePurchaseRequestSchema = z.object({
   // New fields from prototype
   purchaseType: purchaseTypeEnum.optional(),
   costType: costTypeEnum.optional(),
+  projectId: z.string().cuid().optional().nullable(),
   projectName: z.string().optional().nullable(),
   paymentMode: paymentModeEnum.optional(),
   currency: z.string().min(1).max(5).optional(), // Form-level currency
@@ -111,6 +113,8 @@ export const updatePurchaseRequestStatusSchema = z.object({
   status: z.enum(['PENDING', 'UNDER_REVIEW', 'APPROVED', 'REJECTED', 'COMPLETED']),
   reviewNotes: z.string().optional().nullable(),
   completionNotes: z.string().optional().nullable(),
+  // Approve even though the request takes spend over a budget set to warn
+  acknowledgeOverBudget: z.boolean().optional(),
 });
 
 // Schema for adding a single item to an existing request
@@ -132,6 +136,44 @@ export const updatePurchaseRequestItemSchema = z.object({
   productUrl: z.string().url('Invalid URL format').optional().nullable().or(z.literal('')),
 });
 
+// Schema for an approval step of the current chain step's approver
+export const approvePurchaseRequestSchema = z.object({
+  notes: z.string().max(500, 'Notes are too long').optional().nullable(),
+  // Approve even though the request takes spend over a budget set to warn
+  acknowledgeOverBudget: z.boolean().optional(),
+});
+
+export const rejectPurchaseRequestSchema = z.object({
+  reason: z.string().min(1, 'Rejection reason is required').max(500, 'Reason is too long'),
+});
+
+// ===== Approval Matrix Schemas =====
+
+export const purchaseApprovalStepSchema = z.object({
+  name: z.string().min(1, 'Step name is required').max(100, 'Step name is too long'),
+  approverType: z.enum(['ADMIN', 'USER', 'LINE_MANAGER', 'DEPARTMENT_HEAD']),
+  approverId: z.string().optional().nullable(),
+}).refine(
+  (data) => data.approverType !== 'USER' || !!data.approverId,
+  {
+    message: 'Select an approver for this step',
+    path: ['approverId'],
+  }
+);
+
+export const purchaseApprovalRuleSchema = z.object({
+  name: z.string().min(1, 'Rule name is required').max(100, 'Rule name is too long'),
+  minAmountQAR: z.number().min(0, 'Minimum amount cannot be negative').optional().nullable(),
+  purchaseTypes: z.array(purchaseTypeEnum).default([]),
+  steps: z.array(purchaseApprovalStepSchema)
+    .min(1, 'A rule needs at least one approval step')
+    .max(10, 'A rule can have at most 10 steps'),
+});
+
+export const updatePurchaseApprovalMatrixSchema = z.object({
+  rules: z.array(purchaseApprovalRuleSchema).max(20, 'The matrix can have at most 20 rules'),
+});
+
 // Type exports
 export type CreatePurchaseRequestInput = z.infer<typeof createPurchaseRequestSchema>;
 export type UpdatePurchaseRequestInput = z.infer<typeof updatePurchaseRequestSchema>;
@@ -141,3 +183,7 @@ export type PurchaseType = z.infer<typeof purchaseTypeEnum>;
 export type CostType = z.infer<typeof costTypeEnum>;
 export type PaymentMode = z.infer<typeof paymentModeEnum>;
 export type BillingCycle = z.infer<typeof billingCycleEnum>;
+export type ApprovePurchaseRequestInput = z.infer<typeof approvePurchaseRequestSchema>;
+export type RejectPurchaseRequestInput = z.infer<typeof rejectPurchaseRequestSchema>;
+export type PurchaseApprovalRuleInput = z.infer<typeof purchaseApprovalRuleSchema>;
+export type UpdatePurchaseApprovalMatrixInput = z.infer<typeof updatePurchaseApprovalMatrixSchema>;
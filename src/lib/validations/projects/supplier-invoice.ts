@@ -0,0 +1,66 @@
+import { z } from 'zod';
+
+// One invoice line, amounts excluding VAT. Lines without an item are charges
+// not on the request (e.g. freight).
+const supplierInvoiceLineSchema = z.object({
+  itemId: z.string().min(1).optional().nullable(),
+  description: z.string().min(1, 'Description is required').max(500),
+  quantity: z.number().int().min(1, 'Quantity must be at least 1'),
+  unitPrice: z.number().min(0, 'Unit price cannot be negative'),
+});
+
+// Schema for capturing a supplier's invoice against a purchase request
+export const createSupplierInvoiceSchema = z.object({
+  supplierId: z.string().min(1, 'Supplier is required'),
+  purchaseOrderId: z.string().optional().nullable(),
+  goodsReceiptIds: z.array(z.string().min(1)).default([]),
+  invoiceNumber: z.string().trim().min(1, 'Invoice number is required').max(100),
+  invoiceDate: z.coerce.date(),
+  dueDate: z.coerce.date(),
+  currency: z.string().min(1).max(5).default('QAR'),
+  attachmentUrl: z.string().max(1000).optional().nullable(),
+  notes: z.string().max(2000).optional().nullable(),
+  lines: z.array(supplierInvoiceLineSchema).min(1, 'Add at least one invoice line'),
+}).refine(data => data.dueDate >= data.invoiceDate, {
+  message: 'Due date cannot be before the invoice date',
+  path: ['dueDate'],
+}).refine(data => {
+  const itemIds = data.lines.flatMap(line => (line.itemId ? [line.itemId] : []));
+  return new Set(itemIds).size === itemIds.length;
+}, {
+  message: 'Each item can only appear once per invoice',
+  path: ['lines'],
+});
+
+// Schema for approving, paying or cancelling a supplier invoice
+export const updateSupplierInvoiceStatusSchema = z.discriminatedUnion('status', [
+  z.object({
+    status: z.literal('APPROVED'),
+    acknowledgeVariance: z.boolean().optional(),
+  }),
+  z.object({
+    status: z.literal('PAID'),
+    paidAt: z.coerce.date(),
+    paymentReference: z.string().max(100).optional().nullable(),
+  }),
+  z.object({
+    status: z.literal('CANCELLED'),
+    reason: z.string().min(1, 'Cancellation reason is required').max(1000),
+  }),
+]);
+
+export const supplierInvoiceQuerySchema = z.object({
+  status: z.enum(['PENDING', 'APPROVED', 'PAID', 'CANCELLED']).optional(),
+  supplierId: z.string().optional(),
+  purchaseRequestId: z.string().optional(),
+});
+
+// Schema for the three-way match tolerance setting
+export const invoiceMatchToleranceSchema = z.object({
+  tolerancePercent: z.number().min(0, 'Tolerance cannot be negative').max(100, 'Tolerance cannot exceed 100%'),
+});
+
+export type SupplierInvoiceLineInput = z.infer<typeof supplierInvoiceLineSchema>;
+export type CreateSupplierInvoiceInput = z.infer<typeof createSupplierInvoiceSchema>;
+export type UpdateSupplierInvoiceStatusInput = z.infer<typeof updateSupplierInvoiceStatusSchema>;
+export type SupplierInvoiceQuery = z.infer<typeof supplierInvoiceQuerySchema>;
@@ -0,0 +1,135 @@
+/**
+ * Tests for Asset Audit Findings
+ * @see src/lib/domains/operations/assets/asset-audit.ts
+ */
+
+import { AssetAuditItemStatus, AssetStatus } from '@prisma/client';
+import {
+  getAuditCorrection,
+  getAuditDiscrepancies,
+  summarizeAuditItems,
+  type AuditItemFindings,
+} from '@/lib/domains/operations/assets/asset-audit';
+
+function item(overrides: Partial<AuditItemFindings> = {}): AuditItemFindings {
+  return {
+    status: AssetAuditItemStatus.PRESENT,
+    expectedLocation: 'Doha Office',
+    expectedSerial: 'SN-100',
+    foundLocation: null,
+    foundSerial: null,
+    ...overrides,
+  };
+}
+
+describe('Asset Audit Findings', () => {
+  describe('getAuditDiscrepancies', () => {
+    it('flags unverified items', () => {
+      expect(getAuditDiscrepancies(item({ status: AssetAuditItemStatus.PENDING }))).toEqual(['NOT_VERIFIED']);
+    });
+
+    it('finds nothing when the asset is present as recorded', () => {
+      expect(getAuditDiscrepancies(item())).toEqual([]);
+      expect(getAuditDiscrepancies(item({ foundLocation: ' doha office ', foundSerial: 'sn-100' }))).toEqual([]);
+    });
+
+    it('reports damaged and missing assets', () => {
+      expect(getAuditDiscrepancies(item({ status: AssetAuditItemStatus.DAMAGED }))).toEqual(['DAMAGED']);
+      expect(getAuditDiscrepancies(item({ status: AssetAuditItemStatus.MISSING }))).toEqual(['MISSING']);
+    });
+
+    it('ignores a found location on missing assets', () => {
+      expect(getAuditDiscrepancies(item({
+        status: AssetAuditItemStatus.MISSING,
+        foundLocation: 'Warehouse',
+      }))).toEqual(['MISSING']);
+    });
+
+    it('reports serial and location mismatches', () => {
+      expect(getAuditDiscrepancies(item({
+        status: AssetAuditItemStatus.SERIAL_MISMATCH,
+        foundSerial: 'SN-200',
+        foundLocation: 'Warehouse',
+      }))).toEqual(['SERIAL_MISMATCH', 'LOCATION_MISMATCH']);
+    });
+
+    it('counts a different serial entered with any status', () => {
+      expect(getAuditDiscrepancies(item({
+        status: AssetAuditItemStatus.DAMAGED,
+        foundSerial: 'SN-200',
+      }))).toEqual(['DAMAGED', 'SERIAL_MISMATCH']);
+    });
+  });
+
+  describe('getAuditCorrection', () => {
+    it('returns null when there is nothing to change', () => {
+      expect(getAuditCorrection(item(), AssetStatus.IN_USE, 'BCE-AU-25-001')).toBeNull();
+      expect(getAuditCorrection(item({ status: AssetAuditItemStatus.PENDING }), AssetStatus.IN_USE, 'BCE-AU-25-001')).toBeNull();
+    });
+
+    it('moves the asset to the found location and serial', () => {
+      expect(getAuditCorrection(item({
+        status: AssetAuditItemStatus.SERIAL_MISMATCH,
+        foundSerial: ' SN-200 ',
+        foundLocation: 'Warehouse',
+      }), AssetStatus.SPARE, 'BCE-AU-25-001')).toEqual({
+        location: 'Warehouse',
+        serial: 'SN-200',
+        notes: [],
+      });
+    });
+
+    it('notes a serial mismatch without the serial found', () => {
+      expect(getAuditCorrection(
+        item({ status: AssetAuditItemStatus.SERIAL_MISMATCH }),
+        AssetStatus.IN_USE,
+        'BCE-AU-25-001'
+      )).toEqual({ notes: ['Serial number did not match in audit BCE-AU-25-001'] });
+    });
+
+    it('sends damaged assets to repair', () => {
+      expect(getAuditCorrection(item({ status: AssetAuditItemStatus.DAMAGED }), AssetStatus.IN_USE, 'BCE-AU-25-001'))
+        .toEqual({ status: AssetStatus.REPAIR, notes: [] });
+    });
+
+    it('only notes damage on assets already in repair', () => {
+      expect(getAuditCorrection(item({ status: AssetAuditItemStatus.DAMAGED }), AssetStatus.REPAIR, 'BCE-AU-25-001'))
+        .toEqual({ notes: ['Reported damaged in audit BCE-AU-25-001'] });
+    });
+
+    it('only notes missing assets', () => {
+      expect(getAuditCorrection(item({ status: AssetAuditItemStatus.MISSING }), AssetStatus.IN_USE, 'BCE-AU-25-001'))
+        .toEqual({ notes: ['Reported missing in audit BCE-AU-25-001'] });
+    });
+  });
+
+  describe('summarizeAuditItems', () => {
+    it('counts findings and discrepancies', () => {
+      const progress = summarizeAuditItems([
+        item(),
+        item({ foundLocation: 'Warehouse' }),
+        item({ status: AssetAuditItemStatus.DAMAGED }),
+        item({ status: AssetAuditItemStatus.MISSING }),
+        item({ status: AssetAuditItemStatus.SERIAL_MISMATCH, foundSerial: 'SN-200' }),
+        item({ status: AssetAuditItemStatus.PENDING }),
+        item({ status: AssetAuditItemStatus.PENDING }),
+      ]);
+
+      expect(progress).toEqual({
+        total: 7,
+        verified: 5,
+        pending: 2,
+        present: 2,
+        damaged: 1,
+        missing: 1,
+        serialMismatch: 1,
+        discrepancies: 6,
+        percentComplete: 71,
+      });
+    });
+
+    it('handles a campaign with no items', () => {
+      expect(summarizeAuditItems([]).percentComplete).toBe(0);
+    });
+  });
+});
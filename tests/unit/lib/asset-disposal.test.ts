@@ -0,0 +1,133 @@
+/**
+ * Tests for Asset Disposal
+ * @see src/lib/domains/operations/assets/asset-disposal.ts
+ * @see src/lib/domains/operations/assets/asset-disposal-certificate.ts
+ * @jest-environment node
+ */
+
+import { AssetDisposalMethod } from '@prisma/client';
+import {
+  allowsDisposalProceeds,
+  needsDataWipeConfirmation,
+  requiresDataWipe,
+} from '@/lib/domains/operations/assets/asset-disposal';
+import {
+  describeDataWipe,
+  DisposalCertificateData,
+  generateDisposalCertificatePdf,
+  getDisposalCertificateFilename,
+} from '@/lib/domains/operations/assets/asset-disposal-certificate';
+
+const laptop = { assetCategory: 'CP', type: 'Laptop' };
+const chair = { assetCategory: 'OF', type: 'Chair' };
+
+function certificate(overrides: Partial<DisposalCertificateData> = {}): DisposalCertificateData {
+  return {
+    disposalNumber: 'BCE-DS-25001',
+    asset: {
+      assetTag: 'BCE-CP-25001',
+      description: 'Dell Latitude 5440',
+      type: 'Laptop',
+      category: 'CP - Computing',
+      serial: 'SN-123',
+      purchaseDate: new Date('2022-01-01'),
+      cost: 5000,
+    },
+    method: AssetDisposalMethod.SOLD,
+    reason: 'End of life',
+    disposalDate: new Date('2025-06-30'),
+    recipient: 'Doha Traders',
+    proceeds: 800,
+    bookValueAtDisposal: 1250,
+    gainLoss: -450,
+    dataWipe: { required: true, confirmed: true, method: 'DBAN 3-pass' },
+    requestedBy: 'Sara Admin',
+    requestedAt: new Date('2025-06-25'),
+    approvedBy: 'Omar Admin',
+    approvedAt: new Date('2025-06-28'),
+    ...overrides,
+  };
+}
+
+describe('Asset Disposal', () => {
+  describe('requiresDataWipe', () => {
+    it('requires a wipe for computing, mobile, storage and network categories', () => {
+      expect(requiresDataWipe(laptop)).toBe(true);
+      expect(requiresDataWipe({ assetCategory: 'MO', type: 'Phone' })).toBe(true);
+      expect(requiresDataWipe({ assetCategory: 'ST', type: 'NAS' })).toBe(true);
+      expect(requiresDataWipe({ assetCategory: 'NW', type: 'Router' })).toBe(true);
+    });
+
+    it('does not require a wipe for other categories', () => {
+      expect(requiresDataWipe(chair)).toBe(false);
+    });
+
+    it('falls back to the category suggested by the type', () => {
+      expect(requiresDataWipe({ assetCategory: null, type: 'Laptop' })).toBe(true);
+      expect(requiresDataWipe({ assetCategory: null, type: 'Chair' })).toBe(false);
+    });
+
+    it('prefers the assigned category over the type', () => {
+      expect(requiresDataWipe({ assetCategory: 'OF', type: 'Laptop' })).toBe(false);
+    });
+  });
+
+  describe('needsDataWipeConfirmation', () => {
+    it('requires confirmation when a data-holding asset leaves the company', () => {
+      expect(needsDataWipeConfirmation(laptop, AssetDisposalMethod.SOLD)).toBe(true);
+      expect(needsDataWipeConfirmation(laptop, AssetDisposalMethod.SCRAPPED)).toBe(true);
+      expect(needsDataWipeConfirmation(laptop, AssetDisposalMethod.DONATED)).toBe(true);
+    });
+
+    it('exempts lost or stolen assets', () => {
+      expect(needsDataWipeConfirmation(laptop, AssetDisposalMethod.LOST_STOLEN)).toBe(false);
+    });
+
+    it('does not require confirmation for assets without data', () => {
+      expect(needsDataWipeConfirmation(chair, AssetDisposalMethod.SOLD)).toBe(false);
+    });
+  });
+
+  describe('allowsDisposalProceeds', () => {
+    it('allows proceeds for sold and scrapped assets only', () => {
+      expect(allowsDisposalProceeds(AssetDisposalMethod.SOLD)).toBe(true);
+      expect(allowsDisposalProceeds(AssetDisposalMethod.SCRAPPED)).toBe(true);
+      expect(allowsDisposalProceeds(AssetDisposalMethod.DONATED)).toBe(false);
+      expect(allowsDisposalProceeds(AssetDisposalMethod.LOST_STOLEN)).toBe(false);
+    });
+  });
+
+  describe('describeDataWipe', () => {
+    it('includes the wipe method when confirmed', () => {
+      expect(describeDataWipe(certificate())).toBe('Confirmed - DBAN 3-pass');
+    });
+
+    it('notes that lost or stolen devices could not be wiped', () => {
+      expect(describeDataWipe(certificate({
+        method: AssetDisposalMethod.LOST_STOLEN,
+        dataWipe: { required: true, confirmed: false, method: null },
+      }))).toBe('Not possible (asset lost or stolen)');
+    });
+
+    it('is not applicable for assets without data', () => {
+      expect(describeDataWipe(certificate({
+        dataWipe: { required: false, confirmed: false, method: null },
+      }))).toBe('Not applicable');
+    });
+  });
+
+  describe('generateDisposalCertificatePdf', () => {
+    it('renders a PDF document', () => {
+      const pdf = generateDisposalCertificatePdf(certificate(), {
+        companyName: 'Be Creative',
+        primaryColor: '#0F766E',
+      });
+
+      expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+    });
+
+    it('names the file after the disposal number', () => {
+      expect(getDisposalCertificateFilename('BCE-DS-25001')).toBe('Disposal-Certificate-BCE-DS-25001.pdf');
+    });
+  });
+});
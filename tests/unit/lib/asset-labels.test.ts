@@ -0,0 +1,111 @@
+/**
+ * Tests for Asset Labels and Scanning
+ * @see src/lib/domains/operations/assets/asset-labels.ts
+ * @see src/lib/domains/operations/assets/asset-scan.ts
+ * @jest-environment node
+ */
+
+import {
+  generateAssetLabelsPdf,
+  getLabelPosition,
+  LABEL_SHEET,
+} from '@/lib/domains/operations/assets/asset-labels';
+import { getAssetScanUrl, parseAssetScanValue } from '@/lib/domains/operations/assets/asset-scan';
+
+describe('Asset Labels', () => {
+  describe('getAssetScanUrl', () => {
+    it('points at the scan route for the tag', () => {
+      expect(getAssetScanUrl('BCE-CP-25001', 'https://portal.becreative.qa')).toBe(
+        'https://portal.becreative.qa/scan/BCE-CP-25001'
+      );
+    });
+
+    it('ignores trailing slashes on the base URL', () => {
+      expect(getAssetScanUrl('BCE-CP-25001', 'https://portal.becreative.qa/')).toBe(
+        'https://portal.becreative.qa/scan/BCE-CP-25001'
+      );
+    });
+
+    it('encodes unusual characters in the tag', () => {
+      expect(getAssetScanUrl('OLD TAG/1', 'http://localhost:3000')).toBe(
+        'http://localhost:3000/scan/OLD%20TAG%2F1'
+      );
+    });
+  });
+
+  describe('parseAssetScanValue', () => {
+    it('reads the tag from a label URL', () => {
+      expect(parseAssetScanValue('https://portal.becreative.qa/scan/BCE-CP-25001')).toBe('BCE-CP-25001');
+    });
+
+    it('accepts label URLs from another host', () => {
+      expect(parseAssetScanValue('http://localhost:3000/scan/BCE-MO-24012/')).toBe('BCE-MO-24012');
+    });
+
+    it('round-trips encoded tags', () => {
+      expect(parseAssetScanValue(getAssetScanUrl('OLD TAG/1', 'http://localhost:3000'))).toBe('OLD TAG/1');
+    });
+
+    it('accepts a bare tag from a barcode', () => {
+      expect(parseAssetScanValue('  BCE-CP-25001\n')).toBe('BCE-CP-25001');
+    });
+
+    it('rejects values that are not asset labels', () => {
+      expect(parseAssetScanValue('')).toBeNull();
+      expect(parseAssetScanValue('https://example.com/products/123')).toBeNull();
+      expect(parseAssetScanValue('WIFI:S:office;T:WPA;P:secret;;')).toBeNull();
+    });
+  });
+
+  describe('getLabelPosition', () => {
+    it('fills the sheet row by row', () => {
+      expect(getLabelPosition(0)).toEqual({ page: 0, x: LABEL_SHEET.marginLeft, y: LABEL_SHEET.marginTop });
+      expect(getLabelPosition(1)).toEqual({
+        page: 0,
+        x: LABEL_SHEET.marginLeft + LABEL_SHEET.labelWidth + LABEL_SHEET.columnGap,
+        y: LABEL_SHEET.marginTop,
+      });
+      expect(getLabelPosition(3)).toEqual({
+        page: 0,
+        x: LABEL_SHEET.marginLeft,
+        y: LABEL_SHEET.marginTop + LABEL_SHEET.labelHeight,
+      });
+    });
+
+    it('starts a new page after a full sheet', () => {
+      expect(getLabelPosition(23).page).toBe(0);
+      expect(getLabelPosition(24)).toEqual({ page: 1, x: LABEL_SHEET.marginLeft, y: LABEL_SHEET.marginTop });
+    });
+
+    it('keeps every label on an A4 page', () => {
+      for (let index = 0; index < 24; index++) {
+        const { x, y } = getLabelPosition(index);
+        expect(x + LABEL_SHEET.labelWidth).toBeLessThanOrEqual(210);
+        expect(y + LABEL_SHEET.labelHeight).toBeLessThanOrEqual(297);
+      }
+    });
+  });
+
+  describe('generateAssetLabelsPdf', () => {
+    const options = { baseUrl: 'https://portal.becreative.qa', companyName: 'Be Creative' };
+
+    it('renders a PDF document', () => {
+      const pdf = generateAssetLabelsPdf(
+        [{ assetTag: 'BCE-CP-25001', model: 'MacBook Pro 16"', brand: 'Apple' }],
+        options
+      );
+
+      expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+    });
+
+    it('adds a page per sheet of labels', () => {
+      const labels = Array.from({ length: 25 }, (_, index) => ({
+        assetTag: `BCE-CP-25${String(index).padStart(3, '0')}`,
+        model: 'Dell XPS 15',
+      }));
+      const pdf = generateAssetLabelsPdf(labels, options);
+
+      expect(pdf.toString('latin1').match(/\/Type \/Page\b/g)).toHaveLength(2);
+    });
+  });
+});
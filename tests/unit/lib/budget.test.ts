@@ -0,0 +1,114 @@
+/**
+ * Tests for Purchase Request Budgets
+ * @see src/lib/domains/projects/budgets/budget.ts
+ */
+
+import { BudgetEnforcement, PurchaseRequestStatus } from '@prisma/client';
+import {
+  checkBudget,
+  describeBudgetOverrun,
+  getOperatingBudgetYear,
+  getPurchaseRequestAmountQAR,
+  summarizeBudget,
+} from '@/lib/domains/projects/budgets/budget';
+
+const { APPROVED, COMPLETED } = PurchaseRequestStatus;
+
+describe('Purchase Request Budgets', () => {
+  describe('getPurchaseRequestAmountQAR', () => {
+    it('uses the QAR total', () => {
+      expect(getPurchaseRequestAmountQAR({ totalAmount: 1000, totalAmountQAR: 3640 })).toBe(3640);
+    });
+
+    it('falls back to the total when no QAR total was stored', () => {
+      expect(getPurchaseRequestAmountQAR({ totalAmount: 1000, totalAmountQAR: null })).toBe(1000);
+    });
+
+    it('accepts decimal amounts', () => {
+      expect(getPurchaseRequestAmountQAR({ totalAmount: { toString: () => '12.50' }, totalAmountQAR: null })).toBe(12.5);
+    });
+  });
+
+  describe('getOperatingBudgetYear', () => {
+    it('is the year the request was raised in', () => {
+      expect(getOperatingBudgetYear(new Date(2025, 11, 31))).toBe(2025);
+      expect(getOperatingBudgetYear(new Date(2026, 0, 1))).toBe(2026);
+    });
+  });
+
+  describe('summarizeBudget', () => {
+    const entries = [
+      { status: APPROVED, amountQAR: 2000 },
+      { status: COMPLETED, amountQAR: 5000.1 },
+      { status: COMPLETED, amountQAR: 999.9 },
+    ];
+
+    it('splits spend into committed and actual', () => {
+      expect(summarizeBudget(10000, entries)).toEqual({
+        budget: 10000,
+        committed: 2000,
+        actual: 6000,
+        spent: 8000,
+        remaining: 2000,
+        utilisation: 80,
+      });
+    });
+
+    it('goes negative once spend passes the budget', () => {
+      const summary = summarizeBudget(7000, entries);
+      expect(summary.remaining).toBe(-1000);
+      expect(summary.utilisation).toBe(114.3);
+    });
+
+    it('tracks spend without a budget', () => {
+      expect(summarizeBudget(null, entries)).toEqual({
+        budget: null,
+        committed: 2000,
+        actual: 6000,
+        spent: 8000,
+        remaining: null,
+        utilisation: null,
+      });
+    });
+
+    it('ignores requests that are not approved or completed', () => {
+      const summary = summarizeBudget(1000, [{ status: PurchaseRequestStatus.PENDING, amountQAR: 500 }]);
+      expect(summary.spent).toBe(0);
+    });
+  });
+
+  describe('checkBudget', () => {
+    const summary = { ...summarizeBudget(10000, [{ status: APPROVED, amountQAR: 8000 }]), budget: 10000 };
+
+    it('passes requests that fit in the remaining budget', () => {
+      const check = checkBudget(summary, 2000, BudgetEnforcement.BLOCK);
+      expect(check).toEqual({
+        amount: 2000,
+        projectedSpent: 10000,
+        remainingAfter: 0,
+        overBy: 0,
+        isOverBudget: false,
+        isBlocked: false,
+      });
+    });
+
+    it('warns about requests over budget', () => {
+      const check = checkBudget(summary, 2500, BudgetEnforcement.WARN);
+      expect(check.isOverBudget).toBe(true);
+      expect(check.overBy).toBe(500);
+      expect(check.isBlocked).toBe(false);
+    });
+
+    it('blocks requests over a blocking budget', () => {
+      const check = checkBudget(summary, 2500, BudgetEnforcement.BLOCK);
+      expect(check.isBlocked).toBe(true);
+    });
+
+    it('describes the overrun for the approver', () => {
+      const check = checkBudget(summary, 2500, BudgetEnforcement.WARN);
+      const message = describeBudgetOverrun('project PRJ-2025-0001', summary, check);
+      expect(message).toContain('project PRJ-2025-0001 budget');
+      expect(message).toMatch(/by QAR\s500\.00/);
+    });
+  });
+});
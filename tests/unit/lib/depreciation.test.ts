@@ -0,0 +1,126 @@
+/**
+ * Tests for Asset Depreciation
+ * @see src/lib/domains/operations/assets/depreciation.ts
+ */
+
+import { DepreciationMethod } from '@prisma/client';
+import {
+  calculateDepreciation,
+  calculateDisposalGainLoss,
+  formatUsefulLife,
+  getDepreciableCost,
+  getMonthEnd,
+  getMonthsInService,
+} from '@/lib/domains/operations/assets/depreciation';
+
+describe('Asset Depreciation', () => {
+  describe('getMonthsInService', () => {
+    it('counts whole months', () => {
+      expect(getMonthsInService(new Date(2025, 0, 15), new Date(2025, 3, 14))).toBe(2);
+      expect(getMonthsInService(new Date(2025, 0, 15), new Date(2025, 3, 15))).toBe(3);
+    });
+
+    it('counts a month-end as a full month', () => {
+      expect(getMonthsInService(new Date(2025, 0, 31), new Date(2025, 1, 28))).toBe(1);
+    });
+
+    it('is zero before the purchase date', () => {
+      expect(getMonthsInService(new Date(2025, 5, 1), new Date(2025, 0, 1))).toBe(0);
+    });
+  });
+
+  describe('calculateDepreciation', () => {
+    const straightLine = {
+      method: DepreciationMethod.STRAIGHT_LINE,
+      usefulLifeMonths: 36,
+      salvageValuePercent: 10,
+    };
+
+    it('charges straight line evenly down to the salvage value', () => {
+      const result = calculateDepreciation(3600, new Date(2025, 0, 1), straightLine, new Date(2025, 6, 1));
+
+      expect(result.monthsInService).toBe(6);
+      expect(result.salvageValue).toBe(360);
+      expect(result.accumulatedDepreciation).toBe(540);
+      expect(result.bookValue).toBe(3060);
+      expect(result.nextMonthDepreciation).toBe(90);
+      expect(result.isFullyDepreciated).toBe(false);
+    });
+
+    it('stops at the salvage value after the useful life', () => {
+      const result = calculateDepreciation(3600, new Date(2020, 0, 1), straightLine, new Date(2025, 0, 1));
+
+      expect(result.bookValue).toBe(360);
+      expect(result.nextMonthDepreciation).toBe(0);
+      expect(result.isFullyDepreciated).toBe(true);
+    });
+
+    it('charges more early on with declining balance', () => {
+      const declining = { ...straightLine, method: DepreciationMethod.DECLINING_BALANCE };
+      const result = calculateDepreciation(3600, new Date(2025, 0, 1), declining, new Date(2025, 1, 1));
+
+      // Double the straight-line rate: 3600 * 2 / 36
+      expect(result.accumulatedDepreciation).toBe(200);
+      expect(result.accumulatedDepreciation).toBeGreaterThan(
+        calculateDepreciation(3600, new Date(2025, 0, 1), straightLine, new Date(2025, 1, 1)).accumulatedDepreciation
+      );
+    });
+
+    it('reaches the salvage value at the end of life with declining balance', () => {
+      const declining = { ...straightLine, method: DepreciationMethod.DECLINING_BALANCE };
+      const result = calculateDepreciation(3600, new Date(2025, 0, 1), declining, new Date(2028, 0, 1));
+
+      expect(result.bookValue).toBe(360);
+      expect(result.isFullyDepreciated).toBe(true);
+    });
+
+    it('does not depreciate before the purchase date', () => {
+      const result = calculateDepreciation(3600, new Date(2025, 5, 1), straightLine, new Date(2025, 0, 1));
+
+      expect(result.accumulatedDepreciation).toBe(0);
+      expect(result.bookValue).toBe(3600);
+    });
+  });
+
+  describe('calculateDisposalGainLoss', () => {
+    it('is positive when sold above book value', () => {
+      expect(calculateDisposalGainLoss(1500, 1200.5)).toBe(299.5);
+    });
+
+    it('is negative when scrapped', () => {
+      expect(calculateDisposalGainLoss(0, 800)).toBe(-800);
+    });
+  });
+
+  describe('getDepreciableCost', () => {
+    it('prefers the QAR price', () => {
+      expect(getDepreciableCost({ price: 1000, priceCurrency: 'USD', priceQAR: 3640 })).toBe(3640);
+    });
+
+    it('uses the price when it is already in QAR', () => {
+      expect(getDepreciableCost({ price: 500, priceCurrency: 'QAR', priceQAR: null })).toBe(500);
+    });
+
+    it('returns null for foreign prices without a QAR amount', () => {
+      expect(getDepreciableCost({ price: 500, priceCurrency: 'USD', priceQAR: null })).toBeNull();
+    });
+  });
+
+  describe('getMonthEnd', () => {
+    it('returns the last moment of the month', () => {
+      const end = getMonthEnd('2024-02');
+      expect(end.getFullYear()).toBe(2024);
+      expect(end.getMonth()).toBe(1);
+      expect(end.getDate()).toBe(29);
+      expect(end.getHours()).toBe(23);
+    });
+  });
+
+  describe('formatUsefulLife', () => {
+    it('uses years when whole', () => {
+      expect(formatUsefulLife(12)).toBe('1 year');
+      expect(formatUsefulLife(60)).toBe('5 years');
+      expect(formatUsefulLife(18)).toBe('18 months');
+    });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Tests for Document Number Formatting
+ * @see src/lib/domains/system/document-numbering/document-number-format.ts
+ */
+
+import {
+  formatDocumentNumber,
+  getAssetCategoryEntityType,
+  getDefaultDocumentNumberFormat,
+  getDocumentNumberPrefix,
+  getHighestSequence,
+} from '@/lib/domains/system/document-numbering/document-number-format';
+
+describe('Document Number Formatting', () => {
+  const yearly = { code: 'LV', includeMonth: false, sequenceDigits: 3 };
+  const monthly = { code: 'PR', includeMonth: true, sequenceDigits: 3 };
+
+  describe('getDocumentNumberPrefix', () => {
+    it('uses the 2-digit year', () => {
+      expect(getDocumentNumberPrefix('BCE', yearly, new Date(2025, 5, 15))).toBe('BCE-LV-25');
+    });
+
+    it('adds the month when configured', () => {
+      expect(getDocumentNumberPrefix('BCE', monthly, new Date(2024, 11, 5))).toBe('BCE-PR-2412');
+    });
+
+    it('uses 00 for transferred assets', () => {
+      expect(getDocumentNumberPrefix('BCE', { ...yearly, code: 'CP' }, new Date(2025, 0, 1), true)).toBe('BCE-CP-00');
+    });
+
+    it('uses the company prefix', () => {
+      expect(getDocumentNumberPrefix('ACME', yearly, new Date(2025, 0, 1))).toBe('ACME-LV-25');
+    });
+  });
+
+  describe('formatDocumentNumber', () => {
+    it('pads the sequence to the configured digits', () => {
+      expect(formatDocumentNumber('BCE-LV-25', 7, 3)).toBe('BCE-LV-25007');
+      expect(formatDocumentNumber('BCE-PS-2501', 42, 5)).toBe('BCE-PS-250100042');
+    });
+
+    it('does not truncate sequences longer than the digits', () => {
+      expect(formatDocumentNumber('BCE-LV-25', 1234, 3)).toBe('BCE-LV-251234');
+    });
+  });
+
+  describe('getHighestSequence', () => {
+    it('returns the highest numeric suffix under the prefix', () => {
+      expect(getHighestSequence('BCE-CP-25', ['BCE-CP-25001', 'BCE-CP-25999', 'BCE-CP-251000'])).toBe(1000);
+    });
+
+    it('ignores other prefixes, nulls and non-numeric suffixes', () => {
+      expect(getHighestSequence('BCE-CP-25', ['BCE-CP-24050', null, 'BCE-CP-25-OLD', 'BCE-CP-25003'])).toBe(3);
+    });
+
+    it('returns 0 when nothing matches', () => {
+      expect(getHighestSequence('BCE-LV-25', [])).toBe(0);
+    });
+  });
+
+  describe('getDefaultDocumentNumberFormat', () => {
+    it('has defaults for generated document types', () => {
+      expect(getDefaultDocumentNumberFormat('PURCHASE_REQUEST')).toEqual(monthly);
+      expect(getDefaultDocumentNumberFormat('EMPLOYEE_LOAN')?.code).toBe('LN');
+      expect(getDefaultDocumentNumberFormat('FINAL_SETTLEMENT')?.code).toBe('FS');
+      expect(getDefaultDocumentNumberFormat('LEAVE_ENCASHMENT')?.code).toBe('LE');
+    });
+
+    it('defaults asset categories to their own code', () => {
+      expect(getDefaultDocumentNumberFormat(getAssetCategoryEntityType('cp'))).toEqual({
+        code: 'CP',
+        includeMonth: false,
+        sequenceDigits: 3,
+      });
+    });
+
+    it('returns null for unknown entity types', () => {
+      expect(getDefaultDocumentNumberFormat('INVOICE')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Tests for Final Settlement Calculation
+ * @see src/lib/payroll/final-settlement.ts
+ */
+
+import {
+  calculateFinalSettlement,
+  calculateProRataComponents,
+  calculateUnusedLeave,
+} from '@/lib/payroll/final-settlement';
+import { calculateGratuity } from '@/lib/payroll/gratuity';
+import { calculateAccruedAnnualLeave } from '@/lib/leave-utils';
+import type { SettlementLeaveBalance } from '@/lib/types/payroll';
+
+const components = {
+  basicSalary: 6000,
+  housingAllowance: 3000,
+  transportAllowance: 1000,
+  foodAllowance: 0,
+  phoneAllowance: 0,
+  otherAllowances: 0,
+};
+
+const annualLeave: SettlementLeaveBalance = {
+  leaveTypeName: 'Annual Leave',
+  accrualBased: true,
+  entitlement: 21,
+  used: 3,
+  pending: 0,
+  carriedForward: 2,
+  adjustment: 0,
+};
+
+const sickLeave: SettlementLeaveBalance = {
+  leaveTypeName: 'Sick Leave',
+  accrualBased: false,
+  entitlement: 14,
+  used: 0,
+  pending: 0,
+  carriedForward: 0,
+  adjustment: 0,
+};
+
+describe('Final Settlement Calculation', () => {
+  const dateOfJoining = new Date(2020, 0, 1);
+  const terminationDate = new Date(2024, 5, 15);
+
+  describe('calculateProRataComponents', () => {
+    it('should pro-rate each component to the days worked in the final month', () => {
+      const result = calculateProRataComponents(components, terminationDate);
+
+      expect(result.workedDays).toBe(15);
+      expect(result.daysInMonth).toBe(30);
+      expect(result.components.basicSalary).toBe(3000);
+      expect(result.components.housingAllowance).toBe(1500);
+      expect(result.components.transportAllowance).toBe(500);
+    });
+
+    it('should pay the full month when the last day is the month end', () => {
+      const result = calculateProRataComponents(components, new Date(2024, 1, 29));
+
+      expect(result.workedDays).toBe(29);
+      expect(result.components.basicSalary).toBe(6000);
+    });
+  });
+
+  describe('calculateUnusedLeave', () => {
+    it('should only include accrual-based leave types', () => {
+      const lines = calculateUnusedLeave([annualLeave, sickLeave], dateOfJoining, terminationDate);
+
+      expect(lines).toHaveLength(1);
+      expect(lines[0].leaveTypeName).toBe('Annual Leave');
+    });
+
+    it('should count leave earned to date plus carry-forward less used days', () => {
+      const earned = calculateAccruedAnnualLeave(dateOfJoining, 21, 2024, terminationDate);
+      const [line] = calculateUnusedLeave([annualLeave], dateOfJoining, terminationDate);
+
+      expect(line.earnedEntitlement).toBe(earned);
+      expect(line.unusedDays).toBeCloseTo(earned + 2 - 3, 2);
+    });
+
+    it('should never return a negative balance', () => {
+      const [line] = calculateUnusedLeave(
+        [{ ...annualLeave, used: 30 }],
+        dateOfJoining,
+        terminationDate
+      );
+
+      expect(line.unusedDays).toBe(0);
+    });
+  });
+
+  describe('calculateFinalSettlement', () => {
+    const input = {
+      terminationDate,
+      dateOfJoining,
+      components,
+      leaveBalances: [annualLeave, sickLeave],
+      unpaidLeave: [],
+      loans: [{ loanId: 'loan-1', loanNumber: 'LOAN-00001', type: 'LOAN', remainingAmount: 2500 }],
+      assets: [
+        {
+          assetId: 'asset-1',
+          assetTag: 'LAP-001',
+          type: 'Laptop',
+          model: 'ThinkPad',
+          valueQAR: 4000,
+          returnRequested: false,
+          deductionAmount: 1000,
+        },
+      ],
+    };
+
+    it('should combine gratuity, leave encashment and final month salary', () => {
+      const result = calculateFinalSettlement(input);
+      const gratuity = calculateGratuity(6000, dateOfJoining, terminationDate);
+
+      expect(result.grossSalary).toBe(10000);
+      expect(result.gratuityAmount).toBe(gratuity.gratuityAmount);
+      expect(result.proRataSalary).toBe(5000);
+      expect(result.details.leaveDailyRate).toBe(333.33);
+      expect(result.leaveEncashmentAmount).toBeCloseTo(result.leaveEncashmentDays * 333.33, 1);
+      expect(result.totalEarnings).toBeCloseTo(
+        result.gratuityAmount + result.leaveEncashmentAmount + result.proRataSalary,
+        2
+      );
+    });
+
+    it('should deduct outstanding loans and charged assets', () => {
+      const result = calculateFinalSettlement(input);
+
+      expect(result.loanDeduction).toBe(2500);
+      expect(result.assetDeduction).toBe(1000);
+      expect(result.totalDeductions).toBe(3500);
+      expect(result.netAmount).toBeCloseTo(result.totalEarnings - 3500, 2);
+    });
+
+    it('should include other earnings and deductions', () => {
+      const result = calculateFinalSettlement({ ...input, otherEarnings: 500, otherDeductions: 200 });
+      const base = calculateFinalSettlement(input);
+
+      expect(result.totalEarnings).toBeCloseTo(base.totalEarnings + 500, 2);
+      expect(result.totalDeductions).toBe(3700);
+    });
+  });
+});
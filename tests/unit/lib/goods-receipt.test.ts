@@ -0,0 +1,82 @@
+/**
+ * Tests for Goods Receipts
+ * @see src/lib/domains/projects/goods-receipts/goods-receipt.ts
+ */
+
+import { BillingCycle, GoodsReceiptTarget, PurchaseType } from '@prisma/client';
+import {
+  getOutstandingQuantity,
+  getSubscriptionCostQAR,
+  isFullyReceived,
+  suggestReceiptTarget,
+} from '@/lib/domains/projects/goods-receipts/goods-receipt';
+
+describe('Goods Receipts', () => {
+  describe('getOutstandingQuantity', () => {
+    it('is what has not arrived yet', () => {
+      expect(getOutstandingQuantity({ quantity: 5, quantityReceived: 0 })).toBe(5);
+      expect(getOutstandingQuantity({ quantity: 5, quantityReceived: 3 })).toBe(2);
+    });
+
+    it('never goes below zero', () => {
+      expect(getOutstandingQuantity({ quantity: 2, quantityReceived: 2 })).toBe(0);
+      expect(getOutstandingQuantity({ quantity: 2, quantityReceived: 3 })).toBe(0);
+    });
+  });
+
+  describe('isFullyReceived', () => {
+    it('is true once every item has arrived in full', () => {
+      expect(isFullyReceived([
+        { quantity: 2, quantityReceived: 2 },
+        { quantity: 1, quantityReceived: 1 },
+      ])).toBe(true);
+    });
+
+    it('is false while anything is outstanding', () => {
+      expect(isFullyReceived([
+        { quantity: 2, quantityReceived: 2 },
+        { quantity: 3, quantityReceived: 1 },
+      ])).toBe(false);
+    });
+
+    it('is false for a request without items', () => {
+      expect(isFullyReceived([])).toBe(false);
+    });
+  });
+
+  describe('suggestReceiptTarget', () => {
+    it('turns recurring items into subscriptions', () => {
+      expect(suggestReceiptTarget({ billingCycle: BillingCycle.MONTHLY }, PurchaseType.OTHER))
+        .toBe(GoodsReceiptTarget.SUBSCRIPTION);
+      expect(suggestReceiptTarget({ billingCycle: BillingCycle.YEARLY }, PurchaseType.HARDWARE))
+        .toBe(GoodsReceiptTarget.SUBSCRIPTION);
+    });
+
+    it('turns one-time software purchases into subscriptions', () => {
+      expect(suggestReceiptTarget({ billingCycle: BillingCycle.ONE_TIME }, PurchaseType.SOFTWARE_SUBSCRIPTION))
+        .toBe(GoodsReceiptTarget.SUBSCRIPTION);
+    });
+
+    it('turns hardware into assets', () => {
+      expect(suggestReceiptTarget({ billingCycle: BillingCycle.ONE_TIME }, PurchaseType.HARDWARE))
+        .toBe(GoodsReceiptTarget.ASSET);
+    });
+
+    it('only counts anything else', () => {
+      expect(suggestReceiptTarget({ billingCycle: BillingCycle.ONE_TIME }, PurchaseType.OFFICE_SUPPLIES))
+        .toBe(GoodsReceiptTarget.NONE);
+      expect(suggestReceiptTarget({ billingCycle: BillingCycle.ONE_TIME }, PurchaseType.SERVICES))
+        .toBe(GoodsReceiptTarget.NONE);
+    });
+  });
+
+  describe('getSubscriptionCostQAR', () => {
+    it('uses the unit price in QAR', () => {
+      expect(getSubscriptionCostQAR({ unitPrice: '100.00', unitPriceQAR: '364.00' })).toBe(364);
+    });
+
+    it('falls back to the unit price when no QAR price was stored', () => {
+      expect(getSubscriptionCostQAR({ unitPrice: 250, unitPriceQAR: null })).toBe(250);
+    });
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Tests for Gratuity Calculation and Policies
+ * @see src/lib/payroll/gratuity.ts
+ */
+
+import { ContractType, GratuitySalaryBasis } from '@prisma/client';
+import {
+  AssignableGratuityPolicy,
+  calculateGratuity,
+  DEFAULT_GRATUITY_POLICY,
+  describeGratuityPolicy,
+  getGratuityWeeks,
+  parseGratuityRateTiers,
+  selectGratuityPolicy,
+} from '@/lib/payroll/gratuity';
+
+const steppedPolicy: AssignableGratuityPolicy = {
+  id: 'policy-stepped',
+  name: 'Senior staff',
+  salaryBasis: GratuitySalaryBasis.BASIC,
+  rateTiers: [
+    { fromYear: 0, weeksPerYear: 3 },
+    { fromYear: 5, weeksPerYear: 4 },
+  ],
+  minServiceMonths: 12,
+  excludeUnpaidLeave: true,
+  contractType: null,
+  isDefault: false,
+};
+
+describe('Gratuity Calculation', () => {
+  const dateOfJoining = new Date(2015, 0, 1);
+
+  describe('calculateGratuity with the statutory policy', () => {
+    it('should pay 3 weeks of basic salary per year', () => {
+      const result = calculateGratuity(3000, dateOfJoining, new Date(2019, 0, 1));
+
+      // 4 years * 3 weeks * (3000 / 30 * 7)
+      expect(result.monthsOfService).toBe(48);
+      expect(result.gratuityAmount).toBe(8400);
+      expect(result.policy).toBe(DEFAULT_GRATUITY_POLICY);
+      expect(result.isEligible).toBe(true);
+    });
+
+    it('should pro-rate partial years', () => {
+      const result = calculateGratuity(3000, dateOfJoining, new Date(2019, 6, 1));
+
+      expect(result.breakdown.fullYearsAmount).toBe(8400);
+      expect(result.breakdown.partialYearAmount).toBe(1050);
+      expect(result.gratuityAmount).toBe(9450);
+    });
+  });
+
+  describe('calculateGratuity with a stepped policy', () => {
+    it('should apply the higher rate after the step year', () => {
+      const result = calculateGratuity(3000, dateOfJoining, new Date(2022, 0, 1), { policy: steppedPolicy });
+
+      // 5 years at 3 weeks + 2 years at 4 weeks = 23 weeks of 700
+      expect(result.gratuityAmount).toBe(16100);
+      expect(result.weeksPerYear).toBe(4);
+      expect(result.tiers).toEqual([
+        { fromYear: 0, toYear: 5, weeksPerYear: 3, yearsOfService: 5, amount: 10500 },
+        { fromYear: 5, toYear: null, weeksPerYear: 4, yearsOfService: 2, amount: 5600 },
+      ]);
+    });
+
+    it('should pay nothing below the minimum service', () => {
+      const result = calculateGratuity(3000, dateOfJoining, new Date(2015, 10, 1), { policy: steppedPolicy });
+
+      expect(result.monthsOfService).toBe(10);
+      expect(result.isEligible).toBe(false);
+      expect(result.gratuityAmount).toBe(0);
+    });
+
+    it('should exclude unpaid leave from service when the policy says so', () => {
+      const result = calculateGratuity(3000, dateOfJoining, new Date(2019, 0, 1), {
+        policy: steppedPolicy,
+        unpaidLeaveDays: 60,
+      });
+
+      expect(result.unpaidLeaveDaysExcluded).toBe(60);
+      expect(result.monthsOfService).toBe(46);
+    });
+
+    it('should ignore unpaid leave when the policy does not exclude it', () => {
+      const result = calculateGratuity(3000, dateOfJoining, new Date(2019, 0, 1), { unpaidLeaveDays: 60 });
+
+      expect(result.unpaidLeaveDaysExcluded).toBe(0);
+      expect(result.monthsOfService).toBe(48);
+    });
+
+    it('should use gross salary when the policy pays on gross', () => {
+      const result = calculateGratuity(3000, dateOfJoining, new Date(2016, 0, 1), {
+        policy: { ...DEFAULT_GRATUITY_POLICY, salaryBasis: GratuitySalaryBasis.GROSS },
+        grossSalary: 6000,
+      });
+
+      expect(result.salaryAmount).toBe(6000);
+      expect(result.gratuityAmount).toBe(4200);
+    });
+  });
+
+  describe('getGratuityWeeks', () => {
+    it('should sum weeks across tiers', () => {
+      expect(getGratuityWeeks(steppedPolicy.rateTiers, 4)).toBe(12);
+      expect(getGratuityWeeks(steppedPolicy.rateTiers, 6.5)).toBe(21);
+    });
+  });
+
+  describe('parseGratuityRateTiers', () => {
+    it('should sort tiers and drop invalid entries', () => {
+      expect(parseGratuityRateTiers([
+        { fromYear: 5, weeksPerYear: 4 },
+        { fromYear: 'x', weeksPerYear: 1 },
+        { fromYear: 0, weeksPerYear: 3 },
+      ])).toEqual([
+        { fromYear: 0, weeksPerYear: 3 },
+        { fromYear: 5, weeksPerYear: 4 },
+      ]);
+    });
+
+    it('should fall back to the statutory rate', () => {
+      expect(parseGratuityRateTiers(null)).toEqual(DEFAULT_GRATUITY_POLICY.rateTiers);
+      expect(parseGratuityRateTiers([])).toEqual(DEFAULT_GRATUITY_POLICY.rateTiers);
+    });
+  });
+
+  describe('selectGratuityPolicy', () => {
+    const contractPolicy: AssignableGratuityPolicy = {
+      ...steppedPolicy,
+      id: 'policy-fixed-term',
+      name: 'Fixed term',
+      contractType: ContractType.FIXED_TERM,
+    };
+    const defaultPolicy: AssignableGratuityPolicy = {
+      ...steppedPolicy,
+      id: 'policy-default',
+      name: 'Company default',
+      isDefault: true,
+    };
+    const policies = [steppedPolicy, contractPolicy, defaultPolicy];
+
+    it('should prefer the policy assigned to the employee', () => {
+      const policy = selectGratuityPolicy(
+        { gratuityPolicyId: 'policy-stepped', contractType: ContractType.FIXED_TERM },
+        policies
+      );
+      expect(policy.name).toBe('Senior staff');
+    });
+
+    it('should fall back to the contract type policy', () => {
+      const policy = selectGratuityPolicy({ gratuityPolicyId: null, contractType: ContractType.FIXED_TERM }, policies);
+      expect(policy.name).toBe('Fixed term');
+    });
+
+    it('should fall back to the default policy', () => {
+      const policy = selectGratuityPolicy({ gratuityPolicyId: null, contractType: ContractType.PERMANENT }, policies);
+      expect(policy.name).toBe('Company default');
+    });
+
+    it('should fall back to the statutory rule without policies', () => {
+      const policy = selectGratuityPolicy({ gratuityPolicyId: 'missing', contractType: null }, []);
+      expect(policy).toBe(DEFAULT_GRATUITY_POLICY);
+    });
+  });
+
+  describe('describeGratuityPolicy', () => {
+    it('should summarise the rules', () => {
+      expect(describeGratuityPolicy(steppedPolicy)).toBe(
+        '3 weeks/year, 4 weeks/year from year 5 of basic salary; minimum 12 months service; unpaid leave excluded'
+      );
+    });
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Tests for Working Calendar Utilities
+ * @see src/lib/domains/hr/leave/holiday-calendar.ts
+ */
+
+import {
+  createWorkingCalendar,
+  getHolidayOccurrences,
+  getHolidayDateSet,
+  isPublicHoliday,
+  isCalendarWeekend,
+  parseICSHolidays,
+  toDateKey,
+} from '@/lib/domains/hr/leave/holiday-calendar';
+
+describe('Holiday Calendar Utilities', () => {
+  describe('toDateKey', () => {
+    it('should format local dates as YYYY-MM-DD', () => {
+      expect(toDateKey(new Date(2025, 0, 5))).toBe('2025-01-05');
+      expect(toDateKey(new Date(2025, 11, 31))).toBe('2025-12-31');
+    });
+  });
+
+  describe('getHolidayOccurrences', () => {
+    it('should expand a multi-day holiday into individual dates', () => {
+      const occurrences = getHolidayOccurrences(
+        [{ name: 'Eid al-Fitr', startDate: '2025-03-30', endDate: '2025-04-01' }],
+        new Date(2025, 2, 1),
+        new Date(2025, 3, 30)
+      );
+      expect(occurrences.map(o => o.date)).toEqual(['2025-03-30', '2025-03-31', '2025-04-01']);
+      expect(occurrences[0].name).toBe('Eid al-Fitr');
+    });
+
+    it('should clip holidays to the requested range', () => {
+      const occurrences = getHolidayOccurrences(
+        [{ name: 'Eid al-Fitr', startDate: '2025-03-30', endDate: '2025-04-01' }],
+        new Date(2025, 3, 1),
+        new Date(2025, 3, 30)
+      );
+      expect(occurrences.map(o => o.date)).toEqual(['2025-04-01']);
+    });
+
+    it('should project recurring holidays onto every year in range', () => {
+      const occurrences = getHolidayOccurrences(
+        [{ name: 'National Day', startDate: '2020-12-18', endDate: '2020-12-18', isRecurring: true }],
+        new Date(2025, 0, 1),
+        new Date(2026, 11, 31)
+      );
+      expect(occurrences.map(o => o.date)).toEqual(['2025-12-18', '2026-12-18']);
+    });
+
+    it('should handle recurring holidays spanning New Year', () => {
+      const occurrences = getHolidayOccurrences(
+        [{ name: 'Year End', startDate: '2023-12-31', endDate: '2024-01-01', isRecurring: true }],
+        new Date(2025, 0, 1),
+        new Date(2025, 0, 31)
+      );
+      expect(occurrences.map(o => o.date)).toEqual(['2025-01-01']);
+    });
+
+    it('should not duplicate overlapping holidays', () => {
+      const occurrences = getHolidayOccurrences(
+        [
+          { name: 'A', startDate: '2025-06-05', endDate: '2025-06-06' },
+          { name: 'B', startDate: '2025-06-06', endDate: '2025-06-07' },
+        ],
+        new Date(2025, 5, 1),
+        new Date(2025, 5, 30)
+      );
+      expect(occurrences.map(o => o.date)).toEqual(['2025-06-05', '2025-06-06', '2025-06-07']);
+    });
+  });
+
+  describe('isPublicHoliday / isCalendarWeekend', () => {
+    const calendar = createWorkingCalendar([
+      { name: 'National Day', startDate: '2025-12-18', endDate: '2025-12-18' },
+    ]);
+
+    it('should detect holidays in the calendar', () => {
+      expect(isPublicHoliday(new Date(2025, 11, 18), calendar)).toBe(true);
+      expect(isPublicHoliday(new Date(2025, 11, 17), calendar)).toBe(false);
+    });
+
+    it('should return false without a calendar', () => {
+      expect(isPublicHoliday(new Date(2025, 11, 18))).toBe(false);
+    });
+
+    it('should use Friday and Saturday as the default weekend', () => {
+      expect(isCalendarWeekend(new Date(2025, 0, 3))).toBe(true); // Friday
+      expect(isCalendarWeekend(new Date(2025, 0, 5))).toBe(false); // Sunday
+    });
+
+    it('should respect custom weekend days', () => {
+      const custom = createWorkingCalendar([], [0, 6]);
+      expect(isCalendarWeekend(new Date(2025, 0, 5), custom)).toBe(true); // Sunday
+      expect(isCalendarWeekend(new Date(2025, 0, 3), custom)).toBe(false); // Friday
+    });
+
+    it('should return an empty set for calendars without holidays', () => {
+      expect(getHolidayDateSet(createWorkingCalendar(), new Date(2025, 0, 1), new Date(2025, 11, 31)).size).toBe(0);
+    });
+  });
+
+  describe('parseICSHolidays', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'BEGIN:VEVENT',
+      'UID:eid-2025@example.com',
+      'DTSTART;VALUE=DATE:20250330',
+      'DTEND;VALUE=DATE:20250402',
+      'SUMMARY:Eid al-Fitr',
+      'DESCRIPTION:End of Ramadan\\, public holiday',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:national-day@example.com',
+      'DTSTART;VALUE=DATE:20251218',
+      'DTEND;VALUE=DATE:20251219',
+      'RRULE:FREQ=YEARLY',
+      'SUMMARY:Qatar National',
+      '  Day',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20250101',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n');
+
+    it('should parse all-day events with exclusive end dates', () => {
+      const [eid] = parseICSHolidays(ics);
+      expect(eid.uid).toBe('eid-2025@example.com');
+      expect(eid.name).toBe('Eid al-Fitr');
+      expect(eid.description).toBe('End of Ramadan, public holiday');
+      expect(toDateKey(eid.startDate)).toBe('2025-03-30');
+      expect(toDateKey(eid.endDate)).toBe('2025-04-01');
+      expect(eid.isRecurring).toBe(false);
+    });
+
+    it('should unfold continuation lines and detect yearly recurrence', () => {
+      const nationalDay = parseICSHolidays(ics)[1];
+      expect(nationalDay.name).toBe('Qatar National Day');
+      expect(toDateKey(nationalDay.startDate)).toBe('2025-12-18');
+      expect(toDateKey(nationalDay.endDate)).toBe('2025-12-18');
+      expect(nationalDay.isRecurring).toBe(true);
+    });
+
+    it('should skip events without a summary', () => {
+      expect(parseICSHolidays(ics)).toHaveLength(2);
+    });
+
+    it('should return an empty list for content without events', () => {
+      expect(parseICSHolidays('BEGIN:VCALENDAR\nEND:VCALENDAR')).toEqual([]);
+    });
+  });
+});
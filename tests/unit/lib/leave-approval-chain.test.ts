@@ -0,0 +1,194 @@
+/**
+ * Tests for Leave Approval Chain Utilities
+ * @see src/lib/domains/hr/leave/approval-chain.ts
+ */
+
+import {
+  selectApplicableSteps,
+  isDelegationActive,
+  resolveDelegate,
+  getCurrentStep,
+  getNextStep,
+  canActOnStep,
+  getApprovalProgressText,
+  ApprovalStepConfig,
+  DelegationWindow,
+  RequestApprovalStep,
+} from '@/lib/domains/hr/leave/approval-chain';
+
+describe('Leave Approval Chain Utilities', () => {
+  const chain: ApprovalStepConfig[] = [
+    { stepOrder: 2, name: 'HR', approverType: 'ADMIN', approverId: null, minDays: null },
+    { stepOrder: 1, name: 'Line Manager', approverType: 'USER', approverId: 'manager-1', minDays: null },
+    { stepOrder: 3, name: 'Director', approverType: 'USER', approverId: 'director-1', minDays: 10 },
+  ];
+
+  describe('selectApplicableSteps', () => {
+    it('should order steps and skip steps below their day threshold', () => {
+      const steps = selectApplicableSteps(chain, 5);
+      expect(steps.map(s => s.name)).toEqual(['Line Manager', 'HR']);
+      expect(steps.map(s => s.stepOrder)).toEqual([1, 2]);
+    });
+
+    it('should include threshold steps for long leave', () => {
+      const steps = selectApplicableSteps(chain, 14);
+      expect(steps.map(s => s.name)).toEqual(['Line Manager', 'HR', 'Director']);
+      expect(steps[2].stepOrder).toBe(3);
+    });
+
+    it('should accept Decimal-like thresholds', () => {
+      const steps = selectApplicableSteps(
+        [{ stepOrder: 1, name: 'Director', approverType: 'USER', approverId: 'd', minDays: { toString: () => '10' } }],
+        10
+      );
+      expect(steps).toHaveLength(1);
+    });
+
+    it('should route self-approval steps to any admin', () => {
+      const steps = selectApplicableSteps(chain, 5, 'manager-1');
+      expect(steps[0]).toMatchObject({ name: 'Line Manager', approverType: 'ADMIN', approverId: null });
+    });
+
+    it('should resolve line manager steps to the requester\'s manager', () => {
+      const steps = selectApplicableSteps(
+        [{ stepOrder: 1, name: 'Manager', approverType: 'LINE_MANAGER', approverId: null, minDays: null }],
+        5,
+        'emp-1',
+        'manager-1'
+      );
+      expect(steps[0]).toMatchObject({ approverType: 'USER', approverId: 'manager-1' });
+    });
+
+    it('should route line manager steps to any admin when there is no manager', () => {
+      const steps = selectApplicableSteps(
+        [{ stepOrder: 1, name: 'Manager', approverType: 'LINE_MANAGER', approverId: null, minDays: null }],
+        5,
+        'emp-1',
+        null
+      );
+      expect(steps[0]).toMatchObject({ approverType: 'ADMIN', approverId: null });
+    });
+
+    it('should return an empty chain when none is configured', () => {
+      expect(selectApplicableSteps([], 5)).toEqual([]);
+    });
+  });
+
+  describe('isDelegationActive', () => {
+    const delegation: DelegationWindow = {
+      delegatorId: 'manager-1',
+      delegateId: 'deputy-1',
+      startDate: new Date(2025, 5, 1),
+      endDate: new Date(2025, 5, 10),
+    };
+
+    it('should cover the whole end day', () => {
+      expect(isDelegationActive(delegation, new Date(2025, 5, 10, 18, 0))).toBe(true);
+    });
+
+    it('should be inactive outside the window', () => {
+      expect(isDelegationActive(delegation, new Date(2025, 4, 31))).toBe(false);
+      expect(isDelegationActive(delegation, new Date(2025, 5, 11))).toBe(false);
+    });
+
+    it('should respect the isActive flag', () => {
+      expect(isDelegationActive({ ...delegation, isActive: false }, new Date(2025, 5, 5))).toBe(false);
+    });
+  });
+
+  describe('resolveDelegate', () => {
+    const at = new Date(2025, 5, 5);
+    const window = { startDate: new Date(2025, 5, 1), endDate: new Date(2025, 5, 10) };
+
+    it('should return the approver when not delegated', () => {
+      expect(resolveDelegate('manager-1', [], at)).toBe('manager-1');
+    });
+
+    it('should follow delegation chains', () => {
+      const delegations = [
+        { delegatorId: 'manager-1', delegateId: 'deputy-1', ...window },
+        { delegatorId: 'deputy-1', delegateId: 'deputy-2', ...window },
+      ];
+      expect(resolveDelegate('manager-1', delegations, at)).toBe('deputy-2');
+    });
+
+    it('should stop on delegation cycles', () => {
+      const delegations = [
+        { delegatorId: 'a', delegateId: 'b', ...window },
+        { delegatorId: 'b', delegateId: 'a', ...window },
+      ];
+      expect(resolveDelegate('a', delegations, at)).toBe('b');
+    });
+  });
+
+  describe('getCurrentStep / getNextStep', () => {
+    const steps: RequestApprovalStep[] = [
+      { stepOrder: 1, name: 'Line Manager', approverType: 'USER', approverId: 'manager-1', status: 'APPROVED' },
+      { stepOrder: 2, name: 'HR', approverType: 'ADMIN', approverId: null, status: 'PENDING' },
+      { stepOrder: 3, name: 'Director', approverType: 'USER', approverId: 'director-1', status: 'PENDING' },
+    ];
+
+    it('should find the first pending step', () => {
+      expect(getCurrentStep(steps)?.name).toBe('HR');
+    });
+
+    it('should find the following step', () => {
+      expect(getNextStep(steps, 2)?.name).toBe('Director');
+      expect(getNextStep(steps, 3)).toBeNull();
+    });
+
+    it('should return null when all steps are decided', () => {
+      expect(getCurrentStep(steps.map(s => ({ ...s, status: 'APPROVED' })))).toBeNull();
+    });
+
+    it('should describe progress', () => {
+      expect(getApprovalProgressText(steps)).toBe('Step 2 of 3: HR');
+      expect(getApprovalProgressText([])).toBeNull();
+    });
+  });
+
+  describe('canActOnStep', () => {
+    const at = new Date(2025, 5, 5);
+    const managerStep = { approverType: 'USER', approverId: 'manager-1' };
+    const delegations: DelegationWindow[] = [
+      { delegatorId: 'manager-1', delegateId: 'deputy-1', startDate: new Date(2025, 5, 1), endDate: new Date(2025, 5, 10) },
+    ];
+
+    it('should allow any admin on ADMIN steps', () => {
+      const step = { approverType: 'ADMIN', approverId: null };
+      expect(canActOnStep(step, { id: 'admin-1', role: 'ADMIN' }).allowed).toBe(true);
+      expect(canActOnStep(step, { id: 'emp-1', role: 'EMPLOYEE' }).allowed).toBe(false);
+    });
+
+    it('should restrict USER steps to the assigned approver', () => {
+      expect(canActOnStep(managerStep, { id: 'manager-1', role: 'EMPLOYEE' })).toEqual({ allowed: true, onBehalfOfId: null });
+      expect(canActOnStep(managerStep, { id: 'admin-1', role: 'ADMIN' }).allowed).toBe(false);
+    });
+
+    it('should allow the active delegate on behalf of the approver', () => {
+      expect(canActOnStep(managerStep, { id: 'deputy-1', role: 'EMPLOYEE' }, delegations, at)).toEqual({
+        allowed: true,
+        onBehalfOfId: 'manager-1',
+      });
+    });
+
+    it('should not allow the delegate outside the delegation window', () => {
+      const later = new Date(2025, 6, 1);
+      expect(canActOnStep(managerStep, { id: 'deputy-1', role: 'EMPLOYEE' }, delegations, later).allowed).toBe(false);
+    });
+
+    it('should still allow the approver while delegated', () => {
+      expect(canActOnStep(managerStep, { id: 'manager-1', role: 'EMPLOYEE' }, delegations, at).allowed).toBe(true);
+    });
+
+    it('should not allow the requester to act on their own request', () => {
+      const adminStep = { approverType: 'ADMIN', approverId: null };
+      expect(canActOnStep(adminStep, { id: 'admin-1', role: 'ADMIN' }, [], at, 'admin-1').allowed).toBe(false);
+      expect(canActOnStep(adminStep, { id: 'admin-2', role: 'ADMIN' }, [], at, 'admin-1').allowed).toBe(true);
+      expect(canActOnStep(managerStep, { id: 'deputy-1', role: 'EMPLOYEE' }, delegations, at, 'deputy-1')).toEqual({
+        allowed: false,
+        onBehalfOfId: null,
+      });
+    });
+  });
+});
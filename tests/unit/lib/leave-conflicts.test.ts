@@ -0,0 +1,164 @@
+/**
+ * Tests for Leave Conflict Detection
+ * @see src/lib/domains/hr/leave/leave-conflicts.ts
+ */
+
+import {
+  buildCoverageHeatmap,
+  CoverageEmployee,
+  CoverageRuleInput,
+  findBlackoutConflicts,
+  findCoverageConflicts,
+  isCoveredByRule,
+  toConflictReport,
+} from '@/lib/domains/hr/leave/leave-conflicts';
+import { createWorkingCalendar } from '@/lib/domains/hr/leave/holiday-calendar';
+
+// January 2025: the 5th is a Sunday, the 10th and 11th are the Fri/Sat weekend
+const day = (date: number) => new Date(2025, 0, date);
+
+const employee = (overrides: Partial<CoverageEmployee> & { userId: string }): CoverageEmployee => ({
+  name: overrides.userId,
+  departmentId: 'finance',
+  departmentName: 'Finance',
+  designation: 'Accountant',
+  isCriticalRole: false,
+  ...overrides,
+});
+
+const rule = (overrides: Partial<CoverageRuleInput>): CoverageRuleInput => ({
+  id: 'rule-1',
+  name: 'Finance cover',
+  scope: 'DEPARTMENT',
+  departmentId: 'finance',
+  designation: null,
+  maxOnLeave: 1,
+  enforcement: 'WARN',
+  ...overrides,
+});
+
+describe('isCoveredByRule', () => {
+  it('matches department rules on the employee department', () => {
+    expect(isCoveredByRule(rule({}), employee({ userId: 'a' }))).toBe(true);
+    expect(isCoveredByRule(rule({}), employee({ userId: 'a', departmentId: 'ops' }))).toBe(false);
+  });
+
+  it('matches designations case-insensitively', () => {
+    const designationRule = rule({ scope: 'DESIGNATION', departmentId: null, designation: ' accountant ' });
+    expect(isCoveredByRule(designationRule, employee({ userId: 'a' }))).toBe(true);
+    expect(isCoveredByRule(designationRule, employee({ userId: 'a', designation: 'Driver' }))).toBe(false);
+  });
+
+  it('only covers critical-role employees, company-wide when no department is set', () => {
+    const criticalRule = rule({ scope: 'CRITICAL_ROLE', departmentId: null });
+    expect(isCoveredByRule(criticalRule, employee({ userId: 'a', isCriticalRole: true, departmentId: 'ops' }))).toBe(true);
+    expect(isCoveredByRule(criticalRule, employee({ userId: 'a' }))).toBe(false);
+  });
+});
+
+describe('findBlackoutConflicts', () => {
+  const blackout = {
+    id: 'go-live',
+    name: 'ERP go-live',
+    startDate: day(7),
+    endDate: day(9),
+    enforcement: 'BLOCK' as const,
+    departmentId: null,
+  };
+
+  it('reports the overlapping days', () => {
+    const conflicts = findBlackoutConflicts({ departmentId: 'finance' }, day(8), day(13), [blackout]);
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({ type: 'BLACKOUT', enforcement: 'BLOCK', dates: ['2025-01-08', '2025-01-09'] });
+  });
+
+  it('ignores blackouts for other departments and dates outside the request', () => {
+    expect(findBlackoutConflicts({ departmentId: 'finance' }, day(8), day(8), [{ ...blackout, departmentId: 'ops' }])).toEqual([]);
+    expect(findBlackoutConflicts({ departmentId: 'finance' }, day(12), day(14), [blackout])).toEqual([]);
+  });
+});
+
+describe('findCoverageConflicts', () => {
+  const requester = employee({ userId: 'me' });
+  const colleagues = [employee({ userId: 'alice' }), employee({ userId: 'bob', departmentId: 'ops' })];
+
+  it('flags days when the team limit would be exceeded', () => {
+    const conflicts = findCoverageConflicts(
+      requester,
+      day(6),
+      day(8),
+      [rule({})],
+      colleagues,
+      [{ userId: 'alice', startDate: day(8), endDate: day(9) }]
+    );
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({ type: 'DEPARTMENT', dates: ['2025-01-08'], colleagues: ['alice'] });
+  });
+
+  it('does not count colleagues outside the group or days within the limit', () => {
+    expect(findCoverageConflicts(
+      requester,
+      day(6),
+      day(8),
+      [rule({})],
+      colleagues,
+      [{ userId: 'bob', startDate: day(6), endDate: day(8) }]
+    )).toEqual([]);
+
+    expect(findCoverageConflicts(
+      requester,
+      day(6),
+      day(8),
+      [rule({ maxOnLeave: 2 })],
+      colleagues,
+      [{ userId: 'alice', startDate: day(6), endDate: day(8) }]
+    )).toEqual([]);
+  });
+
+  it('skips weekends and public holidays', () => {
+    const calendar = createWorkingCalendar([{ name: 'Holiday', startDate: '2025-01-12', endDate: '2025-01-12' }]);
+    expect(findCoverageConflicts(
+      requester,
+      day(10),
+      day(12),
+      [rule({})],
+      colleagues,
+      [{ userId: 'alice', startDate: day(10), endDate: day(12) }],
+      calendar
+    )).toEqual([]);
+  });
+});
+
+describe('toConflictReport', () => {
+  it('is blocked when any conflict blocks', () => {
+    const warning = { type: 'DEPARTMENT' as const, enforcement: 'WARN' as const, sourceId: 'a', message: '', dates: [], colleagues: [] };
+    expect(toConflictReport([warning]).blocked).toBe(false);
+    expect(toConflictReport([warning, { ...warning, enforcement: 'BLOCK' }]).blocked).toBe(true);
+  });
+});
+
+describe('buildCoverageHeatmap', () => {
+  it('counts employees on leave per department and day', () => {
+    const heatmap = buildCoverageHeatmap(
+      [
+        employee({ userId: 'alice' }),
+        employee({ userId: 'carol' }),
+        employee({ userId: 'bob', departmentId: null, departmentName: null }),
+      ],
+      [
+        { userId: 'alice', startDate: day(6), endDate: day(7) },
+        { userId: 'carol', startDate: day(7), endDate: day(7) },
+      ],
+      day(6),
+      day(7)
+    );
+
+    expect(heatmap.days.map(d => d.date)).toEqual(['2025-01-06', '2025-01-07']);
+    expect(heatmap.rows.map(row => row.departmentName)).toEqual(['Finance', 'No Department']);
+    expect(heatmap.rows[0].headcount).toBe(2);
+    expect(heatmap.rows[0].cells.map(cell => cell.onLeave)).toEqual([1, 2]);
+    expect(heatmap.rows[0].cells[1].names).toEqual(['alice', 'carol']);
+    expect(heatmap.rows[1].cells.map(cell => cell.onLeave)).toEqual([0, 0]);
+  });
+});
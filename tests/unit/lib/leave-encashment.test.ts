@@ -0,0 +1,52 @@
+/**
+ * Tests for Leave Encashment
+ * @see src/lib/domains/hr/leave/leave-encashment.ts
+ */
+
+import {
+  calculateEncashmentAmount,
+  canApproveLeaveEncashment,
+  getEncashableDays,
+} from '@/lib/domains/hr/leave/leave-encashment';
+
+describe('getEncashableDays', () => {
+  it('counts entitlement, carried days and adjustments less used and pending days', () => {
+    expect(getEncashableDays({
+      entitlement: 21,
+      used: 8,
+      pending: 2,
+      carriedForward: 5,
+      adjustment: -1.5,
+    })).toBe(14.5);
+  });
+
+  it('never returns a negative balance', () => {
+    expect(getEncashableDays({
+      entitlement: 10,
+      used: 12,
+      pending: 0,
+      carriedForward: 0,
+      adjustment: 0,
+    })).toBe(0);
+  });
+});
+
+describe('calculateEncashmentAmount', () => {
+  it('pays each day at gross salary / 30', () => {
+    expect(calculateEncashmentAmount(5, 15000)).toEqual({ dailyRate: 500, amount: 2500 });
+  });
+
+  it('rounds the daily rate and amount to 2 decimals', () => {
+    expect(calculateEncashmentAmount(2.5, 10000)).toEqual({ dailyRate: 333.33, amount: 833.33 });
+  });
+});
+
+describe('canApproveLeaveEncashment', () => {
+  it('lets another admin approve', () => {
+    expect(canApproveLeaveEncashment({ userId: 'employee-1' }, 'admin-1')).toBe(true);
+  });
+
+  it('blocks admins from approving their own encashment', () => {
+    expect(canApproveLeaveEncashment({ userId: 'admin-1' }, 'admin-1')).toBe(false);
+  });
+});
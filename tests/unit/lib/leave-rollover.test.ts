@@ -0,0 +1,98 @@
+/**
+ * Tests for Year-end Leave Rollover
+ * @see src/lib/domains/hr/leave/leave-rollover.ts
+ */
+
+import {
+  calculateExpiredCarryForward,
+  calculateRollover,
+  getCarryForwardExpiryDate,
+  isCarryForwardExpired,
+  RolloverBalance,
+} from '@/lib/domains/hr/leave/leave-rollover';
+
+const closingBalance: RolloverBalance = {
+  entitlement: 21,
+  used: 10,
+  pending: 0,
+  carriedForward: 0,
+  adjustment: 0,
+};
+
+describe('calculateRollover', () => {
+  it('carries all unused days when under the cap', () => {
+    expect(calculateRollover(closingBalance, { allowCarryForward: true, maxCarryForwardDays: 15 })).toEqual({
+      unusedDays: 11,
+      carryForward: 11,
+      forfeited: 0,
+    });
+  });
+
+  it('caps carried days and forfeits the rest', () => {
+    expect(calculateRollover(closingBalance, { allowCarryForward: true, maxCarryForwardDays: 5 })).toEqual({
+      unusedDays: 11,
+      carryForward: 5,
+      forfeited: 6,
+    });
+  });
+
+  it('forfeits everything when carry forward is not allowed', () => {
+    expect(calculateRollover(closingBalance, { allowCarryForward: false, maxCarryForwardDays: 5 })).toEqual({
+      unusedDays: 11,
+      carryForward: 0,
+      forfeited: 11,
+    });
+  });
+
+  it('counts carried days, adjustments and pending requests', () => {
+    const result = calculateRollover(
+      { entitlement: 21, used: 10, pending: 2, carriedForward: 3, adjustment: -1.5 },
+      { allowCarryForward: true, maxCarryForwardDays: 30 }
+    );
+    expect(result.unusedDays).toBe(10.5);
+    expect(result.carryForward).toBe(10.5);
+  });
+
+  it('never carries a negative balance', () => {
+    const result = calculateRollover(
+      { ...closingBalance, used: 25 },
+      { allowCarryForward: true, maxCarryForwardDays: 5 }
+    );
+    expect(result).toEqual({ unusedDays: 0, carryForward: 0, forfeited: 0 });
+  });
+});
+
+describe('getCarryForwardExpiryDate', () => {
+  it('returns the last day of the expiry month', () => {
+    expect(getCarryForwardExpiryDate(2025, 3)).toEqual(new Date(2025, 2, 31));
+    expect(getCarryForwardExpiryDate(2024, 2)).toEqual(new Date(2024, 1, 29));
+  });
+
+  it('returns null when carried days never expire', () => {
+    expect(getCarryForwardExpiryDate(2025, null)).toBeNull();
+    expect(getCarryForwardExpiryDate(2025, 0)).toBeNull();
+    expect(getCarryForwardExpiryDate(2025, 13)).toBeNull();
+  });
+});
+
+describe('calculateExpiredCarryForward', () => {
+  it('lapses carried days not yet used', () => {
+    expect(calculateExpiredCarryForward({ carriedForward: 5, used: 2, pending: 1 })).toBe(2);
+  });
+
+  it('lapses nothing once the carried days are used', () => {
+    expect(calculateExpiredCarryForward({ carriedForward: 5, used: 8, pending: 0 })).toBe(0);
+  });
+});
+
+describe('isCarryForwardExpired', () => {
+  const expiresAt = new Date(2025, 2, 31);
+
+  it('is not expired on the expiry date', () => {
+    expect(isCarryForwardExpired(expiresAt, new Date(2025, 2, 31, 18, 0))).toBe(false);
+  });
+
+  it('is expired the day after', () => {
+    expect(isCarryForwardExpired(expiresAt, new Date(2025, 3, 1))).toBe(true);
+  });
+});
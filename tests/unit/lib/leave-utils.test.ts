@@ -5,10 +5,10 @@
 
 import { LeaveStatus, LeaveRequestType } from '@prisma/client';
 import { Decimal } from '@prisma/client/runtime/library';
+import { createWorkingCalendar } from '@/lib/domains/hr/leave/holiday-calendar';
 import {
   isWeekend,
   calculateWorkingDays,
-  generateLeaveRequestNumber,
   calculateRemainingBalance,
   calculateAvailableBalance,
   getCurrentYear,
@@ -17,6 +17,8 @@ import {
   getLeaveStatusColor,
   getLeaveStatusVariant,
   getLeaveStatusText,
+  parsePayTiers,
+  allocatePayTiers,
   canCancelLeaveRequest,
   canEditLeaveRequest,
   getDateRangeText,
@@ -117,22 +119,33 @@ describe('Leave Utilities', () => {
       const end = new Date('2025-01-18');
       expect(calculateWorkingDays(start, end, 'FULL_DAY')).toBe(10);
     });
-  });
 
-  describe('generateLeaveRequestNumber', () => {
-    it('should generate LR-00001 for first request', () => {
-      expect(generateLeaveRequestNumber(0)).toBe('LR-00001');
+    it('should exclude public holidays from the working calendar', () => {
+      // December 14 (Sun) to December 18 (Thu) 2025, National Day on the 18th
+      const calendar = createWorkingCalendar([
+        { name: 'National Day', startDate: '2025-12-18', endDate: '2025-12-18' },
+      ]);
+      const start = new Date(2025, 11, 14);
+      const end = new Date(2025, 11, 18);
+      expect(calculateWorkingDays(start, end, 'FULL_DAY', false, calendar)).toBe(4);
     });
 
-    it('should generate correct number based on existing count', () => {
-      expect(generateLeaveRequestNumber(10)).toBe('LR-00011');
-      expect(generateLeaveRequestNumber(99)).toBe('LR-00100');
-      expect(generateLeaveRequestNumber(999)).toBe('LR-01000');
+    it('should exclude holidays even when weekends are included', () => {
+      const calendar = createWorkingCalendar([
+        { name: 'Eid', startDate: '2025-03-30', endDate: '2025-04-01' },
+      ]);
+      // March 28 to April 3, 2025 = 7 calendar days, 3 of them Eid
+      const start = new Date(2025, 2, 28);
+      const end = new Date(2025, 3, 3);
+      expect(calculateWorkingDays(start, end, 'FULL_DAY', true, calendar)).toBe(4);
     });
 
-    it('should pad with zeros up to 5 digits', () => {
-      expect(generateLeaveRequestNumber(0)).toHaveLength(8); // 'LR-' + 5 digits
-      expect(generateLeaveRequestNumber(9999)).toBe('LR-10000');
+    it('should return 0 for half-day request on a public holiday', () => {
+      const calendar = createWorkingCalendar([
+        { name: 'National Day', startDate: '2024-12-18', endDate: '2024-12-18', isRecurring: true },
+      ]);
+      const holiday = new Date(2025, 11, 18);
+      expect(calculateWorkingDays(holiday, holiday, 'HALF_DAY_AM', false, calendar)).toBe(0);
     });
   });
 
@@ -567,4 +580,55 @@ describe('Leave Utilities', () => {
       expect(style.borderColor).toBe('#EF444440');
     });
   });
+
+  describe('parsePayTiers', () => {
+    it('should return null when the leave type has no tiers', () => {
+      expect(parsePayTiers(null)).toBeNull();
+      expect(parsePayTiers([])).toBeNull();
+      expect(parsePayTiers({ days: 14 })).toBeNull();
+    });
+
+    it('should keep valid tiers only', () => {
+      expect(parsePayTiers([{ days: 14, payPercent: 100 }, { days: 'x' }])).toEqual([
+        { days: 14, payPercent: 100 },
+      ]);
+    });
+  });
+
+  describe('allocatePayTiers', () => {
+    const sickTiers = [
+      { days: 14, payPercent: 100, label: 'Full Pay' },
+      { days: 28, payPercent: 50, label: 'Half Pay' },
+      { days: 42, payPercent: 0, label: 'Unpaid' },
+    ];
+
+    it('should keep the first 14 days at full pay', () => {
+      expect(allocatePayTiers(0, 10, sickTiers)).toEqual([{ payPercent: 100, days: 10 }]);
+    });
+
+    it('should split a request across the full and half pay tiers', () => {
+      expect(allocatePayTiers(10, 8, sickTiers)).toEqual([
+        { payPercent: 100, days: 4 },
+        { payPercent: 50, days: 4 },
+      ]);
+    });
+
+    it('should start in the unpaid tier after 42 days', () => {
+      expect(allocatePayTiers(40, 5, sickTiers)).toEqual([
+        { payPercent: 50, days: 2 },
+        { payPercent: 0, days: 3 },
+      ]);
+    });
+
+    it('should treat days beyond the last tier as unpaid', () => {
+      expect(allocatePayTiers(80, 6, sickTiers)).toEqual([{ payPercent: 0, days: 6 }]);
+    });
+
+    it('should allocate half days', () => {
+      expect(allocatePayTiers(13.5, 1, sickTiers)).toEqual([
+        { payPercent: 100, days: 0.5 },
+        { payPercent: 50, days: 0.5 },
+      ]);
+    });
+  });
 });
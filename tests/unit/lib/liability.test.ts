@@ -0,0 +1,120 @@
+/**
+ * Tests for Month-end Gratuity and Leave Liability
+ * @see src/lib/payroll/liability.ts
+ */
+
+import { getAnnualLeaveDetails } from '@/lib/leave-utils';
+import { calculateGratuity } from '@/lib/payroll/gratuity';
+import {
+  calculateEmployeeLiability,
+  compareLiabilities,
+  EmployeeLiabilityInput,
+  getPreviousPeriod,
+  sumLiabilities,
+} from '@/lib/payroll/liability';
+
+const dateOfJoining = new Date(2020, 0, 1);
+const asOf = new Date(2024, 5, 30);
+
+const baseInput: EmployeeLiabilityInput = {
+  userId: 'user-1',
+  name: 'Aisha Khan',
+  employeeId: 'BCE-001',
+  basicSalary: 10000,
+  grossSalary: 15000,
+  dateOfJoining,
+  leave: { carriedForward: 0, adjustment: 0, daysTaken: 0 },
+};
+
+describe('Liability', () => {
+  describe('getPreviousPeriod', () => {
+    it('returns the previous month in the same year', () => {
+      expect(getPreviousPeriod(2024, 6)).toEqual({ year: 2024, month: 5 });
+    });
+
+    it('wraps January to December of the previous year', () => {
+      expect(getPreviousPeriod(2024, 1)).toEqual({ year: 2023, month: 12 });
+    });
+  });
+
+  describe('calculateEmployeeLiability', () => {
+    it('uses the gratuity payable at the month end', () => {
+      const liability = calculateEmployeeLiability(baseInput, asOf);
+      const gratuity = calculateGratuity(10000, dateOfJoining, asOf);
+
+      expect(liability.gratuityLiability).toBe(gratuity.gratuityAmount);
+      expect(liability.monthsOfService).toBe(gratuity.monthsOfService);
+      expect(liability.gratuityPolicyName).toBe(gratuity.policy.name);
+    });
+
+    it('values unused annual leave at the daily gross rate', () => {
+      const { accrued } = getAnnualLeaveDetails(dateOfJoining, 2024, asOf);
+      const liability = calculateEmployeeLiability(
+        { ...baseInput, leave: { carriedForward: 5, adjustment: -1, daysTaken: 3 } },
+        asOf
+      );
+
+      expect(liability.leaveDailyRate).toBe(500);
+      expect(liability.unusedLeaveDays).toBeCloseTo(accrued + 5 - 1 - 3, 2);
+      expect(liability.leaveLiability).toBeCloseTo(liability.unusedLeaveDays * 500, 2);
+      expect(liability.totalLiability).toBeCloseTo(liability.gratuityLiability + liability.leaveLiability, 2);
+    });
+
+    it('does not carry negative leave balances into the provision', () => {
+      const liability = calculateEmployeeLiability(
+        { ...baseInput, leave: { carriedForward: 0, adjustment: 0, daysTaken: 60 } },
+        asOf
+      );
+
+      expect(liability.unusedLeaveDays).toBe(0);
+      expect(liability.leaveLiability).toBe(0);
+    });
+  });
+
+  describe('sumLiabilities', () => {
+    it('totals gratuity, leave and overall liability', () => {
+      const first = calculateEmployeeLiability(baseInput, asOf);
+      const second = calculateEmployeeLiability({ ...baseInput, userId: 'user-2', grossSalary: 9000 }, asOf);
+      const totals = sumLiabilities([first, second]);
+
+      expect(totals.gratuityLiability).toBeCloseTo(first.gratuityLiability + second.gratuityLiability, 2);
+      expect(totals.leaveLiability).toBeCloseTo(first.leaveLiability + second.leaveLiability, 2);
+      expect(totals.totalLiability).toBeCloseTo(first.totalLiability + second.totalLiability, 2);
+    });
+
+    it('returns zero totals for no employees', () => {
+      expect(sumLiabilities([])).toEqual({ gratuityLiability: 0, leaveLiability: 0, totalLiability: 0 });
+    });
+  });
+
+  describe('compareLiabilities', () => {
+    const previousAsOf = new Date(2024, 4, 31);
+
+    it('reports movement for employees in both months', () => {
+      const previous = calculateEmployeeLiability(baseInput, previousAsOf);
+      const current = calculateEmployeeLiability(baseInput, asOf);
+      const [movement] = compareLiabilities([current], [previous]);
+
+      expect(movement.change).toBeNull();
+      expect(movement.gratuityMovement).toBeCloseTo(current.gratuityLiability - previous.gratuityLiability, 2);
+      expect(movement.leaveMovement).toBeCloseTo(current.leaveLiability - previous.leaveLiability, 2);
+      expect(movement.totalMovement).toBeGreaterThan(0);
+    });
+
+    it('marks employees joining and leaving the provision', () => {
+      const stayer = calculateEmployeeLiability({ ...baseInput, name: 'Bilal' }, asOf);
+      const joiner = calculateEmployeeLiability({ ...baseInput, userId: 'user-2', name: 'Carla' }, asOf);
+      const leaver = calculateEmployeeLiability({ ...baseInput, userId: 'user-3', name: 'Adam' }, previousAsOf);
+      const stayerBefore = calculateEmployeeLiability({ ...baseInput, name: 'Bilal' }, previousAsOf);
+
+      const movements = compareLiabilities([stayer, joiner], [stayerBefore, leaver]);
+
+      expect(movements.map(m => m.name)).toEqual(['Adam', 'Bilal', 'Carla']);
+      expect(movements[0].change).toBe('LEFT');
+      expect(movements[0].current).toBeNull();
+      expect(movements[0].totalMovement).toBe(-leaver.totalLiability);
+      expect(movements[2].change).toBe('NEW');
+      expect(movements[2].totalMovement).toBe(joiner.totalLiability);
+    });
+  });
+});
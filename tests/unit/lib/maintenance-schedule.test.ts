@@ -0,0 +1,133 @@
+/**
+ * Tests for Preventive Maintenance Scheduling
+ * @see src/lib/domains/operations/assets/maintenance-schedule.ts
+ */
+
+import { MaintenanceIntervalUnit, MaintenanceTaskStatus } from '@prisma/client';
+import {
+  addMaintenanceInterval,
+  calculateDowntimeHours,
+  formatMaintenanceInterval,
+  getMaintenanceDueStatus,
+  getNextMaintenanceDueDate,
+  parseMaintenanceAttachments,
+  parseMaintenanceChecklist,
+  planAppliesToAsset,
+} from '@/lib/domains/operations/assets/maintenance-schedule';
+
+describe('Preventive Maintenance Scheduling', () => {
+  describe('addMaintenanceInterval', () => {
+    it('adds days and weeks', () => {
+      expect(addMaintenanceInterval(new Date(2025, 0, 30), 5, MaintenanceIntervalUnit.DAYS)).toEqual(new Date(2025, 1, 4));
+      expect(addMaintenanceInterval(new Date(2025, 0, 1), 2, MaintenanceIntervalUnit.WEEKS)).toEqual(new Date(2025, 0, 15));
+    });
+
+    it('clamps month steps to the end of shorter months', () => {
+      expect(addMaintenanceInterval(new Date(2025, 0, 31), 1, MaintenanceIntervalUnit.MONTHS)).toEqual(new Date(2025, 1, 28));
+      expect(addMaintenanceInterval(new Date(2024, 0, 31), 1, MaintenanceIntervalUnit.MONTHS)).toEqual(new Date(2024, 1, 29));
+    });
+
+    it('adds years across leap days', () => {
+      expect(addMaintenanceInterval(new Date(2024, 1, 29), 1, MaintenanceIntervalUnit.YEARS)).toEqual(new Date(2025, 1, 28));
+    });
+  });
+
+  describe('getNextMaintenanceDueDate', () => {
+    const plan = {
+      startDate: new Date(2025, 0, 1),
+      intervalValue: 3,
+      intervalUnit: MaintenanceIntervalUnit.MONTHS,
+    };
+
+    it('uses the plan start date for existing assets', () => {
+      expect(getNextMaintenanceDueDate(plan, new Date(2024, 5, 1))).toEqual(new Date(2025, 0, 1));
+    });
+
+    it('waits one interval for assets added after the start date', () => {
+      expect(getNextMaintenanceDueDate(plan, new Date(2025, 1, 10, 14, 30))).toEqual(new Date(2025, 4, 10));
+    });
+
+    it('counts from the completion date after a completed task', () => {
+      const lastTask = {
+        status: MaintenanceTaskStatus.COMPLETED,
+        dueDate: new Date(2025, 0, 1),
+        completedAt: new Date(2025, 0, 20, 16, 0),
+      };
+      expect(getNextMaintenanceDueDate(plan, new Date(2024, 5, 1), lastTask)).toEqual(new Date(2025, 3, 20));
+    });
+
+    it('counts from the due date after a skipped task', () => {
+      const lastTask = {
+        status: MaintenanceTaskStatus.SKIPPED,
+        dueDate: new Date(2025, 0, 1),
+        completedAt: null,
+      };
+      expect(getNextMaintenanceDueDate(plan, new Date(2024, 5, 1), lastTask)).toEqual(new Date(2025, 3, 1));
+    });
+  });
+
+  describe('getMaintenanceDueStatus', () => {
+    const today = new Date(2025, 5, 10, 15, 0);
+
+    it('marks past due dates as overdue', () => {
+      expect(getMaintenanceDueStatus(new Date(2025, 5, 9), today)).toBe('OVERDUE');
+    });
+
+    it('treats today and the next 7 days as due soon', () => {
+      expect(getMaintenanceDueStatus(new Date(2025, 5, 10), today)).toBe('DUE_SOON');
+      expect(getMaintenanceDueStatus(new Date(2025, 5, 17), today)).toBe('DUE_SOON');
+    });
+
+    it('marks later dates as upcoming', () => {
+      expect(getMaintenanceDueStatus(new Date(2025, 5, 18), today)).toBe('UPCOMING');
+      expect(getMaintenanceDueStatus(new Date(2025, 5, 18), today, 14)).toBe('DUE_SOON');
+    });
+  });
+
+  describe('formatMaintenanceInterval', () => {
+    it('formats single and plural intervals', () => {
+      expect(formatMaintenanceInterval(1, MaintenanceIntervalUnit.MONTHS)).toBe('Every month');
+      expect(formatMaintenanceInterval(3, MaintenanceIntervalUnit.MONTHS)).toBe('Every 3 months');
+      expect(formatMaintenanceInterval(2, MaintenanceIntervalUnit.WEEKS)).toBe('Every 2 weeks');
+    });
+  });
+
+  describe('calculateDowntimeHours', () => {
+    it('rounds to 2 decimals', () => {
+      expect(calculateDowntimeHours(new Date(2025, 0, 1, 9, 0), new Date(2025, 0, 1, 11, 20))).toBe(2.33);
+    });
+
+    it('never goes negative', () => {
+      expect(calculateDowntimeHours(new Date(2025, 0, 2), new Date(2025, 0, 1))).toBe(0);
+    });
+  });
+
+  describe('planAppliesToAsset', () => {
+    const asset = { id: 'asset-1', type: 'Laptop' };
+
+    it('matches a single-asset plan by id', () => {
+      expect(planAppliesToAsset({ assetId: 'asset-1', assetType: null }, asset)).toBe(true);
+      expect(planAppliesToAsset({ assetId: 'asset-2', assetType: null }, asset)).toBe(false);
+    });
+
+    it('matches a type plan ignoring case and spaces', () => {
+      expect(planAppliesToAsset({ assetId: null, assetType: ' laptop ' }, asset)).toBe(true);
+      expect(planAppliesToAsset({ assetId: null, assetType: 'Printer' }, asset)).toBe(false);
+    });
+  });
+
+  describe('JSON parsing', () => {
+    it('keeps only non-empty checklist strings', () => {
+      expect(parseMaintenanceChecklist(['Clean fans', '', 3, ' '])).toEqual(['Clean fans']);
+      expect(parseMaintenanceChecklist(null)).toEqual([]);
+    });
+
+    it('keeps only well-formed attachments', () => {
+      expect(parseMaintenanceAttachments([
+        { name: 'invoice.pdf', url: '/uploads/invoice.pdf' },
+        { name: 'missing url' },
+        'junk',
+      ])).toEqual([{ name: 'invoice.pdf', url: '/uploads/invoice.pdf' }]);
+    });
+  });
+});
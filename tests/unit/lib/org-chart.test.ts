@@ -0,0 +1,95 @@
+/**
+ * Tests for Org Chart Utilities
+ * @see src/lib/domains/hr/employees/org-chart.ts
+ */
+
+import {
+  buildOrgTree,
+  getReportingChain,
+  getAllReports,
+  wouldCreateCycle,
+  ReportingLineEntry,
+} from '@/lib/domains/hr/employees/org-chart';
+
+describe('Org Chart Utilities', () => {
+  // ceo -> cfo -> accountant
+  //     -> cto -> dev-1, dev-2
+  const lines: ReportingLineEntry[] = [
+    { userId: 'ceo', managerId: null },
+    { userId: 'cfo', managerId: 'ceo' },
+    { userId: 'cto', managerId: 'ceo' },
+    { userId: 'accountant', managerId: 'cfo' },
+    { userId: 'dev-1', managerId: 'cto' },
+    { userId: 'dev-2', managerId: 'cto' },
+  ];
+
+  describe('buildOrgTree', () => {
+    it('should nest reports under their managers', () => {
+      const tree = buildOrgTree(lines);
+      expect(tree).toHaveLength(1);
+      expect(tree[0].userId).toBe('ceo');
+      expect(tree[0].reports.map(r => r.userId)).toEqual(['cfo', 'cto']);
+      expect(tree[0].reports[1].reports.map(r => r.userId)).toEqual(['dev-1', 'dev-2']);
+    });
+
+    it('should keep extra fields on nodes', () => {
+      const tree = buildOrgTree([{ userId: 'a', managerId: null, name: 'Alice' }]);
+      expect(tree[0]).toMatchObject({ userId: 'a', name: 'Alice', reports: [] });
+    });
+
+    it('should treat employees whose manager is missing as roots', () => {
+      const tree = buildOrgTree([
+        { userId: 'a', managerId: 'departed' },
+        { userId: 'b', managerId: null },
+      ]);
+      expect(tree.map(n => n.userId)).toEqual(['a', 'b']);
+    });
+
+    it('should not lose employees caught in a reporting cycle', () => {
+      const tree = buildOrgTree([
+        { userId: 'a', managerId: 'b' },
+        { userId: 'b', managerId: 'a' },
+      ]);
+      expect(tree).toHaveLength(1);
+      expect(tree[0].userId).toBe('a');
+      expect(tree[0].reports.map(r => r.userId)).toEqual(['b']);
+      expect(tree[0].reports[0].reports).toEqual([]);
+    });
+  });
+
+  describe('getReportingChain', () => {
+    it('should walk up to the top of the hierarchy', () => {
+      expect(getReportingChain('dev-1', lines)).toEqual(['cto', 'ceo']);
+    });
+
+    it('should return an empty chain for the top manager', () => {
+      expect(getReportingChain('ceo', lines)).toEqual([]);
+    });
+  });
+
+  describe('getAllReports', () => {
+    it('should include indirect reports', () => {
+      expect(getAllReports('ceo', lines).sort()).toEqual(['accountant', 'cfo', 'cto', 'dev-1', 'dev-2']);
+    });
+
+    it('should return only the subtree of a manager', () => {
+      expect(getAllReports('cto', lines)).toEqual(['dev-1', 'dev-2']);
+      expect(getAllReports('dev-1', lines)).toEqual([]);
+    });
+  });
+
+  describe('wouldCreateCycle', () => {
+    it('should reject self-management', () => {
+      expect(wouldCreateCycle('cto', 'cto', lines)).toBe(true);
+    });
+
+    it('should reject assigning one of the user\'s reports as their manager', () => {
+      expect(wouldCreateCycle('ceo', 'dev-1', lines)).toBe(true);
+    });
+
+    it('should allow moving to another branch', () => {
+      expect(wouldCreateCycle('dev-1', 'cfo', lines)).toBe(false);
+      expect(wouldCreateCycle('dev-1', null, lines)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Tests for Overtime Calculation Utilities
+ * @see src/lib/payroll/overtime.ts
+ */
+
+import {
+  calculateHourlyRate,
+  calculateOvertimeAmount,
+  formatRateMultiplier,
+  OVERTIME_RATE_MULTIPLIERS,
+} from '@/lib/payroll/overtime';
+
+describe('Overtime Calculation Utilities', () => {
+  describe('calculateHourlyRate', () => {
+    it('should divide the basic salary by 30 days of 8 hours', () => {
+      expect(calculateHourlyRate(7200)).toBe(30);
+      expect(calculateHourlyRate(5000)).toBe(20.83);
+    });
+  });
+
+  describe('calculateOvertimeAmount', () => {
+    it('should pay regular overtime at 125%', () => {
+      expect(calculateOvertimeAmount(7200, 10, OVERTIME_RATE_MULTIPLIERS.REGULAR)).toBe(375);
+    });
+
+    it('should pay night and rest-day overtime at 150%', () => {
+      expect(calculateOvertimeAmount(7200, 8, OVERTIME_RATE_MULTIPLIERS.NIGHT_OR_REST_DAY)).toBe(360);
+    });
+
+    it('should handle fractional hours', () => {
+      expect(calculateOvertimeAmount(7200, 2.5, OVERTIME_RATE_MULTIPLIERS.REGULAR)).toBe(93.75);
+    });
+  });
+
+  describe('formatRateMultiplier', () => {
+    it('should format multipliers as percentages', () => {
+      expect(formatRateMultiplier(1.25)).toBe('125%');
+      expect(formatRateMultiplier(1.5)).toBe('150%');
+    });
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Tests for Payslip Calculation Utilities
+ * @see src/lib/payroll/payslip-calculation.ts
+ */
+
+import { PayrollStatus } from '@prisma/client';
+import {
+  calculatePayslipTotals,
+  diffPayslips,
+  isPayrollEditable,
+  summarizePayslipTotals,
+  PayslipSnapshot,
+} from '@/lib/payroll/payslip-calculation';
+
+describe('Payslip Calculation Utilities', () => {
+  const components = {
+    basicSalary: 6000,
+    housingAllowance: 2000,
+    transportAllowance: 1000,
+    foodAllowance: 500,
+    phoneAllowance: 200,
+    otherAllowances: 300,
+  };
+
+  describe('calculatePayslipTotals', () => {
+    it('should add earnings to gross and subtract deductions from net', () => {
+      expect(calculatePayslipTotals(components, [{ amount: 1500 }], [{ amount: 400 }, { amount: 100.5 }])).toEqual({
+        grossSalary: 11500,
+        totalDeductions: 500.5,
+        netSalary: 10999.5,
+      });
+    });
+
+    it('should use the salary components alone without lines', () => {
+      expect(calculatePayslipTotals(components, [], [])).toEqual({
+        grossSalary: 10000,
+        totalDeductions: 0,
+        netSalary: 10000,
+      });
+    });
+  });
+
+  describe('summarizePayslipTotals', () => {
+    it('should total payslips', () => {
+      expect(summarizePayslipTotals([
+        { grossSalary: 100, totalDeductions: 10, netSalary: 90 },
+        { grossSalary: 200.25, totalDeductions: 0, netSalary: 200.25 },
+      ])).toEqual({ totalGross: 300.25, totalDeductions: 10, totalNet: 290.25, employeeCount: 2 });
+    });
+  });
+
+  describe('isPayrollEditable', () => {
+    it('should allow changes only before submission', () => {
+      expect(isPayrollEditable(PayrollStatus.DRAFT)).toBe(true);
+      expect(isPayrollEditable(PayrollStatus.PROCESSED)).toBe(true);
+      expect(isPayrollEditable(PayrollStatus.PENDING_APPROVAL)).toBe(false);
+      expect(isPayrollEditable(PayrollStatus.APPROVED)).toBe(false);
+      expect(isPayrollEditable(PayrollStatus.PAID)).toBe(false);
+    });
+  });
+
+  describe('diffPayslips', () => {
+    const payslip = (userId: string, net: number, deductions: PayslipSnapshot['deductions'] = []): PayslipSnapshot => ({
+      userId,
+      employeeName: userId.toUpperCase(),
+      grossSalary: net + deductions.reduce((sum, d) => sum + d.amount, 0),
+      totalDeductions: deductions.reduce((sum, d) => sum + d.amount, 0),
+      netSalary: net,
+      deductions,
+    });
+
+    const unpaidLeave = { type: 'UNPAID_LEAVE', description: 'Unpaid Leave (2 days)', amount: 666.67 };
+
+    it('should classify added, removed, changed and unchanged payslips', () => {
+      const diff = diffPayslips(
+        [payslip('a', 10000), payslip('b', 5000), payslip('c', 3000)],
+        [payslip('a', 10000), payslip('b', 4333.33, [unpaidLeave]), payslip('d', 7000)]
+      );
+
+      expect(diff.added.map(p => p.userId)).toEqual(['d']);
+      expect(diff.removed.map(p => p.userId)).toEqual(['c']);
+      expect(diff.unchangedCount).toBe(1);
+      expect(diff.changed).toHaveLength(1);
+      expect(diff.changed[0]).toMatchObject({
+        userId: 'b',
+        netDifference: -666.67,
+        deductionsAdded: [unpaidLeave],
+        deductionsRemoved: [],
+      });
+      expect(diff.before.totalNet).toBe(18000);
+      expect(diff.after.totalNet).toBe(21333.33);
+    });
+
+    it('should report replaced deductions even when totals match', () => {
+      const other = { ...unpaidLeave, description: 'Unpaid Leave (2 days, revised)' };
+      const diff = diffPayslips([payslip('a', 1000, [unpaidLeave])], [payslip('a', 1000, [other])]);
+
+      expect(diff.changed[0].deductionsAdded).toEqual([other]);
+      expect(diff.changed[0].deductionsRemoved).toEqual([unpaidLeave]);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Tests for Payslip PDF Generation
+ * @see src/lib/payroll/payslip-pdf.ts
+ * @jest-environment node
+ */
+
+import {
+  generatePayslipPdf,
+  getPayslipPassword,
+  getPayslipPdfFilename,
+  PayslipPdfBranding,
+} from '@/lib/payroll/payslip-pdf';
+import type { PayslipPdfData } from '@/lib/types/payroll';
+
+const branding: PayslipPdfBranding = {
+  companyName: 'Be Creative',
+  primaryColor: '#73C5D1',
+  logo: null,
+};
+
+const payslip: PayslipPdfData = {
+  payslipId: 'payslip-1',
+  payslipNumber: 'PS-2024-06-00001',
+  year: 2024,
+  month: 6,
+  employeeName: 'Aisha Khan',
+  employeeId: 'BCE-001',
+  designation: 'Designer',
+  email: 'aisha@example.com',
+  qidNumber: '284-1234-5678',
+  bankName: 'QNB',
+  iban: 'QA58QNBA000000000000693123456',
+  earnings: [
+    { label: 'Basic Salary', amount: 10000 },
+    { label: 'Overtime', description: '10 hours', amount: 750 },
+  ],
+  deductions: [{ label: 'Loan Repayment', description: 'LOAN-001', amount: 500 }],
+  grossSalary: 10750,
+  totalDeductions: 500,
+  netSalary: 10250,
+  paidAt: new Date(2024, 5, 28),
+};
+
+describe('Payslip PDF', () => {
+  describe('getPayslipPassword', () => {
+    it('uses the digits of the QID', () => {
+      expect(getPayslipPassword('284-1234-5678')).toBe('28412345678');
+    });
+
+    it('returns null without a QID', () => {
+      expect(getPayslipPassword(null)).toBeNull();
+      expect(getPayslipPassword('')).toBeNull();
+      expect(getPayslipPassword('N/A')).toBeNull();
+    });
+  });
+
+  describe('getPayslipPdfFilename', () => {
+    it('combines the payslip number and a file-safe employee name', () => {
+      expect(getPayslipPdfFilename({ payslipNumber: 'PS-2024-06-00001', employeeName: 'Aisha  Khan (HR)' }))
+        .toBe('PS-2024-06-00001-Aisha-Khan-HR.pdf');
+    });
+
+    it('falls back to the payslip number alone', () => {
+      expect(getPayslipPdfFilename({ payslipNumber: 'PS-2024-06-00001', employeeName: '!!' }))
+        .toBe('PS-2024-06-00001.pdf');
+    });
+  });
+
+  describe('generatePayslipPdf', () => {
+    it('produces a PDF document', () => {
+      const pdf = generatePayslipPdf(payslip, branding);
+
+      expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+      expect(pdf.toString('latin1')).not.toContain('/Encrypt');
+    });
+
+    it('encrypts the document when a password is given', () => {
+      const pdf = generatePayslipPdf(payslip, branding, { password: '28412345678' });
+
+      expect(pdf.toString('latin1')).toContain('/Encrypt');
+    });
+
+    it('falls back to the default colour for invalid branding colours', () => {
+      expect(() => generatePayslipPdf(payslip, { ...branding, primaryColor: 'teal' })).not.toThrow();
+    });
+  });
+});
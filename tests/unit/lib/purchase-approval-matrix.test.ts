@@ -0,0 +1,181 @@
+/**
+ * Tests for Purchase Approval Matrix
+ * @see src/lib/domains/projects/purchase-requests/approval-matrix.ts
+ */
+
+import {
+  getDaysWaiting,
+  getStepHolderText,
+  isStepStalled,
+  matchesApprovalRule,
+  resolveApprovalSteps,
+  selectApprovalRule,
+  ApprovalRuleConfig,
+} from '@/lib/domains/projects/purchase-requests/approval-matrix';
+import { canActOnStep } from '@/lib/domains/hr/leave/approval-chain';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const rules: ApprovalRuleConfig[] = [
+  {
+    ruleOrder: 2,
+    name: 'Standard',
+    minAmountQAR: null,
+    purchaseTypes: [],
+    steps: [{ stepOrder: 1, name: 'Finance', approverType: 'ADMIN', approverId: null }],
+  },
+  {
+    ruleOrder: 1,
+    name: 'Major spend or services',
+    minAmountQAR: '50000.00',
+    purchaseTypes: ['SERVICES'],
+    steps: [
+      { stepOrder: 1, name: 'Department Head', approverType: 'DEPARTMENT_HEAD', approverId: null },
+      { stepOrder: 2, name: 'CEO', approverType: 'USER', approverId: 'ceo' },
+    ],
+  },
+];
+
+describe('Purchase Approval Matrix', () => {
+  describe('matchesApprovalRule', () => {
+    const rule = { minAmountQAR: 50000, purchaseTypes: ['SERVICES'] };
+
+    it('matches requests at or above the minimum amount', () => {
+      expect(matchesApprovalRule(rule, 50000, 'HARDWARE')).toBe(true);
+      expect(matchesApprovalRule(rule, 49999.99, 'HARDWARE')).toBe(false);
+    });
+
+    it('matches requests of a listed purchase type at any amount', () => {
+      expect(matchesApprovalRule(rule, 100, 'SERVICES')).toBe(true);
+    });
+
+    it('matches on amount alone when no types are listed', () => {
+      expect(matchesApprovalRule({ minAmountQAR: 5000, purchaseTypes: [] }, 100, 'SERVICES')).toBe(false);
+      expect(matchesApprovalRule({ minAmountQAR: 5000, purchaseTypes: [] }, 5000, 'SERVICES')).toBe(true);
+    });
+
+    it('matches every request when the rule has no conditions', () => {
+      expect(matchesApprovalRule({ minAmountQAR: null, purchaseTypes: [] }, 0, 'OTHER')).toBe(true);
+    });
+  });
+
+  describe('selectApprovalRule', () => {
+    it('picks the first matching rule by order', () => {
+      expect(selectApprovalRule(rules, 60000, 'HARDWARE')?.name).toBe('Major spend or services');
+      expect(selectApprovalRule(rules, 200, 'SERVICES')?.name).toBe('Major spend or services');
+      expect(selectApprovalRule(rules, 200, 'HARDWARE')?.name).toBe('Standard');
+    });
+
+    it('returns null when no rule applies', () => {
+      expect(selectApprovalRule([rules[1]], 200, 'HARDWARE')).toBeNull();
+      expect(selectApprovalRule([], 200, 'HARDWARE')).toBeNull();
+    });
+  });
+
+  describe('resolveApprovalSteps', () => {
+    it('assigns department head and line manager steps to the requester\'s approvers', () => {
+      const steps = resolveApprovalSteps(
+        [
+          { stepOrder: 1, name: 'Manager', approverType: 'LINE_MANAGER', approverId: null },
+          { stepOrder: 2, name: 'Department Head', approverType: 'DEPARTMENT_HEAD', approverId: null },
+        ],
+        { requesterId: 'emp', managerId: 'mgr', departmentHeadId: 'head' }
+      );
+
+      expect(steps).toEqual([
+        { stepOrder: 1, name: 'Manager', approverType: 'USER', approverId: 'mgr' },
+        { stepOrder: 2, name: 'Department Head', approverType: 'USER', approverId: 'head' },
+      ]);
+    });
+
+    it('falls back to any admin when no approver is on file', () => {
+      const [step] = resolveApprovalSteps(rules[1].steps.slice(0, 1), { requesterId: 'emp' });
+      expect(step).toEqual({ stepOrder: 1, name: 'Department Head', approverType: 'ADMIN', approverId: null });
+    });
+
+    it('never lets the requester approve their own request', () => {
+      const steps = resolveApprovalSteps(rules[1].steps, { requesterId: 'ceo', departmentHeadId: 'ceo' });
+      expect(steps.map(step => step.approverType)).toEqual(['ADMIN', 'ADMIN']);
+      expect(steps.every(step => step.approverId === null)).toBe(true);
+    });
+
+    it('keeps an admin requester, or their delegate, off their own request\'s admin steps', () => {
+      const [step] = resolveApprovalSteps(rules[1].steps, { requesterId: 'ceo', departmentHeadId: 'ceo' });
+      const at = new Date(2025, 5, 5);
+      const delegations = [
+        { delegatorId: 'deputy', delegateId: 'ceo', startDate: new Date(2025, 5, 1), endDate: new Date(2025, 5, 10) },
+      ];
+
+      expect(canActOnStep(step, { id: 'ceo', role: 'ADMIN' }, [], at, 'ceo').allowed).toBe(false);
+      expect(canActOnStep(step, { id: 'ceo', role: 'ADMIN' }, delegations, at, 'ceo').allowed).toBe(false);
+      expect(canActOnStep(step, { id: 'cfo', role: 'ADMIN' }, [], at, 'ceo').allowed).toBe(true);
+    });
+
+    it('renumbers steps in chain order', () => {
+      const steps = resolveApprovalSteps(
+        [
+          { stepOrder: 5, name: 'CEO', approverType: 'USER', approverId: 'ceo' },
+          { stepOrder: 2, name: 'Finance', approverType: 'ADMIN', approverId: 'ignored' },
+        ],
+        { requesterId: 'emp' }
+      );
+
+      expect(steps).toEqual([
+        { stepOrder: 1, name: 'Finance', approverType: 'ADMIN', approverId: null },
+        { stepOrder: 2, name: 'CEO', approverType: 'USER', approverId: 'ceo' },
+      ]);
+    });
+  });
+
+  describe('isStepStalled', () => {
+    const now = new Date('2026-03-10T09:00:00Z');
+
+    it('flags pending steps waiting for the reminder period', () => {
+      expect(isStepStalled({ status: 'PENDING', activatedAt: new Date(now.getTime() - 2 * DAY) }, now)).toBe(true);
+      expect(isStepStalled({ status: 'PENDING', activatedAt: new Date(now.getTime() - DAY) }, now)).toBe(false);
+    });
+
+    it('counts from the last reminder once one was sent', () => {
+      const step = {
+        status: 'PENDING',
+        activatedAt: new Date(now.getTime() - 5 * DAY),
+        lastRemindedAt: new Date(now.getTime() - DAY),
+      };
+      expect(isStepStalled(step, now)).toBe(false);
+      expect(isStepStalled(step, now, 1)).toBe(true);
+    });
+
+    it('ignores decided and not yet active steps', () => {
+      expect(isStepStalled({ status: 'APPROVED', activatedAt: new Date(now.getTime() - 9 * DAY) }, now)).toBe(false);
+      expect(isStepStalled({ status: 'PENDING', activatedAt: null }, now)).toBe(false);
+    });
+  });
+
+  describe('getDaysWaiting', () => {
+    it('counts whole days since the step became current', () => {
+      const now = new Date('2026-03-10T09:00:00Z');
+      expect(getDaysWaiting('2026-03-07T10:00:00Z', now)).toBe(2);
+      expect(getDaysWaiting('2026-03-10T08:00:00Z', now)).toBe(0);
+      expect(getDaysWaiting('2026-03-11T08:00:00Z', now)).toBe(0);
+    });
+  });
+
+  describe('getStepHolderText', () => {
+    it('names the assigned approver', () => {
+      expect(getStepHolderText({
+        name: 'CEO',
+        approverType: 'USER',
+        approver: { name: 'Jane Smith', email: 'jane@example.com' },
+      })).toBe('Jane Smith (CEO)');
+    });
+
+    it('falls back to the email, or any admin for admin steps', () => {
+      expect(getStepHolderText({
+        name: 'CEO',
+        approverType: 'USER',
+        approver: { name: null, email: 'jane@example.com' },
+      })).toBe('jane@example.com (CEO)');
+      expect(getStepHolderText({ name: 'Finance', approverType: 'ADMIN', approver: null })).toBe('Any admin (Finance)');
+    });
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Tests for Purchase Orders
+ * @see src/lib/domains/projects/purchase-orders/purchase-order.ts
+ * @see src/lib/domains/projects/purchase-orders/purchase-order-pdf.ts
+ * @jest-environment node
+ */
+
+import { PurchaseOrderStatus } from '@prisma/client';
+import {
+  calculatePurchaseOrderTotals,
+  canCancelPurchaseOrder,
+  canClosePurchaseOrder,
+  canReceivePurchaseOrder,
+  getOrderedItems,
+  getReceivingStatus,
+} from '@/lib/domains/projects/purchase-orders/purchase-order';
+import {
+  PurchaseOrderPdfData,
+  generatePurchaseOrderPdf,
+  getPurchaseOrderFilename,
+} from '@/lib/domains/projects/purchase-orders/purchase-order-pdf';
+
+const { ISSUED, PARTIALLY_RECEIVED, RECEIVED, CLOSED, CANCELLED } = PurchaseOrderStatus;
+
+function pdfData(overrides: Partial<PurchaseOrderPdfData> = {}): PurchaseOrderPdfData {
+  return {
+    poNumber: 'BCE-PO-25001',
+    orderDate: new Date(2025, 2, 10),
+    expectedDeliveryDate: new Date(2025, 2, 24),
+    purchaseRequestReference: 'BCE-PR-2503001',
+    supplier: {
+      name: 'Gulf IT Supplies',
+      code: 'SUPP-0007',
+      address: 'Salwa Road, Doha, Qatar',
+      contactName: 'Ahmed Ali',
+      contactEmail: 'sales@gulfit.qa',
+      contactPhone: '+974 5555 0000',
+    },
+    deliveryAddress: 'Office 12, West Bay, Doha',
+    paymentTerms: '30 days from invoice',
+    deliveryTerms: 'Delivered and installed',
+    notes: null,
+    currency: 'QAR',
+    lines: [
+      { lineNumber: 1, description: 'Dell Latitude 5440', quantity: 3, unitPrice: 4200, totalPrice: 12600 },
+      { lineNumber: 2, description: 'USB-C docking station', quantity: 3, unitPrice: 650, totalPrice: 1950 },
+    ],
+    totalAmount: 14550,
+    issuedBy: 'Jane Smith',
+    ...overrides,
+  };
+}
+
+describe('Purchase Orders', () => {
+  describe('getOrderedItems', () => {
+    it('maps each item to the order it is on', () => {
+      const ordered = getOrderedItems([
+        { purchaseRequestItemId: 'item-1', purchaseOrder: { poNumber: 'BCE-PO-25001', status: ISSUED } },
+        { purchaseRequestItemId: 'item-2', purchaseOrder: { poNumber: 'BCE-PO-25002', status: CLOSED } },
+      ]);
+
+      expect(ordered.get('item-1')).toBe('BCE-PO-25001');
+      expect(ordered.get('item-2')).toBe('BCE-PO-25002');
+    });
+
+    it('frees items of cancelled orders', () => {
+      const ordered = getOrderedItems([
+        { purchaseRequestItemId: 'item-1', purchaseOrder: { poNumber: 'BCE-PO-25001', status: CANCELLED } },
+      ]);
+
+      expect(ordered.has('item-1')).toBe(false);
+    });
+
+    it('keeps the live order when an item was reordered after a cancellation', () => {
+      const ordered = getOrderedItems([
+        { purchaseRequestItemId: 'item-1', purchaseOrder: { poNumber: 'BCE-PO-25001', status: CANCELLED } },
+        { purchaseRequestItemId: 'item-1', purchaseOrder: { poNumber: 'BCE-PO-25003', status: ISSUED } },
+      ]);
+
+      expect(ordered.get('item-1')).toBe('BCE-PO-25003');
+    });
+  });
+
+  describe('calculatePurchaseOrderTotals', () => {
+    it('adds up the item totals in the request currency and in QAR', () => {
+      expect(calculatePurchaseOrderTotals([
+        { totalPrice: '1000.00', totalPriceQAR: '3640.00' },
+        { totalPrice: 250, totalPriceQAR: 910 },
+      ])).toEqual({ totalAmount: 1250, totalAmountQAR: 4550 });
+    });
+
+    it('falls back to the item total when no QAR total was stored', () => {
+      expect(calculatePurchaseOrderTotals([{ totalPrice: 500, totalPriceQAR: null }]))
+        .toEqual({ totalAmount: 500, totalAmountQAR: 500 });
+    });
+  });
+
+  describe('getReceivingStatus', () => {
+    it('is issued while nothing has arrived', () => {
+      expect(getReceivingStatus([{ quantity: 3, quantityReceived: 0 }])).toBe(ISSUED);
+    });
+
+    it('is partially received while some lines are short', () => {
+      expect(getReceivingStatus([
+        { quantity: 3, quantityReceived: 3 },
+        { quantity: 2, quantityReceived: 0 },
+      ])).toBe(PARTIALLY_RECEIVED);
+    });
+
+    it('is received once every line is in full', () => {
+      expect(getReceivingStatus([
+        { quantity: 3, quantityReceived: 3 },
+        { quantity: 2, quantityReceived: 2 },
+      ])).toBe(RECEIVED);
+    });
+  });
+
+  describe('status actions', () => {
+    it('records deliveries until the order is closed or cancelled', () => {
+      expect([ISSUED, PARTIALLY_RECEIVED, RECEIVED].every(canReceivePurchaseOrder)).toBe(true);
+      expect(canReceivePurchaseOrder(CLOSED)).toBe(false);
+      expect(canReceivePurchaseOrder(CANCELLED)).toBe(false);
+    });
+
+    it('closes orders once something has arrived', () => {
+      expect(canClosePurchaseOrder(PARTIALLY_RECEIVED)).toBe(true);
+      expect(canClosePurchaseOrder(RECEIVED)).toBe(true);
+      expect(canClosePurchaseOrder(ISSUED)).toBe(false);
+      expect(canClosePurchaseOrder(CLOSED)).toBe(false);
+    });
+
+    it('cancels only orders with nothing received', () => {
+      expect(canCancelPurchaseOrder(ISSUED)).toBe(true);
+      expect(canCancelPurchaseOrder(PARTIALLY_RECEIVED)).toBe(false);
+      expect(canCancelPurchaseOrder(CANCELLED)).toBe(false);
+    });
+  });
+
+  describe('generatePurchaseOrderPdf', () => {
+    it('renders a PDF document', () => {
+      const pdf = generatePurchaseOrderPdf(pdfData(), { companyName: 'Be Creative', primaryColor: '#0F766E' });
+
+      expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+    });
+
+    it('renders long orders across pages', () => {
+      const lines = Array.from({ length: 60 }, (_, index) => ({
+        lineNumber: index + 1,
+        description: `Item ${index + 1}`,
+        quantity: 1,
+        unitPrice: 10,
+        totalPrice: 10,
+      }));
+      const pdf = generatePurchaseOrderPdf(pdfData({ lines, totalAmount: 600 }), {
+        companyName: 'Be Creative',
+        primaryColor: 'not-a-colour',
+      });
+
+      expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+    });
+
+    it('names the file after the PO number', () => {
+      expect(getPurchaseOrderFilename('BCE-PO-25001')).toBe('Purchase-Order-BCE-PO-25001.pdf');
+    });
+  });
+});
@@ -291,6 +291,13 @@ describe('Purchase Request Utilities', () => {
       expect(transitions).not.toContain('COMPLETED');
     });
 
+    it('should not allow approving directly while an approval chain is pending', () => {
+      const transitions = getAllowedStatusTransitions('PENDING', { hasPendingApprovalChain: true });
+      expect(transitions).not.toContain('APPROVED');
+      expect(transitions).toContain('UNDER_REVIEW');
+      expect(transitions).toContain('REJECTED');
+    });
+
     it('should return empty array for COMPLETED (terminal state)', () => {
       const transitions = getAllowedStatusTransitions('COMPLETED');
       expect(transitions).toHaveLength(0);
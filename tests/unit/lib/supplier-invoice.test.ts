@@ -0,0 +1,169 @@
+/**
+ * Tests for Supplier Invoices
+ * @see src/lib/domains/projects/supplier-invoices/supplier-invoice.ts
+ */
+
+import { SupplierInvoiceStatus } from '@prisma/client';
+import {
+  buildPayablesAging,
+  canApproveSupplierInvoice,
+  canCancelSupplierInvoice,
+  canPaySupplierInvoice,
+  describeInvoiceVariances,
+  getAgingBucket,
+  getDaysOverdue,
+  InvoiceLineMatchInput,
+  matchInvoice,
+  matchInvoiceLine,
+} from '@/lib/domains/projects/supplier-invoices/supplier-invoice';
+
+const line = (overrides: Partial<InvoiceLineMatchInput> = {}): InvoiceLineMatchInput => ({
+  lineNumber: 1,
+  quantity: 10,
+  unitPrice: 100,
+  ordered: { quantity: 10, unitPrice: 100 },
+  receivedQuantity: 10,
+  otherInvoicedQuantity: 0,
+  ...overrides,
+});
+
+describe('Supplier Invoices', () => {
+  describe('matchInvoiceLine', () => {
+    it('matches a line billed as ordered and received', () => {
+      const match = matchInvoiceLine(line(), 5);
+      expect(match.issues).toEqual([]);
+      expect(match.quantityVariance).toBe(0);
+      expect(match.priceVariancePercent).toBe(0);
+    });
+
+    it('flags units billed before they were received', () => {
+      const match = matchInvoiceLine(line({ receivedQuantity: 6 }), 5);
+      expect(match.issues).toEqual(['OVER_RECEIVED']);
+      expect(match.quantityVariance).toBe(4);
+    });
+
+    it('flags more units billed than ordered', () => {
+      const match = matchInvoiceLine(line({ quantity: 12, receivedQuantity: 12 }), 5);
+      expect(match.issues).toEqual(['OVER_ORDERED']);
+    });
+
+    it('counts the item on other invoices', () => {
+      const match = matchInvoiceLine(line({ quantity: 4, otherInvoicedQuantity: 8 }), 5);
+      expect(match.invoicedQuantity).toBe(12);
+      expect(match.issues).toEqual(['OVER_ORDERED', 'OVER_RECEIVED']);
+    });
+
+    it('allows a partial invoice for what has arrived so far', () => {
+      expect(matchInvoiceLine(line({ quantity: 4, receivedQuantity: 4 }), 5).issues).toEqual([]);
+    });
+
+    it('flags prices outside the tolerance either way', () => {
+      expect(matchInvoiceLine(line({ unitPrice: 106 }), 5).issues).toEqual(['PRICE_VARIANCE']);
+      expect(matchInvoiceLine(line({ unitPrice: 90 }), 5).priceVariancePercent).toBe(-10);
+      expect(matchInvoiceLine(line({ unitPrice: 90 }), 5).issues).toEqual(['PRICE_VARIANCE']);
+    });
+
+    it('lets small differences through within the tolerance', () => {
+      expect(matchInvoiceLine(line({ unitPrice: 104 }), 5).issues).toEqual([]);
+      expect(matchInvoiceLine(line({ quantity: 105, ordered: { quantity: 100, unitPrice: 100 }, receivedQuantity: 100 }), 5).issues)
+        .toEqual([]);
+    });
+
+    it('flags any difference with a zero tolerance', () => {
+      expect(matchInvoiceLine(line({ unitPrice: 100.5 }), 0).issues).toEqual(['PRICE_VARIANCE']);
+    });
+
+    it('flags charges that are not on the request', () => {
+      const match = matchInvoiceLine(line({ ordered: null, receivedQuantity: 0 }), 5);
+      expect(match.issues).toEqual(['NOT_ORDERED']);
+      expect(match.orderedQuantity).toBeNull();
+    });
+  });
+
+  describe('matchInvoice', () => {
+    it('has a variance when any line is flagged', () => {
+      const match = matchInvoice([line(), line({ lineNumber: 2, unitPrice: 120 })], 5);
+      expect(match.hasVariance).toBe(true);
+      expect(match.tolerancePercent).toBe(5);
+      expect(describeInvoiceVariances(match)).toBe(
+        'Invoice does not match the order and receipts within 5% (line 2: price differs from order)'
+      );
+    });
+
+    it('has no variance when every line matches', () => {
+      expect(matchInvoice([line(), line({ lineNumber: 2 })], 5).hasVariance).toBe(false);
+    });
+  });
+
+  describe('status actions', () => {
+    it('approves pending invoices and pays approved ones', () => {
+      expect(canApproveSupplierInvoice(SupplierInvoiceStatus.PENDING)).toBe(true);
+      expect(canApproveSupplierInvoice(SupplierInvoiceStatus.APPROVED)).toBe(false);
+      expect(canPaySupplierInvoice(SupplierInvoiceStatus.APPROVED)).toBe(true);
+      expect(canPaySupplierInvoice(SupplierInvoiceStatus.PENDING)).toBe(false);
+    });
+
+    it('only cancels unpaid invoices', () => {
+      expect(canCancelSupplierInvoice(SupplierInvoiceStatus.PENDING)).toBe(true);
+      expect(canCancelSupplierInvoice(SupplierInvoiceStatus.APPROVED)).toBe(true);
+      expect(canCancelSupplierInvoice(SupplierInvoiceStatus.PAID)).toBe(false);
+      expect(canCancelSupplierInvoice(SupplierInvoiceStatus.CANCELLED)).toBe(false);
+    });
+  });
+
+  describe('aging', () => {
+    const asOf = new Date(2025, 5, 30);
+
+    it('counts whole days past the due date', () => {
+      expect(getDaysOverdue(new Date(2025, 5, 30, 18), asOf)).toBe(0);
+      expect(getDaysOverdue(new Date(2025, 5, 20), asOf)).toBe(10);
+      expect(getDaysOverdue(new Date(2025, 6, 5), asOf)).toBe(-5);
+    });
+
+    it('buckets by days overdue', () => {
+      expect(getAgingBucket(new Date(2025, 6, 15), asOf)).toBe('CURRENT');
+      expect(getAgingBucket(new Date(2025, 5, 30), asOf)).toBe('CURRENT');
+      expect(getAgingBucket(new Date(2025, 5, 29), asOf)).toBe('DAYS_1_30');
+      expect(getAgingBucket(new Date(2025, 4, 31), asOf)).toBe('DAYS_1_30');
+      expect(getAgingBucket(new Date(2025, 4, 30), asOf)).toBe('DAYS_31_60');
+      expect(getAgingBucket(new Date(2025, 3, 1), asOf)).toBe('DAYS_61_90');
+      expect(getAgingBucket(new Date(2025, 0, 1), asOf)).toBe('DAYS_OVER_90');
+    });
+
+    it('totals unpaid invoices per supplier, largest balance first', () => {
+      const aging = buildPayablesAging([
+        { supplierId: 'a', supplierName: 'Alpha', dueDate: new Date(2025, 6, 15), amountQAR: 1000 },
+        { supplierId: 'b', supplierName: 'Beta', dueDate: new Date(2025, 5, 10), amountQAR: 2500.5 },
+        { supplierId: 'a', supplierName: 'Alpha', dueDate: new Date(2025, 2, 1), amountQAR: 300.25 },
+        { supplierId: 'b', supplierName: 'Beta', dueDate: new Date(2025, 5, 20), amountQAR: 500 },
+      ], asOf);
+
+      expect(aging.suppliers.map(row => row.supplierName)).toEqual(['Beta', 'Alpha']);
+      expect(aging.suppliers[0]).toMatchObject({
+        total: 3000.5,
+        invoiceCount: 2,
+        maxDaysOverdue: 20,
+        buckets: { CURRENT: 0, DAYS_1_30: 3000.5, DAYS_31_60: 0, DAYS_61_90: 0, DAYS_OVER_90: 0 },
+      });
+      expect(aging.suppliers[1]).toMatchObject({
+        total: 1300.25,
+        maxDaysOverdue: 121,
+        buckets: { CURRENT: 1000, DAYS_OVER_90: 300.25 },
+      });
+      expect(aging.totals).toEqual({
+        CURRENT: 1000,
+        DAYS_1_30: 3000.5,
+        DAYS_31_60: 0,
+        DAYS_61_90: 0,
+        DAYS_OVER_90: 300.25,
+      });
+      expect(aging.total).toBe(4300.75);
+    });
+
+    it('is empty when nothing is owed', () => {
+      const aging = buildPayablesAging([], asOf);
+      expect(aging.suppliers).toEqual([]);
+      expect(aging.total).toBe(0);
+    });
+  });
+});
@@ -7,6 +7,7 @@ import {
   hrProfileSchema,
   hrProfileAdminSchema,
   hrProfileEmployeeSchema,
+  omitUnsavedHRProfileFields,
   validateQID,
   validateQatarMobile,
   validateIBAN,
@@ -406,4 +407,27 @@ describe('HR Profile Validation Schemas', () => {
       expect(result.success).toBe(true);
     });
   });
+
+  // ===== Saved Fields =====
+  describe('omitUnsavedHRProfileFields', () => {
+    it('should drop contract type and gratuity policy from a self-service update', () => {
+      const result = hrProfileEmployeeSchema.safeParse({
+        nationality: 'Qatar',
+        contractType: 'UNLIMITED',
+        gratuityPolicyId: 'policy-1',
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        const data = omitUnsavedHRProfileFields(result.data);
+        expect(data).not.toHaveProperty('contractType');
+        expect(data).not.toHaveProperty('gratuityPolicyId');
+        expect(data.nationality).toBe('Qatar');
+      }
+    });
+
+    it('should drop the reporting line and pass-through record fields', () => {
+      const data = omitUnsavedHRProfileFields({ id: 'hr-1', userId: 'user-1', managerId: 'mgr-1', nationality: 'Qatar' });
+      expect(data).toEqual({ nationality: 'Qatar' });
+    });
+  });
 });
@@ -18,6 +18,7 @@ import {
   leaveBalanceQuerySchema,
   teamCalendarQuerySchema,
   leaveTypeQuerySchema,
+  leaveConflictQuerySchema,
 } from '@/lib/validations/leave';
 
 describe('Leave Validation Schemas', () => {
@@ -831,4 +832,38 @@ describe('Leave Validation Schemas', () => {
       expect(result.success).toBe(false);
     });
   });
+
+  describe('leaveConflictQuerySchema', () => {
+    it('should validate a date range', () => {
+      const result = leaveConflictQuerySchema.safeParse({
+        startDate: '2025-06-01',
+        endDate: '2025-06-10',
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should fail with a malformed date', () => {
+      const result = leaveConflictQuerySchema.safeParse({
+        startDate: 'not-a-date',
+        endDate: '2025-06-10',
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should fail when end date is before start date', () => {
+      const result = leaveConflictQuerySchema.safeParse({
+        startDate: '2025-06-10',
+        endDate: '2025-06-01',
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should fail with a range over a year', () => {
+      const result = leaveConflictQuerySchema.safeParse({
+        startDate: '2025-01-01',
+        endDate: '2026-06-01',
+      });
+      expect(result.success).toBe(false);
+    });
+  });
 });
@@ -0,0 +1,223 @@
+/**
+ * Tests for WPS SIF File Utilities
+ * @see src/lib/payroll/wps.ts
+ */
+
+import {
+  generateWPSSIFFile,
+  generateWPSFileName,
+  parseWPSSIFFile,
+  reconcileWPSRecords,
+  getBankCode,
+  getDeductionReasonCode,
+  validateWPSRecord,
+  validateWPSHeader,
+  STANDARD_SIF_VARIANT,
+} from '@/lib/payroll/wps';
+import type { WPSEmployeeRecord, WPSFileHeader } from '@/lib/types/payroll';
+
+describe('WPS SIF File Utilities', () => {
+  const record: WPSEmployeeRecord = {
+    qidNumber: '28435612345',
+    employeeName: 'Ahmed Ali',
+    bankCode: 'QNBA',
+    iban: 'QA58QNBA000000000012345678901',
+    salaryFrequency: 'M',
+    workingDays: 30,
+    basicSalary: 6000,
+    housingAllowance: 2000,
+    foodAllowance: 500,
+    transportAllowance: 1000,
+    otherAllowances: 300,
+    overtimeAllowance: 0,
+    extraHours: 0,
+    totalDeductions: 500,
+    deductionReasonCode: '2',
+    netSalary: 9300,
+  };
+
+  const header: WPSFileHeader = {
+    employerEid: '1234567',
+    payerEid: '1234567',
+    payerBankShortName: 'CBQQ',
+    payerIban: 'QA12CBQQ000000000098765432109',
+    paymentMonth: 3,
+    paymentYear: 2025,
+    paymentDate: new Date(2025, 2, 28, 9, 5),
+    totalRecords: 1,
+    totalAmount: 9300,
+  };
+
+  describe('generateWPSSIFFile', () => {
+    it('should emit field-name rows, the employer record and employee records', () => {
+      const lines = generateWPSSIFFile(header, [record]).split('\r\n');
+
+      expect(lines).toHaveLength(4);
+      expect(lines[0]).toMatch(/^Employer EID,File Creation Date/);
+      expect(lines[1]).toBe('1234567,20250328,0905,1234567,,CBQQ,QA12CBQQ000000000098765432109,202503,9300.00,1');
+      expect(lines[2]).toMatch(/^Record Sequence,Employee QID/);
+      expect(lines[3].split(',')).toEqual([
+        '000001', '28435612345', '', 'AHMED ALI', 'QNBA', 'QA58QNBA000000000012345678901',
+        'M', '30', '9300.00', '6000.00', '0', '3800.00', '500.00', 'Normal Payment', '',
+        '2000.00', '500.00', '1000.00', '0.00', '2',
+      ]);
+    });
+
+    it('should quote names containing the delimiter', () => {
+      const content = generateWPSSIFFile(header, [{ ...record, employeeName: 'Ali, Ahmed' }]);
+
+      expect(content).toContain('"ALI, AHMED"');
+    });
+
+    it('should apply a bank variant', () => {
+      const variant = { ...STANDARD_SIF_VARIANT, includeFieldNames: false, nameMaxLength: 5 };
+      const content = generateWPSSIFFile({ ...header, payerBankShortName: 'DHBQ' }, [record], variant);
+      const lines = content.split('\r\n');
+
+      expect(lines).toHaveLength(2);
+      expect(lines[1].split(',')[3]).toBe('AHMED');
+    });
+  });
+
+  describe('parseWPSSIFFile', () => {
+    it('should round-trip a generated file', () => {
+      const parsed = parseWPSSIFFile(generateWPSSIFFile(header, [record]));
+
+      expect(parsed.errors).toEqual([]);
+      expect(parsed.header).toMatchObject({
+        employerEid: '1234567',
+        payerBankShortName: 'CBQQ',
+        paymentYear: 2025,
+        paymentMonth: 3,
+        totalAmount: 9300,
+        totalRecords: 1,
+      });
+      expect(parsed.records[0]).toMatchObject({
+        ...record,
+        employeeName: 'AHMED ALI',
+        sequence: 1,
+        extraIncome: 3800,
+      });
+    });
+
+    it('should parse files without field-name rows', () => {
+      const content = generateWPSSIFFile(header, [record], { ...STANDARD_SIF_VARIANT, includeFieldNames: false });
+      const parsed = parseWPSSIFFile(content);
+
+      expect(parsed.records).toHaveLength(1);
+      expect(parsed.header?.employerEid).toBe('1234567');
+    });
+
+    it('should report totals that do not match the records', () => {
+      const parsed = parseWPSSIFFile(generateWPSSIFFile({ ...header, totalRecords: 2, totalAmount: 100 }, [record]));
+
+      expect(parsed.errors).toHaveLength(2);
+    });
+
+    it('should report an empty file', () => {
+      expect(parseWPSSIFFile('\r\n').errors).toEqual(['File is empty']);
+    });
+  });
+
+  describe('reconcileWPSRecords', () => {
+    it('should classify matched, missing, unexpected and mismatched records', () => {
+      const result = reconcileWPSRecords(
+        [
+          { qidNumber: 'a', netSalary: 100 },
+          { qidNumber: 'b', netSalary: 250 },
+          { qidNumber: 'x', netSalary: 50 },
+        ],
+        [
+          { qidNumber: 'a', netSalary: 100 },
+          { qidNumber: 'b', netSalary: 200 },
+          { qidNumber: 'c', netSalary: 300 },
+        ]
+      );
+
+      expect(result.matched).toEqual(['a']);
+      expect(result.amountMismatches).toEqual([{ qidNumber: 'b', expected: 200, actual: 250 }]);
+      expect(result.missingFromFile).toEqual(['c']);
+      expect(result.unexpectedInFile).toEqual(['x']);
+    });
+  });
+
+  describe('getBankCode', () => {
+    it('should resolve bank names and codes', () => {
+      expect(getBankCode('Qatar National Bank')).toBe('QNBA');
+      expect(getBankCode(' qib ')).toBe('QISB');
+      expect(getBankCode('DUKH')).toBe('DUKH');
+    });
+
+    it('should fall back to the IBAN bank identifier', () => {
+      expect(getBankCode('My Bank', 'QA58 DHBQ 0000 0000 1234 5678 9012 3')).toBe('DHBQ');
+    });
+
+    it('should return null for unknown banks', () => {
+      expect(getBankCode('Unknown Bank')).toBeNull();
+      expect(getBankCode(null, 'QA58ZZZZ000000000012345678901')).toBeNull();
+    });
+  });
+
+  describe('getDeductionReasonCode', () => {
+    it('should use the code of the largest deduction', () => {
+      expect(getDeductionReasonCode([
+        { type: 'UNPAID_LEAVE', amount: 100 },
+        { type: 'LOAN_REPAYMENT', amount: 400 },
+      ])).toBe('2');
+    });
+
+    it('should return null without deductions', () => {
+      expect(getDeductionReasonCode([])).toBeNull();
+    });
+  });
+
+  describe('validateWPSRecord', () => {
+    it('should accept a valid record', () => {
+      expect(validateWPSRecord(record)).toEqual([]);
+    });
+
+    it('should report every problem', () => {
+      const errors = validateWPSRecord({
+        ...record,
+        qidNumber: '123',
+        iban: 'QA123',
+        bankCode: null,
+        workingDays: 40,
+        deductionReasonCode: null,
+      });
+
+      expect(errors).toHaveLength(5);
+    });
+
+    it('should accept a visa ID instead of a QID', () => {
+      expect(validateWPSRecord({ ...record, qidNumber: '', visaId: 'V123' })).toEqual([]);
+    });
+
+    it('should reject a net salary that does not add up', () => {
+      expect(validateWPSRecord({ ...record, netSalary: 9000 })).toEqual([
+        'Net salary 9000.00 does not equal basic + extra income - deductions (9300.00)',
+      ]);
+    });
+  });
+
+  describe('validateWPSHeader', () => {
+    it('should accept a complete header', () => {
+      expect(validateWPSHeader(header)).toEqual([]);
+    });
+
+    it('should reject placeholder and missing settings', () => {
+      expect(validateWPSHeader({
+        employerEid: '0000000000',
+        payerEid: '',
+        payerBankShortName: 'XXXX',
+        payerIban: '',
+      })).toHaveLength(4);
+    });
+  });
+
+  describe('generateWPSFileName', () => {
+    it('should include employer, payer bank and creation time', () => {
+      expect(generateWPSFileName(header)).toBe('SIF_1234567_CBQQ_20250328_0905.csv');
+    });
+  });
+});